@@ -5,6 +5,7 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { ProtectedRoute } from "@/components/auth/ProtectedRoute";
+import { FreelancerRoute } from "@/components/auth/FreelancerRoute";
 import Hub from "./pages/Hub";
 import ExpressionMap from "./pages/ExpressionMap";
 import AvatarRepose from "./pages/AvatarRepose";
@@ -20,8 +21,11 @@ import SetupAdmin from "./pages/SetupAdmin";
 import Unauthorized from "./pages/Unauthorized";
 import NotFound from "./pages/NotFound";
 import JobBoard from "./pages/JobBoard";
+import FreelancerAnalytics from "./pages/FreelancerAnalytics";
 import UserManagement from "./pages/UserManagement";
 import DataExport from "./pages/DataExport";
+import PromptLibrary from "./pages/PromptLibrary";
+import AISpend from "./pages/AISpend";
 
 import FreelancerJobList from "./pages/FreelancerJobList";
 import FreelancerJobDetail from "./pages/FreelancerJobDetail";
@@ -47,15 +51,15 @@ const App = () => (
             <Route path="/setup-admin" element={<SetupAdmin />} />
             <Route path="/unauthorized" element={<Unauthorized />} />
             
-            {/* Freelancer signup - public */}
+            {/* Freelancer invite redemption and sign-in - public */}
             <Route path="/freelancer/join" element={<FreelancerAuth />} />
             
             {/* Client review - has its own password protection */}
             <Route path="/review/:reviewId" element={<ClientReview />} />
             
-            {/* Public freelancer board - single link access (legacy) */}
-            <Route path="/work" element={<PublicFreelancerBoard />} />
-            <Route path="/work/:jobId" element={<PublicJobWorkspace />} />
+            {/* Freelancer portal - invite or magic link sign-in at /freelancer/join */}
+            <Route path="/work" element={<FreelancerRoute><PublicFreelancerBoard /></FreelancerRoute>} />
+            <Route path="/work/:jobId" element={<FreelancerRoute><PublicJobWorkspace /></FreelancerRoute>} />
             <Route 
               path="/" 
               element={
@@ -191,10 +195,18 @@ const App = () => (
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/jobs/freelancers" 
+              element={
+                <ProtectedRoute requiredRoles={['admin', 'internal']}>
+                  <FreelancerAnalytics />
+                </ProtectedRoute>
+              } 
+            />
             <Route 
               path="/users" 
               element={
-                <ProtectedRoute requiredRoles={['admin']}>
+                <ProtectedRoute requiredRoles={['admin', 'internal']} requiredPermission="users.invite">
                   <UserManagement />
                 </ProtectedRoute>
               } 
@@ -207,6 +219,22 @@ const App = () => (
                 </ProtectedRoute>
               } 
             />
+            <Route 
+              path="/prompt-library" 
+              element={
+                <ProtectedRoute requiredRoles={['admin', 'internal']}>
+                  <PromptLibrary />
+                </ProtectedRoute>
+              } 
+            />
+            <Route 
+              path="/ai-spend" 
+              element={
+                <ProtectedRoute requiredRoles={['admin', 'internal']}>
+                  <AISpend />
+                </ProtectedRoute>
+              } 
+            />
             
             {/* Freelancer routes - redirect to unified public portal */}
             <Route path="/freelancer" element={<Navigate to="/work" replace />} />
@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useDeleteAIBudget, useSaveAIBudget } from "@/hooks/useAISpend";
+import {
+  AI_BUDGET_ENFORCEMENT_LABELS,
+  AI_BUDGET_PERIOD_LABELS,
+  type AIBudget,
+  type AIBudgetEnforcement,
+  type AIBudgetPeriod,
+} from "@/lib/aiSpend";
+
+interface AIBudgetDialogProps {
+  scope: { projectId: string | null; brandId: string | null; name: string } | null;
+  budget: AIBudget | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function AIBudgetDialog({ scope, budget, onOpenChange }: AIBudgetDialogProps) {
+  const [limit, setLimit] = useState("");
+  const [enforcement, setEnforcement] = useState<AIBudgetEnforcement>("soft");
+  const [period, setPeriod] = useState<AIBudgetPeriod>("total");
+  const saveBudget = useSaveAIBudget();
+  const deleteBudget = useDeleteAIBudget();
+
+  useEffect(() => {
+    if (!scope) return;
+    setLimit(budget ? String(budget.limit_usd) : "");
+    setEnforcement(budget?.enforcement ?? "soft");
+    setPeriod(budget?.period ?? "total");
+  }, [scope, budget]);
+
+  const parsedLimit = parseFloat(limit);
+  const isLimitValid = Number.isFinite(parsedLimit) && parsedLimit > 0;
+
+  const handleSave = () => {
+    if (!scope || !isLimitValid) return;
+    saveBudget.mutate(
+      {
+        projectId: scope.projectId,
+        brandId: scope.brandId,
+        limitUsd: parsedLimit,
+        enforcement,
+        period,
+      },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  const handleDelete = () => {
+    if (!budget) return;
+    deleteBudget.mutate(budget.id, { onSuccess: () => onOpenChange(false) });
+  };
+
+  return (
+    <Dialog open={!!scope} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>AI budget for {scope?.name}</DialogTitle>
+          <DialogDescription>
+            A soft budget pauses running jobs once when it's used up. A hard budget pauses them and refuses
+            further AI calls until it's raised.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="ai-budget-limit">Limit (USD)</Label>
+            <Input
+              id="ai-budget-limit"
+              type="number"
+              min={0}
+              step={1}
+              value={limit}
+              onChange={(e) => setLimit(e.target.value)}
+              placeholder="e.g. 250"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Enforcement</Label>
+              <Select value={enforcement} onValueChange={(value) => setEnforcement(value as AIBudgetEnforcement)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(AI_BUDGET_ENFORCEMENT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <Select value={period} onValueChange={(value) => setPeriod(value as AIBudgetPeriod)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(AI_BUDGET_PERIOD_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          {budget ? (
+            <Button variant="ghost" onClick={handleDelete} disabled={deleteBudget.isPending}>
+              Remove Budget
+            </Button>
+          ) : (
+            <span />
+          )}
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!isLimitValid || saveBudget.isPending}>
+              {saveBudget.isPending ? "Saving..." : "Save Budget"}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
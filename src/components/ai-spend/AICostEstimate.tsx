@@ -0,0 +1,55 @@
+import { AlertTriangle, DollarSign } from "lucide-react";
+import { useAIBudgetStatus } from "@/hooks/useAISpend";
+import { formatUsd } from "@/lib/aiSpend";
+import { cn } from "@/lib/utils";
+
+interface AICostEstimateProps {
+  /** null when a model in the plan has no price */
+  estimateUsd: number | null;
+  /** Production project and brand whose budgets the run counts against */
+  projectId?: string | null;
+  brandId?: string | null;
+  className?: string;
+}
+
+export function AICostEstimate({ estimateUsd, projectId, brandId, className }: AICostEstimateProps) {
+  const { data: budgets = [] } = useAIBudgetStatus(projectId, brandId);
+
+  return (
+    <div className={cn("space-y-1 text-xs text-muted-foreground", className)}>
+      <p className="flex items-center gap-1">
+        <DollarSign className="w-3.5 h-3.5" />
+        {estimateUsd === null ? (
+          "No price set for this model, so no cost estimate"
+        ) : (
+          <>
+            Estimated AI cost <span className="font-medium text-foreground">{formatUsd(estimateUsd)}</span>
+          </>
+        )}
+      </p>
+      {budgets.map(({ budget, spentUsd }) => {
+        const scope = budget.project_id ? "Project" : "Brand";
+        const remaining = budget.limit_usd - spentUsd;
+        const wouldExceed = estimateUsd !== null && estimateUsd > remaining;
+
+        return (
+          <p
+            key={budget.id}
+            className={cn(
+              "flex items-center gap-1",
+              wouldExceed && (budget.enforcement === "hard" ? "text-destructive" : "text-amber-500")
+            )}
+          >
+            {wouldExceed && <AlertTriangle className="w-3.5 h-3.5" />}
+            {scope} budget: {formatUsd(spentUsd)} of {formatUsd(budget.limit_usd)} spent
+            {budget.period === "month" && " this month"}
+            {wouldExceed &&
+              (budget.enforcement === "hard"
+                ? " – calls stop once it runs out"
+                : " – jobs pause when it runs out")}
+          </p>
+        );
+      })}
+    </div>
+  );
+}
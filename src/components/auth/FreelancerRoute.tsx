@@ -0,0 +1,28 @@
+import { Navigate, useLocation } from 'react-router-dom';
+import { useFreelancerIdentity } from '@/hooks/useFreelancerIdentity';
+import { LeapfrogLoader } from '@/components/ui/LeapfrogLoader';
+
+interface FreelancerRouteProps {
+  children: React.ReactNode;
+}
+
+// Freelancer portal pages need a signed-in account with a linked identity
+export function FreelancerRoute({ children }: FreelancerRouteProps) {
+  const { hasIdentity, isLoading } = useFreelancerIdentity();
+  const location = useLocation();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <LeapfrogLoader />
+      </div>
+    );
+  }
+
+  if (!hasIdentity) {
+    const redirect = encodeURIComponent(location.pathname + location.search);
+    return <Navigate to={`/freelancer/join?redirect=${redirect}`} replace />;
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,31 @@
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { useAuth } from '@/contexts/AuthContext';
+import { cn } from '@/lib/utils';
+import { getMissingPermissionMessage, type AppPermission } from '@/lib/permissions';
+
+interface PermissionTooltipProps {
+  permission: AppPermission;
+  children: React.ReactNode;
+  className?: string;
+}
+
+// Explains why a control is disabled; the caller disables it with can(permission).
+// Disabled buttons swallow pointer events, so the trigger is a wrapping span.
+export function PermissionTooltip({ permission, children, className }: PermissionTooltipProps) {
+  const { can } = useAuth();
+
+  if (can(permission)) {
+    return <>{children}</>;
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span tabIndex={0} className={cn('inline-flex cursor-not-allowed', className)}>
+          {children}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent>{getMissingPermissionMessage(permission)}</TooltipContent>
+    </Tooltip>
+  );
+}
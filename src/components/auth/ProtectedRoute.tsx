@@ -1,19 +1,22 @@
 import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth, AppRole } from '@/contexts/AuthContext';
+import type { AppPermission } from '@/lib/permissions';
 import { LeapfrogLoader } from '@/components/ui/LeapfrogLoader';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
   requiredRoles?: AppRole[];
   requireAnyRole?: boolean; // If true, user needs any of the roles. If false, user needs all roles.
+  requiredPermission?: AppPermission; // Checked on top of the role requirement
 }
 
 export function ProtectedRoute({ 
   children, 
   requiredRoles = [], 
-  requireAnyRole = true 
+  requireAnyRole = true,
+  requiredPermission,
 }: ProtectedRouteProps) {
-  const { user, roles, isLoading } = useAuth();
+  const { user, roles, isLoading, can } = useAuth();
   const location = useLocation();
 
   if (isLoading) {
@@ -45,5 +48,9 @@ export function ProtectedRoute({
     }
   }
 
+  if (requiredPermission && !can(requiredPermission)) {
+    return <Navigate to="/unauthorized" replace />;
+  }
+
   return <>{children}</>;
 }
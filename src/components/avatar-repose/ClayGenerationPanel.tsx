@@ -322,7 +322,7 @@ export function ClayGenerationPanel() {
       }
       try {
         const { data, error } = await supabase.functions.invoke("generate-clay-single", {
-          body: { imageId: img.id, model: selectedModel },
+          body: { imageId: img.id, model: selectedModel, pipelineJobId: jobId },
         });
         if (!error && data?.storedUrl && !data.skipped) {
           successCount++;
@@ -419,7 +419,7 @@ export function ClayGenerationPanel() {
 
         try {
           const { data: result, error: classifyError } = await supabase.functions.invoke("organize-clay-single", {
-            body: { imageId: img.id, imageUrl: img.imageUrl },
+            body: { imageId: img.id, imageUrl: img.imageUrl, brandId: selectedBrand },
           });
 
           if (classifyError || !result?.action) {
@@ -19,6 +19,7 @@ import {
 } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
+import { defaultReviewLinkExpiry } from "@/lib/reviewLinks";
 import { Copy, ExternalLink, Plus } from "lucide-react";
 
 interface SelectedImage {
@@ -157,6 +158,7 @@ export function SendToClientDialog({
           password_hash: null,
           status: "sent",
           project_id: selectedProjectId,
+          expires_at: defaultReviewLinkExpiry(),
         })
         .select()
         .single();
@@ -4,6 +4,8 @@ import { Progress } from "@/components/ui/progress";
 import { CoverageStats, Gender, OutputShotType, ALL_OUTPUT_SHOT_TYPES, OUTPUT_SHOT_LABELS } from "@/hooks/useLibraryPoses";
 import { LibraryStatus } from "@/hooks/useBrandLibraries";
 import { CheckCircle2, AlertTriangle, Lock, Send } from "lucide-react";
+import { PermissionTooltip } from "@/components/auth/PermissionTooltip";
+import { useAuth } from "@/contexts/AuthContext";
 
 interface CoveragePanelProps {
   coverage: CoverageStats;
@@ -26,6 +28,8 @@ export function CoveragePanel({
   pendingCount,
   failedCount,
 }: CoveragePanelProps) {
+  const { can } = useAuth();
+
   const getTotalIncluded = () => {
     let total = 0;
     GENDERS.forEach((g) => {
@@ -119,13 +123,16 @@ export function CoveragePanel({
         )}
 
         {libraryStatus === "review" && (
-          <Button 
-            className="w-full" 
-            onClick={onLock}
-          >
-            <Lock className="w-4 h-4 mr-2" />
-            Sign Off & Lock
-          </Button>
+          <PermissionTooltip permission="library.lock" className="w-full">
+            <Button 
+              className="w-full" 
+              disabled={!can("library.lock")}
+              onClick={onLock}
+            >
+              <Lock className="w-4 h-4 mr-2" />
+              Sign Off & Lock
+            </Button>
+          </PermissionTooltip>
         )}
 
         {libraryStatus === "locked" && (
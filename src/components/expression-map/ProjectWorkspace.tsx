@@ -13,6 +13,8 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { RECIPE_EXTRACTION_SYSTEM_PROMPT, buildFullPrompt } from "@/lib/constants";
 import { useExpressionQueueWorkers } from "@/hooks/useExpressionQueueWorkers";
+import { useActivePromptVersion } from "@/hooks/usePromptVersions";
+import { renderPromptTemplate } from "@/lib/promptTemplates";
 import type { Project } from "@/types";
 
 const VALID_STEPS: WorkflowStep[] = ["brand-refs", "recipes", "talent", "generate", "review", "expression-maps"];
@@ -60,6 +62,13 @@ export function ProjectWorkspace({ project, onBack, onDelete }: ProjectWorkspace
   } = useProjectData(project.id);
 
   const masterPrompt = project.master_prompt || "";
+  const { data: activePromptVersion } = useActivePromptVersion("expression");
+
+  // The prompt library template wraps the master prompt once one is active
+  const buildGenerationPrompt = (deltaLine: string) =>
+    activePromptVersion
+      ? renderPromptTemplate(activePromptVersion.template, { masterPrompt, deltaLine })
+      : buildFullPrompt(masterPrompt, deltaLine);
 
   // Fetch outputs and exports count
   useEffect(() => {
@@ -214,7 +223,7 @@ export function ProjectWorkspace({ project, onBack, onDelete }: ProjectWorkspace
           const neededVariations = Math.max(0, payload.variations - existingCount);
           skippedCount += existingCount;
 
-          const fullPrompt = buildFullPrompt(masterPrompt, recipe.delta_line || "");
+          const fullPrompt = buildGenerationPrompt(recipe.delta_line || "");
 
           for (let v = 0; v < neededVariations; v++) {
             prompts.push({
@@ -284,7 +293,7 @@ export function ProjectWorkspace({ project, onBack, onDelete }: ProjectWorkspace
       const recipe = recipes.find((r) => r.id === recipeId);
       if (!recipe) continue;
 
-      const fullPrompt = buildFullPrompt(masterPrompt, recipe.delta_line || "");
+      const fullPrompt = buildGenerationPrompt(recipe.delta_line || "");
 
       for (let v = 0; v < variations; v++) {
         prompts.push({
@@ -345,6 +354,7 @@ export function ProjectWorkspace({ project, onBack, onDelete }: ProjectWorkspace
       digital_model_id: p.modelId,
       recipe_id: p.recipeId,
       prompt: p.fullPrompt,
+      prompt_version_id: activePromptVersion?.id ?? null,
       model_ref_url: p.modelRefUrl,
       ai_model: aiModel,
     }));
@@ -0,0 +1,528 @@
+import { useState, useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ArrowLeft, ChevronLeft, ChevronRight, Check, X, Send, MapPin, Trash2 } from "lucide-react";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { ALL_OUTPUT_SHOT_TYPES, OUTPUT_SHOT_LABELS, OutputShotType } from "@/types/shot-types";
+
+interface ReposeReviewItem {
+  id: string;
+  repose_output_id: string;
+  shot_type: OutputShotType;
+  look_code: string;
+  image_url: string;
+  original_rank: number | null;
+  position: number;
+}
+
+type Decision = "approved" | "rejected";
+
+interface ViewDecision {
+  decision: Decision | null;
+  /** Output ids in the client's rank order */
+  order: string[];
+}
+
+interface PinnedComment {
+  key: string;
+  comment: string;
+  pinX: number | null;
+  pinY: number | null;
+}
+
+interface ReposeClientReviewProps {
+  reviewId: string;
+  reviewName: string;
+  /** From verify-review-password; required to submit password-protected reviews */
+  accessToken?: string | null;
+  onAccessExpired?: () => void;
+}
+
+const viewKey = (lookCode: string, shotType: string) => `${lookCode}:${shotType}`;
+
+let pinCounter = 0;
+const nextPinKey = () => `pin-${++pinCounter}`;
+
+/**
+ * Client-facing review of Repose Production favourites.
+ * Clients approve or reject each shot type, reorder ranks and pin comments
+ * on images; submit-client-review writes the result back to repose_outputs.
+ */
+export function ReposeClientReview({ reviewId, reviewName, accessToken, onAccessExpired }: ReposeClientReviewProps) {
+  const [items, setItems] = useState<ReposeReviewItem[]>([]);
+  const [decisions, setDecisions] = useState<Record<string, ViewDecision>>({});
+  const [comments, setComments] = useState<Record<string, PinnedComment[]>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [hasSubmitted, setHasSubmitted] = useState(false);
+  const [selectedLookCode, setSelectedLookCode] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchReview = async () => {
+      setIsLoading(true);
+      try {
+        const [itemsResult, decisionsResult, feedbackResult] = await Promise.all([
+          supabase
+            .from("client_review_items")
+            .select("id, repose_output_id, shot_type, look_code, image_url, original_rank, position")
+            .eq("review_id", reviewId)
+            .order("position", { ascending: true }),
+          supabase
+            .from("client_review_decisions")
+            .select("look_code, shot_type, decision, ranked_output_ids")
+            .eq("review_id", reviewId),
+          supabase
+            .from("client_review_feedback")
+            .select("item_id, comment, pin_x, pin_y")
+            .eq("review_id", reviewId),
+        ]);
+
+        if (itemsResult.error) throw itemsResult.error;
+        if (decisionsResult.error) throw decisionsResult.error;
+        if (feedbackResult.error) throw feedbackResult.error;
+
+        const loadedItems = (itemsResult.data || []).filter(
+          (item) => item.repose_output_id && item.image_url
+        ) as ReposeReviewItem[];
+        setItems(loadedItems);
+
+        // Start from the studio's ranking, then apply any earlier client decisions
+        const initial: Record<string, ViewDecision> = {};
+        for (const item of [...loadedItems].sort((a, b) => (a.original_rank ?? 99) - (b.original_rank ?? 99))) {
+          const key = viewKey(item.look_code, item.shot_type);
+          initial[key] = initial[key] || { decision: null, order: [] };
+          initial[key].order.push(item.repose_output_id);
+        }
+        for (const saved of decisionsResult.data || []) {
+          const key = viewKey(saved.look_code, saved.shot_type);
+          if (!initial[key]) continue;
+          const ranked = saved.ranked_output_ids.filter((id) => initial[key].order.includes(id));
+          initial[key] = {
+            decision: saved.decision as Decision,
+            order: [...ranked, ...initial[key].order.filter((id) => !ranked.includes(id))],
+          };
+        }
+        setDecisions(initial);
+
+        const loadedComments: Record<string, PinnedComment[]> = {};
+        for (const fb of feedbackResult.data || []) {
+          if (!fb.item_id || !fb.comment) continue;
+          loadedComments[fb.item_id] = [
+            ...(loadedComments[fb.item_id] || []),
+            { key: nextPinKey(), comment: fb.comment, pinX: fb.pin_x, pinY: fb.pin_y },
+          ];
+        }
+        setComments(loadedComments);
+        setHasSubmitted((decisionsResult.data || []).length > 0 || (feedbackResult.data || []).length > 0);
+      } catch (error) {
+        console.error("Error fetching review data:", error);
+        toast({
+          title: "Error",
+          description: "Failed to load review",
+          variant: "destructive",
+        });
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchReview();
+  }, [reviewId]);
+
+  const itemsByOutputId = useMemo(
+    () => new Map(items.map((item) => [item.repose_output_id, item])),
+    [items]
+  );
+
+  const lookCodes = useMemo(
+    () => [...new Set(items.map((item) => item.look_code))],
+    [items]
+  );
+
+  const shotTypesForLook = (lookCode: string) =>
+    ALL_OUTPUT_SHOT_TYPES.filter((shotType) => decisions[viewKey(lookCode, shotType)]);
+
+  const setDecision = (key: string, decision: Decision) => {
+    setDecisions((prev) => ({
+      ...prev,
+      [key]: { ...prev[key], decision: prev[key].decision === decision ? null : decision },
+    }));
+  };
+
+  const moveOutput = (key: string, outputId: string, direction: -1 | 1) => {
+    setDecisions((prev) => {
+      const order = [...prev[key].order];
+      const from = order.indexOf(outputId);
+      const to = from + direction;
+      if (from === -1 || to < 0 || to >= order.length) return prev;
+      [order[from], order[to]] = [order[to], order[from]];
+      return { ...prev, [key]: { ...prev[key], order } };
+    });
+  };
+
+  const addPin = (itemId: string, event: React.MouseEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const pinX = Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width));
+    const pinY = Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height));
+    setComments((prev) => ({
+      ...prev,
+      [itemId]: [...(prev[itemId] || []), { key: nextPinKey(), comment: "", pinX, pinY }],
+    }));
+  };
+
+  const addGeneralComment = (itemId: string) => {
+    setComments((prev) => ({
+      ...prev,
+      [itemId]: [...(prev[itemId] || []), { key: nextPinKey(), comment: "", pinX: null, pinY: null }],
+    }));
+  };
+
+  const updateComment = (itemId: string, key: string, comment: string) => {
+    setComments((prev) => ({
+      ...prev,
+      [itemId]: (prev[itemId] || []).map((c) => (c.key === key ? { ...c, comment } : c)),
+    }));
+  };
+
+  const removeComment = (itemId: string, key: string) => {
+    setComments((prev) => ({
+      ...prev,
+      [itemId]: (prev[itemId] || []).filter((c) => c.key !== key),
+    }));
+  };
+
+  const decidedCount = Object.values(decisions).filter((d) => d.decision).length;
+  const totalViews = Object.keys(decisions).length;
+
+  const getLookProgress = (lookCode: string) => {
+    const views = shotTypesForLook(lookCode).map((shotType) => decisions[viewKey(lookCode, shotType)]);
+    return {
+      approved: views.filter((v) => v.decision === "approved").length,
+      rejected: views.filter((v) => v.decision === "rejected").length,
+      total: views.length,
+    };
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      const payloadDecisions = Object.entries(decisions)
+        .filter(([, view]) => view.decision)
+        .map(([key, view]) => {
+          const separator = key.lastIndexOf(":");
+          const lookCode = key.slice(0, separator);
+          const shotType = key.slice(separator + 1);
+          return { lookCode, shotType, decision: view.decision, rankedOutputIds: view.order };
+        });
+
+      const payloadComments = Object.entries(comments).flatMap(([itemId, itemComments]) =>
+        itemComments
+          .filter((c) => c.comment.trim())
+          .map((c) => ({ itemId, comment: c.comment.trim(), pinX: c.pinX, pinY: c.pinY }))
+      );
+
+      const { data, error } = await supabase.functions.invoke("submit-client-review", {
+        body: { reviewId, accessToken, decisions: payloadDecisions, comments: payloadComments },
+      });
+
+      if (error instanceof FunctionsHttpError && error.context.status === 401 && onAccessExpired) {
+        onAccessExpired();
+        return;
+      }
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      setHasSubmitted(true);
+      toast({
+        title: "Feedback submitted",
+        description: "Thank you for your feedback!",
+      });
+    } catch (error) {
+      console.error("Error submitting feedback:", error);
+      toast({
+        title: "Error",
+        description: "Failed to submit feedback",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitButton = (
+    <Button onClick={handleSubmit} disabled={isSubmitting}>
+      <Send className="h-4 w-4 mr-2" />
+      {isSubmitting ? "Submitting..." : hasSubmitted ? "Update Feedback" : "Submit Feedback"}
+    </Button>
+  );
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-muted-foreground">Loading review...</p>
+      </div>
+    );
+  }
+
+  // Detail view for a selected look
+  if (selectedLookCode) {
+    return (
+      <div className="min-h-screen bg-background">
+        <header className="border-b border-border bg-card sticky top-0 z-10">
+          <div className="px-6 py-4 flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button variant="ghost" size="sm" onClick={() => setSelectedLookCode(null)}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Looks
+              </Button>
+              <div>
+                <h1 className="text-xl font-medium">{selectedLookCode}</h1>
+                <p className="text-sm text-muted-foreground">
+                  Approve or reject each shot, reorder with the arrows and click an image to pin a comment
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-4">
+              <span className="text-sm text-muted-foreground">
+                {decidedCount}/{totalViews} shots decided
+              </span>
+              {submitButton}
+            </div>
+          </div>
+        </header>
+
+        <main className="p-6 space-y-8">
+          {shotTypesForLook(selectedLookCode).map((shotType) => {
+            const key = viewKey(selectedLookCode, shotType);
+            const view = decisions[key];
+
+            return (
+              <div key={shotType} className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-lg font-medium">{OUTPUT_SHOT_LABELS[shotType]}</h3>
+                  <div className="flex items-center gap-2">
+                    <Button
+                      size="sm"
+                      variant={view.decision === "approved" ? "default" : "outline"}
+                      onClick={() => setDecision(key, "approved")}
+                    >
+                      <Check className="h-4 w-4 mr-1.5" />
+                      Approve
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={view.decision === "rejected" ? "destructive" : "outline"}
+                      onClick={() => setDecision(key, "rejected")}
+                    >
+                      <X className="h-4 w-4 mr-1.5" />
+                      Reject
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {view.order.map((outputId, index) => {
+                    const item = itemsByOutputId.get(outputId);
+                    if (!item) return null;
+                    const itemComments = comments[item.id] || [];
+                    const pinNumbers = new Map(
+                      itemComments
+                        .filter((c) => c.pinX !== null && c.pinY !== null)
+                        .map((c, i) => [c.key, i + 1])
+                    );
+
+                    return (
+                      <div
+                        key={item.id}
+                        className={cn(
+                          "border rounded-lg overflow-hidden transition-all bg-card",
+                          view.decision === "approved" && "border-primary ring-1 ring-primary/30",
+                          view.decision === "rejected" && "opacity-60"
+                        )}
+                      >
+                        <div
+                          className="relative aspect-square cursor-crosshair"
+                          onClick={(e) => addPin(item.id, e)}
+                        >
+                          <img src={item.image_url} alt="" className="w-full h-full object-contain bg-muted" />
+
+                          {/* Rank */}
+                          <div className="absolute top-3 left-3 bg-black/70 text-white text-sm font-medium px-2 py-0.5 rounded">
+                            #{index + 1}
+                          </div>
+
+                          {/* Pins */}
+                          {itemComments.map((c) => pinNumbers.has(c.key) && (
+                            <div
+                              key={c.key}
+                              className="absolute -translate-x-1/2 -translate-y-1/2 w-6 h-6 rounded-full bg-primary text-primary-foreground text-xs font-semibold flex items-center justify-center shadow"
+                              style={{ left: `${(c.pinX ?? 0) * 100}%`, top: `${(c.pinY ?? 0) * 100}%` }}
+                            >
+                              {pinNumbers.get(c.key)}
+                            </div>
+                          ))}
+                        </div>
+
+                        <div className="p-3 space-y-2">
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-1">
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-7 w-7"
+                                disabled={index === 0}
+                                onClick={() => moveOutput(key, outputId, -1)}
+                              >
+                                <ChevronLeft className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-7 w-7"
+                                disabled={index === view.order.length - 1}
+                                onClick={() => moveOutput(key, outputId, 1)}
+                              >
+                                <ChevronRight className="h-4 w-4" />
+                              </Button>
+                            </div>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-7 text-xs"
+                              onClick={() => addGeneralComment(item.id)}
+                            >
+                              Add comment
+                            </Button>
+                          </div>
+
+                          {itemComments.map((c) => (
+                            <div key={c.key} className="flex items-start gap-2">
+                              {pinNumbers.has(c.key) ? (
+                                <span className="mt-2 w-5 h-5 shrink-0 rounded-full bg-primary text-primary-foreground text-[10px] font-semibold flex items-center justify-center">
+                                  {pinNumbers.get(c.key)}
+                                </span>
+                              ) : (
+                                <MapPin className="mt-2.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                              )}
+                              <Textarea
+                                autoFocus={!c.comment}
+                                placeholder={pinNumbers.has(c.key) ? "Comment on this spot..." : "Add a comment..."}
+                                value={c.comment}
+                                onChange={(e) => updateComment(item.id, c.key, e.target.value)}
+                                className="min-h-[52px] text-sm resize-none"
+                              />
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-7 w-7 mt-1 shrink-0"
+                                onClick={() => removeComment(item.id, c.key)}
+                              >
+                                <Trash2 className="h-3.5 w-3.5" />
+                              </Button>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </main>
+      </div>
+    );
+  }
+
+  // Main tile grid view
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="border-b border-border bg-card sticky top-0 z-10">
+        <div className="px-6 py-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-medium">{reviewName}</h1>
+            <p className="text-sm text-muted-foreground">
+              Click a look to approve shots and set your preferred order
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            <span className="text-sm text-muted-foreground">
+              {decidedCount}/{totalViews} shots decided
+            </span>
+            {submitButton}
+          </div>
+        </div>
+      </header>
+
+      <main className="p-6">
+        {lookCodes.length === 0 ? (
+          <div className="text-center py-12 text-muted-foreground">
+            No looks found in this review
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+            {lookCodes.map((lookCode) => {
+              const progress = getLookProgress(lookCode);
+              const thumbnails = shotTypesForLook(lookCode)
+                .map((shotType) => itemsByOutputId.get(decisions[viewKey(lookCode, shotType)].order[0])?.image_url)
+                .filter(Boolean) as string[];
+
+              return (
+                <Card
+                  key={lookCode}
+                  className="overflow-hidden cursor-pointer hover:ring-2 hover:ring-primary/50 transition-all group"
+                  onClick={() => setSelectedLookCode(lookCode)}
+                >
+                  <div className="aspect-square relative bg-muted">
+                    <div className="grid grid-cols-2 gap-0.5 h-full">
+                      {thumbnails.slice(0, 4).map((url, idx) => (
+                        <div key={idx} className="relative overflow-hidden">
+                          <img
+                            src={url}
+                            alt=""
+                            className="w-full h-full object-contain bg-muted group-hover:scale-105 transition-transform duration-300"
+                          />
+                        </div>
+                      ))}
+                      {Array.from({ length: Math.max(0, 4 - thumbnails.length) }).map((_, idx) => (
+                        <div key={`empty-${idx}`} className="bg-muted-foreground/10" />
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="p-4">
+                    <h3 className="font-medium truncate">{lookCode}</h3>
+                    <div className="flex items-center gap-2 mt-3">
+                      {progress.approved > 0 && (
+                        <Badge variant="secondary" className="gap-1">
+                          <Check className="h-3 w-3" />
+                          {progress.approved}
+                        </Badge>
+                      )}
+                      {progress.rejected > 0 && (
+                        <Badge variant="destructive" className="gap-1">
+                          <X className="h-3 w-3" />
+                          {progress.rejected}
+                        </Badge>
+                      )}
+                      {progress.approved + progress.rejected < progress.total && (
+                        <span className="text-xs text-muted-foreground">
+                          {progress.total - progress.approved - progress.rejected} pending
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Copy, CalendarPlus, Ban, RotateCcw, Lock, ShieldAlert } from "lucide-react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  ReviewShareLink,
+  useExtendReviewLink,
+  useReviewShareLinks,
+  useSetReviewLinkRevoked,
+} from "@/hooks/useReviewShareLinks";
+import { REVIEW_LINK_EXTENSION_DAYS, ReviewLinkStatus } from "@/lib/reviewLinks";
+
+const relative = (date: string) => formatDistanceToNow(new Date(date), { addSuffix: true });
+
+function LinkStatusBadge({ status }: { status: ReviewLinkStatus }) {
+  switch (status) {
+    case "active":
+      return <Badge className="bg-green-600">Active</Badge>;
+    case "expired":
+      return <Badge variant="secondary">Expired</Badge>;
+    case "revoked":
+      return <Badge variant="destructive">Revoked</Badge>;
+  }
+}
+
+export function ReviewShareLinksPanel() {
+  const { data: links = [], isLoading } = useReviewShareLinks();
+  const extendLink = useExtendReviewLink();
+  const setRevoked = useSetReviewLinkRevoked();
+  const [showInactive, setShowInactive] = useState(false);
+  const [revokeTarget, setRevokeTarget] = useState<ReviewShareLink | null>(null);
+
+  const activeLinks = links.filter((link) => link.linkStatus === "active");
+  const visibleLinks = showInactive ? links : activeLinks;
+
+  const copyLink = (reviewId: string) => {
+    navigator.clipboard.writeText(`${window.location.origin}/review/${reviewId}`);
+    toast.success("Review link copied");
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-64 rounded-xl" />;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {activeLinks.length} active link{activeLinks.length !== 1 ? "s" : ""}
+        </p>
+        <div className="flex items-center gap-2">
+          <Switch id="show-inactive-links" checked={showInactive} onCheckedChange={setShowInactive} />
+          <Label htmlFor="show-inactive-links" className="text-sm cursor-pointer">
+            Show expired &amp; revoked
+          </Label>
+        </div>
+      </div>
+
+      {visibleLinks.length === 0 ? (
+        <div className="text-center py-16 text-muted-foreground">
+          No {showInactive ? "" : "active "}review links
+        </div>
+      ) : (
+        <div className="border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Review</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Last accessed</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleLinks.map((link) => (
+                <TableRow key={link.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{link.name}</span>
+                      {link.has_password && <Lock className="h-3.5 w-3.5 text-muted-foreground" />}
+                      {link.is_repose && (
+                        <Badge variant="outline" className="text-xs">Repose</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground">Created {relative(link.created_at)}</p>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <LinkStatusBadge status={link.linkStatus} />
+                      {link.failedAttempts24h > 0 && (
+                        <span
+                          className="flex items-center gap-1 text-xs text-amber-600"
+                          title="Failed password attempts in the last 24 hours"
+                        >
+                          <ShieldAlert className="h-3.5 w-3.5" />
+                          {link.failedAttempts24h}
+                        </span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {link.expires_at ? relative(link.expires_at) : "Never"}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {link.last_accessed_at ? relative(link.last_accessed_at) : "Never"}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center justify-end gap-1">
+                      <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => copyLink(link.id)}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button size="sm" variant="outline" className="gap-1.5" disabled={extendLink.isPending}>
+                            <CalendarPlus className="h-4 w-4" />
+                            Extend
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {REVIEW_LINK_EXTENSION_DAYS.map((days) => (
+                            <DropdownMenuItem key={days} onClick={() => extendLink.mutate({ link, days })}>
+                              +{days} days
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                      {link.revoked_at ? (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="gap-1.5"
+                          onClick={() => setRevoked.mutate({ reviewId: link.id, revoked: false })}
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                          Restore
+                        </Button>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="gap-1.5 text-destructive hover:text-destructive"
+                          onClick={() => setRevokeTarget(link)}
+                        >
+                          <Ban className="h-4 w-4" />
+                          Revoke
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <AlertDialog open={!!revokeTarget} onOpenChange={(open) => !open && setRevokeTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke "{revokeTarget?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Anyone with this link will immediately lose access to the review. You can restore it later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => {
+                if (revokeTarget) setRevoked.mutate({ reviewId: revokeTarget.id, revoked: true });
+                setRevokeTarget(null);
+              }}
+            >
+              Revoke Link
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
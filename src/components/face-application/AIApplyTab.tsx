@@ -18,15 +18,12 @@ interface AIApplyTabProps {
 }
 
 export function AIApplyTab({ projectId, selectedLookIds }: AIApplyTabProps) {
-  // Default prompt
-  const DEFAULT_PROMPT = `Apply the provided head/face to the body while maintaining exact clothing, pose, and proportions. Preserve facial identity precisely. Output should be photorealistic and seamless.`;
-
   // Batch selection state
   const [selectedViews, setSelectedViews] = useState<Set<string>>(new Set());
   const [hoveredView, setHoveredView] = useState<{ lookId: string; view: string } | null>(null);
   const [attemptsPerView, setAttemptsPerView] = useState(DEFAULT_AI_APPLY_SETTINGS.attemptsPerView);
   const [model, setModel] = useState(DEFAULT_AI_APPLY_SETTINGS.model);
-  const [prompt, setPrompt] = useState(DEFAULT_PROMPT);
+  const [promptVersionId, setPromptVersionId] = useState<string | null>(null);
   const [isReviewOpen, setIsReviewOpen] = useState(false);
 
   const { toast } = useToast();
@@ -46,7 +43,7 @@ export function AIApplyTab({ projectId, selectedLookIds }: AIApplyTabProps) {
     addToQueue,
     removeFromQueue,
     clearQueue,
-  } = useAIApplyQueue({ projectId, onComplete: refetch });
+  } = useAIApplyQueue({ projectId, promptVersionId, onComplete: refetch });
 
   // Toggle a single view
   const handleToggleView = useCallback((lookId: string, view: string) => {
@@ -253,8 +250,8 @@ export function AIApplyTab({ projectId, selectedLookIds }: AIApplyTabProps) {
         <QueuePanel
           queue={queue}
           selectedViews={selectedViews}
-          prompt={prompt}
-          onPromptChange={setPrompt}
+          promptVersionId={promptVersionId}
+          onPromptVersionChange={setPromptVersionId}
           onRemoveFromQueue={removeFromQueue}
           onRetryItem={handleRetryItem}
           onCancelBatch={handleCancelBatch}
@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from "react";
+import React, { useState, useMemo, useEffect, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import {
   AlertDialog,
@@ -10,8 +10,12 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { Trash2, Check, AlertTriangle } from "lucide-react";
+import { Trash2, Check, AlertTriangle, Loader2 } from "lucide-react";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { Checkbox } from "@/components/ui/checkbox";
 import { extractLookKey } from "@/lib/tiffImportUtils";
+import { computeDHashFromUrl, hammingDistance } from "@/lib/perceptualHash";
+import { getImageUrl } from "@/lib/imageUtils";
 import { LookData } from "./LooksTable";
 import { ScrollArea } from "@/components/ui/scroll-area";
 
@@ -22,6 +26,14 @@ interface DuplicateGroup {
   toDelete: LookData[];
 }
 
+type DuplicateMode = "code" | "similar";
+
+// Stricter than the review-screen stacking threshold: a false match here deletes a look
+const SIMILAR_LOOK_THRESHOLD = 3;
+
+// Views that must match when the looks don't also share a product code
+const MIN_MATCHING_VIEWS = 2;
+
 interface DeleteDuplicatesDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -36,26 +48,70 @@ export function DeleteDuplicatesDialog({
   onDeleteDuplicates,
 }: DeleteDuplicatesDialogProps) {
   const [isDeleting, setIsDeleting] = useState(false);
+  const [mode, setMode] = useState<DuplicateMode>("code");
+  const [imageHashes, setImageHashes] = useState<Map<string, string | null>>(new Map());
+  const imageHashesRef = useRef(imageHashes);
+  const [isHashing, setIsHashing] = useState(false);
+  // Groups ticked in "visually similar" mode, or unticked in "same product code" mode
+  const [toggledGroups, setToggledGroups] = useState<Set<string>>(new Set());
+
+  // Hash each view of each look the first time "visually similar" is opened.
+  // Hashes are kept as they arrive, so a reopened dialog or a changed look list
+  // only hashes what's missing.
+  useEffect(() => {
+    if (!open || mode !== "similar") return;
+    const unhashed = looks
+      .flatMap(getComparisonImages)
+      .filter((image) => !imageHashesRef.current.has(image.id));
+    if (unhashed.length === 0) return;
+
+    let cancelled = false;
+    setIsHashing(true);
+    (async () => {
+      for (const image of unhashed) {
+        const hash = await computeDHashFromUrl(getImageUrl(image.source_url, "thumb"));
+        imageHashesRef.current = new Map(imageHashesRef.current).set(image.id, hash);
+        if (cancelled) return;
+        setImageHashes(imageHashesRef.current);
+      }
+      setIsHashing(false);
+    })();
+
+    return () => {
+      cancelled = true;
+      setIsHashing(false);
+    };
+  }, [open, mode, looks]);
 
   const duplicateGroups = useMemo((): DuplicateGroup[] => {
-    // Group looks by extracted product code
-    const codeGroups = new Map<string, LookData[]>();
-
-    for (const look of looks) {
-      // Try to extract code from look_code field first, then from name
-      const code = look.look_code || extractLookKey(look.name);
-      if (!code) continue;
-
-      const key = code.toUpperCase();
-      const group = codeGroups.get(key) || [];
-      group.push(look);
-      codeGroups.set(key, group);
+    // Group looks by extracted product code, or by near-identical front image
+    const candidateGroups = new Map<string, LookData[]>();
+
+    if (mode === "similar") {
+      if (isHashing) return [];
+      for (const group of groupSimilarLooks(looks, imageHashes)) {
+        const label = group[0].look_code || extractLookKey(group[0].name) || group[0].name;
+        // Keys double as labels, so only disambiguate when two groups share one
+        const key = `${label} (similar)`;
+        candidateGroups.set(candidateGroups.has(key) ? `${key} ${candidateGroups.size + 1}` : key, group);
+      }
+    } else {
+      for (const look of looks) {
+        // Try to extract code from look_code field first, then from name
+        const code = look.look_code || extractLookKey(look.name);
+        if (!code) continue;
+
+        const key = code.toUpperCase();
+        const group = candidateGroups.get(key) || [];
+        group.push(look);
+        candidateGroups.set(key, group);
+      }
     }
 
     // Find groups with duplicates (2+ looks)
     const groups: DuplicateGroup[] = [];
 
-    for (const [code, group] of codeGroups) {
+    for (const [code, group] of candidateGroups) {
       if (group.length <= 1) continue;
 
       // Sort by preference: more images > has look_code > older
@@ -93,12 +149,25 @@ export function DeleteDuplicatesDialog({
     }
 
     return groups;
-  }, [looks]);
+  }, [looks, mode, imageHashes, isHashing]);
+
+  // Same-code groups are selected by default; similar-looking ones must be ticked
+  const isGroupSelected = (group: DuplicateGroup) => (mode === "code") !== toggledGroups.has(group.code);
 
-  const totalToDelete = duplicateGroups.reduce((sum, g) => sum + g.toDelete.length, 0);
+  const toggleGroup = (group: DuplicateGroup) => {
+    setToggledGroups((prev) => {
+      const next = new Set(prev);
+      if (next.has(group.code)) next.delete(group.code);
+      else next.add(group.code);
+      return next;
+    });
+  };
+
+  const selectedGroups = duplicateGroups.filter(isGroupSelected);
+  const totalToDelete = selectedGroups.reduce((sum, g) => sum + g.toDelete.length, 0);
 
   const handleDelete = async () => {
-    const idsToDelete = duplicateGroups.flatMap((g) => g.toDelete.map((l) => l.id));
+    const idsToDelete = selectedGroups.flatMap((g) => g.toDelete.map((l) => l.id));
     if (idsToDelete.length === 0) return;
 
     setIsDeleting(true);
@@ -110,6 +179,44 @@ export function DeleteDuplicatesDialog({
     }
   };
 
+  const modeToggle = (
+    <ToggleGroup
+      type="single"
+      size="sm"
+      variant="outline"
+      value={mode}
+      onValueChange={(value) => {
+        if (!value) return;
+        setMode(value as DuplicateMode);
+        setToggledGroups(new Set());
+      }}
+      className="justify-start"
+    >
+      <ToggleGroupItem value="code" className="text-xs">Same product code</ToggleGroupItem>
+      <ToggleGroupItem value="similar" className="text-xs">Visually similar</ToggleGroupItem>
+    </ToggleGroup>
+  );
+
+  if (mode === "similar" && isHashing) {
+    return (
+      <AlertDialog open={open} onOpenChange={onOpenChange}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Finding Similar Looks</AlertDialogTitle>
+            <AlertDialogDescription className="flex items-center gap-2">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Comparing images across {looks.length} looks...
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {modeToggle}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Close</AlertDialogCancel>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    );
+  }
+
   if (duplicateGroups.length === 0) {
     return (
       <AlertDialog open={open} onOpenChange={onOpenChange}>
@@ -120,9 +227,12 @@ export function DeleteDuplicatesDialog({
               No Duplicates Found
             </AlertDialogTitle>
             <AlertDialogDescription>
-              All looks in this project have unique product codes. No cleanup needed.
+              {mode === "similar"
+                ? "No looks in this project have visually similar images. No cleanup needed."
+                : "All looks in this project have unique product codes. No cleanup needed."}
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {modeToggle}
           <AlertDialogFooter>
             <AlertDialogCancel>Close</AlertDialogCancel>
           </AlertDialogFooter>
@@ -140,18 +250,26 @@ export function DeleteDuplicatesDialog({
             Delete {totalToDelete} Duplicate{totalToDelete !== 1 ? "s" : ""}
           </AlertDialogTitle>
           <AlertDialogDescription>
-            Found {duplicateGroups.length} product{duplicateGroups.length !== 1 ? "s" : ""} with duplicate entries. 
-            The following looks will be deleted:
+            {mode === "similar"
+              ? `Found ${duplicateGroups.length} group${duplicateGroups.length !== 1 ? "s" : ""} of looks with near-identical images. Similar images aren't always the same product, so tick the groups to clean up.`
+              : `Found ${duplicateGroups.length} product${duplicateGroups.length !== 1 ? "s" : ""} with duplicate entries. The ticked groups will be cleaned up:`}
           </AlertDialogDescription>
         </AlertDialogHeader>
 
+        {modeToggle}
+
         <ScrollArea className="max-h-[300px] border rounded-md">
           <div className="p-3 space-y-4">
             {duplicateGroups.map((group) => (
               <div key={group.code} className="space-y-1.5">
-                <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                <label className="flex items-center gap-2 text-xs font-medium text-muted-foreground uppercase tracking-wide cursor-pointer">
+                  <Checkbox
+                    checked={isGroupSelected(group)}
+                    onCheckedChange={() => toggleGroup(group)}
+                    disabled={isDeleting}
+                  />
                   {group.code}
-                </div>
+                </label>
                 
                 {/* Keep */}
                 <div className="flex items-center gap-2 text-sm pl-2">
@@ -182,7 +300,7 @@ export function DeleteDuplicatesDialog({
           <Button
             variant="destructive"
             onClick={handleDelete}
-            disabled={isDeleting}
+            disabled={isDeleting || totalToDelete === 0}
           >
             {isDeleting ? "Deleting..." : `Delete ${totalToDelete} Duplicate${totalToDelete !== 1 ? "s" : ""}`}
           </Button>
@@ -192,6 +310,66 @@ export function DeleteDuplicatesDialog({
   );
 }
 
+// First image of each view - looks are compared view by view
+function getComparisonImages(look: LookData) {
+  const byView = new Map<string, LookData["sourceImages"][number]>();
+  for (const image of look.sourceImages) {
+    if (!byView.has(image.view)) byView.set(image.view, image);
+  }
+  return [...byView.values()];
+}
+
+/**
+ * Two looks are similar when every view both have hashes for is within
+ * SIMILAR_LOOK_THRESHOLD, and enough views matched: MIN_MATCHING_VIEWS, or one
+ * if they also share a product code. A single near-identical front is common
+ * across colourways and similar styling, so it isn't enough on its own.
+ */
+function looksSimilar(
+  a: LookData,
+  b: LookData,
+  viewHashes: Map<string, Map<string, string>>
+): boolean {
+  const aHashes = viewHashes.get(a.id);
+  const bHashes = viewHashes.get(b.id);
+  if (!aHashes || !bHashes) return false;
+
+  let matchingViews = 0;
+  for (const [view, aHash] of aHashes) {
+    const bHash = bHashes.get(view);
+    if (!bHash) continue;
+    if (hammingDistance(aHash, bHash) > SIMILAR_LOOK_THRESHOLD) return false;
+    matchingViews++;
+  }
+
+  const aCode = a.look_code || extractLookKey(a.name);
+  const bCode = b.look_code || extractLookKey(b.name);
+  const sameCode = !!aCode && !!bCode && aCode.toUpperCase() === bCode.toUpperCase();
+  return matchingViews >= (sameCode ? 1 : MIN_MATCHING_VIEWS);
+}
+
+// Group looks that are similar to a group's first look, in order
+function groupSimilarLooks(looks: LookData[], imageHashes: Map<string, string | null>): LookData[][] {
+  const viewHashes = new Map<string, Map<string, string>>();
+  for (const look of looks) {
+    const hashes = new Map<string, string>();
+    for (const image of getComparisonImages(look)) {
+      const hash = imageHashes.get(image.id);
+      if (hash) hashes.set(image.view, hash);
+    }
+    if (hashes.size > 0) viewHashes.set(look.id, hashes);
+  }
+
+  const groups: LookData[][] = [];
+  for (const look of looks) {
+    if (!viewHashes.has(look.id)) continue;
+    const group = groups.find((g) => looksSimilar(g[0], look, viewHashes));
+    if (group) group.push(look);
+    else groups.push([look]);
+  }
+  return groups;
+}
+
 // Helper to count duplicates for the button badge
 export function countDuplicates(looks: LookData[]): number {
   const codeGroups = new Map<string, number>();
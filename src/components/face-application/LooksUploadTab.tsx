@@ -488,7 +488,7 @@ export function LooksUploadTab({
 
   // Progressive image save - called after each successful conversion
   const handleImageReady = useCallback(async (imageData: ProgressiveImageData): Promise<void> => {
-    const { url, view, originalFilename, lookKey } = imageData;
+    const { url, view, originalFilename, lookKey, contentHash } = imageData;
     
     // Use lookKey or fallback to a generated name
     const lookName = lookKey || `Look_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`;
@@ -523,6 +523,7 @@ export function LooksUploadTab({
         source_url: url, 
         original_source_url: url,
         original_filename: originalFilename,
+        content_hash: contentHash,
       })
       .select()
       .single();
@@ -544,7 +545,7 @@ export function LooksUploadTab({
     }
   }, [getOrCreateLook]);
 
-  const handleTiffImportComplete = async (createdLooks: { lookName: string; images: { url: string; view: string; originalFilename: string }[] }[]) => {
+  const handleTiffImportComplete = async (createdLooks: { lookName: string; images: { url: string; view: string; originalFilename: string; contentHash: string | null }[] }[]) => {
     // Clear the progressive looks caches when import completes
     progressiveLooksRef.current.clear();
     lookCreationPromisesRef.current.clear();
@@ -559,13 +560,13 @@ export function LooksUploadTab({
       
       if (existingLook) {
         // Add only images that weren't already saved
-        for (const { url, view } of images) {
+        for (const { url, view, contentHash } of images) {
           const imageExists = existingLook.sourceImages.some(img => img.source_url === url);
           if (!imageExists) {
             const viewToUse = view === 'unassigned' ? 'front' : view;
             const { data: imageData } = await supabase
               .from("look_source_images")
-              .insert({ look_id: existingLook.id, view: viewToUse, source_url: url, original_source_url: url })
+              .insert({ look_id: existingLook.id, view: viewToUse, source_url: url, original_source_url: url, content_hash: contentHash })
               .select()
               .single();
             if (imageData) {
@@ -589,11 +590,11 @@ export function LooksUploadTab({
         if (error || !lookData) continue;
 
         const newLook: LookData = { ...lookData, sourceImages: [] };
-        for (const { url, view } of images) {
+        for (const { url, view, contentHash } of images) {
           const viewToUse = view === 'unassigned' ? 'front' : view;
           const { data: imageData } = await supabase
             .from("look_source_images")
-            .insert({ look_id: lookData.id, view: viewToUse, source_url: url })
+            .insert({ look_id: lookData.id, view: viewToUse, source_url: url, content_hash: contentHash })
             .select()
             .single();
           if (imageData) newLook.sourceImages.push(imageData);
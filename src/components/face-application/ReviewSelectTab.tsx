@@ -7,7 +7,7 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
-import { Check, Star, ChevronDown, ChevronRight, ArrowRight, Loader2, Eye, EyeOff, RefreshCw, AlertCircle, Plus, Send, RotateCcw, Upload } from 'lucide-react';
+import { Check, Star, ChevronDown, ChevronRight, ArrowRight, Loader2, Eye, EyeOff, RefreshCw, AlertCircle, Plus, Send, RotateCcw, Upload, Layers } from 'lucide-react';
 import { Separator } from '@/components/ui/separator';
 import { cn } from '@/lib/utils';
 import { OptimizedImage } from '@/components/shared/OptimizedImage';
@@ -16,6 +16,8 @@ import { LookSourceImage } from '@/types/face-application';
 import { useSendToJobBoard } from '@/hooks/useSendToJobBoard';
 import { LookHandoffStatus, REQUIRED_VIEWS, DEFAULT_BRIEF, RequiredView, ViewHandoffStatus } from '@/types/job-handoff';
 import { useToast } from '@/hooks/use-toast';
+import { usePerceptualHashBackfill } from '@/hooks/usePerceptualHashBackfill';
+import { stackNearDuplicates } from '@/lib/perceptualHash';
 
 interface ReviewSelectTabProps {
   projectId: string;
@@ -31,6 +33,7 @@ interface OutputItem {
   stored_url: string | null;
   status: string;
   is_selected: boolean;
+  perceptual_hash: string | null;
 }
 
 interface LookGroup {
@@ -117,6 +120,8 @@ export function ReviewSelectTab({ projectId, onContinue }: ReviewSelectTabProps)
   const [expandedUnselectedViews, setExpandedUnselectedViews] = useState<Set<string>>(new Set());
   const [quickFillTarget, setQuickFillTarget] = useState<QuickFillTarget | null>(null);
   const [refreshKey, setRefreshKey] = useState(0);
+  const [stackSimilar, setStackSimilar] = useState(false);
+  const [expandedStacks, setExpandedStacks] = useState<Set<string>>(new Set());
   
   // Job Board sending state
   const [sentLookIds, setSentLookIds] = useState<Set<string>>(new Set());
@@ -323,6 +328,26 @@ export function ReviewSelectTab({ projectId, onContinue }: ReviewSelectTabProps)
     };
   }, []);
 
+  // Hash older outputs on demand so they can be stacked too
+  const unhashedOutputIds = useMemo(
+    () => outputs.filter(o => !o.perceptual_hash).map(o => o.id),
+    [outputs]
+  );
+
+  const refreshHashes = useCallback(async () => {
+    if (unhashedOutputIds.length === 0) return;
+    const { data } = await supabase
+      .from('ai_apply_outputs')
+      .select('id, perceptual_hash')
+      .in('id', unhashedOutputIds.slice(0, 100))
+      .not('perceptual_hash', 'is', null);
+    if (!data || data.length === 0) return;
+    const hashes = new Map(data.map(row => [row.id, row.perceptual_hash]));
+    setOutputs(prev => prev.map(o => hashes.has(o.id) ? { ...o, perceptual_hash: hashes.get(o.id) ?? null } : o));
+  }, [unhashedOutputIds]);
+
+  usePerceptualHashBackfill('ai_apply_outputs', unhashedOutputIds, stackSimilar, refreshHashes);
+
   // Group outputs by look and view
   const groupedByLook = useMemo(() => {
     const groups: LookGroup[] = [];
@@ -734,6 +759,28 @@ export function ReviewSelectTab({ projectId, onContinue }: ReviewSelectTabProps)
     });
   };
 
+  const toggleStackExpanded = (outputId: string) => {
+    setExpandedStacks(prev => {
+      const next = new Set(prev);
+      if (next.has(outputId)) {
+        next.delete(outputId);
+      } else {
+        next.add(outputId);
+      }
+      return next;
+    });
+  };
+
+  // Collapse near-identical attempts; the selected output always stays visible
+  const stackOutputs = (items: OutputItem[]) => stackSimilar
+    ? stackNearDuplicates(items, {
+        getId: o => o.id,
+        getHash: o => o.perceptual_hash,
+        expandedIds: expandedStacks,
+        preferAsTop: o => o.is_selected,
+      })
+    : { visible: items, hiddenCounts: new Map<string, number>(), stackSizes: new Map<string, number>() };
+
   const toggleViewExpanded = (lookId: string, view: string) => {
     const key = `${lookId}:${view}`;
     setExpandedUnselectedViews(prev => {
@@ -913,6 +960,18 @@ export function ReviewSelectTab({ projectId, onContinue }: ReviewSelectTabProps)
         </div>
         
         <div className="flex items-center gap-4">
+          {/* Near-duplicate stacking toggle */}
+          <div className="flex items-center gap-2">
+            <Switch
+              id="stack-similar"
+              checked={stackSimilar}
+              onCheckedChange={setStackSimilar}
+            />
+            <Label htmlFor="stack-similar" className="text-sm flex items-center gap-1.5 cursor-pointer">
+              <Layers className="h-4 w-4" /> Stack similar
+            </Label>
+          </div>
+
           {/* Show selected only toggle */}
           <div className="flex items-center gap-2">
             <Switch
@@ -1096,6 +1155,7 @@ export function ReviewSelectTab({ projectId, onContinue }: ReviewSelectTabProps)
                         const outputsToShow = showSelectedOnly && selectedOutput && !isViewExpanded
                           ? [selectedOutput]
                           : viewOutputs;
+                        const { visible: stackedOutputs, hiddenCounts, stackSizes } = stackOutputs(outputsToShow);
 
                         return (
                           <div key={view} className="space-y-2">
@@ -1137,7 +1197,7 @@ export function ReviewSelectTab({ projectId, onContinue }: ReviewSelectTabProps)
                                 ? "grid-cols-1 max-w-xs"
                                 : "grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6"
                             )}>
-                              {outputsToShow.map((output, idx) => (
+                              {stackedOutputs.map((output, idx) => (
                                 <button
                                   key={output.id}
                                   onClick={() => handleSelect(output)}
@@ -1162,6 +1222,30 @@ export function ReviewSelectTab({ projectId, onContinue }: ReviewSelectTabProps)
                                     #{output.attempt_index + 1}
                                   </div>
 
+                                  {/* Near-duplicate stack toggle */}
+                                  {stackSizes.has(output.id) && (
+                                    <span
+                                      role="button"
+                                      tabIndex={0}
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        toggleStackExpanded(output.id);
+                                      }}
+                                      onKeyDown={(e) => {
+                                        if (e.key === 'Enter' || e.key === ' ') {
+                                          e.preventDefault();
+                                          e.stopPropagation();
+                                          toggleStackExpanded(output.id);
+                                        }
+                                      }}
+                                      className="absolute top-1 right-1 z-10 flex items-center gap-1 bg-black/70 hover:bg-black/80 text-white text-xs px-1.5 py-0.5 rounded"
+                                      title={`${stackSizes.get(output.id)} near-identical attempts`}
+                                    >
+                                      <Layers className="h-3 w-3" />
+                                      {hiddenCounts.has(output.id) ? `+${hiddenCounts.get(output.id)}` : 'Collapse'}
+                                    </span>
+                                  )}
+
                                   {/* Selection indicator */}
                                   {output.is_selected && (
                                     <div className="absolute inset-0 bg-primary/20 flex items-center justify-center">
@@ -1322,6 +1406,7 @@ export function ReviewSelectTab({ projectId, onContinue }: ReviewSelectTabProps)
                             const outputsToShow = showSelectedOnly && selectedOutput && !isViewExpanded
                               ? [selectedOutput]
                               : viewOutputs;
+                            const { visible: stackedOutputs, hiddenCounts, stackSizes } = stackOutputs(outputsToShow);
 
                             return (
                               <div key={view} className="space-y-2">
@@ -1363,7 +1448,7 @@ export function ReviewSelectTab({ projectId, onContinue }: ReviewSelectTabProps)
                                     ? "grid-cols-1 max-w-xs"
                                     : "grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6"
                                 )}>
-                                  {outputsToShow.map((output, idx) => (
+                                  {stackedOutputs.map((output, idx) => (
                                     <button
                                       key={output.id}
                                       onClick={() => handleSelect(output)}
@@ -1388,6 +1473,30 @@ export function ReviewSelectTab({ projectId, onContinue }: ReviewSelectTabProps)
                                         #{output.attempt_index + 1}
                                       </div>
 
+                                      {/* Near-duplicate stack toggle */}
+                                      {stackSizes.has(output.id) && (
+                                        <span
+                                          role="button"
+                                          tabIndex={0}
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            toggleStackExpanded(output.id);
+                                          }}
+                                          onKeyDown={(e) => {
+                                            if (e.key === 'Enter' || e.key === ' ') {
+                                              e.preventDefault();
+                                              e.stopPropagation();
+                                              toggleStackExpanded(output.id);
+                                            }
+                                          }}
+                                          className="absolute top-1 right-1 z-10 flex items-center gap-1 bg-black/70 hover:bg-black/80 text-white text-xs px-1.5 py-0.5 rounded"
+                                          title={`${stackSizes.get(output.id)} near-identical attempts`}
+                                        >
+                                          <Layers className="h-3 w-3" />
+                                          {hiddenCounts.has(output.id) ? `+${hiddenCounts.get(output.id)}` : 'Collapse'}
+                                        </span>
+                                      )}
+
                                       {/* Selection indicator */}
                                       {output.is_selected && (
                                         <div className="absolute inset-0 bg-primary/20 flex items-center justify-center">
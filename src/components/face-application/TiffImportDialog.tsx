@@ -33,6 +33,8 @@ import {
   SkipForward,
   FileCheck,
   FileWarning,
+  Settings2,
+  Link2,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
@@ -43,13 +45,17 @@ import {
   PreflightFile,
   PreflightSummary,
   ExistingLookData,
+  ExistingAssetMatch,
   parseFile,
   groupFilesByLook,
   renameLookGroup,
   updateFileView,
   isTiffFile,
   runPreflightCheck,
+  summarizePreflight,
+  describeExistingAsset,
 } from "@/lib/tiffImportUtils";
+import { computeContentHash } from "@/lib/fileUtils";
 import {
   Select,
   SelectContent,
@@ -57,11 +63,20 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { ImportProfileEditor } from "@/components/shared/ImportProfileEditor";
+import { useBrandImportProfiles, useSaveBrandImportProfile } from "@/hooks/useBrandImportProfiles";
+import {
+  DEFAULT_IMPORT_PROFILE,
+  ImportProfile,
+  getFilePath,
+  validateImportProfile,
+} from "@/lib/importProfiles";
 
 interface ImageWithView {
   url: string;
   view: 'front' | 'back' | 'side' | 'detail' | 'unassigned';
   originalFilename: string;
+  contentHash: string | null;
 }
 
 // Callback for progressive image saving - called after each successful conversion
@@ -70,6 +85,7 @@ export interface ProgressiveImageData {
   view: 'front' | 'back' | 'side' | 'detail' | 'unassigned';
   originalFilename: string;
   lookKey: string | null;
+  contentHash: string | null;
 }
 
 interface TiffImportDialogProps {
@@ -95,6 +111,9 @@ interface FileConversionState {
 
 type Step = "preflight" | "converting" | "grouping" | "committing";
 
+const BUILT_IN_PROFILE = "built-in";
+const HASH_LOOKUP_CHUNK = 200;
+
 export function TiffImportDialog({
   open,
   onOpenChange,
@@ -113,6 +132,14 @@ export function TiffImportDialog({
   const [isConverting, setIsConverting] = useState(false);
   const [preflightSummary, setPreflightSummary] = useState<PreflightSummary | null>(null);
   const [isLoadingPreflight, setIsLoadingPreflight] = useState(false);
+  const [hashProgress, setHashProgress] = useState(0);
+  const contentHashesRef = useRef(new WeakMap<File, string>());
+  // Filename parsing profile - kept across dialog opens so a brand only needs picking once
+  const [profileBrandId, setProfileBrandId] = useState<string>(BUILT_IN_PROFILE);
+  const [activeProfile, setActiveProfile] = useState<ImportProfile | null>(null);
+  const [draftProfile, setDraftProfile] = useState<ImportProfile | null>(null);
+  const { data: brandProfiles } = useBrandImportProfiles();
+  const saveBrandProfile = useSaveBrandImportProfile();
   
   // Use ref to track if conversion has started to prevent double-triggering
   const conversionStartedRef = useRef(false);
@@ -131,6 +158,7 @@ export function TiffImportDialog({
     setIsConverting(false);
     setPreflightSummary(null);
     setIsLoadingPreflight(false);
+    setDraftProfile(null);
     conversionStartedRef.current = false;
     prevFilesRef.current = [];
   }, []);
@@ -152,18 +180,60 @@ export function TiffImportDialog({
       if (filesChanged) {
         console.log("[TiffImport] Files changed, running preflight for", files.length, "files");
         prevFilesRef.current = files;
-        runPreflightAnalysis();
+        runPreflightAnalysis(activeProfile);
       }
     }
   }, [open, files]);
 
-  const runPreflightAnalysis = async () => {
+  // Images with the same content already stored in any project
+  const findExistingAssets = async (hashes: string[]): Promise<Map<string, ExistingAssetMatch>> => {
+    const matches = new Map<string, ExistingAssetMatch>();
+    const uniqueHashes = [...new Set(hashes)];
+    
+    for (let i = 0; i < uniqueHashes.length; i += HASH_LOOKUP_CHUNK) {
+      const { data, error } = await supabase.rpc("find_images_by_content_hash", {
+        p_hashes: uniqueHashes.slice(i, i + HASH_LOOKUP_CHUNK),
+      });
+      if (error) throw error;
+      
+      for (const row of data || []) {
+        // Face Application needs browser-viewable images, so unconverted TIFFs can't be linked
+        if (/\.tiff?$/i.test(row.image_url)) continue;
+        // Prefer Face Application images, which are already converted to PNG
+        const current = matches.get(row.content_hash);
+        if (current && (current.source === 'face_application' || row.source !== 'face_application')) continue;
+        matches.set(row.content_hash, {
+          source: row.source as ExistingAssetMatch['source'],
+          imageUrl: row.image_url,
+          lookName: row.look_name,
+          projectId: row.project_id,
+          projectName: row.project_name,
+        });
+      }
+    }
+    
+    return matches;
+  };
+
+  const runPreflightAnalysis = async (profile: ImportProfile | null) => {
     setIsLoadingPreflight(true);
+    setHashProgress(0);
     setStep("preflight");
     
     try {
-      // Parse all files
-      const parsed = files.map(parseFile);
+      // Parse all files and hash their contents (hashes are cached per file across re-runs)
+      const parsed = files.map(file => parseFile(file, profile));
+      for (let i = 0; i < parsed.length; i++) {
+        const file = parsed[i].file;
+        let hash = contentHashesRef.current.get(file);
+        if (!hash) {
+          hash = await computeContentHash(file);
+          contentHashesRef.current.set(file, hash);
+        }
+        parsed[i].contentHash = hash;
+        setHashProgress(i + 1);
+      }
+      const assetMatches = await findExistingAssets(parsed.map(p => p.contentHash!));
       
       // Get unique lookKeys to query
       const lookKeys = [...new Set(parsed.map(p => p.lookKey).filter(Boolean))] as string[];
@@ -194,7 +264,7 @@ export function TiffImportDialog({
       }));
       
       // Run preflight check
-      const { files: preflightFiles, summary } = runPreflightCheck(parsed, existingLookData);
+      const { files: preflightFiles, summary } = runPreflightCheck(parsed, existingLookData, assetMatches);
       
       setPreflightSummary(summary);
       setConversionStates(
@@ -217,6 +287,41 @@ export function TiffImportDialog({
     }
   };
 
+  const handleProfileBrandChange = (brandId: string) => {
+    const profile = brandProfiles?.find(b => b.brandId === brandId)?.profile ?? null;
+    setProfileBrandId(brandId);
+    setActiveProfile(profile);
+    setDraftProfile(null);
+    runPreflightAnalysis(profile);
+  };
+
+  const handleApplyDraftProfile = () => {
+    if (!draftProfile) return;
+    setActiveProfile(draftProfile);
+    runPreflightAnalysis(draftProfile);
+  };
+
+  const handleSaveDraftProfile = async () => {
+    if (!draftProfile || profileBrandId === BUILT_IN_PROFILE) return;
+    try {
+      await saveBrandProfile.mutateAsync({ brandId: profileBrandId, profile: draftProfile });
+      handleApplyDraftProfile();
+    } catch {
+      // Error toast is raised by the mutation
+    }
+  };
+
+  // Switch a file between linking the existing asset and uploading it again
+  const handleToggleLink = (index: number) => {
+    const next = conversionStates.map((state, i) =>
+      i === index
+        ? { ...state, file: { ...state.file, action: state.file.action === 'link' ? 'add' as const : 'link' as const } }
+        : state
+    );
+    setConversionStates(next);
+    setPreflightSummary(summarizePreflight(next.map(state => state.file)));
+  };
+
   const handleStartImport = () => {
     setStep("converting");
     conversionStartedRef.current = false;
@@ -331,7 +436,10 @@ export function TiffImportDialog({
     try {
       let pngUrl: string;
 
-      if (isTiffFile(item.file.file)) {
+      if (item.file.action === 'link' && item.file.existingAsset) {
+        // Identical image already stored - reuse it instead of uploading again
+        pngUrl = item.file.existingAsset.imageUrl;
+      } else if (isTiffFile(item.file.file)) {
         setConversionStates((prev) =>
           prev.map((s, i) => (i === index ? { ...s, status: "uploading", uploadProgress: 0 } : s))
         );
@@ -374,6 +482,7 @@ export function TiffImportDialog({
             view: item.file.inferredView,
             originalFilename: item.file.originalFilename,
             lookKey: item.file.lookKey,
+            contentHash: item.file.contentHash ?? null,
           });
         } catch (saveError) {
           console.warn(`[TiffImport] Failed to save ${item.file.originalFilename} to DB:`, saveError);
@@ -576,6 +685,7 @@ export function TiffImportDialog({
             url: f.pngUrl!,
             view: f.inferredView,
             originalFilename: f.originalFilename,
+            contentHash: f.contentHash ?? null,
           }));
 
         if (images.length > 0) {
@@ -599,6 +709,7 @@ export function TiffImportDialog({
   };
 
   const selectedGroup = lookGroups.find((g) => g.lookKey === selectedGroupKey);
+  const samplePaths = files.map(getFilePath);
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -638,17 +749,80 @@ export function TiffImportDialog({
         {/* Step 0: Preflight */}
         {step === "preflight" && (
           <div className="flex-1 overflow-hidden flex flex-col gap-4 min-h-0">
+            {/* Filename parsing profile */}
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-muted-foreground">Naming rules</span>
+              <Select value={profileBrandId} onValueChange={handleProfileBrandChange} disabled={isLoadingPreflight}>
+                <SelectTrigger className="w-56 h-8 text-sm">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={BUILT_IN_PROFILE}>Built-in</SelectItem>
+                  {brandProfiles?.map(brand => (
+                    <SelectItem key={brand.brandId} value={brand.brandId}>
+                      {brand.brandName}{brand.profile ? "" : " (built-in)"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8"
+                onClick={() => setDraftProfile(draftProfile ? null : activeProfile ?? DEFAULT_IMPORT_PROFILE)}
+              >
+                <Settings2 className="h-4 w-4 mr-1" />
+                {draftProfile ? "Hide rules" : "Edit rules"}
+              </Button>
+            </div>
+
+            {draftProfile && (
+              <div className="border rounded-lg p-3 space-y-3">
+                <ImportProfileEditor
+                  value={draftProfile}
+                  onChange={setDraftProfile}
+                  samplePaths={samplePaths}
+                />
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleApplyDraftProfile}
+                    disabled={isLoadingPreflight || !!validateImportProfile(draftProfile)}
+                  >
+                    Apply to this import
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={handleSaveDraftProfile}
+                    disabled={
+                      profileBrandId === BUILT_IN_PROFILE ||
+                      saveBrandProfile.isPending ||
+                      !!validateImportProfile(draftProfile)
+                    }
+                  >
+                    {saveBrandProfile.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+                    Save to brand
+                  </Button>
+                </div>
+              </div>
+            )}
+
             {isLoadingPreflight ? (
               <div className="flex flex-col items-center justify-center py-12 gap-4">
                 <Loader2 className="h-8 w-8 animate-spin text-primary" />
-                <p className="text-sm text-muted-foreground">Analyzing {files.length} files...</p>
+                <p className="text-sm text-muted-foreground">
+                  {hashProgress < files.length
+                    ? `Hashing files ${hashProgress}/${files.length}...`
+                    : `Analyzing ${files.length} files...`}
+                </p>
               </div>
             ) : preflightSummary ? (
               <>
                 {/* Summary panel */}
                 <div className="bg-muted/50 rounded-lg p-4 space-y-3">
                   <h3 className="font-medium text-sm">Import Summary</h3>
-                  <div className="grid grid-cols-3 gap-4">
+                  <div className="grid grid-cols-4 gap-4">
                     <div className="flex items-center gap-2">
                       <FileCheck className="h-5 w-5 text-green-500" />
                       <div>
@@ -656,6 +830,13 @@ export function TiffImportDialog({
                         <p className="text-xs text-muted-foreground">Will add</p>
                       </div>
                     </div>
+                    <div className="flex items-center gap-2">
+                      <Link2 className="h-5 w-5 text-blue-500" />
+                      <div>
+                        <p className="text-2xl font-bold">{preflightSummary.willLink}</p>
+                        <p className="text-xs text-muted-foreground">Will link (already stored)</p>
+                      </div>
+                    </div>
                     <div className="flex items-center gap-2">
                       <SkipForward className="h-5 w-5 text-amber-500" />
                       <div>
@@ -690,6 +871,9 @@ export function TiffImportDialog({
                         {state.file.action === 'add' && (
                           <CheckCircle className="h-4 w-4 text-green-500 flex-shrink-0" />
                         )}
+                        {state.file.action === 'link' && (
+                          <Link2 className="h-4 w-4 text-blue-500 flex-shrink-0" />
+                        )}
                         {state.file.action === 'skip' && (
                           <SkipForward className="h-4 w-4 text-amber-500 flex-shrink-0" />
                         )}
@@ -717,6 +901,31 @@ export function TiffImportDialog({
                           {state.file.inferredView}
                         </Badge>
                         
+                        {state.file.existingAsset && (state.file.action === 'add' || state.file.action === 'link') && (
+                          <>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <span className="text-xs text-amber-600 truncate max-w-[200px]">
+                                  Exists in {describeExistingAsset(state.file.existingAsset)}
+                                </span>
+                              </TooltipTrigger>
+                              <TooltipContent>
+                                <p className="text-xs">
+                                  This exact image already exists in {describeExistingAsset(state.file.existingAsset)}
+                                </p>
+                              </TooltipContent>
+                            </Tooltip>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-6 px-2 text-xs"
+                              onClick={() => handleToggleLink(index)}
+                            >
+                              {state.file.action === 'link' ? "Re-upload" : "Link existing"}
+                            </Button>
+                          </>
+                        )}
+                        
                         {state.file.skipReason && (
                           <Tooltip>
                             <TooltipTrigger asChild>
@@ -742,9 +951,9 @@ export function TiffImportDialog({
               </Button>
               <Button
                 onClick={handleStartImport}
-                disabled={isLoadingPreflight || !preflightSummary || preflightSummary.willAdd === 0}
+                disabled={isLoadingPreflight || !preflightSummary || preflightSummary.willAdd + preflightSummary.willLink === 0}
               >
-                Start Import ({preflightSummary?.willAdd || 0} files)
+                Start Import ({(preflightSummary?.willAdd || 0) + (preflightSummary?.willLink || 0)} files)
                 <ChevronRight className="h-4 w-4 ml-1" />
               </Button>
             </DialogFooter>
@@ -1,7 +1,13 @@
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { 
   X, 
   Loader2, 
@@ -20,12 +26,15 @@ import { useState } from "react";
 import { cn } from "@/lib/utils";
 import { VIEW_LABELS } from "@/types/face-application";
 import type { AIApplyQueueItem } from "@/types/ai-apply";
+import { usePromptVersions } from "@/hooks/usePromptVersions";
+
+const ACTIVE_PROMPT = "active";
 
 interface QueuePanelProps {
   queue: AIApplyQueueItem[];
   selectedViews: Set<string>;
-  prompt: string;
-  onPromptChange: (prompt: string) => void;
+  promptVersionId: string | null; // null follows the active library version
+  onPromptVersionChange: (promptVersionId: string | null) => void;
   onRemoveFromQueue: (id: string) => void;
   onRetryItem: (item: AIApplyQueueItem) => void;
   onCancelBatch: () => void;
@@ -67,14 +76,17 @@ function QueueItemStatus({ status }: { status: AIApplyQueueItem['status'] }) {
 export function QueuePanel({
   queue,
   selectedViews,
-  prompt,
-  onPromptChange,
+  promptVersionId,
+  onPromptVersionChange,
   onRemoveFromQueue,
   onRetryItem,
   onCancelBatch,
   onSendToJobBoard,
 }: QueuePanelProps) {
   const [promptOpen, setPromptOpen] = useState(false);
+  const { data: promptVersions = [] } = usePromptVersions("ai_apply");
+  const activeVersion = promptVersions.find(v => v.is_active) ?? null;
+  const shownVersion = promptVersions.find(v => v.id === promptVersionId) ?? activeVersion;
 
   const processingCount = queue.filter(q => q.status === 'processing').length;
   const queuedCount = queue.filter(q => q.status === 'queued').length;
@@ -160,13 +172,28 @@ export function QueuePanel({
             <ChevronDown className={cn("h-4 w-4 transition-transform", promptOpen && "rotate-180")} />
           </CollapsibleTrigger>
           <CollapsibleContent>
-            <div className="px-4 pb-4">
-              <Textarea
-                value={prompt}
-                onChange={(e) => onPromptChange(e.target.value)}
-                placeholder="Enter your generation prompt..."
-                className="text-xs min-h-[100px] resize-none bg-muted border-0 focus-visible:ring-1"
-              />
+            <div className="px-4 pb-4 space-y-2">
+              <Select
+                value={promptVersionId ?? ACTIVE_PROMPT}
+                onValueChange={(v) => onPromptVersionChange(v === ACTIVE_PROMPT ? null : v)}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ACTIVE_PROMPT} className="text-xs">
+                    Active version{activeVersion ? ` (${activeVersion.version})` : ""}
+                  </SelectItem>
+                  {promptVersions.map(v => (
+                    <SelectItem key={v.id} value={v.id} className="text-xs">
+                      {v.version}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground bg-muted rounded-md p-2 max-h-40 overflow-y-auto whitespace-pre-wrap">
+                {shownVersion?.template ?? "No library version yet. The built-in prompt is used."}
+              </p>
             </div>
           </CollapsibleContent>
         </Collapsible>
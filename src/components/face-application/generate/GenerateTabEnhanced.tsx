@@ -17,6 +17,8 @@ import { GenerationPlanPreview } from "./GenerationPlanPreview";
 import { GenerationProgressPanel } from "./GenerationProgressPanel";
 import { GeneratedImagesGallery } from "./GeneratedImagesGallery";
 import { LiveGenerationFeed } from "./LiveGenerationFeed";
+import { useAIModelPrices } from "@/hooks/useAISpend";
+import { estimateCost, OUTFIT_DESCRIPTION_MODEL } from "@/lib/aiSpend";
 
 // Helper to chunk arrays for large queries
 function chunkArray<T>(array: T[], size: number): T[][] {
@@ -194,6 +196,14 @@ export function GenerateTabEnhanced({
     };
   }, [selectedLookIds, looks, attemptsPerView, allowRegenerate]);
 
+  // One outfit description per view plus the outputs themselves
+  const { data: aiPrices = [] } = useAIModelPrices();
+  const estimatedCostUsd = useMemo(() => {
+    const outputsCost = estimateCost(aiPrices, selectedModel, null, generationPlan.outputsToGenerate);
+    const descriptionsCost = estimateCost(aiPrices, OUTFIT_DESCRIPTION_MODEL, null, generationPlan.totalViewsToGenerate);
+    return outputsCost === null ? null : outputsCost + (descriptionsCost ?? 0);
+  }, [aiPrices, selectedModel, generationPlan]);
+
   // Auto-select needs generation looks when filter changes
   useEffect(() => {
     if (filterMode === 'needs_generation' && looks.length > 0) {
@@ -1053,6 +1063,7 @@ export function GenerateTabEnhanced({
             allowRegenerate={allowRegenerate}
             onAllowRegenerateChange={setAllowRegenerate}
             requiredOptions={attemptsPerView}
+            estimatedCostUsd={estimatedCostUsd}
             isGenerating={isGenerating}
           />
         )}
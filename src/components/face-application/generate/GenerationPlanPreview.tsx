@@ -4,6 +4,7 @@ import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Sparkles, AlertTriangle, CheckCircle2 } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { AICostEstimate } from "@/components/ai-spend/AICostEstimate";
 
 interface GenerationPlanPreviewProps {
   selectedLooksCount: number;
@@ -13,6 +14,8 @@ interface GenerationPlanPreviewProps {
   allowRegenerate: boolean;
   onAllowRegenerateChange: (allow: boolean) => void;
   requiredOptions: number;
+  /** Outputs plus outfit descriptions; null when the model has no price */
+  estimatedCostUsd: number | null;
   isGenerating?: boolean;
 }
 
@@ -24,6 +27,7 @@ export function GenerationPlanPreview({
   allowRegenerate,
   onAllowRegenerateChange,
   requiredOptions,
+  estimatedCostUsd,
   isGenerating = false,
 }: GenerationPlanPreviewProps) {
   const hasExistingOutputs = existingOutputsCount > 0;
@@ -58,6 +62,8 @@ export function GenerationPlanPreview({
               </p>
             )}
 
+            {outputsToGenerate > 0 && <AICostEstimate estimateUsd={estimatedCostUsd} />}
+
             {/* Warning about existing outputs */}
             {hasExistingOutputs && !allowRegenerate && outputsToGenerate > 0 && (
               <p className="text-xs text-amber-600 flex items-center gap-1.5 mt-2">
@@ -12,6 +12,7 @@ import {
   X,
   Trash2,
   Square,
+  GitMerge,
 } from "lucide-react";
 import {
   ModelColumnView,
@@ -19,6 +20,8 @@ import {
   useModelData,
   useImageSelection,
   useImageOperations,
+  useFaceEmbeddings,
+  ClusterReviewDialog,
   GenderFilter,
   IdentityImage,
 } from "./classification";
@@ -53,10 +56,13 @@ export function ClassificationPanel({ runId }: ClassificationPanelProps) {
   // Unclassified images
   const [unclassifiedImages, setUnclassifiedImages] = useState<any[]>([]);
 
+  const [clusterDialogOpen, setClusterDialogOpen] = useState(false);
+
   // Use new hooks
   const { identities, imagesByIdentity, isLoading, refetch, refetchSilent } = useModelData(runId, selectedGender);
   const selection = useImageSelection();
   const operations = useImageOperations(refetch, refetchSilent);
+  const faceEmbeddings = useFaceEmbeddings(runId, imagesByIdentity);
 
   // Fetch unclassified images
   useEffect(() => {
@@ -447,6 +453,19 @@ export function ClassificationPanel({ runId }: ClassificationPanelProps) {
             </Button>
           )}
 
+          {identities.length > 0 && (
+            <Button
+              onClick={() => setClusterDialogOpen(true)}
+              disabled={isLoading || isRunningAI}
+              variant="outline"
+              size="sm"
+              className="w-full"
+            >
+              <GitMerge className="h-4 w-4 mr-2" />
+              Review Face Clusters
+            </Button>
+          )}
+
           {jobProgress && (
             <div className="bg-muted/50 rounded-md px-3 py-2">
               <p className="text-xs font-medium capitalize">{jobProgress.status.replace(/_/g, ' ')}</p>
@@ -535,6 +554,20 @@ export function ClassificationPanel({ runId }: ClassificationPanelProps) {
         />
       )}
 
+      <ClusterReviewDialog
+        open={clusterDialogOpen}
+        onOpenChange={setClusterDialogOpen}
+        identities={identities}
+        imagesByIdentity={imagesByIdentity}
+        embeddingsByScrapeImage={faceEmbeddings.embeddingsByScrapeImage}
+        threshold={faceEmbeddings.threshold}
+        onThresholdChange={faceEmbeddings.saveThreshold}
+        onMergeModels={handleMergeModels}
+        onSplitImages={handleSplitImages}
+        isLoading={faceEmbeddings.isLoading}
+        isOperating={operations.isOperating}
+      />
+
       {/* Promote to Twin Dialog */}
       {selectedIdentityForTwin && (
         <PromoteToTwinDialog
@@ -0,0 +1,156 @@
+import { useMemo } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, RotateCcw, Save } from "lucide-react";
+import {
+  useCropCalibrationProfiles,
+  useCropCalibrationSamples,
+  useDeleteCropCalibrationProfile,
+  useSaveCropCalibrationProfile,
+} from "@/hooks/useCropCalibration";
+import {
+  fitCropParameters,
+  formatCropError,
+  MIN_CALIBRATION_SAMPLES,
+  profileCropParameters,
+} from "@/lib/cropCalibration";
+import { DEFAULT_CROP_PARAMETERS, type CropParameters } from "@/lib/cropCalculation";
+
+interface CropCalibrationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  brandName: string | null;
+}
+
+function formatParameters(params: CropParameters) {
+  return `${params.aboveFaceMultiplier.toFixed(2)} / ${params.belowFaceMultiplier.toFixed(2)} / ${params.horizontalPadding.toFixed(2)}`;
+}
+
+export function CropCalibrationDialog({ open, onOpenChange, brandName }: CropCalibrationDialogProps) {
+  const { data: profiles = [] } = useCropCalibrationProfiles(brandName);
+  const { data: samples, isLoading } = useCropCalibrationSamples(brandName, open);
+  const saveProfile = useSaveCropCalibrationProfile();
+  const deleteProfile = useDeleteCropCalibrationProfile();
+
+  // Fitted against whatever each view uses today, so "before" is the error operators see now
+  const rows = useMemo(() => {
+    const samplesByView = samples?.samplesByView ?? {};
+    const views = [...new Set([...Object.keys(samplesByView), ...profiles.map(p => p.view_type)])].sort();
+
+    return views.map(viewType => {
+      const profile = profiles.find(p => p.view_type === viewType);
+      const current = profile ? profileCropParameters(profile) : DEFAULT_CROP_PARAMETERS;
+      return {
+        viewType,
+        profile,
+        current,
+        result: fitCropParameters(samplesByView[viewType] ?? [], current),
+      };
+    });
+  }, [samples, profiles]);
+
+  const usableCount = rows.reduce((sum, row) => sum + row.result.sampleCount, 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Crop Calibration{brandName ? ` - ${brandName}` : ''}</DialogTitle>
+          <DialogDescription>
+            Fits the head-and-shoulders crop (above face / below face / width, in face sizes) to the manual
+            corrections saved for this brand. Error is the average distance of each crop edge from where it was
+            corrected to, in percent of the image.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="py-12 text-center text-sm text-muted-foreground">
+            No corrections recorded for this brand yet. Corrections are saved when you adjust a detected crop.
+          </p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>View</TableHead>
+                  <TableHead className="text-right">Samples</TableHead>
+                  <TableHead>Current</TableHead>
+                  <TableHead>Fitted</TableHead>
+                  <TableHead className="text-right">Error</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(({ viewType, profile, current, result }) => {
+                  const tooFew = result.sampleCount < MIN_CALIBRATION_SAMPLES;
+                  const improves = result.meanErrorAfter < result.meanErrorBefore;
+
+                  return (
+                    <TableRow key={viewType}>
+                      <TableCell className="capitalize">{viewType}</TableCell>
+                      <TableCell className="text-right">{result.sampleCount}</TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {formatParameters(current)}
+                        {!profile && <Badge variant="outline" className="ml-2">default</Badge>}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">
+                        {tooFew ? (
+                          <span className="text-muted-foreground">Needs {MIN_CALIBRATION_SAMPLES}+ samples</span>
+                        ) : (
+                          formatParameters(result.params)
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-xs whitespace-nowrap">
+                        {result.sampleCount === 0
+                          ? '-'
+                          : `${formatCropError(result.meanErrorBefore)} → ${formatCropError(result.meanErrorAfter)}`}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {profile && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            title="Revert to the default parameters"
+                            disabled={deleteProfile.isPending}
+                            onClick={() => deleteProfile.mutate(profile)}
+                          >
+                            <RotateCcw className="h-3.5 w-3.5" />
+                          </Button>
+                        )}
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={!brandName || tooFew || !improves || saveProfile.isPending}
+                          onClick={() => saveProfile.mutate({ brandName: brandName!, viewType, result })}
+                        >
+                          <Save className="h-3.5 w-3.5 mr-1" />
+                          Save
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-muted-foreground">
+              {usableCount} of {samples?.correctionCount ?? 0} corrections have a face box to calibrate from.
+              Saved profiles are used when crops are generated with MediaPipe.
+            </p>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
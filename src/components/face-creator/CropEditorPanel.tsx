@@ -8,11 +8,14 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Loader2, Play, RefreshCw, ChevronLeft, ChevronRight, RotateCcw, Check, Scan, AlertTriangle, Sparkles, Trash2, Upload, ImageIcon, FileImage, Users, Filter } from "lucide-react";
+import { Loader2, Play, RefreshCw, ChevronLeft, ChevronRight, RotateCcw, Check, Scan, AlertTriangle, Sparkles, Trash2, Upload, ImageIcon, FileImage, Users, Filter, SlidersHorizontal } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { useFaceDetector } from "@/hooks/useFaceDetector";
-import { calculateHeadAndShouldersCrop, getBestFaceDetection } from "@/lib/cropCalculation";
+import { calculateHeadAndShouldersCrop, getBestFaceDetection, DEFAULT_CROP_PARAMETERS } from "@/lib/cropCalculation";
+import { profileCropParameters } from "@/lib/cropCalibration";
+import { useCropCalibrationProfiles } from "@/hooks/useCropCalibration";
+import { CropCalibrationDialog } from "./CropCalibrationDialog";
 import { CropPreview } from "@/components/shared/CropPreview";
 import type { FaceScrapeImage, FaceCrop, FaceJob } from "@/types/face-creator";
 
@@ -68,6 +71,8 @@ interface CropCorrection {
 interface AILastSuggestion {
   imageId: string;
   crop: { x: number; y: number; width: number; height: number };
+  // Face the crop was built around, as percentages - lets corrections calibrate the crop maths
+  faceBox: { x: number; y: number; width: number; height: number } | null;
 }
 
 export function CropEditorPanel({ runId, pairedIdentityIds = [] }: CropEditorPanelProps) {
@@ -102,11 +107,15 @@ export function CropEditorPanel({ runId, pairedIdentityIds = [] }: CropEditorPan
   const [referenceImages, setReferenceImages] = useState<CropReferenceImage[]>([]);
   const [recentCorrections, setRecentCorrections] = useState<CropCorrection[]>([]);
   const [aiLastSuggestion, setAiLastSuggestion] = useState<AILastSuggestion | null>(null);
+  const [brandName, setBrandName] = useState<string | null>(null);
+  const [calibrationOpen, setCalibrationOpen] = useState(false);
+  const { data: calibrationProfiles = [] } = useCropCalibrationProfiles(brandName);
   
   // Model filtering state
   const [modelIdentities, setModelIdentities] = useState<ModelIdentity[]>([]);
   const [selectedModelId, setSelectedModelId] = useState<string>('all');
   const [imageToIdentityMap, setImageToIdentityMap] = useState<Map<string, string>>(new Map());
+  const [imageViewMap, setImageViewMap] = useState<Map<string, string>>(new Map());
   
   // Determine if we should auto-filter to paired models
   const hasPairedContext = pairedIdentityIds.length > 0;
@@ -154,18 +163,29 @@ export function CropEditorPanel({ runId, pairedIdentityIds = [] }: CropEditorPan
     
     const { data, error } = await supabase
       .from('face_identity_images')
-      .select('scrape_image_id, identity_id')
+      .select('scrape_image_id, identity_id, view')
       .in('identity_id', modelIdentities.map(m => m.id));
     
     if (data && !error) {
       const mapping = new Map<string, string>();
+      const views = new Map<string, string>();
       data.forEach(item => {
         mapping.set(item.scrape_image_id, item.identity_id);
+        if (item.view) views.set(item.scrape_image_id, item.view);
       });
       setImageToIdentityMap(mapping);
+      setImageViewMap(views);
     }
   }, [runId, modelIdentities]);
 
+  // Calibrated crop parameters for the image's brand and view, else the defaults.
+  // Unclassified images count as front, as their corrections do.
+  const cropParametersFor = useCallback((imageId: string) => {
+    const viewType = imageViewMap.get(imageId) || 'front';
+    const profile = calibrationProfiles.find(p => p.view_type === viewType);
+    return profile ? profileCropParameters(profile) : DEFAULT_CROP_PARAMETERS;
+  }, [imageViewMap, calibrationProfiles]);
+
   useEffect(() => {
     if (!runId) return;
     
@@ -173,6 +193,7 @@ export function CropEditorPanel({ runId, pairedIdentityIds = [] }: CropEditorPan
     fetchJob();
     fetchReferenceImages();
     fetchRecentCorrections();
+    fetchBrandName();
     fetchModelIdentities();
 
     const channel = supabase
@@ -223,6 +244,15 @@ export function CropEditorPanel({ runId, pairedIdentityIds = [] }: CropEditorPan
     }
   };
 
+  const fetchBrandName = async () => {
+    const { data } = await supabase
+      .from('face_scrape_runs')
+      .select('brand_name')
+      .eq('id', runId)
+      .single();
+    setBrandName(data?.brand_name ?? null);
+  };
+
   // Check if reference images have valid HTTPS URLs
   const hasValidReferenceUrls = useCallback(() => {
     return referenceImages.length > 0 && 
@@ -518,7 +548,21 @@ export function CropEditorPanel({ runId, pairedIdentityIds = [] }: CropEditorPan
       const { imageWidth, imageHeight, faceBbox } = await loadImageAndDetect(imageUrl);
       
       // Calculate crop coordinates
-      const cropCoords = calculateHeadAndShouldersCrop(faceBbox, imageWidth, imageHeight, aspectRatio);
+      const cropCoords = calculateHeadAndShouldersCrop(
+        faceBbox, imageWidth, imageHeight, aspectRatio, cropParametersFor(selectedImage.id)
+      );
+
+      // Store the suggestion so a manual fix is recorded as a correction
+      setAiLastSuggestion({
+        imageId: selectedImage.id,
+        crop: { ...cropCoords },
+        faceBox: faceBbox ? {
+          x: (faceBbox.originX / imageWidth) * 100,
+          y: (faceBbox.originY / imageHeight) * 100,
+          width: (faceBbox.width / imageWidth) * 100,
+          height: (faceBbox.height / imageHeight) * 100,
+        } : null,
+      });
       
       // Save detection result
       const existingDetection = await supabase
@@ -692,7 +736,8 @@ export function CropEditorPanel({ runId, pairedIdentityIds = [] }: CropEditorPan
       // Store the AI suggestion for potential learning (before any adjustments for display)
       setAiLastSuggestion({
         imageId: selectedImage.id,
-        crop: { ...result.suggestedCrop }
+        crop: { ...result.suggestedCrop },
+        faceBox: result.faceBoundingBox ? { ...result.faceBoundingBox } : null,
       });
 
       const cropCoords = result.suggestedCrop;
@@ -831,7 +876,9 @@ export function CropEditorPanel({ runId, pairedIdentityIds = [] }: CropEditorPan
           } else {
             // MediaPipe-based detection
             const { imageWidth, imageHeight, faceBbox } = await loadImageAndDetect(imageUrl);
-            cropCoords = calculateHeadAndShouldersCrop(faceBbox, imageWidth, imageHeight, aspectRatio);
+            cropCoords = calculateHeadAndShouldersCrop(
+              faceBbox, imageWidth, imageHeight, aspectRatio, cropParametersFor(image.id)
+            );
             faceDetected = !!faceBbox;
           }
           
@@ -1023,7 +1070,12 @@ export function CropEditorPanel({ runId, pairedIdentityIds = [] }: CropEditorPan
             user_crop_x: cropXPercent,
             user_crop_y: cropYPercent,
             user_crop_width: cropWidthPercent,
-            user_crop_height: cropHeightPercent
+            user_crop_height: cropHeightPercent,
+            face_x: aiLastSuggestion.faceBox?.x ?? null,
+            face_y: aiLastSuggestion.faceBox?.y ?? null,
+            face_width: aiLastSuggestion.faceBox?.width ?? null,
+            face_height: aiLastSuggestion.faceBox?.height ?? null,
+            aspect_ratio: aspectRatio,
           });
           
           console.log(`[CropEditor] Saved correction: AI (${ai.width.toFixed(1)}%x${ai.height.toFixed(1)}%) -> User (${cropWidthPercent.toFixed(1)}%x${cropHeightPercent.toFixed(1)}%)`);
@@ -1570,6 +1622,15 @@ export function CropEditorPanel({ runId, pairedIdentityIds = [] }: CropEditorPan
             )}
           </div>
           
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setCalibrationOpen(true)}
+            disabled={!brandName}
+          >
+            <SlidersHorizontal className="h-4 w-4 mr-2" />
+            Calibrate
+          </Button>
           <Button 
             variant="outline" 
             size="sm" 
@@ -2053,6 +2114,12 @@ export function CropEditorPanel({ runId, pairedIdentityIds = [] }: CropEditorPan
           </CardContent>
         </Card>
       </div>
+
+      <CropCalibrationDialog
+        open={calibrationOpen}
+        onOpenChange={setCalibrationOpen}
+        brandName={brandName}
+      />
     </div>
   );
 }
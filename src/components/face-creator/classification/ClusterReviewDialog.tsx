@@ -0,0 +1,276 @@
+import { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Avatar, AvatarImage, AvatarFallback } from '@/components/ui/avatar';
+import { ArrowRight, Loader2, Merge, Scissors, User } from 'lucide-react';
+import { Identity, IdentityImage } from './types';
+import { getImageUrl } from '@/lib/imageUtils';
+import {
+  clusterFaceGroups,
+  findMergeCandidates,
+  findOutliers,
+  formatFaceDistance,
+  FaceGroup,
+  MERGE_SUGGESTION_MARGIN,
+} from '@/lib/faceClustering';
+
+interface ClusterReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  identities: Identity[];
+  imagesByIdentity: Record<string, IdentityImage[]>;
+  embeddingsByScrapeImage: Record<string, number[]>;
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+  onMergeModels: (sourceIds: string[], targetId: string) => Promise<void>;
+  onSplitImages: (imageIds: string[], sourceId: string) => Promise<void>;
+  isLoading: boolean;
+  isOperating: boolean;
+}
+
+function ModelAvatar({ identity }: { identity: Identity | undefined }) {
+  return (
+    <Avatar className="h-10 w-10">
+      {identity?.representative_image_url ? (
+        <AvatarImage
+          src={getImageUrl(identity.representative_image_url, 'tiny')}
+          alt={identity.name}
+          className="object-cover"
+        />
+      ) : null}
+      <AvatarFallback>
+        <User className="h-4 w-4" />
+      </AvatarFallback>
+    </Avatar>
+  );
+}
+
+export function ClusterReviewDialog({
+  open,
+  onOpenChange,
+  identities,
+  imagesByIdentity,
+  embeddingsByScrapeImage,
+  threshold,
+  onThresholdChange,
+  onMergeModels,
+  onSplitImages,
+  isLoading,
+  isOperating,
+}: ClusterReviewDialogProps) {
+  // Slider moves freely; the run's threshold is only saved on release
+  const [draftThreshold, setDraftThreshold] = useState(threshold);
+
+  useEffect(() => {
+    setDraftThreshold(threshold);
+  }, [threshold]);
+
+  const identitiesById = useMemo(
+    () => new Map(identities.map(i => [i.id, i])),
+    [identities]
+  );
+
+  const groups: FaceGroup[] = useMemo(
+    () =>
+      identities.map(identity => ({
+        id: identity.id,
+        embeddings: (imagesByIdentity[identity.id] || [])
+          .map(img => embeddingsByScrapeImage[img.scrape_image_id])
+          .filter(Boolean),
+      })),
+    [identities, imagesByIdentity, embeddingsByScrapeImage]
+  );
+
+  const totalImages = useMemo(
+    () => Object.values(imagesByIdentity).reduce((sum, images) => sum + images.length, 0),
+    [imagesByIdentity]
+  );
+  const embeddedImages = groups.reduce((sum, group) => sum + group.embeddings.length, 0);
+
+  const clusterCount = useMemo(
+    () => clusterFaceGroups(groups, draftThreshold).length,
+    [groups, draftThreshold]
+  );
+
+  const mergeCandidates = useMemo(
+    () => findMergeCandidates(groups, draftThreshold),
+    [groups, draftThreshold]
+  );
+
+  const outliers = useMemo(() => {
+    const embedded: Record<string, Array<{ id: string; embedding: number[] | null }>> = {};
+    for (const [identityId, images] of Object.entries(imagesByIdentity)) {
+      embedded[identityId] = images.map(img => ({
+        id: img.id,
+        embedding: embeddingsByScrapeImage[img.scrape_image_id] || null,
+      }));
+    }
+    return findOutliers(embedded, draftThreshold);
+  }, [imagesByIdentity, embeddingsByScrapeImage, draftThreshold]);
+
+  const imagesById = useMemo(
+    () => new Map(Object.values(imagesByIdentity).flat().map(img => [img.id, img])),
+    [imagesByIdentity]
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Face Clusters</DialogTitle>
+          <DialogDescription>
+            Distances between face trait scores run from 0 (identical) to 1. Models whose average faces are
+            closer than the threshold are compared side by side when you classify, and merged only if the
+            faces match.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium">Distance threshold</span>
+            <span className="font-mono">{formatFaceDistance(draftThreshold)}</span>
+          </div>
+          <Slider
+            min={0.05}
+            max={0.4}
+            step={0.01}
+            value={[draftThreshold]}
+            onValueChange={([value]) => setDraftThreshold(value)}
+            onValueCommit={([value]) => onThresholdChange(value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            {isLoading ? (
+              'Loading embeddings...'
+            ) : (
+              <>
+                {embeddedImages} of {totalImages} images have a face embedding. At this threshold the{' '}
+                {identities.length} models form {clusterCount} clusters to check. Used by the next Classify run.
+              </>
+            )}
+          </p>
+        </div>
+
+        <Tabs defaultValue="merge">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="merge">Merge suggestions ({mergeCandidates.length})</TabsTrigger>
+            <TabsTrigger value="split">Possible outliers ({outliers.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="merge">
+            <ScrollArea className="h-[360px]">
+              {mergeCandidates.length === 0 ? (
+                <p className="py-12 text-center text-sm text-muted-foreground">
+                  No models are within {formatFaceDistance(draftThreshold * MERGE_SUGGESTION_MARGIN)} of each other
+                </p>
+              ) : (
+                <div className="space-y-1 pr-3">
+                  {mergeCandidates.map(candidate => {
+                    const source = identitiesById.get(candidate.sourceId);
+                    const target = identitiesById.get(candidate.targetId);
+                    const withinThreshold = candidate.distance <= draftThreshold;
+
+                    return (
+                      <div
+                        key={`${candidate.sourceId}-${candidate.targetId}`}
+                        className="flex items-center gap-3 p-2 rounded-md hover:bg-muted"
+                      >
+                        <ModelAvatar identity={source} />
+                        <span className="text-sm w-24 truncate">{source?.name}</span>
+                        <ArrowRight className="h-4 w-4 text-muted-foreground flex-shrink-0" />
+                        <ModelAvatar identity={target} />
+                        <span className="text-sm w-24 truncate">{target?.name}</span>
+                        <Badge
+                          variant={withinThreshold ? 'default' : 'outline'}
+                          className="font-mono text-xs"
+                          title={withinThreshold ? 'Within threshold' : 'Just past threshold'}
+                        >
+                          {formatFaceDistance(candidate.distance)}
+                        </Badge>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="ml-auto"
+                          disabled={isOperating}
+                          onClick={() => onMergeModels([candidate.sourceId], candidate.targetId)}
+                        >
+                          <Merge className="h-3.5 w-3.5 mr-1" />
+                          Merge
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="split">
+            <ScrollArea className="h-[360px]">
+              {outliers.length === 0 ? (
+                <p className="py-12 text-center text-sm text-muted-foreground">
+                  Every embedded image is within the threshold of the rest of its model
+                </p>
+              ) : (
+                <div className="space-y-1 pr-3">
+                  {outliers.map(outlier => {
+                    const image = imagesById.get(outlier.identityImageId);
+                    const identity = identitiesById.get(outlier.identityId);
+                    const imageUrl = image?.scrape_image?.stored_url || image?.scrape_image?.source_url;
+
+                    return (
+                      <div
+                        key={outlier.identityImageId}
+                        className="flex items-center gap-3 p-2 rounded-md hover:bg-muted"
+                      >
+                        {imageUrl ? (
+                          <img
+                            src={getImageUrl(imageUrl, 'tiny')}
+                            alt=""
+                            className="h-12 w-10 rounded object-cover flex-shrink-0"
+                          />
+                        ) : (
+                          <div className="h-12 w-10 rounded bg-muted flex-shrink-0" />
+                        )}
+                        <ModelAvatar identity={identity} />
+                        <span className="text-sm flex-1 truncate">{identity?.name}</span>
+                        <Badge variant="outline" className="font-mono text-xs" title="Distance from the rest of the model">
+                          {formatFaceDistance(outlier.distance)}
+                        </Badge>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={isOperating}
+                          onClick={() => onSplitImages([outlier.identityImageId], outlier.identityId)}
+                        >
+                          <Scissors className="h-3.5 w-3.5 mr-1" />
+                          Split Out
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+
+        {isOperating && (
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+            Updating models...
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
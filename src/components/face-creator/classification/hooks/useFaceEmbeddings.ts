@@ -0,0 +1,109 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_CLUSTER_DISTANCE_THRESHOLD } from '@/lib/faceClustering';
+import { IdentityImage } from '../types';
+
+interface UseFaceEmbeddingsReturn {
+  /** Keyed by face_scrape_images id */
+  embeddingsByScrapeImage: Record<string, number[]>;
+  threshold: number;
+  saveThreshold: (threshold: number) => Promise<void>;
+  isLoading: boolean;
+}
+
+// Keeps .in() filters inside the URL length limit
+const IN_CHUNK_SIZE = 200;
+
+export function useFaceEmbeddings(
+  runId: string | null,
+  imagesByIdentity: Record<string, IdentityImage[]>
+): UseFaceEmbeddingsReturn {
+  const { toast } = useToast();
+  const [embeddingsByScrapeImage, setEmbeddingsByScrapeImage] = useState<Record<string, number[]>>({});
+  const [threshold, setThreshold] = useState(DEFAULT_CLUSTER_DISTANCE_THRESHOLD);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!runId) return;
+
+    async function fetchThreshold() {
+      const { data } = await supabase
+        .from('face_scrape_runs')
+        .select('cluster_distance_threshold')
+        .eq('id', runId)
+        .single();
+      setThreshold(data?.cluster_distance_threshold ?? DEFAULT_CLUSTER_DISTANCE_THRESHOLD);
+    }
+
+    fetchThreshold();
+  }, [runId]);
+
+  useEffect(() => {
+    const scrapeImageIds = Object.values(imagesByIdentity)
+      .flat()
+      .map(img => img.scrape_image_id);
+
+    if (scrapeImageIds.length === 0) {
+      setEmbeddingsByScrapeImage({});
+      return;
+    }
+
+    let canceled = false;
+
+    async function fetchEmbeddings() {
+      setIsLoading(true);
+      const embeddings: Record<string, number[]> = {};
+
+      try {
+        for (let i = 0; i < scrapeImageIds.length; i += IN_CHUNK_SIZE) {
+          const { data, error } = await supabase
+            .from('face_detections')
+            .select('scrape_image_id, embedding')
+            .in('scrape_image_id', scrapeImageIds.slice(i, i + IN_CHUNK_SIZE))
+            .not('embedding', 'is', null);
+
+          if (error) throw error;
+          (data || []).forEach(detection => {
+            if (detection.embedding) embeddings[detection.scrape_image_id] = detection.embedding;
+          });
+        }
+
+        if (!canceled) setEmbeddingsByScrapeImage(embeddings);
+      } catch (error) {
+        console.error('Error fetching face embeddings:', error);
+      } finally {
+        if (!canceled) setIsLoading(false);
+      }
+    }
+
+    fetchEmbeddings();
+    return () => {
+      canceled = true;
+    };
+  }, [imagesByIdentity]);
+
+  const saveThreshold = useCallback(async (value: number) => {
+    if (!runId) return;
+    const previous = threshold;
+    setThreshold(value);
+
+    const { error } = await supabase
+      .from('face_scrape_runs')
+      .update({ cluster_distance_threshold: value })
+      .eq('id', runId);
+
+    if (error) {
+      console.error('Error saving cluster threshold:', error);
+      setThreshold(previous);
+      toast({ title: 'Failed to save distance threshold', variant: 'destructive' });
+    }
+  }, [runId, threshold, toast]);
+
+  return {
+    embeddingsByScrapeImage,
+    threshold,
+    saveThreshold,
+    isLoading,
+  };
+}
@@ -6,6 +6,8 @@ export * from './ModelImage';
 export * from './BulkActionBar';
 export * from './MoveToModelDialog';
 export * from './SplitToNewDialog';
+export * from './ClusterReviewDialog';
 export * from './hooks/useModelData';
 export * from './hooks/useImageSelection';
 export * from './hooks/useImageOperations';
+export * from './hooks/useFaceEmbeddings';
@@ -1,97 +0,0 @@
-import { useState } from 'react';
-import {
-  Dialog,
-  DialogContent,
-  DialogDescription,
-  DialogHeader,
-  DialogTitle,
-} from '@/components/ui/dialog';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
-import { User } from 'lucide-react';
-
-interface FreelancerNamePromptProps {
-  open: boolean;
-  onSubmit: (firstName: string, lastName: string) => Promise<void>;
-  isLoading?: boolean;
-}
-
-export function FreelancerNamePrompt({ open, onSubmit, isLoading }: FreelancerNamePromptProps) {
-  const [firstName, setFirstName] = useState('');
-  const [lastName, setLastName] = useState('');
-  const [error, setError] = useState('');
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setError('');
-
-    if (!firstName.trim()) {
-      setError('First name is required');
-      return;
-    }
-    if (!lastName.trim()) {
-      setError('Last name is required');
-      return;
-    }
-
-    try {
-      await onSubmit(firstName.trim(), lastName.trim());
-    } catch (err) {
-      setError('Failed to save identity. Please try again.');
-    }
-  };
-
-  return (
-    <Dialog open={open} onOpenChange={() => {}}>
-      <DialogContent className="sm:max-w-md" onPointerDownOutside={(e) => e.preventDefault()}>
-        <DialogHeader>
-          <div className="mx-auto mb-4 h-12 w-12 rounded-full bg-primary/10 flex items-center justify-center">
-            <User className="h-6 w-6 text-primary" />
-          </div>
-          <DialogTitle className="text-center">Welcome!</DialogTitle>
-          <DialogDescription className="text-center">
-            Please enter your name to get started. This is how your work will be tracked.
-          </DialogDescription>
-        </DialogHeader>
-
-        <form onSubmit={handleSubmit} className="space-y-4 mt-4">
-          <div className="space-y-2">
-            <Label htmlFor="firstName">First Name</Label>
-            <Input
-              id="firstName"
-              placeholder="John"
-              value={firstName}
-              onChange={(e) => setFirstName(e.target.value)}
-              disabled={isLoading}
-              autoFocus
-            />
-          </div>
-
-          <div className="space-y-2">
-            <Label htmlFor="lastName">Last Name</Label>
-            <Input
-              id="lastName"
-              placeholder="Doe"
-              value={lastName}
-              onChange={(e) => setLastName(e.target.value)}
-              disabled={isLoading}
-            />
-          </div>
-
-          <p className="text-xs text-muted-foreground text-center">
-            Please always use the same name. This is how we track your work.
-          </p>
-
-          {error && (
-            <p className="text-sm text-destructive text-center">{error}</p>
-          )}
-
-          <Button type="submit" className="w-full" disabled={isLoading}>
-            {isLoading ? 'Starting...' : 'Start Working'}
-          </Button>
-        </form>
-      </DialogContent>
-    </Dialog>
-  );
-}
@@ -31,6 +31,8 @@ import {
 import { cn } from '@/lib/utils';
 import { format } from 'date-fns';
 import { fixBrokenStorageUrl } from '@/lib/fileUtils';
+import { CommentBody } from '@/components/review/CommentBody';
+import { ExportFeedbackButton } from '@/components/review/ExportFeedbackButton';
 
 interface JobInput {
   id: string;
@@ -44,6 +46,7 @@ interface JobInput {
 interface FreelancerNeedsChangesViewProps {
   submissionId: string;
   jobId: string;
+  jobTitle?: string | null;
   versionNumber: number;
   instructions?: string;
   inputs?: JobInput[];
@@ -55,6 +58,7 @@ interface FreelancerNeedsChangesViewProps {
 export function FreelancerNeedsChangesView({ 
   submissionId, 
   jobId,
+  jobTitle,
   versionNumber,
   instructions,
   inputs = [],
@@ -527,9 +531,17 @@ export function FreelancerNeedsChangesView({
                 <MessageSquare className="h-4 w-4 text-muted-foreground" />
                 <span className="text-xs uppercase tracking-wide text-muted-foreground">Feedback</span>
               </div>
-              <Badge variant="outline" className="text-[10px] h-5">
-                {selectedAssetFeedbackItems.length}
-              </Badge>
+              <div className="flex items-center gap-2">
+                <ExportFeedbackButton
+                  assets={sortedAssets}
+                  threads={threads}
+                  title={`${jobTitle || `Job ${jobId.slice(0, 8)}`} - revision ${versionNumber} feedback`}
+                  className="h-6 px-2 gap-1 text-[10px]"
+                />
+                <Badge variant="outline" className="text-[10px] h-5">
+                  {selectedAssetFeedbackItems.length}
+                </Badge>
+              </div>
             </div>
             
             <ScrollArea className="flex-1">
@@ -617,9 +629,7 @@ export function FreelancerNeedsChangesView({
                           )}
                         </div>
                         
-                        <p className="text-xs mt-1 pl-6 text-foreground/90">
-                          {comment.body}
-                        </p>
+                        <CommentBody body={comment.body} className="text-xs mt-1 pl-6 text-foreground/90" />
                       </div>
                     );
                   })
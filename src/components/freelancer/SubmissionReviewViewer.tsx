@@ -4,13 +4,15 @@ import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { ImageViewer, ImageViewerHandle } from '@/components/review/ImageViewer';
 import { ThreadPanel } from '@/components/review/ThreadPanel';
+import { VersionCompareView } from '@/components/review/VersionCompareView';
 import { 
   useSubmissionAssets, 
   useReviewThreads, 
-  useAssetAnnotations 
+  useAssetAnnotations,
+  useJobAssetsWithHistory,
 } from '@/hooks/useReviewSystem';
 import type { SubmissionAsset, ImageAnnotation } from '@/types/review';
-import { CheckCircle, AlertTriangle, Clock, Upload, X, FileImage } from 'lucide-react';
+import { CheckCircle, AlertTriangle, Clock, Upload, X, FileImage, GitCompare } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -31,10 +33,12 @@ export function SubmissionReviewViewer({
 }: SubmissionReviewViewerProps) {
   const { data: assets = [] } = useSubmissionAssets(submissionId);
   const { data: threads = [] } = useReviewThreads(submissionId);
+  const { data: assetSlots = [] } = useJobAssetsWithHistory(jobId);
   
   const [selectedAssetId, setSelectedAssetId] = useState<string | null>(null);
   const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null);
   const [showAnnotations, setShowAnnotations] = useState(true);
+  const [isComparing, setIsComparing] = useState(false);
   const [replacements, setReplacements] = useState<Map<string, { file: File; preview: string }>>(new Map());
   
   const imageViewerRef = useRef<ImageViewerHandle>(null);
@@ -47,6 +51,15 @@ export function SubmissionReviewViewer({
     return assets[0];
   }, [assets, selectedAssetId]);
 
+  // Slot of the selected asset, whichever version this submission holds
+  const selectedSlot = useMemo(() => {
+    if (!selectedAsset) return null;
+    return assetSlots.find(slot =>
+      slot.current.id === selectedAsset.id || slot.history.some(h => h.id === selectedAsset.id)
+    ) || null;
+  }, [assetSlots, selectedAsset]);
+  const canCompare = !!selectedSlot && selectedSlot.history.length > 0;
+
   // Fetch annotations for selected asset
   const { data: annotations = [] } = useAssetAnnotations(selectedAsset?.id || null);
 
@@ -227,6 +240,16 @@ export function SubmissionReviewViewer({
           <div className="flex items-center gap-3">
             <h4 className="font-medium">{selectedAsset?.label || 'Asset'}</h4>
             {selectedAsset && getAssetStatusBadge(selectedAsset)}
+            {canCompare && (
+              <Button
+                variant={isComparing ? 'secondary' : 'outline'}
+                size="sm"
+                onClick={() => setIsComparing(!isComparing)}
+              >
+                <GitCompare className="h-4 w-4 mr-1" />
+                Compare Versions
+              </Button>
+            )}
           </div>
           
           {/* Replace button for CHANGES_REQUESTED assets */}
@@ -285,20 +308,29 @@ export function SubmissionReviewViewer({
         {/* Image + Comments */}
         <div className="flex-1 flex min-h-0">
           {/* Image Viewer */}
-          <div className="flex-1">
-            <ImageViewer
-              ref={imageViewerRef}
-              src={displayUrl}
-              alt={selectedAsset?.label}
-              annotations={enrichedAnnotations}
-              selectedAnnotationId={selectedAnnotationId}
-              onAnnotationClick={handleAnnotationClick}
-              onAnnotationCreate={() => {}} // Read-only, no creation
-              isDrawing={false}
-              showAnnotations={showAnnotations}
-              onToggleAnnotations={() => setShowAnnotations(!showAnnotations)}
-              readOnly={true}
-            />
+          <div className="flex-1 flex flex-col min-w-0">
+            {isComparing && canCompare && selectedSlot ? (
+              <VersionCompareView
+                slot={selectedSlot}
+                threads={threads}
+                onClose={() => setIsComparing(false)}
+                sharedOnly
+              />
+            ) : (
+              <ImageViewer
+                ref={imageViewerRef}
+                src={displayUrl}
+                alt={selectedAsset?.label}
+                annotations={enrichedAnnotations}
+                selectedAnnotationId={selectedAnnotationId}
+                onAnnotationClick={handleAnnotationClick}
+                onAnnotationCreate={() => {}} // Read-only, no creation
+                isDrawing={false}
+                showAnnotations={showAnnotations}
+                onToggleAnnotations={() => setShowAnnotations(!showAnnotations)}
+                readOnly={true}
+              />
+            )}
           </div>
 
           {/* Thread Panel (read + reply) */}
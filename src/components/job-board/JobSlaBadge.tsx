@@ -0,0 +1,52 @@
+import { AlarmClock, Timer } from "lucide-react";
+import { format } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useJobSlas } from "@/hooks/useJobs";
+import { formatSlaDuration, getJobSlaStatus, JOB_SLA_KIND_LABELS } from "@/lib/jobSla";
+import { cn } from "@/lib/utils";
+import type { UnifiedJob } from "@/types/jobs";
+
+interface JobSlaBadgeProps {
+  job: UnifiedJob;
+  className?: string;
+}
+
+// Overdue / due-soon marker; renders nothing while a job is on track
+export function JobSlaBadge({ job, className }: JobSlaBadgeProps) {
+  const { data: slas } = useJobSlas();
+  const status = getJobSlaStatus(job, slas?.[job.type]);
+
+  if (!status || status.state === "on_track") return null;
+
+  const isOverdue = status.state === "overdue";
+  const Icon = isOverdue ? AlarmClock : Timer;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge
+          variant="outline"
+          className={cn(
+            "text-[10px] px-1.5 py-0 gap-0.5",
+            isOverdue
+              ? "bg-red-500/15 text-red-500 border-red-500/30"
+              : "bg-amber-500/15 text-amber-500 border-amber-500/30",
+            className
+          )}
+        >
+          <Icon className="h-2.5 w-2.5" />
+          {isOverdue
+            ? `Overdue ${formatSlaDuration(status.remainingMs)}`
+            : `Due in ${formatSlaDuration(status.remainingMs)}`}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p>
+          {JOB_SLA_KIND_LABELS[status.kind]} {isOverdue ? "was due" : "due"}{" "}
+          {format(status.deadline, "MMM d, h:mm a")}
+        </p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
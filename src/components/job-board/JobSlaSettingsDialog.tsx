@@ -0,0 +1,152 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useJobSlas, useUpdateJobSla } from "@/hooks/useJobs";
+import { JOB_TYPE_CONFIG } from "@/lib/jobTypes";
+import { DEFAULT_JOB_SLA } from "@/lib/jobSla";
+import type { JobType, JobTypeSla } from "@/types/jobs";
+
+interface JobSlaSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const JOB_TYPES = Object.keys(JOB_TYPE_CONFIG) as JobType[];
+
+type SlaDrafts = Record<JobType, JobTypeSla>;
+
+export function JobSlaSettingsDialog({ open, onOpenChange }: JobSlaSettingsDialogProps) {
+  const { data: slas } = useJobSlas();
+  const updateSla = useUpdateJobSla();
+  const [drafts, setDrafts] = useState<SlaDrafts | null>(null);
+
+  // Reset drafts from the saved values each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setDrafts(
+      Object.fromEntries(
+        JOB_TYPES.map((type) => [type, slas?.[type] || { job_type: type, ...DEFAULT_JOB_SLA }])
+      ) as SlaDrafts
+    );
+  }, [open, slas]);
+
+  const setField = <K extends keyof JobTypeSla>(type: JobType, field: K, value: JobTypeSla[K]) => {
+    setDrafts((prev) => (prev ? { ...prev, [type]: { ...prev[type], [field]: value } } : prev));
+  };
+
+  const isValid = (sla: JobTypeSla) =>
+    sla.first_submission_hours > 0 && sla.needs_changes_hours > 0 && sla.reminder_lead_hours >= 0;
+
+  const changedTypes = drafts
+    ? JOB_TYPES.filter((type) => {
+        const saved = slas?.[type];
+        const draft = drafts[type];
+        return (
+          !saved ||
+          saved.first_submission_hours !== draft.first_submission_hours ||
+          saved.needs_changes_hours !== draft.needs_changes_hours ||
+          saved.reminder_lead_hours !== draft.reminder_lead_hours ||
+          saved.auto_reclaim !== draft.auto_reclaim
+        );
+      })
+    : [];
+
+  const handleSave = async () => {
+    if (!drafts) return;
+    try {
+      for (const type of changedTypes) {
+        await updateSla.mutateAsync(drafts[type]);
+      }
+      onOpenChange(false);
+    } catch {
+      // Error toast is raised by the mutation
+    }
+  };
+
+  const hoursInput = (type: JobType, field: "first_submission_hours" | "needs_changes_hours" | "reminder_lead_hours") => (
+    <Input
+      type="number"
+      min={field === "reminder_lead_hours" ? 0 : 1}
+      step={1}
+      className="h-8 w-20"
+      value={drafts?.[type][field] ?? ""}
+      onChange={(e) => setField(type, field, Number(e.target.value))}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Job SLAs</DialogTitle>
+          <DialogDescription>
+            Turnaround targets in hours. Assignees get a reminder before a deadline, and overdue
+            in-progress jobs can be returned to the open pool automatically.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Job type</TableHead>
+              <TableHead>First submission</TableHead>
+              <TableHead>Address changes</TableHead>
+              <TableHead>Remind before</TableHead>
+              <TableHead>Auto-reclaim</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {JOB_TYPES.map((type) => (
+              <TableRow key={type}>
+                <TableCell className="font-medium">{JOB_TYPE_CONFIG[type].label}</TableCell>
+                <TableCell>{hoursInput(type, "first_submission_hours")}</TableCell>
+                <TableCell>{hoursInput(type, "needs_changes_hours")}</TableCell>
+                <TableCell>{hoursInput(type, "reminder_lead_hours")}</TableCell>
+                <TableCell>
+                  <Switch
+                    checked={drafts?.[type].auto_reclaim ?? true}
+                    onCheckedChange={(checked) => setField(type, "auto_reclaim", checked)}
+                  />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={
+              !drafts ||
+              changedTypes.length === 0 ||
+              updateSla.isPending ||
+              changedTypes.some((type) => !isValid(drafts[type]))
+            }
+          >
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -28,6 +28,7 @@ import { UnifiedJob, JobStatus } from "@/types/jobs";
 import { useUpdateProductionProject } from "@/hooks/useProductionProjects";
 import { useDeleteJob, useUnassignFreelancer } from "@/hooks/useJobs";
 import { cn } from "@/lib/utils";
+import { JobSlaBadge } from "./JobSlaBadge";
 import { format } from "date-fns";
 
 interface ProjectGroupRowProps {
@@ -216,6 +217,7 @@ export function ProjectGroupRow({
                       >
                         {statusLabels[job.status]}
                       </Badge>
+                      <JobSlaBadge job={job} />
                       {reviewProgress?.[job.id] && (
                         <span className="flex items-center gap-1 text-[10px]">
                           {reviewProgress[job.id].approved > 0 && (
@@ -404,13 +406,14 @@ export function UngroupedJobsRow({
                   <span className="text-xs text-muted-foreground w-24">
                     {typeLabels[job.type] || job.type}
                   </span>
-                  <div className="w-32">
+                  <div className="w-32 flex items-center gap-1">
                     <Badge
                       variant="outline"
                       className={cn(statusColors[job.status], "text-[10px] px-1.5 py-0")}
                     >
                       {statusLabels[job.status]}
                     </Badge>
+                    <JobSlaBadge job={job} />
                   </div>
                   <div className="flex items-center gap-1 w-28">
                     {job.freelancer_identity ? (
@@ -35,6 +35,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { Input } from "@/components/ui/input";
 import { useFreelancers } from "@/hooks/useUsers";
 import { useReposeBatchByJobId, useCreateReposeBatch } from "@/hooks/useReposeBatches";
+import { useAuth } from "@/contexts/AuthContext";
 import { JobStatus } from "@/types/jobs";
 import {
   Clock,
@@ -76,6 +77,7 @@ const typeLabels: Record<string, string> = {
 
 export function JobDetailPanel({ jobId, open, onClose }: JobDetailPanelProps) {
   const navigate = useNavigate();
+  const { can } = useAuth();
   const [newNote, setNewNote] = useState("");
   const [uploadingFiles, setUploadingFiles] = useState(false);
 
@@ -395,7 +397,9 @@ export function JobDetailPanel({ jobId, open, onClose }: JobDetailPanelProps) {
                       <SelectItem value="IN_PROGRESS">In Progress</SelectItem>
                       <SelectItem value="SUBMITTED">Submitted</SelectItem>
                       <SelectItem value="NEEDS_CHANGES">Needs Changes</SelectItem>
-                      <SelectItem value="APPROVED">Approved</SelectItem>
+                      <SelectItem value="APPROVED" disabled={!can("jobs.approve")}>
+                        Approved
+                      </SelectItem>
                       <SelectItem value="CLOSED">Closed</SelectItem>
                     </SelectContent>
                   </Select>
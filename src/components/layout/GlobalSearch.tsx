@@ -0,0 +1,143 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Search, Loader2, Shirt, Workflow, FolderOpen, Sparkles, User, Briefcase } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { useGlobalSearch, GLOBAL_SEARCH_GROUP_LABELS } from "@/hooks/useGlobalSearch";
+import type { GlobalSearchEntityType, GlobalSearchResult } from "@/hooks/useGlobalSearch";
+
+const GROUP_ORDER: GlobalSearchEntityType[] = [
+  'talent_look',
+  'workflow_look',
+  'project_look',
+  'repose_output',
+  'unified_job',
+  'digital_talent',
+];
+
+const GROUP_ICONS: Record<GlobalSearchEntityType, typeof Search> = {
+  talent_look: Shirt,
+  workflow_look: Workflow,
+  project_look: FolderOpen,
+  repose_output: Sparkles,
+  digital_talent: User,
+  unified_job: Briefcase,
+};
+
+export function GlobalSearch() {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const { data: results, isFetching } = useGlobalSearch(query);
+
+  // Cmd/Ctrl+K opens search from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen(prev => !prev);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  const grouped = useMemo(() => {
+    const groups = new Map<GlobalSearchEntityType, GlobalSearchResult[]>();
+    for (const result of results || []) {
+      if (!groups.has(result.entityType)) groups.set(result.entityType, []);
+      groups.get(result.entityType)!.push(result);
+    }
+    groups.forEach(items => items.sort((a, b) => a.rank - b.rank));
+    return GROUP_ORDER.filter(type => groups.has(type)).map(type => ({ type, items: groups.get(type)! }));
+  }, [results]);
+
+  const handleSelect = (result: GlobalSearchResult) => {
+    setOpen(false);
+    setQuery("");
+    navigate(result.route);
+  };
+
+  const hasQuery = query.trim().length >= 2;
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => setOpen(true)}
+        className="gap-2 text-muted-foreground w-56 justify-start"
+      >
+        <Search className="h-3.5 w-3.5" />
+        <span className="text-xs">Search looks, jobs, talent...</span>
+        <kbd className="ml-auto text-[10px] font-mono bg-muted px-1.5 rounded">⌘K</kbd>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg max-w-2xl">
+          {/* Results are ranked server-side, so skip cmdk's client filtering */}
+          <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2">
+            <CommandInput
+              value={query}
+              onValueChange={setQuery}
+              placeholder="Look code, SKU, talent, brand, stage or status..."
+            />
+            <CommandList className="max-h-[60vh]">
+              {isFetching && (
+                <div className="flex items-center justify-center py-4 text-sm text-muted-foreground gap-2">
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Searching...
+                </div>
+              )}
+              {!isFetching && hasQuery && (
+                <CommandEmpty>No results for "{query.trim()}"</CommandEmpty>
+              )}
+              {!hasQuery && (
+                <div className="py-6 text-center text-sm text-muted-foreground">
+                  Type at least 2 characters
+                </div>
+              )}
+              {hasQuery && grouped.map(({ type, items }) => {
+                const Icon = GROUP_ICONS[type];
+                return (
+                  <CommandGroup key={type} heading={GLOBAL_SEARCH_GROUP_LABELS[type]}>
+                    {items.map(result => (
+                      <CommandItem
+                        key={`${result.entityType}-${result.entityId}-${result.status}`}
+                        value={`${result.entityType}-${result.entityId}-${result.status}`}
+                        onSelect={() => handleSelect(result)}
+                        className="gap-3"
+                      >
+                        <Icon className="h-4 w-4 text-muted-foreground shrink-0" />
+                        <div className="min-w-0 flex-1">
+                          <p className="text-sm font-medium truncate">{result.title}</p>
+                          {result.subtitle && (
+                            <p className="text-xs text-muted-foreground truncate">{result.subtitle}</p>
+                          )}
+                        </div>
+                        {result.status && (
+                          <Badge variant="outline" className="text-[10px] shrink-0">
+                            {result.status.replace(/_/g, ' ').toLowerCase()}
+                          </Badge>
+                        )}
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                );
+              })}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
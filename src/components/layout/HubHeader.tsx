@@ -1,6 +1,8 @@
 import { Link } from "react-router-dom";
 import { UserMenu } from "./UserMenu";
 import { JobTrackerIndicator } from "@/components/job-tracker";
+import { GlobalSearch } from "./GlobalSearch";
+import { NotificationBell } from "./NotificationBell";
 
 interface HubHeaderProps {
   currentApp?: string;
@@ -34,7 +36,9 @@ export function HubHeader({ currentApp, currentProject }: HubHeaderProps) {
       </nav>
 
       <div className="flex items-center gap-3">
+        <GlobalSearch />
         <JobTrackerIndicator />
+        <NotificationBell />
         <UserMenu />
       </div>
     </header>
@@ -0,0 +1,176 @@
+import { useCallback, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Bell, CheckCheck, Settings } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  useMarkAllNotificationsRead,
+  useMarkNotificationRead,
+  useNotificationPreferences,
+  useNotifications,
+  useNotificationsRealtime,
+  useUnreadNotificationCount,
+} from "@/hooks/useReviewSystem";
+import {
+  getNotificationExcerpt,
+  getNotificationLink,
+  getNotificationSummary,
+  groupNotificationsByJob,
+} from "@/lib/notifications";
+import { cn } from "@/lib/utils";
+import type { Notification } from "@/types/review";
+import { NotificationPreferencesDialog } from "./NotificationPreferencesDialog";
+
+export function NotificationBell() {
+  const navigate = useNavigate();
+  const { user, isInternal } = useAuth();
+  const [isOpen, setIsOpen] = useState(false);
+  const [preferencesOpen, setPreferencesOpen] = useState(false);
+
+  const { data: notifications = [] } = useNotifications();
+  const { data: unreadCount = 0 } = useUnreadNotificationCount();
+  const { data: preferences } = useNotificationPreferences();
+  const markRead = useMarkNotificationRead();
+  const markAllRead = useMarkAllNotificationsRead();
+
+  const groups = useMemo(() => groupNotificationsByJob(notifications), [notifications]);
+
+  const openNotification = useCallback(
+    (notification: Notification) => {
+      if (!notification.read_at) {
+        markRead.mutate({ notificationId: notification.id });
+      }
+      const link = getNotificationLink(notification, isInternal);
+      if (link) {
+        setIsOpen(false);
+        navigate(link);
+      }
+    },
+    [isInternal, markRead, navigate]
+  );
+
+  const handleIncoming = useCallback(
+    (notification: Notification) => {
+      if (preferences?.muted_types.includes(notification.type)) return;
+      const link = getNotificationLink(notification, isInternal);
+      toast(getNotificationSummary(notification), {
+        action: link ? { label: "View", onClick: () => openNotification(notification) } : undefined,
+      });
+    },
+    [preferences, isInternal, openNotification]
+  );
+
+  useNotificationsRealtime(user?.id, handleIncoming);
+
+  if (!user) {
+    return null;
+  }
+
+  return (
+    <>
+      <Popover open={isOpen} onOpenChange={setIsOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" className="relative h-9 w-9" aria-label="Notifications">
+            <Bell className="h-4 w-4" />
+            {unreadCount > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] font-semibold flex items-center justify-center">
+                {unreadCount > 99 ? "99+" : unreadCount}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="p-0 w-96 bg-popover" sideOffset={8}>
+          <div className="flex items-center justify-between px-4 py-3 border-b">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-semibold">Notifications</span>
+              {unreadCount > 0 && (
+                <span className="text-xs text-muted-foreground">{unreadCount} unread</span>
+              )}
+            </div>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 gap-1 text-xs"
+                disabled={unreadCount === 0 || markAllRead.isPending}
+                onClick={() => markAllRead.mutate()}
+              >
+                <CheckCheck className="h-3.5 w-3.5" />
+                Mark all read
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                aria-label="Notification settings"
+                onClick={() => {
+                  setIsOpen(false);
+                  setPreferencesOpen(true);
+                }}
+              >
+                <Settings className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+
+          {groups.length === 0 ? (
+            <div className="py-12 text-center text-sm text-muted-foreground">
+              You're all caught up
+            </div>
+          ) : (
+            <div className="max-h-[420px] overflow-y-auto">
+              {groups.map((group) => (
+                <div key={group.key} className="border-b last:border-b-0">
+                  <div className="flex items-center justify-between px-4 pt-3 pb-1">
+                    <span className="text-xs font-medium text-muted-foreground truncate">
+                      {group.title}
+                    </span>
+                    {group.unreadCount > 0 && (
+                      <span className="text-[10px] text-muted-foreground">{group.unreadCount} new</span>
+                    )}
+                  </div>
+                  {group.notifications.map((notification) => (
+                    <button
+                      key={notification.id}
+                      type="button"
+                      onClick={() => openNotification(notification)}
+                      className={cn(
+                        "w-full flex items-start gap-2 px-4 py-2 text-left hover:bg-muted/50 transition-colors",
+                        !notification.read_at && "bg-primary/5"
+                      )}
+                    >
+                      <span
+                        className={cn(
+                          "mt-1.5 h-2 w-2 rounded-full shrink-0",
+                          notification.read_at ? "bg-transparent" : "bg-primary"
+                        )}
+                      />
+                      <div className="min-w-0 flex-1">
+                        <p className={cn("text-sm truncate", !notification.read_at && "font-medium")}>
+                          {getNotificationSummary(notification)}
+                        </p>
+                        {getNotificationExcerpt(notification) && (
+                          <p className="text-xs text-muted-foreground line-clamp-2">
+                            {getNotificationExcerpt(notification)}
+                          </p>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                        </p>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      <NotificationPreferencesDialog open={preferencesOpen} onOpenChange={setPreferencesOpen} />
+    </>
+  );
+}
@@ -0,0 +1,129 @@
+import { Bell, Mail } from "lucide-react";
+import { toast } from "sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  useNotificationPreferences,
+  useUpdateNotificationPreferences,
+} from "@/hooks/useReviewSystem";
+import {
+  ALL_NOTIFICATION_TYPES,
+  EMAIL_DIGEST_OPTIONS,
+  NOTIFICATION_TYPE_LABELS,
+} from "@/lib/notifications";
+import type { EmailDigestFrequency, NotificationPreferences, NotificationType } from "@/types/review";
+
+interface NotificationPreferencesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function NotificationPreferencesDialog({ open, onOpenChange }: NotificationPreferencesDialogProps) {
+  const { data: preferences, isLoading } = useNotificationPreferences();
+  const updatePreferences = useUpdateNotificationPreferences();
+
+  const save = (updates: Partial<Pick<NotificationPreferences, "muted_types" | "email_digest" | "email_muted_types">>) => {
+    updatePreferences.mutate(updates, {
+      onError: (error) => toast.error(`Failed to save preferences: ${error.message}`),
+    });
+  };
+
+  const toggleType = (field: "muted_types" | "email_muted_types", type: NotificationType, enabled: boolean) => {
+    if (!preferences) return;
+    const current = preferences[field];
+    save({ [field]: enabled ? current.filter((t) => t !== type) : [...current, type] });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Notification Settings</DialogTitle>
+          <DialogDescription>
+            Choose what shows up in your notification feed and what gets emailed to you.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !preferences ? (
+          <Skeleton className="h-64" />
+        ) : (
+          <div className="space-y-5">
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label className="flex items-center gap-1.5">
+                  <Mail className="h-4 w-4" />
+                  Email digest
+                </Label>
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  Unread notifications are batched into one email
+                </p>
+              </div>
+              <Select
+                value={preferences.email_digest}
+                onValueChange={(value) => save({ email_digest: value as EmailDigestFrequency })}
+              >
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {EMAIL_DIGEST_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="border rounded-lg">
+              <div className="grid grid-cols-[1fr_64px_64px] items-center px-3 py-2 border-b text-xs font-medium text-muted-foreground">
+                <span>Notification</span>
+                <span className="flex items-center justify-center gap-1">
+                  <Bell className="h-3.5 w-3.5" />
+                  In-app
+                </span>
+                <span className="flex items-center justify-center gap-1">
+                  <Mail className="h-3.5 w-3.5" />
+                  Email
+                </span>
+              </div>
+              {ALL_NOTIFICATION_TYPES.map((type) => (
+                <div key={type} className="grid grid-cols-[1fr_64px_64px] items-center px-3 py-2 border-b last:border-b-0">
+                  <span className="text-sm">{NOTIFICATION_TYPE_LABELS[type]}</span>
+                  <div className="flex justify-center">
+                    <Switch
+                      checked={!preferences.muted_types.includes(type)}
+                      onCheckedChange={(checked) => toggleType("muted_types", type, checked)}
+                    />
+                  </div>
+                  <div className="flex justify-center">
+                    <Switch
+                      checked={!preferences.email_muted_types.includes(type)}
+                      disabled={preferences.email_digest === "off"}
+                      onCheckedChange={(checked) => toggleType("email_muted_types", type, checked)}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -8,6 +8,7 @@ import {
   STAGE_ACTIONS 
 } from '@/types/optimised-workflow';
 import { useBulkUpdateLookStage } from '@/hooks/useWorkflowLooks';
+import { useEnqueueWorkflowJobs, WorkflowJobType } from '@/hooks/useWorkflowQueue';
 
 interface BulkActionBarProps {
   selectedLooks: WorkflowLookWithDetails[];
@@ -25,6 +26,16 @@ const ICON_MAP = {
   Send,
 };
 
+// Stage actions that are processed by the server-side workflow queue
+const QUEUED_ACTIONS: Record<string, WorkflowJobType> = {
+  crop_heads: 'crop',
+  match_faces: 'match',
+  generate: 'generate',
+};
+
+// Review needs 3 selections per view, so generate a few attempts for each
+const GENERATE_ATTEMPTS_PER_IMAGE = 3;
+
 export function BulkActionBar({
   selectedLooks,
   selectedStages,
@@ -32,6 +43,7 @@ export function BulkActionBar({
   projectId,
 }: BulkActionBarProps) {
   const bulkUpdateStage = useBulkUpdateLookStage();
+  const enqueueJobs = useEnqueueWorkflowJobs();
 
   const isSingleStage = selectedStages.size === 1;
   const currentStage = isSingleStage ? [...selectedStages][0] : null;
@@ -42,6 +54,20 @@ export function BulkActionBar({
     : [];
 
   const handleAction = async (action: typeof STAGE_ACTIONS[number]) => {
+    const jobType = QUEUED_ACTIONS[action.action];
+    if (jobType) {
+      enqueueJobs.mutate(
+        {
+          projectId,
+          looks: selectedLooks,
+          jobType,
+          attemptsPerImage: jobType === 'generate' ? GENERATE_ATTEMPTS_PER_IMAGE : 1,
+        },
+        { onSuccess: onClearSelection }
+      );
+      return;
+    }
+
     // For now, just log - actual modals will be implemented in Phase 2
     console.log('Action:', action.action, 'for looks:', selectedLooks.map(l => l.id));
     
@@ -79,6 +105,7 @@ export function BulkActionBar({
                   key={action.action}
                   size="sm"
                   onClick={() => handleAction(action)}
+                  disabled={enqueueJobs.isPending}
                 >
                   <Icon className="h-4 w-4 mr-2" />
                   {action.label}
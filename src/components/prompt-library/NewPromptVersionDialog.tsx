@@ -0,0 +1,158 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useCreatePromptVersion } from "@/hooks/usePromptVersions";
+import {
+  PROMPT_PIPELINE_LABELS,
+  PROMPT_VARIABLES,
+  extractTemplateVariables,
+  type PromptPipeline,
+  type PromptVersion,
+} from "@/lib/promptTemplates";
+
+interface NewPromptVersionDialogProps {
+  pipeline: PromptPipeline;
+  /** Version the new one starts from */
+  baseVersion: PromptVersion | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (version: PromptVersion) => void;
+}
+
+export function NewPromptVersionDialog({
+  pipeline,
+  baseVersion,
+  open,
+  onOpenChange,
+  onCreated,
+}: NewPromptVersionDialogProps) {
+  const [version, setVersion] = useState("");
+  const [notes, setNotes] = useState("");
+  const [template, setTemplate] = useState("");
+  const [activate, setActivate] = useState(false);
+  const createVersion = useCreatePromptVersion();
+
+  useEffect(() => {
+    if (!open) return;
+    setVersion("");
+    setNotes("");
+    setTemplate(baseVersion?.template ?? "");
+    setActivate(false);
+  }, [open, baseVersion]);
+
+  const knownVariables = PROMPT_VARIABLES[pipeline];
+  const unknownVariables = extractTemplateVariables(template).filter((name) => !(name in knownVariables));
+
+  const handleSave = () => {
+    createVersion.mutate(
+      {
+        pipeline,
+        version: version.trim(),
+        template,
+        notes: notes.trim() || null,
+        activate,
+      },
+      {
+        onSuccess: (created) => {
+          onCreated(created);
+          onOpenChange(false);
+        },
+      }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>New {PROMPT_PIPELINE_LABELS[pipeline]} prompt version</DialogTitle>
+          <DialogDescription>
+            {baseVersion ? `Starting from ${baseVersion.version}.` : "Starting from an empty prompt."}{" "}
+            Saved versions can't be edited, so every output keeps pointing at the exact text it used.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="prompt-version-name">Version name</Label>
+              <Input
+                id="prompt-version-name"
+                value={version}
+                onChange={(e) => setVersion(e.target.value)}
+                placeholder="e.g. v2 tighter crop"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="prompt-version-notes">Notes</Label>
+              <Input
+                id="prompt-version-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="What changed and why"
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="prompt-version-template">Template</Label>
+            <Textarea
+              id="prompt-version-template"
+              value={template}
+              onChange={(e) => setTemplate(e.target.value)}
+              className="font-mono text-xs min-h-[280px]"
+            />
+            <div className="flex flex-wrap items-center gap-1.5 text-xs text-muted-foreground">
+              {Object.keys(knownVariables).length === 0 ? (
+                <span>This pipeline has no variables.</span>
+              ) : (
+                <>
+                  <span>Variables:</span>
+                  {Object.entries(knownVariables).map(([name, description]) => (
+                    <Badge key={name} variant="outline" className="font-mono" title={description}>
+                      {`{${name}}`}
+                    </Badge>
+                  ))}
+                </>
+              )}
+            </div>
+            {unknownVariables.length > 0 && (
+              <p className="text-xs text-amber-500">
+                Unknown variables will be sent as written: {unknownVariables.map((name) => `{${name}}`).join(", ")}
+              </p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch id="prompt-version-activate" checked={activate} onCheckedChange={setActivate} />
+            <Label htmlFor="prompt-version-activate">Make active now</Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!version.trim() || !template.trim() || createVersion.isPending}
+          >
+            {createVersion.isPending ? "Saving..." : "Save Version"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
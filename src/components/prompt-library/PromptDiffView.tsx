@@ -0,0 +1,37 @@
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { diffPromptLines } from "@/lib/promptTemplates";
+
+interface PromptDiffViewProps {
+  before: string;
+  after: string;
+}
+
+export function PromptDiffView({ before, after }: PromptDiffViewProps) {
+  const lines = useMemo(() => diffPromptLines(before, after), [before, after]);
+  const changed = lines.some((line) => line.type !== "same");
+
+  if (!changed) {
+    return <p className="text-sm text-muted-foreground py-4">The two versions are identical.</p>;
+  }
+
+  return (
+    <div className="border rounded-lg overflow-hidden font-mono text-xs">
+      {lines.map((line, i) => (
+        <div
+          key={i}
+          className={cn(
+            "flex gap-3 px-3 py-0.5 whitespace-pre-wrap break-words",
+            line.type === "added" && "bg-green-500/15 text-green-400",
+            line.type === "removed" && "bg-red-500/15 text-red-400"
+          )}
+        >
+          <span className="w-3 shrink-0 select-none text-muted-foreground">
+            {line.type === "added" ? "+" : line.type === "removed" ? "-" : " "}
+          </span>
+          <span className="min-w-0">{line.text || " "}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { useState, useEffect, useMemo, useRef, useCallback } from "react";
 import { useSearchParams, useNavigate } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
@@ -31,7 +32,8 @@ import {
   Image as ImageIcon,
   RefreshCw,
   AlertTriangle,
-  Wand2
+  Wand2,
+  Pin
 } from "lucide-react";
 import { useReposeBatch, useReposeBatchItems, useReposeOutputs, useUpdateReposeBatchConfig, useUpdateReposeBatchStatus } from "@/hooks/useReposeBatches";
 import { useUpdateLookProductType } from "@/hooks/useProductionProjects";
@@ -39,14 +41,21 @@ import { useBatchReposeRuns, useReposeRunCounts, useLastReposeRuns, useCreateRep
 import { usePipelineJobs } from "@/hooks/usePipelineJobs";
 import { supabase } from "@/integrations/supabase/client";
 import { LeapfrogLoader } from "@/components/ui/LeapfrogLoader";
+import { PermissionTooltip } from "@/components/auth/PermissionTooltip";
+import { useAuth } from "@/contexts/AuthContext";
 import { OptimizedImage } from "@/components/shared/OptimizedImage";
+import { AICostEstimate } from "@/components/ai-spend/AICostEstimate";
+import { useAIModelPrices } from "@/hooks/useAISpend";
+import { estimateCost, estimateReposeImages, REPOSE_DEFAULT_IMAGE_SIZE } from "@/lib/aiSpend";
 import { ViewAssignmentPanel } from "./ViewAssignmentPanel";
+import { LookPoseOverrides } from "./LookPoseOverrides";
 import { toast } from "sonner";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
-import type { ReposeConfig } from "@/types/repose";
+import type { ReposeConfig, ReposePoseOverrides } from "@/types/repose";
 import type { ReposeRun } from "@/hooks/useReposeRuns";
 import { ALL_OUTPUT_SHOT_TYPES, OUTPUT_SHOT_LABELS } from "@/types/shot-types";
-import { REPOSE_MODEL_OPTIONS, DEFAULT_REPOSE_MODEL } from "@/types/repose";
+import { REPOSE_MODEL_OPTIONS, DEFAULT_REPOSE_MODEL, POSE_SELECTION_OPTIONS } from "@/types/repose";
+import type { PoseSelectionMode } from "@/types/repose";
 import { cn } from "@/lib/utils";
 import { format, formatDistanceToNow } from "date-fns";
 
@@ -75,12 +84,16 @@ interface LookRow {
   lastRunAt: string | null;
   currentStatus: 'queued' | 'running' | null;
   thumbnailUrl: string | null;
+  batchItemIds: string[];
+  poseOverrides: ReposePoseOverrides | null;
 }
 
 export function BatchSetupPanel({ batchId }: BatchSetupPanelProps) {
   const navigate = useNavigate();
   const [, setSearchParams] = useSearchParams();
   const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const canRun = can("repose.run");
   
   // Data fetching
   const { data: batch, isLoading: batchLoading, refetch: refetchBatch } = useReposeBatch(batchId);
@@ -88,6 +101,7 @@ export function BatchSetupPanel({ batchId }: BatchSetupPanelProps) {
   const { data: runs, refetch: refetchRuns } = useBatchReposeRuns(batchId);
   const { data: outputs, refetch: refetchOutputs } = useReposeOutputs(batchId);
   const updateConfig = useUpdateReposeBatchConfig();
+  const { data: aiPrices = [] } = useAIModelPrices();
   const updateStatus = useUpdateReposeBatchStatus();
   const updateLookProductType = useUpdateLookProductType();
   const createRuns = useCreateReposeRuns();
@@ -146,6 +160,8 @@ export function BatchSetupPanel({ batchId }: BatchSetupPanelProps) {
   const [selectedLookIds, setSelectedLookIds] = useState<Set<string>>(new Set());
   const [isGenerating, setIsGenerating] = useState(false);
   const [selectedModel, setSelectedModel] = useState(DEFAULT_REPOSE_MODEL);
+  const [poseSelection, setPoseSelection] = useState<PoseSelectionMode>('random');
+  const [seedInput, setSeedInput] = useState("");
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [inspectedLookId, setInspectedLookId] = useState<string | null>(null);
   const [clayPoseCounts, setClayPoseCounts] = useState<ClayPoseCount[]>([]);
@@ -263,12 +279,18 @@ export function BatchSetupPanel({ batchId }: BatchSetupPanelProps) {
           lastRunAt: lastRun?.completed_at || null,
           currentStatus: activeRun?.status as 'queued' | 'running' | null || null,
           thumbnailUrl: detailImages?.[lookId] || null,
+          batchItemIds: [],
+          poseOverrides: null,
         });
       }
-      grouped.get(lookId)!.views.push({
+      const row = grouped.get(lookId)!;
+      row.views.push({
         view: item.view,
         sourceUrl: item.source_url,
       });
+      row.batchItemIds.push(item.id);
+      // Overrides are written to every item of the look, so any one is representative
+      if (!row.poseOverrides && item.pose_overrides) row.poseOverrides = item.pose_overrides;
     });
     
     // Check readiness (has all required views)
@@ -348,6 +370,8 @@ export function BatchSetupPanel({ batchId }: BatchSetupPanelProps) {
       const config = batch.config_json as ReposeConfig;
       if (config?.posesPerShotType) setRendersPerLook(config.posesPerShotType);
       if (config?.model) setSelectedModel(config.model);
+      if (config?.poseSelection) setPoseSelection(config.poseSelection);
+      if (config?.seed !== undefined) setSeedInput(config.seed.toString());
     }
   }, [batch]);
 
@@ -511,17 +535,28 @@ export function BatchSetupPanel({ batchId }: BatchSetupPanelProps) {
   const selectedLooks = lookRows.filter(l => selectedLookIds.has(l.lookId));
   const readySelectedLooks = selectedLooks.filter(l => l.isReady);
   const estimatedNewRuns = selectedLooks.length * rendersPerLook;
+  // rendersPerLook sets both the runs per look and the poses per shot type
+  const estimatedImages = estimateReposeImages(selectedLooks, rendersPerLook, rendersPerLook);
+  const estimatedCostUsd = estimateCost(aiPrices, selectedModel, REPOSE_DEFAULT_IMAGE_SIZE, estimatedImages);
+
+  // Empty seed = fresh random selection on every run
+  const parsedSeed = seedInput.trim() === "" ? undefined : parseInt(seedInput, 10);
+  const isSeedValid = parsedSeed === undefined || Number.isSafeInteger(parsedSeed);
+
+  const buildConfig = (): ReposeConfig => ({
+    posesPerShotType: rendersPerLook,
+    attemptsPerPose: 1,
+    model: selectedModel,
+    poseSelection,
+    ...(parsedSeed !== undefined && isSeedValid ? { seed: parsedSeed } : {}),
+  });
 
   // Add to queue without starting - just creates runs
   const handleAddToQueue = async () => {
     if (!batchId || selectedLooks.length === 0 || !selectedBrandId) return;
 
     try {
-      const config: ReposeConfig = {
-        posesPerShotType: rendersPerLook,
-        attemptsPerPose: 1,
-        model: selectedModel,
-      };
+      const config = buildConfig();
       await updateConfig.mutateAsync({ batchId, config, brandId: selectedBrandId });
 
       const lookIdsToQueue = selectedLooks.map(l => l.lookId);
@@ -566,11 +601,7 @@ export function BatchSetupPanel({ batchId }: BatchSetupPanelProps) {
 
     try {
       // Save config
-      const config: ReposeConfig = {
-        posesPerShotType: rendersPerLook,
-        attemptsPerPose: 1,
-        model: selectedModel,
-      };
+      const config = buildConfig();
       await updateConfig.mutateAsync({ batchId, config, brandId: selectedBrandId });
 
       // Create runs for selected looks
@@ -897,18 +928,57 @@ export function BatchSetupPanel({ batchId }: BatchSetupPanelProps) {
                 </Button>
               </CollapsibleTrigger>
               <CollapsibleContent className="pt-3">
-                <div className="space-y-1.5">
-                  <label className="text-sm font-medium">Model</label>
-                  <Select value={selectedModel} onValueChange={setSelectedModel}>
-                    <SelectTrigger className="h-9 w-48">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {REPOSE_MODEL_OPTIONS.map(opt => (
-                        <SelectItem key={opt.value} value={opt.value}>{opt.label}</SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                <div className="flex flex-wrap gap-4">
+                  <div className="space-y-1.5">
+                    <label className="text-sm font-medium">Model</label>
+                    <Select value={selectedModel} onValueChange={setSelectedModel}>
+                      <SelectTrigger className="h-9 w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {REPOSE_MODEL_OPTIONS.map(opt => (
+                          <SelectItem key={opt.value} value={opt.value}>{opt.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-1.5">
+                    <label className="text-sm font-medium">Pose Selection</label>
+                    <Select value={poseSelection} onValueChange={(v) => setPoseSelection(v as PoseSelectionMode)}>
+                      <SelectTrigger className="h-9 w-48">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {POSE_SELECTION_OPTIONS.map(opt => (
+                          <SelectItem key={opt.value} value={opt.value}>{opt.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-1.5">
+                    <label className="text-sm font-medium">Seed</label>
+                    <div className="flex items-center gap-1.5">
+                      <Input
+                        type="number"
+                        value={seedInput}
+                        onChange={(e) => setSeedInput(e.target.value)}
+                        placeholder="Random"
+                        className={cn("h-9 w-32", !isSeedValid && "border-destructive")}
+                      />
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-9 px-2"
+                        title="Generate a new seed"
+                        onClick={() => setSeedInput(Math.floor(Math.random() * 1_000_000).toString())}
+                      >
+                        <RefreshCw className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">Same seed reproduces the same poses</p>
+                  </div>
                 </div>
               </CollapsibleContent>
             </Collapsible>
@@ -934,10 +1004,12 @@ export function BatchSetupPanel({ batchId }: BatchSetupPanelProps) {
                     <XCircle className="w-4 h-4 mr-1.5" />
                     Clear Queue
                   </Button>
-                  <Button size="sm" onClick={handleResumeQueue} className="gap-1.5">
-                    <Play className="w-4 h-4" />
-                    Resume ({queueStats.queued})
-                  </Button>
+                  <PermissionTooltip permission="repose.run">
+                    <Button size="sm" onClick={handleResumeQueue} disabled={!canRun} className="gap-1.5">
+                      <Play className="w-4 h-4" />
+                      Resume ({queueStats.queued})
+                    </Button>
+                  </PermissionTooltip>
                 </div>
               </div>
             </CardContent>
@@ -1012,15 +1084,18 @@ export function BatchSetupPanel({ batchId }: BatchSetupPanelProps) {
                     <RefreshCw className="w-3 h-3" />
                   </Button>
                   {isQueueStalled && (
-                    <Button 
-                      size="sm" 
-                      variant="outline"
-                      onClick={handleResumeQueue}
-                      className="h-6 text-xs gap-1"
-                    >
-                      <RefreshCw className="w-3 h-3" />
-                      Resume Queue
-                    </Button>
+                    <PermissionTooltip permission="repose.run">
+                      <Button 
+                        size="sm" 
+                        variant="outline"
+                        onClick={handleResumeQueue}
+                        disabled={!canRun}
+                        className="h-6 text-xs gap-1"
+                      >
+                        <RefreshCw className="w-3 h-3" />
+                        Resume Queue
+                      </Button>
+                    </PermissionTooltip>
                   )}
                 </div>
               </div>
@@ -1135,7 +1210,14 @@ export function BatchSetupPanel({ batchId }: BatchSetupPanelProps) {
                       <TableCell>
                         <div>
                           <p className="font-medium truncate max-w-[200px]">{look.lookName}</p>
-                          <p className="text-xs text-muted-foreground">{look.views.length} views</p>
+                          <p className="text-xs text-muted-foreground flex items-center gap-1">
+                            {look.views.length} views
+                            {look.poseOverrides && (
+                              <span className="inline-flex items-center gap-0.5 text-primary" title="Has pose overrides">
+                                <Pin className="w-3 h-3" />
+                              </span>
+                            )}
+                          </p>
                         </div>
                       </TableCell>
                       <TableCell>
@@ -1224,7 +1306,16 @@ export function BatchSetupPanel({ batchId }: BatchSetupPanelProps) {
             <div>
               <p className="text-sm text-muted-foreground">
                 {selectedLookIds.size} looks selected × {rendersPerLook} renders = <span className="font-bold text-foreground">{estimatedNewRuns} runs</span>
+                {estimatedImages > 0 && <> · ~{estimatedImages} images</>}
               </p>
+              {selectedLookIds.size > 0 && (
+                <AICostEstimate
+                  estimateUsd={estimatedCostUsd}
+                  projectId={batch?.project_id}
+                  brandId={selectedBrandId || batch?.brand_id}
+                  className="mt-1"
+                />
+              )}
             </div>
             <div className="flex items-center gap-2">
               {selectedLookIds.size > 0 && (
@@ -1254,14 +1345,16 @@ export function BatchSetupPanel({ batchId }: BatchSetupPanelProps) {
                   Stop
                 </Button>
               ) : (
-                <Button 
-                  onClick={handleStartGeneration}
-                  disabled={selectedLookIds.size === 0 || !selectedBrandId}
-                  className="gap-2"
-                >
-                  <Play className="w-4 h-4" />
-                  {queueStats.queued > 0 ? 'Start Queue' : 'Queue & Start'}
-                </Button>
+                <PermissionTooltip permission="repose.run">
+                  <Button 
+                    onClick={handleStartGeneration}
+                    disabled={selectedLookIds.size === 0 || !selectedBrandId || !canRun}
+                    className="gap-2"
+                  >
+                    <Play className="w-4 h-4" />
+                    {queueStats.queued > 0 ? 'Start Queue' : 'Queue & Start'}
+                  </Button>
+                </PermissionTooltip>
               )}
             </div>
           </div>
@@ -1270,7 +1363,7 @@ export function BatchSetupPanel({ batchId }: BatchSetupPanelProps) {
 
       {/* Right Drawer (Look Inspector) */}
       <Sheet open={!!inspectedLookId} onOpenChange={(open) => !open && setInspectedLookId(null)}>
-        <SheetContent className="w-[400px] sm:w-[450px]">
+        <SheetContent className="w-[400px] sm:w-[450px] overflow-y-auto">
           <SheetHeader>
             <SheetTitle>{inspectedLook?.lookName || 'Look Details'}</SheetTitle>
             <SheetDescription>
@@ -1317,6 +1410,16 @@ export function BatchSetupPanel({ batchId }: BatchSetupPanelProps) {
                 </div>
               </div>
 
+              {/* Pinned / excluded poses */}
+              {batchId && (
+                <LookPoseOverrides
+                  batchId={batchId}
+                  brandId={selectedBrandId || batch?.brand_id || undefined}
+                  batchItemIds={inspectedLook.batchItemIds}
+                  overrides={inspectedLook.poseOverrides}
+                />
+              )}
+
               {/* Run history */}
               <div>
                 <h4 className="text-sm font-medium mb-2">Render History ({inspectedLookRuns.length} runs)</h4>
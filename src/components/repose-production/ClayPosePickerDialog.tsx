@@ -19,9 +19,19 @@ interface ClayPose {
 interface ClayPosePickerDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onSelectAndRerender: (poseId: string, poseUrl: string, resolution: '2K' | '4K') => void;
+  onSelectAndRerender?: (poseId: string, poseUrl: string, resolution: '2K' | '4K') => void;
   currentShotType: OutputShotType | string;
   batchId: string;
+  // Multi-select mode (e.g. pinning/excluding poses) instead of pick & re-render
+  multiple?: boolean;
+  initialSelectedIds?: string[];
+  onConfirmSelection?: (poseIds: string[]) => void | Promise<void>;
+  // Poses that can't be picked in this context (shown dimmed)
+  disabledPoseIds?: string[];
+  title?: string;
+  confirmLabel?: string;
+  // Skips the batch lookup when the brand is already known
+  brandId?: string;
 }
 
 const SHOT_TYPE_TO_SLOT: Record<string, string> = {
@@ -44,10 +54,18 @@ export function ClayPosePickerDialog({
   onSelectAndRerender,
   currentShotType,
   batchId,
+  multiple = false,
+  initialSelectedIds,
+  onConfirmSelection,
+  disabledPoseIds,
+  title = "Select Clay Pose",
+  confirmLabel,
+  brandId,
 }: ClayPosePickerDialogProps) {
   const [poses, setPoses] = useState<ClayPose[]>([]);
   const [loading, setLoading] = useState(false);
   const [selectedPose, setSelectedPose] = useState<ClayPose | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [selectedResolution, setSelectedResolution] = useState<'2K' | '4K'>('4K');
   const [applying, setApplying] = useState(false);
   
@@ -56,29 +74,38 @@ export function ClayPosePickerDialog({
   const [genderFilter, setGenderFilter] = useState<string>('all');
   const [productTypeFilter, setProductTypeFilter] = useState<string>('all');
 
+  // Callers pass a fresh array each render; key on its contents so the
+  // selection only resets when the dialog opens or the initial ids change
+  const initialSelectedKey = (initialSelectedIds || []).join(',');
+
   // Reset selection when dialog opens
   useEffect(() => {
     if (isOpen) {
       setSelectedPose(null);
+      setSelectedIds(new Set(initialSelectedKey ? initialSelectedKey.split(',') : []));
       setShotTypeFilter(currentShotType);
     }
-  }, [isOpen, currentShotType]);
+  }, [isOpen, currentShotType, initialSelectedKey]);
 
   // Fetch clay poses for the batch's brand
   useEffect(() => {
-    if (!isOpen || !batchId) return;
+    if (!isOpen || (!batchId && !brandId)) return;
     
     const fetchPoses = async () => {
       setLoading(true);
       try {
-        // First get the brand_id from the batch
-        const { data: batch } = await supabase
-          .from("repose_batches")
-          .select("brand_id")
-          .eq("id", batchId)
-          .single();
+        let poseBrandId = brandId;
+        if (!poseBrandId) {
+          // First get the brand_id from the batch
+          const { data: batch } = await supabase
+            .from("repose_batches")
+            .select("brand_id")
+            .eq("id", batchId)
+            .single();
+          poseBrandId = batch?.brand_id || undefined;
+        }
         
-        if (!batch?.brand_id) {
+        if (!poseBrandId) {
           console.error("No brand_id found for batch");
           return;
         }
@@ -98,7 +125,7 @@ export function ClayPosePickerDialog({
               )
             )
           `)
-          .eq("product_images.products.brand_id", batch.brand_id);
+          .eq("product_images.products.brand_id", poseBrandId);
 
         if (error) {
           console.error("Error fetching clay poses:", error);
@@ -123,7 +150,7 @@ export function ClayPosePickerDialog({
     };
 
     fetchPoses();
-  }, [isOpen, batchId]);
+  }, [isOpen, batchId, brandId]);
 
   // Filter poses based on selected filters
   const filteredPoses = useMemo(() => {
@@ -161,21 +188,45 @@ export function ClayPosePickerDialog({
     [poses]
   );
 
+  const disabledIds = useMemo(() => new Set(disabledPoseIds || []), [disabledPoseIds]);
+
+  const isSelected = (pose: ClayPose) =>
+    multiple ? selectedIds.has(pose.id) : selectedPose?.id === pose.id;
+
+  const handlePoseClick = (pose: ClayPose) => {
+    if (disabledIds.has(pose.id)) return;
+    if (!multiple) {
+      setSelectedPose(pose);
+      return;
+    }
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(pose.id)) next.delete(pose.id);
+      else next.add(pose.id);
+      return next;
+    });
+  };
+
   const handleApply = async () => {
-    if (!selectedPose) return;
     setApplying(true);
     try {
-      await onSelectAndRerender(selectedPose.id, selectedPose.stored_url, selectedResolution);
+      if (multiple) {
+        await onConfirmSelection?.([...selectedIds]);
+      } else if (selectedPose) {
+        await onSelectAndRerender?.(selectedPose.id, selectedPose.stored_url, selectedResolution);
+      }
     } finally {
       setApplying(false);
     }
   };
 
+  const selectedCount = multiple ? selectedIds.size : selectedPose ? 1 : 0;
+
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <DialogContent className="max-w-4xl max-h-[85vh] overflow-hidden">
         <DialogHeader>
-          <DialogTitle>Select Clay Pose</DialogTitle>
+          <DialogTitle>{title}</DialogTitle>
         </DialogHeader>
 
         {/* Filters */}
@@ -226,18 +277,20 @@ export function ClayPosePickerDialog({
             </Select>
           </div>
 
-          <div className="flex items-center gap-2 ml-auto">
-            <span className="text-xs text-muted-foreground">Resolution:</span>
-            <Select value={selectedResolution} onValueChange={(v) => setSelectedResolution(v as '2K' | '4K')}>
-              <SelectTrigger className="h-8 w-20 text-xs">
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="2K">2K</SelectItem>
-                <SelectItem value="4K">4K</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
+          {!multiple && (
+            <div className="flex items-center gap-2 ml-auto">
+              <span className="text-xs text-muted-foreground">Resolution:</span>
+              <Select value={selectedResolution} onValueChange={(v) => setSelectedResolution(v as '2K' | '4K')}>
+                <SelectTrigger className="h-8 w-20 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="2K">2K</SelectItem>
+                  <SelectItem value="4K">4K</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
         </div>
 
         {/* Pose Grid */}
@@ -255,12 +308,14 @@ export function ClayPosePickerDialog({
               {filteredPoses.map((pose) => (
                 <button
                   key={pose.id}
-                  onClick={() => setSelectedPose(pose)}
+                  onClick={() => handlePoseClick(pose)}
+                  disabled={disabledIds.has(pose.id)}
                   className={cn(
                     "relative aspect-[3/4] rounded-md overflow-hidden border-2 transition-all hover:opacity-90",
-                    selectedPose?.id === pose.id
+                    isSelected(pose)
                       ? "border-primary ring-2 ring-primary/30"
-                      : "border-transparent hover:border-muted-foreground/30"
+                      : "border-transparent hover:border-muted-foreground/30",
+                    disabledIds.has(pose.id) && "opacity-30 cursor-not-allowed hover:opacity-30"
                   )}
                 >
                   <img
@@ -269,7 +324,7 @@ export function ClayPosePickerDialog({
                     className="w-full h-full object-cover"
                     loading="lazy"
                   />
-                  {selectedPose?.id === pose.id && (
+                  {isSelected(pose) && (
                     <div className="absolute top-1 right-1 bg-primary text-primary-foreground rounded-full p-0.5">
                       <Check className="h-3 w-3" />
                     </div>
@@ -288,7 +343,7 @@ export function ClayPosePickerDialog({
         <div className="flex items-center justify-between pt-4 border-t">
           <div className="text-xs text-muted-foreground">
             {filteredPoses.length} pose{filteredPoses.length !== 1 ? 's' : ''} available
-            {selectedPose && " · 1 selected"}
+            {selectedCount > 0 && ` · ${selectedCount} selected`}
           </div>
           <div className="flex gap-2">
             <Button variant="outline" onClick={onClose} disabled={applying}>
@@ -296,15 +351,17 @@ export function ClayPosePickerDialog({
             </Button>
             <Button 
               onClick={handleApply} 
-              disabled={!selectedPose || applying}
+              disabled={(!multiple && !selectedPose) || applying}
             >
               {applying ? (
                 <>
                   <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                   Applying...
                 </>
+              ) : multiple ? (
+                confirmLabel || `Save ${selectedIds.size} pose${selectedIds.size !== 1 ? 's' : ''}`
               ) : (
-                `Apply & Re-render at ${selectedResolution}`
+                confirmLabel || `Apply & Re-render at ${selectedResolution}`
               )}
             </Button>
           </div>
@@ -5,13 +5,16 @@ import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Download, CheckCircle2, Circle, AlertCircle, Lock, Check, Images, RotateCw, ChevronDown } from "lucide-react";
+import { Download, CheckCircle2, Circle, AlertCircle, Lock, Check, Images, RotateCw, ChevronDown, Send } from "lucide-react";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useReposeBatch, useMarkLooksExported } from "@/hooks/useReposeBatches";
 import { useReposeSelection, LookWithOutputs } from "@/hooks/useReposeSelection";
 import { LeapfrogLoader } from "@/components/ui/LeapfrogLoader";
+import { SendToClientReviewDialog } from "./SendToClientReviewDialog";
 import { toast } from "sonner";
+import { PermissionTooltip } from "@/components/auth/PermissionTooltip";
+import { useAuth } from "@/contexts/AuthContext";
 import { ALL_OUTPUT_SHOT_TYPES, OutputShotType, OUTPUT_SHOT_LABELS } from "@/types/shot-types";
 import { MAX_FAVORITES_PER_VIEW } from "@/types/repose";
 import { cn } from "@/lib/utils";
@@ -40,6 +43,7 @@ const SHOT_TYPE_ASSET_NAMES: Record<OutputShotType, string> = {
 };
 
 export function ExportPanel({ batchId }: ExportPanelProps) {
+  const { can } = useAuth();
   const { data: batch, isLoading: batchLoading } = useReposeBatch(batchId);
   const { outputs, groupedByLook, overallStats, isLoading } = useReposeSelection(batchId);
   const markExported = useMarkLooksExported();
@@ -51,6 +55,7 @@ export function ExportPanel({ batchId }: ExportPanelProps) {
   const [exportStatus, setExportStatus] = useState<string>("");
   const [upscaleMultiplier, setUpscaleMultiplier] = useState<number>(2); // Default to 2x
   const [selectedShotTypes, setSelectedShotTypes] = useState<Set<OutputShotType>>(new Set(ALL_OUTPUT_SHOT_TYPES));
+  const [sendToClientOpen, setSendToClientOpen] = useState(false);
 
   // Determine which looks are export-ready (all views either have 3/3 selections OR are skipped)
   const { readyLooks, incompleteLooks } = useMemo(() => {
@@ -723,6 +728,20 @@ export function ExportPanel({ batchId }: ExportPanelProps) {
           {/* Separator */}
           <div className="w-px h-6 bg-border" />
           
+          {/* Client review - selected looks, or every ready look */}
+          <Button
+            variant="outline"
+            onClick={() => setSendToClientOpen(true)}
+            disabled={readyLooks.length === 0 || isExporting}
+            className="gap-2"
+          >
+            <Send className="w-4 h-4" />
+            Send to Client ({selectedReady.length || readyLooks.length})
+          </Button>
+
+          {/* Separator */}
+          <div className="w-px h-6 bg-border" />
+
           {/* Shot Type Selector for 4K Re-render */}
           <Popover>
             <PopoverTrigger asChild>
@@ -768,15 +787,17 @@ export function ExportPanel({ batchId }: ExportPanelProps) {
           </Popover>
           
           {/* Re-render at 4K Button */}
-          <Button
-            variant="secondary"
-            onClick={handleRerender4K}
-            disabled={selectedLookIds.size === 0 || selectedShotTypes.size === 0 || isRerendering || isExporting}
-            className="gap-2"
-          >
-            <RotateCw className={cn("w-4 h-4", isRerendering && "animate-spin")} />
-            Re-render @ 4K ({selectedFavoriteCount})
-          </Button>
+          <PermissionTooltip permission="repose.rerender4k">
+            <Button
+              variant="secondary"
+              onClick={handleRerender4K}
+              disabled={selectedLookIds.size === 0 || selectedShotTypes.size === 0 || isRerendering || isExporting || !can("repose.rerender4k")}
+              className="gap-2"
+            >
+              <RotateCw className={cn("w-4 h-4", isRerendering && "animate-spin")} />
+              Re-render @ 4K ({selectedFavoriteCount})
+            </Button>
+          </PermissionTooltip>
         </div>
       </div>
 
@@ -981,6 +1002,16 @@ export function ExportPanel({ batchId }: ExportPanelProps) {
           )}
         </div>
       </div>
+
+      {batchId && (
+        <SendToClientReviewDialog
+          open={sendToClientOpen}
+          onOpenChange={setSendToClientOpen}
+          batchId={batchId}
+          looks={looksToExport.length > 0 ? looksToExport : readyLooks}
+          allLooks={groupedByLook}
+        />
+      )}
     </div>
   );
 }
@@ -29,6 +29,8 @@ import { ClayPosePickerDialog } from "./ClayPosePickerDialog";
 import { cn } from "@/lib/utils";
 import { getImageUrl } from "@/lib/imageUtils";
 import { useFourKQueue } from "@/hooks/useFourKQueue";
+import { PermissionTooltip } from "@/components/auth/PermissionTooltip";
+import { useAuth } from "@/contexts/AuthContext";
 
 interface FourKEditPanelProps {
   batchId: string | undefined;
@@ -78,6 +80,7 @@ const RANK_LABELS: Record<number, string> = {
 };
 
 export function FourKEditPanel({ batchId }: FourKEditPanelProps) {
+  const { can } = useAuth();
   const [favorites, setFavorites] = useState<FavoriteOutput[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [renderingIds, setRenderingIds] = useState<Set<string>>(new Set());
@@ -563,15 +566,17 @@ export function FourKEditPanel({ batchId }: FourKEditPanelProps) {
                   Clear
                 </Button>
                 <div className="flex-1" />
-                <Button
-                  size="sm"
-                  className="gap-2"
-                  disabled={selectedIds.size === 0}
-                  onClick={queueSelected}
-                >
-                  <Zap className="w-4 h-4" />
-                  Queue {selectedIds.size} at {selectedResolution}
-                </Button>
+                <PermissionTooltip permission="repose.rerender4k">
+                  <Button
+                    size="sm"
+                    className="gap-2"
+                    disabled={selectedIds.size === 0 || !can("repose.rerender4k")}
+                    onClick={queueSelected}
+                  >
+                    <Zap className="w-4 h-4" />
+                    Queue {selectedIds.size} at {selectedResolution}
+                  </Button>
+                </PermissionTooltip>
               </div>
             )}
             
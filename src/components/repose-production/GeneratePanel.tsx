@@ -10,6 +10,8 @@ import { useReposeBatch, useReposeBatchItems, useReposeOutputs, useUpdateReposeB
 import { usePipelineJobs } from "@/hooks/usePipelineJobs";
 import { supabase } from "@/integrations/supabase/client";
 import { LeapfrogLoader } from "@/components/ui/LeapfrogLoader";
+import { PermissionTooltip } from "@/components/auth/PermissionTooltip";
+import { useAuth } from "@/contexts/AuthContext";
 import { toast } from "sonner";
 import type { ReposeConfig } from "@/types/repose";
 import { REPOSE_MODEL_OPTIONS, DEFAULT_REPOSE_MODEL } from "@/types/repose";
@@ -27,6 +29,7 @@ interface GeneratePanelProps {
 
 export function GeneratePanel({ batchId }: GeneratePanelProps) {
   const [searchParams, setSearchParams] = useSearchParams();
+  const { can } = useAuth();
   const { data: batch, isLoading: batchLoading, refetch: refetchBatch } = useReposeBatch(batchId);
   const { data: batchItems } = useReposeBatchItems(batchId);
   const { data: outputs, refetch: refetchOutputs } = useReposeOutputs(batchId);
@@ -607,25 +610,30 @@ export function GeneratePanel({ batchId }: GeneratePanelProps) {
           <div className="flex justify-center gap-4">
             {!isGenerating ? (
               <>
-                <Button 
-                  onClick={handleStartGeneration}
-                  size="lg"
-                  className="gap-2"
-                  disabled={batch.status === 'COMPLETE'}
-                >
-                  <Play className="w-4 h-4" />
-                  {batch.status === 'COMPLETE' ? 'Generation Complete' : totalCount > 0 ? 'Resume Generation' : 'Start Generation'}
-                </Button>
-                {totalCount > 0 && (
+                <PermissionTooltip permission="repose.run">
                   <Button 
-                    onClick={handleClearOutputs}
+                    onClick={handleStartGeneration}
                     size="lg"
-                    variant="outline"
                     className="gap-2"
+                    disabled={batch.status === 'COMPLETE' || !can("repose.run")}
                   >
-                    <Trash2 className="w-4 h-4" />
-                    Clear Outputs
+                    <Play className="w-4 h-4" />
+                    {batch.status === 'COMPLETE' ? 'Generation Complete' : totalCount > 0 ? 'Resume Generation' : 'Start Generation'}
                   </Button>
+                </PermissionTooltip>
+                {totalCount > 0 && (
+                  <PermissionTooltip permission="repose.delete">
+                    <Button 
+                      onClick={handleClearOutputs}
+                      size="lg"
+                      variant="outline"
+                      className="gap-2"
+                      disabled={!can("repose.delete")}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      Clear Outputs
+                    </Button>
+                  </PermissionTooltip>
                 )}
               </>
             ) : (
@@ -0,0 +1,176 @@
+import { useState, useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Pin, Ban, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { ClayPosePickerDialog } from "./ClayPosePickerDialog";
+import { useUpdateLookPoseOverrides } from "@/hooks/useReposeBatches";
+import { ALL_OUTPUT_SHOT_TYPES, OUTPUT_SHOT_LABELS } from "@/types/shot-types";
+import type { OutputShotType } from "@/types/shot-types";
+import type { ReposePoseOverrides } from "@/types/repose";
+
+interface LookPoseOverridesProps {
+  batchId: string;
+  brandId: string | undefined;
+  batchItemIds: string[];
+  overrides: ReposePoseOverrides | null;
+}
+
+type PickerTarget = { kind: 'pinned'; shotType: OutputShotType } | { kind: 'excluded' };
+
+// Drop empty lists so "no override" is stored as null
+function normalizeOverrides(overrides: ReposePoseOverrides): ReposePoseOverrides | null {
+  const pinned: Partial<Record<OutputShotType, string[]>> = {};
+  for (const [shotType, ids] of Object.entries(overrides.pinned || {})) {
+    if (ids?.length) pinned[shotType as OutputShotType] = ids;
+  }
+  const excluded = overrides.excluded || [];
+  if (Object.keys(pinned).length === 0 && excluded.length === 0) return null;
+  return {
+    ...(Object.keys(pinned).length > 0 ? { pinned } : {}),
+    ...(excluded.length > 0 ? { excluded } : {}),
+  };
+}
+
+export function LookPoseOverrides({ batchId, brandId, batchItemIds, overrides }: LookPoseOverridesProps) {
+  const [pickerTarget, setPickerTarget] = useState<PickerTarget | null>(null);
+  const updateOverrides = useUpdateLookPoseOverrides();
+
+  const pinned = useMemo(() => overrides?.pinned || {}, [overrides]);
+  const excluded = useMemo(() => overrides?.excluded || [], [overrides]);
+  const allPinnedIds = useMemo(() => Object.values(pinned).flat().filter(Boolean) as string[], [pinned]);
+
+  // Thumbnails for everything referenced by the override
+  const referencedIds = useMemo(() => [...new Set([...allPinnedIds, ...excluded])].sort(), [allPinnedIds, excluded]);
+  const { data: poseUrls } = useQuery({
+    queryKey: ["clay-pose-urls", referencedIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("clay_images")
+        .select("id, stored_url")
+        .in("id", referencedIds);
+      if (error) throw error;
+      return Object.fromEntries((data || []).map(c => [c.id, c.stored_url])) as Record<string, string>;
+    },
+    enabled: referencedIds.length > 0,
+  });
+
+  const toPayload = (next: ReposePoseOverrides) => ({
+    batchId,
+    batchItemIds,
+    overrides: normalizeOverrides(next),
+  });
+
+  const handleConfirm = async (poseIds: string[]) => {
+    if (!pickerTarget) return;
+    const next = pickerTarget.kind === 'pinned'
+      ? { pinned: { ...pinned, [pickerTarget.shotType]: poseIds }, excluded }
+      : { pinned, excluded: poseIds };
+    try {
+      await updateOverrides.mutateAsync(toPayload(next));
+      setPickerTarget(null);
+    } catch {
+      // Error toast is raised by the mutation; keep the picker open
+    }
+  };
+
+  const removePose = (poseId: string, shotType?: OutputShotType) => {
+    const next = shotType
+      ? { pinned: { ...pinned, [shotType]: (pinned[shotType] || []).filter(id => id !== poseId) }, excluded }
+      : { pinned, excluded: excluded.filter(id => id !== poseId) };
+    updateOverrides.mutate(toPayload(next));
+  };
+
+  const renderThumbs = (ids: string[], shotType?: OutputShotType) => (
+    <div className="flex flex-wrap gap-1.5 mt-1.5">
+      {ids.map(id => (
+        <div key={id} className="relative w-10 h-[53px] rounded overflow-hidden bg-muted border group">
+          {poseUrls?.[id] && (
+            <img src={poseUrls[id]} alt="Clay pose" className="w-full h-full object-cover" />
+          )}
+          <button
+            onClick={() => removePose(id, shotType)}
+            className="absolute top-0 right-0 bg-black/60 text-white rounded-bl p-0.5 opacity-0 group-hover:opacity-100 transition-opacity"
+            title="Remove"
+          >
+            <X className="w-2.5 h-2.5" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+
+  const noBatchItems = batchItemIds.length === 0;
+
+  return (
+    <div>
+      <h4 className="text-sm font-medium mb-1">Pose Overrides</h4>
+      <p className="text-xs text-muted-foreground mb-3">
+        Pinned poses are always rendered for this look; remaining slots are filled by the normal selection.
+      </p>
+
+      <div className="space-y-3">
+        {ALL_OUTPUT_SHOT_TYPES.map(shotType => {
+          const ids = pinned[shotType] || [];
+          return (
+            <div key={shotType}>
+              <div className="flex items-center justify-between">
+                <span className="text-xs flex items-center gap-1.5">
+                  <Pin className="w-3 h-3 text-muted-foreground" />
+                  {OUTPUT_SHOT_LABELS[shotType]}
+                  {ids.length > 0 && <Badge variant="secondary" className="text-[10px] px-1">{ids.length}</Badge>}
+                </span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-6 px-2 text-xs"
+                  disabled={noBatchItems || !brandId}
+                  onClick={() => setPickerTarget({ kind: 'pinned', shotType })}
+                >
+                  {ids.length > 0 ? 'Edit' : 'Pin poses'}
+                </Button>
+              </div>
+              {ids.length > 0 && renderThumbs(ids, shotType)}
+            </div>
+          );
+        })}
+
+        <div className="pt-2 border-t">
+          <div className="flex items-center justify-between">
+            <span className="text-xs flex items-center gap-1.5">
+              <Ban className="w-3 h-3 text-muted-foreground" />
+              Never use
+              {excluded.length > 0 && <Badge variant="secondary" className="text-[10px] px-1">{excluded.length}</Badge>}
+            </span>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 px-2 text-xs"
+              disabled={noBatchItems || !brandId}
+              onClick={() => setPickerTarget({ kind: 'excluded' })}
+            >
+              {excluded.length > 0 ? 'Edit' : 'Exclude poses'}
+            </Button>
+          </div>
+          {excluded.length > 0 && renderThumbs(excluded)}
+        </div>
+      </div>
+
+      <ClayPosePickerDialog
+        isOpen={!!pickerTarget}
+        onClose={() => setPickerTarget(null)}
+        multiple
+        batchId={batchId}
+        brandId={brandId}
+        currentShotType={pickerTarget?.kind === 'pinned' ? pickerTarget.shotType : 'all'}
+        initialSelectedIds={pickerTarget?.kind === 'pinned' ? pinned[pickerTarget.shotType] || [] : excluded}
+        disabledPoseIds={pickerTarget?.kind === 'pinned' ? excluded : allPinnedIds}
+        title={pickerTarget?.kind === 'pinned'
+          ? `Pin ${OUTPUT_SHOT_LABELS[pickerTarget.shotType]} Poses`
+          : 'Exclude Poses'}
+        onConfirmSelection={handleConfirm}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Copy, ExternalLink, History } from "lucide-react";
+import { toast } from "sonner";
+import { formatDistanceToNow } from "date-fns";
+import {
+  useCreateReposeClientReview,
+  useReposeClientReviews,
+  useReposeSelectionAudit,
+} from "@/hooks/useReposeClientReviews";
+import type { LookWithOutputs } from "@/hooks/useReposeSelection";
+import { ALL_OUTPUT_SHOT_TYPES, OUTPUT_SHOT_LABELS } from "@/types/shot-types";
+
+interface SendToClientReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  batchId: string;
+  /** Looks whose favourites will be sent */
+  looks: LookWithOutputs[];
+  /** All looks in the batch, used to label audit entries */
+  allLooks: LookWithOutputs[];
+}
+
+const reviewUrlFor = (reviewId: string) => `${window.location.origin}/review/${reviewId}`;
+
+const formatRank = (isFavorite: boolean | null, rank: number | null) =>
+  isFavorite ? (rank ? `#${rank}` : "favourite") : "not selected";
+
+export function SendToClientReviewDialog({
+  open,
+  onOpenChange,
+  batchId,
+  looks,
+  allLooks,
+}: SendToClientReviewDialogProps) {
+  const [reviewName, setReviewName] = useState("");
+  const [createdReviewId, setCreatedReviewId] = useState<string | null>(null);
+  const createReview = useCreateReposeClientReview();
+  const { data: reviews = [] } = useReposeClientReviews(open ? batchId : undefined);
+  const { data: audit = [] } = useReposeSelectionAudit(open ? batchId : undefined);
+
+  const favoriteCount = useMemo(
+    () => looks.reduce(
+      (sum, look) => sum + ALL_OUTPUT_SHOT_TYPES.reduce(
+        (viewSum, shotType) => viewSum + (look.outputsByView[shotType] || []).filter(o => o.is_favorite).length,
+        0
+      ),
+      0
+    ),
+    [looks]
+  );
+
+  // output id -> "LOOKCODE · Shot type" for the audit list
+  const outputLabels = useMemo(() => {
+    const labels = new Map<string, string>();
+    for (const look of allLooks) {
+      for (const shotType of ALL_OUTPUT_SHOT_TYPES) {
+        for (const output of look.outputsByView[shotType] || []) {
+          labels.set(output.id, `${look.lookCode} · ${OUTPUT_SHOT_LABELS[shotType]}`);
+        }
+      }
+    }
+    return labels;
+  }, [allLooks]);
+
+  const handleCreate = async () => {
+    try {
+      const result = await createReview.mutateAsync({
+        batchId,
+        name: reviewName.trim(),
+        looks,
+      });
+      setCreatedReviewId(result.reviewId);
+    } catch {
+      // Error toast is raised by the mutation
+    }
+  };
+
+  const copyLink = (reviewId: string) => {
+    navigator.clipboard.writeText(reviewUrlFor(reviewId));
+    toast.success("Review link copied");
+  };
+
+  const resetAndClose = () => {
+    setReviewName("");
+    setCreatedReviewId(null);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={resetAndClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{createdReviewId ? "Review Created" : "Send to Client Review"}</DialogTitle>
+          <DialogDescription>
+            {createdReviewId
+              ? "Share this link with your client. Their approvals and rank changes update the favourites here."
+              : `Send ${favoriteCount} favourite${favoriteCount !== 1 ? "s" : ""} from ${looks.length} look${looks.length !== 1 ? "s" : ""} for client approval`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {createdReviewId ? (
+          <div className="flex items-center gap-2 p-3 bg-muted rounded-lg">
+            <Input readOnly value={reviewUrlFor(createdReviewId)} className="bg-transparent border-none text-sm" />
+            <Button size="sm" variant="ghost" onClick={() => copyLink(createdReviewId)}>
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => window.open(reviewUrlFor(createdReviewId), "_blank")}>
+              <ExternalLink className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="reposeReviewName">Review Name</Label>
+            <Input
+              id="reposeReviewName"
+              placeholder="e.g., SS26 Repose - Round 1"
+              value={reviewName}
+              onChange={(e) => setReviewName(e.target.value)}
+            />
+          </div>
+        )}
+
+        {/* Earlier reviews for this batch */}
+        {reviews.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground">Reviews for this batch</Label>
+            <div className="border rounded-md divide-y">
+              {reviews.map((review) => (
+                <div key={review.id} className="flex items-center justify-between gap-2 px-3 py-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{review.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {review.itemCount} images · {formatDistanceToNow(new Date(review.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1.5 shrink-0">
+                    {review.approvedCount > 0 && (
+                      <Badge variant="secondary" className="text-xs">{review.approvedCount} approved</Badge>
+                    )}
+                    {review.rejectedCount > 0 && (
+                      <Badge variant="destructive" className="text-xs">{review.rejectedCount} rejected</Badge>
+                    )}
+                    <Badge variant="outline" className="text-xs capitalize">{review.status}</Badge>
+                    <Button size="icon" variant="ghost" className="h-7 w-7" onClick={() => copyLink(review.id)}>
+                      <Copy className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Audit trail of client write-backs */}
+        {audit.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-xs text-muted-foreground flex items-center gap-1.5">
+              <History className="h-3.5 w-3.5" />
+              Client changes
+            </Label>
+            <ScrollArea className="max-h-40 border rounded-md">
+              <div className="divide-y">
+                {audit.map((entry) => (
+                  <div key={entry.id} className="flex items-center justify-between gap-2 px-3 py-1.5 text-xs">
+                    <span className="truncate">{outputLabels.get(entry.output_id) || entry.output_id.slice(0, 8)}</span>
+                    <span className="text-muted-foreground shrink-0">
+                      {formatRank(entry.previous_is_favorite, entry.previous_rank)} → {formatRank(entry.new_is_favorite, entry.new_rank)}
+                      {" · "}
+                      {formatDistanceToNow(new Date(entry.created_at), { addSuffix: true })}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        )}
+
+        <DialogFooter>
+          {createdReviewId ? (
+            <Button onClick={resetAndClose}>Done</Button>
+          ) : (
+            <>
+              <Button variant="outline" onClick={resetAndClose}>
+                Cancel
+              </Button>
+              <Button
+                onClick={handleCreate}
+                disabled={createReview.isPending || !reviewName.trim() || favoriteCount === 0}
+              >
+                {createReview.isPending ? "Sending..." : "Send to Client"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
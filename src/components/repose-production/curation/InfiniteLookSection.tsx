@@ -31,6 +31,8 @@ import { Check, RotateCw, Loader2, AlertCircle, X, ChevronDown, Trash2, Play } f
 import { getImageUrl } from "@/lib/imageUtils";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { PermissionTooltip } from "@/components/auth/PermissionTooltip";
+import { useAuth } from "@/contexts/AuthContext";
 
 interface InfiniteLookSectionProps {
   look: LookWithOutputs;
@@ -44,6 +46,7 @@ interface InfiniteLookSectionProps {
   onSkipView: (shotType: OutputShotType) => void;
   onUndoSkipView: (shotType: OutputShotType) => void;
   onRefresh: () => void;
+  stackSimilar?: boolean;
 }
 
 export function InfiniteLookSection({
@@ -58,8 +61,11 @@ export function InfiniteLookSection({
   onSkipView,
   onUndoSkipView,
   onRefresh,
+  stackSimilar = false,
 }: InfiniteLookSectionProps) {
   const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const canRun = can("repose.run");
   const [rerenderCount, setRerenderCount] = useState<string>("5");
   const [isRerendering, setIsRerendering] = useState(false);
   const [selectedShotTypes, setSelectedShotTypes] = useState<OutputShotType[]>([]);
@@ -341,6 +347,7 @@ export function InfiniteLookSection({
                   size="sm"
                   className="h-6 w-6 p-0 text-green-600 hover:text-green-700 hover:bg-green-100"
                   onClick={handleResumePending}
+                  disabled={!canRun}
                   title="Resume processing"
                 >
                   <Play className="w-3.5 h-3.5" />
@@ -361,8 +368,11 @@ export function InfiniteLookSection({
               <div className="flex items-center gap-1">
                 <Badge 
                   variant="outline" 
-                  className="gap-1.5 text-destructive border-destructive/30 cursor-pointer hover:bg-destructive/10" 
-                  onClick={handleRetryAllFailed}
+                  className={cn(
+                    "gap-1.5 text-destructive border-destructive/30",
+                    canRun ? "cursor-pointer hover:bg-destructive/10" : "cursor-not-allowed opacity-60"
+                  )}
+                  onClick={canRun ? handleRetryAllFailed : undefined}
                 >
                   <AlertCircle className="w-3 h-3" />
                   {failedCount} failed - Retry
@@ -372,6 +382,7 @@ export function InfiniteLookSection({
                     <Button 
                       variant="ghost" 
                       size="sm" 
+                      disabled={!can("repose.delete")}
                       className="h-6 w-6 p-0 text-destructive hover:text-destructive hover:bg-destructive/10"
                     >
                       <Trash2 className="w-3.5 h-3.5" />
@@ -483,7 +494,7 @@ export function InfiniteLookSection({
                       size="sm" 
                       className="w-full gap-1.5"
                       onClick={handleRerenderSelected}
-                      disabled={selectedShotTypes.length === 0 || isRerendering}
+                      disabled={selectedShotTypes.length === 0 || isRerendering || !canRun}
                     >
                       {isRerendering ? (
                         <Loader2 className="w-3.5 h-3.5 animate-spin" />
@@ -526,20 +537,22 @@ export function InfiniteLookSection({
             <p className="text-sm text-muted-foreground">
               No outputs for this look yet
             </p>
-            <Button 
-              variant="default" 
-              size="sm"
-              onClick={handleRerenderSelected}
-              disabled={isRerendering}
-              className="gap-1.5"
-            >
-              {isRerendering ? (
-                <Loader2 className="w-3.5 h-3.5 animate-spin" />
-              ) : (
-                <RotateCw className="w-3.5 h-3.5" />
-              )}
-              Generate {rerenderCount} outputs
-            </Button>
+            <PermissionTooltip permission="repose.run">
+              <Button 
+                variant="default" 
+                size="sm"
+                onClick={handleRerenderSelected}
+                disabled={isRerendering || !canRun}
+                className="gap-1.5"
+              >
+                {isRerendering ? (
+                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                ) : (
+                  <RotateCw className="w-3.5 h-3.5" />
+                )}
+                Generate {rerenderCount} outputs
+              </Button>
+            </PermissionTooltip>
           </div>
         ) : (
           activeShots.map((shotType) => {
@@ -566,6 +579,7 @@ export function InfiniteLookSection({
                 isSkipped={isViewSkipped(shotType)}
                 onSkip={() => onSkipView(shotType)}
                 onUndoSkip={() => onUndoSkipView(shotType)}
+                stackSimilar={stackSimilar}
               />
             );
           })
@@ -6,10 +6,11 @@ import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { AlertCircle, Check, Loader2, Play, RefreshCw, RotateCcw, Trash2, Zap } from "lucide-react";
+import { AlertCircle, Check, Layers, Loader2, Play, RefreshCw, RotateCcw, Trash2, Zap } from "lucide-react";
 import { useReposeBatch } from "@/hooks/useReposeBatches";
 import { useReposeSelection } from "@/hooks/useReposeSelection";
 import { useAutoResumeQueue } from "@/hooks/useAutoResumeQueue";
+import { usePerceptualHashBackfill } from "@/hooks/usePerceptualHashBackfill";
 import { LeapfrogLoader } from "@/components/ui/LeapfrogLoader";
 import { CurationLightbox } from "./CurationLightbox";
 import { InfiniteLookSection } from "./InfiniteLookSection";
@@ -66,6 +67,16 @@ export function InfiniteReviewPanel({ batchId, onExportReady }: InfiniteReviewPa
   const [lightboxOpen, setLightboxOpen] = useState(false);
   const [lightboxIndex, setLightboxIndex] = useState(0);
   const [currentLightboxLookId, setCurrentLightboxLookId] = useState<string | null>(null);
+  const [stackSimilar, setStackSimilar] = useState(false);
+
+  // Hash older outputs on demand so they can be stacked too
+  const unhashedOutputIds = useMemo(
+    () => (outputs || [])
+      .filter(o => o.status === 'complete' && o.result_url && !o.perceptual_hash)
+      .map(o => o.id),
+    [outputs]
+  );
+  usePerceptualHashBackfill("repose_outputs", unhashedOutputIds, stackSimilar, refetchAll);
 
   // Calculate shot types complete, pending, and failed counts
   const { shotTypesStats, pendingCount, failedCount } = useMemo(() => {
@@ -256,6 +267,19 @@ export function InfiniteReviewPanel({ batchId, onExportReady }: InfiniteReviewPa
             </div>
 
             <div className="flex items-center gap-3">
+              {/* Near-duplicate stacking toggle */}
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="stack-similar"
+                  checked={stackSimilar}
+                  onCheckedChange={setStackSimilar}
+                />
+                <Label htmlFor="stack-similar" className="text-sm cursor-pointer flex items-center gap-1.5">
+                  <Layers className="w-3.5 h-3.5" />
+                  Stack similar
+                </Label>
+              </div>
+
               {/* Auto-resume toggle */}
               <TooltipProvider>
                 <Tooltip>
@@ -405,6 +429,7 @@ export function InfiniteReviewPanel({ batchId, onExportReady }: InfiniteReviewPa
                   onSkipView={(shotType) => skipView.mutate({ lookId: look.lookId, shotType })}
                   onUndoSkipView={(shotType) => undoSkipView.mutate({ lookId: look.lookId, shotType })}
                   onRefresh={refetchAll}
+                  stackSimilar={stackSimilar}
                 />
               </div>
             ))}
@@ -1,5 +1,5 @@
 import { useState, useCallback } from "react";
-import { ChevronDown, ChevronRight, Check, Circle, RotateCw, Loader2, SkipForward, Undo } from "lucide-react";
+import { ChevronDown, ChevronRight, Check, Circle, RotateCw, Loader2, SkipForward, Undo, Layers } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -12,6 +12,9 @@ import { OutputTile } from "./OutputTile";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { getImageUrl } from "@/lib/imageUtils";
+import { stackNearDuplicates } from "@/lib/perceptualHash";
+import { PermissionTooltip } from "@/components/auth/PermissionTooltip";
+import { useAuth } from "@/contexts/AuthContext";
 
 interface ShotTypeBlockProps {
   shotType: OutputShotType;
@@ -29,6 +32,8 @@ interface ShotTypeBlockProps {
   isSkipped?: boolean;
   onSkip?: () => void;
   onUndoSkip?: () => void;
+  /** Collapse near-identical attempts into stacks */
+  stackSimilar?: boolean;
 }
 
 export function ShotTypeBlock({
@@ -47,11 +52,15 @@ export function ShotTypeBlock({
   isSkipped = false,
   onSkip,
   onUndoSkip,
+  stackSimilar = false,
 }: ShotTypeBlockProps) {
+  const { can } = useAuth();
+  const canRun = can("repose.run");
   // Auto-collapse completed blocks
   const [isOpen, setIsOpen] = useState(!stats.isComplete);
   const [rerenderCount, setRerenderCount] = useState<string>("3");
   const [isRerendering, setIsRerendering] = useState(false);
+  const [expandedStacks, setExpandedStacks] = useState<Set<string>>(new Set());
   
   const completedOutputs = outputs.filter(o => o.status === 'complete');
   const pendingOutputs = outputs.filter(o => o.status === 'queued' || o.status === 'running');
@@ -60,6 +69,25 @@ export function ShotTypeBlock({
     (a.favorite_rank || 0) - (b.favorite_rank || 0)
   );
 
+  // Near-duplicate stacks - favorites stay on top so selections are never hidden
+  const { visible: visibleOutputs, hiddenCounts, stackSizes } = stackSimilar
+    ? stackNearDuplicates(completedOutputs, {
+        getId: o => o.id,
+        getHash: o => o.perceptual_hash,
+        expandedIds: expandedStacks,
+        preferAsTop: o => o.is_favorite,
+      })
+    : { visible: completedOutputs, hiddenCounts: new Map<string, number>(), stackSizes: new Map<string, number>() };
+
+  const toggleStack = (outputId: string) => {
+    setExpandedStacks(prev => {
+      const next = new Set(prev);
+      if (next.has(outputId)) next.delete(outputId);
+      else next.add(outputId);
+      return next;
+    });
+  };
+
   // Status styling
   const getStatusStyle = () => {
     if (isSkipped) return { bg: "bg-muted/30", text: "text-muted-foreground", border: "border-muted" };
@@ -351,14 +379,25 @@ export function ShotTypeBlock({
           ) : (
             <div className="grid grid-cols-3 gap-3">
               {/* Completed outputs */}
-              {completedOutputs.map((output) => (
-                <OutputTile
-                  key={output.id}
-                  output={output}
-                  onToggleSelection={() => handleToggleSelection(output)}
-                  onOpenLightbox={() => onOpenLightbox(output.id)}
-                  isViewFull={isViewFull && !output.is_favorite}
-                />
+              {visibleOutputs.map((output) => (
+                <div key={output.id} className="relative">
+                  <OutputTile
+                    output={output}
+                    onToggleSelection={() => handleToggleSelection(output)}
+                    onOpenLightbox={() => onOpenLightbox(output.id)}
+                    isViewFull={isViewFull && !output.is_favorite}
+                  />
+                  {stackSizes.has(output.id) && (
+                    <button
+                      onClick={() => toggleStack(output.id)}
+                      className="absolute top-1 left-1/2 -translate-x-1/2 z-10 flex items-center gap-1 px-1.5 py-0.5 rounded bg-black/70 text-white text-[10px] font-medium hover:bg-black/80"
+                      title={`${stackSizes.get(output.id)} near-identical attempts`}
+                    >
+                      <Layers className="w-3 h-3" />
+                      {hiddenCounts.has(output.id) ? `+${hiddenCounts.get(output.id)} similar` : "Collapse"}
+                    </button>
+                  )}
+                </div>
               ))}
               
               {/* Pending outputs - placeholder tiles */}
@@ -393,7 +432,7 @@ export function ShotTypeBlock({
                   variant="outline" 
                   size="sm"
                   onClick={handleRetryFailed}
-                  disabled={isRerendering}
+                  disabled={isRerendering || !canRun}
                   className="gap-1.5 text-destructive hover:text-destructive"
                 >
                   <RotateCw className="w-3.5 h-3.5" />
@@ -414,20 +453,22 @@ export function ShotTypeBlock({
                 </SelectContent>
               </Select>
               
-              <Button 
-                variant="outline" 
-                size="sm"
-                onClick={handleRerender}
-                disabled={isRerendering}
-                className="gap-1.5"
-              >
-                {isRerendering ? (
-                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
-                ) : (
-                  <RotateCw className="w-3.5 h-3.5" />
-                )}
-                Re-render
-              </Button>
+              <PermissionTooltip permission="repose.run">
+                <Button 
+                  variant="outline" 
+                  size="sm"
+                  onClick={handleRerender}
+                  disabled={isRerendering || !canRun}
+                  className="gap-1.5"
+                >
+                  {isRerendering ? (
+                    <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                  ) : (
+                    <RotateCw className="w-3.5 h-3.5" />
+                  )}
+                  Re-render
+                </Button>
+              </PermissionTooltip>
             </div>
           </div>
         </div>
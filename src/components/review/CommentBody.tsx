@@ -0,0 +1,34 @@
+import { parseCommentBody } from '@/lib/mentions';
+import { cn } from '@/lib/utils';
+
+interface CommentBodyProps {
+  body: string;
+  className?: string;
+}
+
+// Comment text with @mention tokens rendered as chips
+export function CommentBody({ body, className }: CommentBodyProps) {
+  const segments = parseCommentBody(body);
+
+  return (
+    <p className={cn("break-words", className)}>
+      {segments.map((segment, index) =>
+        segment.type === 'text' ? (
+          <span key={index}>{segment.text}</span>
+        ) : (
+          <span
+            key={index}
+            className={cn(
+              "inline-flex items-center rounded px-1 text-xs font-medium align-baseline",
+              segment.kind === 'freelancer'
+                ? "bg-blue-500/10 text-blue-600"
+                : "bg-primary/10 text-primary"
+            )}
+          >
+            @{segment.name}
+          </span>
+        )
+      )}
+    </p>
+  );
+}
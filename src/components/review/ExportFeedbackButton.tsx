@@ -0,0 +1,70 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Download, FileText, FileArchive, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useExportReviewFeedback } from '@/hooks/useReviewSystem';
+import type { FeedbackExportFormat } from '@/lib/reviewFeedbackExport';
+import type { ReviewThread, SubmissionAsset } from '@/types/review';
+
+interface ExportFeedbackButtonProps {
+  assets: SubmissionAsset[];
+  threads: ReviewThread[];
+  title: string;
+  className?: string;
+}
+
+/**
+ * Downloads the review feedback as a PDF or a ZIP of annotated PNGs.
+ * Only SHARED comments are included, so it is safe to hand to freelancers.
+ */
+export function ExportFeedbackButton({ assets, threads, title, className }: ExportFeedbackButtonProps) {
+  const exportFeedback = useExportReviewFeedback();
+
+  const handleExport = (exportFormat: FeedbackExportFormat) => {
+    exportFeedback.mutate(
+      { assets, threads, title, exportFormat },
+      {
+        onSuccess: () => toast.success(exportFormat === 'pdf' ? 'Feedback PDF downloaded' : 'Feedback ZIP downloaded'),
+        onError: (error) => {
+          console.error('Failed to export feedback:', error);
+          toast.error('Failed to export feedback');
+        },
+      }
+    );
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={className ?? 'gap-1.5'}
+          disabled={assets.length === 0 || exportFeedback.isPending}
+        >
+          {exportFeedback.isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="h-4 w-4" />
+          )}
+          Export Feedback
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onClick={() => handleExport('pdf')}>
+          <FileText className="h-4 w-4 mr-2" />
+          PDF contact sheet
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('zip')}>
+          <FileArchive className="h-4 w-4 mr-2" />
+          ZIP of annotated PNGs
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
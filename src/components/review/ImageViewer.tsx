@@ -1,8 +1,23 @@
 import { useState, useRef, useCallback, useEffect, forwardRef, useImperativeHandle } from 'react';
 import { Button } from '@/components/ui/button';
-import { ZoomIn, ZoomOut, Maximize2, Eye, EyeOff, Target } from 'lucide-react';
-import type { ImageAnnotation, AnnotationRect } from '@/types/review';
+import {
+  ZoomIn,
+  ZoomOut,
+  Maximize2,
+  Eye,
+  EyeOff,
+  Target,
+  ChevronsLeftRight,
+  Square,
+  Pentagon,
+  Brush,
+  Lasso,
+  MoveUpRight,
+  MapPin,
+} from 'lucide-react';
+import type { ImageAnnotation, AnnotationGeometry, AnnotationPoint } from '@/types/review';
 import { cn } from '@/lib/utils';
+import { mentionsToPlainText } from '@/lib/mentions';
 import {
   Tooltip,
   TooltipContent,
@@ -10,6 +25,27 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { format } from 'date-fns';
+import {
+  type DrawTool,
+  DRAW_TOOL_LABELS,
+  DRAW_TOOL_HINTS,
+  FREEHAND_MIN_STEP,
+  POLYGON_CLOSE_DISTANCE,
+  buildGeometry,
+  distance,
+  toSvgPath,
+  getArrowHeadPath,
+  getPinRadius,
+} from '@/lib/annotationShapes';
+
+const DRAW_TOOL_ICONS: Record<DrawTool, typeof Square> = {
+  RECT: Square,
+  POLYGON: Pentagon,
+  FREEHAND: Brush,
+  LASSO: Lasso,
+  ARROW: MoveUpRight,
+  POINT: MapPin,
+};
 
 interface ImageViewerProps {
   src: string;
@@ -18,14 +54,33 @@ interface ImageViewerProps {
   selectedAnnotationId: string | null;
   flashingAnnotationId?: string | null;
   onAnnotationClick: (annotation: ImageAnnotation) => void;
-  onAnnotationCreate: (rect: AnnotationRect) => void;
+  onAnnotationCreate: (geometry: AnnotationGeometry) => void;
   isDrawing: boolean;
   showAnnotations: boolean;
   onToggleAnnotations: () => void;
   className?: string;
   readOnly?: boolean; // Disables drawing but still shows annotations
+  // Controlled zoom/pan, lets several viewers move in sync
+  viewState?: ImageViewState;
+  onViewStateChange?: (view: ImageViewState) => void;
+  // Second image layered over src, blended (onion) or revealed by a divider (swipe)
+  overlaySrc?: string;
+  overlayMode?: 'onion' | 'swipe';
+  overlayOpacity?: number; // 0-1
+  swipePosition?: number; // 0-1 from the left edge
+  onSwipePositionChange?: (position: number) => void;
+  // Annotations from another version, drawn as read-only outlines
+  referenceAnnotations?: ImageAnnotation[];
+  referenceLabel?: string;
+}
+
+export interface ImageViewState {
+  zoom: number;
+  pan: { x: number; y: number };
 }
 
+const DEFAULT_VIEW: ImageViewState = { zoom: 1, pan: { x: 0, y: 0 } };
+
 export interface ImageViewerHandle {
   scrollToAnnotation: (annotationId: string) => void;
   fitToScreen: () => void;
@@ -46,31 +101,52 @@ export const ImageViewer = forwardRef<ImageViewerHandle, ImageViewerProps>(
       onToggleAnnotations,
       className,
       readOnly = false,
+      viewState,
+      onViewStateChange,
+      overlaySrc,
+      overlayMode = 'onion',
+      overlayOpacity = 0.5,
+      swipePosition = 0.5,
+      onSwipePositionChange,
+      referenceAnnotations = [],
+      referenceLabel,
     },
     ref
   ) {
     const containerRef = useRef<HTMLDivElement>(null);
     const imageRef = useRef<HTMLImageElement>(null);
-    const [zoom, setZoom] = useState(1);
-    const [pan, setPan] = useState({ x: 0, y: 0 });
+    const [localView, setLocalView] = useState<ImageViewState>(DEFAULT_VIEW);
+    const { zoom, pan } = viewState ?? localView;
+    const viewRef = useRef<ImageViewState>({ zoom, pan });
+    viewRef.current = { zoom, pan };
+    const isControlled = viewState !== undefined;
     const [isPanning, setIsPanning] = useState(false);
     const [panStart, setPanStart] = useState({ x: 0, y: 0 });
-    const [drawStart, setDrawStart] = useState<{ x: number; y: number } | null>(null);
-    const [drawCurrent, setDrawCurrent] = useState<{ x: number; y: number } | null>(null);
+    const [drawTool, setDrawTool] = useState<DrawTool>('RECT');
+    // Points placed so far: drag start for box/arrow/pin, the stroke for brush/lasso, vertices for polygon
+    const [draftPoints, setDraftPoints] = useState<AnnotationPoint[]>([]);
+    const [drawCurrent, setDrawCurrent] = useState<AnnotationPoint | null>(null);
     const [imageLoaded, setImageLoaded] = useState(false);
     const [imageDimensions, setImageDimensions] = useState({ width: 0, height: 0 });
     const [hoveredAnnotationId, setHoveredAnnotationId] = useState<string | null>(null);
     const [prevSrc, setPrevSrc] = useState<string | null>(null);
     const [isTransitioning, setIsTransitioning] = useState(false);
+    const [isSwiping, setIsSwiping] = useState(false);
 
-    const handleZoomIn = () => setZoom(prev => Math.min(prev * 1.25, 5));
-    const handleZoomOut = () => setZoom(prev => Math.max(prev / 1.25, 0.25));
+    const updateView = useCallback((next: Partial<ImageViewState>) => {
+      const merged = { ...viewRef.current, ...next };
+      viewRef.current = merged;
+      onViewStateChange?.(merged);
+      if (!isControlled) setLocalView(merged);
+    }, [onViewStateChange, isControlled]);
+
+    const handleZoomIn = () => updateView({ zoom: Math.min(viewRef.current.zoom * 1.25, 5) });
+    const handleZoomOut = () => updateView({ zoom: Math.max(viewRef.current.zoom / 1.25, 0.25) });
 
     // Fit entire image in viewport with small margins
     const handleFit = useCallback(() => {
       if (!containerRef.current || !imageDimensions.width) {
-        setZoom(1);
-        setPan({ x: 0, y: 0 });
+        updateView(DEFAULT_VIEW);
         return;
       }
       
@@ -95,9 +171,8 @@ export const ImageViewer = forwardRef<ImageViewerHandle, ImageViewerProps>(
       }
       
       // Ensure reasonable minimum zoom (40%)
-      setZoom(Math.max(fitZoom, 0.4));
-      setPan({ x: 0, y: 0 });
-    }, [imageDimensions]);
+      updateView({ zoom: Math.max(fitZoom, 0.4), pan: { x: 0, y: 0 } });
+    }, [imageDimensions, updateView]);
 
     // Scroll/zoom to center on a specific annotation
     const scrollToAnnotation = useCallback((annotationId: string) => {
@@ -124,9 +199,8 @@ export const ImageViewer = forwardRef<ImageViewerHandle, ImageViewerProps>(
       const panX = (container.width / 2) - (annCenterX * newZoom);
       const panY = (container.height / 2) - (annCenterY * newZoom);
       
-      setZoom(newZoom);
-      setPan({ x: panX, y: panY });
-    }, [annotations, imageDimensions]);
+      updateView({ zoom: newZoom, pan: { x: panX, y: panY } });
+    }, [annotations, imageDimensions, updateView]);
 
     // Expose methods via ref
     useImperativeHandle(ref, () => ({
@@ -143,50 +217,92 @@ export const ImageViewer = forwardRef<ImageViewerHandle, ImageViewerProps>(
       return { x: Math.max(0, Math.min(1, x)), y: Math.max(0, Math.min(1, y)) };
     }, []);
 
+    const resetDraft = useCallback(() => {
+      setDraftPoints([]);
+      setDrawCurrent(null);
+    }, []);
+
+    const finishDrawing = useCallback((points: AnnotationPoint[]) => {
+      // Double-clicks and stalled drags repeat points
+      const cleaned = points.filter((p, i) => i === 0 || distance(p, points[i - 1]) > 0.002);
+      const geometry = buildGeometry(drawTool, cleaned);
+      if (geometry) onAnnotationCreate(geometry);
+      resetDraft();
+    }, [drawTool, onAnnotationCreate, resetDraft]);
+
     const handleMouseDown = useCallback((e: React.MouseEvent) => {
       if (isDrawing && !readOnly) {
         const coords = getNormalizedCoords(e.clientX, e.clientY);
-        if (coords) {
-          setDrawStart(coords);
-          setDrawCurrent(coords);
+        if (!coords) return;
+        if (drawTool === 'POLYGON') {
+          if (draftPoints.length >= 3 && distance(coords, draftPoints[0]) < POLYGON_CLOSE_DISTANCE) {
+            finishDrawing(draftPoints);
+            return;
+          }
+          setDraftPoints([...draftPoints, coords]);
+        } else {
+          setDraftPoints([coords]);
         }
+        setDrawCurrent(coords);
       } else if (e.button === 0) {
         // Allow panning at any zoom level
         setIsPanning(true);
         setPanStart({ x: e.clientX - pan.x, y: e.clientY - pan.y });
       }
-    }, [isDrawing, readOnly, getNormalizedCoords, zoom, pan]);
+    }, [isDrawing, readOnly, getNormalizedCoords, drawTool, draftPoints, finishDrawing, pan]);
 
     const handleMouseMove = useCallback((e: React.MouseEvent) => {
-      if (drawStart && isDrawing && !readOnly) {
+      if (isSwiping) {
+        const coords = getNormalizedCoords(e.clientX, e.clientY);
+        if (coords) onSwipePositionChange?.(coords.x);
+      } else if (isDrawing && !readOnly) {
         const coords = getNormalizedCoords(e.clientX, e.clientY);
-        if (coords) {
-          setDrawCurrent(coords);
+        if (!coords) return;
+        setDrawCurrent(coords);
+        const isStroke = drawTool === 'FREEHAND' || drawTool === 'LASSO';
+        if (isStroke && draftPoints.length > 0 && distance(coords, draftPoints[draftPoints.length - 1]) >= FREEHAND_MIN_STEP) {
+          setDraftPoints([...draftPoints, coords]);
         }
       } else if (isPanning) {
-        setPan({
-          x: e.clientX - panStart.x,
-          y: e.clientY - panStart.y,
+        updateView({
+          pan: {
+            x: e.clientX - panStart.x,
+            y: e.clientY - panStart.y,
+          },
         });
       }
-    }, [drawStart, isDrawing, readOnly, getNormalizedCoords, isPanning, panStart]);
+    }, [isSwiping, onSwipePositionChange, isDrawing, readOnly, getNormalizedCoords, drawTool, draftPoints, isPanning, panStart, updateView]);
 
     const handleMouseUp = useCallback(() => {
-      if (drawStart && drawCurrent && isDrawing) {
-        const x = Math.min(drawStart.x, drawCurrent.x);
-        const y = Math.min(drawStart.y, drawCurrent.y);
-        const w = Math.abs(drawCurrent.x - drawStart.x);
-        const h = Math.abs(drawCurrent.y - drawStart.y);
-        
-        // Only create if has meaningful size
-        if (w > 0.01 && h > 0.01) {
-          onAnnotationCreate({ x, y, w, h });
-        }
+      // Polygons are built click by click and finished separately
+      if (isDrawing && drawTool !== 'POLYGON' && draftPoints.length > 0) {
+        finishDrawing(drawCurrent ? [...draftPoints, drawCurrent] : draftPoints);
       }
-      setDrawStart(null);
-      setDrawCurrent(null);
       setIsPanning(false);
-    }, [drawStart, drawCurrent, isDrawing, onAnnotationCreate]);
+      setIsSwiping(false);
+    }, [isDrawing, drawTool, draftPoints, drawCurrent, finishDrawing]);
+
+    const handleDoubleClick = useCallback(() => {
+      if (isDrawing && drawTool === 'POLYGON' && draftPoints.length >= 3) {
+        finishDrawing(draftPoints);
+      }
+    }, [isDrawing, drawTool, draftPoints, finishDrawing]);
+
+    // Drop half-drawn shapes when drawing stops or the tool changes
+    useEffect(() => {
+      resetDraft();
+    }, [isDrawing, drawTool, resetDraft]);
+
+    // Enter finishes a polygon, Escape abandons it
+    useEffect(() => {
+      if (!isDrawing || drawTool !== 'POLYGON' || draftPoints.length === 0) return;
+      const handleKeyDown = (e: KeyboardEvent) => {
+        if (e.key === 'Enter') finishDrawing(draftPoints);
+        if (e.key === 'Escape') resetDraft();
+      };
+      window.addEventListener('keydown', handleKeyDown);
+      return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [isDrawing, drawTool, draftPoints, finishDrawing, resetDraft]);
 
     // Handle image change with smooth transition (no flash)
     useEffect(() => {
@@ -220,16 +336,138 @@ export const ImageViewer = forwardRef<ImageViewerHandle, ImageViewerProps>(
 
     // Calculate drawing rect for preview
     const getDrawingRect = () => {
-      if (!drawStart || !drawCurrent) return null;
+      const start = draftPoints[0];
+      if (drawTool !== 'RECT' || !start || !drawCurrent) return null;
       return {
-        x: Math.min(drawStart.x, drawCurrent.x),
-        y: Math.min(drawStart.y, drawCurrent.y),
-        w: Math.abs(drawCurrent.x - drawStart.x),
-        h: Math.abs(drawCurrent.y - drawStart.y),
+        x: Math.min(start.x, drawCurrent.x),
+        y: Math.min(start.y, drawCurrent.y),
+        w: Math.abs(drawCurrent.x - start.x),
+        h: Math.abs(drawCurrent.y - start.y),
       };
     };
 
     const drawingRect = getDrawingRect();
+    const { width: imageWidth, height: imageHeight } = imageDimensions;
+
+    // Non-rect shapes are drawn in an SVG layer in image pixel space
+    const renderShape = (
+      ann: ImageAnnotation,
+      tone: { stroke: string; fill: string; solid: string },
+      interactive: boolean,
+      dashed = false
+    ) => {
+      const points = ann.points;
+      if (!points?.length) return null;
+      const handlers = interactive
+        ? {
+            className: 'cursor-pointer',
+            onClick: (e: React.MouseEvent) => {
+              e.stopPropagation();
+              onAnnotationClick(ann);
+            },
+            onMouseEnter: () => setHoveredAnnotationId(ann.id),
+            onMouseLeave: () => setHoveredAnnotationId(null),
+          }
+        : {};
+      const dash = dashed ? '6 4' : undefined;
+
+      if (ann.shape_type === 'POINT') {
+        const r = getPinRadius(imageWidth, imageHeight);
+        return (
+          <g key={ann.id} {...handlers}>
+            <circle
+              cx={points[0].x * imageWidth}
+              cy={points[0].y * imageHeight}
+              r={r}
+              className={cn(tone.solid, 'stroke-background')}
+              strokeWidth={2}
+              strokeDasharray={dash}
+              vectorEffect="non-scaling-stroke"
+              pointerEvents={interactive ? 'visiblePainted' : 'none'}
+            />
+          </g>
+        );
+      }
+
+      const closed = ann.shape_type === 'POLYGON' || (ann.shape_type === 'FREEHAND' && !!ann.style?.closed);
+      const path = toSvgPath(points, imageWidth, imageHeight, closed);
+
+      return (
+        <g key={ann.id} {...handlers}>
+          {/* Wide invisible stroke so thin lines are easy to hit */}
+          {interactive && !closed && (
+            <path
+              d={path}
+              fill="none"
+              stroke="transparent"
+              strokeWidth={14}
+              vectorEffect="non-scaling-stroke"
+              pointerEvents="stroke"
+            />
+          )}
+          <path
+            d={path}
+            className={cn(tone.stroke, closed ? tone.fill : 'fill-none')}
+            strokeWidth={ann.shape_type === 'FREEHAND' && !closed ? 3 : 2}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeDasharray={dash}
+            vectorEffect="non-scaling-stroke"
+            pointerEvents={interactive && closed ? 'visiblePainted' : 'none'}
+          />
+          {ann.shape_type === 'ARROW' && points.length >= 2 && (
+            <path
+              d={getArrowHeadPath(points[0], points[points.length - 1], imageWidth, imageHeight)}
+              className={tone.solid}
+              pointerEvents={interactive ? 'visiblePainted' : 'none'}
+            />
+          )}
+        </g>
+      );
+    };
+
+    const renderDraft = () => {
+      if (!isDrawing || readOnly || draftPoints.length === 0 || drawTool === 'RECT' || drawTool === 'POINT') {
+        return null;
+      }
+      const tone = 'stroke-primary';
+      if (drawTool === 'ARROW') {
+        const head = drawCurrent || draftPoints[0];
+        return (
+          <>
+            <path
+              d={toSvgPath([draftPoints[0], head], imageWidth, imageHeight, false)}
+              className={tone}
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+            <path d={getArrowHeadPath(draftPoints[0], head, imageWidth, imageHeight)} className="fill-primary" />
+          </>
+        );
+      }
+      const points = drawTool === 'POLYGON' && drawCurrent ? [...draftPoints, drawCurrent] : draftPoints;
+      return (
+        <>
+          <path
+            d={toSvgPath(points, imageWidth, imageHeight, drawTool === 'LASSO')}
+            className={cn(tone, drawTool === 'LASSO' ? 'fill-primary/10' : 'fill-none')}
+            strokeWidth={2}
+            strokeDasharray={drawTool === 'POLYGON' ? '6 4' : undefined}
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            vectorEffect="non-scaling-stroke"
+          />
+          {drawTool === 'POLYGON' && (
+            <circle
+              cx={draftPoints[0].x * imageWidth}
+              cy={draftPoints[0].y * imageHeight}
+              r={getPinRadius(imageWidth, imageHeight) / 2}
+              className="fill-primary"
+            />
+          )}
+        </>
+      );
+    };
 
     // Smart marker positioning (avoid clipping at edges)
     const getMarkerPosition = (ann: ImageAnnotation) => {
@@ -262,6 +500,7 @@ export const ImageViewer = forwardRef<ImageViewerHandle, ImageViewerProps>(
             onMouseMove={handleMouseMove}
             onMouseUp={handleMouseUp}
             onMouseLeave={handleMouseUp}
+            onDoubleClick={handleDoubleClick}
           >
             <div 
               className="absolute inset-0 flex items-center justify-center p-4"
@@ -282,25 +521,148 @@ export const ImageViewer = forwardRef<ImageViewerHandle, ImageViewerProps>(
                   draggable={false}
                   onLoad={handleImageLoad}
                 />
+
+                {/* Comparison overlay, sized to the base image */}
+                {overlaySrc && imageLoaded && (
+                  <img
+                    src={overlaySrc}
+                    alt={`${alt} (compare)`}
+                    className="absolute inset-0 w-full h-full object-contain select-none pointer-events-none"
+                    style={
+                      overlayMode === 'swipe'
+                        ? { clipPath: `inset(0 0 0 ${swipePosition * 100}%)` }
+                        : { opacity: overlayOpacity }
+                    }
+                    draggable={false}
+                  />
+                )}
+
+                {/* Swipe divider */}
+                {overlaySrc && imageLoaded && overlayMode === 'swipe' && (
+                  <div
+                    className="absolute inset-y-0 w-0.5 -ml-px bg-primary cursor-ew-resize z-10"
+                    style={{ left: `${swipePosition * 100}%` }}
+                    onMouseDown={(e) => {
+                      e.stopPropagation();
+                      setIsSwiping(true);
+                    }}
+                  >
+                    <div
+                      className="absolute top-1/2 left-1/2 h-7 w-7 rounded-full bg-primary text-primary-foreground flex items-center justify-center shadow-lg"
+                      style={{ transform: `translate(-50%, -50%) scale(${1 / zoom})` }}
+                    >
+                      <ChevronsLeftRight className="h-4 w-4" />
+                    </div>
+                  </div>
+                )}
+
+                {/* Reference annotations from another version */}
+                {imageLoaded && showAnnotations && referenceAnnotations.length > 0 && (
+                  <div className="absolute inset-0 pointer-events-none">
+                    <svg
+                      className="absolute inset-0 w-full h-full overflow-visible"
+                      viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+                      preserveAspectRatio="none"
+                    >
+                      {referenceAnnotations
+                        .filter(ann => ann.shape_type !== 'RECT')
+                        .map(ann => renderShape(
+                          ann,
+                          { stroke: 'stroke-amber-400', fill: 'fill-amber-400/10', solid: 'fill-amber-400' },
+                          false,
+                          true
+                        ))}
+                    </svg>
+                    {referenceAnnotations.map((ann, idx) => (
+                      <Tooltip key={`ref-${ann.id}`}>
+                        <TooltipTrigger asChild>
+                          <div
+                            className={cn(
+                              "absolute",
+                              ann.shape_type === 'RECT'
+                                ? "border-2 border-dashed border-amber-400/80 rounded-lg pointer-events-auto"
+                                : "pointer-events-none"
+                            )}
+                            style={{
+                              left: `${ann.rect.x * 100}%`,
+                              top: `${ann.rect.y * 100}%`,
+                              width: `${ann.rect.w * 100}%`,
+                              height: `${ann.rect.h * 100}%`,
+                            }}
+                          >
+                            <div
+                              className="absolute text-xs px-1.5 py-0.5 rounded font-medium bg-amber-400 text-black pointer-events-auto whitespace-nowrap"
+                              style={getMarkerPosition(ann)}
+                            >
+                              {referenceLabel ? `${referenceLabel} #${idx + 1}` : `#${idx + 1}`}
+                            </div>
+                          </div>
+                        </TooltipTrigger>
+                        <TooltipContent side="right" className="max-w-[200px]">
+                          <div className="text-xs space-y-1">
+                            <div className="font-medium">
+                              {referenceLabel ? `${referenceLabel} #${idx + 1}` : `#${idx + 1}`}
+                            </div>
+                            {ann.thread?.comments?.[0] ? (
+                              <p className="text-muted-foreground line-clamp-3">
+                                {mentionsToPlainText(ann.thread.comments[0].body)}
+                              </p>
+                            ) : (
+                              <p className="text-muted-foreground">No comment</p>
+                            )}
+                          </div>
+                        </TooltipContent>
+                      </Tooltip>
+                    ))}
+                  </div>
+                )}
                 
                 {/* Annotations Overlay */}
                 {imageLoaded && showAnnotations && (
                   <div className="absolute inset-0 pointer-events-none">
+                    <svg
+                      className="absolute inset-0 w-full h-full overflow-visible"
+                      viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+                      preserveAspectRatio="none"
+                    >
+                      {annotations
+                        .filter(ann => ann.shape_type !== 'RECT')
+                        .map(ann => {
+                          const isSelected = selectedAnnotationId === ann.id;
+                          const tone = isSelected
+                            ? { stroke: 'stroke-primary', fill: 'fill-primary/20', solid: 'fill-primary' }
+                            : ann.thread
+                              ? { stroke: 'stroke-orange-400', fill: 'fill-orange-400/10', solid: 'fill-orange-400' }
+                              : { stroke: 'stroke-muted-foreground', fill: 'fill-muted/10', solid: 'fill-muted-foreground' };
+                          return (
+                            <g key={ann.id} className={cn(flashingAnnotationId === ann.id && "animate-pulse")}>
+                              {renderShape(ann, tone, true)}
+                            </g>
+                          );
+                        })}
+                    </svg>
                     {annotations.map((ann, idx) => {
                       const isSelected = selectedAnnotationId === ann.id;
                       const isHovered = hoveredAnnotationId === ann.id;
                       const isFlashing = flashingAnnotationId === ann.id;
                       const markerPos = getMarkerPosition(ann);
                       const hasThread = !!ann.thread;
+                      // Other shapes live in the SVG layer; this box only carries the marker
+                      const isRect = ann.shape_type === 'RECT';
                       
                       return (
                         <Tooltip key={ann.id} open={isHovered && !isSelected}>
                           <TooltipTrigger asChild>
                             <div
                               className={cn(
-                                "absolute border-2 rounded-lg cursor-pointer pointer-events-auto transition-all duration-200",
-                                isFlashing && "animate-flash-highlight",
-                                isSelected
+                                "absolute",
+                                !isRect
+                                  ? "pointer-events-none"
+                                  : "border-2 rounded-lg cursor-pointer pointer-events-auto transition-all duration-200",
+                                isRect && isFlashing && "animate-flash-highlight",
+                                !isRect
+                                  ? null
+                                  : isSelected
                                   ? "border-primary bg-primary/20 shadow-lg shadow-primary/40 ring-2 ring-primary/30"
                                   : hasThread
                                     ? "border-orange-400 bg-orange-400/10 hover:bg-orange-400/20 hover:border-orange-300"
@@ -322,7 +684,7 @@ export const ImageViewer = forwardRef<ImageViewerHandle, ImageViewerProps>(
                               {/* Annotation Marker */}
                               <div 
                                 className={cn(
-                                  "absolute text-xs px-1.5 py-0.5 rounded font-medium transition-all",
+                                  "absolute text-xs px-1.5 py-0.5 rounded font-medium transition-all cursor-pointer pointer-events-auto",
                                   isSelected
                                     ? "bg-primary text-primary-foreground"
                                     : "bg-background/90 text-foreground border border-border"
@@ -333,7 +695,7 @@ export const ImageViewer = forwardRef<ImageViewerHandle, ImageViewerProps>(
                               </div>
                               
                               {/* Selection pulse animation */}
-                              {isSelected && (
+                              {isSelected && isRect && (
                                 <div className="absolute inset-0 rounded-lg animate-pulse bg-primary/10 pointer-events-none" />
                               )}
                             </div>
@@ -350,7 +712,7 @@ export const ImageViewer = forwardRef<ImageViewerHandle, ImageViewerProps>(
                               </div>
                               {ann.thread?.comments?.[0] && (
                                 <p className="text-muted-foreground line-clamp-2">
-                                  {ann.thread.comments[0].body}
+                                  {mentionsToPlainText(ann.thread.comments[0].body)}
                                 </p>
                               )}
                               {ann.created_at && (
@@ -378,18 +740,61 @@ export const ImageViewer = forwardRef<ImageViewerHandle, ImageViewerProps>(
                     }}
                   />
                 )}
+                {imageLoaded && draftPoints.length > 0 && drawTool !== 'RECT' && (
+                  <svg
+                    className="absolute inset-0 w-full h-full overflow-visible pointer-events-none"
+                    viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+                    preserveAspectRatio="none"
+                  >
+                    {renderDraft()}
+                  </svg>
+                )}
               </div>
             </div>
 
+            {/* Shape picker */}
+            {isDrawing && !readOnly && (
+              <div
+                className="absolute top-4 left-1/2 -translate-x-1/2 flex items-center gap-1 bg-background/90 backdrop-blur border border-border rounded-full px-2 py-1 shadow-lg"
+                onMouseDown={(e) => e.stopPropagation()}
+                onDoubleClick={(e) => e.stopPropagation()}
+              >
+                {(Object.keys(DRAW_TOOL_LABELS) as DrawTool[]).map(tool => {
+                  const Icon = DRAW_TOOL_ICONS[tool];
+                  return (
+                    <Tooltip key={tool}>
+                      <TooltipTrigger asChild>
+                        <Button
+                          variant={drawTool === tool ? 'default' : 'ghost'}
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => setDrawTool(tool)}
+                        >
+                          <Icon className="h-3.5 w-3.5" />
+                        </Button>
+                      </TooltipTrigger>
+                      <TooltipContent>{DRAW_TOOL_LABELS[tool]}</TooltipContent>
+                    </Tooltip>
+                  );
+                })}
+              </div>
+            )}
+
           {/* Drawing hint */}
-            {isDrawing && !drawStart && !readOnly && (
-              <div className="absolute bottom-4 left-1/2 -translate-x-1/2 text-xs text-muted-foreground bg-background/80 backdrop-blur px-3 py-1.5 rounded-full border border-border">
-                Click and drag to draw an annotation
+            {isDrawing && (draftPoints.length === 0 || drawTool === 'POLYGON') && !readOnly && (
+              <div className="absolute bottom-14 left-1/2 -translate-x-1/2 text-xs text-muted-foreground bg-background/80 backdrop-blur px-3 py-1.5 rounded-full border border-border pointer-events-none">
+                {drawTool === 'POLYGON' && draftPoints.length > 0
+                  ? 'Double-click, Enter or click the first point to finish · Esc to cancel'
+                  : DRAW_TOOL_HINTS[drawTool]}
               </div>
             )}
 
             {/* Bottom Floating Toolbar */}
-            <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-1 bg-background/90 backdrop-blur border border-border rounded-full px-2 py-1 shadow-lg">
+            <div
+              className="absolute bottom-4 left-1/2 -translate-x-1/2 flex items-center gap-1 bg-background/90 backdrop-blur border border-border rounded-full px-2 py-1 shadow-lg"
+              onMouseDown={(e) => e.stopPropagation()}
+              onDoubleClick={(e) => e.stopPropagation()}
+            >
               <Button variant="ghost" size="icon" className="h-7 w-7" onClick={handleZoomOut}>
                 <ZoomOut className="h-3.5 w-3.5" />
               </Button>
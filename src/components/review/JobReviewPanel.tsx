@@ -22,6 +22,9 @@ import {
 import { ImageViewer, ImageViewerHandle } from './ImageViewer';
 import { ThreadPanel } from './ThreadPanel';
 import { AssetThumbnails } from './AssetThumbnails';
+import { VersionCompareView } from './VersionCompareView';
+import { ExportFeedbackButton } from './ExportFeedbackButton';
+import { PermissionTooltip } from '@/components/auth/PermissionTooltip';
 import {
   useJobSubmissions,
   useSubmissionAssets,
@@ -39,8 +42,9 @@ import {
 } from '@/hooks/useReviewSystem';
 import type { AssetSlot } from '@/hooks/useReviewSystem';
 import { useJob, useJobOutputs } from '@/hooks/useJobs';
+import { useOutputPixelDiff } from '@/hooks/usePixelDiff';
 import { useAuth } from '@/contexts/AuthContext';
-import type { SubmissionAsset, AnnotationRect, SubmissionStatus, ImageAnnotation, AssetReviewStatus } from '@/types/review';
+import type { SubmissionAsset, AnnotationGeometry, SubmissionStatus, ImageAnnotation, AssetReviewStatus } from '@/types/review';
 import { supabase } from '@/integrations/supabase/client';
 import { useQueryClient } from '@tanstack/react-query';
 import { toast } from 'sonner';
@@ -50,6 +54,8 @@ import {
   AlertTriangle,
   Upload,
   Loader2,
+  GitCompare,
+  Flame,
 } from 'lucide-react';
 import { format } from 'date-fns';
 import { cn } from '@/lib/utils';
@@ -64,14 +70,19 @@ import {
 interface JobReviewPanelProps {
   jobId: string;
   onClose: () => void;
+  // Deep link focus, e.g. when opened from a notification
+  initialAssetId?: string | null;
+  initialAnnotationId?: string | null;
 }
 
-export function JobReviewPanel({ jobId, onClose }: JobReviewPanelProps) {
-  const { isInternal, user } = useAuth();
+export function JobReviewPanel({ jobId, onClose, initialAssetId, initialAnnotationId }: JobReviewPanelProps) {
+  const { isInternal, user, can } = useAuth();
   const imageViewerRef = useRef<ImageViewerHandle>(null);
   const queryClient = useQueryClient();
   const [selectedAsset, setSelectedAsset] = useState<SubmissionAsset | null>(null);
   const [viewingVersionId, setViewingVersionId] = useState<string | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [showHeatmap, setShowHeatmap] = useState(false);
   const [isDrawing, setIsDrawing] = useState(false);
   const [showAnnotations, setShowAnnotations] = useState(true);
   const [selectedAnnotationId, setSelectedAnnotationId] = useState<string | null>(null);
@@ -185,14 +196,30 @@ export function JobReviewPanel({ jobId, onClose }: JobReviewPanelProps) {
   // Auto-select first asset
   useEffect(() => {
     if (assets.length > 0 && !selectedAsset) {
-      setSelectedAsset(assets[0]);
+      setSelectedAsset(assets.find(a => a.id === initialAssetId) || assets[0]);
     } else if (assets.length > 0 && selectedAsset) {
       // Update selected asset if it's in the new list
       const updated = assets.find(a => a.id === selectedAsset.id);
       if (updated) setSelectedAsset(updated);
       else setSelectedAsset(assets[0]);
     }
-  }, [assets, selectedAsset]);
+  }, [assets, selectedAsset, initialAssetId]);
+
+  // Focus the deep-linked annotation once its thread has loaded
+  const focusedInitialAnnotationRef = useRef(false);
+  useEffect(() => {
+    if (!initialAnnotationId || focusedInitialAnnotationRef.current) return;
+    const target = allAnnotations.find(a => a.annotationId === initialAnnotationId);
+    if (!target) return;
+
+    focusedInitialAnnotationRef.current = true;
+    const targetAsset = assets.find(a => a.id === target.assetId);
+    if (targetAsset) setSelectedAsset(targetAsset);
+    setSelectedAnnotationId(initialAnnotationId);
+    setTimeout(() => {
+      imageViewerRef.current?.scrollToAnnotation(initialAnnotationId);
+    }, 100);
+  }, [initialAnnotationId, allAnnotations, assets]);
 
   // Calculate annotation counts per asset (including historical versions)
   const annotationCounts = useMemo(() => {
@@ -213,13 +240,26 @@ export function JobReviewPanel({ jobId, onClose }: JobReviewPanelProps) {
   // Check if viewing a historical version
   const isViewingHistoricalVersion = viewingVersionId !== null;
 
-  const handleAnnotationCreate = useCallback(async (rect: AnnotationRect) => {
+  // Version compare needs the selected slot to have at least one earlier version
+  const selectedSlot = assetSlots.find(slot => slot.current.id === selectedAsset?.id) || null;
+  const canCompare = !!selectedSlot && selectedSlot.history.length > 0;
+  const showCompare = isComparing && canCompare;
+
+  // Face replace outputs are diffed against the original look to catch edits outside the head
+  const isFaceReplaceJob = job?.type === 'FOUNDATION_FACE_REPLACE';
+  const {
+    data: pixelDiff,
+    isLoading: pixelDiffLoading,
+    error: pixelDiffError,
+  } = useOutputPixelDiff(jobId, selectedAsset, isFaceReplaceJob && isInternal);
+
+  const handleAnnotationCreate = useCallback(async (geometry: AnnotationGeometry) => {
     if (!selectedAsset || !latestSubmission) return;
     
     try {
       const result = await createAnnotation.mutateAsync({
         assetId: selectedAsset.id,
-        rect,
+        geometry,
         submissionId: latestSubmission.id,
       });
       const newAnnotationId = result.annotation.id;
@@ -273,7 +313,7 @@ export function JobReviewPanel({ jobId, onClose }: JobReviewPanelProps) {
           type: 'CHANGES_REQUESTED',
           jobId,
           submissionId: latestSubmission.id,
-          metadata: { assetLabel: selectedAsset.label },
+          metadata: { assetLabel: selectedAsset.label, assetId: selectedAsset.id },
         });
       }
 
@@ -675,6 +715,85 @@ export function JobReviewPanel({ jobId, onClose }: JobReviewPanelProps) {
           </div>
 
           <div className="flex items-center gap-3">
+            {/* Annotated feedback download for offline work */}
+            <ExportFeedbackButton
+              assets={assets}
+              threads={threads}
+              title={`${job?.title || `Job ${jobId.slice(0, 8)}`} feedback`}
+            />
+
+            {/* Version compare toggle */}
+            {canCompare && (
+              <Button
+                variant={showCompare ? 'secondary' : 'outline'}
+                size="sm"
+                className="gap-1.5"
+                onClick={() => setIsComparing(!isComparing)}
+              >
+                <GitCompare className="h-4 w-4" />
+                Compare
+              </Button>
+            )}
+
+            {/* Pixel diff against the original look */}
+            {isFaceReplaceJob && isInternal && selectedAsset && !showCompare && (
+              <>
+                {pixelDiffLoading ? (
+                  <Badge variant="outline" className="gap-1 text-muted-foreground">
+                    <Loader2 className="h-3 w-3 animate-spin" />
+                    Checking diff
+                  </Badge>
+                ) : pixelDiffError ? (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Badge variant="outline" className="text-muted-foreground">
+                        Diff unavailable
+                      </Badge>
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      {pixelDiffError instanceof Error ? pixelDiffError.message : 'Could not compare with the original'}
+                    </TooltipContent>
+                  </Tooltip>
+                ) : pixelDiff ? (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Badge
+                        variant="outline"
+                        className={pixelDiff.verdict === 'pass'
+                          ? 'bg-green-500/20 text-green-400 border-green-500/30 gap-1'
+                          : 'bg-amber-500/20 text-amber-300 border-amber-500/30 gap-1'}
+                      >
+                        {pixelDiff.verdict === 'pass' ? <Check className="h-3 w-3" /> : <AlertTriangle className="h-3 w-3" />}
+                        {pixelDiff.verdict === 'pass' ? 'Diff pass' : 'Diff warn'}
+                      </Badge>
+                    </TooltipTrigger>
+                    <TooltipContent className="max-w-[260px]">
+                      <div className="text-xs space-y-1">
+                        <p>
+                          {(pixelDiff.changedOutsideHead * 100).toFixed(1)}% changed outside the head,{' '}
+                          {(pixelDiff.changedInsideHead * 100).toFixed(1)}% inside
+                        </p>
+                        {pixelDiff.reasons.map(reason => (
+                          <p key={reason} className="text-amber-300">{reason}</p>
+                        ))}
+                      </div>
+                    </TooltipContent>
+                  </Tooltip>
+                ) : null}
+                {pixelDiff && (
+                  <Button
+                    variant={showHeatmap ? 'secondary' : 'outline'}
+                    size="sm"
+                    className="gap-1.5"
+                    onClick={() => setShowHeatmap(!showHeatmap)}
+                  >
+                    <Flame className="h-4 w-4" />
+                    Heatmap
+                  </Button>
+                )}
+              </>
+            )}
+
             {/* Historical version indicator */}
             {isViewingHistoricalVersion && (
               <Badge variant="outline" className="bg-amber-500/20 text-amber-300 border-amber-500/30">
@@ -714,16 +833,18 @@ export function JobReviewPanel({ jobId, onClose }: JobReviewPanelProps) {
                   <AlertTriangle className="h-4 w-4" />
                   Request Changes
                 </Button>
-                <Button
-                  size="sm"
-                  variant="glow"
-                  onClick={() => setShowApproveDialog(true)}
-                  className="gap-1"
-                  disabled={updateAssetStatus.isPending}
-                >
-                  <Check className="h-4 w-4" />
-                  Approve
-                </Button>
+                <PermissionTooltip permission="jobs.approve">
+                  <Button
+                    size="sm"
+                    variant="glow"
+                    onClick={() => setShowApproveDialog(true)}
+                    className="gap-1"
+                    disabled={updateAssetStatus.isPending || !can('jobs.approve')}
+                  >
+                    <Check className="h-4 w-4" />
+                    Approve
+                  </Button>
+                </PermissionTooltip>
                 
                 {/* Replace button for assets needing changes */}
                 {selectedAsset.review_status === 'CHANGES_REQUESTED' && (
@@ -860,7 +981,13 @@ export function JobReviewPanel({ jobId, onClose }: JobReviewPanelProps) {
           {/* Center: Image Viewer */}
           <div className="flex-1 flex flex-col min-w-0">
             {/* Image Viewer - removed redundant asset navigation bar */}
-            {selectedAsset?.file_url ? (
+            {showCompare && selectedSlot ? (
+              <VersionCompareView
+                slot={selectedSlot}
+                threads={threads}
+                onClose={() => setIsComparing(false)}
+              />
+            ) : selectedAsset?.file_url ? (
               <ImageViewer
                 ref={imageViewerRef}
                 src={fixBrokenStorageUrl(selectedAsset.file_url)}
@@ -872,6 +999,8 @@ export function JobReviewPanel({ jobId, onClose }: JobReviewPanelProps) {
                 isDrawing={isDrawing}
                 showAnnotations={showAnnotations}
                 onToggleAnnotations={() => setShowAnnotations(!showAnnotations)}
+                overlaySrc={showHeatmap && pixelDiff ? pixelDiff.heatmapUrl : undefined}
+                overlayOpacity={0.85}
                 className="flex-1"
               />
             ) : (
@@ -0,0 +1,140 @@
+import React, { forwardRef, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Textarea, type TextareaProps } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { cn } from '@/lib/utils';
+import { getActiveMentionQuery } from '@/lib/mentions';
+import type { MentionCandidate } from '@/types/review';
+
+const MAX_SUGGESTIONS = 6;
+
+interface MentionTextareaProps extends Omit<TextareaProps, 'value' | 'onChange'> {
+  value: string;
+  onValueChange: (value: string) => void;
+  candidates: MentionCandidate[];
+  onMentionPick: (candidate: MentionCandidate) => void;
+  // Shown under the list when freelancers are hidden for an internal comment
+  freelancersHidden?: boolean;
+}
+
+export const MentionTextarea = forwardRef<HTMLTextAreaElement, MentionTextareaProps>(
+  ({ value, onValueChange, candidates, onMentionPick, freelancersHidden = false, onKeyDown, className, ...props }, ref) => {
+    const innerRef = useRef<HTMLTextAreaElement>(null);
+    const [activeQuery, setActiveQuery] = useState<{ query: string; start: number } | null>(null);
+    const [highlightIndex, setHighlightIndex] = useState(0);
+
+    useImperativeHandle(ref, () => innerRef.current as HTMLTextAreaElement);
+
+    const suggestions = useMemo(() => {
+      if (!activeQuery) return [];
+      const query = activeQuery.query.toLowerCase();
+      return candidates
+        .filter(c => c.name.toLowerCase().includes(query) || c.detail?.toLowerCase().includes(query))
+        .slice(0, MAX_SUGGESTIONS);
+    }, [activeQuery, candidates]);
+
+    const isOpen = !!activeQuery && suggestions.length > 0;
+
+    const refreshQuery = (text: string, caret: number) => {
+      setActiveQuery(getActiveMentionQuery(text, caret));
+      setHighlightIndex(0);
+    };
+
+    const pick = (candidate: MentionCandidate) => {
+      const textarea = innerRef.current;
+      if (!textarea || !activeQuery) return;
+
+      const caret = textarea.selectionStart;
+      const inserted = `@${candidate.name} `;
+      const next = value.slice(0, activeQuery.start) + inserted + value.slice(caret);
+      onValueChange(next);
+      onMentionPick(candidate);
+      setActiveQuery(null);
+
+      // Put the caret after the inserted mention once React has re-rendered
+      const nextCaret = activeQuery.start + inserted.length;
+      requestAnimationFrame(() => {
+        textarea.focus();
+        textarea.setSelectionRange(nextCaret, nextCaret);
+      });
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+      if (isOpen) {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+          e.preventDefault();
+          const step = e.key === 'ArrowDown' ? 1 : -1;
+          setHighlightIndex(i => (i + step + suggestions.length) % suggestions.length);
+          return;
+        }
+        if ((e.key === 'Enter' && !e.metaKey && !e.ctrlKey) || e.key === 'Tab') {
+          e.preventDefault();
+          pick(suggestions[highlightIndex]);
+          return;
+        }
+        if (e.key === 'Escape') {
+          e.preventDefault();
+          e.stopPropagation();
+          setActiveQuery(null);
+          return;
+        }
+      }
+      onKeyDown?.(e);
+    };
+
+    return (
+      <div className="relative flex-1">
+        {isOpen && (
+          <div className="absolute bottom-full left-0 right-0 mb-1 z-50 rounded-md border border-border bg-popover shadow-md py-1">
+            {suggestions.map((candidate, index) => (
+              <button
+                key={`${candidate.kind}-${candidate.id}`}
+                type="button"
+                className={cn(
+                  "w-full flex items-center gap-2 px-2 py-1.5 text-left text-sm",
+                  index === highlightIndex ? "bg-muted" : "hover:bg-muted/50"
+                )}
+                onMouseDown={(e) => {
+                  // Keep focus in the textarea
+                  e.preventDefault();
+                  pick(candidate);
+                }}
+                onMouseEnter={() => setHighlightIndex(index)}
+              >
+                <Avatar className="h-5 w-5 shrink-0">
+                  <AvatarFallback className="text-[9px]">
+                    {candidate.name.slice(0, 2).toUpperCase()}
+                  </AvatarFallback>
+                </Avatar>
+                <span className="truncate">{candidate.name}</span>
+                {candidate.detail && (
+                  <span className="ml-auto text-[10px] text-muted-foreground truncate">{candidate.detail}</span>
+                )}
+              </button>
+            ))}
+            {freelancersHidden && (
+              <p className="flex items-center gap-1 px-2 pt-1 text-[10px] text-muted-foreground border-t border-border mt-1">
+                <Lock className="h-2.5 w-2.5" />
+                Freelancers can't be mentioned in internal comments
+              </p>
+            )}
+          </div>
+        )}
+        <Textarea
+          ref={innerRef}
+          value={value}
+          onChange={(e) => {
+            onValueChange(e.target.value);
+            refreshQuery(e.target.value, e.target.selectionStart);
+          }}
+          onClick={(e) => refreshQuery(value, e.currentTarget.selectionStart)}
+          onBlur={() => setActiveQuery(null)}
+          onKeyDown={handleKeyDown}
+          className={cn("w-full", className)}
+          {...props}
+        />
+      </div>
+    );
+  }
+);
+MentionTextarea.displayName = 'MentionTextarea';
@@ -1,6 +1,5 @@
 import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
 import { Button } from '@/components/ui/button';
-import { Textarea } from '@/components/ui/textarea';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
@@ -17,8 +16,11 @@ import {
   X,
 } from 'lucide-react';
 import { format } from 'date-fns';
-import type { ReviewThread, ReviewComment, ImageAnnotation, ThreadScope } from '@/types/review';
-import { useAddComment, useCreateThread } from '@/hooks/useReviewSystem';
+import type { ReviewThread, ReviewComment, ImageAnnotation, ThreadScope, MentionCandidate } from '@/types/review';
+import { useAddComment, useCreateThread, useMentionCandidates } from '@/hooks/useReviewSystem';
+import { encodeMentions } from '@/lib/mentions';
+import { MentionTextarea } from './MentionTextarea';
+import { CommentBody } from './CommentBody';
 import { useAuth } from '@/contexts/AuthContext';
 import { cn } from '@/lib/utils';
 import { supabase } from '@/integrations/supabase/client';
@@ -59,6 +61,7 @@ export function ThreadPanel({
 }: ThreadPanelProps) {
   const { user } = useAuth();
   const [newComment, setNewComment] = useState('');
+  const [pickedMentions, setPickedMentions] = useState<MentionCandidate[]>([]);
   const [isInternalOnly, setIsInternalOnly] = useState(false);
   const [commentMode, setCommentMode] = useState<CommentMode>('annotate');
   const [pendingAttachment, setPendingAttachment] = useState<File | null>(null);
@@ -70,6 +73,20 @@ export function ThreadPanel({
 
   const addComment = useAddComment();
   const createThread = useCreateThread();
+  const { data: mentionCandidates = [] } = useMentionCandidates(submissionId);
+
+  // Freelancers must never be pulled into an internal-only comment
+  const isInternalOnlyComment = isInternal && isInternalOnly;
+  const availableMentions = useMemo(
+    () => isInternalOnlyComment ? mentionCandidates.filter(c => c.kind === 'user') : mentionCandidates,
+    [mentionCandidates, isInternalOnlyComment]
+  );
+
+  const handleMentionPick = useCallback((candidate: MentionCandidate) => {
+    setPickedMentions(prev =>
+      prev.some(m => m.kind === candidate.kind && m.id === candidate.id) ? prev : [...prev, candidate]
+    );
+  }, []);
 
   // Build a flat list of all comments with annotation context (Frame.io style)
   // For non-internal users, only show SHARED comments
@@ -233,14 +250,19 @@ export function ThreadPanel({
         return;
       }
 
+      const mentions = isInternalOnlyComment
+        ? pickedMentions.filter(m => m.kind === 'user')
+        : pickedMentions;
+
       await addComment.mutateAsync({
         threadId,
-        body: newComment.trim() || (pendingAttachment ? '(image attached)' : ''),
-        visibility: isInternal && isInternalOnly ? 'INTERNAL_ONLY' : 'SHARED',
+        body: encodeMentions(newComment.trim(), mentions) || (pendingAttachment ? '(image attached)' : ''),
+        visibility: isInternalOnlyComment ? 'INTERNAL_ONLY' : 'SHARED',
         attachmentUrl,
       });
 
       setNewComment('');
+      setPickedMentions([]);
       clearAttachment();
       toast.success('Comment sent');
     } catch (error) {
@@ -373,9 +395,7 @@ export function ThreadPanel({
                   </div>
                   
                   {/* Comment body */}
-                  <p className="text-sm mt-1.5 pl-8 text-foreground/90">
-                    {comment.body}
-                  </p>
+                  <CommentBody body={comment.body} className="text-sm mt-1.5 pl-8 text-foreground/90" />
                   
                   {/* Attachment image */}
                   {comment.attachment_url && (
@@ -466,8 +486,11 @@ export function ThreadPanel({
             )}
             
             <div className="flex gap-2 items-end">
-              <Textarea
+              <MentionTextarea
                 ref={textareaRef}
+                candidates={availableMentions}
+                onMentionPick={handleMentionPick}
+                freelancersHidden={isInternalOnlyComment && availableMentions.length < mentionCandidates.length}
                 placeholder={
                   commentMode === 'annotate'
                     ? isDrawing 
@@ -480,10 +503,10 @@ export function ThreadPanel({
                     : "Add a general comment..."
                 }
                 value={newComment}
-                onChange={(e) => setNewComment(e.target.value)}
+                onValueChange={setNewComment}
                 onPaste={handlePaste}
                 className={cn(
-                  "min-h-[60px] text-sm resize-none flex-1",
+                  "min-h-[60px] text-sm resize-none",
                   pendingAnnotationId === selectedAnnotationId && "ring-2 ring-primary/50"
                 )}
                 onKeyDown={(e) => {
@@ -539,11 +562,11 @@ export function ThreadPanel({
             <p className="text-[10px] text-muted-foreground">
               {commentMode === 'annotate' 
                 ? isDrawing 
-                  ? 'Click & drag on image to draw' 
+                  ? 'Pick a shape and draw on the image' 
                   : selectedAnnotationId 
-                    ? '⌘+Enter to send • Paste images with ⌘+V' 
+                    ? '⌘+Enter to send • @ to mention • Paste images' 
                     : 'Press D to draw'
-                : '⌘+Enter to send • Paste images with ⌘+V'
+                : '⌘+Enter to send • @ to mention • Paste images'
               }
             </p>
           </>
@@ -0,0 +1,246 @@
+import { useState, useMemo, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Columns2, Layers, SquareSplitHorizontal, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { ImageViewer, type ImageViewState } from './ImageViewer';
+import { useAssetAnnotations, useReviewThreads } from '@/hooks/useReviewSystem';
+import type { AssetSlot } from '@/hooks/useReviewSystem';
+import type { ReviewThread, SubmissionAsset } from '@/types/review';
+import { fixBrokenStorageUrl } from '@/lib/fileUtils';
+
+type CompareMode = 'side-by-side' | 'onion' | 'swipe';
+
+interface VersionCompareViewProps {
+  slot: AssetSlot;
+  // Threads already loaded by the panel; the older version's own submission is fetched too
+  threads: ReviewThread[];
+  onClose: () => void;
+  // Freelancer views must not surface internal-only comments
+  sharedOnly?: boolean;
+}
+
+const noop = () => {};
+
+/**
+ * Compares two versions of one asset slot. Side-by-side keeps both viewers on
+ * the same zoom/pan; onion and swipe layer the newer version over the older.
+ * The older version's annotations are outlined on the newer image so each
+ * requested change can be checked off.
+ */
+export function VersionCompareView({ slot, threads, onClose, sharedOnly = false }: VersionCompareViewProps) {
+  // Oldest first so V1 is the original upload
+  const versions = useMemo(
+    () => [...slot.history].reverse().concat(slot.current),
+    [slot]
+  );
+
+  // Default pair: the latest version against the one before it
+  const currentId = slot.current.id;
+  const defaultBeforeId = versions[versions.length - 2]?.id ?? currentId;
+
+  const [mode, setMode] = useState<CompareMode>('side-by-side');
+  const [beforeId, setBeforeId] = useState(defaultBeforeId);
+  const [afterId, setAfterId] = useState(currentId);
+  const [opacity, setOpacity] = useState(0.5);
+  const [swipePosition, setSwipePosition] = useState(0.5);
+  const [viewState, setViewState] = useState<ImageViewState>({ zoom: 1, pan: { x: 0, y: 0 } });
+  const [showAnnotations, setShowAnnotations] = useState(true);
+
+  // Reset the pair when switching to another slot or a new version lands
+  useEffect(() => {
+    setBeforeId(defaultBeforeId);
+    setAfterId(currentId);
+  }, [defaultBeforeId, currentId]);
+
+  const versionLabel = (asset: SubmissionAsset) => `V${versions.findIndex(v => v.id === asset.id) + 1}`;
+
+  // Always show the older pick on the left/bottom regardless of selection order
+  const picked = [beforeId, afterId]
+    .map(id => versions.find(v => v.id === id))
+    .filter((v): v is SubmissionAsset => !!v)
+    .sort((a, b) => versions.indexOf(a) - versions.indexOf(b));
+  const older = picked[0] ?? slot.current;
+  const newer = picked[1] ?? older;
+
+  const { data: olderAnnotations = [] } = useAssetAnnotations(older.id);
+  const { data: olderThreads = [] } = useReviewThreads(older.submission_id);
+
+  const referenceAnnotations = useMemo(() => {
+    const allThreads = [...olderThreads, ...threads];
+    return olderAnnotations.map(ann => {
+      const thread = ann.thread ?? allThreads.find(t => t.annotation_id === ann.id);
+      return {
+        ...ann,
+        thread: thread && sharedOnly
+          ? { ...thread, comments: thread.comments?.filter(c => c.visibility === 'SHARED') }
+          : thread,
+      };
+    });
+  }, [olderAnnotations, olderThreads, threads, sharedOnly]);
+
+  const olderSrc = fixBrokenStorageUrl(older.file_url || '');
+  const newerSrc = fixBrokenStorageUrl(newer.file_url || '');
+  const olderLabel = versionLabel(older);
+
+  const renderVersionSelect = (value: string, onChange: (id: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="h-7 w-[150px] text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map(version => (
+          <SelectItem key={version.id} value={version.id} className="text-xs">
+            {versionLabel(version)}
+            {version.id === slot.current.id ? ' (current)' : ''}
+            <span className="text-muted-foreground ml-1">
+              {format(new Date(version.created_at), 'MMM d')}
+            </span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const sharedViewerProps = {
+    annotations: [],
+    selectedAnnotationId: null,
+    onAnnotationClick: noop,
+    onAnnotationCreate: noop,
+    isDrawing: false,
+    showAnnotations,
+    onToggleAnnotations: () => setShowAnnotations(!showAnnotations),
+    readOnly: true,
+    viewState,
+    onViewStateChange: setViewState,
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      {/* Compare Toolbar */}
+      <div className="h-11 border-b border-border bg-card/50 px-3 flex items-center gap-3 shrink-0">
+        <ToggleGroup
+          type="single"
+          value={mode}
+          onValueChange={(value) => value && setMode(value as CompareMode)}
+          size="sm"
+          className="h-7"
+        >
+          <ToggleGroupItem value="side-by-side" className="text-xs h-7 px-2 gap-1">
+            <Columns2 className="h-3 w-3" />
+            Side by side
+          </ToggleGroupItem>
+          <ToggleGroupItem value="onion" className="text-xs h-7 px-2 gap-1">
+            <Layers className="h-3 w-3" />
+            Onion skin
+          </ToggleGroupItem>
+          <ToggleGroupItem value="swipe" className="text-xs h-7 px-2 gap-1">
+            <SquareSplitHorizontal className="h-3 w-3" />
+            Swipe
+          </ToggleGroupItem>
+        </ToggleGroup>
+
+        <div className="h-4 w-px bg-border" />
+
+        <div className="flex items-center gap-2">
+          {renderVersionSelect(beforeId, setBeforeId)}
+          <span className="text-xs text-muted-foreground">vs</span>
+          {renderVersionSelect(afterId, setAfterId)}
+        </div>
+
+        {mode === 'onion' && (
+          <>
+            <div className="h-4 w-px bg-border" />
+            <div className="flex items-center gap-2 w-48">
+              <span className="text-xs text-muted-foreground">{olderLabel}</span>
+              <Slider
+                value={[opacity * 100]}
+                onValueChange={([value]) => setOpacity(value / 100)}
+                max={100}
+                step={1}
+              />
+              <span className="text-xs text-muted-foreground">{versionLabel(newer)}</span>
+            </div>
+          </>
+        )}
+
+        {referenceAnnotations.length > 0 && (
+          <span className="text-xs text-amber-400">
+            {referenceAnnotations.length} {olderLabel} annotation{referenceAnnotations.length !== 1 ? 's' : ''} overlaid
+          </span>
+        )}
+
+        <Button variant="ghost" size="sm" className="ml-auto h-7 gap-1 text-xs" onClick={onClose}>
+          <X className="h-3.5 w-3.5" />
+          Exit compare
+        </Button>
+      </div>
+
+      {/* Viewers */}
+      {mode === 'side-by-side' ? (
+        <div className="flex-1 flex min-h-0">
+          <div className="flex-1 flex flex-col min-w-0 border-r border-border relative">
+            <span className="absolute top-2 left-2 z-10 text-xs px-2 py-0.5 rounded bg-background/90 border border-border">
+              {olderLabel}
+            </span>
+            <ImageViewer
+              {...sharedViewerProps}
+              src={olderSrc}
+              alt={`${older.label || 'Asset'} ${olderLabel}`}
+              referenceAnnotations={referenceAnnotations}
+              referenceLabel={olderLabel}
+              className="flex-1"
+            />
+          </div>
+          <div className="flex-1 flex flex-col min-w-0 relative">
+            <span className="absolute top-2 left-2 z-10 text-xs px-2 py-0.5 rounded bg-background/90 border border-border">
+              {versionLabel(newer)}
+            </span>
+            <ImageViewer
+              {...sharedViewerProps}
+              src={newerSrc}
+              alt={`${newer.label || 'Asset'} ${versionLabel(newer)}`}
+              referenceAnnotations={referenceAnnotations}
+              referenceLabel={olderLabel}
+              className="flex-1"
+            />
+          </div>
+        </div>
+      ) : (
+        <div className="flex-1 flex flex-col min-h-0 relative">
+          {mode === 'swipe' && (
+            <div className="absolute top-2 inset-x-2 z-10 flex justify-between pointer-events-none">
+              <span className="text-xs px-2 py-0.5 rounded bg-background/90 border border-border">
+                {olderLabel}
+              </span>
+              <span className="text-xs px-2 py-0.5 rounded bg-background/90 border border-border">
+                {versionLabel(newer)}
+              </span>
+            </div>
+          )}
+          <ImageViewer
+            {...sharedViewerProps}
+            src={olderSrc}
+            alt={`${older.label || 'Asset'} ${olderLabel}`}
+            overlaySrc={newerSrc}
+            overlayMode={mode}
+            overlayOpacity={opacity}
+            swipePosition={swipePosition}
+            onSwipePositionChange={setSwipePosition}
+            referenceAnnotations={referenceAnnotations}
+            referenceLabel={olderLabel}
+            className="flex-1"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,8 @@
 export { JobReviewPanel } from './JobReviewPanel';
 export { ImageViewer } from './ImageViewer';
+export { VersionCompareView } from './VersionCompareView';
 export { ThreadPanel } from './ThreadPanel';
 export { AssetThumbnails } from './AssetThumbnails';
+export { MentionTextarea } from './MentionTextarea';
+export { CommentBody } from './CommentBody';
+export { ExportFeedbackButton } from './ExportFeedbackButton';
@@ -0,0 +1,242 @@
+import { useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2, AlertCircle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  ImportFieldRule,
+  ImportProfile,
+  ImportProfileView,
+  IMPORT_PROFILE_VIEWS,
+  parseWithProfile,
+  validateImportProfile,
+} from "@/lib/importProfiles";
+
+const PREVIEW_LIMIT = 12;
+
+interface ImportProfileEditorProps {
+  value: ImportProfile;
+  onChange: (profile: ImportProfile) => void;
+  /** Relative paths of the files being imported, used for the live preview */
+  samplePaths: string[];
+}
+
+function defaultRule(type: ImportFieldRule['type']): ImportFieldRule {
+  switch (type) {
+    case 'regex':
+      return { type: 'regex', pattern: '' };
+    case 'token':
+      return { type: 'token', separator: '_', index: 0 };
+    case 'folder':
+      return { type: 'folder', depth: 0 };
+  }
+}
+
+interface FieldRuleEditorProps {
+  label: string;
+  rule: ImportFieldRule | null;
+  onChange: (rule: ImportFieldRule | null) => void;
+  allowNone?: boolean;
+}
+
+function FieldRuleEditor({ label, rule, onChange, allowNone }: FieldRuleEditorProps) {
+  return (
+    <div className="space-y-1.5">
+      <Label className="text-xs">{label}</Label>
+      <div className="flex items-center gap-2">
+        <Select
+          value={rule?.type ?? 'none'}
+          onValueChange={(type) => onChange(type === 'none' ? null : defaultRule(type as ImportFieldRule['type']))}
+        >
+          <SelectTrigger className="w-32 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {allowNone && <SelectItem value="none">None</SelectItem>}
+            <SelectItem value="regex">Regex</SelectItem>
+            <SelectItem value="token">Token</SelectItem>
+            <SelectItem value="folder">Folder</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {rule?.type === 'regex' && (
+          <>
+            <Input
+              value={rule.pattern}
+              onChange={(e) => onChange({ ...rule, pattern: e.target.value })}
+              placeholder="e.g. ^([A-Z0-9]+)_"
+              className="h-8 text-xs font-mono flex-1"
+            />
+            <Input
+              type="number"
+              min={0}
+              value={rule.group ?? 0}
+              onChange={(e) => onChange({ ...rule, group: parseInt(e.target.value) || 0 })}
+              className="h-8 text-xs w-16"
+              title="Capture group"
+            />
+          </>
+        )}
+
+        {rule?.type === 'token' && (
+          <>
+            <Input
+              value={rule.separator}
+              onChange={(e) => onChange({ ...rule, separator: e.target.value })}
+              placeholder="_"
+              className="h-8 text-xs font-mono w-16"
+              title="Separator"
+            />
+            <Input
+              type="number"
+              value={rule.index}
+              onChange={(e) => onChange({ ...rule, index: parseInt(e.target.value) || 0 })}
+              className="h-8 text-xs w-16"
+              title="Token index (negative counts from the end)"
+            />
+            <span className="text-xs text-muted-foreground">separator · index</span>
+          </>
+        )}
+
+        {rule?.type === 'folder' && (
+          <>
+            <Input
+              type="number"
+              min={0}
+              value={rule.depth}
+              onChange={(e) => onChange({ ...rule, depth: Math.max(0, parseInt(e.target.value) || 0) })}
+              className="h-8 text-xs w-16"
+              title="Folder depth"
+            />
+            <span className="text-xs text-muted-foreground">0 = containing folder</span>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function ImportProfileEditor({ value, onChange, samplePaths }: ImportProfileEditorProps) {
+  const validationError = validateImportProfile(value);
+
+  const preview = useMemo(() => {
+    if (validationError) return [];
+    return samplePaths.slice(0, PREVIEW_LIMIT).map(path => ({
+      path,
+      ...parseWithProfile(path, value),
+    }));
+  }, [samplePaths, value, validationError]);
+
+  const updateView = (index: number, updates: Partial<{ view: ImportProfileView; pattern: string }>) => {
+    onChange({
+      ...value,
+      views: value.views.map((rule, i) => (i === index ? { ...rule, ...updates } : rule)),
+    });
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      <div className="space-y-3">
+        <FieldRuleEditor
+          label="Look key"
+          rule={value.lookKey}
+          onChange={(rule) => rule && onChange({ ...value, lookKey: rule })}
+        />
+        <FieldRuleEditor
+          label="Sequence"
+          rule={value.sequence ?? null}
+          onChange={(rule) => onChange({ ...value, sequence: rule })}
+          allowNone
+        />
+
+        <div className="space-y-1.5">
+          <div className="flex items-center justify-between">
+            <Label className="text-xs">Views (first match wins)</Label>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-6 px-2 text-xs"
+              onClick={() => onChange({ ...value, views: [...value.views, { view: 'front', pattern: '' }] })}
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              Add
+            </Button>
+          </div>
+          {value.views.map((rule, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <Select
+                value={rule.view}
+                onValueChange={(view) => updateView(index, { view: view as ImportProfileView })}
+              >
+                <SelectTrigger className="w-32 h-8 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {IMPORT_PROFILE_VIEWS.map(view => (
+                    <SelectItem key={view} value={view}>{view.replace('_', ' ')}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                value={rule.pattern}
+                onChange={(e) => updateView(index, { pattern: e.target.value })}
+                placeholder="e.g. _F$"
+                className="h-8 text-xs font-mono flex-1"
+              />
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8"
+                onClick={() => onChange({ ...value, views: value.views.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1.5 min-w-0">
+        <Label className="text-xs">Preview</Label>
+        {validationError ? (
+          <div className="flex items-center gap-2 text-xs text-destructive border rounded-lg p-3">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            {validationError}
+          </div>
+        ) : (
+          <ScrollArea className="border rounded-lg h-56">
+            <div className="p-2 space-y-1">
+              {preview.map(({ path, lookKey, view, sequence }) => (
+                <div key={path} className="flex items-center gap-2 text-xs">
+                  <span className="truncate flex-1 font-mono" title={path}>{path}</span>
+                  <Badge variant="outline" className={cn("text-[10px]", !lookKey && "border-orange-300 text-orange-700")}>
+                    {lookKey || 'no key'}
+                  </Badge>
+                  <Badge variant="secondary" className={cn("text-[10px]", !view && "bg-orange-100 text-orange-700")}>
+                    {view || 'unassigned'}
+                  </Badge>
+                  {sequence && <span className="text-muted-foreground">#{sequence}</span>}
+                </div>
+              ))}
+              {samplePaths.length > PREVIEW_LIMIT && (
+                <p className="text-xs text-muted-foreground pt-1">
+                  +{samplePaths.length - PREVIEW_LIMIT} more files
+                </p>
+              )}
+            </div>
+          </ScrollArea>
+        )}
+      </div>
+    </div>
+  );
+}
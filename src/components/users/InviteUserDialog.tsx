@@ -20,7 +20,12 @@ import {
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { Copy, Check, Mail } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
 import { AppRole } from "@/hooks/useUsers";
+import { useUnlinkedFreelancerIdentities } from "@/hooks/useInvites";
+import { generateInvitePin, getFreelancerInviteLink } from "@/lib/freelancerInvites";
+
+const NEW_FREELANCER = "new";
 
 interface InviteUserDialogProps {
   open: boolean;
@@ -30,10 +35,16 @@ interface InviteUserDialogProps {
 export function InviteUserDialog({ open, onOpenChange }: InviteUserDialogProps) {
   const [email, setEmail] = useState("");
   const [role, setRole] = useState<AppRole>("freelancer");
+  const [requirePin, setRequirePin] = useState(true);
+  const [identityId, setIdentityId] = useState(NEW_FREELANCER);
   const [isCreating, setIsCreating] = useState(false);
   const [inviteLink, setInviteLink] = useState<string | null>(null);
+  const [invitePin, setInvitePin] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
 
+  const isFreelancer = role === "freelancer";
+  const { data: unlinkedIdentities = [] } = useUnlinkedFreelancerIdentities(open && isFreelancer);
+
   const generateToken = () => {
     return crypto.randomUUID().replace(/-/g, "").slice(0, 24);
   };
@@ -47,6 +58,7 @@ export function InviteUserDialog({ open, onOpenChange }: InviteUserDialogProps)
       const token = generateToken();
       const expiresAt = new Date();
       expiresAt.setDate(expiresAt.getDate() + 7); // 7 days
+      const pin = isFreelancer && requirePin ? generateInvitePin() : null;
 
       const { error } = await supabase.from("invites").insert({
         token,
@@ -54,12 +66,16 @@ export function InviteUserDialog({ open, onOpenChange }: InviteUserDialogProps)
         email: email || null,
         expires_at: expiresAt.toISOString(),
         created_by: user.id,
+        pin_code: pin,
+        freelancer_identity_id: isFreelancer && identityId !== NEW_FREELANCER ? identityId : null,
       });
 
       if (error) throw error;
 
-      const link = `${window.location.origin}/auth?invite=${token}`;
+      // Freelancers redeem invites through the freelancer portal, not staff signup
+      const link = isFreelancer ? getFreelancerInviteLink(token) : `${window.location.origin}/auth?invite=${token}`;
       setInviteLink(link);
+      setInvitePin(pin);
       toast.success("Invite created successfully");
     } catch (error: any) {
       toast.error(`Failed to create invite: ${error.message}`);
@@ -89,6 +105,7 @@ export function InviteUserDialog({ open, onOpenChange }: InviteUserDialogProps)
       `You've been invited to join Leapfrog as a ${roleName}.\n\n` +
       `Click the link below to create your account:\n` +
       `${inviteLink}\n\n` +
+      (invitePin ? `You'll also need the PIN we'll send you separately.\n\n` : '') +
       `This link will expire in 7 days.\n\n` +
       `If you have any questions, please reply to this email.\n\n` +
       `Best regards,\nThe Leapfrog Team`
@@ -102,7 +119,10 @@ export function InviteUserDialog({ open, onOpenChange }: InviteUserDialogProps)
     onOpenChange(false);
     setEmail("");
     setRole("freelancer");
+    setRequirePin(true);
+    setIdentityId(NEW_FREELANCER);
     setInviteLink(null);
+    setInvitePin(null);
     setCopied(false);
   };
 
@@ -142,6 +162,15 @@ export function InviteUserDialog({ open, onOpenChange }: InviteUserDialogProps)
                 This link expires in 7 days.
               </p>
             </div>
+            {invitePin && (
+              <div className="space-y-2">
+                <Label>PIN</Label>
+                <p className="font-mono text-2xl tracking-[0.4em]">{invitePin}</p>
+                <p className="text-xs text-muted-foreground">
+                  Share the PIN separately from the link (e.g. by phone or chat). It isn't shown again.
+                </p>
+              </div>
+            )}
           </div>
         ) : (
           <div className="space-y-4 py-4">
@@ -171,6 +200,37 @@ export function InviteUserDialog({ open, onOpenChange }: InviteUserDialogProps)
                 </SelectContent>
               </Select>
             </div>
+
+            {isFreelancer && (
+              <>
+                <div className="space-y-2">
+                  <Label>Freelancer profile</Label>
+                  <Select value={identityId} onValueChange={setIdentityId}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NEW_FREELANCER}>New freelancer</SelectItem>
+                      {unlinkedIdentities.map((identity) => (
+                        <SelectItem key={identity.id} value={identity.id}>
+                          {identity.display_name || `${identity.first_name} ${identity.last_name}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Pick an existing name-only freelancer to move their job history onto the new account.
+                  </p>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="invite-require-pin" className="cursor-pointer">
+                    Require PIN
+                  </Label>
+                  <Switch id="invite-require-pin" checked={requirePin} onCheckedChange={setRequirePin} />
+                </div>
+              </>
+            )}
           </div>
         )}
 
@@ -0,0 +1,73 @@
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useRolePermissions, useSetRolePermission } from "@/hooks/usePermissions";
+import type { AppRole } from "@/hooks/useUsers";
+import { ALL_PERMISSIONS, PERMISSION_DESCRIPTIONS, PERMISSION_LABELS } from "@/lib/permissions";
+
+const MATRIX_ROLES: AppRole[] = ["admin", "internal", "freelancer", "client"];
+
+/** Role defaults for every permission. Admins always hold every permission. */
+export function RolePermissionMatrix() {
+  const { data: rolePermissions = [], isLoading } = useRolePermissions();
+  const setRolePermission = useSetRolePermission();
+
+  const isEnabled = (role: AppRole, permission: string) =>
+    role === "admin" ||
+    rolePermissions.some((rp) => rp.role === role && rp.permission === permission);
+
+  return (
+    <div className="border rounded-lg">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Permission</TableHead>
+            {MATRIX_ROLES.map((role) => (
+              <TableHead key={role} className="text-center capitalize w-28">
+                {role}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {isLoading ? (
+            <TableRow>
+              <TableCell colSpan={MATRIX_ROLES.length + 1} className="text-center py-8">
+                Loading permissions...
+              </TableCell>
+            </TableRow>
+          ) : (
+            ALL_PERMISSIONS.map((permission) => (
+              <TableRow key={permission}>
+                <TableCell>
+                  <p className="font-medium text-sm">{PERMISSION_LABELS[permission]}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {PERMISSION_DESCRIPTIONS[permission]}
+                    <span className="font-mono ml-2">{permission}</span>
+                  </p>
+                </TableCell>
+                {MATRIX_ROLES.map((role) => (
+                  <TableCell key={role} className="text-center">
+                    <Checkbox
+                      checked={isEnabled(role, permission)}
+                      disabled={role === "admin" || setRolePermission.isPending}
+                      onCheckedChange={(checked) =>
+                        setRolePermission.mutate({ role, permission, enabled: checked === true })
+                      }
+                    />
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
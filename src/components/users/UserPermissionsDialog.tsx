@@ -0,0 +1,111 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { useRolePermissions, useUserPermissionOverrides, useSetPermissionOverride } from "@/hooks/usePermissions";
+import type { UserWithRoles } from "@/hooks/useUsers";
+import { ALL_PERMISSIONS, PERMISSION_DESCRIPTIONS, PERMISSION_LABELS, type AppPermission } from "@/lib/permissions";
+
+type OverrideValue = "default" | "grant" | "revoke";
+
+interface UserPermissionsDialogProps {
+  user: UserWithRoles | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Per-user grants and revocations on top of the user's role defaults */
+export function UserPermissionsDialog({ user, onOpenChange }: UserPermissionsDialogProps) {
+  const { data: rolePermissions = [] } = useRolePermissions();
+  const { data: overrides = [] } = useUserPermissionOverrides(user?.id ?? null);
+  const setOverride = useSetPermissionOverride();
+
+  const isAdmin = !!user?.roles.includes("admin");
+
+  const getRoleDefault = (permission: AppPermission) =>
+    isAdmin ||
+    rolePermissions.some((rp) => rp.permission === permission && user?.roles.includes(rp.role));
+
+  const getOverrideValue = (permission: AppPermission): OverrideValue => {
+    const override = overrides.find((o) => o.permission === permission);
+    if (!override) return "default";
+    return override.granted ? "grant" : "revoke";
+  };
+
+  const handleChange = (permission: AppPermission, value: OverrideValue) => {
+    if (!user) return;
+    setOverride.mutate({
+      userId: user.id,
+      permission,
+      granted: value === "default" ? null : value === "grant",
+    });
+  };
+
+  return (
+    <Dialog open={!!user} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Permissions for {user?.display_name || user?.email}</DialogTitle>
+          <DialogDescription>
+            {isAdmin
+              ? "Admins always hold every permission."
+              : "Override single permissions for this user. Everything else follows their roles."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {ALL_PERMISSIONS.map((permission) => {
+            const roleDefault = getRoleDefault(permission);
+            const value = getOverrideValue(permission);
+            const effective = isAdmin || (value === "default" ? roleDefault : value === "grant");
+
+            return (
+              <div key={permission} className="flex items-center justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="text-sm font-medium">{PERMISSION_LABELS[permission]}</p>
+                    <Badge
+                      variant="outline"
+                      className={effective
+                        ? "bg-green-500/20 text-green-400 border-green-500/30"
+                        : "text-muted-foreground"}
+                    >
+                      {effective ? "Allowed" : "Denied"}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{PERMISSION_DESCRIPTIONS[permission]}</p>
+                </div>
+                <Select
+                  value={value}
+                  onValueChange={(v) => handleChange(permission, v as OverrideValue)}
+                  disabled={isAdmin || setOverride.isPending}
+                >
+                  <SelectTrigger className="w-40 shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="default">
+                      Role default ({roleDefault ? "on" : "off"})
+                    </SelectItem>
+                    <SelectItem value="grant">Always allow</SelectItem>
+                    <SelectItem value="revoke">Always deny</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import type { AppPermission } from '@/lib/permissions';
 
 export type AppRole = 'admin' | 'internal' | 'freelancer' | 'client';
 
@@ -16,11 +17,13 @@ interface AuthContextType {
   session: Session | null;
   profile: UserProfile | null;
   roles: AppRole[];
+  permissions: AppPermission[];
   isLoading: boolean;
   isAdmin: boolean;
   isInternal: boolean;
   isFreelancer: boolean;
   isClient: boolean;
+  can: (permission: AppPermission) => boolean;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signUp: (email: string, password: string, displayName: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
@@ -34,6 +37,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [session, setSession] = useState<Session | null>(null);
   const [profile, setProfile] = useState<UserProfile | null>(null);
   const [roles, setRoles] = useState<AppRole[]>([]);
+  const [permissions, setPermissions] = useState<AppPermission[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
   // Derived role checks
@@ -41,6 +45,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const isInternal = roles.includes('admin') || roles.includes('internal');
   const isFreelancer = roles.includes('freelancer');
   const isClient = roles.includes('client');
+  const can = (permission: AppPermission) => isAdmin || permissions.includes(permission);
 
   // Fetch user profile and roles
   const fetchUserData = async (userId: string, userMetadata?: Record<string, any>) => {
@@ -58,11 +63,21 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         setProfile(profileData as UserProfile);
       }
 
-      // Fetch roles
-      const { data: rolesData, error: rolesError } = await supabase
-        .from('user_roles')
-        .select('role')
-        .eq('user_id', userId);
+      // Fetch roles and effective permissions (role defaults plus per-user
+      // overrides) together so route guards never see one without the other
+      const [
+        { data: rolesData, error: rolesError },
+        { data: permissionData, error: permissionError },
+      ] = await Promise.all([
+        supabase.from('user_roles').select('role').eq('user_id', userId),
+        supabase.rpc('get_user_permissions', { _user_id: userId }),
+      ]);
+
+      if (permissionError) {
+        console.error('Error fetching permissions:', permissionError);
+      } else {
+        setPermissions(permissionData || []);
+      }
 
       if (rolesError) {
         console.error('Error fetching roles:', rolesError);
@@ -108,6 +123,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         } else {
           setProfile(null);
           setRoles([]);
+          setPermissions([]);
         }
         
         setIsLoading(false);
@@ -157,6 +173,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     await supabase.auth.signOut();
     setProfile(null);
     setRoles([]);
+    setPermissions([]);
   };
 
   const signInWithMagicLink = async (email: string) => {
@@ -178,11 +195,13 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         session,
         profile,
         roles,
+        permissions,
         isLoading,
         isAdmin,
         isInternal,
         isFreelancer,
         isClient,
+        can,
         signIn,
         signUp,
         signOut,
@@ -5,10 +5,11 @@ import { DEFAULT_AI_APPLY_SETTINGS } from '@/types/ai-apply';
 
 interface UseAIApplyQueueOptions {
   projectId: string;
+  promptVersionId?: string | null;
   onComplete?: () => void;
 }
 
-export function useAIApplyQueue({ projectId, onComplete }: UseAIApplyQueueOptions) {
+export function useAIApplyQueue({ projectId, promptVersionId, onComplete }: UseAIApplyQueueOptions) {
   const [queue, setQueue] = useState<AIApplyQueueItem[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
 
@@ -32,6 +33,7 @@ export function useAIApplyQueue({ projectId, onComplete }: UseAIApplyQueueOption
             attemptsPerView: pendingItem.attemptsRequested || DEFAULT_AI_APPLY_SETTINGS.attemptsPerView,
             model: DEFAULT_AI_APPLY_SETTINGS.model,
             strictness: DEFAULT_AI_APPLY_SETTINGS.strictness,
+            promptVersionId,
           },
         });
 
@@ -48,7 +50,7 @@ export function useAIApplyQueue({ projectId, onComplete }: UseAIApplyQueueOption
     };
 
     processNext();
-  }, [queue, isProcessing, projectId, onComplete]);
+  }, [queue, isProcessing, projectId, promptVersionId, onComplete]);
 
   const updateItemStatus = useCallback((
     id: string, 
@@ -0,0 +1,192 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import type {
+  AIBudget,
+  AIBudgetEnforcement,
+  AIBudgetPeriod,
+  AIModelPrice,
+  AISpendRow,
+} from "@/lib/aiSpend";
+
+export function useAIModelPrices() {
+  return useQuery({
+    queryKey: ["ai-model-prices"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("ai_model_prices")
+        .select("*")
+        .order("model")
+        .order("image_size");
+
+      if (error) throw error;
+      return data as AIModelPrice[];
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+/** Spend rolled up per project, brand, function and model. since = null for all time */
+export function useAISpendSummary(since: string | null) {
+  return useQuery({
+    queryKey: ["ai-spend-summary", since],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_ai_spend_summary", since ? { _since: since } : {});
+
+      if (error) throw error;
+      return data as AISpendRow[];
+    },
+  });
+}
+
+export function useAIBudgets() {
+  return useQuery({
+    queryKey: ["ai-budgets"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("ai_budgets")
+        .select("*")
+        .order("created_at");
+
+      if (error) throw error;
+      return data as AIBudget[];
+    },
+  });
+}
+
+export interface AIBudgetStatus {
+  budget: AIBudget;
+  spentUsd: number;
+}
+
+/** Budgets covering a project and its brand, with what each has spent in its period */
+export function useAIBudgetStatus(projectId: string | null | undefined, brandId: string | null | undefined) {
+  return useQuery({
+    queryKey: ["ai-budget-status", projectId, brandId],
+    queryFn: async () => {
+      const filters = [
+        projectId ? `project_id.eq.${projectId}` : null,
+        brandId ? `brand_id.eq.${brandId}` : null,
+      ].filter(Boolean);
+
+      const { data: budgets, error } = await supabase
+        .from("ai_budgets")
+        .select("*")
+        .or(filters.join(","));
+
+      if (error) throw error;
+
+      return Promise.all(
+        (budgets as AIBudget[]).map(async (budget): Promise<AIBudgetStatus> => {
+          const { data: spent, error: spentError } = await supabase.rpc("ai_budget_spent", {
+            _budget_id: budget.id,
+          });
+          if (spentError) throw spentError;
+          return { budget, spentUsd: Number(spent) };
+        })
+      );
+    },
+    enabled: !!projectId || !!brandId,
+  });
+}
+
+export function useSaveAIBudget() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      projectId,
+      brandId,
+      limitUsd,
+      enforcement,
+      period,
+    }: {
+      projectId: string | null;
+      brandId: string | null;
+      limitUsd: number;
+      enforcement: AIBudgetEnforcement;
+      period: AIBudgetPeriod;
+    }) => {
+      const { data: userData } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from("ai_budgets")
+        .upsert(
+          {
+            project_id: projectId,
+            brand_id: brandId,
+            limit_usd: limitUsd,
+            enforcement,
+            period,
+            created_by: userData.user?.id || null,
+          },
+          { onConflict: projectId ? "project_id" : "brand_id" }
+        );
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["ai-budgets"] });
+      queryClient.invalidateQueries({ queryKey: ["ai-budget-status"] });
+      toast.success("Budget saved");
+    },
+    onError: (error) => {
+      toast.error(`Failed to save budget: ${error.message}`);
+    },
+  });
+}
+
+export function useDeleteAIBudget() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (budgetId: string) => {
+      const { error } = await supabase.from("ai_budgets").delete().eq("id", budgetId);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["ai-budgets"] });
+      queryClient.invalidateQueries({ queryKey: ["ai-budget-status"] });
+      toast.success("Budget removed");
+    },
+    onError: (error) => {
+      toast.error(`Failed to remove budget: ${error.message}`);
+    },
+  });
+}
+
+export function useSaveAIModelPrice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      model,
+      imageSize,
+      unitCostUsd,
+    }: {
+      model: string;
+      imageSize: string;
+      unitCostUsd: number;
+    }) => {
+      const { error } = await supabase
+        .from("ai_model_prices")
+        .upsert(
+          {
+            model,
+            image_size: imageSize,
+            unit_cost_usd: unitCostUsd,
+            updated_at: new Date().toISOString(),
+          },
+          { onConflict: "model,image_size" }
+        );
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["ai-model-prices"] });
+      toast.success("Price saved. It applies to new calls only.");
+    },
+    onError: (error) => {
+      toast.error(`Failed to save price: ${error.message}`);
+    },
+  });
+}
@@ -0,0 +1,64 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import type { Json } from "@/integrations/supabase/types";
+import { ImportProfile, toImportProfile } from "@/lib/importProfiles";
+
+export interface BrandImportProfile {
+  brandId: string;
+  brandName: string;
+  profile: ImportProfile | null;
+}
+
+export function useBrandImportProfiles() {
+  return useQuery({
+    queryKey: ["brand-import-profiles"],
+    queryFn: async (): Promise<BrandImportProfile[]> => {
+      const { data, error } = await supabase
+        .from("brands")
+        .select("id, name, import_profile")
+        .order("name", { ascending: true });
+
+      if (error) throw error;
+      return (data || []).map(brand => ({
+        brandId: brand.id,
+        brandName: brand.name,
+        profile: toImportProfile(brand.import_profile),
+      }));
+    },
+  });
+}
+
+// Import profile for a single brand (null when the brand uses the built-in rules)
+export async function fetchBrandImportProfile(brandId: string): Promise<ImportProfile | null> {
+  const { data, error } = await supabase
+    .from("brands")
+    .select("import_profile")
+    .eq("id", brandId)
+    .single();
+
+  if (error) throw error;
+  return toImportProfile(data?.import_profile);
+}
+
+export function useSaveBrandImportProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ brandId, profile }: { brandId: string; profile: ImportProfile | null }) => {
+      const { error } = await supabase
+        .from("brands")
+        .update({ import_profile: profile as unknown as Json })
+        .eq("id", brandId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { profile }) => {
+      queryClient.invalidateQueries({ queryKey: ["brand-import-profiles"] });
+      toast.success(profile ? "Import profile saved" : "Import profile cleared");
+    },
+    onError: (error) => {
+      toast.error(`Failed to save import profile: ${error.message}`);
+    },
+  });
+}
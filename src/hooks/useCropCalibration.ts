@@ -0,0 +1,160 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import {
+  percentFaceBox,
+  type CropCalibrationProfile,
+  type CropCalibrationResult,
+  type CropCalibrationSample,
+} from "@/lib/cropCalibration";
+
+// Most recent corrections only, so a brand's newer framing wins out
+const MAX_CALIBRATION_CORRECTIONS = 1000;
+
+// Keeps .in() filters inside the URL length limit
+const IN_CHUNK_SIZE = 200;
+
+export function useCropCalibrationProfiles(brandName: string | null | undefined) {
+  return useQuery({
+    queryKey: ["crop-calibration-profiles", brandName],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("crop_calibration_profiles")
+        .select("*")
+        .eq("brand_name", brandName!)
+        .order("view_type");
+
+      if (error) throw error;
+      return data as CropCalibrationProfile[];
+    },
+    enabled: !!brandName,
+  });
+}
+
+/**
+ * A brand's corrections as calibration samples, grouped by view. Corrections
+ * saved before the face box was recorded fall back to the image's
+ * face_detections box and face_crops aspect ratio where those are usable.
+ */
+export function useCropCalibrationSamples(brandName: string | null | undefined, enabled = true) {
+  return useQuery({
+    queryKey: ["crop-calibration-samples", brandName],
+    queryFn: async () => {
+      const { data: corrections, error } = await supabase
+        .from("crop_corrections")
+        .select("*, face_scrape_runs!inner(brand_name)")
+        .eq("face_scrape_runs.brand_name", brandName!)
+        .order("created_at", { ascending: false })
+        .limit(MAX_CALIBRATION_CORRECTIONS);
+
+      if (error) throw error;
+
+      const legacyImageIds = [
+        ...new Set(
+          corrections
+            .filter((c) => c.face_x === null || c.aspect_ratio === null)
+            .map((c) => c.scrape_image_id)
+        ),
+      ];
+      const faceBoxes = new Map<string, unknown>();
+      const aspectRatios = new Map<string, string>();
+
+      for (let i = 0; i < legacyImageIds.length; i += IN_CHUNK_SIZE) {
+        const chunk = legacyImageIds.slice(i, i + IN_CHUNK_SIZE);
+        const [detections, crops] = await Promise.all([
+          supabase.from("face_detections").select("scrape_image_id, bounding_boxes").in("scrape_image_id", chunk),
+          supabase.from("face_crops").select("scrape_image_id, aspect_ratio").in("scrape_image_id", chunk),
+        ]);
+        if (detections.error) throw detections.error;
+        if (crops.error) throw crops.error;
+
+        detections.data.forEach((d) => {
+          const boxes = d.bounding_boxes as unknown[] | null;
+          if (Array.isArray(boxes) && boxes.length > 0) faceBoxes.set(d.scrape_image_id, boxes[0]);
+        });
+        crops.data.forEach((c) => aspectRatios.set(c.scrape_image_id, c.aspect_ratio));
+      }
+
+      const samplesByView: Record<string, CropCalibrationSample[]> = {};
+      for (const c of corrections) {
+        const faceBox =
+          c.face_x !== null && c.face_y !== null && c.face_width !== null && c.face_height !== null
+            ? percentFaceBox({ x: c.face_x, y: c.face_y, width: c.face_width, height: c.face_height })
+            : percentFaceBox(faceBoxes.get(c.scrape_image_id));
+        if (!faceBox) continue;
+
+        const aspectRatio = c.aspect_ratio ?? aspectRatios.get(c.scrape_image_id) ?? "1:1";
+        if (!samplesByView[c.view_type]) samplesByView[c.view_type] = [];
+        samplesByView[c.view_type].push({
+          faceBox,
+          userCrop: { x: c.user_crop_x, y: c.user_crop_y, width: c.user_crop_width, height: c.user_crop_height },
+          aspectRatio: aspectRatio === "4:5" ? "4:5" : "1:1",
+        });
+      }
+
+      return { samplesByView, correctionCount: corrections.length };
+    },
+    enabled: !!brandName && enabled,
+  });
+}
+
+export function useSaveCropCalibrationProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      brandName,
+      viewType,
+      result,
+    }: {
+      brandName: string;
+      viewType: string;
+      result: CropCalibrationResult;
+    }) => {
+      const { data: userData } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from("crop_calibration_profiles")
+        .upsert(
+          {
+            brand_name: brandName,
+            view_type: viewType,
+            above_face_multiplier: result.params.aboveFaceMultiplier,
+            below_face_multiplier: result.params.belowFaceMultiplier,
+            horizontal_padding: result.params.horizontalPadding,
+            sample_count: result.sampleCount,
+            mean_error_before: result.meanErrorBefore,
+            mean_error_after: result.meanErrorAfter,
+            created_by: userData.user?.id || null,
+          },
+          { onConflict: "brand_name,view_type" }
+        );
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, { brandName, viewType }) => {
+      queryClient.invalidateQueries({ queryKey: ["crop-calibration-profiles", brandName] });
+      toast.success(`Saved ${viewType} crop profile`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to save crop profile: ${error.message}`);
+    },
+  });
+}
+
+export function useDeleteCropCalibrationProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (profile: CropCalibrationProfile) => {
+      const { error } = await supabase.from("crop_calibration_profiles").delete().eq("id", profile.id);
+      if (error) throw error;
+    },
+    onSuccess: (_data, profile) => {
+      queryClient.invalidateQueries({ queryKey: ["crop-calibration-profiles", profile.brand_name] });
+      toast.success(`Reverted ${profile.view_type} crops to the defaults`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to remove crop profile: ${error.message}`);
+    },
+  });
+}
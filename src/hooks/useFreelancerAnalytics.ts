@@ -0,0 +1,88 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  AnalyticsJob,
+  COMPLETED_JOB_STATUSES,
+  FreelancerAnalyticsData,
+} from "@/lib/freelancerAnalytics";
+
+// Keep .in() filters well inside URL length limits
+const IN_CHUNK_SIZE = 100;
+
+function chunk<T>(items: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += IN_CHUNK_SIZE) {
+    chunks.push(items.slice(i, i + IN_CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+// Raw rows behind the freelancer analytics page; metrics are derived client-side
+// so date range and job type filters don't refetch
+export function useFreelancerAnalyticsData() {
+  return useQuery({
+    queryKey: ["freelancer-analytics"],
+    queryFn: async (): Promise<FreelancerAnalyticsData> => {
+      const { data: identities, error: identitiesError } = await supabase
+        .from("freelancer_identities")
+        .select("id, first_name, last_name, display_name")
+        .order("first_name");
+
+      if (identitiesError) throw identitiesError;
+
+      const { data: jobs, error: jobsError } = await supabase
+        .from("unified_jobs")
+        .select("id, title, type, status, freelancer_identity_id, started_at, status_changed_at, created_at")
+        .not("freelancer_identity_id", "is", null)
+        .in("status", COMPLETED_JOB_STATUSES);
+
+      if (jobsError) throw jobsError;
+
+      const jobIds = (jobs || []).map((job) => job.id);
+      const submissions: FreelancerAnalyticsData["submissions"] = [];
+      const assets: FreelancerAnalyticsData["assets"] = [];
+      const claimedAt: Record<string, string> = {};
+
+      for (const ids of chunk(jobIds)) {
+        const { data, error } = await supabase
+          .from("job_submissions")
+          .select("id, job_id, version_number, submitted_at")
+          .in("job_id", ids);
+
+        if (error) throw error;
+        submissions.push(...(data || []));
+
+        const { data: claims, error: claimsError } = await supabase
+          .from("audit_events")
+          .select("job_id, created_at")
+          .eq("action", "job_claimed")
+          .in("job_id", ids)
+          .order("created_at", { ascending: true });
+
+        if (claimsError) throw claimsError;
+        // Ascending order, so the latest claim wins
+        for (const claim of claims || []) {
+          if (claim.job_id && claim.created_at) claimedAt[claim.job_id] = claim.created_at;
+        }
+      }
+
+      for (const ids of chunk(submissions.map((s) => s.id))) {
+        const { data, error } = await supabase
+          .from("submission_assets")
+          .select("submission_id, label, review_status")
+          .in("submission_id", ids);
+
+        if (error) throw error;
+        assets.push(...(data || []));
+      }
+
+      return {
+        identities: identities || [],
+        jobs: (jobs || []) as AnalyticsJob[],
+        submissions,
+        assets,
+        claimedAt,
+      };
+    },
+  });
+}
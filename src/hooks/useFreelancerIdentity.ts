@@ -1,5 +1,7 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useEffect, useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
 
 export interface FreelancerIdentity {
   id: string;
@@ -8,127 +10,127 @@ export interface FreelancerIdentity {
   displayName: string;
 }
 
-const STORAGE_KEY = 'freelancer_identity';
+export interface FreelancerInviteInfo {
+  valid: boolean;
+  error?: string | null;
+  requiresPin?: boolean;
+  requiresEmail?: boolean;
+  requiresName?: boolean;
+  email?: string | null;
+  identityName?: string | null;
+}
+
+export interface RedeemInviteInput {
+  token: string;
+  pin?: string;
+  email?: string;
+  firstName?: string;
+  lastName?: string;
+}
 
+// Name-only identities used to live here; cleared so they can't linger
+const LEGACY_STORAGE_KEY = 'freelancer_identity';
+
+/**
+ * The freelancer identity bound to the signed-in account. Identities are
+ * created and linked by the freelancer-login edge function when an invite is
+ * redeemed, so there is no way to become a freelancer by typing a name.
+ */
 export function useFreelancerIdentity() {
-  const [identity, setIdentityState] = useState<FreelancerIdentity | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  const { user, isLoading: authLoading, signOut: authSignOut } = useAuth();
+  const queryClient = useQueryClient();
 
-  // Load identity from localStorage on mount
   useEffect(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored);
-        setIdentityState(parsed);
-      } catch (e) {
-        console.error('Failed to parse stored identity:', e);
-      }
-    }
-    setIsLoading(false);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
   }, []);
 
-  // Set identity: store in localStorage and upsert to database
-  const setIdentity = useCallback(async (firstName: string, lastName: string): Promise<FreelancerIdentity> => {
-    setIsLoading(true);
-    
-    try {
-      // Upsert to database using case-insensitive match
+  const { data: identity = null, isLoading: identityLoading } = useQuery({
+    queryKey: ['freelancer-identity', user?.id],
+    queryFn: async (): Promise<FreelancerIdentity | null> => {
       const { data, error } = await supabase
         .from('freelancer_identities')
-        .upsert(
-          { 
-            first_name: firstName.trim(), 
-            last_name: lastName.trim() 
-          },
-          { 
-            onConflict: 'id',
-            ignoreDuplicates: false 
-          }
-        )
-        .select()
-        .single();
-
-      // If upsert failed due to conflict, try to find existing
-      if (error) {
-        // Try to find existing identity
-        const { data: existing, error: findError } = await supabase
-          .from('freelancer_identities')
-          .select()
-          .ilike('first_name', firstName.trim())
-          .ilike('last_name', lastName.trim())
-          .maybeSingle();
-
-        if (findError) throw findError;
-
-        if (existing) {
-          // Update last_active_at
-          await supabase
-            .from('freelancer_identities')
-            .update({ last_active_at: new Date().toISOString() })
-            .eq('id', existing.id);
-
-          const identity: FreelancerIdentity = {
-            id: existing.id,
-            firstName: existing.first_name,
-            lastName: existing.last_name,
-            displayName: existing.display_name,
-          };
-
-          localStorage.setItem(STORAGE_KEY, JSON.stringify(identity));
-          setIdentityState(identity);
-          return identity;
-        }
-
-        // If still not found, insert fresh
-        const { data: newData, error: insertError } = await supabase
-          .from('freelancer_identities')
-          .insert({ 
-            first_name: firstName.trim(), 
-            last_name: lastName.trim() 
-          })
-          .select()
-          .single();
-
-        if (insertError) throw insertError;
-
-        const newIdentity: FreelancerIdentity = {
-          id: newData.id,
-          firstName: newData.first_name,
-          lastName: newData.last_name,
-          displayName: newData.display_name,
-        };
-
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(newIdentity));
-        setIdentityState(newIdentity);
-        return newIdentity;
-      }
-
-      const identity: FreelancerIdentity = {
+        .select('id, first_name, last_name, display_name')
+        .eq('user_id', user!.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      // Best effort, only used for "last seen" in the admin views
+      supabase
+        .from('freelancer_identities')
+        .update({ last_active_at: new Date().toISOString() })
+        .eq('id', data.id)
+        .then(({ error: touchError }) => {
+          if (touchError) console.error('Failed to update last_active_at:', touchError);
+        });
+
+      return {
         id: data.id,
         firstName: data.first_name,
         lastName: data.last_name,
-        displayName: data.display_name,
+        displayName: data.display_name || `${data.first_name} ${data.last_name}`,
       };
+    },
+    enabled: !!user,
+    staleTime: 5 * 60 * 1000,
+  });
 
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(identity));
-      setIdentityState(identity);
-      return identity;
-    } finally {
-      setIsLoading(false);
-    }
-  }, []);
-
-  const clearIdentity = useCallback(() => {
-    localStorage.removeItem(STORAGE_KEY);
-    setIdentityState(null);
-  }, []);
+  const signOut = useCallback(async () => {
+    await authSignOut();
+    queryClient.removeQueries({ queryKey: ['freelancer-identity'] });
+  }, [authSignOut, queryClient]);
 
   return {
     identity,
-    setIdentity,
-    clearIdentity,
-    isLoading,
+    user,
+    signOut,
+    isLoading: authLoading || (!!user && identityLoading),
     hasIdentity: !!identity,
   };
 }
+
+export async function inspectFreelancerInvite(token: string): Promise<FreelancerInviteInfo> {
+  const { data, error } = await supabase.functions.invoke('freelancer-login', {
+    body: { action: 'inspect', token },
+  });
+
+  if (error) throw error;
+  return data as FreelancerInviteInfo;
+}
+
+/** Redeems an invite and signs in. Resolves with an error message on rejection. */
+export async function redeemFreelancerInvite(input: RedeemInviteInput): Promise<{
+  error: string | null;
+  attemptsRemaining?: number;
+}> {
+  const { data, error } = await supabase.functions.invoke('freelancer-login', {
+    body: { action: 'redeem', ...input },
+  });
+
+  if (error) throw error;
+  if (!data?.valid) {
+    return { error: data?.error || 'Unable to sign in', attemptsRemaining: data?.attemptsRemaining };
+  }
+
+  const { error: otpError } = await supabase.auth.verifyOtp({
+    token_hash: data.tokenHash,
+    type: 'magiclink',
+  });
+
+  if (otpError) throw otpError;
+  return { error: null };
+}
+
+/** Returning freelancers sign in by email; accounts are only created from invites */
+export async function sendFreelancerMagicLink(email: string, redirectPath = '/work') {
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: {
+      shouldCreateUser: false,
+      emailRedirectTo: `${window.location.origin}${redirectPath}`,
+    },
+  });
+
+  return { error: error ? new Error(error.message) : null };
+}
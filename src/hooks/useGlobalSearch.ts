@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+
+export type GlobalSearchEntityType =
+  | 'talent_look'
+  | 'workflow_look'
+  | 'project_look'
+  | 'repose_output'
+  | 'digital_talent'
+  | 'unified_job';
+
+export interface GlobalSearchResult {
+  entityType: GlobalSearchEntityType;
+  entityId: string;
+  title: string;
+  subtitle: string | null;
+  status: string | null;
+  route: string;
+  rank: number;
+}
+
+export const GLOBAL_SEARCH_GROUP_LABELS: Record<GlobalSearchEntityType, string> = {
+  talent_look: 'Face Application looks',
+  workflow_look: 'Optimised Workflow looks',
+  project_look: 'Production looks',
+  repose_output: 'Repose outputs',
+  digital_talent: 'Digital talents',
+  unified_job: 'Jobs',
+};
+
+const MIN_QUERY_LENGTH = 2;
+const DEBOUNCE_MS = 250;
+
+interface SearchRow {
+  entity_type: string;
+  entity_id: string;
+  title: string | null;
+  subtitle: string | null;
+  status: string | null;
+  project_id: string | null;
+  batch_id: string | null;
+  rank: number;
+}
+
+// Where each result opens
+function resolveRoute(row: SearchRow): string {
+  switch (row.entity_type as GlobalSearchEntityType) {
+    case 'talent_look':
+      return row.project_id ? `/face-application/${row.project_id}` : '/face-application';
+    case 'workflow_look':
+      return `/optimised-workflow/${row.project_id}`;
+    case 'project_look':
+      return row.batch_id ? `/repose-production/batch/${row.batch_id}` : '/repose-production';
+    case 'repose_output':
+      return `/repose-production/batch/${row.batch_id}?tab=review`;
+    case 'digital_talent':
+      return '/digital-talent';
+    case 'unified_job':
+      return `/jobs?q=${encodeURIComponent(row.title || '')}`;
+    default:
+      return '/';
+  }
+}
+
+export function useGlobalSearch(query: string, limitPerType = 8) {
+  const [debouncedQuery, setDebouncedQuery] = useState(query);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  return useQuery({
+    queryKey: ["global-search", debouncedQuery, limitPerType],
+    queryFn: async (): Promise<GlobalSearchResult[]> => {
+      const { data, error } = await supabase.rpc("search_global", {
+        p_query: debouncedQuery,
+        p_limit: limitPerType,
+      });
+      if (error) throw error;
+
+      return ((data || []) as SearchRow[]).map(row => ({
+        entityType: row.entity_type as GlobalSearchEntityType,
+        entityId: row.entity_id,
+        title: row.title || 'Untitled',
+        subtitle: row.subtitle || null,
+        status: row.status,
+        route: resolveRoute(row),
+        rank: row.rank,
+      }));
+    },
+    enabled: debouncedQuery.length >= MIN_QUERY_LENGTH,
+    staleTime: 30000,
+  });
+}
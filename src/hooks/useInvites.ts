@@ -8,16 +8,12 @@ export function useValidateInvite(token: string | null) {
     queryFn: async () => {
       if (!token) return null;
       
-      const { data, error } = await supabase
-        .from('invites')
-        .select('*')
-        .eq('token', token)
-        .is('used_at', null)
-        .gt('expires_at', new Date().toISOString())
-        .single();
+      // Invites aren't readable directly; the RPC only returns an unused, unexpired match
+      const { data, error } = await supabase.rpc('get_invite_by_token', { p_token: token });
       
       if (error) throw error;
-      return data as Invite;
+      if (!data || data.length === 0) throw new Error('Invite not found');
+      return data[0] as Pick<Invite, 'id' | 'role' | 'email' | 'job_id' | 'project_id' | 'expires_at'>;
     },
     enabled: !!token,
     retry: false,
@@ -87,3 +83,22 @@ export function useCreateInvite() {
     },
   });
 }
+
+// Legacy name-only freelancers that still need an account; an invite bound to
+// one of these links the existing job history to the new login
+export function useUnlinkedFreelancerIdentities(enabled = true) {
+  return useQuery({
+    queryKey: ['unlinked-freelancer-identities'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('freelancer_identities')
+        .select('id, first_name, last_name, display_name')
+        .is('user_id', null)
+        .order('first_name');
+      
+      if (error) throw error;
+      return data || [];
+    },
+    enabled,
+  });
+}
@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
-import { UnifiedJob, JobStatus, JobType } from "@/types/jobs";
+import { UnifiedJob, JobStatus, JobType, JobTypeSla } from "@/types/jobs";
 import { toast } from "sonner";
 
 interface JobFilters {
@@ -556,3 +556,42 @@ export function useFreelancerJobs(userId: string | undefined) {
     enabled: !!userId,
   });
 }
+
+// Turnaround targets per job type, keyed by type
+export function useJobSlas() {
+  return useQuery({
+    queryKey: ["job-type-slas"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("job_type_slas")
+        .select("job_type, first_submission_hours, needs_changes_hours, reminder_lead_hours, auto_reclaim");
+
+      if (error) throw error;
+      return Object.fromEntries(
+        (data || []).map((sla) => [sla.job_type, sla as JobTypeSla])
+      ) as Partial<Record<JobType, JobTypeSla>>;
+    },
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
+export function useUpdateJobSla() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sla: JobTypeSla) => {
+      const { error } = await supabase
+        .from("job_type_slas")
+        .upsert(sla, { onConflict: "job_type" });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["job-type-slas"] });
+      toast.success("SLA updated");
+    },
+    onError: (error) => {
+      toast.error(`Failed to update SLA: ${error.message}`);
+    },
+  });
+}
@@ -0,0 +1,41 @@
+import { useEffect, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+
+export type PerceptualHashTable = "repose_outputs" | "ai_apply_outputs" | "face_application_outputs";
+
+const MAX_IDS_PER_REQUEST = 100;
+
+/**
+ * Hashes outputs that predate perceptual hashing so near-duplicate stacking
+ * works on older batches. Each id is only requested once per mount.
+ */
+export function usePerceptualHashBackfill(
+  table: PerceptualHashTable,
+  missingIds: string[],
+  enabled: boolean,
+  onHashed: () => void
+) {
+  const requestedRef = useRef<Set<string>>(new Set());
+  const onHashedRef = useRef(onHashed);
+  onHashedRef.current = onHashed;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const pending = missingIds.filter(id => !requestedRef.current.has(id)).slice(0, MAX_IDS_PER_REQUEST);
+    if (pending.length === 0) return;
+    pending.forEach(id => requestedRef.current.add(id));
+
+    supabase.functions
+      .invoke("compute-perceptual-hashes", {
+        body: { table, ids: pending, limit: pending.length },
+      })
+      .then(({ data, error }) => {
+        if (error) {
+          console.warn("[usePerceptualHashBackfill] Backfill failed:", error);
+          return;
+        }
+        if (data?.hashed > 0) onHashedRef.current();
+      });
+  }, [table, missingIds, enabled]);
+}
@@ -0,0 +1,125 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import type { AppRole } from "@/hooks/useUsers";
+import type { AppPermission } from "@/lib/permissions";
+
+export interface PermissionOverride {
+  user_id: string;
+  permission: AppPermission;
+  granted: boolean;
+}
+
+export function useRolePermissions() {
+  return useQuery({
+    queryKey: ["role-permissions"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("role_permissions")
+        .select("role, permission");
+
+      if (error) throw error;
+      return data as { role: AppRole; permission: AppPermission }[];
+    },
+  });
+}
+
+export function useSetRolePermission() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      role,
+      permission,
+      enabled,
+    }: {
+      role: AppRole;
+      permission: AppPermission;
+      enabled: boolean;
+    }) => {
+      const { error } = enabled
+        ? await supabase
+            .from("role_permissions")
+            .upsert({ role, permission }, { onConflict: "role,permission" })
+        : await supabase
+            .from("role_permissions")
+            .delete()
+            .eq("role", role)
+            .eq("permission", permission);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["role-permissions"] });
+    },
+    onError: (error) => {
+      toast.error(`Failed to update role permissions: ${error.message}`);
+    },
+  });
+}
+
+export function useUserPermissionOverrides(userId: string | null) {
+  return useQuery({
+    queryKey: ["user-permission-overrides", userId],
+    queryFn: async () => {
+      if (!userId) return [];
+      const { data, error } = await supabase
+        .from("user_permission_overrides")
+        .select("user_id, permission, granted")
+        .eq("user_id", userId);
+
+      if (error) throw error;
+      return data as PermissionOverride[];
+    },
+    enabled: !!userId,
+  });
+}
+
+/** granted = null clears the override so the user falls back to their roles */
+export function useSetPermissionOverride() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      userId,
+      permission,
+      granted,
+    }: {
+      userId: string;
+      permission: AppPermission;
+      granted: boolean | null;
+    }) => {
+      if (granted === null) {
+        const { error } = await supabase
+          .from("user_permission_overrides")
+          .delete()
+          .eq("user_id", userId)
+          .eq("permission", permission);
+
+        if (error) throw error;
+        return;
+      }
+
+      const { data: userData } = await supabase.auth.getUser();
+      const { error } = await supabase
+        .from("user_permission_overrides")
+        .upsert(
+          {
+            user_id: userId,
+            permission,
+            granted,
+            created_by: userData.user?.id || null,
+          },
+          { onConflict: "user_id,permission" }
+        );
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { userId }) => {
+      queryClient.invalidateQueries({ queryKey: ["user-permission-overrides", userId] });
+    },
+    onError: (error) => {
+      toast.error(`Failed to update permission: ${error.message}`);
+    },
+  });
+}
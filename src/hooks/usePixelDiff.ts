@@ -0,0 +1,116 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useJobInputs } from '@/hooks/useJobs';
+import { computePixelDiff, type HeadCrop, type PixelDiffResult } from '@/lib/pixelDiff';
+import { fixBrokenStorageUrl } from '@/lib/fileUtils';
+import type { SubmissionAsset } from '@/types/review';
+
+interface OriginalLook {
+  artifactId: string;
+  view: 'FRONT' | 'SIDE' | 'BACK' | null;
+  fileUrl: string;
+  sourceImageId: string | null;
+}
+
+export interface OutputPixelDiff extends PixelDiffResult {
+  originalArtifactId: string;
+}
+
+// Outputs are labelled by the freelancer, so the view is a best guess from the name
+function guessViewFromLabel(label: string | null): OriginalLook['view'] {
+  const text = (label || '').toLowerCase();
+  if (text.includes('back')) return 'BACK';
+  if (text.includes('side') || text.includes('detail')) return 'SIDE';
+  if (text.includes('front')) return 'FRONT';
+  return null;
+}
+
+/**
+ * Diff a FOUNDATION_FACE_REPLACE output against its LOOK_ORIGINAL_* input.
+ * When the view can't be told from the asset label, every original is tried
+ * and the closest match wins.
+ */
+export function useOutputPixelDiff(jobId: string | null, asset: SubmissionAsset | null, enabled: boolean) {
+  const { data: inputs = [] } = useJobInputs(enabled ? jobId : null);
+
+  const originals = useMemo<OriginalLook[]>(() => {
+    return inputs.flatMap(input => {
+      const artifact = input.artifact;
+      if (!artifact?.file_url || !artifact.type.startsWith('LOOK_ORIGINAL')) return [];
+      const metadata = (artifact.metadata || {}) as { source_image_id?: string };
+      const suffix = artifact.type.replace('LOOK_ORIGINAL', '').replace('_', '');
+      return [{
+        artifactId: artifact.id,
+        view: suffix === 'FRONT' || suffix === 'SIDE' || suffix === 'BACK' ? suffix : null,
+        fileUrl: artifact.file_url,
+        sourceImageId: metadata.source_image_id
+          || (artifact.source_table === 'look_source_images' ? artifact.source_id : null),
+      }];
+    });
+  }, [inputs]);
+
+  const sourceImageIds = originals
+    .map(o => o.sourceImageId)
+    .filter((id): id is string => !!id);
+
+  const { data: headCrops, isFetched: headCropsFetched } = useQuery({
+    queryKey: ['look-source-head-crops', sourceImageIds],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('look_source_images')
+        .select('id, source_url, head_crop_x, head_crop_y, head_crop_width, head_crop_height')
+        .in('id', sourceImageIds);
+
+      if (error) throw error;
+
+      const crops = new Map<string, HeadCrop>();
+      for (const row of data || []) {
+        if (row.head_crop_x === null || row.head_crop_y === null || !row.head_crop_width || !row.head_crop_height) {
+          continue;
+        }
+        crops.set(row.id, {
+          x: row.head_crop_x,
+          y: row.head_crop_y,
+          width: row.head_crop_width,
+          height: row.head_crop_height,
+          imageUrl: fixBrokenStorageUrl(row.source_url),
+        });
+      }
+      return crops;
+    },
+    enabled: enabled && sourceImageIds.length > 0,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const labelView = guessViewFromLabel(asset?.label || null);
+  const sameView = originals.filter(o => labelView && o.view === labelView);
+  const candidates = sameView.length > 0 ? sameView : originals;
+
+  return useQuery({
+    queryKey: ['pixel-diff', asset?.id, candidates.map(c => c.artifactId)],
+    queryFn: async (): Promise<OutputPixelDiff | null> => {
+      if (!asset?.file_url) return null;
+      const outputUrl = fixBrokenStorageUrl(asset.file_url);
+
+      let best: OutputPixelDiff | null = null;
+      for (const candidate of candidates) {
+        const result = await computePixelDiff({
+          outputUrl,
+          originalUrl: fixBrokenStorageUrl(candidate.fileUrl),
+          headCrop: (candidate.sourceImageId && headCrops?.get(candidate.sourceImageId)) || null,
+        });
+        if (!best || result.meanDifference < best.meanDifference) {
+          best = { ...result, originalArtifactId: candidate.artifactId };
+        }
+      }
+      return best;
+    },
+    enabled: enabled
+      && !!asset?.file_url
+      && candidates.length > 0
+      && (sourceImageIds.length === 0 || headCropsFetched),
+    staleTime: Infinity,
+    retry: false,
+  });
+}
@@ -0,0 +1,102 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import type { PromptPipeline, PromptVersion } from "@/lib/promptTemplates";
+
+/** All versions of a pipeline's prompt, newest first */
+export function usePromptVersions(pipeline: PromptPipeline) {
+  return useQuery({
+    queryKey: ["prompt-versions", pipeline],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("prompt_versions")
+        .select("*")
+        .eq("pipeline", pipeline)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return data as PromptVersion[];
+    },
+  });
+}
+
+export function useActivePromptVersion(pipeline: PromptPipeline) {
+  const { data: versions, ...rest } = usePromptVersions(pipeline);
+  return { data: versions?.find((v) => v.is_active) ?? null, ...rest };
+}
+
+export function useCreatePromptVersion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      pipeline,
+      version,
+      template,
+      notes,
+      activate,
+    }: {
+      pipeline: PromptPipeline;
+      version: string;
+      template: string;
+      notes: string | null;
+      activate: boolean;
+    }) => {
+      const { data: userData } = await supabase.auth.getUser();
+      const { data, error } = await supabase
+        .from("prompt_versions")
+        .insert({
+          pipeline,
+          version,
+          template,
+          notes,
+          created_by: userData.user?.id || null,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      if (activate) {
+        const { error: activateError } = await supabase.rpc("activate_prompt_version", {
+          _version_id: data.id,
+        });
+        if (activateError) throw activateError;
+      }
+
+      return data as PromptVersion;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["prompt-versions", data.pipeline] });
+      toast.success(`Saved ${data.version}`);
+    },
+    onError: (error) => {
+      const message = error.message.includes("prompt_versions_pipeline_version_key")
+        ? "A version with that name already exists"
+        : error.message;
+      toast.error(`Failed to save prompt: ${message}`);
+    },
+  });
+}
+
+export function useActivatePromptVersion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (version: PromptVersion) => {
+      const { error } = await supabase.rpc("activate_prompt_version", {
+        _version_id: version.id,
+      });
+
+      if (error) throw error;
+      return version;
+    },
+    onSuccess: (version) => {
+      queryClient.invalidateQueries({ queryKey: ["prompt-versions", version.pipeline] });
+      toast.success(`${version.version} is now active`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to activate prompt: ${error.message}`);
+    },
+  });
+}
@@ -1,7 +1,8 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import type { ReposeBatch, ReposeBatchItem, ReposeOutput, ReposeConfig, DEFAULT_REPOSE_CONFIG } from "@/types/repose";
+import type { Json } from "@/integrations/supabase/types";
+import type { ReposeBatch, ReposeBatchItem, ReposeOutput, ReposeConfig, ReposePoseOverrides, DEFAULT_REPOSE_CONFIG } from "@/types/repose";
 
 // Fetch a single batch by ID
 export function useReposeBatch(batchId: string | undefined) {
@@ -320,6 +321,35 @@ export function useMarkLooksExported() {
   });
 }
 
+// Set the pinned/excluded pose override for a look (all of its batch items)
+export function useUpdateLookPoseOverrides() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ 
+      batchItemIds, 
+      overrides 
+    }: { 
+      batchId: string;
+      batchItemIds: string[];
+      overrides: ReposePoseOverrides | null;
+    }) => {
+      const { error } = await supabase
+        .from("repose_batch_items")
+        .update({ pose_overrides: overrides as unknown as Json })
+        .in("id", batchItemIds);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { batchId }) => {
+      queryClient.invalidateQueries({ queryKey: ["repose-batch-items", batchId] });
+    },
+    onError: (error) => {
+      toast.error(`Failed to save pose overrides: ${error.message}`);
+    },
+  });
+}
+
 // Get approved jobs that are eligible for repose
 export function useEligibleJobsForRepose() {
   return useQuery({
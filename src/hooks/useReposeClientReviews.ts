@@ -0,0 +1,151 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { ALL_OUTPUT_SHOT_TYPES } from "@/types/shot-types";
+import type { LookWithOutputs } from "./useReposeSelection";
+import { defaultReviewLinkExpiry } from "@/lib/reviewLinks";
+
+export interface ReposeClientReviewSummary {
+  id: string;
+  name: string;
+  status: string;
+  created_at: string;
+  itemCount: number;
+  approvedCount: number;
+  rejectedCount: number;
+}
+
+export interface ReposeSelectionAuditEntry {
+  id: string;
+  output_id: string;
+  review_id: string | null;
+  source: string;
+  previous_is_favorite: boolean | null;
+  previous_rank: number | null;
+  new_is_favorite: boolean | null;
+  new_rank: number | null;
+  created_at: string;
+}
+
+// Client reviews sent from a repose batch, with decision counts
+export function useReposeClientReviews(batchId: string | undefined) {
+  return useQuery({
+    queryKey: ["repose-client-reviews", batchId],
+    queryFn: async () => {
+      if (!batchId) return [];
+
+      const { data: reviews, error } = await supabase
+        .from("client_reviews")
+        .select("id, name, status, created_at, client_review_items(count), client_review_decisions(decision)")
+        .eq("repose_batch_id", batchId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      return (reviews || []).map((review): ReposeClientReviewSummary => {
+        const decisions = review.client_review_decisions || [];
+        return {
+          id: review.id,
+          name: review.name,
+          status: review.status,
+          created_at: review.created_at,
+          itemCount: review.client_review_items?.[0]?.count ?? 0,
+          approvedCount: decisions.filter(d => d.decision === "approved").length,
+          rejectedCount: decisions.filter(d => d.decision === "rejected").length,
+        };
+      });
+    },
+    enabled: !!batchId,
+  });
+}
+
+// Favourite changes written back by client reviews
+export function useReposeSelectionAudit(batchId: string | undefined) {
+  return useQuery({
+    queryKey: ["repose-selection-audit", batchId],
+    queryFn: async () => {
+      if (!batchId) return [];
+
+      const { data, error } = await supabase
+        .from("repose_selection_audit")
+        .select("id, output_id, review_id, source, previous_is_favorite, previous_rank, new_is_favorite, new_rank, created_at")
+        .eq("batch_id", batchId)
+        .order("created_at", { ascending: false })
+        .limit(200);
+
+      if (error) throw error;
+      return (data || []) as ReposeSelectionAuditEntry[];
+    },
+    enabled: !!batchId,
+  });
+}
+
+// Create a client review from the current favourites of the given looks
+export function useCreateReposeClientReview() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      batchId,
+      name,
+      looks,
+    }: {
+      batchId: string;
+      name: string;
+      looks: LookWithOutputs[];
+    }) => {
+      const favorites = looks.flatMap(look =>
+        ALL_OUTPUT_SHOT_TYPES.flatMap(shotType =>
+          (look.outputsByView[shotType] || [])
+            .filter(o => o.is_favorite && o.result_url)
+            .sort((a, b) => (a.favorite_rank ?? 99) - (b.favorite_rank ?? 99))
+            .map(output => ({ look, shotType, output }))
+        )
+      );
+
+      if (favorites.length === 0) {
+        throw new Error("No favourites selected for these looks");
+      }
+
+      const { data: review, error: reviewError } = await supabase
+        .from("client_reviews")
+        .insert({
+          name,
+          password_hash: null,
+          status: "sent",
+          repose_batch_id: batchId,
+          expires_at: defaultReviewLinkExpiry(),
+        })
+        .select()
+        .single();
+
+      if (reviewError) throw reviewError;
+
+      const { error: itemsError } = await supabase
+        .from("client_review_items")
+        .insert(
+          favorites.map(({ look, shotType, output }, index) => ({
+            review_id: review.id,
+            repose_output_id: output.id,
+            shot_type: shotType,
+            slot: shotType,
+            look_code: look.lookCode,
+            image_url: output.result_url,
+            original_rank: output.favorite_rank,
+            position: index,
+          }))
+        );
+
+      if (itemsError) throw itemsError;
+
+      return { reviewId: review.id as string, itemCount: favorites.length };
+    },
+    onSuccess: (_, { batchId }) => {
+      queryClient.invalidateQueries({ queryKey: ["repose-client-reviews", batchId] });
+      toast.success("Client review created");
+    },
+    onError: (error) => {
+      toast.error(`Failed to create client review: ${error.message}`);
+    },
+  });
+}
@@ -0,0 +1,107 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { extendReviewLinkExpiry, getReviewLinkStatus, ReviewLinkStatus } from "@/lib/reviewLinks";
+
+export interface ReviewShareLink {
+  id: string;
+  name: string;
+  status: string;
+  created_at: string;
+  expires_at: string | null;
+  revoked_at: string | null;
+  last_accessed_at: string | null;
+  has_password: boolean;
+  is_repose: boolean;
+  linkStatus: ReviewLinkStatus;
+  failedAttempts24h: number;
+}
+
+// All client review links with their expiry, revocation and access state
+export function useReviewShareLinks() {
+  return useQuery({
+    queryKey: ["review-share-links"],
+    queryFn: async () => {
+      const { data: reviews, error } = await supabase
+        .from("client_reviews")
+        .select("id, name, status, created_at, expires_at, revoked_at, last_accessed_at, password_hash, repose_batch_id")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+
+      // Failed password attempts in the last day, to spot links under attack
+      const since = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
+      const { data: attempts } = await supabase
+        .from("client_review_access_attempts")
+        .select("review_id")
+        .eq("succeeded", false)
+        .gte("created_at", since);
+
+      const failedByReview = new Map<string, number>();
+      for (const attempt of attempts || []) {
+        failedByReview.set(attempt.review_id, (failedByReview.get(attempt.review_id) || 0) + 1);
+      }
+
+      return (reviews || []).map((review): ReviewShareLink => ({
+        id: review.id,
+        name: review.name,
+        status: review.status,
+        created_at: review.created_at,
+        expires_at: review.expires_at,
+        revoked_at: review.revoked_at,
+        last_accessed_at: review.last_accessed_at,
+        has_password: !!review.password_hash,
+        is_repose: !!review.repose_batch_id,
+        linkStatus: getReviewLinkStatus(review),
+        failedAttempts24h: failedByReview.get(review.id) || 0,
+      }));
+    },
+  });
+}
+
+export function useExtendReviewLink() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ link, days }: { link: ReviewShareLink; days: number }) => {
+      // Extending a revoked link does not reinstate it
+      const expiresAt = extendReviewLinkExpiry(link.expires_at, days);
+      const { error } = await supabase
+        .from("client_reviews")
+        .update({ expires_at: expiresAt })
+        .eq("id", link.id);
+
+      if (error) throw error;
+      return expiresAt;
+    },
+    onSuccess: (_, { days }) => {
+      queryClient.invalidateQueries({ queryKey: ["review-share-links"] });
+      toast.success(`Link extended by ${days} days`);
+    },
+    onError: (error) => {
+      toast.error(`Failed to extend link: ${error.message}`);
+    },
+  });
+}
+
+export function useSetReviewLinkRevoked() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ reviewId, revoked }: { reviewId: string; revoked: boolean }) => {
+      const { error } = await supabase
+        .from("client_reviews")
+        .update({ revoked_at: revoked ? new Date().toISOString() : null })
+        .eq("id", reviewId);
+
+      if (error) throw error;
+    },
+    onSuccess: (_, { revoked }) => {
+      queryClient.invalidateQueries({ queryKey: ["review-share-links"] });
+      toast.success(revoked ? "Link revoked" : "Link restored");
+    },
+    onError: (error) => {
+      toast.error(`Failed to update link: ${error.message}`);
+    },
+  });
+}
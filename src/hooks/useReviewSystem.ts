@@ -1,3 +1,4 @@
+import { useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import type { Json } from '@/integrations/supabase/types';
@@ -8,12 +9,19 @@ import type {
   ReviewComment, 
   ImageAnnotation,
   Notification,
+  MentionCandidate,
+  NotificationPreferences,
+  NotificationType,
   SubmissionStatus,
   CommentVisibility,
   AnnotationRect,
+  AnnotationPoint,
+  AnnotationStyle,
+  AnnotationGeometry,
   ThreadScope,
   AssetReviewStatus
 } from '@/types/review';
+import { exportReviewFeedback, type FeedbackExportFormat } from '@/lib/reviewFeedbackExport';
 
 // ============ SUBMISSIONS ============
 
@@ -587,6 +595,83 @@ export function useAddComment() {
   });
 }
 
+// ============ MENTIONS ============
+
+// People who can be @mentioned on a submission: internal users plus the
+// freelancer identities that have worked on the job
+export function useMentionCandidates(submissionId: string | null) {
+  return useQuery({
+    queryKey: ['mention-candidates', submissionId],
+    queryFn: async () => {
+      if (!submissionId) return [];
+
+      const { data: submission } = await supabase
+        .from('job_submissions')
+        .select('job_id, job:unified_jobs(freelancer_identity_id)')
+        .eq('id', submissionId)
+        .maybeSingle();
+
+      const candidates: MentionCandidate[] = [];
+
+      // Roles are only readable by internal users, so freelancers just get the job's people
+      const { data: roles } = await supabase
+        .from('user_roles')
+        .select('user_id')
+        .in('role', ['admin', 'internal']);
+
+      const internalIds = Array.from(new Set((roles || []).map(r => r.user_id)));
+      if (internalIds.length > 0) {
+        const { data: users } = await supabase
+          .from('users')
+          .select('id, display_name, email')
+          .in('id', internalIds);
+
+        for (const user of users || []) {
+          candidates.push({
+            kind: 'user',
+            id: user.id,
+            name: user.display_name || user.email.split('@')[0],
+            detail: user.email,
+          });
+        }
+      }
+
+      if (submission?.job_id) {
+        const { data: jobSubmissions } = await supabase
+          .from('job_submissions')
+          .select('freelancer_identity_id')
+          .eq('job_id', submission.job_id);
+
+        const identityIds = new Set<string>();
+        if (submission.job?.freelancer_identity_id) identityIds.add(submission.job.freelancer_identity_id);
+        for (const row of jobSubmissions || []) {
+          if (row.freelancer_identity_id) identityIds.add(row.freelancer_identity_id);
+        }
+
+        if (identityIds.size > 0) {
+          const { data: identities } = await supabase
+            .from('freelancer_identities')
+            .select('id, first_name, last_name, display_name')
+            .in('id', Array.from(identityIds));
+
+          for (const identity of identities || []) {
+            candidates.push({
+              kind: 'freelancer',
+              id: identity.id,
+              name: identity.display_name || `${identity.first_name} ${identity.last_name}`.trim(),
+              detail: 'Freelancer',
+            });
+          }
+        }
+      }
+
+      return candidates.sort((a, b) => a.name.localeCompare(b.name));
+    },
+    enabled: !!submissionId,
+    staleTime: 5 * 60 * 1000,
+  });
+}
+
 // ============ ANNOTATIONS ============
 
 export function useAssetAnnotations(assetId: string | null) {
@@ -605,11 +690,12 @@ export function useAssetAnnotations(assetId: string | null) {
       
       if (error) throw error;
       
-      // Parse rect and style from JSON
+      // Parse rect, points and style from JSON
       return data.map(a => ({
         ...a,
         rect: a.rect as unknown as AnnotationRect,
-        style: a.style as unknown as { rounded: boolean },
+        points: a.points as unknown as AnnotationPoint[] | null,
+        style: a.style as unknown as AnnotationStyle,
       })) as ImageAnnotation[];
     },
     enabled: !!assetId,
@@ -622,11 +708,11 @@ export function useCreateAnnotation() {
   return useMutation({
     mutationFn: async ({
       assetId,
-      rect,
+      geometry,
       submissionId,
     }: {
       assetId: string;
-      rect: AnnotationRect;
+      geometry: AnnotationGeometry;
       submissionId: string;
     }) => {
       const { data: { user } } = await supabase.auth.getUser();
@@ -637,8 +723,10 @@ export function useCreateAnnotation() {
         .insert([{
           asset_id: assetId,
           created_by_user_id: user?.id,
-          rect: JSON.parse(JSON.stringify(rect)) as Json,
-          style: { rounded: true } as Json,
+          shape_type: geometry.shape_type,
+          rect: JSON.parse(JSON.stringify(geometry.rect)) as Json,
+          points: geometry.points ? JSON.parse(JSON.stringify(geometry.points)) as Json : null,
+          style: JSON.parse(JSON.stringify(geometry.style)) as Json,
         }])
         .select()
         .single();
@@ -687,6 +775,51 @@ export function useDeleteAnnotation() {
   });
 }
 
+// ============ FEEDBACK EXPORT ============
+
+export function useExportReviewFeedback() {
+  return useMutation({
+    mutationFn: async ({
+      assets,
+      threads,
+      title,
+      exportFormat,
+    }: {
+      assets: SubmissionAsset[];
+      threads: ReviewThread[];
+      title: string;
+      exportFormat: FeedbackExportFormat;
+    }) => {
+      const assetIds = assets.map(a => a.id);
+      if (assetIds.length === 0) throw new Error('No assets to export');
+
+      const { data, error } = await supabase
+        .from('image_annotations')
+        .select('*')
+        .in('asset_id', assetIds)
+        .order('created_at');
+
+      if (error) throw error;
+
+      const annotations = data.map(a => ({
+        ...a,
+        rect: a.rect as unknown as AnnotationRect,
+        points: a.points as unknown as AnnotationPoint[] | null,
+        style: a.style as unknown as AnnotationStyle,
+      })) as ImageAnnotation[];
+
+      await exportReviewFeedback(
+        assets.map(asset => ({
+          asset,
+          annotations: annotations.filter(a => a.asset_id === asset.id),
+          threads: threads.filter(t => t.asset_id === asset.id),
+        })),
+        { title, exportFormat }
+      );
+    },
+  });
+}
+
 // ============ ASSET DELETION ============
 
 export function useDeleteAsset() {
@@ -771,22 +904,41 @@ export function useDeleteAsset() {
 
 // ============ NOTIFICATIONS ============
 
+// Types the user has hidden from the in-app feed
+async function fetchMutedNotificationTypes(userId: string): Promise<NotificationType[]> {
+  const { data } = await supabase
+    .from('notification_preferences')
+    .select('muted_types')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  return (data?.muted_types || []) as NotificationType[];
+}
+
 export function useNotifications() {
   return useQuery({
     queryKey: ['notifications'],
     queryFn: async () => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return [];
-      
-      const { data, error } = await supabase
+
+      const mutedTypes = await fetchMutedNotificationTypes(user.id);
+
+      let query = supabase
         .from('notifications')
-        .select('*')
+        .select('*, job:unified_jobs(id, title)')
         .eq('user_id', user.id)
         .order('created_at', { ascending: false })
         .limit(50);
+
+      if (mutedTypes.length > 0) {
+        query = query.not('type', 'in', `(${mutedTypes.join(',')})`);
+      }
+
+      const { data, error } = await query;
       
       if (error) throw error;
-      return data as Notification[];
+      return data as unknown as Notification[];
     },
   });
 }
@@ -797,12 +949,20 @@ export function useUnreadNotificationCount() {
     queryFn: async () => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return 0;
-      
-      const { count, error } = await supabase
+
+      const mutedTypes = await fetchMutedNotificationTypes(user.id);
+
+      let query = supabase
         .from('notifications')
         .select('*', { count: 'exact', head: true })
         .eq('user_id', user.id)
         .is('read_at', null);
+
+      if (mutedTypes.length > 0) {
+        query = query.not('type', 'in', `(${mutedTypes.join(',')})`);
+      }
+
+      const { count, error } = await query;
       
       if (error) throw error;
       return count || 0;
@@ -810,6 +970,42 @@ export function useUnreadNotificationCount() {
   });
 }
 
+// Live updates for the current user's notifications
+export function useNotificationsRealtime(
+  userId: string | null | undefined,
+  onNotification?: (notification: Notification) => void
+) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`notifications-${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          queryClient.invalidateQueries({ queryKey: ['notifications'] });
+          queryClient.invalidateQueries({ queryKey: ['unread-notification-count'] });
+          if (payload.eventType === 'INSERT') {
+            onNotification?.(payload.new as Notification);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, queryClient, onNotification]);
+}
+
 export function useMarkNotificationRead() {
   const queryClient = useQueryClient();
   
@@ -829,6 +1025,29 @@ export function useMarkNotificationRead() {
   });
 }
 
+export function useMarkAllNotificationsRead() {
+  const queryClient = useQueryClient();
+  
+  return useMutation({
+    mutationFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const { error } = await supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('user_id', user.id)
+        .is('read_at', null);
+      
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+      queryClient.invalidateQueries({ queryKey: ['unread-notification-count'] });
+    },
+  });
+}
+
 export function useCreateNotification() {
   const queryClient = useQueryClient();
   
@@ -873,6 +1092,60 @@ export function useCreateNotification() {
   });
 }
 
+// ============ NOTIFICATION PREFERENCES ============
+
+const DEFAULT_NOTIFICATION_PREFERENCES: Omit<NotificationPreferences, 'user_id'> = {
+  muted_types: [],
+  email_digest: 'daily',
+  email_muted_types: [],
+  last_digest_sent_at: null,
+};
+
+export function useNotificationPreferences() {
+  return useQuery({
+    queryKey: ['notification-preferences'],
+    queryFn: async () => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return null;
+
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('*')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      // No row yet means the user is on the defaults
+      return (data || { user_id: user.id, ...DEFAULT_NOTIFICATION_PREFERENCES }) as NotificationPreferences;
+    },
+  });
+}
+
+export function useUpdateNotificationPreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (
+      updates: Partial<Pick<NotificationPreferences, 'muted_types' | 'email_digest' | 'email_muted_types'>>
+    ) => {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not signed in');
+
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert({ user_id: user.id, ...updates }, { onConflict: 'user_id' });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['notification-preferences'] });
+      // Muted types change what the feed and badge show
+      queryClient.invalidateQueries({ queryKey: ['notifications'] });
+      queryClient.invalidateQueries({ queryKey: ['unread-notification-count'] });
+    },
+  });
+}
+
 // ============ RESUBMISSION WITH REPLACEMENTS ============
 // New asset-centric model: replaces assets in-place using superseded_by
 
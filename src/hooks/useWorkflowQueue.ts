@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
-import { WorkflowQueueItem } from '@/types/optimised-workflow';
+import { WorkflowQueueItem, WorkflowLookWithDetails } from '@/types/optimised-workflow';
 import { useToast } from '@/hooks/use-toast';
 
 const STALL_THRESHOLD_MINUTES = 10;
@@ -188,3 +188,72 @@ export function useCancelQueueItem() {
     },
   });
 }
+
+export type WorkflowJobType = 'crop' | 'match' | 'generate';
+
+interface EnqueueWorkflowJobsParams {
+  projectId: string;
+  looks: WorkflowLookWithDetails[];
+  jobType: WorkflowJobType;
+  attemptsPerImage?: number;
+  priority?: number;
+}
+
+export function useEnqueueWorkflowJobs() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({
+      projectId,
+      looks,
+      jobType,
+      attemptsPerImage = 1,
+      priority = 0,
+    }: EnqueueWorkflowJobsParams) => {
+      const rows = looks.flatMap(look =>
+        look.images.flatMap(image =>
+          Array.from({ length: attemptsPerImage }, () => ({
+            project_id: projectId,
+            look_id: look.id,
+            image_id: image.id,
+            view: image.view,
+            job_type: jobType,
+            status: 'queued',
+            priority,
+            metadata: { generation_run: look.generation_run_count + 1 },
+          }))
+        )
+      );
+
+      if (rows.length === 0) return 0;
+
+      const { error } = await supabase.from('workflow_queue').insert(rows);
+      if (error) throw error;
+
+      // Kick the server-side worker; it keeps itself alive until the queue drains
+      const { error: invokeError } = await supabase.functions.invoke('process-workflow-queue', {
+        body: {},
+      });
+      if (invokeError) {
+        console.error('Failed to start workflow queue worker:', invokeError);
+      }
+
+      return rows.length;
+    },
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['workflow-queue'] });
+      toast({
+        title: 'Jobs queued',
+        description: `${count} jobs have been added to the queue.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: 'Error queueing jobs',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+}
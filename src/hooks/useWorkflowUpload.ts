@@ -8,6 +8,9 @@ import {
   OutputFormat,
 } from '@/types/optimised-workflow';
 import { useToast } from '@/hooks/use-toast';
+import { fetchBrandImportProfile } from '@/hooks/useBrandImportProfiles';
+import { ImportProfile, getFilePath, parseWithProfile, registerFilePath } from '@/lib/importProfiles';
+import { computeContentHash } from '@/lib/fileUtils';
 
 // Check if file is a TIFF
 function isTiff(file: File): boolean {
@@ -68,6 +71,19 @@ function inferViewType(filename: string): WorkflowView | 'unknown' {
   return 'unknown';
 }
 
+// Parse look code and view with the brand's import profile, falling back to the built-in rules
+function parseFileName(file: File, profile: ImportProfile | null): { lookCode: string; inferredView: WorkflowView | 'unknown' } {
+  if (!profile) {
+    return { lookCode: extractLookCode(file.name), inferredView: inferViewType(file.name) };
+  }
+
+  const parsed = parseWithProfile(getFilePath(file), profile);
+  return {
+    lookCode: parsed.lookKey || extractLookCode(file.name),
+    inferredView: parsed.view === 'front' ? 'full_front' : parsed.view ?? 'unknown',
+  };
+}
+
 // Check if file is a supported image
 function isSupportedImage(file: File): boolean {
   const supportedTypes = ['image/tiff', 'image/jpeg', 'image/png', 'image/webp'];
@@ -79,28 +95,16 @@ function isSupportedImage(file: File): boolean {
   return supportedExtensions.includes(ext);
 }
 
-// Simple hash function for file content (not cryptographic, but fast)
-async function generateFileChecksum(file: File): Promise<string> {
-  const buffer = await file.arrayBuffer();
-  const bytes = new Uint8Array(buffer);
-  
-  // Simple hash: sample bytes at intervals and combine
-  let hash = 0;
-  const step = Math.max(1, Math.floor(bytes.length / 1000));
-  
-  for (let i = 0; i < bytes.length; i += step) {
-    hash = ((hash << 5) - hash + bytes[i]) | 0;
-  }
-  
-  return `${hash.toString(16)}-${file.size}-${file.lastModified}`;
-}
-
 // Get all files from a dropped folder
 async function getFilesFromEntry(entry: FileSystemEntry): Promise<File[]> {
   if (entry.isFile) {
     return new Promise((resolve) => {
       (entry as FileSystemFileEntry).file(
-        (file) => resolve(isSupportedImage(file) ? [file] : []),
+        (file) => {
+          if (!isSupportedImage(file)) return resolve([]);
+          registerFilePath(file, entry.fullPath);
+          resolve([file]);
+        },
         () => resolve([])
       );
     });
@@ -189,22 +193,37 @@ export function useWorkflowUpload(projectId: string | null) {
 
     const { data: existingImages } = await supabase
       .from('workflow_images')
-      .select('look_id, view, file_checksum')
+      .select('look_id, view, file_checksum, content_hash')
       .in('look_id', (existingLooks || []).map(l => l.id));
 
     const existingChecksums = new Set(
-      (existingImages || []).map(img => `${img.look_id}:${img.view}:${img.file_checksum}`)
+      (existingImages || []).map(img => `${img.look_id}:${img.view}:${img.content_hash || img.file_checksum}`)
     );
 
     const lookIdByCode = new Map(
       (existingLooks || []).map(l => [l.look_code, l.id])
     );
 
+    // Use the brand's filename rules when the project has a brand with a profile
+    const { data: project } = await supabase
+      .from('workflow_projects')
+      .select('brand_id')
+      .eq('id', projectId)
+      .single();
+
+    let importProfile: ImportProfile | null = null;
+    if (project?.brand_id) {
+      try {
+        importProfile = await fetchBrandImportProfile(project.brand_id);
+      } catch (err) {
+        console.warn('Failed to load brand import profile, using built-in rules:', err);
+      }
+    }
+
     // Process each file
     for (const file of files) {
-      const lookCode = extractLookCode(file.name);
-      const inferredView = inferViewType(file.name);
-      const checksum = await generateFileChecksum(file);
+      const { lookCode, inferredView } = parseFileName(file, importProfile);
+      const checksum = await computeContentHash(file);
       const needsConversion = isTiff(file);
       
       if (needsConversion) tiffCount++;
@@ -221,6 +240,7 @@ export function useWorkflowUpload(projectId: string | null) {
         filename: file.name,
         isDuplicate,
         needsConversion,
+        contentHash: checksum,
       };
 
       parsed.push(parsedFile);
@@ -314,7 +334,7 @@ export function useWorkflowUpload(projectId: string | null) {
         const lookId = lookIds.get(file.lookCode);
         if (!lookId) continue;
 
-        const checksum = await generateFileChecksum(file.file);
+        const checksum = file.contentHash || await computeContentHash(file.file);
         const originalExt = file.filename.split('.').pop()?.toLowerCase() || 'jpg';
         const finalExt = needsConversion ? targetFormat : originalExt;
         const storagePath = `workflow/${projectId}/${lookId}/${Date.now()}-${file.inferredView}.${finalExt}`;
@@ -384,6 +404,7 @@ export function useWorkflowUpload(projectId: string | null) {
           view: file.inferredView === 'unknown' ? 'full_front' : file.inferredView,
           original_url: finalUrl,
           file_checksum: checksum,
+          content_hash: checksum,
           filename: file.filename,
         });
 
@@ -99,7 +99,9 @@ export type Database = {
           job_id: string | null
           look_id: string | null
           needs_human_fix: boolean | null
+          perceptual_hash: string | null
           prompt_version: string | null
+          prompt_version_id: string | null
           status: string | null
           stored_url: string | null
           view: string
@@ -118,7 +120,9 @@ export type Database = {
           job_id?: string | null
           look_id?: string | null
           needs_human_fix?: boolean | null
+          perceptual_hash?: string | null
           prompt_version?: string | null
+          prompt_version_id?: string | null
           status?: string | null
           stored_url?: string | null
           view: string
@@ -137,7 +141,9 @@ export type Database = {
           job_id?: string | null
           look_id?: string | null
           needs_human_fix?: boolean | null
+          perceptual_hash?: string | null
           prompt_version?: string | null
+          prompt_version_id?: string | null
           status?: string | null
           stored_url?: string | null
           view?: string
@@ -157,6 +163,13 @@ export type Database = {
             referencedRelation: "talent_looks"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "ai_apply_outputs_prompt_version_id_fkey"
+            columns: ["prompt_version_id"]
+            isOneToOne: false
+            referencedRelation: "prompt_versions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       ai_apply_prompt_templates: {
@@ -186,6 +199,178 @@ export type Database = {
         }
         Relationships: []
       }
+      ai_budgets: {
+        Row: {
+          brand_id: string | null
+          created_at: string
+          created_by: string | null
+          enforcement: string
+          id: string
+          limit_usd: number
+          period: string
+          project_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          brand_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          enforcement?: string
+          id?: string
+          limit_usd: number
+          period?: string
+          project_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          brand_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          enforcement?: string
+          id?: string
+          limit_usd?: number
+          period?: string
+          project_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_budgets_brand_id_fkey"
+            columns: ["brand_id"]
+            isOneToOne: false
+            referencedRelation: "brands"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_budgets_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_budgets_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "production_projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ai_model_prices: {
+        Row: {
+          image_size: string
+          model: string
+          unit_cost_usd: number
+          updated_at: string
+        }
+        Insert: {
+          image_size?: string
+          model: string
+          unit_cost_usd: number
+          updated_at?: string
+        }
+        Update: {
+          image_size?: string
+          model?: string
+          unit_cost_usd?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      ai_usage_ledger: {
+        Row: {
+          batch_id: string | null
+          brand_id: string | null
+          created_at: string
+          error_status: number | null
+          estimated_cost_usd: number | null
+          function_name: string
+          id: string
+          image_size: string | null
+          images_generated: number
+          metadata: Json
+          model: string
+          pipeline_job_id: string | null
+          project_id: string | null
+          provider: string
+          succeeded: boolean
+          user_id: string | null
+        }
+        Insert: {
+          batch_id?: string | null
+          brand_id?: string | null
+          created_at?: string
+          error_status?: number | null
+          estimated_cost_usd?: number | null
+          function_name: string
+          id?: string
+          image_size?: string | null
+          images_generated?: number
+          metadata?: Json
+          model: string
+          pipeline_job_id?: string | null
+          project_id?: string | null
+          provider: string
+          succeeded: boolean
+          user_id?: string | null
+        }
+        Update: {
+          batch_id?: string | null
+          brand_id?: string | null
+          created_at?: string
+          error_status?: number | null
+          estimated_cost_usd?: number | null
+          function_name?: string
+          id?: string
+          image_size?: string | null
+          images_generated?: number
+          metadata?: Json
+          model?: string
+          pipeline_job_id?: string | null
+          project_id?: string | null
+          provider?: string
+          succeeded?: boolean
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ai_usage_ledger_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "repose_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_usage_ledger_brand_id_fkey"
+            columns: ["brand_id"]
+            isOneToOne: false
+            referencedRelation: "brands"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_usage_ledger_pipeline_job_id_fkey"
+            columns: ["pipeline_job_id"]
+            isOneToOne: false
+            referencedRelation: "pipeline_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_usage_ledger_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "production_projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ai_usage_ledger_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       audit_events: {
         Row: {
           action: string
@@ -307,18 +492,21 @@ export type Database = {
         Row: {
           created_at: string
           id: string
+          import_profile: Json | null
           name: string
           start_url: string
         }
         Insert: {
           created_at?: string
           id?: string
+          import_profile?: Json | null
           name: string
           start_url: string
         }
         Update: {
           created_at?: string
           id?: string
+          import_profile?: Json | null
           name?: string
           start_url?: string
         }
@@ -329,18 +517,21 @@ export type Database = {
           created_at: string
           id: string
           product_image_id: string
+          prompt_version_id: string | null
           stored_url: string
         }
         Insert: {
           created_at?: string
           id?: string
           product_image_id: string
+          prompt_version_id?: string | null
           stored_url: string
         }
         Update: {
           created_at?: string
           id?: string
           product_image_id?: string
+          prompt_version_id?: string | null
           stored_url?: string
         }
         Relationships: [
@@ -351,6 +542,86 @@ export type Database = {
             referencedRelation: "product_images"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "clay_images_prompt_version_id_fkey"
+            columns: ["prompt_version_id"]
+            isOneToOne: false
+            referencedRelation: "prompt_versions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_review_access_attempts: {
+        Row: {
+          created_at: string
+          id: string
+          ip_address: string
+          review_id: string
+          succeeded: boolean
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          ip_address: string
+          review_id: string
+          succeeded?: boolean
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          ip_address?: string
+          review_id?: string
+          succeeded?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_review_access_attempts_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "client_reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_review_decisions: {
+        Row: {
+          created_at: string
+          decision: string
+          id: string
+          look_code: string
+          ranked_output_ids: string[]
+          review_id: string
+          shot_type: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          decision: string
+          id?: string
+          look_code: string
+          ranked_output_ids?: string[]
+          review_id: string
+          shot_type: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          decision?: string
+          id?: string
+          look_code?: string
+          ranked_output_ids?: string[]
+          review_id?: string
+          shot_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_review_decisions_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "client_reviews"
+            referencedColumns: ["id"]
+          },
         ]
       }
       client_review_feedback: {
@@ -361,6 +632,8 @@ export type Database = {
           is_favorite: boolean | null
           item_id: string | null
           look_id: string | null
+          pin_x: number | null
+          pin_y: number | null
           review_id: string
           updated_at: string
         }
@@ -371,6 +644,8 @@ export type Database = {
           is_favorite?: boolean | null
           item_id?: string | null
           look_id?: string | null
+          pin_x?: number | null
+          pin_y?: number | null
           review_id: string
           updated_at?: string
         }
@@ -381,6 +656,8 @@ export type Database = {
           is_favorite?: boolean | null
           item_id?: string | null
           look_id?: string | null
+          pin_x?: number | null
+          pin_y?: number | null
           review_id?: string
           updated_at?: string
         }
@@ -411,29 +688,44 @@ export type Database = {
       client_review_items: {
         Row: {
           created_at: string
-          generation_id: string
+          generation_id: string | null
           id: string
+          image_url: string | null
+          look_code: string | null
           look_id: string | null
+          original_rank: number | null
           position: number
+          repose_output_id: string | null
           review_id: string
+          shot_type: string | null
           slot: string
         }
         Insert: {
           created_at?: string
-          generation_id: string
+          generation_id?: string | null
           id?: string
+          image_url?: string | null
+          look_code?: string | null
           look_id?: string | null
+          original_rank?: number | null
           position?: number
+          repose_output_id?: string | null
           review_id: string
+          shot_type?: string | null
           slot: string
         }
         Update: {
           created_at?: string
-          generation_id?: string
+          generation_id?: string | null
           id?: string
+          image_url?: string | null
+          look_code?: string | null
           look_id?: string | null
+          original_rank?: number | null
           position?: number
+          repose_output_id?: string | null
           review_id?: string
+          shot_type?: string | null
           slot?: string
         }
         Relationships: [
@@ -451,6 +743,13 @@ export type Database = {
             referencedRelation: "talent_looks"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "client_review_items_repose_output_id_fkey"
+            columns: ["repose_output_id"]
+            isOneToOne: false
+            referencedRelation: "repose_outputs"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "client_review_items_review_id_fkey"
             columns: ["review_id"]
@@ -463,31 +762,43 @@ export type Database = {
       client_reviews: {
         Row: {
           created_at: string
+          expires_at: string | null
           generation_job_id: string | null
           id: string
+          last_accessed_at: string | null
           name: string
           password_hash: string | null
           project_id: string | null
+          repose_batch_id: string | null
+          revoked_at: string | null
           status: string
           updated_at: string
         }
         Insert: {
           created_at?: string
+          expires_at?: string | null
           generation_job_id?: string | null
           id?: string
+          last_accessed_at?: string | null
           name: string
           password_hash?: string | null
           project_id?: string | null
+          repose_batch_id?: string | null
+          revoked_at?: string | null
           status?: string
           updated_at?: string
         }
         Update: {
           created_at?: string
+          expires_at?: string | null
           generation_job_id?: string | null
           id?: string
+          last_accessed_at?: string | null
           name?: string
           password_hash?: string | null
           project_id?: string | null
+          repose_batch_id?: string | null
+          revoked_at?: string | null
           status?: string
           updated_at?: string
         }
@@ -506,6 +817,66 @@ export type Database = {
             referencedRelation: "external_projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "client_reviews_repose_batch_id_fkey"
+            columns: ["repose_batch_id"]
+            isOneToOne: false
+            referencedRelation: "repose_batches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      crop_calibration_profiles: {
+        Row: {
+          above_face_multiplier: number
+          below_face_multiplier: number
+          brand_name: string
+          created_at: string
+          created_by: string | null
+          horizontal_padding: number
+          id: string
+          mean_error_after: number
+          mean_error_before: number
+          sample_count: number
+          updated_at: string
+          view_type: string
+        }
+        Insert: {
+          above_face_multiplier: number
+          below_face_multiplier: number
+          brand_name: string
+          created_at?: string
+          created_by?: string | null
+          horizontal_padding: number
+          id?: string
+          mean_error_after: number
+          mean_error_before: number
+          sample_count: number
+          updated_at?: string
+          view_type: string
+        }
+        Update: {
+          above_face_multiplier?: number
+          below_face_multiplier?: number
+          brand_name?: string
+          created_at?: string
+          created_by?: string | null
+          horizontal_padding?: number
+          id?: string
+          mean_error_after?: number
+          mean_error_before?: number
+          sample_count?: number
+          updated_at?: string
+          view_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "crop_calibration_profiles_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
         ]
       }
       crop_corrections: {
@@ -514,11 +885,16 @@ export type Database = {
           ai_crop_width: number
           ai_crop_x: number
           ai_crop_y: number
+          aspect_ratio: string | null
           created_at: string
           delta_height: number | null
           delta_width: number | null
           delta_x: number | null
           delta_y: number | null
+          face_height: number | null
+          face_width: number | null
+          face_x: number | null
+          face_y: number | null
           id: string
           scrape_image_id: string
           scrape_run_id: string
@@ -538,6 +914,10 @@ export type Database = {
           delta_width?: number | null
           delta_x?: number | null
           delta_y?: number | null
+          face_height?: number | null
+          face_width?: number | null
+          face_x?: number | null
+          face_y?: number | null
           id?: string
           scrape_image_id: string
           scrape_run_id: string
@@ -552,11 +932,16 @@ export type Database = {
           ai_crop_width?: number
           ai_crop_x?: number
           ai_crop_y?: number
+          aspect_ratio?: string | null
           created_at?: string
           delta_height?: number | null
           delta_width?: number | null
           delta_x?: number | null
           delta_y?: number | null
+          face_height?: number | null
+          face_width?: number | null
+          face_x?: number | null
+          face_y?: number | null
           id?: string
           scrape_image_id?: string
           scrape_run_id?: string
@@ -962,6 +1347,7 @@ export type Database = {
           output_id: string | null
           project_id: string
           prompt: string
+          prompt_version_id: string | null
           recipe_id: string
           retry_after: string | null
           started_at: string | null
@@ -981,6 +1367,7 @@ export type Database = {
           output_id?: string | null
           project_id: string
           prompt: string
+          prompt_version_id?: string | null
           recipe_id: string
           retry_after?: string | null
           started_at?: string | null
@@ -1000,6 +1387,7 @@ export type Database = {
           output_id?: string | null
           project_id?: string
           prompt?: string
+          prompt_version_id?: string | null
           recipe_id?: string
           retry_after?: string | null
           started_at?: string | null
@@ -1013,6 +1401,13 @@ export type Database = {
             referencedRelation: "jobs"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "expression_render_queue_prompt_version_id_fkey"
+            columns: ["prompt_version_id"]
+            isOneToOne: false
+            referencedRelation: "prompt_versions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       external_clients: {
@@ -1126,6 +1521,8 @@ export type Database = {
           job_id: string | null
           look_source_image_id: string | null
           outfit_description: string | null
+          perceptual_hash: string | null
+          prompt_version_id: string | null
           status: string | null
           stored_url: string | null
           view: string
@@ -1140,6 +1537,8 @@ export type Database = {
           job_id?: string | null
           look_source_image_id?: string | null
           outfit_description?: string | null
+          perceptual_hash?: string | null
+          prompt_version_id?: string | null
           status?: string | null
           stored_url?: string | null
           view: string
@@ -1154,6 +1553,8 @@ export type Database = {
           job_id?: string | null
           look_source_image_id?: string | null
           outfit_description?: string | null
+          perceptual_hash?: string | null
+          prompt_version_id?: string | null
           status?: string | null
           stored_url?: string | null
           view?: string
@@ -1173,6 +1574,13 @@ export type Database = {
             referencedRelation: "look_source_images"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "face_application_outputs_prompt_version_id_fkey"
+            columns: ["prompt_version_id"]
+            isOneToOne: false
+            referencedRelation: "prompt_versions"
+            referencedColumns: ["id"]
+          },
         ]
       }
       face_application_projects: {
@@ -1253,6 +1661,9 @@ export type Database = {
         Row: {
           bounding_boxes: Json | null
           created_at: string
+          embedded_at: string | null
+          embedding: number[] | null
+          embedding_model: string | null
           face_count: number
           id: string
           primary_box_index: number | null
@@ -1262,6 +1673,9 @@ export type Database = {
         Insert: {
           bounding_boxes?: Json | null
           created_at?: string
+          embedded_at?: string | null
+          embedding?: number[] | null
+          embedding_model?: string | null
           face_count?: number
           id?: string
           primary_box_index?: number | null
@@ -1271,6 +1685,9 @@ export type Database = {
         Update: {
           bounding_boxes?: Json | null
           created_at?: string
+          embedded_at?: string | null
+          embedding?: number[] | null
+          embedding_model?: string | null
           face_count?: number
           id?: string
           primary_box_index?: number | null
@@ -1689,6 +2106,7 @@ export type Database = {
       face_scrape_runs: {
         Row: {
           brand_name: string
+          cluster_distance_threshold: number
           created_at: string
           id: string
           images_per_product: number
@@ -1703,6 +2121,7 @@ export type Database = {
         }
         Insert: {
           brand_name: string
+          cluster_distance_threshold?: number
           created_at?: string
           id?: string
           images_per_product?: number
@@ -1717,6 +2136,7 @@ export type Database = {
         }
         Update: {
           brand_name?: string
+          cluster_distance_threshold?: number
           created_at?: string
           id?: string
           images_per_product?: number
@@ -1746,7 +2166,9 @@ export type Database = {
           first_seen_at: string | null
           id: string
           last_active_at: string | null
+          linked_at: string | null
           last_name: string
+          user_id: string | null
         }
         Insert: {
           display_name?: string | null
@@ -1754,7 +2176,9 @@ export type Database = {
           first_seen_at?: string | null
           id?: string
           last_active_at?: string | null
+          linked_at?: string | null
           last_name: string
+          user_id?: string | null
         }
         Update: {
           display_name?: string | null
@@ -1762,9 +2186,19 @@ export type Database = {
           first_seen_at?: string | null
           id?: string
           last_active_at?: string | null
+          linked_at?: string | null
           last_name?: string
+          user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "freelancer_identities_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       generation_jobs: {
         Row: {
@@ -1923,6 +2357,7 @@ export type Database = {
           created_at: string
           created_by_user_id: string | null
           id: string
+          points: Json | null
           rect: Json
           shape_type: Database["public"]["Enums"]["annotation_shape"]
           style: Json
@@ -1932,6 +2367,7 @@ export type Database = {
           created_at?: string
           created_by_user_id?: string | null
           id?: string
+          points?: Json | null
           rect?: Json
           shape_type?: Database["public"]["Enums"]["annotation_shape"]
           style?: Json
@@ -1941,6 +2377,7 @@ export type Database = {
           created_at?: string
           created_by_user_id?: string | null
           id?: string
+          points?: Json | null
           rect?: Json
           shape_type?: Database["public"]["Enums"]["annotation_shape"]
           style?: Json
@@ -1968,6 +2405,8 @@ export type Database = {
           created_by: string | null
           email: string | null
           expires_at: string
+          failed_pin_attempts: number
+          freelancer_identity_id: string | null
           id: string
           job_id: string | null
           pin_code: string | null
@@ -1981,6 +2420,8 @@ export type Database = {
           created_by?: string | null
           email?: string | null
           expires_at: string
+          failed_pin_attempts?: number
+          freelancer_identity_id?: string | null
           id?: string
           job_id?: string | null
           pin_code?: string | null
@@ -1994,6 +2435,8 @@ export type Database = {
           created_by?: string | null
           email?: string | null
           expires_at?: string
+          failed_pin_attempts?: number
+          freelancer_identity_id?: string | null
           id?: string
           job_id?: string | null
           pin_code?: string | null
@@ -2010,6 +2453,13 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "invites_freelancer_identity_id_fkey"
+            columns: ["freelancer_identity_id"]
+            isOneToOne: false
+            referencedRelation: "freelancer_identities"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "invites_job_id_fkey"
             columns: ["job_id"]
@@ -2265,6 +2715,36 @@ export type Database = {
           },
         ]
       }
+      job_type_slas: {
+        Row: {
+          auto_reclaim: boolean
+          created_at: string
+          first_submission_hours: number
+          job_type: Database["public"]["Enums"]["job_type"]
+          needs_changes_hours: number
+          reminder_lead_hours: number
+          updated_at: string
+        }
+        Insert: {
+          auto_reclaim?: boolean
+          created_at?: string
+          first_submission_hours?: number
+          job_type: Database["public"]["Enums"]["job_type"]
+          needs_changes_hours?: number
+          reminder_lead_hours?: number
+          updated_at?: string
+        }
+        Update: {
+          auto_reclaim?: boolean
+          created_at?: string
+          first_submission_hours?: number
+          job_type?: Database["public"]["Enums"]["job_type"]
+          needs_changes_hours?: number
+          reminder_lead_hours?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       jobs: {
         Row: {
           brand_id: string | null
@@ -2381,6 +2861,7 @@ export type Database = {
       }
       look_source_images: {
         Row: {
+          content_hash: string | null
           created_at: string | null
           digital_talent_id: string | null
           head_crop_height: number | null
@@ -2398,6 +2879,7 @@ export type Database = {
           view: string
         }
         Insert: {
+          content_hash?: string | null
           created_at?: string | null
           digital_talent_id?: string | null
           head_crop_height?: number | null
@@ -2415,6 +2897,7 @@ export type Database = {
           view: string
         }
         Update: {
+          content_hash?: string | null
           created_at?: string | null
           digital_talent_id?: string | null
           head_crop_height?: number | null
@@ -2487,39 +2970,83 @@ export type Database = {
           },
         ]
       }
+      notification_preferences: {
+        Row: {
+          created_at: string
+          email_digest: string
+          email_muted_types: Database["public"]["Enums"]["notification_type"][]
+          last_digest_sent_at: string | null
+          muted_types: Database["public"]["Enums"]["notification_type"][]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email_digest?: string
+          email_muted_types?: Database["public"]["Enums"]["notification_type"][]
+          last_digest_sent_at?: string | null
+          muted_types?: Database["public"]["Enums"]["notification_type"][]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email_digest?: string
+          email_muted_types?: Database["public"]["Enums"]["notification_type"][]
+          last_digest_sent_at?: string | null
+          muted_types?: Database["public"]["Enums"]["notification_type"][]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       notifications: {
         Row: {
           comment_id: string | null
           created_at: string
+          emailed_at: string | null
+          freelancer_identity_id: string | null
           id: string
           job_id: string | null
           metadata: Json | null
           read_at: string | null
           submission_id: string | null
           type: Database["public"]["Enums"]["notification_type"]
-          user_id: string
+          user_id: string | null
         }
         Insert: {
           comment_id?: string | null
           created_at?: string
+          emailed_at?: string | null
+          freelancer_identity_id?: string | null
           id?: string
           job_id?: string | null
           metadata?: Json | null
           read_at?: string | null
           submission_id?: string | null
           type: Database["public"]["Enums"]["notification_type"]
-          user_id: string
+          user_id?: string | null
         }
         Update: {
           comment_id?: string | null
           created_at?: string
+          emailed_at?: string | null
+          freelancer_identity_id?: string | null
           id?: string
           job_id?: string | null
           metadata?: Json | null
           read_at?: string | null
           submission_id?: string | null
           type?: Database["public"]["Enums"]["notification_type"]
-          user_id?: string
+          user_id?: string | null
         }
         Relationships: [
           {
@@ -2529,6 +3056,13 @@ export type Database = {
             referencedRelation: "review_comments"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "notifications_freelancer_identity_id_fkey"
+            columns: ["freelancer_identity_id"]
+            isOneToOne: false
+            referencedRelation: "freelancer_identities"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "notifications_job_id_fkey"
             columns: ["job_id"]
@@ -2561,6 +3095,7 @@ export type Database = {
           metrics_json: Json | null
           project_id: string
           prompt_used: string | null
+          prompt_version_id: string | null
           recipe_id: string | null
           status: string
         }
@@ -2572,6 +3107,7 @@ export type Database = {
           metrics_json?: Json | null
           project_id: string
           prompt_used?: string | null
+          prompt_version_id?: string | null
           recipe_id?: string | null
           status?: string
         }
@@ -2583,6 +3119,7 @@ export type Database = {
           metrics_json?: Json | null
           project_id?: string
           prompt_used?: string | null
+          prompt_version_id?: string | null
           recipe_id?: string | null
           status?: string
         }
@@ -2601,6 +3138,13 @@ export type Database = {
             referencedRelation: "projects"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "outputs_prompt_version_id_fkey"
+            columns: ["prompt_version_id"]
+            isOneToOne: false
+            referencedRelation: "prompt_versions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "outputs_recipe_id_fkey"
             columns: ["recipe_id"]
@@ -2931,6 +3475,47 @@ export type Database = {
         }
         Relationships: []
       }
+      prompt_versions: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          notes: string | null
+          pipeline: string
+          template: string
+          version: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          notes?: string | null
+          pipeline: string
+          template: string
+          version: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          notes?: string | null
+          pipeline?: string
+          template?: string
+          version?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prompt_versions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       repose_batch_items: {
         Row: {
           assigned_view: string | null
@@ -2939,6 +3524,7 @@ export type Database = {
           exported_at: string | null
           id: string
           look_id: string | null
+          pose_overrides: Json | null
           source_output_id: string | null
           source_url: string
           view: string
@@ -2950,6 +3536,7 @@ export type Database = {
           exported_at?: string | null
           id?: string
           look_id?: string | null
+          pose_overrides?: Json | null
           source_output_id?: string | null
           source_url: string
           view: string
@@ -2961,6 +3548,7 @@ export type Database = {
           exported_at?: string | null
           id?: string
           look_id?: string | null
+          pose_overrides?: Json | null
           source_output_id?: string | null
           source_url?: string
           view?: string
@@ -2989,6 +3577,7 @@ export type Database = {
           created_at: string | null
           id: string
           job_id: string | null
+          pose_usage_snapshot: Json | null
           project_id: string | null
           status: string
           updated_at: string | null
@@ -2999,6 +3588,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           job_id?: string | null
+          pose_usage_snapshot?: Json | null
           project_id?: string | null
           status?: string
           updated_at?: string | null
@@ -3009,6 +3599,7 @@ export type Database = {
           created_at?: string | null
           id?: string
           job_id?: string | null
+          pose_usage_snapshot?: Json | null
           project_id?: string | null
           status?: string
           updated_at?: string | null
@@ -3047,8 +3638,10 @@ export type Database = {
           favorite_rank: number | null
           id: string
           is_favorite: boolean | null
+          perceptual_hash: string | null
           pose_id: string | null
           pose_url: string | null
+          prompt_version_id: string | null
           requested_resolution: string | null
           result_url: string | null
           retry_after: string | null
@@ -3070,8 +3663,10 @@ export type Database = {
           favorite_rank?: number | null
           id?: string
           is_favorite?: boolean | null
+          perceptual_hash?: string | null
           pose_id?: string | null
           pose_url?: string | null
+          prompt_version_id?: string | null
           requested_resolution?: string | null
           result_url?: string | null
           retry_after?: string | null
@@ -3093,8 +3688,10 @@ export type Database = {
           favorite_rank?: number | null
           id?: string
           is_favorite?: boolean | null
+          perceptual_hash?: string | null
           pose_id?: string | null
           pose_url?: string | null
+          prompt_version_id?: string | null
           requested_resolution?: string | null
           result_url?: string | null
           retry_after?: string | null
@@ -3129,6 +3726,13 @@ export type Database = {
             referencedRelation: "clay_images"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "repose_outputs_prompt_version_id_fkey"
+            columns: ["prompt_version_id"]
+            isOneToOne: false
+            referencedRelation: "prompt_versions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "repose_outputs_run_id_fkey"
             columns: ["run_id"]
@@ -3211,6 +3815,67 @@ export type Database = {
           },
         ]
       }
+      repose_selection_audit: {
+        Row: {
+          batch_id: string
+          created_at: string
+          id: string
+          new_is_favorite: boolean | null
+          new_rank: number | null
+          output_id: string
+          previous_is_favorite: boolean | null
+          previous_rank: number | null
+          review_id: string | null
+          source: string
+        }
+        Insert: {
+          batch_id: string
+          created_at?: string
+          id?: string
+          new_is_favorite?: boolean | null
+          new_rank?: number | null
+          output_id: string
+          previous_is_favorite?: boolean | null
+          previous_rank?: number | null
+          review_id?: string | null
+          source?: string
+        }
+        Update: {
+          batch_id?: string
+          created_at?: string
+          id?: string
+          new_is_favorite?: boolean | null
+          new_rank?: number | null
+          output_id?: string
+          previous_is_favorite?: boolean | null
+          previous_rank?: number | null
+          review_id?: string | null
+          source?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "repose_selection_audit_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "repose_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "repose_selection_audit_output_id_fkey"
+            columns: ["output_id"]
+            isOneToOne: false
+            referencedRelation: "repose_outputs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "repose_selection_audit_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "client_reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       repose_skipped_views: {
         Row: {
           batch_id: string
@@ -3353,6 +4018,24 @@ export type Database = {
           },
         ]
       }
+      role_permissions: {
+        Row: {
+          created_at: string
+          permission: Database["public"]["Enums"]["app_permission"]
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Insert: {
+          created_at?: string
+          permission: Database["public"]["Enums"]["app_permission"]
+          role: Database["public"]["Enums"]["app_role"]
+        }
+        Update: {
+          created_at?: string
+          permission?: Database["public"]["Enums"]["app_permission"]
+          role?: Database["public"]["Enums"]["app_role"]
+        }
+        Relationships: []
+      }
       scrape_jobs: {
         Row: {
           brand_id: string
@@ -3738,8 +4421,10 @@ export type Database = {
           look_id: string | null
           priority: number | null
           project_id: string | null
+          sla_reminder_sent_at: string | null
           started_at: string | null
           status: Database["public"]["Enums"]["job_status"] | null
+          status_changed_at: string | null
           title: string | null
           total_active_ms: number | null
           type: Database["public"]["Enums"]["job_type"]
@@ -3760,8 +4445,10 @@ export type Database = {
           look_id?: string | null
           priority?: number | null
           project_id?: string | null
+          sla_reminder_sent_at?: string | null
           started_at?: string | null
           status?: Database["public"]["Enums"]["job_status"] | null
+          status_changed_at?: string | null
           title?: string | null
           total_active_ms?: number | null
           type: Database["public"]["Enums"]["job_type"]
@@ -3782,8 +4469,10 @@ export type Database = {
           look_id?: string | null
           priority?: number | null
           project_id?: string | null
+          sla_reminder_sent_at?: string | null
           started_at?: string | null
           status?: Database["public"]["Enums"]["job_status"] | null
+          status_changed_at?: string | null
           title?: string | null
           total_active_ms?: number | null
           type?: Database["public"]["Enums"]["job_type"]
@@ -3820,6 +4509,45 @@ export type Database = {
           },
         ]
       }
+      user_permission_overrides: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          granted: boolean
+          permission: Database["public"]["Enums"]["app_permission"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          granted: boolean
+          permission: Database["public"]["Enums"]["app_permission"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          granted?: boolean
+          permission?: Database["public"]["Enums"]["app_permission"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_permission_overrides_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "user_permission_overrides_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           created_at: string | null
@@ -3878,6 +4606,7 @@ export type Database = {
       }
       workflow_images: {
         Row: {
+          content_hash: string | null
           converted_url: string | null
           created_at: string | null
           file_checksum: string | null
@@ -3892,6 +4621,7 @@ export type Database = {
           view: string
         }
         Insert: {
+          content_hash?: string | null
           converted_url?: string | null
           created_at?: string | null
           file_checksum?: string | null
@@ -3906,6 +4636,7 @@ export type Database = {
           view: string
         }
         Update: {
+          content_hash?: string | null
           converted_url?: string | null
           created_at?: string | null
           file_checksum?: string | null
@@ -4090,6 +4821,7 @@ export type Database = {
           metadata: Json | null
           priority: number | null
           project_id: string | null
+          retry_after: string | null
           started_at: string | null
           status: string | null
           view: string | null
@@ -4108,6 +4840,7 @@ export type Database = {
           metadata?: Json | null
           priority?: number | null
           project_id?: string | null
+          retry_after?: string | null
           started_at?: string | null
           status?: string | null
           view?: string | null
@@ -4126,6 +4859,7 @@ export type Database = {
           metadata?: Json | null
           priority?: number | null
           project_id?: string | null
+          retry_after?: string | null
           started_at?: string | null
           status?: string | null
           view?: string | null
@@ -4159,6 +4893,29 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      activate_prompt_version: {
+        Args: { _version_id: string }
+        Returns: undefined
+      }
+      ai_budget_block_reason: {
+        Args: { _batch_id?: string; _brand_id?: string; _project_id?: string }
+        Returns: string
+      }
+      ai_budget_spent: { Args: { _budget_id: string }; Returns: number }
+      claim_client_review_attempt: {
+        Args: {
+          p_ip_address: string
+          p_max_failed_per_ip: number
+          p_max_failed_per_review: number
+          p_review_id: string
+          p_window_minutes: number
+        }
+        Returns: {
+          attempt_id: string | null
+          ip_failures: number
+          retry_after_seconds: number | null
+        }[]
+      }
       claim_expression_queue_items: {
         Args: { p_batch_size?: number }
         Returns: {
@@ -4175,6 +4932,7 @@ export type Database = {
           output_id: string | null
           project_id: string
           prompt: string
+          prompt_version_id: string | null
           recipe_id: string
           retry_after: string | null
           started_at: string | null
@@ -4187,6 +4945,99 @@ export type Database = {
           isSetofReturn: true
         }
       }
+      claim_workflow_queue_items: {
+        Args: { p_batch_size?: number }
+        Returns: {
+          attempts: number | null
+          completed_at: string | null
+          created_at: string | null
+          error_message: string | null
+          heartbeat_at: string | null
+          id: string
+          image_id: string | null
+          job_type: string | null
+          look_id: string | null
+          max_attempts: number | null
+          metadata: Json | null
+          priority: number | null
+          project_id: string | null
+          retry_after: string | null
+          started_at: string | null
+          status: string | null
+          view: string | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "workflow_queue"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      check_invite_pin: {
+        Args: { p_invite_id: string; p_max_attempts: number; p_pin: string }
+        Returns: {
+          failed_pin_attempts: number
+          valid: boolean
+        }[]
+      }
+      current_freelancer_identity_id: { Args: never; Returns: string }
+      find_images_by_content_hash: {
+        Args: { p_hashes: string[] }
+        Returns: {
+          content_hash: string
+          image_id: string
+          image_url: string
+          look_id: string
+          look_name: string
+          project_id: string
+          project_name: string
+          source: string
+          view: string
+        }[]
+      }
+      get_ai_spend_summary: {
+        Args: { _since?: string }
+        Returns: {
+          brand_id: string
+          calls: number
+          cost_usd: number
+          failed_calls: number
+          function_name: string
+          images: number
+          model: string
+          project_id: string
+          unpriced_calls: number
+        }[]
+      }
+      get_library_pose_usage: {
+        Args: { p_library_id: string }
+        Returns: {
+          clay_image_id: string
+          usage_count: number
+        }[]
+      }
+      get_invite_by_token: {
+        Args: { p_token: string }
+        Returns: {
+          email: string
+          expires_at: string
+          id: string
+          job_id: string
+          project_id: string
+          role: Database["public"]["Enums"]["app_role"]
+        }[]
+      }
+      get_user_permissions: {
+        Args: { _user_id: string }
+        Returns: Database["public"]["Enums"]["app_permission"][]
+      }
+      has_permission: {
+        Args: {
+          _permission: Database["public"]["Enums"]["app_permission"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -4198,11 +5049,33 @@ export type Database = {
         Args: { p_brand_id: string; p_library_id: string }
         Returns: number
       }
+      is_client_review_active: { Args: { p_review_id: string }; Returns: boolean }
       is_internal_user: { Args: { _user_id: string }; Returns: boolean }
       recover_stale_expression_queue_items: { Args: never; Returns: number }
+      recover_stale_workflow_queue_items: { Args: never; Returns: number }
+      search_global: {
+        Args: { p_limit?: number; p_query: string }
+        Returns: {
+          batch_id: string
+          entity_id: string
+          entity_type: string
+          project_id: string
+          rank: number
+          status: string
+          subtitle: string
+          title: string
+        }[]
+      }
     }
     Enums: {
-      annotation_shape: "RECT"
+      annotation_shape: "RECT" | "POLYGON" | "FREEHAND" | "ARROW" | "POINT"
+      app_permission:
+        | "repose.run"
+        | "repose.rerender4k"
+        | "repose.delete"
+        | "jobs.approve"
+        | "library.lock"
+        | "users.invite"
       app_role: "admin" | "internal" | "freelancer" | "client"
       artifact_type:
         | "LOOK_SOURCE"
@@ -4238,6 +5111,8 @@ export type Database = {
         | "CHANGES_REQUESTED"
         | "JOB_APPROVED"
         | "COMMENT_REPLY"
+        | "JOB_DUE_SOON"
+        | "JOB_RECLAIMED"
       pipeline_job_status:
         | "QUEUED"
         | "RUNNING"
@@ -4399,7 +5274,15 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      annotation_shape: ["RECT"],
+      annotation_shape: ["RECT", "POLYGON", "FREEHAND", "ARROW", "POINT"],
+      app_permission: [
+        "repose.run",
+        "repose.rerender4k",
+        "repose.delete",
+        "jobs.approve",
+        "library.lock",
+        "users.invite",
+      ],
       app_role: ["admin", "internal", "freelancer", "client"],
       artifact_type: [
         "LOOK_SOURCE",
@@ -4438,6 +5321,8 @@ export const Constants = {
         "CHANGES_REQUESTED",
         "JOB_APPROVED",
         "COMMENT_REPLY",
+        "JOB_DUE_SOON",
+        "JOB_RECLAIMED",
       ],
       pipeline_job_status: [
         "QUEUED",
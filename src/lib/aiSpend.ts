@@ -0,0 +1,165 @@
+/**
+ * AI spend
+ *
+ * Every model call the edge functions make is logged to ai_usage_ledger and
+ * priced on insert from ai_model_prices: image models per generated image
+ * (with an optional price per image size), text models per call. The helpers
+ * here price a planned run the same way so screens can show an estimate
+ * before anything is queued. Estimates ignore retries and failures.
+ */
+
+export type AIBudgetEnforcement = 'soft' | 'hard';
+export type AIBudgetPeriod = 'total' | 'month';
+
+export interface AIModelPrice {
+  model: string;
+  /** '' is the price for any size without its own row */
+  image_size: string;
+  unit_cost_usd: number;
+  updated_at: string;
+}
+
+export interface AIBudget {
+  id: string;
+  project_id: string | null;
+  brand_id: string | null;
+  limit_usd: number;
+  enforcement: AIBudgetEnforcement;
+  period: AIBudgetPeriod;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+/** One row of get_ai_spend_summary */
+export interface AISpendRow {
+  project_id: string | null;
+  brand_id: string | null;
+  function_name: string;
+  model: string;
+  calls: number;
+  failed_calls: number;
+  unpriced_calls: number;
+  images: number;
+  cost_usd: number;
+}
+
+export interface AISpendTotals {
+  calls: number;
+  failedCalls: number;
+  unpricedCalls: number;
+  images: number;
+  costUsd: number;
+}
+
+export const AI_BUDGET_ENFORCEMENT_LABELS: Record<AIBudgetEnforcement, string> = {
+  soft: 'Soft – pause once',
+  hard: 'Hard – block calls',
+};
+
+export const AI_BUDGET_PERIOD_LABELS: Record<AIBudgetPeriod, string> = {
+  total: 'All time',
+  month: 'Per month',
+};
+
+/** Model that generate-outfit-description runs once per view before AI Apply */
+export const OUTFIT_DESCRIPTION_MODEL = 'google/gemini-2.5-flash';
+
+/** Size process-repose-queue renders at unless told otherwise */
+export const REPOSE_DEFAULT_IMAGE_SIZE = '4K';
+
+/** Same lookup as the ledger trigger: exact size first, then the model's '' row */
+export function getUnitPrice(
+  prices: AIModelPrice[],
+  model: string,
+  imageSize?: string | null
+): number | null {
+  const forModel = prices.filter((p) => p.model === model);
+  const exact = forModel.find((p) => p.image_size === (imageSize ?? ''));
+  const fallback = forModel.find((p) => p.image_size === '');
+  const price = exact ?? fallback;
+  return price ? Number(price.unit_cost_usd) : null;
+}
+
+/** Returns null when the model has no price, so callers can say so */
+export function estimateCost(
+  prices: AIModelPrice[],
+  model: string,
+  imageSize: string | null,
+  count: number
+): number | null {
+  if (count <= 0) return 0;
+  const unit = getUnitPrice(prices, model, imageSize);
+  return unit === null ? null : unit * count;
+}
+
+/**
+ * Shot types process-repose-queue renders for a batch item's view. Keep in
+ * sync with the auto-detect branch there.
+ */
+export function getReposeShotTypeCount(view: string, sourceUrl = ''): number {
+  const indicator = `${view} ${sourceUrl}`.toLowerCase();
+  if (indicator.includes('back') || indicator.includes('_b.')) return 1;
+  if (indicator.includes('detail') || indicator.includes('close')) return 1;
+  return 3;
+}
+
+/**
+ * Images a repose run set produces: each look gets `runsPerLook` runs and each
+ * run draws `posesPerShotType` poses for every shot type of every view.
+ */
+export function estimateReposeImages(
+  looks: Array<{ views: Array<{ view: string; sourceUrl: string }> }>,
+  runsPerLook: number,
+  posesPerShotType: number
+): number {
+  return looks.reduce((sum, look) => {
+    const shotsPerRun = look.views.reduce(
+      (viewSum, v) => viewSum + getReposeShotTypeCount(v.view, v.sourceUrl),
+      0
+    );
+    return sum + shotsPerRun * posesPerShotType * runsPerLook;
+  }, 0);
+}
+
+export function sumSpend(rows: AISpendRow[]): AISpendTotals {
+  return rows.reduce<AISpendTotals>(
+    (totals, row) => ({
+      calls: totals.calls + Number(row.calls),
+      failedCalls: totals.failedCalls + Number(row.failed_calls),
+      unpricedCalls: totals.unpricedCalls + Number(row.unpriced_calls),
+      images: totals.images + Number(row.images),
+      costUsd: totals.costUsd + Number(row.cost_usd),
+    }),
+    { calls: 0, failedCalls: 0, unpricedCalls: 0, images: 0, costUsd: 0 }
+  );
+}
+
+/** Totals per project or brand id; calls without one are grouped under null */
+export function groupSpend(
+  rows: AISpendRow[],
+  key: 'project_id' | 'brand_id' | 'function_name'
+): Map<string | null, AISpendTotals> {
+  const groups = new Map<string | null, AISpendRow[]>();
+  for (const row of rows) {
+    const id = row[key];
+    groups.set(id, [...(groups.get(id) ?? []), row]);
+  }
+  return new Map([...groups].map(([id, groupRows]) => [id, sumSpend(groupRows)]));
+}
+
+/** What a budget has spent, counted the way ai_budget_spent does */
+export function getBudgetSpent(budget: AIBudget, rows: AISpendRow[]): number {
+  return sumSpend(
+    rows.filter(
+      (row) =>
+        (budget.project_id !== null && row.project_id === budget.project_id) ||
+        (budget.brand_id !== null && row.brand_id === budget.brand_id)
+    )
+  ).costUsd;
+}
+
+export function formatUsd(amount: number): string {
+  if (amount > 0 && amount < 0.01) return '<$0.01';
+  return `$${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
@@ -0,0 +1,114 @@
+/**
+ * Review annotation shapes
+ *
+ * Every shape is stored with normalized (0-1) coordinates and a bounding rect,
+ * so threads, markers and scrollToAnnotation treat all shapes alike. The
+ * viewer's draw tools map onto the stored shapes; LASSO is a closed FREEHAND.
+ */
+import type { AnnotationGeometry, AnnotationPoint, AnnotationRect } from '@/types/review';
+
+export type DrawTool = 'RECT' | 'POLYGON' | 'FREEHAND' | 'LASSO' | 'ARROW' | 'POINT';
+
+export const DRAW_TOOL_LABELS: Record<DrawTool, string> = {
+  RECT: 'Box',
+  POLYGON: 'Polygon',
+  FREEHAND: 'Brush',
+  LASSO: 'Lasso',
+  ARROW: 'Arrow',
+  POINT: 'Pin',
+};
+
+export const DRAW_TOOL_HINTS: Record<DrawTool, string> = {
+  RECT: 'Click and drag to draw a box',
+  POLYGON: 'Click to add points, double-click or click the first point to finish',
+  FREEHAND: 'Drag to paint a stroke',
+  LASSO: 'Drag around the area to outline it',
+  ARROW: 'Drag from the tail to where the arrow should point',
+  POINT: 'Click to drop a pin',
+};
+
+/** Min distance between recorded freehand points, keeps stored strokes small */
+export const FREEHAND_MIN_STEP = 0.004;
+
+/** Clicking this close to the first polygon vertex closes the shape */
+export const POLYGON_CLOSE_DISTANCE = 0.015;
+
+export function distance(a: AnnotationPoint, b: AnnotationPoint): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+export function getBoundingRect(points: AnnotationPoint[]): AnnotationRect {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, w: Math.max(...xs) - x, h: Math.max(...ys) - y };
+}
+
+/**
+ * Build the stored geometry for a finished drawing, or null when it is too
+ * small to be intentional (a stray click while drawing a box, a one-point stroke).
+ */
+export function buildGeometry(tool: DrawTool, points: AnnotationPoint[]): AnnotationGeometry | null {
+  if (points.length === 0) return null;
+  const rect = getBoundingRect(points);
+  const extent = Math.max(rect.w, rect.h);
+  const rounded = (value: AnnotationPoint) => ({
+    x: Math.round(value.x * 10000) / 10000,
+    y: Math.round(value.y * 10000) / 10000,
+  });
+
+  switch (tool) {
+    case 'RECT':
+      if (rect.w <= 0.01 || rect.h <= 0.01) return null;
+      return { shape_type: 'RECT', rect, points: null, style: { rounded: true } };
+    case 'POLYGON':
+      if (points.length < 3 || extent <= 0.01) return null;
+      return { shape_type: 'POLYGON', rect, points: points.map(rounded), style: { rounded: false } };
+    case 'FREEHAND':
+    case 'LASSO':
+      if (points.length < 3 || extent <= 0.01) return null;
+      return {
+        shape_type: 'FREEHAND',
+        rect,
+        points: points.map(rounded),
+        style: { rounded: false, closed: tool === 'LASSO' },
+      };
+    case 'ARROW':
+      if (points.length < 2 || distance(points[0], points[points.length - 1]) <= 0.01) return null;
+      return {
+        shape_type: 'ARROW',
+        rect,
+        points: [rounded(points[0]), rounded(points[points.length - 1])],
+        style: { rounded: false },
+      };
+    case 'POINT': {
+      const pin = rounded(points[0]);
+      return { shape_type: 'POINT', rect: { ...pin, w: 0, h: 0 }, points: [pin], style: { rounded: false } };
+    }
+  }
+}
+
+/** SVG path in image pixel space for an outline or stroke */
+export function toSvgPath(points: AnnotationPoint[], width: number, height: number, closed: boolean): string {
+  if (points.length === 0) return '';
+  const commands = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${(p.x * width).toFixed(1)} ${(p.y * height).toFixed(1)}`);
+  return closed ? `${commands.join(' ')} Z` : commands.join(' ');
+}
+
+/** Arrowhead triangle (in image pixel space) for an arrow from tail to head */
+export function getArrowHeadPath(tail: AnnotationPoint, head: AnnotationPoint, width: number, height: number): string {
+  const hx = head.x * width;
+  const hy = head.y * height;
+  const angle = Math.atan2(hy - tail.y * height, hx - tail.x * width);
+  const size = Math.max(width, height) * 0.025;
+  const spread = Math.PI / 7;
+  const left = { x: hx - size * Math.cos(angle - spread), y: hy - size * Math.sin(angle - spread) };
+  const right = { x: hx - size * Math.cos(angle + spread), y: hy - size * Math.sin(angle + spread) };
+  return `M${hx.toFixed(1)} ${hy.toFixed(1)} L${left.x.toFixed(1)} ${left.y.toFixed(1)} L${right.x.toFixed(1)} ${right.y.toFixed(1)} Z`;
+}
+
+/** Pin radius in image pixels */
+export function getPinRadius(width: number, height: number): number {
+  return Math.max(width, height) * 0.012;
+}
@@ -12,6 +12,20 @@ export interface CropCoordinates {
   height: number; // percentage 0-100
 }
 
+/** How far the crop reaches beyond the face box, in face heights/widths */
+export interface CropParameters {
+  aboveFaceMultiplier: number;
+  belowFaceMultiplier: number;
+  horizontalPadding: number;
+}
+
+// Tight expansion factors for head-and-shoulders framing
+export const DEFAULT_CROP_PARAMETERS: CropParameters = {
+  aboveFaceMultiplier: 0.15,  // 15% of face height above (just hair)
+  belowFaceMultiplier: 1.5,   // 150% of face height below (to shoulder edge)
+  horizontalPadding: 1.3,     // 130% of face width total (tighter)
+};
+
 /**
  * Calculate head-and-shoulders crop from face bounding box
  * 
@@ -25,13 +39,15 @@ export interface CropCoordinates {
  * @param imageWidth - Original image width in pixels
  * @param imageHeight - Original image height in pixels  
  * @param aspectRatio - Target aspect ratio ('1:1' or '4:5')
+ * @param params - Expansion factors, e.g. a brand's calibrated profile
  * @returns Crop coordinates as percentages (0-100)
  */
 export function calculateHeadAndShouldersCrop(
   faceBbox: FaceBoundingBox | null,
   imageWidth: number,
   imageHeight: number,
-  aspectRatio: '1:1' | '4:5'
+  aspectRatio: '1:1' | '4:5',
+  params: CropParameters = DEFAULT_CROP_PARAMETERS
 ): CropCoordinates {
   // Fallback default crop if no face detected (portrait-focused upper portion)
   if (!faceBbox) {
@@ -53,10 +69,7 @@ export function calculateHeadAndShouldersCrop(
   const faceHeightPercent = (faceBbox.height / imageHeight) * 100;
   const faceWidthPercent = (faceBbox.width / imageWidth) * 100;
 
-  // Tight expansion factors for head-and-shoulders framing
-  const aboveFaceMultiplier = 0.15;  // 15% of face height above (just hair)
-  const belowFaceMultiplier = 1.5;   // 150% of face height below (to shoulder edge)
-  const horizontalPadding = 1.3;     // 130% of face width total (tighter)
+  const { aboveFaceMultiplier, belowFaceMultiplier, horizontalPadding } = params;
 
   // Calculate vertical extent
   const topY = faceTopPercent - (faceHeightPercent * aboveFaceMultiplier);
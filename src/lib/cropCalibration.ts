@@ -0,0 +1,199 @@
+/**
+ * Crop calibration
+ *
+ * CropEditorPanel records every manual fix to a suggested crop in
+ * crop_corrections, along with the face box the suggestion was made from.
+ * Replaying calculateHeadAndShouldersCrop over those face boxes shows how far
+ * the geometric crop lands from where operators actually put it; fitting its
+ * three multipliers per brand and view gives a profile the crop generator
+ * uses instead of the defaults. All coordinates are percentages (0-100).
+ */
+
+import {
+  calculateHeadAndShouldersCrop,
+  CropCoordinates,
+  CropParameters,
+  DEFAULT_CROP_PARAMETERS,
+} from './cropCalculation';
+
+/** Fewer corrections than this and a fit just memorises them */
+export const MIN_CALIBRATION_SAMPLES = 5;
+
+// Keeps the fit within crops that still read as head-and-shoulders
+const PARAMETER_BOUNDS: Record<keyof CropParameters, [number, number]> = {
+  aboveFaceMultiplier: [0, 1],
+  belowFaceMultiplier: [0.3, 4],
+  horizontalPadding: [1, 4],
+};
+
+export interface CropCalibrationSample {
+  faceBox: CropCoordinates;
+  userCrop: CropCoordinates;
+  aspectRatio: '1:1' | '4:5';
+}
+
+export interface CropCalibrationProfile {
+  id: string;
+  brand_name: string;
+  view_type: string;
+  above_face_multiplier: number;
+  below_face_multiplier: number;
+  horizontal_padding: number;
+  sample_count: number;
+  mean_error_before: number;
+  mean_error_after: number;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface CropCalibrationResult {
+  params: CropParameters;
+  sampleCount: number;
+  /** With the parameters in use before fitting */
+  meanErrorBefore: number;
+  meanErrorAfter: number;
+}
+
+export function profileCropParameters(profile: CropCalibrationProfile): CropParameters {
+  return {
+    aboveFaceMultiplier: Number(profile.above_face_multiplier),
+    belowFaceMultiplier: Number(profile.below_face_multiplier),
+    horizontalPadding: Number(profile.horizontal_padding),
+  };
+}
+
+/**
+ * Face box from a face_detections bounding box, if it's in percentages. The
+ * AI detectors store {x, y, width, height} as percentages; MediaPipe stores
+ * {originX, originY, ...} in pixels without the image size, so those are
+ * skipped.
+ */
+export function percentFaceBox(box: unknown): CropCoordinates | null {
+  if (!box || typeof box !== 'object') return null;
+  const { x, y, width, height } = box as Record<string, unknown>;
+  if ([x, y, width, height].some((v) => typeof v !== 'number' || !Number.isFinite(v))) return null;
+  if ((width as number) <= 0 || (height as number) <= 0) return null;
+  return { x: x as number, y: y as number, width: width as number, height: height as number };
+}
+
+export function predictCrop(sample: CropCalibrationSample, params: CropParameters): CropCoordinates {
+  const { faceBox } = sample;
+  return calculateHeadAndShouldersCrop(
+    { originX: faceBox.x, originY: faceBox.y, width: faceBox.width, height: faceBox.height },
+    100,
+    100,
+    sample.aspectRatio,
+    params
+  );
+}
+
+/** Mean absolute difference of x, y, width and height, in percentage points */
+export function cropError(a: CropCoordinates, b: CropCoordinates): number {
+  return (
+    (Math.abs(a.x - b.x) + Math.abs(a.y - b.y) + Math.abs(a.width - b.width) + Math.abs(a.height - b.height)) / 4
+  );
+}
+
+export function meanCropError(samples: CropCalibrationSample[], params: CropParameters): number {
+  if (samples.length === 0) return 0;
+  const total = samples.reduce((sum, sample) => sum + cropError(predictCrop(sample, params), sample.userCrop), 0);
+  return total / samples.length;
+}
+
+function median(values: number[]): number | null {
+  const finite = values.filter(Number.isFinite).sort((a, b) => a - b);
+  if (finite.length === 0) return null;
+  const mid = Math.floor(finite.length / 2);
+  return finite.length % 2 ? finite[mid] : (finite[mid - 1] + finite[mid]) / 2;
+}
+
+function clampParameter(key: keyof CropParameters, value: number): number {
+  const [min, max] = PARAMETER_BOUNDS[key];
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Starting point read straight off the corrections: how many face heights
+ * operators leave above and below the face, and how many face widths the
+ * crop spans.
+ */
+function initialEstimate(samples: CropCalibrationSample[], fallback: CropParameters): CropParameters {
+  const above = median(samples.map(({ faceBox, userCrop }) => (faceBox.y - userCrop.y) / faceBox.height));
+  const below = median(
+    samples.map(
+      ({ faceBox, userCrop }) => (userCrop.y + userCrop.height - (faceBox.y + faceBox.height)) / faceBox.height
+    )
+  );
+  const horizontal = median(samples.map(({ faceBox, userCrop }) => userCrop.width / faceBox.width));
+
+  return {
+    aboveFaceMultiplier: clampParameter('aboveFaceMultiplier', above ?? fallback.aboveFaceMultiplier),
+    belowFaceMultiplier: clampParameter('belowFaceMultiplier', below ?? fallback.belowFaceMultiplier),
+    horizontalPadding: clampParameter('horizontalPadding', horizontal ?? fallback.horizontalPadding),
+  };
+}
+
+/**
+ * Fit the crop parameters to a set of corrections. The aspect ratio lock and
+ * edge clamping make the error piecewise, so this refines the median
+ * estimate by coordinate descent rather than solving for it. The result is
+ * never worse than `current` or the defaults on these samples.
+ */
+export function fitCropParameters(
+  samples: CropCalibrationSample[],
+  current: CropParameters = DEFAULT_CROP_PARAMETERS
+): CropCalibrationResult {
+  const meanErrorBefore = meanCropError(samples, current);
+  if (samples.length < MIN_CALIBRATION_SAMPLES) {
+    return { params: current, sampleCount: samples.length, meanErrorBefore, meanErrorAfter: meanErrorBefore };
+  }
+
+  let best = initialEstimate(samples, current);
+  let bestError = meanCropError(samples, best);
+  const keys = Object.keys(PARAMETER_BOUNDS) as Array<keyof CropParameters>;
+
+  for (let step = 0.2; step >= 0.005; step /= 2) {
+    let improved = true;
+    while (improved) {
+      improved = false;
+      for (const key of keys) {
+        for (const direction of [1, -1]) {
+          const candidate = { ...best, [key]: clampParameter(key, best[key] + direction * step) };
+          const error = meanCropError(samples, candidate);
+          if (error < bestError - 1e-6) {
+            best = candidate;
+            bestError = error;
+            improved = true;
+          }
+        }
+      }
+    }
+  }
+
+  for (const baseline of [current, DEFAULT_CROP_PARAMETERS]) {
+    const error = meanCropError(samples, baseline);
+    if (error <= bestError) {
+      best = baseline;
+      bestError = error;
+    }
+  }
+
+  const round = (value: number) => Math.round(value * 1000) / 1000;
+  const params = {
+    aboveFaceMultiplier: round(best.aboveFaceMultiplier),
+    belowFaceMultiplier: round(best.belowFaceMultiplier),
+    horizontalPadding: round(best.horizontalPadding),
+  };
+
+  return {
+    params,
+    sampleCount: samples.length,
+    meanErrorBefore,
+    meanErrorAfter: meanCropError(samples, params),
+  };
+}
+
+export function formatCropError(error: number): string {
+  return `${error.toFixed(1)} pts`;
+}
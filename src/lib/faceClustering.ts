@@ -0,0 +1,183 @@
+/**
+ * Face clustering
+ *
+ * classify-all stores a face embedding (trait scores) per scraped image on
+ * face_detections, shortlists models whose mean embeddings are within the
+ * run's distance threshold (supabase/functions/_shared/face-clustering.ts) and
+ * merges those whose faces match side by side. The same maths
+ * here lets the review screen show how close models and images are, suggest
+ * merges just past the threshold and flag images that sit far from the rest
+ * of their model.
+ */
+
+/** Same as the face_scrape_runs.cluster_distance_threshold default */
+export const DEFAULT_CLUSTER_DISTANCE_THRESHOLD = 0.18;
+
+/** Merge suggestions reach this far past the threshold */
+export const MERGE_SUGGESTION_MARGIN = 1.5;
+
+export interface FaceGroup {
+  id: string;
+  embeddings: number[][];
+}
+
+export interface FaceCluster {
+  memberIds: string[];
+  centroid: number[] | null;
+  maxMergeDistance: number;
+}
+
+export interface MergeCandidate {
+  sourceId: string;
+  targetId: string;
+  distance: number;
+}
+
+export interface ImageOutlier {
+  identityId: string;
+  /** face_identity_images id */
+  identityImageId: string;
+  /** Distance to the mean of the model's other images */
+  distance: number;
+}
+
+/** RMS difference per dimension, so always 0-1 */
+export function faceDistance(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  if (length === 0) return 1;
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+  return Math.sqrt(sum / length);
+}
+
+export function meanEmbedding(embeddings: number[][]): number[] | null {
+  if (embeddings.length === 0) return null;
+  const mean = new Array(embeddings[0].length).fill(0);
+  for (const embedding of embeddings) {
+    for (let i = 0; i < mean.length; i++) mean[i] += embedding[i] ?? 0;
+  }
+  return mean.map((v) => v / embeddings.length);
+}
+
+/**
+ * Bottom-up clustering on mean embeddings, weighted by image count. Keep in
+ * sync with clusterFaceGroups in the edge function.
+ */
+export function clusterFaceGroups(groups: FaceGroup[], threshold: number): FaceCluster[] {
+  const clusters = groups.map((group) => ({
+    memberIds: [group.id],
+    weight: group.embeddings.length,
+    centroid: meanEmbedding(group.embeddings),
+    maxMergeDistance: 0,
+  }));
+
+  const distances: number[][] = clusters.map((a, i) =>
+    clusters.map((b, j) => (i !== j && a.centroid && b.centroid ? faceDistance(a.centroid, b.centroid) : Infinity))
+  );
+  const alive = clusters.map(() => true);
+
+  while (true) {
+    let best = Infinity;
+    let bestI = -1;
+    let bestJ = -1;
+    for (let i = 0; i < clusters.length; i++) {
+      if (!alive[i]) continue;
+      for (let j = i + 1; j < clusters.length; j++) {
+        if (alive[j] && distances[i][j] < best) {
+          best = distances[i][j];
+          bestI = i;
+          bestJ = j;
+        }
+      }
+    }
+    if (bestI === -1 || best > threshold) break;
+
+    const a = clusters[bestI];
+    const b = clusters[bestJ];
+    const weight = a.weight + b.weight;
+    a.centroid = a.centroid!.map((v, k) => (v * a.weight + b.centroid![k] * b.weight) / weight);
+    a.weight = weight;
+    a.memberIds.push(...b.memberIds);
+    a.maxMergeDistance = Math.max(a.maxMergeDistance, best);
+    alive[bestJ] = false;
+
+    for (let k = 0; k < clusters.length; k++) {
+      if (k === bestI || !alive[k] || !clusters[k].centroid) continue;
+      const d = faceDistance(a.centroid, clusters[k].centroid!);
+      distances[bestI][k] = d;
+      distances[k][bestI] = d;
+    }
+  }
+
+  return clusters
+    .filter((_, i) => alive[i])
+    .map(({ memberIds, centroid, maxMergeDistance }) => ({ memberIds, centroid, maxMergeDistance }));
+}
+
+/**
+ * Closest pairs of models up to MERGE_SUGGESTION_MARGIN × threshold, nearest
+ * first. Each model appears once, paired with its nearest neighbour; the one
+ * with fewer embeddings is the source.
+ */
+export function findMergeCandidates(groups: FaceGroup[], threshold: number): MergeCandidate[] {
+  const withCentroids = groups
+    .map((group) => ({ ...group, centroid: meanEmbedding(group.embeddings) }))
+    .filter((group): group is FaceGroup & { centroid: number[] } => group.centroid !== null);
+
+  const maxDistance = threshold * MERGE_SUGGESTION_MARGIN;
+  const pairs: MergeCandidate[] = [];
+  for (let i = 0; i < withCentroids.length; i++) {
+    for (let j = i + 1; j < withCentroids.length; j++) {
+      const a = withCentroids[i];
+      const b = withCentroids[j];
+      const distance = faceDistance(a.centroid, b.centroid);
+      if (distance > maxDistance) continue;
+      const [source, target] = a.embeddings.length < b.embeddings.length ? [a, b] : [b, a];
+      pairs.push({ sourceId: source.id, targetId: target.id, distance });
+    }
+  }
+
+  pairs.sort((x, y) => x.distance - y.distance);
+  const used = new Set<string>();
+  return pairs.filter((pair) => {
+    if (used.has(pair.sourceId) || used.has(pair.targetId)) return false;
+    used.add(pair.sourceId);
+    used.add(pair.targetId);
+    return true;
+  });
+}
+
+/**
+ * Images further than `threshold` from the mean of the rest of their model,
+ * furthest first. Models need at least three embedded images, otherwise
+ * there's no "rest" to compare against.
+ */
+export function findOutliers(
+  imagesByIdentity: Record<string, Array<{ id: string; embedding: number[] | null }>>,
+  threshold: number
+): ImageOutlier[] {
+  const outliers: ImageOutlier[] = [];
+
+  for (const [identityId, images] of Object.entries(imagesByIdentity)) {
+    const embedded = images.filter((img): img is { id: string; embedding: number[] } => img.embedding !== null);
+    if (embedded.length < 3) continue;
+
+    for (const image of embedded) {
+      const rest = meanEmbedding(embedded.filter((other) => other.id !== image.id).map((other) => other.embedding));
+      if (!rest) continue;
+      const distance = faceDistance(image.embedding, rest);
+      if (distance > threshold) {
+        outliers.push({ identityId, identityImageId: image.id, distance });
+      }
+    }
+  }
+
+  return outliers.sort((a, b) => b.distance - a.distance);
+}
+
+export function formatFaceDistance(distance: number): string {
+  return distance.toFixed(3);
+}
@@ -54,3 +54,15 @@ export function sanitizeFileName(filename: string): string {
   
   return sanitized + ext.toLowerCase();
 }
+
+/**
+ * SHA-256 of the file contents as lowercase hex (Web Crypto).
+ * Identical bytes give the same hash regardless of filename or export time.
+ */
+export async function computeContentHash(file: Blob): Promise<string> {
+  const buffer = await file.arrayBuffer();
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
@@ -0,0 +1,259 @@
+/**
+ * Freelancer performance and throughput analytics
+ *
+ * Metrics are computed per freelancer identity over completed jobs
+ * (APPROVED or CLOSED) whose completion falls inside the selected range.
+ * Claim time comes from the latest job_claimed audit event, falling back to
+ * the job's started_at. Revision rounds are the submissions after the first.
+ */
+
+import type { JobStatus, JobType } from '@/types/jobs';
+
+export interface AnalyticsJob {
+  id: string;
+  title: string | null;
+  type: JobType;
+  status: JobStatus;
+  freelancer_identity_id: string;
+  started_at: string | null;
+  status_changed_at: string | null;
+  created_at: string;
+}
+
+export interface AnalyticsSubmission {
+  id: string;
+  job_id: string;
+  version_number: number;
+  submitted_at: string;
+}
+
+export interface AnalyticsAsset {
+  submission_id: string;
+  label: string | null;
+  review_status: string | null;
+}
+
+export interface AnalyticsIdentity {
+  id: string;
+  first_name: string;
+  last_name: string;
+  display_name: string | null;
+}
+
+export interface FreelancerAnalyticsData {
+  identities: AnalyticsIdentity[];
+  jobs: AnalyticsJob[];
+  submissions: AnalyticsSubmission[];
+  assets: AnalyticsAsset[];
+  /** job_id -> latest claim timestamp from audit_events */
+  claimedAt: Record<string, string>;
+}
+
+export interface AnalyticsFilters {
+  /** yyyy-MM-dd, inclusive */
+  from: string;
+  /** yyyy-MM-dd, inclusive */
+  to: string;
+  jobType: JobType | 'all';
+}
+
+export interface CompletedJobMetrics {
+  jobId: string;
+  title: string | null;
+  type: JobType;
+  status: JobStatus;
+  claimedAt: string | null;
+  firstSubmittedAt: string | null;
+  completedAt: string;
+  claimToSubmitMs: number | null;
+  submissionCount: number;
+  revisionRounds: number;
+  firstPassApproved: boolean;
+}
+
+export interface SentBackAsset {
+  label: string;
+  count: number;
+}
+
+export interface FreelancerMetrics {
+  identity: AnalyticsIdentity;
+  name: string;
+  jobsCompleted: number;
+  medianClaimToSubmitMs: number | null;
+  /** 0..1, null when nothing completed */
+  firstPassApprovalRate: number | null;
+  avgRevisionRounds: number | null;
+  mostSentBack: SentBackAsset[];
+  jobs: CompletedJobMetrics[];
+}
+
+export const COMPLETED_JOB_STATUSES: JobStatus[] = ['APPROVED', 'CLOSED'];
+
+const MOST_SENT_BACK_LIMIT = 5;
+
+export function getIdentityName(identity: AnalyticsIdentity): string {
+  return identity.display_name || `${identity.first_name} ${identity.last_name}`.trim();
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function inRange(date: string, filters: AnalyticsFilters): boolean {
+  const time = new Date(date).getTime();
+  if (filters.from && time < new Date(`${filters.from}T00:00:00`).getTime()) return false;
+  if (filters.to && time > new Date(`${filters.to}T23:59:59.999`).getTime()) return false;
+  return true;
+}
+
+export function computeFreelancerMetrics(
+  data: FreelancerAnalyticsData,
+  filters: AnalyticsFilters
+): FreelancerMetrics[] {
+  const submissionsByJob = new Map<string, AnalyticsSubmission[]>();
+  for (const submission of data.submissions) {
+    const list = submissionsByJob.get(submission.job_id) || [];
+    list.push(submission);
+    submissionsByJob.set(submission.job_id, list);
+  }
+
+  const jobBySubmission = new Map(data.submissions.map((s) => [s.id, s.job_id]));
+  const assetsByJob = new Map<string, AnalyticsAsset[]>();
+  for (const asset of data.assets) {
+    const jobId = jobBySubmission.get(asset.submission_id);
+    if (!jobId) continue;
+    const list = assetsByJob.get(jobId) || [];
+    list.push(asset);
+    assetsByJob.set(jobId, list);
+  }
+
+  const jobsByIdentity = new Map<string, AnalyticsJob[]>();
+  for (const job of data.jobs) {
+    if (!COMPLETED_JOB_STATUSES.includes(job.status)) continue;
+    if (filters.jobType !== 'all' && job.type !== filters.jobType) continue;
+    const completedAt = job.status_changed_at || job.created_at;
+    if (!inRange(completedAt, filters)) continue;
+
+    const list = jobsByIdentity.get(job.freelancer_identity_id) || [];
+    list.push(job);
+    jobsByIdentity.set(job.freelancer_identity_id, list);
+  }
+
+  return data.identities
+    .map((identity): FreelancerMetrics => {
+      const sentBack = new Map<string, number>();
+
+      const jobs = (jobsByIdentity.get(identity.id) || []).map((job): CompletedJobMetrics => {
+        const submissions = (submissionsByJob.get(job.id) || []).sort(
+          (a, b) => a.version_number - b.version_number
+        );
+        const first = submissions[0];
+        const claimedAt = data.claimedAt[job.id] || job.started_at;
+        const claimToSubmitMs =
+          first && claimedAt
+            ? Math.max(0, new Date(first.submitted_at).getTime() - new Date(claimedAt).getTime())
+            : null;
+        const maxVersion = submissions.reduce((max, s) => Math.max(max, s.version_number), 0);
+
+        for (const asset of assetsByJob.get(job.id) || []) {
+          if (asset.review_status !== 'CHANGES_REQUESTED') continue;
+          const label = asset.label || 'Unlabelled';
+          sentBack.set(label, (sentBack.get(label) || 0) + 1);
+        }
+
+        return {
+          jobId: job.id,
+          title: job.title,
+          type: job.type,
+          status: job.status,
+          claimedAt,
+          firstSubmittedAt: first?.submitted_at ?? null,
+          completedAt: job.status_changed_at || job.created_at,
+          claimToSubmitMs,
+          submissionCount: submissions.length,
+          revisionRounds: Math.max(0, maxVersion - 1),
+          firstPassApproved: maxVersion === 1,
+        };
+      });
+
+      jobs.sort((a, b) => b.completedAt.localeCompare(a.completedAt));
+
+      const claimTimes = jobs
+        .map((j) => j.claimToSubmitMs)
+        .filter((ms): ms is number => ms !== null);
+      const submitted = jobs.filter((j) => j.submissionCount > 0);
+
+      return {
+        identity,
+        name: getIdentityName(identity),
+        jobsCompleted: jobs.length,
+        medianClaimToSubmitMs: median(claimTimes),
+        firstPassApprovalRate: submitted.length
+          ? submitted.filter((j) => j.firstPassApproved).length / submitted.length
+          : null,
+        avgRevisionRounds: submitted.length
+          ? submitted.reduce((sum, j) => sum + j.revisionRounds, 0) / submitted.length
+          : null,
+        mostSentBack: [...sentBack.entries()]
+          .map(([label, count]) => ({ label, count }))
+          .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label))
+          .slice(0, MOST_SENT_BACK_LIMIT),
+        jobs,
+      };
+    })
+    .sort((a, b) => b.jobsCompleted - a.jobsCompleted || a.name.localeCompare(b.name));
+}
+
+export function formatHours(ms: number | null): string {
+  if (ms === null) return '—';
+  const hours = ms / (60 * 60 * 1000);
+  if (hours < 1) return `${Math.round(hours * 60)}m`;
+  if (hours < 48) return `${hours.toFixed(1)}h`;
+  return `${(hours / 24).toFixed(1)}d`;
+}
+
+export function formatPercent(rate: number | null): string {
+  return rate === null ? '—' : `${Math.round(rate * 100)}%`;
+}
+
+const csvCell = (value: string | number | null) => {
+  if (value === null) return '';
+  if (typeof value === 'number') return String(value);
+  return `"${value.replace(/"/g, '""')}"`;
+};
+
+/** One row per completed job, for freelancer invoicing */
+export function buildInvoiceCsv(metrics: FreelancerMetrics[], typeLabels: Record<JobType, string>): string {
+  const headers = [
+    'Freelancer',
+    'Job ID',
+    'Job Title',
+    'Job Type',
+    'Status',
+    'Claimed At',
+    'First Submitted At',
+    'Completed At',
+    'Claim To Submit (hours)',
+    'Revision Rounds',
+  ];
+  const rows = metrics.flatMap((m) =>
+    m.jobs.map((job) => [
+      csvCell(m.name),
+      csvCell(job.jobId),
+      csvCell(job.title),
+      csvCell(typeLabels[job.type]),
+      csvCell(job.status),
+      csvCell(job.claimedAt),
+      csvCell(job.firstSubmittedAt),
+      csvCell(job.completedAt),
+      csvCell(job.claimToSubmitMs === null ? null : Number((job.claimToSubmitMs / 3600000).toFixed(2))),
+      csvCell(job.revisionRounds),
+    ])
+  );
+
+  return [headers.join(','), ...rows.map((r) => r.join(','))].join('\n');
+}
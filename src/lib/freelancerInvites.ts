@@ -0,0 +1,24 @@
+/**
+ * Freelancer invites
+ *
+ * A freelancer invite is a single-use link to /freelancer/join carrying the
+ * invite token, optionally protected by a PIN shared through another channel.
+ * The freelancer-login edge function redeems it for an account and locks the
+ * invite after repeated wrong PINs.
+ */
+
+export const FREELANCER_PIN_LENGTH = 6;
+
+export function generateInvitePin(): string {
+  const values = crypto.getRandomValues(new Uint32Array(FREELANCER_PIN_LENGTH));
+  return Array.from(values, (v) => String(v % 10)).join('');
+}
+
+export function getFreelancerInviteLink(token: string): string {
+  return `${window.location.origin}/freelancer/join?invite=${token}`;
+}
+
+/** Post-login destination, limited to the freelancer portal */
+export function getFreelancerRedirect(redirect: string | null): string {
+  return redirect && redirect.startsWith('/work') ? redirect : '/work';
+}
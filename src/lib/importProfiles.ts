@@ -0,0 +1,159 @@
+/**
+ * Brand Import Profiles
+ * Per-brand filename parsing rules for look/TIFF imports. Stored as JSON on
+ * brands.import_profile; when a brand has no profile the built-in parsers in
+ * tiffImportUtils / useWorkflowUpload are used unchanged.
+ */
+
+export type ImportProfileView = 'front' | 'cropped_front' | 'back' | 'side' | 'detail';
+
+export const IMPORT_PROFILE_VIEWS: ImportProfileView[] = ['front', 'cropped_front', 'back', 'side', 'detail'];
+
+/**
+ * How to pull a value out of a file path:
+ * - regex: first match against the filename (without extension), optional capture group
+ * - token: split the filename on a separator and take a token (negative index counts from the end)
+ * - folder: use a parent folder name (depth 0 = the folder directly containing the file)
+ */
+export type ImportFieldRule =
+  | { type: 'regex'; pattern: string; group?: number }
+  | { type: 'token'; separator: string; index: number }
+  | { type: 'folder'; depth: number };
+
+export interface ImportViewRule {
+  view: ImportProfileView;
+  /** Regex tested case-insensitively against the filename without extension */
+  pattern: string;
+}
+
+export interface ImportProfile {
+  lookKey: ImportFieldRule;
+  /** Checked in order, first match wins */
+  views: ImportViewRule[];
+  sequence?: ImportFieldRule | null;
+  /** Uppercase the extracted look key (default true) */
+  uppercaseLookKey?: boolean;
+}
+
+export interface ProfileParseResult {
+  lookKey: string | null;
+  view: ImportProfileView | null;
+  sequence: string | null;
+}
+
+export const DEFAULT_IMPORT_PROFILE: ImportProfile = {
+  lookKey: { type: 'regex', pattern: '[A-Z0-9]{8,}' },
+  views: [
+    { view: 'front', pattern: 'front' },
+    { view: 'back', pattern: 'back' },
+    { view: 'side', pattern: 'side' },
+    { view: 'detail', pattern: 'detail' },
+  ],
+  sequence: { type: 'regex', pattern: '#(\\d+)', group: 1 },
+  uppercaseLookKey: true,
+};
+
+const EXTENSION_PATTERN = /\.(tiff?|png|jpe?g|webp)$/i;
+
+// Paths for files collected from dropped folders. Dropped files have an empty
+// webkitRelativePath, so the folder walkers record the entry path here.
+const filePaths = new WeakMap<File, string>();
+
+export function registerFilePath(file: File, path: string): void {
+  filePaths.set(file, path.replace(/^\/+/, ''));
+}
+
+/**
+ * Relative path of a file, including folders when known ("LOOK01/front.tif")
+ */
+export function getFilePath(file: File): string {
+  return filePaths.get(file) || file.webkitRelativePath || file.name;
+}
+
+function compileRegex(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Returns an error message for the first invalid regex in the profile, or null
+ */
+export function validateImportProfile(profile: ImportProfile): string | null {
+  const rules: Array<[string, ImportFieldRule | null | undefined]> = [
+    ['Look key', profile.lookKey],
+    ['Sequence', profile.sequence],
+  ];
+  for (const [label, rule] of rules) {
+    if (rule?.type === 'regex' && (!rule.pattern || !compileRegex(rule.pattern))) {
+      return `${label} pattern is not a valid regex`;
+    }
+    if (rule?.type === 'token' && !rule.separator) {
+      return `${label} token rule needs a separator`;
+    }
+  }
+  for (const viewRule of profile.views) {
+    if (!viewRule.pattern || !compileRegex(viewRule.pattern)) {
+      return `View pattern for "${viewRule.view}" is not a valid regex`;
+    }
+  }
+  return null;
+}
+
+function applyFieldRule(rule: ImportFieldRule, nameWithoutExt: string, folders: string[]): string | null {
+  switch (rule.type) {
+    case 'regex': {
+      const regex = compileRegex(rule.pattern);
+      const match = regex ? nameWithoutExt.match(regex) : null;
+      if (!match) return null;
+      return match[rule.group ?? 0] ?? null;
+    }
+    case 'token': {
+      const tokens = nameWithoutExt.split(rule.separator).filter(Boolean);
+      const index = rule.index < 0 ? tokens.length + rule.index : rule.index;
+      return tokens[index] ?? null;
+    }
+    case 'folder':
+      return folders[folders.length - 1 - rule.depth] ?? null;
+  }
+}
+
+/**
+ * Parse a file path with a brand profile
+ */
+export function parseWithProfile(path: string, profile: ImportProfile): ProfileParseResult {
+  const segments = path.split('/').filter(Boolean);
+  const filename = segments.pop() || path;
+  const nameWithoutExt = filename.replace(EXTENSION_PATTERN, '');
+
+  const rawKey = applyFieldRule(profile.lookKey, nameWithoutExt, segments)?.trim() || null;
+  const lookKey = rawKey && profile.uppercaseLookKey !== false ? rawKey.toUpperCase() : rawKey;
+
+  const viewRule = profile.views.find(rule => compileRegex(rule.pattern)?.test(nameWithoutExt));
+  const sequence = profile.sequence
+    ? applyFieldRule(profile.sequence, nameWithoutExt, segments)
+    : null;
+
+  return {
+    lookKey,
+    view: viewRule?.view ?? null,
+    sequence,
+  };
+}
+
+/**
+ * Normalise a stored JSON value into a profile, or null when unusable
+ */
+export function toImportProfile(value: unknown): ImportProfile | null {
+  if (!value || typeof value !== 'object') return null;
+  const candidate = value as Partial<ImportProfile>;
+  if (!candidate.lookKey || !Array.isArray(candidate.views)) return null;
+  return {
+    lookKey: candidate.lookKey,
+    views: candidate.views,
+    sequence: candidate.sequence ?? null,
+    uppercaseLookKey: candidate.uppercaseLookKey ?? true,
+  };
+}
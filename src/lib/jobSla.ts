@@ -0,0 +1,93 @@
+/**
+ * Freelancer job SLAs
+ *
+ * Each job type has a turnaround target from claim to first submission and
+ * from NEEDS_CHANGES to resubmission, both measured from status_changed_at.
+ * A job's due_date also counts as a deadline while it is still open. The
+ * enforce-job-slas edge function applies the same rules when it sends
+ * reminders and reclaims overdue IN_PROGRESS jobs.
+ */
+
+import type { JobStatus, JobTypeSla, UnifiedJob } from '@/types/jobs';
+
+export type JobSlaKind = 'first_submission' | 'needs_changes' | 'due_date';
+export type JobSlaState = 'on_track' | 'due_soon' | 'overdue';
+
+export interface JobSlaStatus {
+  kind: JobSlaKind;
+  state: JobSlaState;
+  deadline: Date;
+  /** Negative once overdue */
+  remainingMs: number;
+}
+
+/** Used until the job_type_slas row loads or if it is missing */
+export const DEFAULT_JOB_SLA: Omit<JobTypeSla, 'job_type'> = {
+  first_submission_hours: 24,
+  needs_changes_hours: 12,
+  reminder_lead_hours: 4,
+  auto_reclaim: true,
+};
+
+export const JOB_SLA_KIND_LABELS: Record<JobSlaKind, string> = {
+  first_submission: 'First submission',
+  needs_changes: 'Address changes',
+  due_date: 'Due date',
+};
+
+// Statuses where the job is still waiting on someone
+const DUE_DATE_STATUSES: JobStatus[] = ['OPEN', 'ASSIGNED', 'IN_PROGRESS', 'SUBMITTED', 'NEEDS_CHANGES'];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type SlaJob = Pick<UnifiedJob, 'status' | 'due_date' | 'status_changed_at' | 'started_at' | 'updated_at'>;
+
+/** The earliest deadline currently running for a job, or null if none applies */
+export function getJobSlaStatus(
+  job: SlaJob,
+  sla: Omit<JobTypeSla, 'job_type'> | undefined,
+  now: number = Date.now()
+): JobSlaStatus | null {
+  const rules = sla || DEFAULT_JOB_SLA;
+  const candidates: { kind: JobSlaKind; deadline: number }[] = [];
+
+  const clockStart = job.status_changed_at || job.started_at || job.updated_at;
+  if (clockStart && job.status === 'IN_PROGRESS') {
+    candidates.push({
+      kind: 'first_submission',
+      deadline: new Date(clockStart).getTime() + rules.first_submission_hours * HOUR_MS,
+    });
+  }
+  if (clockStart && job.status === 'NEEDS_CHANGES') {
+    candidates.push({
+      kind: 'needs_changes',
+      deadline: new Date(clockStart).getTime() + rules.needs_changes_hours * HOUR_MS,
+    });
+  }
+  if (job.due_date && DUE_DATE_STATUSES.includes(job.status)) {
+    candidates.push({ kind: 'due_date', deadline: new Date(job.due_date).getTime() });
+  }
+
+  if (candidates.length === 0) return null;
+
+  const earliest = candidates.reduce((a, b) => (b.deadline < a.deadline ? b : a));
+  const remainingMs = earliest.deadline - now;
+  const state: JobSlaState = remainingMs <= 0
+    ? 'overdue'
+    : remainingMs <= rules.reminder_lead_hours * HOUR_MS
+      ? 'due_soon'
+      : 'on_track';
+
+  return { kind: earliest.kind, state, deadline: new Date(earliest.deadline), remainingMs };
+}
+
+/** Compact duration, e.g. "45m", "5h", "2d 3h" */
+export function formatSlaDuration(ms: number): string {
+  const minutes = Math.max(1, Math.round(Math.abs(ms) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  const days = Math.floor(hours / 24);
+  const remHours = hours % 24;
+  return remHours > 0 ? `${days}d ${remHours}h` : `${days}d`;
+}
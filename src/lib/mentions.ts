@@ -0,0 +1,74 @@
+/**
+ * @mention tokens in review comments
+ *
+ * Stored bodies embed mentions as @[Display Name](user:<uuid>) or
+ * @[Display Name](freelancer:<uuid>). The compose box shows plain "@Name" and
+ * tracks the picked mentions separately; encodeMentions() swaps them for
+ * tokens on send. The create_comment_mention_notifications trigger parses the
+ * same format.
+ */
+
+import type { MentionCandidate, MentionKind } from '@/types/review';
+
+const MENTION_TOKEN_PATTERN = /@\[([^\]]*)\]\((user|freelancer):([0-9a-fA-F-]{36})\)/g;
+
+export type CommentSegment =
+  | { type: 'text'; text: string }
+  | { type: 'mention'; kind: MentionKind; id: string; name: string };
+
+export function formatMentionToken(mention: Pick<MentionCandidate, 'kind' | 'id' | 'name'>): string {
+  // Brackets would end the token early
+  const name = mention.name.replace(/[[\]]/g, '');
+  return `@[${name}](${mention.kind}:${mention.id})`;
+}
+
+/** Split a stored comment body into text and mention segments for rendering */
+export function parseCommentBody(body: string): CommentSegment[] {
+  const segments: CommentSegment[] = [];
+  let lastIndex = 0;
+
+  for (const match of body.matchAll(MENTION_TOKEN_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ type: 'text', text: body.slice(lastIndex, index) });
+    }
+    segments.push({ type: 'mention', name: match[1], kind: match[2] as MentionKind, id: match[3] });
+    lastIndex = index + match[0].length;
+  }
+
+  if (lastIndex < body.length) {
+    segments.push({ type: 'text', text: body.slice(lastIndex) });
+  }
+  return segments;
+}
+
+/** Comment body with tokens collapsed to "@Name", for previews and tooltips */
+export function mentionsToPlainText(body: string): string {
+  return body.replace(MENTION_TOKEN_PATTERN, '@$1');
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Replace "@Name" in the draft with tokens for each picked mention that is
+ * still present. Longer names go first so "@Ann Lee" wins over "@Ann".
+ */
+export function encodeMentions(draft: string, mentions: MentionCandidate[]): string {
+  const sorted = [...mentions].sort((a, b) => b.name.length - a.name.length);
+
+  return sorted.reduce((encoded, mention) => {
+    const pattern = new RegExp(`@${escapeRegExp(mention.name)}(?![\\w])`, 'g');
+    return encoded.replace(pattern, () => formatMentionToken(mention));
+  }, draft);
+}
+
+/**
+ * The "@query" being typed just before the caret, if any. Mentions start at
+ * the beginning of the text or after whitespace.
+ */
+export function getActiveMentionQuery(text: string, caret: number): { query: string; start: number } | null {
+  const beforeCaret = text.slice(0, caret);
+  const match = /(^|\s)@([^\s@]{0,30})$/.exec(beforeCaret);
+  if (!match) return null;
+  return { query: match[2], start: caret - match[2].length - 1 };
+}
@@ -0,0 +1,102 @@
+/**
+ * Notification centre helpers
+ *
+ * Labels, deep links and feed grouping shared by the header bell and the
+ * preferences dialog. The email digest edge function keeps its own copy of
+ * the labels since it cannot import from src/.
+ */
+
+import type { Notification, NotificationType, EmailDigestFrequency } from '@/types/review';
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  JOB_SUBMITTED: 'Job submitted',
+  COMMENT_MENTION: 'Mentioned you',
+  CHANGES_REQUESTED: 'Changes requested',
+  JOB_APPROVED: 'Job approved',
+  COMMENT_REPLY: 'Replied to you',
+  JOB_DUE_SOON: 'Job due soon',
+  JOB_RECLAIMED: 'Job returned to the pool',
+};
+
+export const ALL_NOTIFICATION_TYPES = Object.keys(NOTIFICATION_TYPE_LABELS) as NotificationType[];
+
+export const EMAIL_DIGEST_OPTIONS: { value: EmailDigestFrequency; label: string }[] = [
+  { value: 'off', label: 'Never' },
+  { value: 'hourly', label: 'Hourly' },
+  { value: 'daily', label: 'Daily' },
+];
+
+function metadataString(notification: Notification, key: string): string | null {
+  const value = notification.metadata?.[key];
+  return typeof value === 'string' ? value : null;
+}
+
+// Types whose label reads as something a person did, e.g. "Sam mentioned you"
+const ACTOR_TYPES: NotificationType[] = ['COMMENT_MENTION', 'COMMENT_REPLY'];
+
+/** One line describing the notification, e.g. "Changes requested on Front" */
+export function getNotificationSummary(notification: Notification): string {
+  const label = NOTIFICATION_TYPE_LABELS[notification.type];
+  const actorName = metadataString(notification, 'actorName');
+  const assetLabel = metadataString(notification, 'assetLabel');
+  const action = actorName && ACTOR_TYPES.includes(notification.type)
+    ? `${actorName} ${label.toLowerCase()}`
+    : label;
+  return assetLabel ? `${action} on ${assetLabel}` : action;
+}
+
+/** Comment preview stored with mention notifications */
+export function getNotificationExcerpt(notification: Notification): string | null {
+  return metadataString(notification, 'excerpt');
+}
+
+/**
+ * Where clicking a notification should take the user. Internal users land in
+ * the job board review panel focused on the asset/annotation; everyone else
+ * goes to the freelancer workspace for the job.
+ */
+export function getNotificationLink(notification: Notification, isInternal: boolean): string | null {
+  if (!notification.job_id) return null;
+
+  if (!isInternal) {
+    return `/work/${notification.job_id}`;
+  }
+
+  const params = new URLSearchParams({ review: notification.job_id });
+  const assetId = metadataString(notification, 'assetId');
+  const annotationId = metadataString(notification, 'annotationId');
+  if (assetId) params.set('asset', assetId);
+  if (annotationId) params.set('annotation', annotationId);
+  return `/jobs?${params.toString()}`;
+}
+
+export interface NotificationGroup {
+  key: string;
+  title: string;
+  notifications: Notification[];
+  unreadCount: number;
+}
+
+/** Group the feed by job, most recently active job first */
+export function groupNotificationsByJob(notifications: Notification[]): NotificationGroup[] {
+  const groups = new Map<string, NotificationGroup>();
+
+  for (const notification of notifications) {
+    const key = notification.job_id || 'general';
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        title: notification.job_id ? notification.job?.title || 'Untitled job' : 'General',
+        notifications: [],
+        unreadCount: 0,
+      };
+      groups.set(key, group);
+    }
+    group.notifications.push(notification);
+    if (!notification.read_at) group.unreadCount++;
+  }
+
+  // Input is newest-first, so Map insertion order already ranks groups by latest activity
+  return Array.from(groups.values());
+}
@@ -0,0 +1,150 @@
+/**
+ * Perceptual hashing (dHash) for near-duplicate detection
+ *
+ * Hashes are 64-bit (16 hex chars): the image is shrunk to 9x8 greyscale and
+ * each bit records whether a pixel is brighter than its right-hand neighbour.
+ * Generated outputs are hashed server-side from their storage thumbnail
+ * (supabase/functions/_shared/perceptual-hash.ts);
+ * computeDHashFromUrl produces the same hash in the browser for anything else.
+ */
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+/** Max differing bits for two images to count as near-duplicates */
+export const NEAR_DUPLICATE_THRESHOLD = 6;
+
+const NIBBLE_BITS = [0, 1, 1, 2, 1, 2, 2, 3, 1, 2, 2, 3, 2, 3, 3, 4];
+
+/**
+ * Number of differing bits between two hex hashes of equal length
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    distance += NIBBLE_BITS[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  }
+  return distance;
+}
+
+export function isNearDuplicate(
+  a: string | null | undefined,
+  b: string | null | undefined,
+  threshold = NEAR_DUPLICATE_THRESHOLD
+): boolean {
+  if (!a || !b) return false;
+  return hammingDistance(a, b) <= threshold;
+}
+
+/**
+ * Group items whose hashes are within the threshold of a group's first item.
+ * Order is preserved; items without a hash always form their own group.
+ */
+export function groupNearDuplicates<T>(
+  items: T[],
+  getHash: (item: T) => string | null | undefined,
+  threshold = NEAR_DUPLICATE_THRESHOLD
+): T[][] {
+  const groups: T[][] = [];
+  for (const item of items) {
+    const hash = getHash(item);
+    const group = hash
+      ? groups.find(g => isNearDuplicate(getHash(g[0]), hash, threshold))
+      : undefined;
+    if (group) {
+      group.push(item);
+    } else {
+      groups.push([item]);
+    }
+  }
+  return groups;
+}
+
+export interface StackedItems<T> {
+  /** Items to render: one per collapsed stack, all members of expanded stacks */
+  visible: T[];
+  /** Hidden member count keyed by the id of the item shown for the stack */
+  hiddenCounts: Map<string, number>;
+  /** Total stack size keyed by the id of the item shown for the stack */
+  stackSizes: Map<string, number>;
+}
+
+/**
+ * Collapse near-duplicates into stacks for review grids.
+ * The item shown for a collapsed stack is the first one matching preferAsTop
+ * (e.g. an already-selected output) or else the first in the stack.
+ * Stacks whose top item id is in expandedIds are shown in full.
+ */
+export function stackNearDuplicates<T>(
+  items: T[],
+  options: {
+    getId: (item: T) => string;
+    getHash: (item: T) => string | null | undefined;
+    expandedIds?: Set<string>;
+    preferAsTop?: (item: T) => boolean;
+    threshold?: number;
+  }
+): StackedItems<T> {
+  const { getId, getHash, expandedIds, preferAsTop, threshold } = options;
+  const visible: T[] = [];
+  const hiddenCounts = new Map<string, number>();
+  const stackSizes = new Map<string, number>();
+
+  for (const group of groupNearDuplicates(items, getHash, threshold)) {
+    const top = (preferAsTop && group.find(preferAsTop)) || group[0];
+    const topId = getId(top);
+    if (group.length > 1) stackSizes.set(topId, group.length);
+
+    if (group.length === 1 || expandedIds?.has(topId)) {
+      visible.push(top, ...group.filter(item => item !== top));
+    } else {
+      visible.push(top);
+      hiddenCounts.set(topId, group.length - 1);
+    }
+  }
+
+  return { visible, hiddenCounts, stackSizes };
+}
+
+/**
+ * Compute a dHash in the browser. Needs CORS access to the image
+ * (public storage URLs allow this). Returns null if the image can't be read.
+ */
+export async function computeDHashFromUrl(url: string): Promise<string | null> {
+  try {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve();
+      img.onerror = () => reject(new Error(`Failed to load ${url}`));
+      img.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = HASH_WIDTH;
+    canvas.height = HASH_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(img, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+    const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+    const luminance = (x: number, y: number) => {
+      const i = (y * HASH_WIDTH + x) * 4;
+      return 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    };
+
+    let hex = '';
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+      let byte = 0;
+      for (let x = 0; x < HASH_WIDTH - 1; x++) {
+        byte = (byte << 1) | (luminance(x, y) > luminance(x + 1, y) ? 1 : 0);
+      }
+      hex += byte.toString(16).padStart(2, '0');
+    }
+    return hex;
+  } catch (err) {
+    console.warn('[perceptualHash] Could not hash image:', err);
+    return null;
+  }
+}
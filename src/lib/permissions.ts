@@ -0,0 +1,38 @@
+/**
+ * Permission matrix
+ *
+ * Roles decide which areas of the app a user can open; permissions decide
+ * which actions they can take there. Role defaults live in role_permissions
+ * and admins can grant or revoke single permissions per user. Admins always
+ * hold every permission. The has_permission RPC is the source of truth and
+ * the edge functions keep their own list in supabase/functions/_shared/auth.ts.
+ */
+
+import type { Database } from '@/integrations/supabase/types';
+
+export type AppPermission = Database['public']['Enums']['app_permission'];
+
+export const PERMISSION_LABELS: Record<AppPermission, string> = {
+  'repose.run': 'Run repose generation',
+  'repose.rerender4k': 'Re-render in 4K',
+  'repose.delete': 'Delete repose outputs',
+  'jobs.approve': 'Approve jobs',
+  'library.lock': 'Lock pose libraries',
+  'users.invite': 'Invite users',
+};
+
+export const PERMISSION_DESCRIPTIONS: Record<AppPermission, string> = {
+  'repose.run': 'Start, resume and retry repose batches',
+  'repose.rerender4k': 'Queue paid 4K re-renders of favorites',
+  'repose.delete': 'Clear generated outputs from a batch',
+  'jobs.approve': 'Approve submitted assets and close out jobs',
+  'library.lock': 'Lock or unlock a brand pose library version',
+  'users.invite': 'Create invite links for new users',
+};
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSION_LABELS) as AppPermission[];
+
+/** Shown when a control is disabled for lack of a permission */
+export function getMissingPermissionMessage(permission: AppPermission): string {
+  return `You don't have permission to ${PERMISSION_LABELS[permission].toLowerCase()}`;
+}
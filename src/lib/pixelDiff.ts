@@ -0,0 +1,248 @@
+/**
+ * Pixel diff between a face-replace output and its original look image
+ *
+ * Face replacement should only touch the head, so anything that changed
+ * outside the stored head crop is a likely brief violation (clothing edits,
+ * re-crops, background clean-up). Both images are scaled to a small working
+ * size in the output's frame, the original is shifted a few pixels to absorb
+ * small registration differences, and every pixel whose strongest channel
+ * moved by more than CHANGE_THRESHOLD counts as changed.
+ *
+ * Runs in the browser and needs CORS access to both images (public storage
+ * URLs allow this).
+ */
+
+/** Longest side of the working canvas */
+const DIFF_SIZE = 384;
+
+/** Max alignment shift tried in each direction, in working pixels */
+const MAX_SHIFT = 6;
+
+/** Per-channel difference (0-255) that counts a pixel as changed */
+const CHANGE_THRESHOLD = 48;
+
+/** Head crop grown by this fraction of its size on each side (hair, neck) */
+const HEAD_MARGIN = 0.25;
+
+/** Share of pixels outside the head allowed to change before warning */
+export const OUTSIDE_HEAD_WARN_RATIO = 0.01;
+
+/** Aspect ratio drift treated as a re-crop */
+const ASPECT_TOLERANCE = 0.02;
+
+/** Normalized (0-1) rectangle in the original image */
+export interface HeadRegion {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/** Head crop as stored on look_source_images, in pixels of imageUrl */
+export interface HeadCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  imageUrl: string;
+}
+
+export type DiffVerdict = 'pass' | 'warn';
+
+export interface PixelDiffResult {
+  verdict: DiffVerdict;
+  reasons: string[];
+  /** Share of pixels outside the head region that changed */
+  changedOutsideHead: number;
+  /** Share of pixels inside the head region that changed */
+  changedInsideHead: number;
+  /** Mean per-pixel difference (0-255) after alignment, used to pick the best original */
+  meanDifference: number;
+  /** Alignment shift applied to the original, as a fraction of the output size */
+  offset: { x: number; y: number };
+  hasHeadRegion: boolean;
+  /** PNG data URL in the output's frame, for overlaying on the output */
+  heatmapUrl: string;
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load ${url}`));
+    img.src = url;
+  });
+}
+
+function readPixels(img: HTMLImageElement, width: number, height: number): Uint8ClampedArray {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(img, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height).data;
+}
+
+/**
+ * Normalize a pixel head crop against the original's frame. The crop was made
+ * on look_source_images.source_url, which may be a different resolution than
+ * the artifact; it only applies if both share an aspect ratio.
+ */
+async function resolveHeadRegion(crop: HeadCrop, original: HTMLImageElement, originalUrl: string): Promise<HeadRegion | null> {
+  const reference = crop.imageUrl === originalUrl ? original : await loadImage(crop.imageUrl);
+  const referenceAspect = reference.naturalWidth / reference.naturalHeight;
+  const originalAspect = original.naturalWidth / original.naturalHeight;
+  if (Math.abs(referenceAspect - originalAspect) / originalAspect > ASPECT_TOLERANCE) {
+    return null;
+  }
+
+  const x = crop.x / reference.naturalWidth;
+  const y = crop.y / reference.naturalHeight;
+  const w = crop.width / reference.naturalWidth;
+  const h = crop.height / reference.naturalHeight;
+  const left = Math.max(0, x - w * HEAD_MARGIN);
+  const top = Math.max(0, y - h * HEAD_MARGIN);
+  return {
+    x: left,
+    y: top,
+    w: Math.min(1, x + w * (1 + HEAD_MARGIN)) - left,
+    h: Math.min(1, y + h * (1 + HEAD_MARGIN)) - top,
+  };
+}
+
+/** Shift of the original (in working pixels) that best lines it up with the output */
+function findAlignment(output: Uint8ClampedArray, original: Uint8ClampedArray, width: number, height: number) {
+  const luma = (data: Uint8ClampedArray, i: number) => (data[i] * 77 + data[i + 1] * 150 + data[i + 2] * 29) >> 8;
+  let best = { dx: 0, dy: 0, score: Infinity };
+
+  for (let dy = -MAX_SHIFT; dy <= MAX_SHIFT; dy++) {
+    for (let dx = -MAX_SHIFT; dx <= MAX_SHIFT; dx++) {
+      let sum = 0;
+      let count = 0;
+      // Every other pixel is plenty for picking a shift
+      for (let y = MAX_SHIFT; y < height - MAX_SHIFT; y += 2) {
+        for (let x = MAX_SHIFT; x < width - MAX_SHIFT; x += 2) {
+          const i = (y * width + x) * 4;
+          const j = ((y + dy) * width + (x + dx)) * 4;
+          sum += Math.abs(luma(output, i) - luma(original, j));
+          count++;
+        }
+      }
+      const score = sum / Math.max(count, 1);
+      if (score < best.score) best = { dx, dy, score };
+    }
+  }
+
+  return best;
+}
+
+export async function computePixelDiff({
+  outputUrl,
+  originalUrl,
+  headCrop,
+}: {
+  outputUrl: string;
+  originalUrl: string;
+  headCrop: HeadCrop | null;
+}): Promise<PixelDiffResult> {
+  const [outputImg, originalImg] = await Promise.all([loadImage(outputUrl), loadImage(originalUrl)]);
+  const reasons: string[] = [];
+
+  const outputAspect = outputImg.naturalWidth / outputImg.naturalHeight;
+  const originalAspect = originalImg.naturalWidth / originalImg.naturalHeight;
+  if (Math.abs(outputAspect - originalAspect) / originalAspect > ASPECT_TOLERANCE) {
+    reasons.push('Crop or aspect ratio differs from the original');
+  }
+
+  const scale = DIFF_SIZE / Math.max(outputImg.naturalWidth, outputImg.naturalHeight);
+  const width = Math.max(1, Math.round(outputImg.naturalWidth * scale));
+  const height = Math.max(1, Math.round(outputImg.naturalHeight * scale));
+
+  const output = readPixels(outputImg, width, height);
+  const original = readPixels(originalImg, width, height);
+  const { dx, dy } = findAlignment(output, original, width, height);
+
+  const headRegion = headCrop ? await resolveHeadRegion(headCrop, originalImg, originalUrl) : null;
+  if (!headRegion) {
+    reasons.push('No head crop stored for this view, so every change counts');
+  }
+  const head = headRegion && {
+    left: Math.floor((headRegion.x * width) - dx),
+    top: Math.floor((headRegion.y * height) - dy),
+    right: Math.ceil(((headRegion.x + headRegion.w) * width) - dx),
+    bottom: Math.ceil(((headRegion.y + headRegion.h) * height) - dy),
+  };
+
+  const heatmap = new ImageData(width, height);
+  let insideTotal = 0;
+  let insideChanged = 0;
+  let outsideTotal = 0;
+  let outsideChanged = 0;
+  let differenceSum = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const sx = Math.min(width - 1, Math.max(0, x + dx));
+      const sy = Math.min(height - 1, Math.max(0, y + dy));
+      const j = (sy * width + sx) * 4;
+      const difference = Math.max(
+        Math.abs(output[i] - original[j]),
+        Math.abs(output[i + 1] - original[j + 1]),
+        Math.abs(output[i + 2] - original[j + 2])
+      );
+      differenceSum += difference;
+
+      const inHead = !!head && x >= head.left && x < head.right && y >= head.top && y < head.bottom;
+      const changed = difference > CHANGE_THRESHOLD;
+      if (inHead) {
+        insideTotal++;
+        if (changed) insideChanged++;
+      } else {
+        outsideTotal++;
+        if (changed) outsideChanged++;
+      }
+
+      if (changed) {
+        // Expected head changes in blue, everything else red to yellow by strength
+        const strength = Math.min(1, (difference - CHANGE_THRESHOLD) / (255 - CHANGE_THRESHOLD));
+        heatmap.data[i] = inHead ? 59 : 255;
+        heatmap.data[i + 1] = inHead ? 130 : Math.round(200 * strength);
+        heatmap.data[i + 2] = inHead ? 246 : 0;
+        heatmap.data[i + 3] = inHead ? 90 : Math.round(140 + 100 * strength);
+      }
+    }
+  }
+
+  const changedOutsideHead = outsideTotal ? outsideChanged / outsideTotal : 0;
+  const changedInsideHead = insideTotal ? insideChanged / insideTotal : 0;
+  if (changedOutsideHead > OUTSIDE_HEAD_WARN_RATIO) {
+    reasons.push(`${(changedOutsideHead * 100).toFixed(1)}% of pixels outside the head changed`);
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.putImageData(heatmap, 0, 0);
+  if (head) {
+    ctx.setLineDash([6, 4]);
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.9)';
+    ctx.lineWidth = 1.5;
+    ctx.strokeRect(head.left, head.top, head.right - head.left, head.bottom - head.top);
+  }
+
+  return {
+    verdict: reasons.length === 0 ? 'pass' : 'warn',
+    reasons,
+    changedOutsideHead,
+    changedInsideHead,
+    meanDifference: differenceSum / (width * height),
+    offset: { x: dx / width, y: dy / height },
+    hasHeadRegion: !!head,
+    heatmapUrl: canvas.toDataURL('image/png'),
+  };
+}
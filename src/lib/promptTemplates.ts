@@ -0,0 +1,115 @@
+/**
+ * Prompt library
+ *
+ * Every generation pipeline reads its prompt from prompt_versions. Each
+ * pipeline has one active version; the edge functions fill in {variable}
+ * placeholders and fall back to their built-in prompt when nothing is active.
+ * _shared/prompt-templates.ts renders templates the same way on the server.
+ */
+
+export type PromptPipeline = 'repose' | 'ai_apply' | 'face_application' | 'clay' | 'expression';
+
+export interface PromptVersion {
+  id: string;
+  pipeline: PromptPipeline;
+  version: string;
+  template: string;
+  notes: string | null;
+  is_active: boolean;
+  created_by: string | null;
+  created_at: string;
+}
+
+export const PROMPT_PIPELINES: PromptPipeline[] = [
+  'repose',
+  'ai_apply',
+  'face_application',
+  'clay',
+  'expression',
+];
+
+export const PROMPT_PIPELINE_LABELS: Record<PromptPipeline, string> = {
+  repose: 'Repose',
+  ai_apply: 'AI Apply',
+  face_application: 'Face Application',
+  clay: 'Clay',
+  expression: 'Expression Map',
+};
+
+/** Variables each pipeline fills in when it renders the active template */
+export const PROMPT_VARIABLES: Record<PromptPipeline, Record<string, string>> = {
+  repose: {
+    cropTarget: 'Crop target of the clay pose (top, trousers...)',
+    shotType: 'Shot type of the output (FRONT_FULL, BACK_FULL...)',
+    imageSize: 'Requested resolution (1K, 2K, 4K)',
+  },
+  ai_apply: {
+    outfitDescription: 'Outfit description generated from the crop',
+    viewPrompt: 'Pose and framing instructions for the view',
+    view: 'View name',
+  },
+  face_application: {
+    outfitDescription: 'Outfit description generated from the look',
+    viewPrompt: 'Pose and framing instructions for the view',
+    view: 'View name',
+  },
+  clay: {},
+  expression: {
+    masterPrompt: "The project's master prompt",
+    deltaLine: "The recipe's expression delta line",
+  },
+};
+
+const VARIABLE_PATTERN = /\{([a-zA-Z][a-zA-Z0-9_]*)\}/g;
+
+export function extractTemplateVariables(template: string): string[] {
+  const names = new Set<string>();
+  for (const match of template.matchAll(VARIABLE_PATTERN)) {
+    names.add(match[1]);
+  }
+  return [...names];
+}
+
+/** Unknown placeholders are left in place so a typo shows up in the output */
+export function renderPromptTemplate(template: string, variables: Record<string, string>): string {
+  return template.replace(VARIABLE_PATTERN, (placeholder, name: string) =>
+    name in variables ? variables[name] : placeholder
+  );
+}
+
+export interface PromptDiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/** Line diff via longest common subsequence; prompts are short enough for O(n*m) */
+export function diffPromptLines(before: string, after: string): PromptDiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: PromptDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+
+  return lines;
+}
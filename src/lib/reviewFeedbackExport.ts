@@ -0,0 +1,282 @@
+/**
+ * Review feedback export
+ *
+ * Renders each submission asset with its annotations burned in and numbered,
+ * then lists the shared comments for that asset, so freelancers working
+ * offline have the whole round of feedback in one file. Built entirely in the
+ * browser, either as a multi-page PDF or a ZIP of PNGs plus a text summary.
+ * Internal-only comments never leave the app; an annotation whose thread has
+ * no shared comments is still drawn, as the freelancer viewer shows it too.
+ */
+import jsPDF from 'jspdf';
+import JSZip from 'jszip';
+import { format } from 'date-fns';
+import type { ImageAnnotation, ReviewComment, ReviewThread, SubmissionAsset } from '@/types/review';
+import { mentionsToPlainText } from '@/lib/mentions';
+import { fixBrokenStorageUrl } from '@/lib/fileUtils';
+import { toSvgPath, getArrowHeadPath, getPinRadius } from '@/lib/annotationShapes';
+
+export type FeedbackExportFormat = 'pdf' | 'zip';
+
+export interface FeedbackExportAsset {
+  asset: SubmissionAsset;
+  annotations: ImageAnnotation[];
+  threads: ReviewThread[];
+}
+
+interface FeedbackNote {
+  number: number | null; // null for asset-level comments
+  comments: ReviewComment[];
+}
+
+/** Longest side of the rendered image, keeps PDFs and ZIPs a sensible size */
+const MAX_EXPORT_SIZE = 2000;
+
+const ANNOTATION_COLOR = '#f97316';
+const ANNOTATION_FILL = 'rgba(249, 115, 22, 0.12)';
+
+function sharedComments(thread: ReviewThread | undefined): ReviewComment[] {
+  return (thread?.comments || [])
+    .filter(c => c.visibility === 'SHARED')
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+}
+
+/** Annotations to burn in, numbered from 1, plus the notes to list under the image */
+function collectFeedback({ annotations, threads }: FeedbackExportAsset) {
+  const visible: { annotation: ImageAnnotation; number: number }[] = [];
+  const notes: FeedbackNote[] = [];
+
+  for (const annotation of annotations) {
+    const thread = threads.find(t => t.annotation_id === annotation.id);
+    const number = visible.length + 1;
+    visible.push({ annotation, number });
+    notes.push({ number, comments: sharedComments(thread) });
+  }
+
+  for (const thread of threads) {
+    if (thread.scope !== 'ASSET') continue;
+    const comments = sharedComments(thread);
+    if (comments.length > 0) notes.push({ number: null, comments });
+  }
+
+  return { visible, notes };
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error(`Failed to load ${url}`));
+    img.src = url;
+  });
+}
+
+function drawAnnotation(ctx: CanvasRenderingContext2D, annotation: ImageAnnotation, number: number, width: number, height: number) {
+  const lineWidth = Math.max(3, Math.max(width, height) * 0.004);
+  const { rect, points } = annotation;
+  ctx.lineWidth = lineWidth;
+  ctx.strokeStyle = ANNOTATION_COLOR;
+  ctx.fillStyle = ANNOTATION_FILL;
+  ctx.lineJoin = 'round';
+  ctx.lineCap = 'round';
+
+  if (annotation.shape_type === 'RECT' || !points?.length) {
+    ctx.beginPath();
+    ctx.roundRect(rect.x * width, rect.y * height, rect.w * width, rect.h * height, lineWidth * 2);
+    ctx.fill();
+    ctx.stroke();
+  } else if (annotation.shape_type === 'POINT') {
+    ctx.beginPath();
+    ctx.arc(points[0].x * width, points[0].y * height, getPinRadius(width, height), 0, Math.PI * 2);
+    ctx.fillStyle = ANNOTATION_COLOR;
+    ctx.fill();
+  } else {
+    const closed = annotation.shape_type === 'POLYGON' || !!annotation.style?.closed;
+    const path = new Path2D(toSvgPath(points, width, height, closed));
+    if (closed) ctx.fill(path);
+    ctx.stroke(path);
+    if (annotation.shape_type === 'ARROW' && points.length >= 2) {
+      ctx.fillStyle = ANNOTATION_COLOR;
+      ctx.fill(new Path2D(getArrowHeadPath(points[0], points[points.length - 1], width, height)));
+    }
+  }
+
+  // Number badge at the shape's top-left corner, kept inside the image
+  const radius = Math.max(14, Math.max(width, height) * 0.014);
+  const cx = Math.min(Math.max(rect.x * width, radius), width - radius);
+  const cy = Math.min(Math.max(rect.y * height, radius), height - radius);
+  ctx.beginPath();
+  ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+  ctx.fillStyle = ANNOTATION_COLOR;
+  ctx.fill();
+  ctx.lineWidth = Math.max(2, lineWidth / 2);
+  ctx.strokeStyle = '#ffffff';
+  ctx.stroke();
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `bold ${Math.round(radius * 1.1)}px Helvetica, Arial, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(String(number), cx, cy + 1);
+}
+
+async function renderAnnotatedImage(item: FeedbackExportAsset, visible: { annotation: ImageAnnotation; number: number }[]) {
+  const img = await loadImage(fixBrokenStorageUrl(item.asset.file_url));
+  const scale = Math.min(1, MAX_EXPORT_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.round(img.naturalWidth * scale);
+  const height = Math.round(img.naturalHeight * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(img, 0, 0, width, height);
+  for (const { annotation, number } of visible) {
+    drawAnnotation(ctx, annotation, number, width, height);
+  }
+  return canvas;
+}
+
+function describeComment(comment: ReviewComment): string {
+  const author = comment.author?.display_name || comment.author?.email?.split('@')[0] || 'Reviewer';
+  return `${author}, ${format(new Date(comment.created_at), 'MMM d, h:mm a')}: ${mentionsToPlainText(comment.body)}`;
+}
+
+function noteHeading(note: FeedbackNote): string {
+  return note.number === null ? 'General' : `#${note.number}`;
+}
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'feedback';
+}
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+async function exportPdf(items: FeedbackExportAsset[], title: string, fileBase: string) {
+  const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const margin = 15;
+  const contentWidth = pageWidth - margin * 2;
+
+  for (const [index, item] of items.entries()) {
+    if (index > 0) pdf.addPage();
+    const { visible, notes } = collectFeedback(item);
+
+    pdf.setTextColor(20, 20, 20);
+    pdf.setFont('helvetica', 'bold');
+    pdf.setFontSize(14);
+    pdf.text(title, margin, margin);
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(10);
+    pdf.setTextColor(100, 100, 100);
+    const status = item.asset.review_status === 'CHANGES_REQUESTED'
+      ? 'Changes requested'
+      : item.asset.review_status === 'APPROVED' ? 'Approved' : 'Pending review';
+    pdf.text(`${item.asset.label || `Asset ${index + 1}`} · ${status}`, margin, margin + 6);
+
+    let y = margin + 12;
+    try {
+      const canvas = await renderAnnotatedImage(item, visible);
+      const maxImageHeight = pageHeight * 0.6;
+      const ratio = Math.min(contentWidth / canvas.width, maxImageHeight / canvas.height);
+      const imageWidth = canvas.width * ratio;
+      const imageHeight = canvas.height * ratio;
+      pdf.addImage(canvas.toDataURL('image/jpeg', 0.9), 'JPEG', margin + (contentWidth - imageWidth) / 2, y, imageWidth, imageHeight);
+      y += imageHeight + 8;
+    } catch (err) {
+      console.error('[reviewFeedbackExport] Failed to render asset:', err);
+      pdf.setFillColor(230, 230, 230);
+      pdf.rect(margin, y, contentWidth, 40, 'F');
+      pdf.text('Image could not be loaded', pageWidth / 2, y + 20, { align: 'center' });
+      y += 48;
+    }
+
+    pdf.setTextColor(20, 20, 20);
+    if (notes.length === 0) {
+      pdf.setFontSize(10);
+      pdf.text('No comments on this asset.', margin, y);
+      continue;
+    }
+
+    for (const note of notes) {
+      const lines = note.comments.length > 0
+        ? note.comments.flatMap(c => pdf.splitTextToSize(describeComment(c), contentWidth - 12) as string[])
+        : ['(marked on the image, no comment)'];
+      const blockHeight = 5 + lines.length * 4.5;
+      if (y + blockHeight > pageHeight - margin) {
+        pdf.addPage();
+        y = margin;
+      }
+      pdf.setFont('helvetica', 'bold');
+      pdf.setFontSize(10);
+      pdf.setTextColor(249, 115, 22);
+      pdf.text(noteHeading(note), margin, y);
+      pdf.setFont('helvetica', 'normal');
+      pdf.setTextColor(20, 20, 20);
+      pdf.text(lines, margin + 12, y);
+      y += blockHeight;
+    }
+  }
+
+  pdf.save(`${fileBase}.pdf`);
+}
+
+async function exportZip(items: FeedbackExportAsset[], title: string, fileBase: string) {
+  const zip = new JSZip();
+  const summary: string[] = [title, ''];
+
+  for (const [index, item] of items.entries()) {
+    const { visible, notes } = collectFeedback(item);
+    const label = item.asset.label || `Asset ${index + 1}`;
+    const fileName = `${String(index + 1).padStart(2, '0')}_${slugify(label)}.png`;
+
+    try {
+      const canvas = await renderAnnotatedImage(item, visible);
+      const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+      if (blob) zip.file(fileName, blob);
+    } catch (err) {
+      console.error('[reviewFeedbackExport] Failed to render asset:', err);
+    }
+
+    summary.push(`${fileName} (${label})`);
+    if (notes.length === 0) summary.push('  No comments');
+    for (const note of notes) {
+      const comments = note.comments.length > 0
+        ? note.comments.map(describeComment)
+        : ['(marked on the image, no comment)'];
+      comments.forEach((line, i) => summary.push(`  ${i === 0 ? noteHeading(note).padEnd(8) : ' '.repeat(8)}${line}`));
+    }
+    summary.push('');
+  }
+
+  zip.file('feedback.txt', summary.join('\n'));
+  const zipBlob = await zip.generateAsync({
+    type: 'blob',
+    compression: 'DEFLATE',
+    compressionOptions: { level: 6 },
+  });
+  downloadBlob(zipBlob, `${fileBase}.zip`);
+}
+
+export async function exportReviewFeedback(
+  items: FeedbackExportAsset[],
+  { title, exportFormat }: { title: string; exportFormat: FeedbackExportFormat }
+) {
+  const fileBase = `${slugify(title)}-${new Date().toISOString().split('T')[0]}`;
+  if (exportFormat === 'pdf') {
+    await exportPdf(items, title, fileBase);
+  } else {
+    await exportZip(items, title, fileBase);
+  }
+}
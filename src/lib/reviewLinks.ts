@@ -0,0 +1,37 @@
+/**
+ * Client review share links
+ *
+ * A review link is active until it is revoked or passes expires_at
+ * (NULL = never expires). The database enforces the same rule through
+ * is_client_review_active(), and verify-review-password throttles guesses.
+ */
+
+export type ReviewLinkStatus = 'active' | 'expired' | 'revoked';
+
+/** Lifetime given to newly created review links */
+export const DEFAULT_REVIEW_LINK_DAYS = 30;
+
+/** Extension options offered in the share link admin view */
+export const REVIEW_LINK_EXTENSION_DAYS = [7, 30, 90];
+
+export function getReviewLinkStatus(review: {
+  expires_at: string | null;
+  revoked_at: string | null;
+}): ReviewLinkStatus {
+  if (review.revoked_at) return 'revoked';
+  if (review.expires_at && new Date(review.expires_at).getTime() <= Date.now()) return 'expired';
+  return 'active';
+}
+
+/**
+ * New expiry when extending a link. Extends from the current expiry if it is
+ * still in the future, otherwise from now.
+ */
+export function extendReviewLinkExpiry(currentExpiry: string | null, days: number): string {
+  const base = currentExpiry ? Math.max(new Date(currentExpiry).getTime(), Date.now()) : Date.now();
+  return new Date(base + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export function defaultReviewLinkExpiry(): string {
+  return extendReviewLinkExpiry(null, DEFAULT_REVIEW_LINK_DAYS);
+}
@@ -3,6 +3,8 @@
  * Handles filename parsing and look grouping for bulk TIFF imports
  */
 
+import { ImportProfile, getFilePath, parseWithProfile, registerFilePath } from './importProfiles';
+
 export interface ParsedFile {
   file: File;
   originalFilename: string;
@@ -10,6 +12,8 @@ export interface ParsedFile {
   productDescriptor: string | null;
   sequenceNumber: string | null;
   inferredView: 'front' | 'back' | 'side' | 'detail' | 'unassigned';
+  /** SHA-256 of the file contents, set before preflight */
+  contentHash?: string;
 }
 
 export interface LookGroup {
@@ -19,16 +23,28 @@ export interface LookGroup {
 }
 
 // Types for deduplication / preflight
-export type FileAction = 'add' | 'skip' | 'needs_review';
+// 'link' reuses an identical image that already exists instead of uploading it again
+export type FileAction = 'add' | 'link' | 'skip' | 'needs_review';
+
+/** An image with the same content hash that is already stored in some project */
+export interface ExistingAssetMatch {
+  source: 'face_application' | 'optimised_workflow';
+  imageUrl: string;
+  lookName: string;
+  projectId: string | null;
+  projectName: string | null;
+}
 
 export interface PreflightFile extends ParsedFile {
   action: FileAction;
   skipReason?: string;
   existingLookId?: string;
+  existingAsset?: ExistingAssetMatch;
 }
 
 export interface PreflightSummary {
   willAdd: number;
+  willLink: number;
   willSkip: number;
   needsReview: number;
   newLooks: number;
@@ -114,8 +130,21 @@ export function isSupportedImage(file: File): boolean {
 
 /**
  * Parse a file to extract metadata
+ * Uses the brand's import profile when given, otherwise the built-in rules
  */
-export function parseFile(file: File): ParsedFile {
+export function parseFile(file: File, profile?: ImportProfile | null): ParsedFile {
+  if (profile) {
+    const parsed = parseWithProfile(getFilePath(file), profile);
+    return {
+      file,
+      originalFilename: file.name,
+      lookKey: parsed.lookKey,
+      productDescriptor: extractProductDescriptor(file.name),
+      sequenceNumber: parsed.sequence,
+      inferredView: parsed.view === 'cropped_front' ? 'front' : parsed.view ?? 'unassigned',
+    };
+  }
+
   return {
     file,
     originalFilename: file.name,
@@ -126,13 +155,22 @@ export function parseFile(file: File): ParsedFile {
   };
 }
 
+/**
+ * Human-readable location of an existing asset ("project Y / look Z")
+ */
+export function describeExistingAsset(asset: ExistingAssetMatch): string {
+  return `project ${asset.projectName || 'Unknown'} / look ${asset.lookName}`;
+}
+
 /**
  * Run preflight check for deduplication
- * Determines which files should be added, skipped, or need manual review
+ * Determines which files should be added, linked, skipped, or need manual review.
+ * assetMatches maps content hashes to images already stored in any project.
  */
 export function runPreflightCheck(
   parsedFiles: ParsedFile[],
-  existingLooks: ExistingLookData[]
+  existingLooks: ExistingLookData[],
+  assetMatches: Map<string, ExistingAssetMatch> = new Map()
 ): { files: PreflightFile[]; summary: PreflightSummary } {
   const files: PreflightFile[] = [];
   
@@ -151,13 +189,25 @@ export function runPreflightCheck(
     }
   }
   
-  // Track new look codes we'll create
-  const newLookCodes = new Set<string>();
+  // First file seen for each content hash in this import
+  const seenHashes = new Map<string, string>();
   
   for (const parsed of parsedFiles) {
     const lookKey = parsed.lookKey?.toUpperCase() || null;
+    const firstWithHash = parsed.contentHash ? seenHashes.get(parsed.contentHash) : undefined;
+    const existingAsset = parsed.contentHash ? assetMatches.get(parsed.contentHash) : undefined;
+    if (parsed.contentHash && !firstWithHash) {
+      seenHashes.set(parsed.contentHash, parsed.originalFilename);
+    }
     
-    if (!lookKey) {
+    if (firstWithHash) {
+      // Same bytes appear twice in this import - keep the first
+      files.push({
+        ...parsed,
+        action: 'skip',
+        skipReason: `Identical to ${firstWithHash} in this import`,
+      });
+    } else if (!lookKey) {
       // No look code extracted - needs manual review
       files.push({
         ...parsed,
@@ -172,25 +222,37 @@ export function runPreflightCheck(
         skipReason: `Product ${lookKey} already exists in this project`,
       });
     } else {
-      // New look code - ADD (regardless of view assignment)
-      newLookCodes.add(lookKey);
+      // New look code - ADD (regardless of view assignment), or LINK when
+      // this exact image is already stored elsewhere
       files.push({
         ...parsed,
-        action: 'add',
+        action: existingAsset ? 'link' : 'add',
+        existingAsset,
       });
     }
   }
   
-  // Calculate summary
-  const summary: PreflightSummary = {
+  return { files, summary: summarizePreflight(files) };
+}
+
+/**
+ * Count preflight actions, e.g. after the user switches a file between link and add
+ */
+export function summarizePreflight(files: PreflightFile[]): PreflightSummary {
+  const importedLookKeys = new Set(
+    files
+      .filter(f => (f.action === 'add' || f.action === 'link') && f.lookKey)
+      .map(f => f.lookKey!.toUpperCase())
+  );
+
+  return {
     willAdd: files.filter(f => f.action === 'add').length,
+    willLink: files.filter(f => f.action === 'link').length,
     willSkip: files.filter(f => f.action === 'skip').length,
     needsReview: files.filter(f => f.action === 'needs_review').length,
-    newLooks: newLookCodes.size,
+    newLooks: importedLookKeys.size,
     existingLooks: 0,
   };
-  
-  return { files, summary };
 }
 
 /**
@@ -329,6 +391,7 @@ export async function getAllFilesFromDirectory(
       });
       
       if (isSupportedImage(file)) {
+        registerFilePath(file, fileEntry.fullPath);
         files.push(file);
       }
     } else if (entry.isDirectory) {
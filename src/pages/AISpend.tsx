@@ -0,0 +1,475 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { startOfMonth, subDays } from "date-fns";
+import { ArrowLeft, Pencil, Plus } from "lucide-react";
+import { HubHeader } from "@/components/layout/HubHeader";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AIBudgetDialog } from "@/components/ai-spend/AIBudgetDialog";
+import { useAuth } from "@/contexts/AuthContext";
+import { useBrands } from "@/hooks/useBrands";
+import { useProductionProjects } from "@/hooks/useProductionProjects";
+import {
+  useAIBudgets,
+  useAIModelPrices,
+  useAISpendSummary,
+  useSaveAIModelPrice,
+} from "@/hooks/useAISpend";
+import {
+  AI_BUDGET_PERIOD_LABELS,
+  formatUsd,
+  getBudgetSpent,
+  groupSpend,
+  sumSpend,
+  type AIBudget,
+  type AISpendRow,
+  type AISpendTotals,
+} from "@/lib/aiSpend";
+import { cn } from "@/lib/utils";
+
+type SpendRange = "7d" | "30d" | "month" | "all";
+
+const RANGE_LABELS: Record<SpendRange, string> = {
+  "7d": "Last 7 days",
+  "30d": "Last 30 days",
+  month: "This month",
+  all: "All time",
+};
+
+function getRangeStart(range: SpendRange): string | null {
+  if (range === "7d") return subDays(new Date(), 7).toISOString();
+  if (range === "30d") return subDays(new Date(), 30).toISOString();
+  if (range === "month") return startOfMonth(new Date()).toISOString();
+  return null;
+}
+
+function StatCard({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="border rounded-lg p-4">
+      <p className="text-xs text-muted-foreground uppercase tracking-wide">{label}</p>
+      <p className="text-2xl font-semibold mt-1">{value}</p>
+      {hint && <p className="text-xs text-muted-foreground mt-1">{hint}</p>}
+    </div>
+  );
+}
+
+interface ScopeRow {
+  id: string | null;
+  name: string;
+  totals: AISpendTotals;
+  budget: AIBudget | null;
+  budgetSpent: number;
+}
+
+function BudgetCell({ budget, spent }: { budget: AIBudget | null; spent: number }) {
+  if (!budget) return <span className="text-muted-foreground">—</span>;
+
+  const percent = Math.min(100, (spent / budget.limit_usd) * 100);
+  const exceeded = spent >= budget.limit_usd;
+
+  return (
+    <div className="space-y-1 min-w-[180px]">
+      <div className="flex items-center gap-2 text-xs">
+        <span className={cn(exceeded && "text-destructive font-medium")}>
+          {formatUsd(spent)} / {formatUsd(budget.limit_usd)}
+        </span>
+        <Badge variant="outline" className="text-[10px] px-1.5">
+          {budget.enforcement}
+        </Badge>
+        <span className="text-muted-foreground">{AI_BUDGET_PERIOD_LABELS[budget.period]}</span>
+      </div>
+      <Progress value={percent} className={cn("h-1.5", exceeded && "[&>div]:bg-destructive")} />
+    </div>
+  );
+}
+
+function ScopeTable({
+  rows,
+  canManageBudgets,
+  onEditBudget,
+}: {
+  rows: ScopeRow[];
+  canManageBudgets: boolean;
+  onEditBudget: (row: ScopeRow) => void;
+}) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground py-8 text-center">No AI calls in this range.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead className="text-right">Calls</TableHead>
+          <TableHead className="text-right">Failed</TableHead>
+          <TableHead className="text-right">Images</TableHead>
+          <TableHead className="text-right">Spend</TableHead>
+          <TableHead>Budget</TableHead>
+          {canManageBudgets && <TableHead className="w-10" />}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.id ?? "none"}>
+            <TableCell className={cn("font-medium", !row.id && "text-muted-foreground italic")}>
+              {row.name}
+            </TableCell>
+            <TableCell className="text-right">{row.totals.calls}</TableCell>
+            <TableCell className="text-right">{row.totals.failedCalls || "—"}</TableCell>
+            <TableCell className="text-right">{row.totals.images}</TableCell>
+            <TableCell className="text-right font-medium">
+              {formatUsd(row.totals.costUsd)}
+              {row.totals.unpricedCalls > 0 && (
+                <span className="block text-xs text-amber-500 font-normal">
+                  +{row.totals.unpricedCalls} unpriced
+                </span>
+              )}
+            </TableCell>
+            <TableCell>
+              <BudgetCell budget={row.budget} spent={row.budgetSpent} />
+            </TableCell>
+            {canManageBudgets && (
+              <TableCell>
+                {row.id && (
+                  <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => onEditBudget(row)}>
+                    <Pencil className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+              </TableCell>
+            )}
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+function PriceTable({ canEdit }: { canEdit: boolean }) {
+  const { data: prices = [], isLoading } = useAIModelPrices();
+  const savePrice = useSaveAIModelPrice();
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [newModel, setNewModel] = useState("");
+  const [newSize, setNewSize] = useState("");
+  const [newCost, setNewCost] = useState("");
+
+  if (isLoading) return <Skeleton className="h-64 rounded-lg" />;
+
+  const handleAdd = () => {
+    const unitCostUsd = parseFloat(newCost);
+    if (!newModel.trim() || !Number.isFinite(unitCostUsd) || unitCostUsd < 0) return;
+    savePrice.mutate(
+      { model: newModel.trim(), imageSize: newSize.trim(), unitCostUsd },
+      {
+        onSuccess: () => {
+          setNewModel("");
+          setNewSize("");
+          setNewCost("");
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Image models are priced per generated image, text models per call. A blank size applies to every size
+        without its own row. Changes only affect calls made after saving.
+      </p>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Model</TableHead>
+            <TableHead>Image size</TableHead>
+            <TableHead className="w-48">Unit cost (USD)</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {prices.map((price) => {
+            const key = `${price.model}|${price.image_size}`;
+            const draft = drafts[key];
+            const parsedDraft = draft === undefined ? NaN : parseFloat(draft);
+            const isDirty = Number.isFinite(parsedDraft) && parsedDraft !== Number(price.unit_cost_usd);
+
+            return (
+              <TableRow key={key}>
+                <TableCell className="font-mono text-xs">{price.model}</TableCell>
+                <TableCell className="text-muted-foreground">{price.image_size || "Any"}</TableCell>
+                <TableCell>
+                  {canEdit ? (
+                    <div className="flex items-center gap-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        step={0.001}
+                        className="h-8"
+                        value={draft ?? String(price.unit_cost_usd)}
+                        onChange={(e) => setDrafts((d) => ({ ...d, [key]: e.target.value }))}
+                      />
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={!isDirty || savePrice.isPending}
+                        onClick={() =>
+                          savePrice.mutate({
+                            model: price.model,
+                            imageSize: price.image_size,
+                            unitCostUsd: parsedDraft,
+                          })
+                        }
+                      >
+                        Save
+                      </Button>
+                    </div>
+                  ) : (
+                    `$${Number(price.unit_cost_usd).toFixed(3)}`
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+          {canEdit && (
+            <TableRow>
+              <TableCell>
+                <Input
+                  className="h-8 font-mono text-xs"
+                  value={newModel}
+                  onChange={(e) => setNewModel(e.target.value)}
+                  placeholder="provider/model"
+                />
+              </TableCell>
+              <TableCell>
+                <Input
+                  className="h-8"
+                  value={newSize}
+                  onChange={(e) => setNewSize(e.target.value)}
+                  placeholder="Any"
+                />
+              </TableCell>
+              <TableCell>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.001}
+                    className="h-8"
+                    value={newCost}
+                    onChange={(e) => setNewCost(e.target.value)}
+                  />
+                  <Button size="sm" onClick={handleAdd} disabled={!newModel.trim() || !newCost || savePrice.isPending}>
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export default function AISpend() {
+  const navigate = useNavigate();
+  const { isAdmin } = useAuth();
+  const [range, setRange] = useState<SpendRange>("30d");
+  const [editing, setEditing] = useState<{ projectId: string | null; brandId: string | null; name: string } | null>(
+    null
+  );
+
+  // Memoized so the query keys stay stable between renders
+  const since = useMemo(() => getRangeStart(range), [range]);
+  const monthStart = useMemo(() => startOfMonth(new Date()).toISOString(), []);
+
+  const { data: rows = [], isLoading } = useAISpendSummary(since);
+  const { data: allTimeRows = [] } = useAISpendSummary(null);
+  const { data: monthRows = [] } = useAISpendSummary(monthStart);
+  const { data: budgets = [] } = useAIBudgets();
+  const { data: projects = [] } = useProductionProjects();
+  const { brands } = useBrands();
+
+  const totals = useMemo(() => sumSpend(rows), [rows]);
+
+  const budgetSpent = (budget: AIBudget | null) =>
+    budget ? getBudgetSpent(budget, budget.period === "month" ? monthRows : allTimeRows) : 0;
+
+  const buildScopeRows = (
+    key: "project_id" | "brand_id",
+    names: Map<string, string>,
+    spendRows: AISpendRow[]
+  ): ScopeRow[] => {
+    const grouped = groupSpend(spendRows, key);
+    // Scopes with a budget but no spend in range still get a row
+    for (const budget of budgets) {
+      const id = budget[key];
+      if (id && !grouped.has(id)) grouped.set(id, sumSpend([]));
+    }
+    return [...grouped]
+      .map(([id, scopeTotals]) => {
+        const budget = budgets.find((b) => id !== null && b[key] === id) ?? null;
+        return {
+          id,
+          name: id ? names.get(id) ?? "Unknown" : "Unattributed",
+          totals: scopeTotals,
+          budget,
+          budgetSpent: budgetSpent(budget),
+        };
+      })
+      .sort((a, b) => b.totals.costUsd - a.totals.costUsd);
+  };
+
+  const projectNames = new Map(projects.map((p) => [p.id, p.name]));
+  const brandNames = new Map(brands.map((b) => [b.id, b.name]));
+  const projectRows = buildScopeRows("project_id", projectNames, rows);
+  const brandRows = buildScopeRows("brand_id", brandNames, rows);
+
+  const functionRows = [...groupSpend(rows, "function_name")].sort((a, b) => b[1].costUsd - a[1].costUsd);
+
+  const editingBudget = editing
+    ? budgets.find((b) =>
+        editing.projectId ? b.project_id === editing.projectId : b.brand_id === editing.brandId
+      ) ?? null
+    : null;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <HubHeader currentApp="AI Spend" />
+
+      <main className="px-6 py-8">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-4">
+            <Button variant="ghost" size="icon" onClick={() => navigate("/")}>
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-semibold">AI Spend</h1>
+              <p className="text-muted-foreground text-sm">
+                Estimated cost of every model call, per project and brand
+              </p>
+            </div>
+          </div>
+          <Select value={range} onValueChange={(value) => setRange(value as SpendRange)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(RANGE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-96 rounded-xl" />
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              <StatCard
+                label="Estimated spend"
+                value={formatUsd(totals.costUsd)}
+                hint={totals.unpricedCalls > 0 ? `${totals.unpricedCalls} calls have no price` : undefined}
+              />
+              <StatCard label="Images generated" value={String(totals.images)} />
+              <StatCard label="Model calls" value={String(totals.calls)} />
+              <StatCard
+                label="Failed calls"
+                value={String(totals.failedCalls)}
+                hint={totals.calls > 0 ? `${Math.round((totals.failedCalls / totals.calls) * 100)}% of calls` : undefined}
+              />
+            </div>
+
+            <Tabs defaultValue="projects">
+              <TabsList className="mb-4">
+                <TabsTrigger value="projects">Projects</TabsTrigger>
+                <TabsTrigger value="brands">Brands</TabsTrigger>
+                <TabsTrigger value="functions">Functions</TabsTrigger>
+                <TabsTrigger value="prices">Prices</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="projects">
+                <ScopeTable
+                  rows={projectRows}
+                  canManageBudgets={isAdmin}
+                  onEditBudget={(row) => setEditing({ projectId: row.id, brandId: null, name: row.name })}
+                />
+              </TabsContent>
+
+              <TabsContent value="brands">
+                <ScopeTable
+                  rows={brandRows}
+                  canManageBudgets={isAdmin}
+                  onEditBudget={(row) => setEditing({ projectId: null, brandId: row.id, name: row.name })}
+                />
+              </TabsContent>
+
+              <TabsContent value="functions">
+                {functionRows.length === 0 ? (
+                  <p className="text-sm text-muted-foreground py-8 text-center">No AI calls in this range.</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Function</TableHead>
+                        <TableHead>Models</TableHead>
+                        <TableHead className="text-right">Calls</TableHead>
+                        <TableHead className="text-right">Failed</TableHead>
+                        <TableHead className="text-right">Images</TableHead>
+                        <TableHead className="text-right">Spend</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {functionRows.map(([functionName, fnTotals]) => (
+                        <TableRow key={functionName}>
+                          <TableCell className="font-mono text-xs">{functionName}</TableCell>
+                          <TableCell className="text-xs text-muted-foreground">
+                            {[...new Set(rows.filter((r) => r.function_name === functionName).map((r) => r.model))].join(", ")}
+                          </TableCell>
+                          <TableCell className="text-right">{fnTotals.calls}</TableCell>
+                          <TableCell className="text-right">{fnTotals.failedCalls || "—"}</TableCell>
+                          <TableCell className="text-right">{fnTotals.images}</TableCell>
+                          <TableCell className="text-right font-medium">{formatUsd(fnTotals.costUsd)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </TabsContent>
+
+              <TabsContent value="prices">
+                <PriceTable canEdit={isAdmin} />
+              </TabsContent>
+            </Tabs>
+          </>
+        )}
+      </main>
+
+      <AIBudgetDialog
+        scope={editing}
+        budget={editingBudget}
+        onOpenChange={(open) => !open && setEditing(null)}
+      />
+    </div>
+  );
+}
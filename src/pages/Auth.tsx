@@ -127,7 +127,7 @@ export default function Auth() {
         if (newUser) {
           // Assign the role from the invite
           const { error: roleError } = await supabase.functions.invoke('assign-role', {
-            body: { userId: newUser.id, role: invite.role },
+            body: { userId: newUser.id, role: invite.role, inviteToken },
           });
           
           if (roleError) {
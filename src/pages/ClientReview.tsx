@@ -4,10 +4,12 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Textarea } from "@/components/ui/textarea";
 import { Input } from "@/components/ui/input";
-import { Heart, ArrowLeft, Send, MessageSquare, Lock, Eye, EyeOff } from "lucide-react";
+import { Heart, ArrowLeft, Send, MessageSquare, Lock, Eye, EyeOff, Link2Off } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
 import { cn } from "@/lib/utils";
+import { ReposeClientReview } from "@/components/external/ReposeClientReview";
+import { getReviewLinkStatus, ReviewLinkStatus } from "@/lib/reviewLinks";
 
 interface ReviewItem {
   id: string;
@@ -44,14 +46,17 @@ export default function ClientReview() {
   
   // Authentication state
   const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [accessToken, setAccessToken] = useState<string | null>(null);
   const [isCheckingAuth, setIsCheckingAuth] = useState(true);
   const [hasPassword, setHasPassword] = useState(false);
   const [passwordAttempt, setPasswordAttempt] = useState("");
   const [showPassword, setShowPassword] = useState(false);
   const [authError, setAuthError] = useState("");
-  const [failedAttempts, setFailedAttempts] = useState(0);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+  const [linkStatus, setLinkStatus] = useState<ReviewLinkStatus>("active");
   
   const [reviewName, setReviewName] = useState("");
+  const [reposeBatchId, setReposeBatchId] = useState<string | null>(null);
   const [items, setItems] = useState<ReviewItem[]>([]);
   const [lookInfoMap, setLookInfoMap] = useState<Record<string, LookInfo>>({});
   const [feedback, setFeedback] = useState<FeedbackState>({});
@@ -70,7 +75,7 @@ export default function ClientReview() {
         // Check if review exists and has a password
         const { data: reviewData, error: reviewError } = await supabase
           .from("client_reviews")
-          .select("name, password_hash")
+          .select("name, password_hash, repose_batch_id, expires_at, revoked_at")
           .eq("id", reviewId)
           .maybeSingle();
 
@@ -85,13 +90,27 @@ export default function ClientReview() {
         }
 
         setReviewName(reviewData.name);
+        setReposeBatchId(reviewData.repose_batch_id);
+
+        const status = getReviewLinkStatus(reviewData);
+        setLinkStatus(status);
+        if (status !== "active") return;
+
         const reviewHasPassword = !!reviewData.password_hash;
         setHasPassword(reviewHasPassword);
 
-        // Check sessionStorage for existing auth
-        const storedAuth = sessionStorage.getItem(`review_auth_${reviewId}`);
-        if (storedAuth === "true" || !reviewHasPassword) {
+        // Check sessionStorage for an access token from an earlier password entry
+        const storedToken = sessionStorage.getItem(`review_access_${reviewId}`);
+        if (storedToken || !reviewHasPassword) {
           setIsAuthenticated(true);
+          setAccessToken(storedToken);
+        }
+
+        // Open links have no password step, so record the visit here
+        if (!reviewHasPassword) {
+          supabase.functions
+            .invoke("verify-review-password", { body: { reviewId } })
+            .catch((error) => console.warn("Failed to record review access:", error));
         }
       } catch (error) {
         console.error("Error checking auth:", error);
@@ -112,9 +131,10 @@ export default function ClientReview() {
   const verifyPassword = async () => {
     if (!reviewId || !passwordAttempt.trim()) return;
 
-    // Rate limiting: block after 5 failed attempts for 30 seconds
-    if (failedAttempts >= 5) {
-      setAuthError("Too many failed attempts. Please wait 30 seconds.");
+    // Attempts are throttled server-side; this just avoids pointless requests
+    if (lockedUntil && Date.now() < lockedUntil) {
+      const minutes = Math.ceil((lockedUntil - Date.now()) / 60000);
+      setAuthError(`Too many failed attempts. Try again in ${minutes} minute${minutes !== 1 ? "s" : ""}.`);
       return;
     }
 
@@ -128,12 +148,25 @@ export default function ClientReview() {
 
       if (data?.valid) {
         setIsAuthenticated(true);
-        sessionStorage.setItem(`review_auth_${reviewId}`, "true");
+        setAccessToken(data.accessToken ?? null);
+        if (data.accessToken) sessionStorage.setItem(`review_access_${reviewId}`, data.accessToken);
         setAuthError("");
-        setFailedAttempts(0);
+        setLockedUntil(null);
+      } else if (data?.linkStatus === "expired" || data?.linkStatus === "revoked") {
+        setLinkStatus(data.linkStatus);
+      } else if (data?.locked) {
+        const retryAfterSeconds = data.retryAfterSeconds || 60;
+        const minutes = Math.ceil(retryAfterSeconds / 60);
+        setLockedUntil(Date.now() + retryAfterSeconds * 1000);
+        setAuthError(`Too many failed attempts. Try again in ${minutes} minute${minutes !== 1 ? "s" : ""}.`);
+        setPasswordAttempt("");
       } else {
-        setFailedAttempts((prev) => prev + 1);
-        setAuthError("Incorrect password. Please try again.");
+        const remaining = data?.attemptsRemaining;
+        setAuthError(
+          typeof remaining === "number" && remaining <= 2
+            ? `Incorrect password. ${remaining} attempt${remaining !== 1 ? "s" : ""} left before a temporary lockout.`
+            : "Incorrect password. Please try again."
+        );
         setPasswordAttempt("");
       }
     } catch (error) {
@@ -142,9 +175,17 @@ export default function ClientReview() {
     }
   };
 
-  // Fetch review data only after authenticated
+  // The access token expired or was never valid - ask for the password again
+  const handleAccessExpired = () => {
+    sessionStorage.removeItem(`review_access_${reviewId}`);
+    setAccessToken(null);
+    setIsAuthenticated(false);
+    setAuthError("Your session has expired. Please enter the password again.");
+  };
+
+  // Fetch review data only after authenticated (Repose reviews load their own data)
   useEffect(() => {
-    if (!reviewId || !isAuthenticated) return;
+    if (!reviewId || !isAuthenticated || reposeBatchId) return;
 
     const fetchReviewData = async () => {
       setIsLoading(true);
@@ -228,7 +269,7 @@ export default function ClientReview() {
     };
 
     fetchReviewData();
-  }, [reviewId, isAuthenticated]);
+  }, [reviewId, isAuthenticated, reposeBatchId]);
 
   const toggleFavorite = (itemId: string) => {
     setFeedback((prev) => ({
@@ -372,6 +413,26 @@ export default function ClientReview() {
     );
   }
 
+  // Expired or revoked link
+  if (linkStatus !== "active") {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Card className="w-full max-w-md p-8 text-center">
+          <div className="mx-auto w-12 h-12 rounded-full bg-muted flex items-center justify-center mb-4">
+            <Link2Off className="h-6 w-6 text-muted-foreground" />
+          </div>
+          <h1 className="text-2xl font-semibold">{reviewName}</h1>
+          <p className="text-sm text-muted-foreground mt-2">
+            {linkStatus === "revoked"
+              ? "This review link has been revoked."
+              : "This review link has expired."}
+            {" "}Please ask your contact for a new link.
+          </p>
+        </Card>
+      </div>
+    );
+  }
+
   // Password prompt if not authenticated
   if (hasPassword && !isAuthenticated) {
     return (
@@ -413,7 +474,7 @@ export default function ClientReview() {
             <Button
               onClick={verifyPassword}
               className="w-full"
-              disabled={!passwordAttempt.trim() || failedAttempts >= 5}
+              disabled={!passwordAttempt.trim()}
             >
               Access Review
             </Button>
@@ -423,6 +484,17 @@ export default function ClientReview() {
     );
   }
 
+  if (reviewId && reposeBatchId) {
+    return (
+      <ReposeClientReview
+        reviewId={reviewId}
+        reviewName={reviewName}
+        accessToken={accessToken}
+        onAccessExpired={handleAccessExpired}
+      />
+    );
+  }
+
   if (isLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
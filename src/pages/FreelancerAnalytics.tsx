@@ -0,0 +1,294 @@
+import { useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { format, subDays } from "date-fns";
+import { toast } from "sonner";
+import { ArrowLeft, BarChart3, Download, Users } from "lucide-react";
+import { HubHeader } from "@/components/layout/HubHeader";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useFreelancerAnalyticsData } from "@/hooks/useFreelancerAnalytics";
+import {
+  AnalyticsFilters,
+  buildInvoiceCsv,
+  computeFreelancerMetrics,
+  formatHours,
+  formatPercent,
+} from "@/lib/freelancerAnalytics";
+import { JobType } from "@/types/jobs";
+import { cn } from "@/lib/utils";
+
+const typeLabels: Record<JobType, string> = {
+  PHOTOSHOP_FACE_APPLY: "Photoshop Apply",
+  RETOUCH_FINAL: "Final Retouch",
+  FOUNDATION_FACE_REPLACE: "Face Replace",
+};
+
+const DEFAULT_RANGE_DAYS = 30;
+
+function StatCard({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="border rounded-lg p-4">
+      <p className="text-xs text-muted-foreground uppercase tracking-wide">{label}</p>
+      <p className="text-2xl font-semibold mt-1">{value}</p>
+      {hint && <p className="text-xs text-muted-foreground mt-1">{hint}</p>}
+    </div>
+  );
+}
+
+export default function FreelancerAnalytics() {
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedId = searchParams.get("freelancer");
+
+  const [filters, setFilters] = useState<AnalyticsFilters>(() => ({
+    from: format(subDays(new Date(), DEFAULT_RANGE_DAYS), "yyyy-MM-dd"),
+    to: format(new Date(), "yyyy-MM-dd"),
+    jobType: "all",
+  }));
+
+  const { data, isLoading } = useFreelancerAnalyticsData();
+
+  const metrics = useMemo(
+    () => (data ? computeFreelancerMetrics(data, filters) : []),
+    [data, filters]
+  );
+  const selected = metrics.find((m) => m.identity.id === selectedId) || null;
+
+  const selectFreelancer = (id: string | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (id) next.set("freelancer", id);
+    else next.delete("freelancer");
+    setSearchParams(next, { replace: true });
+  };
+
+  const handleExportCsv = () => {
+    const rows = selected ? [selected] : metrics;
+    if (rows.every((m) => m.jobs.length === 0)) {
+      toast.error("No completed jobs in this range");
+      return;
+    }
+
+    const csv = buildInvoiceCsv(rows, typeLabels);
+    const blob = new Blob([csv], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    const who = selected ? selected.name.toLowerCase().replace(/\s+/g, "-") : "all";
+    a.download = `freelancer-invoice-${who}-${filters.from}-to-${filters.to}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+    toast.success("Downloaded CSV");
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <HubHeader />
+
+      <main className="px-6 py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate("/jobs")}
+            >
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-semibold">Freelancer Analytics</h1>
+              <p className="text-muted-foreground text-sm">
+                Throughput and quality per freelancer for completed jobs
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" onClick={handleExportCsv} disabled={isLoading}>
+            <Download className="h-4 w-4 mr-2" />
+            Export CSV{selected ? ` (${selected.name})` : ""}
+          </Button>
+        </div>
+
+        {/* Filters */}
+        <div className="flex flex-wrap items-end gap-4 mb-6">
+          <div className="space-y-1.5">
+            <Label htmlFor="analytics-from" className="text-xs">Completed from</Label>
+            <Input
+              id="analytics-from"
+              type="date"
+              className="w-40"
+              value={filters.from}
+              max={filters.to || undefined}
+              onChange={(e) => setFilters((f) => ({ ...f, from: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label htmlFor="analytics-to" className="text-xs">To</Label>
+            <Input
+              id="analytics-to"
+              type="date"
+              className="w-40"
+              value={filters.to}
+              min={filters.from || undefined}
+              onChange={(e) => setFilters((f) => ({ ...f, to: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Job type</Label>
+            <Select
+              value={filters.jobType}
+              onValueChange={(value) => setFilters((f) => ({ ...f, jobType: value as AnalyticsFilters["jobType"] }))}
+            >
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Types</SelectItem>
+                {Object.entries(typeLabels).map(([type, label]) => (
+                  <SelectItem key={type} value={type}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <Skeleton className="h-96 rounded-xl" />
+        ) : metrics.length === 0 ? (
+          <div className="text-center py-16 text-muted-foreground">
+            <Users className="h-12 w-12 mx-auto mb-4 opacity-50" />
+            <p>No freelancers yet</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-[minmax(0,2fr)_minmax(0,3fr)] gap-6">
+            {/* Freelancer list */}
+            <div className="border rounded-lg self-start">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Freelancer</TableHead>
+                    <TableHead className="text-right">Completed</TableHead>
+                    <TableHead className="text-right">Median to submit</TableHead>
+                    <TableHead className="text-right">First pass</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {metrics.map((m) => (
+                    <TableRow
+                      key={m.identity.id}
+                      className={cn("cursor-pointer", selectedId === m.identity.id && "bg-muted/50")}
+                      onClick={() => selectFreelancer(selectedId === m.identity.id ? null : m.identity.id)}
+                    >
+                      <TableCell className="font-medium">{m.name}</TableCell>
+                      <TableCell className="text-right">{m.jobsCompleted}</TableCell>
+                      <TableCell className="text-right">{formatHours(m.medianClaimToSubmitMs)}</TableCell>
+                      <TableCell className="text-right">{formatPercent(m.firstPassApprovalRate)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {/* Detail */}
+            {selected ? (
+              <div className="space-y-6">
+                <h2 className="text-lg font-semibold">{selected.name}</h2>
+
+                <div className="grid grid-cols-2 xl:grid-cols-4 gap-4">
+                  <StatCard label="Jobs completed" value={String(selected.jobsCompleted)} />
+                  <StatCard
+                    label="Median claim to submit"
+                    value={formatHours(selected.medianClaimToSubmitMs)}
+                  />
+                  <StatCard
+                    label="First-pass approval"
+                    value={formatPercent(selected.firstPassApprovalRate)}
+                  />
+                  <StatCard
+                    label="Avg revision rounds"
+                    value={selected.avgRevisionRounds === null ? "—" : selected.avgRevisionRounds.toFixed(1)}
+                  />
+                </div>
+
+                <div>
+                  <h3 className="text-sm font-medium mb-2">Most often sent back</h3>
+                  {selected.mostSentBack.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No assets sent back in this range</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {selected.mostSentBack.map((asset) => (
+                        <Badge key={asset.label} variant="outline" className="gap-1.5">
+                          {asset.label}
+                          <span className="text-muted-foreground">×{asset.count}</span>
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                <div className="border rounded-lg">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Job</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Completed</TableHead>
+                        <TableHead className="text-right">Claim to submit</TableHead>
+                        <TableHead className="text-right">Revisions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {selected.jobs.length === 0 ? (
+                        <TableRow>
+                          <TableCell colSpan={5} className="text-center text-muted-foreground py-8">
+                            No completed jobs in this range
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        selected.jobs.map((job) => (
+                          <TableRow key={job.jobId}>
+                            <TableCell className="font-medium">{job.title || "Untitled"}</TableCell>
+                            <TableCell>
+                              <Badge variant="outline">{typeLabels[job.type]}</Badge>
+                            </TableCell>
+                            <TableCell className="text-sm text-muted-foreground">
+                              {format(new Date(job.completedAt), "MMM d, yyyy")}
+                            </TableCell>
+                            <TableCell className="text-right">{formatHours(job.claimToSubmitMs)}</TableCell>
+                            <TableCell className="text-right">{job.revisionRounds}</TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            ) : (
+              <div className="border rounded-lg flex flex-col items-center justify-center py-16 text-muted-foreground">
+                <BarChart3 className="h-10 w-10 mb-3 opacity-50" />
+                <p className="text-sm">Select a freelancer to see their breakdown</p>
+              </div>
+            )}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,13 +1,302 @@
-import { useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useEffect, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import {
+  inspectFreelancerInvite,
+  redeemFreelancerInvite,
+  sendFreelancerMagicLink,
+  useFreelancerIdentity,
+} from '@/hooks/useFreelancerIdentity';
+import { FREELANCER_PIN_LENGTH, getFreelancerRedirect } from '@/lib/freelancerInvites';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
+import { Briefcase, Loader2, Mail } from 'lucide-react';
+import { z } from 'zod';
+
+const emailSchema = z.string().email('Please enter a valid email address');
 
 export default function FreelancerAuth() {
   const navigate = useNavigate();
-  
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
+  const redirectTo = getFreelancerRedirect(searchParams.get('redirect'));
+
+  const { user, hasIdentity, isLoading: identityLoading, signOut } = useFreelancerIdentity();
+  const { data: invite, isLoading: inviteLoading } = useQuery({
+    queryKey: ['freelancer-invite', inviteToken],
+    queryFn: () => inspectFreelancerInvite(inviteToken!),
+    enabled: !!inviteToken,
+    retry: false,
+  });
+
+  const [email, setEmail] = useState('');
+  const [firstName, setFirstName] = useState('');
+  const [lastName, setLastName] = useState('');
+  const [pin, setPin] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  // Already signed in as a freelancer
   useEffect(() => {
-    // Redirect to the public freelancer board which handles name-only identity
-    navigate('/work', { replace: true });
-  }, [navigate]);
+    if (hasIdentity) {
+      navigate(redirectTo, { replace: true });
+    }
+  }, [hasIdentity, navigate, redirectTo]);
+
+  const handleRedeem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteToken || !invite?.valid) return;
+    setError(null);
+
+    if (invite.requiresName && (!firstName.trim() || !lastName.trim())) {
+      setError('First and last name are required');
+      return;
+    }
+    if (invite.requiresEmail) {
+      const parsed = emailSchema.safeParse(email);
+      if (!parsed.success) {
+        setError(parsed.error.errors[0].message);
+        return;
+      }
+    }
+    if (invite.requiresPin && pin.length !== FREELANCER_PIN_LENGTH) {
+      setError(`Enter the ${FREELANCER_PIN_LENGTH}-digit PIN you were given`);
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await redeemFreelancerInvite({
+        token: inviteToken,
+        pin: invite.requiresPin ? pin : undefined,
+        email: invite.requiresEmail ? email.trim() : undefined,
+        firstName: firstName.trim() || undefined,
+        lastName: lastName.trim() || undefined,
+      });
+
+      if (result.error) {
+        setError(
+          result.attemptsRemaining !== undefined
+            ? `${result.error}. ${result.attemptsRemaining} attempt${result.attemptsRemaining !== 1 ? 's' : ''} remaining.`
+            : result.error
+        );
+        setPin('');
+      }
+      // On success the auth listener picks up the session and the effect above redirects
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleMagicLink = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const parsed = emailSchema.safeParse(email);
+    if (!parsed.success) {
+      setError(parsed.error.errors[0].message);
+      return;
+    }
+
+    setIsSubmitting(true);
+    const { error: linkError } = await sendFreelancerMagicLink(email.trim(), redirectTo);
+    setIsSubmitting(false);
+
+    if (linkError) {
+      setError(linkError.message);
+    } else {
+      setSuccess('Check your email for a sign-in link.');
+    }
+  };
+
+  const renderInviteForm = () => {
+    if (inviteLoading) {
+      return (
+        <div className="flex items-center justify-center py-4 text-muted-foreground">
+          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          Checking invite...
+        </div>
+      );
+    }
+
+    if (!invite?.valid) {
+      return (
+        <Alert variant="destructive">
+          <AlertDescription>{invite?.error || 'This invite link is invalid or has expired.'}</AlertDescription>
+        </Alert>
+      );
+    }
+
+    return (
+      <form onSubmit={handleRedeem} className="space-y-4">
+        {invite.identityName && (
+          <p className="text-sm text-muted-foreground">
+            Signing in as <strong className="text-foreground">{invite.identityName}</strong>. Your existing
+            job history stays linked to your new account.
+          </p>
+        )}
+
+        {invite.requiresName && (
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="join-first-name">First Name</Label>
+              <Input
+                id="join-first-name"
+                value={firstName}
+                onChange={(e) => setFirstName(e.target.value)}
+                disabled={isSubmitting}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="join-last-name">Last Name</Label>
+              <Input
+                id="join-last-name"
+                value={lastName}
+                onChange={(e) => setLastName(e.target.value)}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+        )}
+
+        {invite.requiresEmail ? (
+          <div className="space-y-2">
+            <Label htmlFor="join-email">Email</Label>
+            <Input
+              id="join-email"
+              type="email"
+              placeholder="you@example.com"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              disabled={isSubmitting}
+            />
+            <p className="text-xs text-muted-foreground">
+              You'll use this email to sign in next time.
+            </p>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Account email: <strong className="text-foreground">{invite.email}</strong>
+          </p>
+        )}
+
+        {invite.requiresPin && (
+          <div className="space-y-2">
+            <Label>PIN</Label>
+            <InputOTP maxLength={FREELANCER_PIN_LENGTH} value={pin} onChange={setPin} disabled={isSubmitting}>
+              <InputOTPGroup>
+                {Array.from({ length: FREELANCER_PIN_LENGTH }, (_, i) => (
+                  <InputOTPSlot key={i} index={i} />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+          </div>
+        )}
+
+        <Button type="submit" className="w-full" disabled={isSubmitting}>
+          {isSubmitting ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Signing in...
+            </>
+          ) : (
+            'Start Working'
+          )}
+        </Button>
+      </form>
+    );
+  };
+
+  if (identityLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <p className="text-muted-foreground">Loading...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <Card>
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-2 h-12 w-12 rounded-full bg-primary/10 flex items-center justify-center">
+              <Briefcase className="h-6 w-6 text-primary" />
+            </div>
+            <CardTitle>Freelancer Portal</CardTitle>
+            <CardDescription>
+              {inviteToken ? 'Accept your invite to get started' : 'Sign in to see your jobs'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {user && !hasIdentity && (
+              <Alert>
+                <AlertDescription className="flex items-center justify-between gap-2">
+                  <span>{user.email} has no freelancer profile.</span>
+                  <Button size="sm" variant="outline" onClick={signOut}>
+                    Sign out
+                  </Button>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            {success && (
+              <Alert className="border-green-500 text-green-700">
+                <AlertDescription>{success}</AlertDescription>
+              </Alert>
+            )}
 
-  return null;
+            {inviteToken ? (
+              renderInviteForm()
+            ) : (
+              <form onSubmit={handleMagicLink} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="freelancer-email">Email</Label>
+                  <div className="relative">
+                    <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      id="freelancer-email"
+                      type="email"
+                      placeholder="you@example.com"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      className="pl-10"
+                      required
+                    />
+                  </div>
+                </div>
+                <Button type="submit" className="w-full" disabled={isSubmitting}>
+                  {isSubmitting ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                      Sending link...
+                    </>
+                  ) : (
+                    'Email Me a Sign-in Link'
+                  )}
+                </Button>
+                <p className="text-xs text-muted-foreground text-center">
+                  New here? Ask your project contact for an invite link.
+                </p>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
 }
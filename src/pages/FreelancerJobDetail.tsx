@@ -617,6 +617,7 @@ export default function FreelancerJobDetail() {
             <FreelancerNeedsChangesView
               submissionId={latestSubmission.id}
               jobId={jobId!}
+              jobTitle={job.title}
               versionNumber={latestSubmission.version_number}
               instructions={job.instructions || undefined}
               inputs={inputs}
@@ -10,7 +10,9 @@ import {
   ExternalLink,
   Eye,
   Workflow,
-  Download
+  Download,
+  FileText,
+  DollarSign
 } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
@@ -38,6 +40,20 @@ const internalApps = [
     icon: Grid3X3,
     path: "/brand-pose-library",
   },
+  {
+    id: "prompt-library",
+    title: "Prompt Library",
+    description: "Version, compare and activate generation prompts.",
+    icon: FileText,
+    path: "/prompt-library",
+  },
+  {
+    id: "ai-spend",
+    title: "AI Spend",
+    description: "Track model spend per project and brand and set budgets.",
+    icon: DollarSign,
+    path: "/ai-spend",
+  },
 ];
 
 const avatarToPdpApps = [
@@ -99,7 +115,7 @@ const adminApps = [
   {
     id: "users",
     title: "User Management",
-    description: "Manage users and their roles.",
+    description: "Manage users, roles and permissions.",
     icon: Shield,
     path: "/users",
   },
@@ -37,14 +37,18 @@ import { useJobs, useDeleteJob, useUnassignFreelancer } from "@/hooks/useJobs";
 import { useJobsReviewProgress } from "@/hooks/useReviewSystem";
 import { useProductionProjects } from "@/hooks/useProductionProjects";
 import { JobStatus, JobType } from "@/types/jobs";
-import { ArrowLeft, Plus, Search, Briefcase, Eye, CheckCircle, AlertTriangle, FolderOpen, Trash2, Link2, Share2, Copy, Check } from "lucide-react";
+import { ArrowLeft, Plus, Search, Briefcase, Eye, CheckCircle, AlertTriangle, FolderOpen, Trash2, Link2, Share2, Copy, Timer, BarChart3 } from "lucide-react";
 import { format } from "date-fns";
 import { toast } from "sonner";
 import { JobDetailPanel } from "@/components/jobs/JobDetailPanel";
 import { CreateJobDialog } from "@/components/jobs/CreateJobDialog";
 import { JobReviewPanel } from "@/components/review";
 import { ProjectGroupRow, UngroupedJobsRow } from "@/components/job-board/ProjectGroupRow";
+import { JobSlaBadge } from "@/components/job-board/JobSlaBadge";
+import { JobSlaSettingsDialog } from "@/components/job-board/JobSlaSettingsDialog";
 import { ShareJobButton } from "@/components/job-board/ShareJobButton";
+import { InviteUserDialog } from "@/components/users/InviteUserDialog";
+import { useAuth } from "@/contexts/AuthContext";
 import { cn } from "@/lib/utils";
 
 const statusColors: Record<JobStatus, string> = {
@@ -82,6 +86,10 @@ export default function JobBoard() {
   const [searchParams, setSearchParams] = useSearchParams();
   const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
   const [reviewJobId, setReviewJobId] = useState<string | null>(null);
+  const [reviewFocus, setReviewFocus] = useState<{ assetId: string | null; annotationId: string | null }>({
+    assetId: null,
+    annotationId: null,
+  });
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [jobToDelete, setJobToDelete] = useState<string | null>(null);
   const [statusFilter, setStatusFilter] = useState<JobStatus | "all">("all");
@@ -89,18 +97,41 @@ export default function JobBoard() {
   const [searchQuery, setSearchQuery] = useState("");
   const [groupByProject, setGroupByProject] = useState(true);
   const [groupFilter, setGroupFilter] = useState<string | null>(null);
-  const [shareLinkCopied, setShareLinkCopied] = useState(false);
+  const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
+  const [slaSettingsOpen, setSlaSettingsOpen] = useState(false);
+  const { can } = useAuth();
   const deleteJob = useDeleteJob();
   const unassignFreelancer = useUnassignFreelancer();
 
-  // Handle group filter from URL
+  // Handle group filter and search query from URL
   useEffect(() => {
     const groupParam = searchParams.get('group');
     if (groupParam) {
       setGroupFilter(groupParam);
     }
+    const queryParam = searchParams.get('q');
+    if (queryParam) {
+      setSearchQuery(queryParam);
+    }
   }, [searchParams]);
 
+  // Open the review panel from a notification deep link (?review=&asset=&annotation=)
+  useEffect(() => {
+    const reviewParam = searchParams.get('review');
+    if (!reviewParam) return;
+
+    setReviewJobId(reviewParam);
+    setReviewFocus({
+      assetId: searchParams.get('asset'),
+      annotationId: searchParams.get('annotation'),
+    });
+    const newParams = new URLSearchParams(searchParams);
+    newParams.delete('review');
+    newParams.delete('asset');
+    newParams.delete('annotation');
+    setSearchParams(newParams, { replace: true });
+  }, [searchParams, setSearchParams]);
+
   // Real-time subscription for job updates and submission changes
   useEffect(() => {
     const channel = supabase
@@ -214,22 +245,19 @@ export default function JobBoard() {
             </div>
           </div>
           <div className="flex items-center gap-2">
-            <Button
-              variant="outline"
-              onClick={() => {
-                const shareUrl = `${window.location.origin}/freelancer/join`;
-                navigator.clipboard.writeText(shareUrl);
-                setShareLinkCopied(true);
-                toast.success('Freelancer signup link copied!');
-                setTimeout(() => setShareLinkCopied(false), 2000);
-              }}
-            >
-              {shareLinkCopied ? (
-                <Check className="h-4 w-4 mr-2 text-green-500" />
-              ) : (
+            {can("users.invite") && (
+              <Button variant="outline" onClick={() => setInviteDialogOpen(true)}>
                 <Share2 className="h-4 w-4 mr-2" />
-              )}
-              Invite Freelancers
+                Invite Freelancer
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => navigate("/jobs/freelancers")}>
+              <BarChart3 className="h-4 w-4 mr-2" />
+              Freelancers
+            </Button>
+            <Button variant="outline" onClick={() => setSlaSettingsOpen(true)}>
+              <Timer className="h-4 w-4 mr-2" />
+              SLAs
             </Button>
             <Button onClick={() => setCreateDialogOpen(true)}>
               <Plus className="h-4 w-4 mr-2" />
@@ -423,6 +451,7 @@ export default function JobBoard() {
                             >
                               {statusLabels[job.status]}
                             </Badge>
+                            <JobSlaBadge job={job} />
                             {reviewProgress?.[job.id] && (
                               <span className="flex items-center gap-1 text-[10px]">
                                 {reviewProgress[job.id].approved > 0 && (
@@ -526,12 +555,19 @@ export default function JobBoard() {
         onOpenChange={setCreateDialogOpen}
       />
 
+      <JobSlaSettingsDialog open={slaSettingsOpen} onOpenChange={setSlaSettingsOpen} />
+      <InviteUserDialog open={inviteDialogOpen} onOpenChange={setInviteDialogOpen} />
+
       {/* Review Panel */}
       {reviewJobId && (
         <JobReviewPanel
+          key={`${reviewJobId}-${reviewFocus.assetId}-${reviewFocus.annotationId}`}
           jobId={reviewJobId}
+          initialAssetId={reviewFocus.assetId}
+          initialAnnotationId={reviewFocus.annotationId}
           onClose={() => {
             setReviewJobId(null);
+            setReviewFocus({ assetId: null, annotationId: null });
             // Force refetch to ensure we have the latest status after review actions
             refetchJobs();
             queryClient.invalidateQueries({ queryKey: ['jobs-review-progress'] });
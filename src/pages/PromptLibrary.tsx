@@ -0,0 +1,215 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { ArrowLeft, CheckCircle2, GitCompare, Plus } from "lucide-react";
+import { HubHeader } from "@/components/layout/HubHeader";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { NewPromptVersionDialog } from "@/components/prompt-library/NewPromptVersionDialog";
+import { PromptDiffView } from "@/components/prompt-library/PromptDiffView";
+import { useActivatePromptVersion, usePromptVersions } from "@/hooks/usePromptVersions";
+import {
+  PROMPT_PIPELINES,
+  PROMPT_PIPELINE_LABELS,
+  PROMPT_VARIABLES,
+  extractTemplateVariables,
+  type PromptPipeline,
+} from "@/lib/promptTemplates";
+import { cn } from "@/lib/utils";
+
+const NO_COMPARE = "none";
+
+function PipelinePrompts({ pipeline }: { pipeline: PromptPipeline }) {
+  const { data: versions = [], isLoading } = usePromptVersions(pipeline);
+  const activateVersion = useActivatePromptVersion();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareId, setCompareId] = useState(NO_COMPARE);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+
+  const selected =
+    versions.find((v) => v.id === selectedId) ?? versions.find((v) => v.is_active) ?? versions[0] ?? null;
+  const compareTo = versions.find((v) => v.id === compareId) ?? null;
+
+  useEffect(() => {
+    setCompareId(NO_COMPARE);
+  }, [selected?.id]);
+
+  const knownVariables = PROMPT_VARIABLES[pipeline];
+  const usedVariables = selected ? extractTemplateVariables(selected.template) : [];
+
+  if (isLoading) {
+    return <Skeleton className="h-96 rounded-xl" />;
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-[minmax(0,1fr)_minmax(0,3fr)] gap-6">
+      {/* Version list */}
+      <div className="border rounded-lg self-start">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <p className="text-sm font-medium">Versions</p>
+          <Button size="sm" variant="outline" onClick={() => setIsCreateOpen(true)}>
+            <Plus className="h-4 w-4 mr-1" />
+            New
+          </Button>
+        </div>
+        {versions.length === 0 ? (
+          <p className="px-4 py-8 text-sm text-center text-muted-foreground">
+            No versions yet. The pipeline uses its built-in prompt.
+          </p>
+        ) : (
+          <div className="divide-y">
+            {versions.map((v) => (
+              <button
+                key={v.id}
+                type="button"
+                onClick={() => setSelectedId(v.id)}
+                className={cn(
+                  "w-full text-left px-4 py-3 hover:bg-muted/50 transition-colors",
+                  selected?.id === v.id && "bg-muted/50"
+                )}
+              >
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium truncate">{v.version}</span>
+                  {v.is_active && (
+                    <Badge variant="outline" className="bg-green-500/20 text-green-400 border-green-500/30">
+                      Active
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  {format(new Date(v.created_at), "d MMM yyyy, HH:mm")}
+                </p>
+                {v.notes && <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{v.notes}</p>}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Selected version */}
+      {selected && (
+        <div className="space-y-4 min-w-0">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <h2 className="text-lg font-semibold">{selected.version}</h2>
+              {selected.notes && <p className="text-sm text-muted-foreground">{selected.notes}</p>}
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={compareId} onValueChange={setCompareId}>
+                <SelectTrigger className="w-48">
+                  <GitCompare className="h-4 w-4 mr-2" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_COMPARE}>No comparison</SelectItem>
+                  {versions
+                    .filter((v) => v.id !== selected.id)
+                    .map((v) => (
+                      <SelectItem key={v.id} value={v.id}>
+                        Compare with {v.version}
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => activateVersion.mutate(selected)}
+                disabled={selected.is_active || activateVersion.isPending}
+              >
+                <CheckCircle2 className="h-4 w-4 mr-2" />
+                {selected.is_active ? "Active" : "Make Active"}
+              </Button>
+            </div>
+          </div>
+
+          {compareTo ? (
+            <div className="space-y-2">
+              <p className="text-xs text-muted-foreground">
+                Changes from <span className="font-medium text-foreground">{compareTo.version}</span> to{" "}
+                <span className="font-medium text-foreground">{selected.version}</span>
+              </p>
+              <PromptDiffView before={compareTo.template} after={selected.template} />
+            </div>
+          ) : (
+            <pre className="border rounded-lg p-4 text-xs font-mono whitespace-pre-wrap break-words bg-muted/30">
+              {selected.template}
+            </pre>
+          )}
+
+          {Object.keys(knownVariables).length > 0 && (
+            <div className="border rounded-lg p-4 space-y-2">
+              <p className="text-xs text-muted-foreground uppercase tracking-wide">Variables</p>
+              {Object.entries(knownVariables).map(([name, description]) => (
+                <div key={name} className="flex items-center gap-3 text-sm">
+                  <code className={cn("font-mono text-xs", !usedVariables.includes(name) && "text-muted-foreground")}>
+                    {`{${name}}`}
+                  </code>
+                  <span className="text-muted-foreground">{description}</span>
+                  {!usedVariables.includes(name) && (
+                    <span className="text-xs text-muted-foreground">(unused)</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <NewPromptVersionDialog
+        pipeline={pipeline}
+        baseVersion={selected}
+        open={isCreateOpen}
+        onOpenChange={setIsCreateOpen}
+        onCreated={(created) => setSelectedId(created.id)}
+      />
+    </div>
+  );
+}
+
+export default function PromptLibrary() {
+  const navigate = useNavigate();
+  const [pipeline, setPipeline] = useState<PromptPipeline>("repose");
+
+  return (
+    <div className="min-h-screen bg-background">
+      <HubHeader currentApp="Prompt Library" />
+
+      <main className="px-6 py-8">
+        <div className="flex items-center gap-4 mb-6">
+          <Button variant="ghost" size="icon" onClick={() => navigate("/")}>
+            <ArrowLeft className="h-5 w-5" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-semibold">Prompt Library</h1>
+            <p className="text-muted-foreground text-sm">
+              Versioned prompts for each generation pipeline. New outputs use the active version.
+            </p>
+          </div>
+        </div>
+
+        <Tabs value={pipeline} onValueChange={(value) => setPipeline(value as PromptPipeline)}>
+          <TabsList className="mb-6">
+            {PROMPT_PIPELINES.map((p) => (
+              <TabsTrigger key={p} value={p}>
+                {PROMPT_PIPELINE_LABELS[p]}
+              </TabsTrigger>
+            ))}
+          </TabsList>
+          {PROMPT_PIPELINES.map((p) => (
+            <TabsContent key={p} value={p}>
+              <PipelinePrompts pipeline={p} />
+            </TabsContent>
+          ))}
+        </Tabs>
+      </main>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useFreelancerIdentity } from '@/hooks/useFreelancerIdentity';
 import { usePublicFreelancerJobs } from '@/hooks/usePublicJob';
@@ -7,21 +7,21 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Briefcase, Clock, CheckCircle, AlertCircle, AlertTriangle, User, ArrowRight, Eye, Users } from 'lucide-react';
+import { Briefcase, Clock, CheckCircle, AlertCircle, AlertTriangle, User, ArrowRight, Eye, Users, LogOut } from 'lucide-react';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 import { format } from 'date-fns';
-import { FreelancerNamePrompt } from '@/components/freelancer/FreelancerNamePrompt';
 import { useQueryClient } from '@tanstack/react-query';
 import { JOB_TYPE_CONFIG } from '@/lib/jobTypes';
+import { JobSlaBadge } from '@/components/job-board/JobSlaBadge';
+import { NotificationBell } from '@/components/layout/NotificationBell';
 import type { UnifiedJob } from '@/types/jobs';
 
 export default function PublicFreelancerBoard() {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   
-  const { identity, setIdentity, hasIdentity, isLoading: identityLoading } = useFreelancerIdentity();
+  const { identity, signOut } = useFreelancerIdentity();
   const { data: jobs = [], isLoading: jobsLoading } = usePublicFreelancerJobs(identity?.id);
-  const [identitySaving, setIdentitySaving] = useState(false);
 
   // Split jobs into open (claimable) and my jobs (assigned to me)
   const openJobs = jobs.filter(job => 
@@ -84,15 +84,6 @@ export default function PublicFreelancerBoard() {
     };
   }, [queryClient]);
 
-  const handleIdentitySubmit = async (firstName: string, lastName: string) => {
-    setIdentitySaving(true);
-    try {
-      await setIdentity(firstName, lastName);
-    } finally {
-      setIdentitySaving(false);
-    }
-  };
-
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'OPEN': return 'bg-blue-500/20 text-blue-400';
@@ -153,6 +144,7 @@ export default function PublicFreelancerBoard() {
             )}
           </div>
           <div className="flex items-center gap-1 flex-shrink-0">
+            <JobSlaBadge job={job} />
             <Badge className={getStatusColor(job.status)}>
               {variant === 'orange' ? 'REVIEW' : job.status}
             </Badge>
@@ -173,28 +165,6 @@ export default function PublicFreelancerBoard() {
     );
   };
 
-  // Loading state
-  if (identityLoading) {
-    return (
-      <div className="min-h-screen bg-background flex items-center justify-center">
-        <p className="text-muted-foreground">Loading...</p>
-      </div>
-    );
-  }
-
-  // Show name prompt if no identity
-  if (!hasIdentity) {
-    return (
-      <div className="min-h-screen bg-background">
-        <FreelancerNamePrompt 
-          open={true} 
-          onSubmit={handleIdentitySubmit}
-          isLoading={identitySaving}
-        />
-      </div>
-    );
-  }
-
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -207,6 +177,13 @@ export default function PublicFreelancerBoard() {
               <span>Welcome back, <strong className="text-foreground">{identity?.displayName}</strong></span>
             </div>
           </div>
+          <div className="flex items-center gap-2">
+            <NotificationBell />
+            <Button variant="outline" size="sm" className="gap-2" onClick={signOut}>
+              <LogOut className="h-4 w-4" />
+              Sign out
+            </Button>
+          </div>
         </div>
       </header>
 
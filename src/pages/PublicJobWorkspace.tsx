@@ -16,7 +16,6 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { toast } from 'sonner';
 import { Download, Upload, Send, Clock, CheckCircle, Play, FileImage, AlertTriangle, FileText, User, ArrowLeft, Eye, Trash2, MessageSquare, Plus, Loader2 } from 'lucide-react';
 import { format } from 'date-fns';
-import { FreelancerNamePrompt } from '@/components/freelancer/FreelancerNamePrompt';
 import { FreelancerNeedsChangesView } from '@/components/freelancer/FreelancerNeedsChangesView';
 import { SimpleFileUpload } from '@/components/freelancer/SimpleFileUpload';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
@@ -47,7 +46,7 @@ export default function PublicJobWorkspace() {
   const navigate = useNavigate();
   const queryClient = useQueryClient();
   
-  const { identity, setIdentity, hasIdentity, isLoading: identityLoading } = useFreelancerIdentity();
+  const { identity } = useFreelancerIdentity();
   const { data: job, isLoading: jobLoading, error: jobError } = usePublicJobById(jobId);
   const { data: inputs = [] } = usePublicJobInputs(jobId);
   const { data: outputs = [], refetch: refetchOutputs } = usePublicJobOutputs(jobId);
@@ -56,7 +55,6 @@ export default function PublicJobWorkspace() {
 
   const [noteText, setNoteText] = useState('');
   const [uploading, setUploading] = useState(false);
-  const [identitySaving, setIdentitySaving] = useState(false);
   const [showAbandonConfirm, setShowAbandonConfirm] = useState(false);
   const [replacements, setReplacements] = useState<Map<string, { file: File; preview: string }>>(new Map());
   const [needsChangesMode, setNeedsChangesMode] = useState<'review' | 'upload'>('review');
@@ -378,15 +376,6 @@ export default function PublicJobWorkspace() {
       console.error('Delete error:', error);
     },
   });
-  const handleIdentitySubmit = async (firstName: string, lastName: string) => {
-    setIdentitySaving(true);
-    try {
-      await setIdentity(firstName, lastName);
-    } finally {
-      setIdentitySaving(false);
-    }
-  };
-
   const handleStartJob = () => {
     updateJobStatus.mutate(
       { status: 'IN_PROGRESS' },
@@ -529,7 +518,7 @@ export default function PublicJobWorkspace() {
   };
 
   // Loading states
-  if (identityLoading || jobLoading) {
+  if (jobLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <p className="text-muted-foreground">Loading...</p>
@@ -552,15 +541,23 @@ export default function PublicJobWorkspace() {
     );
   }
 
-  // Show name prompt if no identity
-  if (!hasIdentity) {
+  // Freelancers can preview open jobs and work on their own, nothing else
+  const isOwnJob = !!identity && job.freelancer_identity_id === identity.id;
+  const isClaimable = job.status === 'OPEN' && !job.freelancer_identity_id && !job.assigned_user_id;
+  if (!isOwnJob && !isClaimable) {
     return (
-      <div className="min-h-screen bg-background">
-        <FreelancerNamePrompt 
-          open={true} 
-          onSubmit={handleIdentitySubmit}
-          isLoading={identitySaving}
-        />
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center max-w-md mx-auto p-8">
+          <AlertTriangle className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+          <h1 className="text-xl font-semibold mb-2">Job Not Available</h1>
+          <p className="text-muted-foreground mb-4">
+            This job has been claimed by another freelancer or is no longer open.
+          </p>
+          <Button variant="outline" onClick={() => navigate('/work')}>
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Jobs
+          </Button>
+        </div>
       </div>
     );
   }
@@ -717,6 +714,7 @@ export default function PublicJobWorkspace() {
               <FreelancerNeedsChangesView
                 submissionId={latestSubmission.id}
                 jobId={jobId!}
+                jobTitle={job.title}
                 versionNumber={latestSubmission.version_number || 1}
                 instructions={job.instructions}
                 inputs={inputs as any}
@@ -6,6 +6,8 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { ArrowLeft, MessageSquare, Heart } from "lucide-react";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ReviewShareLinksPanel } from "@/components/external/ReviewShareLinksPanel";
 
 interface ReviewWithDetails {
   id: string;
@@ -150,90 +152,103 @@ export default function TalentReplacement() {
 
       {/* Content */}
       <div className="container mx-auto px-6 py-8">
-        {isLoading ? (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {[1, 2, 3].map((i) => (
-              <Skeleton key={i} className="h-64 rounded-xl" />
-            ))}
-          </div>
-        ) : reviews.length === 0 ? (
-          <div className="text-center py-16">
-            <p className="text-muted-foreground text-lg">
-              No reviews available yet
-            </p>
-            <p className="text-sm text-muted-foreground mt-2">
-              Reviews will appear here once they are sent for client review
-            </p>
-          </div>
-        ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {reviews.map((review) => (
-              <Card
-                key={review.id}
-                className="overflow-hidden cursor-pointer hover:ring-2 hover:ring-primary/50 transition-all"
-                onClick={() => navigate(`/review/${review.id}`)}
-              >
-                {/* Thumbnail Grid */}
-                <div className="aspect-video bg-muted grid grid-cols-2 gap-0.5 overflow-hidden">
-                  {review.thumbnail_urls.slice(0, 4).map((url, idx) => (
-                    <div
-                      key={idx}
-                      className="bg-muted-foreground/10 overflow-hidden"
-                    >
-                      <img
-                        src={url}
-                        alt=""
-                        className="w-full h-full object-cover"
-                      />
-                    </div>
-                  ))}
-                  {review.thumbnail_urls.length === 0 &&
-                    [1, 2, 3, 4].map((i) => (
-                      <div
-                        key={i}
-                        className="bg-muted-foreground/10"
-                      />
-                    ))}
-                </div>
-
-                <CardContent className="p-4">
-                  <div className="flex items-start justify-between gap-2 mb-2">
-                    <h3 className="font-semibold text-lg leading-tight">
-                      {review.name}
-                    </h3>
-                    {getStatusBadge(review.status)}
-                  </div>
-
-                  {review.project_name && (
-                    <p className="text-sm text-muted-foreground mb-2">
-                      {review.project_name}
-                    </p>
-                  )}
-
-                  <div className="flex items-center gap-4 text-sm text-muted-foreground">
-                    <span>{review.look_count} looks</span>
-                    <span>{review.item_count} images</span>
-                  </div>
-
-                  <div className="flex items-center gap-4 mt-3 text-sm">
-                    <div className="flex items-center gap-1 text-muted-foreground">
-                      <Heart className="h-4 w-4" />
-                      <span>{review.favorite_count}</span>
+        <Tabs defaultValue="reviews">
+          <TabsList className="mb-6">
+            <TabsTrigger value="reviews">Reviews</TabsTrigger>
+            <TabsTrigger value="links">Share Links</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="links">
+            <ReviewShareLinksPanel />
+          </TabsContent>
+
+          <TabsContent value="reviews">
+            {isLoading ? (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {[1, 2, 3].map((i) => (
+                  <Skeleton key={i} className="h-64 rounded-xl" />
+                ))}
+              </div>
+            ) : reviews.length === 0 ? (
+              <div className="text-center py-16">
+                <p className="text-muted-foreground text-lg">
+                  No reviews available yet
+                </p>
+                <p className="text-sm text-muted-foreground mt-2">
+                  Reviews will appear here once they are sent for client review
+                </p>
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {reviews.map((review) => (
+                  <Card
+                    key={review.id}
+                    className="overflow-hidden cursor-pointer hover:ring-2 hover:ring-primary/50 transition-all"
+                    onClick={() => navigate(`/review/${review.id}`)}
+                  >
+                    {/* Thumbnail Grid */}
+                    <div className="aspect-video bg-muted grid grid-cols-2 gap-0.5 overflow-hidden">
+                      {review.thumbnail_urls.slice(0, 4).map((url, idx) => (
+                        <div
+                          key={idx}
+                          className="bg-muted-foreground/10 overflow-hidden"
+                        >
+                          <img
+                            src={url}
+                            alt=""
+                            className="w-full h-full object-cover"
+                          />
+                        </div>
+                      ))}
+                      {review.thumbnail_urls.length === 0 &&
+                        [1, 2, 3, 4].map((i) => (
+                          <div
+                            key={i}
+                            className="bg-muted-foreground/10"
+                          />
+                        ))}
                     </div>
-                    <div className="flex items-center gap-1 text-muted-foreground">
-                      <MessageSquare className="h-4 w-4" />
-                      <span>{review.feedback_count}</span>
-                    </div>
-                  </div>
-
-                  <p className="text-xs text-muted-foreground mt-3">
-                    Created {new Date(review.created_at).toLocaleDateString()}
-                  </p>
-                </CardContent>
-              </Card>
-            ))}
-          </div>
-        )}
+
+                    <CardContent className="p-4">
+                      <div className="flex items-start justify-between gap-2 mb-2">
+                        <h3 className="font-semibold text-lg leading-tight">
+                          {review.name}
+                        </h3>
+                        {getStatusBadge(review.status)}
+                      </div>
+
+                      {review.project_name && (
+                        <p className="text-sm text-muted-foreground mb-2">
+                          {review.project_name}
+                        </p>
+                      )}
+
+                      <div className="flex items-center gap-4 text-sm text-muted-foreground">
+                        <span>{review.look_count} looks</span>
+                        <span>{review.item_count} images</span>
+                      </div>
+
+                      <div className="flex items-center gap-4 mt-3 text-sm">
+                        <div className="flex items-center gap-1 text-muted-foreground">
+                          <Heart className="h-4 w-4" />
+                          <span>{review.favorite_count}</span>
+                        </div>
+                        <div className="flex items-center gap-1 text-muted-foreground">
+                          <MessageSquare className="h-4 w-4" />
+                          <span>{review.feedback_count}</span>
+                        </div>
+                      </div>
+
+                      <p className="text-xs text-muted-foreground mt-3">
+                        Created {new Date(review.created_at).toLocaleDateString()}
+                      </p>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
@@ -19,12 +19,14 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { useUsers, useAssignRole, useRemoveRole, AppRole } from "@/hooks/useUsers";
+import { useUsers, useAssignRole, useRemoveRole, AppRole, UserWithRoles } from "@/hooks/useUsers";
 import { useAuth } from "@/contexts/AuthContext";
-import { ArrowLeft, Search, MoreHorizontal, Shield, UserPlus, Users } from "lucide-react";
+import { ArrowLeft, Search, MoreHorizontal, Shield, UserPlus, Users, KeyRound } from "lucide-react";
 import { format } from "date-fns";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { InviteUserDialog } from "@/components/users/InviteUserDialog";
+import { RolePermissionMatrix } from "@/components/users/RolePermissionMatrix";
+import { UserPermissionsDialog } from "@/components/users/UserPermissionsDialog";
 
 const roleColors: Record<AppRole, string> = {
   admin: "bg-red-500/20 text-red-400 border-red-500/30",
@@ -35,9 +37,10 @@ const roleColors: Record<AppRole, string> = {
 
 export default function UserManagement() {
   const navigate = useNavigate();
-  const { user: currentUser, isAdmin } = useAuth();
+  const { user: currentUser, isAdmin, can } = useAuth();
   const [searchQuery, setSearchQuery] = useState("");
   const [inviteDialogOpen, setInviteDialogOpen] = useState(false);
+  const [permissionsUser, setPermissionsUser] = useState<UserWithRoles | null>(null);
 
   const { data: users, isLoading } = useUsers();
   const assignRole = useAssignRole();
@@ -72,14 +75,15 @@ export default function UserManagement() {
     return email.slice(0, 2).toUpperCase();
   };
 
-  if (!isAdmin) {
+  // Inviters can see the user list; only admins change roles and permissions
+  if (!can("users.invite")) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <div className="text-center">
           <Shield className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
           <h1 className="text-xl font-semibold mb-2">Access Denied</h1>
           <p className="text-muted-foreground mb-4">
-            You need admin privileges to access user management.
+            You need permission to invite users to access user management.
           </p>
           <Button onClick={() => navigate("/")}>Return to Hub</Button>
         </div>
@@ -105,7 +109,7 @@ export default function UserManagement() {
             <div>
               <h1 className="text-2xl font-semibold">User Management</h1>
               <p className="text-muted-foreground text-sm">
-                Manage users and their roles
+                {isAdmin ? "Manage users, roles and permissions" : "View users and send invites"}
               </p>
             </div>
           </div>
@@ -197,57 +201,64 @@ export default function UserManagement() {
                       {format(new Date(user.created_at), "M/d/yy")}
                     </TableCell>
                     <TableCell>
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            disabled={user.id === currentUser?.id}
-                          >
-                            <MoreHorizontal className="h-4 w-4" />
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                          <DropdownMenuItem
-                            onClick={() => handleAddRole(user.id, "admin")}
-                            disabled={user.roles.includes("admin")}
-                          >
-                            Add Admin Role
-                          </DropdownMenuItem>
-                          <DropdownMenuItem
-                            onClick={() => handleAddRole(user.id, "internal")}
-                            disabled={user.roles.includes("internal")}
-                          >
-                            Add Internal Role
-                          </DropdownMenuItem>
-                          <DropdownMenuItem
-                            onClick={() => handleAddRole(user.id, "freelancer")}
-                            disabled={user.roles.includes("freelancer")}
-                          >
-                            Add Freelancer Role
-                          </DropdownMenuItem>
-                          <DropdownMenuItem
-                            onClick={() => handleAddRole(user.id, "client")}
-                            disabled={user.roles.includes("client")}
-                          >
-                            Add Client Role
-                          </DropdownMenuItem>
-                          {user.roles.length > 0 && (
-                            <>
-                              <DropdownMenuSeparator />
-                              {user.roles.map((role) => (
-                                <DropdownMenuItem
-                                  key={role}
-                                  onClick={() => handleRemoveRole(user.id, role)}
-                                  className="text-destructive"
-                                >
-                                  Remove {role} role
-                                </DropdownMenuItem>
-                              ))}
-                            </>
-                          )}
-                        </DropdownMenuContent>
-                      </DropdownMenu>
+                      {isAdmin && (
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              disabled={user.id === currentUser?.id}
+                            >
+                              <MoreHorizontal className="h-4 w-4" />
+                            </Button>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => setPermissionsUser(user)}>
+                              <KeyRound className="h-4 w-4 mr-2" />
+                              Edit Permissions
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem
+                              onClick={() => handleAddRole(user.id, "admin")}
+                              disabled={user.roles.includes("admin")}
+                            >
+                              Add Admin Role
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => handleAddRole(user.id, "internal")}
+                              disabled={user.roles.includes("internal")}
+                            >
+                              Add Internal Role
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => handleAddRole(user.id, "freelancer")}
+                              disabled={user.roles.includes("freelancer")}
+                            >
+                              Add Freelancer Role
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onClick={() => handleAddRole(user.id, "client")}
+                              disabled={user.roles.includes("client")}
+                            >
+                              Add Client Role
+                            </DropdownMenuItem>
+                            {user.roles.length > 0 && (
+                              <>
+                                <DropdownMenuSeparator />
+                                {user.roles.map((role) => (
+                                  <DropdownMenuItem
+                                    key={role}
+                                    onClick={() => handleRemoveRole(user.id, role)}
+                                    className="text-destructive"
+                                  >
+                                    Remove {role} role
+                                  </DropdownMenuItem>
+                                ))}
+                              </>
+                            )}
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      )}
                     </TableCell>
                   </TableRow>
                 ))
@@ -255,12 +266,31 @@ export default function UserManagement() {
             </TableBody>
           </Table>
         </div>
+
+        {/* Role permission defaults */}
+        {isAdmin && (
+          <div className="mt-10">
+            <div className="flex items-center gap-2 mb-1">
+              <KeyRound className="h-4 w-4 text-muted-foreground" />
+              <h2 className="text-lg font-semibold">Role Permissions</h2>
+            </div>
+            <p className="text-muted-foreground text-sm mb-4">
+              What each role can do by default. Per-user overrides are under a user's menu.
+            </p>
+            <RolePermissionMatrix />
+          </div>
+        )}
       </main>
 
       <InviteUserDialog
         open={inviteDialogOpen}
         onOpenChange={setInviteDialogOpen}
       />
+
+      <UserPermissionsDialog
+        user={permissionsUser}
+        onOpenChange={(open) => !open && setPermissionsUser(null)}
+      />
     </div>
   );
 }
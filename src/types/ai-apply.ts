@@ -29,6 +29,7 @@ export interface AIApplyOutput {
   body_image_id: string | null;
   body_image_url: string | null;
   prompt_version: string;
+  prompt_version_id: string | null;
   final_prompt: string | null;
   stored_url: string | null;
   status: 'pending' | 'generating' | 'completed' | 'failed';
@@ -42,6 +42,8 @@ export interface UnifiedJob {
   title?: string | null;
   priority?: number | null;
   access_token?: string | null;
+  started_at?: string | null;
+  status_changed_at?: string | null;
   // Joined fields
   assigned_user?: {
     id: string;
@@ -77,6 +79,14 @@ export interface UnifiedJob {
   outputs_count?: number;
 }
 
+export interface JobTypeSla {
+  job_type: JobType;
+  first_submission_hours: number;
+  needs_changes_hours: number;
+  reminder_lead_hours: number;
+  auto_reclaim: boolean;
+}
+
 export interface UnifiedArtifact {
   id: string;
   project_id: string | null;
@@ -136,6 +146,8 @@ export interface Invite {
   token: string;
   pin_code: string | null;
   email: string | null;
+  freelancer_identity_id: string | null;
+  failed_pin_attempts: number;
   expires_at: string;
   used_at: string | null;
   created_by: string | null;
@@ -167,6 +167,7 @@ export interface WorkflowQueueItem {
   max_attempts: number;
   error_message: string | null;
   metadata: Record<string, unknown>;
+  retry_after: string | null;
   started_at: string | null;
   completed_at: string | null;
   heartbeat_at: string;
@@ -213,6 +214,7 @@ export interface ParsedUploadFile {
   filename: string;
   isDuplicate: boolean;
   needsConversion?: boolean; // True for TIFF files
+  contentHash?: string; // SHA-256 of the file contents
 }
 
 export interface UploadSummary {
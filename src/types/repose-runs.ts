@@ -13,6 +13,8 @@ export interface ReposeRun {
     model?: string;
     posesPerShotType?: number;
     attemptsPerPose?: number;
+    seed?: number;
+    poseSelection?: 'random' | 'least_used';
     brand_id?: string;
   } | null;
   error_message: string | null;
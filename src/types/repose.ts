@@ -15,12 +15,21 @@ export interface ReposeConfig {
   posesPerShotType?: number; // renamed from randomPosesPerSlot
   attemptsPerPose?: number;
   cropTarget?: CropTarget; // for FRONT_CROPPED output
-  seed?: number;
+  seed?: number; // same seed reproduces the same pose assignment
+  poseSelection?: PoseSelectionMode;
   model?: string;
   // DEPRECATED: pairingRules is no longer user-configurable
   // Camera-to-output mapping is now enforced by the system
 }
 
+// 'least_used' favours library poses with the fewest prior renders
+export type PoseSelectionMode = 'random' | 'least_used';
+
+export const POSE_SELECTION_OPTIONS: { value: PoseSelectionMode; label: string }[] = [
+  { value: 'random', label: 'Random' },
+  { value: 'least_used', label: 'Least-used first' },
+];
+
 export const REPOSE_MODEL_OPTIONS = [
   { value: 'google/gemini-2.5-flash-image-preview', label: 'Nano Fast' },
   { value: 'google/gemini-3-pro-image-preview', label: 'Pro' },
@@ -45,9 +54,18 @@ export interface ReposeBatchItem {
   source_output_id: string | null;
   source_url: string;
   assigned_view: 'front' | 'back' | null; // Manual view assignment
+  pose_overrides: ReposePoseOverrides | null;
   created_at: string;
 }
 
+// Per-look pose override, stored on each batch item of the look.
+// Pinned poses are always rendered; excluded poses are never drawn at random.
+// Ids are clay_images ids (same as repose_outputs.pose_id).
+export interface ReposePoseOverrides {
+  pinned?: Partial<Record<OutputShotType, string[]>>;
+  excluded?: string[];
+}
+
 export interface ReposeOutput {
   id: string;
   batch_id: string;
@@ -59,6 +77,7 @@ export interface ReposeOutput {
   result_url: string | null;
   status: 'queued' | 'running' | 'complete' | 'failed';
   created_at: string;
+  perceptual_hash: string | null; // dHash for near-duplicate stacking
   // Selection fields for curation
   is_favorite: boolean;
   favorite_rank: 1 | 2 | 3 | null;
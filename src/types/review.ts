@@ -1,9 +1,18 @@
 export type SubmissionStatus = 'SUBMITTED' | 'IN_REVIEW' | 'CHANGES_REQUESTED' | 'APPROVED';
 export type AssetReviewStatus = 'APPROVED' | 'CHANGES_REQUESTED' | null;
 export type CommentVisibility = 'SHARED' | 'INTERNAL_ONLY';
-export type NotificationType = 'JOB_SUBMITTED' | 'COMMENT_MENTION' | 'CHANGES_REQUESTED' | 'JOB_APPROVED' | 'COMMENT_REPLY';
+export type NotificationType =
+  | 'JOB_SUBMITTED'
+  | 'COMMENT_MENTION'
+  | 'CHANGES_REQUESTED'
+  | 'JOB_APPROVED'
+  | 'COMMENT_REPLY'
+  | 'JOB_DUE_SOON'
+  | 'JOB_RECLAIMED';
 export type ThreadScope = 'JOB' | 'ASSET' | 'ANNOTATION';
 
+export type AnnotationShape = 'RECT' | 'POLYGON' | 'FREEHAND' | 'ARROW' | 'POINT';
+
 export interface AnnotationRect {
   x: number;
   y: number;
@@ -11,9 +20,26 @@ export interface AnnotationRect {
   h: number;
 }
 
+// Normalized 0-1 image coordinates
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
 export interface AnnotationStyle {
   rounded: boolean;
   color?: string;
+  closed?: boolean; // FREEHAND drawn as a lasso rather than a brush stroke
+}
+
+// What the viewer hands back when a shape is drawn. rect is the bounding box
+// for every shape so zoom-to-annotation works the same for all of them;
+// points hold the outline (POLYGON, FREEHAND), tail/head (ARROW) or pin (POINT).
+export interface AnnotationGeometry {
+  shape_type: AnnotationShape;
+  rect: AnnotationRect;
+  points: AnnotationPoint[] | null;
+  style: AnnotationStyle;
 }
 
 export interface JobSubmission {
@@ -87,8 +113,9 @@ export interface ImageAnnotation {
   id: string;
   asset_id: string;
   created_by_user_id: string | null;
-  shape_type: 'RECT';
+  shape_type: AnnotationShape;
   rect: AnnotationRect;
+  points: AnnotationPoint[] | null;
   style: AnnotationStyle;
   created_at: string;
   // Joined
@@ -102,12 +129,39 @@ export interface ImageAnnotation {
 
 export interface Notification {
   id: string;
-  user_id: string;
+  // Exactly one recipient: an auth user or a freelancer identity
+  user_id: string | null;
+  freelancer_identity_id: string | null;
   type: NotificationType;
   job_id: string | null;
   submission_id: string | null;
   comment_id: string | null;
   metadata: Record<string, unknown>;
   read_at: string | null;
+  emailed_at: string | null;
   created_at: string;
+  // Joined
+  job?: {
+    id: string;
+    title: string | null;
+  } | null;
+}
+
+export type MentionKind = 'user' | 'freelancer';
+
+export interface MentionCandidate {
+  kind: MentionKind;
+  id: string;
+  name: string;
+  detail: string | null;
+}
+
+export type EmailDigestFrequency = 'off' | 'hourly' | 'daily';
+
+export interface NotificationPreferences {
+  user_id: string;
+  muted_types: NotificationType[];
+  email_digest: EmailDigestFrequency;
+  email_muted_types: NotificationType[];
+  last_digest_sent_at: string | null;
 }
@@ -0,0 +1,545 @@
+// Shared AI provider layer for edge functions.
+//
+// Every function that talks to a model goes through `callAI`, which handles
+// provider routing, timeouts, retry/backoff and pulling images/text/tool calls
+// out of the provider's response format.
+//
+// Routing:
+//   - AI_PROVIDER=mock        -> deterministic offline mock (no credits used)
+//   - AI_PROVIDER=gemini      -> Google Gemini API directly (NANO_BANANA_API_KEY)
+//   - AI_PROVIDER=lovable     -> Lovable AI gateway (LOVABLE_API_KEY)
+//   - otherwise by model: "gemini/<model>" goes direct to Gemini, anything else
+//     (e.g. "google/gemini-2.5-flash") goes through the Lovable gateway.
+//
+// Every call is recorded in the AI usage ledger (see ai-usage.ts); pass
+// `usage` so the spend is attributed to the right function, batch and job.
+
+import { getBudgetBlockReason, recordAIUsage, type AIUsageContext } from "./ai-usage.ts";
+
+const LOVABLE_GATEWAY_URL = "https://ai.gateway.lovable.dev/v1/chat/completions";
+const GEMINI_API_BASE = "https://generativelanguage.googleapis.com/v1beta/models";
+
+const DEFAULT_TIMEOUT_MS = 90 * 1000;
+
+export type AIProviderName = "lovable" | "gemini" | "mock";
+
+export type AIContentPart =
+  | { type: "text"; text: string }
+  | { type: "image"; url: string };
+
+export interface AITool {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+}
+
+export interface AIRequest {
+  model: string;
+  parts: AIContentPart[];
+  systemPrompt?: string;
+  // Ask the model for an image output
+  wantImage?: boolean;
+  // Image output config (Gemini direct only, e.g. "2K" / "4K" and "3:4")
+  imageSize?: string | null;
+  aspectRatio?: string;
+  // Force a single function call and return its parsed arguments
+  tool?: AITool;
+  maxTokens?: number;
+  timeoutMs?: number;
+  // Retries for transient failures (429/502/503/504/timeouts); 0 disables
+  maxRetries?: number;
+  retryBaseDelayMs?: number;
+  // Ledger attribution; calls over a hard budget for this scope are refused
+  usage?: AIUsageContext;
+  // Canned output used by the mock provider for this call
+  mock?: {
+    text?: string;
+    toolArguments?: Record<string, unknown>;
+  };
+}
+
+export interface AIResponse {
+  provider: AIProviderName;
+  model: string;
+  text: string | null;
+  // Generated images as data URLs (data:image/png;base64,...)
+  images: string[];
+  toolArguments: Record<string, unknown> | null;
+  raw: unknown;
+}
+
+export class AIProviderError extends Error {
+  constructor(
+    message: string,
+    public status: number | null,
+    public body: string = "",
+  ) {
+    super(message);
+    this.name = "AIProviderError";
+  }
+
+  get isRateLimited() {
+    return this.status === 429;
+  }
+
+  get isCreditsExhausted() {
+    return this.status === 402;
+  }
+
+  get isTimeout() {
+    return this.status === null && this.message.startsWith("Timeout");
+  }
+
+  get isRetryable() {
+    return (
+      this.isTimeout ||
+      this.status === 429 ||
+      this.status === 502 ||
+      this.status === 503 ||
+      this.status === 504 ||
+      (this.status === null && /ECONNRESET|network/i.test(this.message))
+    );
+  }
+}
+
+// Thrown before calling the model when a hard AI budget has been used up
+export class AIBudgetExceededError extends AIProviderError {
+  constructor(message: string) {
+    super(message, 402, "budget_exceeded");
+    this.name = "AIBudgetExceededError";
+  }
+}
+
+// The model answered but not in the shape asked for (e.g. tool arguments that
+// aren't valid JSON). Retryable, since asking again usually fixes it.
+export class AIResponseFormatError extends AIProviderError {
+  constructor(message: string, body = "") {
+    super(message, 502, body);
+    this.name = "AIResponseFormatError";
+  }
+}
+
+export interface AIProvider {
+  name: AIProviderName;
+  complete(request: AIRequest, signal: AbortSignal): Promise<AIResponse>;
+}
+
+// ---------------------------------------------------------------------------
+// Retry helper
+// ---------------------------------------------------------------------------
+
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  maxRetries = 3,
+  baseDelayMs = 1000,
+): Promise<T> {
+  for (let attempt = 0; attempt < maxRetries; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      const isRetryable = error instanceof AIProviderError
+        ? error.isRetryable
+        : errorMessage.includes("502") ||
+          errorMessage.includes("503") ||
+          errorMessage.includes("429") ||
+          errorMessage.includes("timeout") ||
+          errorMessage.includes("ECONNRESET");
+
+      if (!isRetryable || attempt === maxRetries - 1) {
+        throw error;
+      }
+
+      const delay = baseDelayMs * Math.pow(2, attempt);
+      console.log(`[ai-provider] Retry ${attempt + 1}/${maxRetries} after ${delay}ms: ${errorMessage}`);
+      await new Promise((r) => setTimeout(r, delay));
+    }
+  }
+  throw new Error("Max retries exceeded");
+}
+
+// ---------------------------------------------------------------------------
+// Response helpers
+// ---------------------------------------------------------------------------
+
+// Split a data URL into bytes and mime type for storage uploads
+export function dataUrlToBytes(dataUrl: string): { bytes: Uint8Array; mimeType: string } {
+  const match = dataUrl.match(/^data:([^;]+);base64,/);
+  const mimeType = match?.[1] || "image/png";
+  const base64Data = dataUrl.replace(/^data:[^;]+;base64,/, "");
+  const bytes = Uint8Array.from(atob(base64Data), (c) => c.charCodeAt(0));
+  return { bytes, mimeType };
+}
+
+// Models often wrap JSON in ```json fences or surround it with prose
+export function parseJsonFromText<T = unknown>(text: string | null): T | null {
+  if (!text) return null;
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced ? fenced[1] : text;
+  const start = candidate.search(/[[{]/);
+  if (start === -1) return null;
+  const end = Math.max(candidate.lastIndexOf("}"), candidate.lastIndexOf("]"));
+  try {
+    return JSON.parse(candidate.slice(start, end + 1)) as T;
+  } catch {
+    return null;
+  }
+}
+
+// Fetch an image URL and return it as base64 (chunked to avoid stack overflow on large images)
+export async function fetchAsBase64(url: string): Promise<{ data: string; mimeType: string }> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image: ${response.status}`);
+  }
+  const contentType = response.headers.get("content-type") || "image/jpeg";
+  const bytes = new Uint8Array(await response.arrayBuffer());
+
+  let binary = "";
+  const chunkSize = 32768;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return { data: btoa(binary), mimeType: contentType.split(";")[0] };
+}
+
+// ---------------------------------------------------------------------------
+// Model ids
+// ---------------------------------------------------------------------------
+
+// Model ids are written for the default route ("gemini/x" direct, "google/x"
+// via the gateway); AI_PROVIDER can send either kind to the other provider,
+// so each provider rewrites the id into the form its API expects.
+export function normalizeModelId(provider: AIProviderName, model: string): string {
+  if (provider === "gemini") return model.replace(/^(gemini|google)\//, "");
+  if (provider === "lovable") return model.replace(/^gemini\//, "google/");
+  return model;
+}
+
+// ---------------------------------------------------------------------------
+// Lovable AI gateway (OpenAI-compatible chat completions)
+// ---------------------------------------------------------------------------
+
+interface LovableMessage {
+  content?: unknown;
+  images?: Array<{ image_url?: { url?: string } }>;
+  tool_calls?: Array<{ function?: { arguments?: string } }>;
+}
+
+const lovableProvider: AIProvider = {
+  name: "lovable",
+  async complete(request, signal) {
+    const apiKey = Deno.env.get("LOVABLE_API_KEY");
+    if (!apiKey) {
+      throw new AIProviderError("LOVABLE_API_KEY not configured", null);
+    }
+
+    const content = request.parts.map((part) =>
+      part.type === "text"
+        ? { type: "text", text: part.text }
+        : { type: "image_url", image_url: { url: part.url } }
+    );
+
+    const messages: unknown[] = [];
+    if (request.systemPrompt) {
+      messages.push({ role: "system", content: request.systemPrompt });
+    }
+    messages.push({ role: "user", content });
+
+    const body: Record<string, unknown> = { model: normalizeModelId("lovable", request.model), messages };
+    if (request.wantImage) body.modalities = ["image", "text"];
+    if (request.maxTokens) body.max_tokens = request.maxTokens;
+    if (request.tool) {
+      body.tools = [{
+        type: "function",
+        function: {
+          name: request.tool.name,
+          description: request.tool.description,
+          parameters: request.tool.parameters,
+        },
+      }];
+      body.tool_choice = { type: "function", function: { name: request.tool.name } };
+    }
+
+    const response = await fetch(LOVABLE_GATEWAY_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new AIProviderError(`AI gateway error ${response.status}`, response.status, errorText);
+    }
+
+    let data;
+    try {
+      data = await response.json();
+    } catch {
+      throw new AIResponseFormatError("AI gateway returned a malformed response");
+    }
+    const message: LovableMessage | undefined = data.choices?.[0]?.message;
+    const images = (message?.images || [])
+      .map((img) => img?.image_url?.url)
+      .filter((url): url is string => !!url);
+
+    let toolArguments: Record<string, unknown> | null = null;
+    const toolCall = message?.tool_calls?.[0];
+    if (toolCall?.function?.arguments) {
+      try {
+        toolArguments = JSON.parse(toolCall.function.arguments);
+      } catch {
+        throw new AIResponseFormatError(
+          "Tool call arguments are not valid JSON",
+          toolCall.function.arguments.substring(0, 500),
+        );
+      }
+    }
+
+    return {
+      provider: "lovable",
+      model: request.model,
+      text: typeof message?.content === "string" ? message.content : null,
+      images,
+      toolArguments,
+      raw: data,
+    };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Google Gemini API (direct, inline image data)
+// ---------------------------------------------------------------------------
+
+interface GeminiPart {
+  text?: string;
+  inlineData?: { mimeType?: string; data?: string };
+  functionCall?: { args?: Record<string, unknown> };
+}
+
+interface GeminiResponse {
+  error?: { message?: string; code?: number };
+  candidates?: Array<{ content?: { parts?: GeminiPart[] } }>;
+}
+
+const geminiProvider: AIProvider = {
+  name: "gemini",
+  async complete(request, signal) {
+    const apiKey = Deno.env.get("NANO_BANANA_API_KEY");
+    if (!apiKey) {
+      throw new AIProviderError("NANO_BANANA_API_KEY not configured", null);
+    }
+
+    const model = normalizeModelId("gemini", request.model);
+
+    const parts: unknown[] = [];
+    for (const part of request.parts) {
+      if (part.type === "text") {
+        parts.push({ text: part.text });
+      } else {
+        const image = await fetchAsBase64(part.url);
+        parts.push({ inlineData: { mimeType: image.mimeType, data: image.data } });
+      }
+    }
+
+    const generationConfig: Record<string, unknown> = {
+      responseModalities: request.wantImage ? ["TEXT", "IMAGE"] : ["TEXT"],
+    };
+    if (request.maxTokens) generationConfig.maxOutputTokens = request.maxTokens;
+    if (request.imageSize && request.imageSize !== "1K") {
+      generationConfig.imageConfig = {
+        aspectRatio: request.aspectRatio || "3:4",
+        imageSize: request.imageSize,
+      };
+    }
+
+    const body: Record<string, unknown> = {
+      contents: [{ parts }],
+      generationConfig,
+    };
+    if (request.systemPrompt) {
+      body.systemInstruction = { parts: [{ text: request.systemPrompt }] };
+    }
+    if (request.tool) {
+      body.tools = [{
+        functionDeclarations: [{
+          name: request.tool.name,
+          description: request.tool.description,
+          parameters: request.tool.parameters,
+        }],
+      }];
+      body.toolConfig = {
+        functionCallingConfig: { mode: "ANY", allowedFunctionNames: [request.tool.name] },
+      };
+    }
+
+    const response = await fetch(`${GEMINI_API_BASE}/${model}:generateContent?key=${apiKey}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new AIProviderError(`Gemini error ${response.status}`, response.status, errorText);
+    }
+
+    let data: GeminiResponse;
+    try {
+      data = JSON.parse(await response.text());
+    } catch {
+      // Large 4K payloads occasionally arrive truncated - treat as transient
+      throw new AIProviderError("Truncated response", 502);
+    }
+
+    if (data.error) {
+      const message = data.error.message || JSON.stringify(data.error);
+      throw new AIProviderError(`API error: ${message}`, data.error.code || 500);
+    }
+
+    const responseParts = data.candidates?.[0]?.content?.parts || [];
+    const images = responseParts
+      .filter((p) => p.inlineData?.data)
+      .map((p) => `data:${p.inlineData!.mimeType || "image/png"};base64,${p.inlineData!.data}`);
+    const text = responseParts.filter((p) => p.text).map((p) => p.text).join("") || null;
+    const functionCall = responseParts.find((p) => p.functionCall)?.functionCall;
+
+    return {
+      provider: "gemini",
+      model: request.model,
+      text,
+      images,
+      toolArguments: functionCall?.args || null,
+      raw: data,
+    };
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Mock provider - deterministic and offline
+// ---------------------------------------------------------------------------
+
+// 8x8 light grey PNG used as the placeholder for every generated image
+const MOCK_IMAGE_BASE64 =
+  "iVBORw0KGgoAAAANSUhEUgAAAAgAAAAICAIAAABLbSncAAAAD0lEQVR42mO4hwMwDC0JAA6XpoF/2HJkAAAAAElFTkSuQmCC";
+
+function stableHash(input: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+const mockProvider: AIProvider = {
+  name: "mock",
+  complete(request) {
+    const promptText = request.parts
+      .map((p) => (p.type === "text" ? p.text : p.url))
+      .join("\n");
+    const fingerprint = stableHash(`${request.model}\n${promptText}`).toString(16);
+
+    console.log(`[ai-provider] mock response for ${request.model} (${fingerprint})`);
+
+    return Promise.resolve({
+      provider: "mock",
+      model: request.model,
+      text: request.mock?.text ?? (request.tool ? null : `mock-${fingerprint}`),
+      images: request.wantImage ? [`data:image/png;base64,${MOCK_IMAGE_BASE64}`] : [],
+      toolArguments: request.tool ? request.mock?.toolArguments ?? {} : null,
+      raw: { mock: true, fingerprint },
+    });
+  },
+};
+
+// ---------------------------------------------------------------------------
+// Routing + entry point
+// ---------------------------------------------------------------------------
+
+const PROVIDERS: Record<AIProviderName, AIProvider> = {
+  lovable: lovableProvider,
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+export function resolveProvider(model: string): AIProvider {
+  const override = Deno.env.get("AI_PROVIDER") as AIProviderName | undefined;
+  if (override && PROVIDERS[override]) {
+    return PROVIDERS[override];
+  }
+  if (model.startsWith("gemini/")) {
+    return geminiProvider;
+  }
+  return lovableProvider;
+}
+
+// Returns an error message when the provider `model` routes to has no API key,
+// so functions can fail fast before doing any work. The mock needs no key.
+export function getAIConfigError(model = ""): string | null {
+  const provider = resolveProvider(model);
+  if (provider.name === "lovable" && !Deno.env.get("LOVABLE_API_KEY")) {
+    return "LOVABLE_API_KEY not configured";
+  }
+  if (provider.name === "gemini" && !Deno.env.get("NANO_BANANA_API_KEY")) {
+    return "NANO_BANANA_API_KEY not configured";
+  }
+  return null;
+}
+
+export async function callAI(request: AIRequest): Promise<AIResponse> {
+  const provider = resolveProvider(request.model);
+  const timeoutMs = request.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  const attempt = async () => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      return await provider.complete(request, controller.signal);
+    } catch (error) {
+      if (error instanceof Error && error.name === "AbortError") {
+        throw new AIProviderError(`Timeout after ${Math.round(timeoutMs / 1000)}s`, null);
+      }
+      if (error instanceof AIProviderError) throw error;
+      throw new AIProviderError(`Network error: ${error instanceof Error ? error.message : error}`, null);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  };
+
+  if (request.usage) {
+    const blockReason = await getBudgetBlockReason(request.usage);
+    if (blockReason) {
+      throw new AIBudgetExceededError(blockReason);
+    }
+  }
+
+  const maxRetries = request.maxRetries ?? 0;
+  const usageBase = { provider: provider.name, model: request.model, imageSize: request.imageSize ?? null };
+
+  try {
+    const response = maxRetries <= 0
+      ? await attempt()
+      : await withRetry(attempt, maxRetries + 1, request.retryBaseDelayMs ?? 1000);
+    await recordAIUsage(request.usage, {
+      ...usageBase,
+      imagesGenerated: response.images.length,
+      succeeded: true,
+      errorStatus: null,
+    });
+    return response;
+  } catch (error) {
+    await recordAIUsage(request.usage, {
+      ...usageBase,
+      imagesGenerated: 0,
+      succeeded: false,
+      errorStatus: error instanceof AIProviderError ? error.status : null,
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,88 @@
+// AI usage ledger for edge functions.
+//
+// callAI records every model call in ai_usage_ledger and, before calling,
+// asks whether a hard budget blocks the project/brand/batch the call is for.
+// Costs are filled in by a trigger from ai_model_prices, so nothing here knows
+// about prices. Ledger failures are logged and swallowed: a missing row must
+// never fail a generation.
+
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Who a call is for. Only functionName is required, but pass every id the
+// caller has: budgets only apply to calls with a project, brand or batch. The
+// ledger trigger fills project and brand in from batchId, and the user from
+// pipelineJobId, when they aren't passed. projectId is a production project;
+// other kinds of project (expression maps, face application, workflows) go in
+// metadata, with their brand as brandId where they have one.
+export interface AIUsageContext {
+  functionName: string;
+  projectId?: string | null;
+  brandId?: string | null;
+  batchId?: string | null;
+  pipelineJobId?: string | null;
+  userId?: string | null;
+  metadata?: Record<string, unknown>;
+}
+
+export interface AIUsageResult {
+  provider: string;
+  model: string;
+  imageSize: string | null;
+  imagesGenerated: number;
+  succeeded: boolean;
+  errorStatus: number | null;
+}
+
+let ledgerClient: SupabaseClient | null = null;
+
+function getLedgerClient(): SupabaseClient | null {
+  if (ledgerClient) return ledgerClient;
+  const url = Deno.env.get("SUPABASE_URL");
+  const key = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !key) return null;
+  ledgerClient = createClient(url, key);
+  return ledgerClient;
+}
+
+/** Returns why a hard budget blocks this call, or null. Fails open on lookup errors */
+export async function getBudgetBlockReason(usage: AIUsageContext): Promise<string | null> {
+  if (!usage.projectId && !usage.brandId && !usage.batchId) return null;
+
+  const supabase = getLedgerClient();
+  if (!supabase) return null;
+
+  const { data, error } = await supabase.rpc("ai_budget_block_reason", {
+    _project_id: usage.projectId ?? null,
+    _brand_id: usage.brandId ?? null,
+    _batch_id: usage.batchId ?? null,
+  });
+  if (error) {
+    console.error("[ai-usage] Budget check failed:", error.message);
+    return null;
+  }
+  return data ?? null;
+}
+
+export async function recordAIUsage(usage: AIUsageContext | undefined, result: AIUsageResult): Promise<void> {
+  const supabase = getLedgerClient();
+  if (!supabase) return;
+
+  const { error } = await supabase.from("ai_usage_ledger").insert({
+    function_name: usage?.functionName ?? "unknown",
+    provider: result.provider,
+    model: result.model,
+    image_size: result.imageSize,
+    images_generated: result.imagesGenerated,
+    succeeded: result.succeeded,
+    error_status: result.errorStatus,
+    project_id: usage?.projectId ?? null,
+    brand_id: usage?.brandId ?? null,
+    batch_id: usage?.batchId ?? null,
+    pipeline_job_id: usage?.pipelineJobId ?? null,
+    user_id: usage?.userId ?? null,
+    metadata: usage?.metadata ?? {},
+  });
+  if (error) {
+    console.error("[ai-usage] Failed to record usage:", error.message);
+  }
+}
@@ -0,0 +1,254 @@
+// Caller authentication and authorization for edge functions.
+//
+// Most functions run with verify_jwt = false (see supabase/config.toml) and
+// use a service-role client internally, so every handler has to decide for
+// itself who may call it. `requireCaller` does that in one place:
+//
+//   - Signed-in users are resolved from their JWT with getClaims and checked
+//     against has_role / has_permission, the same SQL the app and RLS use.
+//     Admins pass every role check.
+//   - Functions calling other functions (queue workers continuing themselves,
+//     resume jobs, fan-out to single-item workers) attach a short-lived token
+//     signed with the service secret via `serviceHeaders`. It names the target
+//     function and carries the user who started the chain.
+//   - A bare service role key is accepted as an anonymous service caller, for
+//     schedulers that can only send a static header.
+//
+// Client review links have no signed-in user at all. verify-review-password
+// hands out a review access token, signed the same way, once a review's
+// password checks out; submit-client-review requires it.
+//
+// A request carrying `x-auth-check` stops at requireCaller with a 204 once
+// the caller is authorized, without running the function. The auth tests in
+// supabase/functions/tests use it to check every caller against every
+// function without side effects.
+//
+// Mirrors the app_permission enum and src/lib/permissions.ts.
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type AppRole = "admin" | "internal" | "freelancer" | "client";
+
+export type AppPermission =
+  | "repose.run"
+  | "repose.rerender4k"
+  | "repose.delete"
+  | "jobs.approve"
+  | "library.lock"
+  | "users.invite";
+
+export interface Caller {
+  kind: "user" | "service";
+  // For service calls, the user who started the chain (null for schedulers)
+  userId: string | null;
+  isAdmin: boolean;
+}
+
+export interface CallerRequirement {
+  functionName: string;
+  corsHeaders: Record<string, string>;
+  // Caller needs one of these roles; admins always pass. Omit for any signed-in user
+  roles?: AppRole[];
+  permission?: AppPermission;
+  // Reject signed-in users entirely (scheduled jobs, internal-only workers)
+  serviceOnly?: boolean;
+}
+
+const SERVICE_TOKEN_HEADER = "x-service-token";
+const AUTH_CHECK_HEADER = "x-auth-check";
+const SERVICE_TOKEN_TTL_MS = 10 * 60 * 1000;
+
+interface ServiceTokenPayload {
+  fn: string;
+  sub: string | null;
+  exp: number;
+}
+
+// Long enough to review a batch in one sitting
+const REVIEW_ACCESS_TTL_MS = 12 * 60 * 60 * 1000;
+
+interface ReviewAccessPayload {
+  review: string;
+  exp: number;
+}
+
+function getServiceSecret(): string {
+  return Deno.env.get("INTERNAL_SERVICE_TOKEN_SECRET") || Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const padded = value.replace(/-/g, "+").replace(/_/g, "/").padEnd(Math.ceil(value.length / 4) * 4, "=");
+  return Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+}
+
+async function hmacKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(getServiceSecret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"],
+  );
+}
+
+async function signPayload(payload: ServiceTokenPayload | ReviewAccessPayload): Promise<string> {
+  const encoded = base64UrlEncode(new TextEncoder().encode(JSON.stringify(payload)));
+  const signature = await crypto.subtle.sign("HMAC", await hmacKey(), new TextEncoder().encode(encoded));
+  return `${encoded}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+// Payload of a correctly signed token; callers check its fields and expiry
+async function readSignedPayload(token: string): Promise<Record<string, unknown> | null> {
+  const [encoded, signature] = token.split(".");
+  if (!encoded || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await hmacKey(),
+      base64UrlDecode(signature),
+      new TextEncoder().encode(encoded),
+    );
+    if (!valid) return null;
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(encoded))) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+}
+
+/** Token for one call to `functionName`, valid for ten minutes */
+export async function createServiceToken(functionName: string, userId: string | null = null): Promise<string> {
+  return signPayload({ fn: functionName, sub: userId, exp: Date.now() + SERVICE_TOKEN_TTL_MS });
+}
+
+async function verifyServiceToken(token: string, functionName: string): Promise<ServiceTokenPayload | null> {
+  const payload = await readSignedPayload(token);
+  if (!payload || payload.fn !== functionName || typeof payload.exp !== "number" || payload.exp < Date.now()) {
+    return null;
+  }
+  return payload as unknown as ServiceTokenPayload;
+}
+
+/** Proof that the caller entered `reviewId`'s password, valid for twelve hours */
+export async function createReviewAccessToken(reviewId: string): Promise<string> {
+  return signPayload({ review: reviewId, exp: Date.now() + REVIEW_ACCESS_TTL_MS });
+}
+
+export async function verifyReviewAccessToken(token: string | null | undefined, reviewId: string): Promise<boolean> {
+  if (!token) return false;
+  const payload = await readSignedPayload(token);
+  return !!payload && payload.review === reviewId && typeof payload.exp === "number" && payload.exp >= Date.now();
+}
+
+/**
+ * Headers for calling another edge function from inside one. Pass them to
+ * supabase.functions.invoke or fetch; the service role key stays in
+ * Authorization so the gateway accepts the call.
+ */
+export async function serviceHeaders(functionName: string, userId: string | null = null): Promise<Record<string, string>> {
+  return {
+    Authorization: `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+    [SERVICE_TOKEN_HEADER]: await createServiceToken(functionName, userId),
+  };
+}
+
+export async function requireCaller(
+  req: Request,
+  requirement: CallerRequirement,
+): Promise<{ caller: Caller | null; error: Response | null }> {
+  const { functionName, corsHeaders, roles, permission, serviceOnly } = requirement;
+  const jsonError = (status: number, message: string) =>
+    new Response(
+      JSON.stringify({ error: message }),
+      { status, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+    );
+  const authorized = (caller: Caller) => ({
+    caller,
+    error: req.headers.has(AUTH_CHECK_HEADER) ? new Response(null, { status: 204, headers: corsHeaders }) : null,
+  });
+
+  const serviceToken = req.headers.get(SERVICE_TOKEN_HEADER);
+  if (serviceToken) {
+    const payload = await verifyServiceToken(serviceToken, functionName);
+    if (!payload) {
+      console.warn(`[auth] ${functionName}: rejected invalid or expired service token`);
+      return { caller: null, error: jsonError(401, "Invalid service token") };
+    }
+    return authorized({ kind: "service", userId: payload.sub, isAdmin: false });
+  }
+
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    return { caller: null, error: jsonError(401, "Unauthorized") };
+  }
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const token = authHeader.replace("Bearer ", "");
+
+  if (token === serviceKey) {
+    return authorized({ kind: "service", userId: null, isAdmin: false });
+  }
+  if (serviceOnly) {
+    return { caller: null, error: jsonError(403, "This function can only be called by the service") };
+  }
+
+  const authClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: authHeader } },
+  });
+  const { data, error } = await authClient.auth.getClaims(token);
+  // The anon key is a valid JWT too, but it has no user behind it
+  if (error || !data?.claims?.sub) {
+    return { caller: null, error: jsonError(401, "Unauthorized") };
+  }
+
+  const userId = data.claims.sub as string;
+  const supabase = createClient(supabaseUrl, serviceKey);
+
+  const { data: isAdmin, error: adminError } = await supabase.rpc("has_role", { _user_id: userId, _role: "admin" });
+  if (adminError) {
+    console.error(`[auth] ${functionName}: has_role failed for ${userId}:`, adminError);
+    return { caller: null, error: jsonError(500, "Failed to check roles") };
+  }
+  const caller: Caller = { kind: "user", userId, isAdmin: !!isAdmin };
+
+  if (roles?.length && !caller.isAdmin) {
+    let hasRole = false;
+    for (const role of roles) {
+      const { data: allowed, error: roleError } = await supabase.rpc("has_role", { _user_id: userId, _role: role });
+      if (roleError) {
+        console.error(`[auth] ${functionName}: has_role failed for ${userId}:`, roleError);
+        return { caller, error: jsonError(500, "Failed to check roles") };
+      }
+      if (allowed) {
+        hasRole = true;
+        break;
+      }
+    }
+    if (!hasRole) {
+      return { caller, error: jsonError(403, "Forbidden") };
+    }
+  }
+
+  if (permission) {
+    const { data: allowed, error: rpcError } = await supabase.rpc("has_permission", {
+      _user_id: userId,
+      _permission: permission,
+    });
+    if (rpcError) {
+      console.error(`[auth] ${functionName}: has_permission failed for ${userId}:`, rpcError);
+      return { caller, error: jsonError(500, "Failed to check permissions") };
+    }
+    if (!allowed) {
+      return { caller, error: jsonError(403, `Missing permission: ${permission}`) };
+    }
+  }
+
+  return authorized(caller);
+}
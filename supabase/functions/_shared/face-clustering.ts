@@ -0,0 +1,100 @@
+// Face clustering for scraped models.
+//
+// Each model starts as the images of one product (classify-all step 1). A
+// model's position is the mean of its images' face embeddings, and models are
+// clustered bottom-up: the closest pair of clusters is joined while its
+// distance stays under the threshold, and the merged cluster's mean is
+// weighted by image count. Models without any embedding are never clustered.
+//
+// A cluster is only a shortlist. The embeddings are trait scores (see
+// face-embedding.ts), so classify-all compares faces within each cluster
+// before merging any of its models.
+//
+// Distance is the RMS difference per dimension, so it stays in 0-1 whatever
+// the embedding length. src/lib/faceClustering.ts mirrors this for the
+// review screen; keep the two in sync.
+
+export interface FaceGroup {
+  id: string;
+  embeddings: number[][];
+}
+
+export interface FaceCluster {
+  // Group ids in the order they joined
+  memberIds: string[];
+  centroid: number[] | null;
+  // Largest distance at which two parts of this cluster were joined (0 for a single group)
+  maxMergeDistance: number;
+}
+
+export function faceDistance(a: number[], b: number[]): number {
+  const length = Math.min(a.length, b.length);
+  if (length === 0) return 1;
+  let sum = 0;
+  for (let i = 0; i < length; i++) {
+    const diff = a[i] - b[i];
+    sum += diff * diff;
+  }
+  return Math.sqrt(sum / length);
+}
+
+export function meanEmbedding(embeddings: number[][]): number[] | null {
+  if (embeddings.length === 0) return null;
+  const mean = new Array(embeddings[0].length).fill(0);
+  for (const embedding of embeddings) {
+    for (let i = 0; i < mean.length; i++) mean[i] += embedding[i] ?? 0;
+  }
+  return mean.map((v) => v / embeddings.length);
+}
+
+export function clusterFaceGroups(groups: FaceGroup[], threshold: number): FaceCluster[] {
+  const clusters = groups.map((group) => ({
+    memberIds: [group.id],
+    weight: group.embeddings.length,
+    centroid: meanEmbedding(group.embeddings),
+    maxMergeDistance: 0,
+  }));
+
+  // Pairwise distances between live clusters; Infinity when either has no embedding
+  const distances: number[][] = clusters.map((a, i) =>
+    clusters.map((b, j) => (i !== j && a.centroid && b.centroid ? faceDistance(a.centroid, b.centroid) : Infinity))
+  );
+  const alive = clusters.map(() => true);
+
+  while (true) {
+    let best = Infinity;
+    let bestI = -1;
+    let bestJ = -1;
+    for (let i = 0; i < clusters.length; i++) {
+      if (!alive[i]) continue;
+      for (let j = i + 1; j < clusters.length; j++) {
+        if (alive[j] && distances[i][j] < best) {
+          best = distances[i][j];
+          bestI = i;
+          bestJ = j;
+        }
+      }
+    }
+    if (bestI === -1 || best > threshold) break;
+
+    const a = clusters[bestI];
+    const b = clusters[bestJ];
+    const weight = a.weight + b.weight;
+    a.centroid = a.centroid!.map((v, k) => (v * a.weight + b.centroid![k] * b.weight) / weight);
+    a.weight = weight;
+    a.memberIds.push(...b.memberIds);
+    a.maxMergeDistance = Math.max(a.maxMergeDistance, best);
+    alive[bestJ] = false;
+
+    for (let k = 0; k < clusters.length; k++) {
+      if (k === bestI || !alive[k] || !clusters[k].centroid) continue;
+      const d = faceDistance(a.centroid, clusters[k].centroid!);
+      distances[bestI][k] = d;
+      distances[k][bestI] = d;
+    }
+  }
+
+  return clusters
+    .filter((_, i) => alive[i])
+    .map(({ memberIds, centroid, maxMergeDistance }) => ({ memberIds, centroid, maxMergeDistance }));
+}
@@ -0,0 +1,214 @@
+// Face embeddings for model clustering.
+//
+// The providers behind callAI have no image embedding endpoint, so the vision
+// model scores a fixed list of facial traits instead, each from 0 to 1. The
+// list deliberately leaves out hair, makeup, expression and lighting, which
+// change between shoots of the same person. The resulting vector is stored on
+// face_detections and compared with face-clustering.ts; it is computed once
+// per scraped image.
+//
+// Trait scores are a description, not a face-recognition embedding: plenty of
+// different people score alike. They only shortlist models that might be the
+// same person, and classify-all confirms each merge with compareFaces, a
+// side-by-side look at the two faces. That keeps the pairwise calls to the
+// shortlist instead of every pair of models.
+//
+// Changing FACE_EMBEDDING_MODEL or FACE_TRAITS makes old vectors incomparable;
+// bump FACE_EMBEDDING_VERSION so classify-all re-embeds them.
+
+import { callAI } from "./ai-provider.ts";
+import type { AIUsageContext } from "./ai-usage.ts";
+import { createSeededRandom, hashSeed } from "./pose-selection.ts";
+
+export const FACE_EMBEDDING_MODEL = "google/gemini-2.5-flash";
+const FACE_EMBEDDING_VERSION = "traits-v1";
+
+// Stored in face_detections.embedding_model
+export const FACE_EMBEDDING_ID = `${FACE_EMBEDDING_MODEL}:${FACE_EMBEDDING_VERSION}`;
+
+// [key, what 0 means, what 1 means]
+const FACE_TRAITS: Array<[string, string, string]> = [
+  ["face_length", "short, wide face", "long, narrow face"],
+  ["face_fullness", "lean, hollow cheeks", "full, round cheeks"],
+  ["jaw_width", "narrow jaw", "wide jaw"],
+  ["jaw_angularity", "soft, rounded jawline", "sharp, angular jawline"],
+  ["chin_prominence", "receding chin", "prominent chin"],
+  ["cheekbone_prominence", "flat cheekbones", "high, prominent cheekbones"],
+  ["forehead_height", "low forehead", "high forehead"],
+  ["eye_size", "small eyes", "large eyes"],
+  ["eye_spacing", "close-set eyes", "wide-set eyes"],
+  ["eye_tilt", "downturned outer corners", "upturned outer corners"],
+  ["eyelid_crease", "hooded or monolid", "deep visible crease"],
+  ["eye_color", "very light eyes", "very dark eyes"],
+  ["brow_thickness", "thin brows", "thick brows"],
+  ["brow_arch", "straight brows", "strongly arched brows"],
+  ["nose_length", "short nose", "long nose"],
+  ["nose_width", "narrow nose", "wide nose"],
+  ["nose_bridge", "low, flat bridge", "high, prominent bridge"],
+  ["lip_fullness", "thin lips", "full lips"],
+  ["lip_ratio", "upper lip much fuller", "lower lip much fuller"],
+  ["mouth_width", "narrow mouth", "wide mouth"],
+  ["philtrum_length", "short philtrum", "long philtrum"],
+  ["skin_tone", "very light skin", "very deep skin"],
+];
+
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FaceEmbeddingResult {
+  faceDetected: boolean;
+  // Percentages of the image size (0-100), as detect-face-ai reports them
+  boundingBox: FaceBox | null;
+  embedding: number[] | null;
+}
+
+function mockTraits(imageUrl: string): Record<string, number> {
+  // Random but stable per image, so the mock never merges two products
+  const random = createSeededRandom(hashSeed("face-embedding", imageUrl));
+  return Object.fromEntries(FACE_TRAITS.map(([key]) => [key, Math.round(random() * 100) / 100]));
+}
+
+/**
+ * Embed the most prominent face in `imageUrl`. Pass a known face box to tell
+ * the model which face to describe when there are several.
+ */
+export async function embedFace(
+  imageUrl: string,
+  knownBox: FaceBox | null,
+  usage: AIUsageContext,
+): Promise<FaceEmbeddingResult> {
+  const boxHint = knownBox
+    ? `Describe the face inside the box at x=${Math.round(knownBox.x)}%, y=${Math.round(knownBox.y)}%, width=${Math.round(knownBox.width)}%, height=${Math.round(knownBox.height)}% of the image.`
+    : "Describe the most prominent face in the image.";
+
+  const result = await callAI({
+    model: FACE_EMBEDDING_MODEL,
+    parts: [
+      {
+        type: "text",
+        text: `You are measuring facial structure so photos of the same fashion model can be matched across shoots.
+${boxHint}
+
+Score each trait from 0 to 1 using the two ends given. Judge bone structure and features only: ignore hair, makeup, expression, head angle and lighting. Use the full range and two decimals.
+
+If no face is visible (back view, face cropped out or fully covered), set faceDetected to false and leave the traits out.`,
+      },
+      { type: "image", url: imageUrl },
+    ],
+    tool: {
+      name: "report_face_traits",
+      description: "Report facial trait scores for the face in the image",
+      parameters: {
+        type: "object",
+        properties: {
+          faceDetected: { type: "boolean", description: "Whether a face is visible" },
+          faceBoundingBox: {
+            type: "object",
+            description: "The face as percentages of the image size (0-100)",
+            properties: {
+              x: { type: "number" },
+              y: { type: "number" },
+              width: { type: "number" },
+              height: { type: "number" },
+            },
+            required: ["x", "y", "width", "height"],
+          },
+          ...Object.fromEntries(
+            FACE_TRAITS.map(([key, low, high]) => [
+              key,
+              { type: "number", description: `0 = ${low}, 1 = ${high}` },
+            ]),
+          ),
+        },
+        required: ["faceDetected"],
+      },
+    },
+    maxTokens: 400,
+    maxRetries: 2,
+    mock: {
+      toolArguments: {
+        faceDetected: true,
+        faceBoundingBox: { x: 40, y: 6, width: 20, height: 14 },
+        ...mockTraits(imageUrl),
+      },
+    },
+    usage,
+  });
+
+  const args = (result.toolArguments || {}) as Record<string, unknown>;
+  const box = args.faceBoundingBox as FaceBox | undefined;
+  const boundingBox = knownBox ?? (box && typeof box.x === "number" ? box : null);
+
+  if (!args.faceDetected) {
+    return { faceDetected: false, boundingBox: null, embedding: null };
+  }
+
+  const scores = FACE_TRAITS.map(([key]) => args[key]);
+  // A partial answer can't be compared with full vectors
+  if (scores.some((score) => typeof score !== "number" || !Number.isFinite(score))) {
+    console.warn(`[face-embedding] Incomplete trait scores for ${imageUrl.substring(0, 80)}`);
+    return { faceDetected: true, boundingBox, embedding: null };
+  }
+
+  return {
+    faceDetected: true,
+    boundingBox,
+    embedding: (scores as number[]).map((score) => Math.min(1, Math.max(0, score))),
+  };
+}
+
+/**
+ * Ask the vision model whether two photos show the same person. Errs towards
+ * "no": a missed merge is a click in the review screen, a wrong one mixes two
+ * people's images. Failures count as "no" too.
+ */
+export async function compareFaces(imageUrlA: string, imageUrlB: string, usage: AIUsageContext): Promise<boolean> {
+  try {
+    const result = await callAI({
+      model: FACE_EMBEDDING_MODEL,
+      parts: [
+        {
+          type: "text",
+          text: `You are an expert at facial recognition. Compare these two photos of fashion models.
+
+ONLY answer "yes" if you are 100% CERTAIN they are the SAME PERSON based on DISTINCTIVE facial features:
+- Face shape and bone structure
+- Eye shape, color, and spacing
+- Nose shape and size
+- Mouth and lip shape
+- Eyebrows shape and thickness
+- Ears (if visible)
+- Unique features like moles, dimples, or facial structure
+
+Answer "no" if:
+- They are different people
+- You have ANY doubt or uncertainty
+- They merely look similar (same ethnicity, similar build, similar hair)
+- The images are too obscured, low quality, or at angles that prevent confident matching
+- You cannot see enough facial detail to be certain
+
+Be CONSERVATIVE. It is much worse to incorrectly merge different people than to miss a match.
+When in doubt, answer "no".
+
+Reply with ONLY "yes" or "no".`,
+        },
+        { type: "image", url: imageUrlA },
+        { type: "image", url: imageUrlB },
+      ],
+      maxTokens: 10,
+      maxRetries: 2,
+      mock: { text: "no" },
+      usage,
+    });
+
+    const answer = result.text?.toLowerCase().trim() || "no";
+    return answer.startsWith("yes");
+  } catch (err) {
+    console.error("[face-embedding] Face comparison failed after retries:", err);
+    return false;
+  }
+}
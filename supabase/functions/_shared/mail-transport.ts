@@ -0,0 +1,117 @@
+// Pluggable outbound mail for edge functions.
+//
+// The transport is picked from MAIL_TRANSPORT ("smtp", "resend" or "console").
+// When unset, SMTP is used if SMTP_HOST is configured, otherwise messages are
+// only logged. For local development point SMTP_HOST/SMTP_PORT at a catcher
+// such as Mailpit (localhost:1025) - plain, unauthenticated SMTP is allowed
+// unless SMTP_TLS=true.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+  close?(): Promise<void>;
+}
+
+const DEFAULT_FROM = "Notifications <notifications@localhost>";
+
+function getFromAddress(): string {
+  return Deno.env.get("MAIL_FROM") || DEFAULT_FROM;
+}
+
+function createConsoleTransport(): MailTransport {
+  return {
+    name: "console",
+    send(message) {
+      console.log(`[mail:console] To: ${message.to} | Subject: ${message.subject}\n${message.text}`);
+      return Promise.resolve();
+    },
+  };
+}
+
+async function createSmtpTransport(): Promise<MailTransport> {
+  const { SMTPClient } = await import("https://deno.land/x/denomailer@1.6.0/mod.ts");
+
+  const hostname = Deno.env.get("SMTP_HOST");
+  if (!hostname) throw new Error("SMTP_HOST is not configured");
+
+  const tls = Deno.env.get("SMTP_TLS") === "true";
+  const username = Deno.env.get("SMTP_USERNAME");
+  const password = Deno.env.get("SMTP_PASSWORD");
+
+  const client = new SMTPClient({
+    connection: {
+      hostname,
+      port: Number(Deno.env.get("SMTP_PORT") || (tls ? 465 : 1025)),
+      tls,
+      auth: username && password ? { username, password } : undefined,
+    },
+    // Local catchers speak plain SMTP without STARTTLS
+    debug: tls ? undefined : { allowUnsecure: true, noStartTLS: true },
+  });
+
+  return {
+    name: "smtp",
+    async send(message) {
+      await client.send({
+        from: getFromAddress(),
+        to: message.to,
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+      });
+    },
+    close: () => client.close(),
+  };
+}
+
+function createResendTransport(): MailTransport {
+  const apiKey = Deno.env.get("RESEND_API_KEY");
+  if (!apiKey) throw new Error("RESEND_API_KEY is not configured");
+
+  return {
+    name: "resend",
+    async send(message) {
+      const response = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          from: getFromAddress(),
+          to: [message.to],
+          subject: message.subject,
+          text: message.text,
+          html: message.html,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`Resend error ${response.status}: ${errorText}`);
+      }
+    },
+  };
+}
+
+export async function createMailTransport(): Promise<MailTransport> {
+  const configured = Deno.env.get("MAIL_TRANSPORT") || (Deno.env.get("SMTP_HOST") ? "smtp" : "console");
+
+  switch (configured) {
+    case "smtp":
+      return await createSmtpTransport();
+    case "resend":
+      return createResendTransport();
+    case "console":
+      return createConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${configured}`);
+  }
+}
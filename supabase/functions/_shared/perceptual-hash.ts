@@ -0,0 +1,74 @@
+// Perceptual hash (dHash) for generated outputs.
+//
+// The image is shrunk to 9x8 greyscale and each bit records whether a pixel is
+// brighter than its right-hand neighbour, giving a 64-bit hash (16 hex chars).
+// Near-identical attempts differ by only a few bits, so the review screens
+// compare hashes by Hamming distance. src/lib/perceptualHash.ts computes the
+// same hash in the browser for images that were never hashed here.
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+// Outputs are 2-4K; decoding one just to shrink it to 9x8 costs more memory
+// than the rest of a generation. Storage's render endpoint returns a copy this
+// wide instead - the same "thumb" tier the browser hashes from.
+const THUMBNAIL_WIDTH = 280;
+
+/** Storage render URL for a small copy of a public object, or null if it isn't one */
+export function storageThumbnailUrl(publicUrl: string): string | null {
+  if (!publicUrl.includes("/storage/v1/object/public/")) return null;
+  const url = publicUrl.replace("/storage/v1/object/", "/storage/v1/render/image/");
+  return `${url}${url.includes("?") ? "&" : "?"}width=${THUMBNAIL_WIDTH}&resize=contain`;
+}
+
+export async function computeDHash(bytes: Uint8Array): Promise<string | null> {
+  try {
+    const { Image } = await import("https://deno.land/x/imagescript@1.3.0/mod.ts");
+    const image = await Image.decode(bytes);
+    const small = image.resize(HASH_WIDTH, HASH_HEIGHT);
+    const pixels = small.bitmap;
+
+    const luminance = (x: number, y: number) => {
+      const i = (y * HASH_WIDTH + x) * 4;
+      return 0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2];
+    };
+
+    let hex = "";
+    for (let y = 0; y < HASH_HEIGHT; y++) {
+      let byte = 0;
+      for (let x = 0; x < HASH_WIDTH - 1; x++) {
+        byte = (byte << 1) | (luminance(x, y) > luminance(x + 1, y) ? 1 : 0);
+      }
+      hex += byte.toString(16).padStart(2, "0");
+    }
+    return hex;
+  } catch (err) {
+    // Hashing is best-effort - never fail a generation because of it
+    console.warn("[perceptual-hash] Failed to hash image:", err);
+    return null;
+  }
+}
+
+export async function computeDHashFromUrl(url: string): Promise<string | null> {
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.warn(`[perceptual-hash] Fetch failed (${response.status}) for ${url.slice(0, 80)}`);
+      return null;
+    }
+    return await computeDHash(new Uint8Array(await response.arrayBuffer()));
+  } catch (err) {
+    console.warn("[perceptual-hash] Fetch error:", err);
+    return null;
+  }
+}
+
+/**
+ * Hash an uploaded output from its storage thumbnail. Returns null rather than
+ * decoding the original if there's no thumbnail; compute-perceptual-hashes
+ * picks those up later.
+ */
+export async function computeStoredImageDHash(publicUrl: string): Promise<string | null> {
+  const thumbnailUrl = storageThumbnailUrl(publicUrl);
+  return thumbnailUrl ? await computeDHashFromUrl(thumbnailUrl) : null;
+}
@@ -0,0 +1,85 @@
+// Pose selection for repose/pose generation.
+//
+// With a seed, selection is deterministic: re-running a batch with the same
+// seed reproduces the same pose assignment. Each call derives its own stream
+// from the seed plus a key (look, item, shot type...), so the result for one
+// look does not depend on how many other looks were processed before it. Keys
+// must not include anything that changes between re-runs, like a run index.
+//
+// "least_used" mode orders candidates by how often they have already been
+// rendered, using the seeded shuffle only to break ties, so the whole library
+// gets even coverage instead of the same few poses every run. For re-runs to
+// match, callers must pass the same counts each time (repose batches freeze
+// them on the batch).
+
+export type PoseSelectionMode = "random" | "least_used";
+
+// FNV-1a over the joined parts - stable 32-bit seed for a selection stream
+export function hashSeed(...parts: Array<string | number | null | undefined>): number {
+  const input = parts.map((p) => String(p ?? "")).join("|");
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32 - small, fast PRNG returning floats in [0, 1)
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Fisher-Yates; does not mutate the input
+export function shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export interface SelectPosesOptions<T> {
+  // Base seed from the batch config; omit for non-reproducible selection
+  seed?: number | null;
+  // Distinguishes independent selections that share a seed
+  streamKey?: Array<string | number | null | undefined>;
+  mode?: PoseSelectionMode;
+  // Prior render counts keyed by pose id. Updated in place with the picks so
+  // later selections in the same invocation keep balancing.
+  usage?: Map<string, number>;
+  getId: (pose: T) => string;
+}
+
+export function selectPoses<T>(poses: T[], count: number, options: SelectPosesOptions<T>): T[] {
+  const { seed, streamKey = [], mode = "random", usage, getId } = options;
+
+  const random = seed === undefined || seed === null
+    ? Math.random
+    : createSeededRandom(hashSeed(seed, ...streamKey));
+
+  // Database row order is not guaranteed, so fix the input order first
+  const canonical = [...poses].sort((a, b) => getId(a).localeCompare(getId(b)));
+  let ordered = shuffle(canonical, random);
+  if (mode === "least_used" && usage) {
+    // Array.prototype.sort is stable, so equal counts keep the shuffled order
+    ordered = ordered.sort((a, b) => (usage.get(getId(a)) || 0) - (usage.get(getId(b)) || 0));
+  }
+
+  const selected = ordered.slice(0, Math.max(0, count));
+  if (usage) {
+    for (const pose of selected) {
+      const id = getId(pose);
+      usage.set(id, (usage.get(id) || 0) + 1);
+    }
+  }
+  return selected;
+}
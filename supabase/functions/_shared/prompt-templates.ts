@@ -0,0 +1,45 @@
+// Prompt library lookup for generation functions.
+//
+// Each pipeline's prompt lives in prompt_versions with one active version.
+// Functions pass their built-in prompt as the fallback so generation keeps
+// working when the table has no active row, and store the returned versionId
+// on each output. src/lib/promptTemplates.ts renders templates the same way.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type PromptPipeline = "repose" | "ai_apply" | "face_application" | "clay" | "expression";
+
+export interface ResolvedPrompt {
+  template: string;
+  versionId: string | null;
+  version: string | null;
+}
+
+/** Loads a specific version when versionId is given, otherwise the active one */
+export async function resolvePrompt(
+  supabase: SupabaseClient,
+  pipeline: PromptPipeline,
+  fallback: string,
+  versionId?: string | null,
+): Promise<ResolvedPrompt> {
+  let query = supabase
+    .from("prompt_versions")
+    .select("id, version, template")
+    .eq("pipeline", pipeline);
+  query = versionId ? query.eq("id", versionId) : query.eq("is_active", true);
+
+  const { data, error } = await query.maybeSingle();
+  if (error || !data) {
+    if (error) console.error(`[prompt-templates] Failed to load ${pipeline} prompt:`, error);
+    return { template: fallback, versionId: null, version: null };
+  }
+
+  return { template: data.template, versionId: data.id, version: data.version };
+}
+
+/** Unknown placeholders are left in place so a typo shows up in the output */
+export function renderPrompt(template: string, variables: Record<string, string>): string {
+  return template.replace(/\{([a-zA-Z][a-zA-Z0-9_]*)\}/g, (placeholder, name: string) =>
+    name in variables ? variables[name] : placeholder
+  );
+}
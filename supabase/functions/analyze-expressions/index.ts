@@ -1,4 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { callAI, AIProviderError, type AIContentPart } from "../_shared/ai-provider.ts";
+import type { AIUsageContext } from "../_shared/ai-usage.ts";
+import { requireCaller } from "../_shared/auth.ts";
 
 declare const EdgeRuntime: {
   waitUntil: (promise: Promise<unknown>) => void;
@@ -56,67 +59,44 @@ IMPORTANT:
 - Each recipe should be distinctly different from others`;
 
 // Background task to analyze images
-async function analyzeImagesTask(imageUrls: string[], customPrompt: string | undefined, projectId: string, model: string, supabaseUrl: string, supabaseKey: string) {
+async function analyzeImagesTask(imageUrls: string[], customPrompt: string | undefined, projectId: string, model: string, supabaseUrl: string, supabaseKey: string, usage: AIUsageContext) {
   const { createClient } = await import("https://esm.sh/@supabase/supabase-js@2");
   const supabase = createClient(supabaseUrl, supabaseKey);
 
   try {
     console.log(`Starting background analysis for project ${projectId} with ${imageUrls.length} images`);
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      console.error('LOVABLE_API_KEY not configured');
-      return;
-    }
+    const promptText = customPrompt 
+      ? `${SYSTEM_PROMPT}\n\nAdditional context from user: ${customPrompt}\n\nAnalyze the following images and extract expression recipes:`
+      : `${SYSTEM_PROMPT}\n\nAnalyze the following images and extract expression recipes:`;
 
     // Build message content with images
-    const content: Array<{ type: string; text?: string; image_url?: { url: string } }> = [
-      {
-        type: "text",
-        text: customPrompt 
-          ? `${SYSTEM_PROMPT}\n\nAdditional context from user: ${customPrompt}\n\nAnalyze the following images and extract expression recipes:`
-          : `${SYSTEM_PROMPT}\n\nAnalyze the following images and extract expression recipes:`
-      }
-    ];
+    const parts: AIContentPart[] = [{ type: "text", text: promptText }];
 
     // Add image references (limit to first 10 to reduce timeout risk)
     const imagesToAnalyze = imageUrls.slice(0, 10);
     for (const url of imagesToAnalyze) {
-      content.push({
-        type: "image_url",
-        image_url: { url }
-      });
+      parts.push({ type: "image", url });
     }
 
     console.log(`Sending ${imagesToAnalyze.length} images to vision model`);
 
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: model,
-        messages: [
-          {
-            role: 'user',
-            content
-          }
-        ],
-        max_tokens: 6000,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI Gateway error:', response.status, errorText);
+    let assistantMessage: string | null;
+    try {
+      const result = await callAI({
+        model,
+        parts,
+        maxTokens: 6000,
+        timeoutMs: 300000,
+        mock: { text: JSON.stringify({ recipes: [] }) },
+        usage,
+      });
+      assistantMessage = result.text;
+    } catch (aiError) {
+      console.error('AI Gateway error:', aiError instanceof AIProviderError ? `${aiError.status} ${aiError.body}` : aiError);
       return;
     }
 
-    const data = await response.json();
-    const assistantMessage = data.choices?.[0]?.message?.content;
-
     if (!assistantMessage) {
       console.error('No response from AI');
       return;
@@ -172,6 +152,15 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { caller, error: authError } = await requireCaller(req, {
+    functionName: 'analyze-expressions',
+    corsHeaders,
+    roles: ['internal'],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const { imageUrls, customPrompt, projectId, model } = await req.json();
 
@@ -195,8 +184,14 @@ serve(async (req) => {
 
     console.log(`Starting expression analysis for ${imageUrls.length} images with model ${selectedModel}`);
 
+    const usage: AIUsageContext = {
+      functionName: 'analyze-expressions',
+      userId: caller?.userId ?? null,
+      metadata: { expressionProjectId: projectId },
+    };
+
     // Start background task
-    EdgeRuntime.waitUntil(analyzeImagesTask(imageUrls, customPrompt, projectId, selectedModel, supabaseUrl, supabaseKey));
+    EdgeRuntime.waitUntil(analyzeImagesTask(imageUrls, customPrompt, projectId, selectedModel, supabaseUrl, supabaseKey, usage));
 
     // Return immediately
     return new Response(
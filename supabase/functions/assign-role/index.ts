@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.89.0";
+import { requireCaller } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -13,13 +14,21 @@ serve(async (req) => {
   }
 
   try {
+    const { caller, error: authError } = await requireCaller(req, {
+      functionName: 'assign-role',
+      corsHeaders,
+    });
+    if (authError || !caller) {
+      return authError!;
+    }
+
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     
     // Create admin client
     const supabase = createClient(supabaseUrl, serviceRoleKey);
 
-    const { userId, role } = await req.json();
+    const { userId, role, inviteToken } = await req.json();
 
     if (!userId || !role) {
       return new Response(
@@ -37,6 +46,56 @@ serve(async (req) => {
       );
     }
 
+    const forbidden = (message: string) =>
+      new Response(
+        JSON.stringify({ error: message }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+
+    // Admins and service callers may assign anything. Everyone else may only
+    // give themselves a role: freelancer from the magic link flow, the role on
+    // an invite they hold, or admin while no admin exists (checked below).
+    const isSelf = caller.userId === userId;
+    let allowed = caller.kind === 'service' || caller.isAdmin;
+
+    if (!allowed && role !== 'admin' && caller.kind === 'user') {
+      const { data: canInvite } = await supabase.rpc('has_permission', {
+        _user_id: caller.userId,
+        _permission: 'users.invite',
+      });
+      allowed = !!canInvite;
+    }
+
+    if (!allowed && isSelf && role === 'freelancer') {
+      allowed = true;
+    }
+
+    if (!allowed && isSelf && inviteToken) {
+      const { data: invites, error: inviteError } = await supabase.rpc('get_invite_by_token', {
+        p_token: inviteToken,
+      });
+      if (inviteError) {
+        console.error('Error looking up invite:', inviteError);
+      }
+      const invite = invites?.[0];
+      if (invite && invite.role === role) {
+        if (invite.email) {
+          const { data: userData } = await supabase.auth.admin.getUserById(userId);
+          allowed = userData?.user?.email?.toLowerCase() === invite.email.toLowerCase();
+        } else {
+          allowed = true;
+        }
+      }
+      if (!allowed) {
+        return forbidden('Invite is invalid, expired, or for a different role');
+      }
+    }
+
+    if (!allowed && !(isSelf && role === 'admin')) {
+      console.log(`Rejected ${role} assignment to ${userId} by ${caller.userId}`);
+      return forbidden('Not allowed to assign this role');
+    }
+
     // Check if user already has a role
     const { data: existingRole, error: existingRoleError } = await supabase
       .from('user_roles')
@@ -56,8 +115,8 @@ serve(async (req) => {
       );
     }
 
-    // For admin role, check if any admin exists (security measure for bootstrap only)
-    if (role === 'admin') {
+    // Non-admins may only claim admin as the bootstrap, while no admin exists
+    if (role === 'admin' && !allowed) {
       const { data: existingAdmins, error: checkError } = await supabase
         .from('user_roles')
         .select('id')
@@ -80,9 +139,6 @@ serve(async (req) => {
       }
     }
 
-    // Freelancers can self-register (no admin check needed)
-    // This allows the magic link flow to auto-assign freelancer role
-
     // Insert the role
     const { data, error: insertError } = await supabase
       .from('user_roles')
@@ -1,4 +1,9 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { callAI, getAIConfigError } from '../_shared/ai-provider.ts';
+import type { AIUsageContext } from '../_shared/ai-usage.ts';
+import { requireCaller, serviceHeaders } from '../_shared/auth.ts';
+import { compareFaces, embedFace, FACE_EMBEDDING_ID, FACE_EMBEDDING_MODEL, type FaceBox } from '../_shared/face-embedding.ts';
+import { clusterFaceGroups } from '../_shared/face-clustering.ts';
 
 declare const EdgeRuntime: {
   waitUntil(promise: Promise<unknown>): void;
@@ -12,41 +17,26 @@ const corsHeaders = {
 // Time limit for each worker invocation (50 seconds - Deno kills tasks around 60-90s)
 const MAX_PROCESSING_TIME_MS = 50 * 1000;
 
-// Retry wrapper with exponential backoff for transient API errors
-async function withRetry<T>(
-  fn: () => Promise<T>,
-  maxRetries = 3,
-  baseDelayMs = 1000
-): Promise<T> {
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      return await fn();
-    } catch (error: any) {
-      const errorMessage = error?.message || String(error);
-      const isRetryable = 
-        errorMessage.includes('502') ||
-        errorMessage.includes('503') ||
-        errorMessage.includes('429') ||
-        errorMessage.includes('timeout') ||
-        errorMessage.includes('ECONNRESET');
-      
-      if (!isRetryable || attempt === maxRetries - 1) {
-        throw error;
-      }
-      
-      const delay = baseDelayMs * Math.pow(2, attempt);
-      console.log(`Retry ${attempt + 1}/${maxRetries} after ${delay}ms: ${errorMessage}`);
-      await new Promise(r => setTimeout(r, delay));
-    }
-  }
-  throw new Error('Max retries exceeded');
-}
+// Vision model used for gender/view classification
+const CLASSIFY_MODEL = 'google/gemini-2.5-flash';
+
+// Used when the run has no threshold of its own (mirrors the column default)
+const DEFAULT_CLUSTER_DISTANCE_THRESHOLD = 0.18;
 
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { caller, error: authError } = await requireCaller(req, {
+    functionName: 'classify-all',
+    corsHeaders,
+    roles: ['internal'],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const { runId, pipelineJobId, resumeFromStep, resumeContext } = await req.json();
 
@@ -110,7 +100,13 @@ Deno.serve(async (req) => {
     }
 
     // Start background processing with context for mid-step resumption
-    EdgeRuntime.waitUntil(runClassificationPipeline(runId, jobId, supabase, resumeFromStep || 1, resumeContext || {}));
+    const usage: AIUsageContext = {
+      functionName: 'classify-all',
+      pipelineJobId: jobId,
+      userId: caller?.userId ?? null,
+      metadata: { runId },
+    };
+    EdgeRuntime.waitUntil(runClassificationPipeline(runId, jobId, supabase, usage, resumeFromStep || 1, resumeContext || {}));
 
     return new Response(
       JSON.stringify({ success: true, jobId }),
@@ -157,10 +153,12 @@ async function runClassificationPipeline(
   runId: string, 
   jobId: string, 
   supabase: any, 
+  usage: AIUsageContext,
   resumeFromStep: number = 1,
-  resumeContext: { step2Index?: number; step3Index?: number; step3InnerIndex?: number; step5Index?: number } = {}
+  resumeContext: { step2Index?: number; step3RejectedPairs?: string[]; step5Index?: number } = {}
 ) {
-  const lovableKey = Deno.env.get('LOVABLE_API_KEY');
+  const aiEnabled = !getAIConfigError(CLASSIFY_MODEL);
+  const embeddingEnabled = !getAIConfigError(FACE_EMBEDDING_MODEL);
   const startTime = Date.now();
   
   // Helper to check if we're approaching timeout
@@ -179,6 +177,7 @@ async function runClassificationPipeline(
       .eq('id', jobId);
     
     await supabase.functions.invoke('classify-all', {
+      headers: await serviceHeaders('classify-all', usage.userId ?? null),
       body: { 
         runId, 
         pipelineJobId: jobId,
@@ -239,7 +238,7 @@ async function runClassificationPipeline(
       console.log('Step 2: Finding front-facing images for each model...');
       
       const step2Result = await findFrontFacingImages(
-        initialModels, supabase, lovableKey, jobId, 
+        initialModels, supabase, usage, aiEnabled, jobId, 
         resumeContext.step2Index || 0, isNearTimeout
       );
       
@@ -260,25 +259,27 @@ async function runClassificationPipeline(
       }));
     }
 
-    // ===== STEP 3: Compare faces and merge duplicate models =====
+    // ===== STEP 3: Embed faces and cluster models =====
     if (resumeFromStep <= 3) {
       if (await checkJobCanceled(supabase, jobId)) return;
-      await updateJobStep(supabase, jobId, 2, 'Step 3/6: Matching faces across models...');
-      console.log('Step 3: Comparing faces across models...');
-      
-      const step3Result = await compareFacesAndMerge(
-        runId, supabase, lovableKey, jobId,
-        resumeContext.step3Index || 0, 
-        resumeContext.step3InnerIndex || 0,
-        isNearTimeout
-      );
-      
-      // Check if we need to continue later
+      await updateJobStep(supabase, jobId, 2, 'Step 3/6: Embedding faces...');
+      console.log('Step 3: Embedding faces and clustering models...');
+
+      // Embeddings are saved as they are computed, so a continuation just
+      // picks up the images that still have none
+      const step3Result = await embedRunFaces(runId, supabase, usage, embeddingEnabled, jobId, isNearTimeout);
       if (step3Result.needsContinuation) {
-        await continueLater(3, { 
-          step3Index: step3Result.processedOuterIndex, 
-          step3InnerIndex: step3Result.processedInnerIndex 
-        });
+        await continueLater(3, {});
+        return;
+      }
+
+      if (await checkJobCanceled(supabase, jobId)) return;
+      const clusterResult = await clusterModels(
+        runId, supabase, usage, jobId, isNearTimeout, new Set(resumeContext.step3RejectedPairs || [])
+      );
+      if (clusterResult.needsContinuation) {
+        // Merges are saved as they happen; rejected pairs aren't asked about again
+        await continueLater(3, { step3RejectedPairs: clusterResult.rejectedPairs });
         return;
       }
     }
@@ -304,7 +305,7 @@ async function runClassificationPipeline(
           || identity.face_identity_images?.[0]?.scrape_image;
         
         if (representativeImage?.source_url) {
-          const gender = await classifyGender(representativeImage.source_url, lovableKey);
+          const gender = await classifyGender(representativeImage.source_url, usage, aiEnabled);
           await supabase
             .from('face_identities')
             .update({ gender })
@@ -343,7 +344,7 @@ async function runClassificationPipeline(
             try {
               const imageUrl = identityImage.scrape_image?.source_url;
               if (imageUrl) {
-                const view = await classifyView(imageUrl, lovableKey);
+                const view = await classifyView(imageUrl, usage, aiEnabled);
                 await supabase
                   .from('face_identity_images')
                   .update({ view, view_source: 'ai' })
@@ -472,7 +473,8 @@ async function createInitialIdentities(runId: string, images: any[], supabase: a
 async function findFrontFacingImages(
   models: Array<{ id: string; name: string; images: any[]; productUrl: string }>,
   supabase: any,
-  lovableKey?: string,
+  usage: AIUsageContext,
+  aiEnabled?: boolean,
   jobId?: string,
   startFromIndex: number = 0,
   isNearTimeout?: () => boolean
@@ -528,7 +530,7 @@ async function findFrontFacingImages(
     }
 
     // Check first image
-    const firstView = await classifyView(firstImage.source_url, lovableKey);
+    const firstView = await classifyView(firstImage.source_url, usage, aiEnabled);
     await supabase
       .from('face_identity_images')
       .update({ view: firstView, view_source: 'ai' })
@@ -549,7 +551,7 @@ async function findFrontFacingImages(
       
       const viewResults = await Promise.all(
         batch.map(async (image: any) => {
-          const view = await classifyView(image.source_url, lovableKey);
+          const view = await classifyView(image.source_url, usage, aiEnabled);
           await supabase
             .from('face_identity_images')
             .update({ view, view_source: 'ai' })
@@ -612,223 +614,271 @@ async function findFrontFacingImages(
   return { results, needsContinuation: false, processedCount: results.length };
 }
 
-// Step 3: Compare faces across models and merge duplicates (IMMEDIATE MERGE - timeout resilient)
-// Instead of Union-Find which loses state on continuation, we merge immediately to the database
-async function compareFacesAndMerge(
+interface ScrapeImageRef {
+  id: string;
+  source_url: string;
+}
+
+interface FaceDetectionRow {
+  id: string;
+  scrape_image_id: string;
+  bounding_boxes: FaceBox[] | null;
+  primary_box_index: number | null;
+  embedding_model: string | null;
+}
+
+interface ClusterIdentityRow {
+  id: string;
+  name: string;
+  face_identity_images: Array<{
+    scrape_image_id: string;
+    is_ignored: boolean;
+    view: string | null;
+    scrape_image: { source_url: string } | null;
+  }> | null;
+}
+
+// Step 3a: Embed every face in the run once (PARALLEL batched processing with timeout support)
+// Back views are skipped; images whose embedding came from another model version are redone
+async function embedRunFaces(
   runId: string,
   supabase: any,
-  lovableKey?: string,
-  jobId?: string,
-  startFromOuterIndex: number = 0,
-  startFromInnerIndex: number = 0,
-  isNearTimeout?: () => boolean
-): Promise<{
-  needsContinuation: boolean;
-  processedOuterIndex: number;
-  processedInnerIndex: number;
-}> {
-  // Fetch current models FRESH from DB (gets state after any prior merges in previous workers)
-  const { data: freshModels, error: modelsError } = await supabase
-    .from('face_identities')
-    .select(`
-      id, 
-      name, 
-      representative_image_id,
-      face_identity_images(
-        id,
-        view,
-        scrape_image:face_scrape_images(id, source_url)
-      )
-    `)
-    .eq('scrape_run_id', runId)
-    .order('created_at');
-  
-  if (modelsError) {
-    console.error('Error fetching models:', modelsError);
-    throw modelsError;
+  usage: AIUsageContext,
+  embeddingEnabled: boolean,
+  jobId: string,
+  isNearTimeout: () => boolean
+): Promise<{ needsContinuation: boolean }> {
+  if (!embeddingEnabled) {
+    console.log('AI provider not configured, skipping face embeddings');
+    return { needsContinuation: false };
   }
 
-  // Build models with front image URLs
-  const modelsWithFronts = (freshModels || [])
-    .map((m: any) => {
-      // Prefer front view, fallback to first available image
-      const frontImage = m.face_identity_images?.find((ii: any) => ii.view === 'front')?.scrape_image
-        || m.face_identity_images?.[0]?.scrape_image;
-      return {
-        id: m.id,
-        name: m.name,
-        frontImageUrl: frontImage?.source_url,
-        imageCount: m.face_identity_images?.length || 0,
-      };
-    })
-    .filter((m: any) => m.frontImageUrl);
+  const { data: identityImages, error: imagesError } = await supabase
+    .from('face_identity_images')
+    .select('view, scrape_image:face_scrape_images(id, source_url), identity:face_identities!inner(scrape_run_id)')
+    .eq('identity.scrape_run_id', runId)
+    .eq('is_ignored', false);
+
+  if (imagesError) throw imagesError;
+
+  const images: ScrapeImageRef[] = (identityImages || [])
+    .filter((ii: { view: string; scrape_image: ScrapeImageRef | null }) => ii.view !== 'back' && ii.scrape_image?.source_url)
+    .map((ii: { scrape_image: ScrapeImageRef }) => ii.scrape_image);
+
+  const detectionsByImage = new Map<string, FaceDetectionRow>();
+  const IN_CHUNK_SIZE = 200;
+  for (let i = 0; i < images.length; i += IN_CHUNK_SIZE) {
+    const { data: detections } = await supabase
+      .from('face_detections')
+      .select('id, scrape_image_id, bounding_boxes, primary_box_index, embedding_model')
+      .in('scrape_image_id', images.slice(i, i + IN_CHUNK_SIZE).map((img) => img.id));
+    for (const detection of (detections || []) as FaceDetectionRow[]) {
+      detectionsByImage.set(detection.scrape_image_id, detection);
+    }
+  }
 
-  // Sort by image count - compare larger groups first
-  modelsWithFronts.sort((a: any, b: any) => b.imageCount - a.imageCount);
+  const pending = images.filter(
+    (img) => detectionsByImage.get(img.id)?.embedding_model !== FACE_EMBEDDING_ID
+  );
+  const alreadyDone = images.length - pending.length;
+  console.log(`Embedding ${pending.length} faces (${alreadyDone} already embedded)`);
 
-  const totalModels = modelsWithFronts.length;
-  console.log(`Comparing ${totalModels} models (starting from outer=${startFromOuterIndex}, inner=${startFromInnerIndex})`);
+  const embedImage = async (image: ScrapeImageRef) => {
+    const detection = detectionsByImage.get(image.id);
+    const boxes = detection?.bounding_boxes || [];
+    const knownBox = boxes[detection?.primary_box_index ?? 0] || null;
 
-  // Track already-merged IDs to skip them
-  const mergedIds = new Set<string>();
-  let mergeCount = 0;
+    try {
+      const result = await embedFace(image.source_url, knownBox, usage);
+      const embeddingFields = {
+        embedding: result.embedding,
+        embedding_model: FACE_EMBEDDING_ID,
+        embedded_at: new Date().toISOString(),
+      };
 
-  // Compare each pair of models with timeout checking
-  for (let i = startFromOuterIndex; i < totalModels; i++) {
-    // Check for timeout at the start of each outer loop iteration
-    if (isNearTimeout && isNearTimeout()) {
-      console.log(`Timeout approaching in step 3 outer loop, i=${i}, total=${totalModels}`);
-      return { needsContinuation: true, processedOuterIndex: i, processedInnerIndex: 0 };
+      if (detection) {
+        // Keep boxes from the crop editor; only fill them in when there were none
+        await supabase
+          .from('face_detections')
+          .update(
+            boxes.length === 0 && result.boundingBox
+              ? { ...embeddingFields, bounding_boxes: [result.boundingBox], face_count: 1, status: 'detected' }
+              : embeddingFields
+          )
+          .eq('id', detection.id);
+      } else {
+        await supabase
+          .from('face_detections')
+          .insert({
+            scrape_image_id: image.id,
+            face_count: result.faceDetected ? 1 : 0,
+            status: result.faceDetected ? 'detected' : 'no_face',
+            bounding_boxes: result.boundingBox ? [result.boundingBox] : [],
+            ...embeddingFields,
+          });
+      }
+    } catch (err) {
+      // Left unembedded: the model simply won't be clustered this run
+      console.error(`Face embedding failed for image ${image.id}:`, err);
     }
+  };
 
-    const modelA = modelsWithFronts[i];
-    
-    // Skip if already merged into another
-    if (mergedIds.has(modelA.id)) continue;
-
-    // Determine starting j: if resuming this specific i, start from saved inner index; otherwise start from i+1
-    const startJ = (i === startFromOuterIndex && startFromInnerIndex > i + 1) ? startFromInnerIndex : i + 1;
-
-    for (let j = startJ; j < totalModels; j++) {
-      // Check for timeout inside inner loop too - this is critical for large model counts
-      if (isNearTimeout && isNearTimeout()) {
-        console.log(`Timeout approaching in step 3 inner loop, i=${i}, j=${j}`);
-        return { needsContinuation: true, processedOuterIndex: i, processedInnerIndex: j };
-      }
+  const BATCH_SIZE = 5;
+  for (let i = 0; i < pending.length; i += BATCH_SIZE) {
+    if (isNearTimeout()) {
+      console.log(`Timeout approaching in step 3, embedded ${i}/${pending.length}`);
+      return { needsContinuation: true };
+    }
+    if (await checkJobCanceled(supabase, jobId)) return { needsContinuation: false };
 
-      const modelB = modelsWithFronts[j];
-      
-      // Skip if already merged
-      if (mergedIds.has(modelB.id)) continue;
+    await Promise.all(pending.slice(i, i + BATCH_SIZE).map(embedImage));
 
-      // Check if modelB still exists in DB (might have been merged in a previous worker continuation)
-      const { data: exists } = await supabase
-        .from('face_identities')
-        .select('id')
-        .eq('id', modelB.id)
-        .single();
-      
-      if (!exists) {
-        mergedIds.add(modelB.id);
-        continue;
-      }
+    const done = alreadyDone + Math.min(i + BATCH_SIZE, pending.length);
+    const percent = Math.round((done / images.length) * 100);
+    await supabase
+      .from('pipeline_jobs')
+      .update({
+        progress_message: `Step 3/6: Embedding faces... ${done}/${images.length} (${percent}%)`,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', jobId);
+  }
 
-      const isSamePerson = await compareFaces(
-        modelA.frontImageUrl,
-        modelB.frontImageUrl,
-        lovableKey
-      );
+  return { needsContinuation: false };
+}
 
-      if (isSamePerson) {
-        console.log(`MATCH: ${modelA.name} and ${modelB.name} → merging immediately`);
-        await mergeModels(modelA.id, modelB.id, supabase);
-        mergedIds.add(modelB.id);
-        mergeCount++;
-      }
+// Step 3b: Shortlist models by their mean face embedding, then confirm each merge by comparing faces.
+// Each shortlisted model is compared with the confirmed models of its cluster, largest first, and
+// merged into the first that matches; pairs that don't match are remembered across continuations.
+async function clusterModels(
+  runId: string,
+  supabase: any,
+  usage: AIUsageContext,
+  jobId: string,
+  isNearTimeout: () => boolean,
+  rejectedPairs: Set<string>
+): Promise<{ needsContinuation: boolean; rejectedPairs: string[] }> {
+  const { data: run } = await supabase
+    .from('face_scrape_runs')
+    .select('cluster_distance_threshold')
+    .eq('id', runId)
+    .single();
+  const threshold = run?.cluster_distance_threshold ?? DEFAULT_CLUSTER_DISTANCE_THRESHOLD;
 
-      // Small delay between comparisons
-      await new Promise(r => setTimeout(r, 100));
-    }
+  const { data, error: identitiesError } = await supabase
+    .from('face_identities')
+    .select('id, name, face_identity_images(scrape_image_id, is_ignored, view, scrape_image:face_scrape_images(source_url))')
+    .eq('scrape_run_id', runId)
+    .order('created_at');
 
-    // Update progress periodically (preserve full origin_context!)
-    if (jobId && i % 3 === 0) {
-      const percent = Math.round((i / totalModels) * 100);
-      await supabase
-        .from('pipeline_jobs')
-        .update({ 
-          progress_message: `Step 3/6: Matching faces... ${i}/${totalModels} (${percent}%)`,
-          origin_context: { scrape_run_id: runId, current_step: 3, step3Index: i, step3InnerIndex: 0 },
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', jobId);
+  if (identitiesError) throw identitiesError;
+  const identities = (data || []) as ClusterIdentityRow[];
+
+  const imagesByIdentity = new Map(
+    identities.map((identity) => [
+      identity.id,
+      (identity.face_identity_images || []).filter((ii) => !ii.is_ignored),
+    ])
+  );
+  const imageIds = [...imagesByIdentity.values()].flat().map((ii) => ii.scrape_image_id);
+
+  const embeddingByImage = new Map<string, number[]>();
+  const IN_CHUNK_SIZE = 200;
+  for (let i = 0; i < imageIds.length; i += IN_CHUNK_SIZE) {
+    const { data: detections } = await supabase
+      .from('face_detections')
+      .select('scrape_image_id, embedding')
+      .in('scrape_image_id', imageIds.slice(i, i + IN_CHUNK_SIZE))
+      .eq('embedding_model', FACE_EMBEDDING_ID)
+      .not('embedding', 'is', null);
+    for (const detection of detections || []) {
+      embeddingByImage.set(detection.scrape_image_id, detection.embedding);
     }
   }
 
-  console.log(`Merged ${mergeCount} duplicate models (immediate merge mode)`);
-  return { needsContinuation: false, processedOuterIndex: totalModels, processedInnerIndex: 0 };
-}
+  const groups = identities.map((identity) => ({
+    id: identity.id,
+    embeddings: imagesByIdentity
+      .get(identity.id)!
+      .map((ii) => embeddingByImage.get(ii.scrape_image_id))
+      .filter(Boolean) as number[][],
+  }));
+
+  // The face shown for a model in comparisons: an embedded front if there is one
+  const faceUrlById = new Map<string, string | undefined>(
+    identities.map((identity) => {
+      const embedded = imagesByIdentity
+        .get(identity.id)!
+        .filter((ii) => embeddingByImage.has(ii.scrape_image_id) && ii.scrape_image?.source_url);
+      const face = embedded.find((ii) => ii.view === 'front') || embedded[0];
+      return [identity.id, face?.scrape_image?.source_url];
+    })
+  );
 
-// Compare two face images using AI - STRICT matching to avoid false positives
-async function compareFaces(imageUrl1: string, imageUrl2: string, lovableKey?: string): Promise<boolean> {
-  if (!lovableKey) {
-    console.log('No LOVABLE_API_KEY found, skipping face comparison');
-    return false;
-  }
+  await supabase
+    .from('pipeline_jobs')
+    .update({
+      progress_message: `Step 3/6: Comparing faces across ${groups.length} models (distance ≤ ${threshold})...`,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', jobId);
 
-  // Use retry wrapper for transient errors
-  return withRetry(async () => {
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${lovableKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: `You are an expert at facial recognition. Compare these two photos of fashion models.
-
-ONLY answer "yes" if you are 100% CERTAIN they are the SAME PERSON based on DISTINCTIVE facial features:
-- Face shape and bone structure
-- Eye shape, color, and spacing
-- Nose shape and size
-- Mouth and lip shape
-- Eyebrows shape and thickness
-- Ears (if visible)
-- Unique features like moles, dimples, or facial structure
-
-Answer "no" if:
-- They are different people
-- You have ANY doubt or uncertainty
-- They merely look similar (same ethnicity, similar build, similar hair)
-- The images are too obscured, low quality, or at angles that prevent confident matching
-- You cannot see enough facial detail to be certain
-
-Be CONSERVATIVE. It is much worse to incorrectly merge different people than to miss a match.
-When in doubt, answer "no".
-
-Reply with ONLY "yes" or "no".`,
-              },
-              {
-                type: 'image_url',
-                image_url: { url: imageUrl1 },
-              },
-              {
-                type: 'image_url',
-                image_url: { url: imageUrl2 },
-              },
-            ],
-          },
-        ],
-        max_tokens: 10,
-      }),
-    });
+  const clusters = clusterFaceGroups(groups, threshold);
+  const namesById = new Map(identities.map((identity) => [identity.id, identity.name]));
+  const imageCountById = new Map(
+    identities.map((identity) => [identity.id, imagesByIdentity.get(identity.id)!.length])
+  );
+  const pairKey = (a: string, b: string) => (a < b ? `${a}:${b}` : `${b}:${a}`);
+  let mergeCount = 0;
+  let comparisonCount = 0;
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Face comparison API error:', response.status, errorText.substring(0, 200));
-      
-      // Throw for retryable errors
-      if (response.status === 502 || response.status === 503 || response.status === 429) {
-        throw new Error(`${response.status} - Retryable API error`);
+  for (const cluster of clusters) {
+    if (cluster.memberIds.length < 2) continue;
+    if (await checkJobCanceled(supabase, jobId)) return { needsContinuation: false, rejectedPairs: [] };
+
+    const [firstId, ...candidateIds] = [...cluster.memberIds].sort(
+      (a, b) => (imageCountById.get(b) || 0) - (imageCountById.get(a) || 0)
+    );
+    const targetIds = [firstId];
+
+    for (const candidateId of candidateIds) {
+      let mergedInto: string | null = null;
+
+      for (const targetId of targetIds) {
+        if (rejectedPairs.has(pairKey(targetId, candidateId))) continue;
+        const targetUrl = faceUrlById.get(targetId);
+        const candidateUrl = faceUrlById.get(candidateId);
+        if (!targetUrl || !candidateUrl) continue;
+
+        if (isNearTimeout()) {
+          console.log(`Timeout approaching in step 3, ${comparisonCount} face comparisons this worker`);
+          return { needsContinuation: true, rejectedPairs: [...rejectedPairs] };
+        }
+
+        comparisonCount++;
+        if (await compareFaces(targetUrl, candidateUrl, usage)) {
+          mergedInto = targetId;
+          break;
+        }
+        rejectedPairs.add(pairKey(targetId, candidateId));
+      }
+
+      if (mergedInto) {
+        console.log(
+          `MERGE: ${namesById.get(candidateId)} → ${namesById.get(mergedInto)} (cluster max distance ${cluster.maxMergeDistance.toFixed(3)})`
+        );
+        await mergeModels(mergedInto, candidateId, supabase);
+        mergeCount++;
+      } else {
+        targetIds.push(candidateId);
       }
-      return false;
     }
+  }
 
-    const data = await response.json();
-    const answer = data.choices?.[0]?.message?.content?.toLowerCase().trim() || 'no';
-    
-    console.log(`Face comparison result: "${answer}"`);
-    return answer.includes('yes');
-  }, 3, 1000).catch((err) => {
-    console.error('Face comparison failed after retries:', err);
-    return false;
-  });
+  console.log(
+    `Merged ${mergeCount} duplicate models after ${comparisonCount} face comparisons (threshold ${threshold})`
+  );
+  return { needsContinuation: false, rejectedPairs: [...rejectedPairs] };
 }
 
 // Merge two models: move all images from sourceId to targetId, then delete source
@@ -875,119 +925,67 @@ async function renumberModels(runId: string, supabase: any) {
   }
 }
 
-async function classifyGender(imageUrl: string, lovableKey?: string): Promise<string> {
-  if (!lovableKey) {
-    console.log('No LOVABLE_API_KEY found, skipping gender classification');
+async function classifyGender(imageUrl: string, usage: AIUsageContext, aiEnabled?: boolean): Promise<string> {
+  if (!aiEnabled) {
+    console.log('AI provider not configured, skipping gender classification');
     return 'unknown';
   }
 
-  // Use retry wrapper for transient errors
-  return withRetry(async () => {
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${lovableKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: 'Look at this fashion/clothing image. Is the model wearing the clothes a man or woman? Reply with just one word: "men" or "women". If you cannot determine, reply "unknown".',
-              },
-              {
-                type: 'image_url',
-                image_url: { url: imageUrl },
-              },
-            ],
-          },
-        ],
-        max_tokens: 10,
-      }),
+  try {
+    const result = await callAI({
+      model: CLASSIFY_MODEL,
+      parts: [
+        {
+          type: 'text',
+          text: 'Look at this fashion/clothing image. Is the model wearing the clothes a man or woman? Reply with just one word: "men" or "women". If you cannot determine, reply "unknown".',
+        },
+        { type: 'image', url: imageUrl },
+      ],
+      maxTokens: 10,
+      maxRetries: 2,
+      mock: { text: 'women' },
+      usage,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Gender classification API error:', response.status, errorText.substring(0, 200));
-      
-      // Throw for retryable errors
-      if (response.status === 502 || response.status === 503 || response.status === 429) {
-        throw new Error(`${response.status} - Retryable API error`);
-      }
-      return 'unknown';
-    }
-
-    const data = await response.json();
-    const answer = data.choices?.[0]?.message?.content?.toLowerCase().trim() || 'unknown';
-    
+    const answer = result.text?.toLowerCase().trim() || 'unknown';
     if (answer.includes('men') && !answer.includes('women')) return 'men';
     if (answer.includes('women') || answer.includes('woman')) return 'women';
     return 'unknown';
-  }, 3, 1000).catch((err) => {
+  } catch (err) {
     console.error('Gender classification failed after retries:', err);
     return 'unknown';
-  });
+  }
 }
 
-async function classifyView(imageUrl: string, lovableKey?: string): Promise<string> {
-  if (!lovableKey) {
-    console.log('No LOVABLE_API_KEY found, skipping view classification');
+async function classifyView(imageUrl: string, usage: AIUsageContext, aiEnabled?: boolean): Promise<string> {
+  if (!aiEnabled) {
+    console.log('AI provider not configured, skipping view classification');
     return 'unknown';
   }
 
-  // Use retry wrapper for transient errors
-  return withRetry(async () => {
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${lovableKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: 'Look at this fashion model image. From what angle is the model photographed? Reply with just one word: "front" (facing camera), "side" (profile view), or "back" (back to camera). If unclear, reply "unknown".',
-              },
-              {
-                type: 'image_url',
-                image_url: { url: imageUrl },
-              },
-            ],
-          },
-        ],
-        max_tokens: 10,
-      }),
+  try {
+    const result = await callAI({
+      model: CLASSIFY_MODEL,
+      parts: [
+        {
+          type: 'text',
+          text: 'Look at this fashion model image. From what angle is the model photographed? Reply with just one word: "front" (facing camera), "side" (profile view), or "back" (back to camera). If unclear, reply "unknown".',
+        },
+        { type: 'image', url: imageUrl },
+      ],
+      maxTokens: 10,
+      maxRetries: 2,
+      mock: { text: 'front' },
+      usage,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('View classification API error:', response.status, errorText.substring(0, 200));
-      
-      // Throw for retryable errors
-      if (response.status === 502 || response.status === 503 || response.status === 429) {
-        throw new Error(`${response.status} - Retryable API error`);
-      }
-      return 'unknown';
-    }
-
-    const data = await response.json();
-    const answer = data.choices?.[0]?.message?.content?.toLowerCase().trim() || 'unknown';
-    
+    const answer = result.text?.toLowerCase().trim() || 'unknown';
     if (answer.includes('front')) return 'front';
     if (answer.includes('side')) return 'side';
     if (answer.includes('back')) return 'back';
     return 'unknown';
-  }, 3, 1000).catch((err) => {
+  } catch (err) {
     console.error('View classification failed after retries:', err);
     return 'unknown';
-  });
+  }
 }
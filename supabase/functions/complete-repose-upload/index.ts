@@ -1,4 +1,5 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireCaller } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,6 +15,15 @@ Deno.serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { error: authError } = await requireCaller(req, {
+    functionName: 'complete-repose-upload',
+    corsHeaders,
+    serviceOnly: true,
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const { outputId } = await req.json();
 
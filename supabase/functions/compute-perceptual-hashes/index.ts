@@ -0,0 +1,105 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { computeDHashFromUrl, computeStoredImageDHash } from "../_shared/perceptual-hash.ts";
+import { requireCaller } from "../_shared/auth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Backfills perceptual_hash for outputs generated before hashing was added,
+// by paths that don't hash inline (4K rerenders, manual uploads), or whose
+// storage thumbnail couldn't be fetched at generation time.
+const OUTPUT_TABLES: Record<string, string> = {
+  repose_outputs: "result_url",
+  ai_apply_outputs: "stored_url",
+  face_application_outputs: "stored_url",
+};
+
+const DEFAULT_LIMIT = 25;
+const MAX_LIMIT = 100;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const { error: authError } = await requireCaller(req, {
+    functionName: "compute-perceptual-hashes",
+    corsHeaders,
+    roles: ["internal"],
+  });
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const { table, ids, limit } = await req.json();
+
+    const urlColumn = OUTPUT_TABLES[table];
+    if (!urlColumn) {
+      return new Response(
+        JSON.stringify({ error: `table must be one of ${Object.keys(OUTPUT_TABLES).join(", ")}` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const batchSize = Math.min(Math.max(1, Number(limit) || DEFAULT_LIMIT), MAX_LIMIT);
+
+    let query = supabase
+      .from(table)
+      .select(`id, ${urlColumn}`)
+      .is("perceptual_hash", null)
+      .not(urlColumn, "is", null)
+      .limit(batchSize);
+
+    if (Array.isArray(ids) && ids.length > 0) {
+      query = query.in("id", ids.slice(0, MAX_LIMIT));
+    }
+
+    const { data: rows, error } = await query;
+    if (error) throw error;
+
+    let hashed = 0;
+    let failed = 0;
+
+    // Sequential - the full-size fallback is memory heavy
+    for (const row of (rows || []) as Array<Record<string, string>>) {
+      const hash =
+        (await computeStoredImageDHash(row[urlColumn])) ?? (await computeDHashFromUrl(row[urlColumn]));
+      if (!hash) {
+        failed++;
+        continue;
+      }
+
+      const { error: updateError } = await supabase
+        .from(table)
+        .update({ perceptual_hash: hash })
+        .eq("id", row.id);
+
+      if (updateError) {
+        console.error(`[compute-perceptual-hashes] Update failed for ${row.id}:`, updateError);
+        failed++;
+      } else {
+        hashed++;
+      }
+    }
+
+    console.log(`[compute-perceptual-hashes] ${table}: hashed ${hashed}, failed ${failed}`);
+
+    return new Response(
+      JSON.stringify({ success: true, hashed, failed, remaining: (rows?.length || 0) === batchSize }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("[compute-perceptual-hashes] Error:", error);
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -1,4 +1,5 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireCaller } from "../_shared/auth.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -18,6 +19,15 @@ Deno.serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { error: authError } = await requireCaller(req, {
+    functionName: "convert-image",
+    corsHeaders,
+    roles: ["internal"],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const supabase = createClient(
       Deno.env.get("SUPABASE_URL")!,
@@ -1,5 +1,6 @@
 import "https://esm.sh/@supabase/functions-js/src/edge-runtime.d.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireCaller } from "../_shared/auth.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -13,6 +14,15 @@ Deno.serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { error: authError } = await requireCaller(req, {
+    functionName: "convert-tiff",
+    corsHeaders,
+    roles: ["internal"],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const body = await req.json();
     const { originalFilename, projectId, tiffStoragePath, fileBase64 } = body;
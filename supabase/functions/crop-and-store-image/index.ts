@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireCaller } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -23,6 +24,15 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { error: authError } = await requireCaller(req, {
+    functionName: 'crop-and-store-image',
+    corsHeaders,
+    roles: ['internal'],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const { imageUrl, cropX, cropY, cropWidth, cropHeight, cropId, targetSize, mode, usePixelCoords } = await req.json() as CropRequest;
 
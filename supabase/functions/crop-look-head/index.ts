@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireCaller, serviceHeaders } from "../_shared/auth.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -21,6 +22,15 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { error: authError } = await requireCaller(req, {
+    functionName: "crop-look-head",
+    corsHeaders,
+    serviceOnly: true,
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const { imageUrl, cropX, cropY, cropWidth, cropHeight, outputSize, imageId }: CropRequest = await req.json();
 
@@ -54,6 +64,7 @@ serve(async (req) => {
     console.log(`Passing pixel coords to crop-and-store-image: x=${cropX}, y=${cropY}, w=${cropWidth}, h=${cropHeight}`);
     
     const cropResponse = await supabase.functions.invoke("crop-and-store-image", {
+      headers: await serviceHeaders("crop-and-store-image"),
       body: {
         imageUrl,
         cropX,
@@ -1,4 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { callAI, getAIConfigError, AIProviderError, type AIContentPart } from "../_shared/ai-provider.ts";
+import { requireCaller } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,6 +13,17 @@ interface ReferenceImage {
   view_type: 'front' | 'back';
 }
 
+const DETECTION_MODEL = 'google/gemini-2.5-flash';
+
+// Centred head crop returned by the offline mock provider
+const MOCK_DETECTION = {
+  faceDetected: true,
+  faceBoundingBox: { x: 40, y: 6, width: 20, height: 14 },
+  suggestedCrop: { x: 28, y: 3, width: 44, height: 44 },
+  isBackView: false,
+  confidence: 1,
+};
+
 interface FaceDetectionResult {
   faceDetected: boolean;
   faceBoundingBox: {
@@ -34,6 +47,15 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { caller, error: authError } = await requireCaller(req, {
+    functionName: 'detect-face-ai',
+    corsHeaders,
+    roles: ['internal'],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const { imageUrl, aspectRatio = '1:1', referenceImages = [], baseUrl, corrections = [] } = await req.json();
 
@@ -44,9 +66,9 @@ serve(async (req) => {
       );
     }
 
-    const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
-    if (!LOVABLE_API_KEY) {
-      throw new Error('LOVABLE_API_KEY is not configured');
+    const configError = getAIConfigError(DETECTION_MODEL);
+    if (configError) {
+      throw new Error(configError);
     }
 
     console.log(`[detect-face-ai] Processing image: ${imageUrl.substring(0, 100)}...`);
@@ -68,7 +90,7 @@ serve(async (req) => {
     }
 
     // Build multi-image content for few-shot learning
-    const userContent: any[] = [];
+    const userContent: AIContentPart[] = [];
     
     if (useReferenceImages && referenceImages.length > 0) {
       userContent.push({
@@ -87,18 +109,12 @@ CRITICAL: The crop size should be approximately 35-45% of the original image wid
         const ref = selectedRefs[i];
         console.log(`[detect-face-ai] Reference ${i + 1}: ${ref.original_image_url.substring(0, 80)}...`);
 
-        userContent.push({
-          type: 'image_url',
-          image_url: { url: ref.original_image_url }
-        });
+        userContent.push({ type: 'image', url: ref.original_image_url });
         userContent.push({
           type: 'text',
           text: `Reference ${i + 1} - Original ${ref.view_type === 'back' ? 'BACK VIEW' : 'FRONT VIEW'} full-body image`
         });
-        userContent.push({
-          type: 'image_url',
-          image_url: { url: ref.cropped_image_url }
-        });
+        userContent.push({ type: 'image', url: ref.cropped_image_url });
         userContent.push({
           type: 'text',
           text: `Reference ${i + 1} - CORRECT crop (35-45% of original). Key measurements:
@@ -148,10 +164,7 @@ APPLY THESE PATTERNS: If corrections consistently show the user wants SMALLER/TI
     }
 
     // Add the target image to analyze
-    userContent.push({
-      type: 'image_url',
-      image_url: { url: imageUrl }
-    });
+    userContent.push({ type: 'image', url: imageUrl });
 
     // Enhanced system prompt with HARD SIZE CONSTRAINTS
     const systemPrompt = `You are an expert fashion photo cropper. Suggest TIGHT head-and-shoulders crops.
@@ -193,109 +206,89 @@ ASPECT RATIO: ${aspectRatio}
 Return coordinates as percentages (0-100) of original image dimensions.`;
 
     // Call Gemini 2.5 Flash with tool calling for structured output
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${LOVABLE_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt
-          },
-          {
-            role: 'user',
-            content: userContent
-          }
-        ],
-        tools: [
-          {
-            type: 'function',
-            function: {
-              name: 'report_face_detection',
-              description: 'Report face detection results with bounding box and suggested crop coordinates',
-              parameters: {
+    let toolArguments: Record<string, unknown> | null;
+    try {
+      const aiResult = await callAI({
+        model: DETECTION_MODEL,
+        systemPrompt,
+        parts: userContent,
+        tool: {
+          name: 'report_face_detection',
+          description: 'Report face detection results with bounding box and suggested crop coordinates',
+          parameters: {
+            type: 'object',
+            properties: {
+              faceDetected: {
+                type: 'boolean',
+                description: 'Whether a face was detected in the image (true for front-facing, false for back view)'
+              },
+              faceBoundingBox: {
+                type: 'object',
+                description: 'The bounding box of the detected face as percentages (0-100). Null if no face detected or back view.',
+                properties: {
+                  x: { type: 'number', description: 'Left edge as percentage of image width (0-100)' },
+                  y: { type: 'number', description: 'Top edge as percentage of image height (0-100)' },
+                  width: { type: 'number', description: 'Width as percentage of image width (0-100)' },
+                  height: { type: 'number', description: 'Height as percentage of image height (0-100)' }
+                },
+                required: ['x', 'y', 'width', 'height']
+              },
+              suggestedCrop: {
                 type: 'object',
+                description: 'The suggested TIGHT head-and-shoulders crop area as percentages (0-100).',
                 properties: {
-                  faceDetected: {
-                    type: 'boolean',
-                    description: 'Whether a face was detected in the image (true for front-facing, false for back view)'
-                  },
-                  faceBoundingBox: {
-                    type: 'object',
-                    description: 'The bounding box of the detected face as percentages (0-100). Null if no face detected or back view.',
-                    properties: {
-                      x: { type: 'number', description: 'Left edge as percentage of image width (0-100)' },
-                      y: { type: 'number', description: 'Top edge as percentage of image height (0-100)' },
-                      width: { type: 'number', description: 'Width as percentage of image width (0-100)' },
-                      height: { type: 'number', description: 'Height as percentage of image height (0-100)' }
-                    },
-                    required: ['x', 'y', 'width', 'height']
-                  },
-                  suggestedCrop: {
-                    type: 'object',
-                    description: 'The suggested TIGHT head-and-shoulders crop area as percentages (0-100).',
-                    properties: {
-                      x: { type: 'number', description: 'Left edge as percentage of image width (0-100)' },
-                      y: { type: 'number', description: 'Top edge as percentage of image height (0-100)' },
-                      width: { type: 'number', description: 'Width as percentage of image width (0-100)' },
-                      height: { type: 'number', description: 'Height as percentage of image height (0-100)' }
-                    },
-                    required: ['x', 'y', 'width', 'height']
-                  },
-                  isBackView: {
-                    type: 'boolean',
-                    description: 'Whether the person is facing away from the camera (back of head visible)'
-                  },
-                  confidence: {
-                    type: 'number',
-                    description: 'Confidence score from 0 to 1'
-                  }
+                  x: { type: 'number', description: 'Left edge as percentage of image width (0-100)' },
+                  y: { type: 'number', description: 'Top edge as percentage of image height (0-100)' },
+                  width: { type: 'number', description: 'Width as percentage of image width (0-100)' },
+                  height: { type: 'number', description: 'Height as percentage of image height (0-100)' }
                 },
-                required: ['faceDetected', 'suggestedCrop', 'isBackView', 'confidence'],
-                additionalProperties: false
+                required: ['x', 'y', 'width', 'height']
+              },
+              isBackView: {
+                type: 'boolean',
+                description: 'Whether the person is facing away from the camera (back of head visible)'
+              },
+              confidence: {
+                type: 'number',
+                description: 'Confidence score from 0 to 1'
               }
-            }
-          }
-        ],
-        tool_choice: { type: 'function', function: { name: 'report_face_detection' } }
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[detect-face-ai] AI API error: ${response.status}`, errorText);
+            },
+            required: ['faceDetected', 'suggestedCrop', 'isBackView', 'confidence'],
+            additionalProperties: false
+          },
+        },
+        mock: { toolArguments: MOCK_DETECTION },
+        usage: { functionName: 'detect-face-ai', userId: caller?.userId ?? null },
+      });
+      console.log(`[detect-face-ai] Raw response:`, JSON.stringify(aiResult.raw).substring(0, 500));
+      toolArguments = aiResult.toolArguments;
+    } catch (aiError) {
+      if (!(aiError instanceof AIProviderError)) throw aiError;
+      console.error(`[detect-face-ai] AI API error: ${aiError.status}`, aiError.body);
       
-      if (response.status === 429) {
+      if (aiError.isRateLimited) {
         return new Response(
           JSON.stringify({ error: 'Rate limits exceeded, please try again later' }),
           { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
-      if (response.status === 402) {
+      if (aiError.isCreditsExhausted) {
         return new Response(
           JSON.stringify({ error: 'Payment required, please add funds to your workspace' }),
           { status: 402, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
       
-      throw new Error(`AI API error: ${response.status}`);
+      throw new Error(`AI API error: ${aiError.status}`);
     }
 
-    const data = await response.json();
-    console.log(`[detect-face-ai] Raw response:`, JSON.stringify(data).substring(0, 500));
-
     // Extract tool call result
-    const toolCall = data.choices?.[0]?.message?.tool_calls?.[0];
-    if (!toolCall || toolCall.function.name !== 'report_face_detection') {
+    if (!toolArguments) {
       console.error('[detect-face-ai] No valid tool call in response');
       throw new Error('No valid detection result from AI');
     }
 
-    const result: FaceDetectionResult = JSON.parse(toolCall.function.arguments);
+    const result = toolArguments as unknown as FaceDetectionResult;
     console.log(`[detect-face-ai] Detection result:`, result);
 
     // Validate and clamp coordinates to 0-100 range
@@ -1,12 +1,14 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callAI, getAIConfigError, parseJsonFromText } from "../_shared/ai-provider.ts";
+import type { AIUsageContext } from "../_shared/ai-usage.ts";
+import { requireCaller } from "../_shared/auth.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-const AI_GATEWAY_URL = "https://ai.gateway.lovable.dev/v1/chat/completions";
+const DETECTION_MODEL = "google/gemini-2.5-flash";
 
 interface DetectionResult {
   imageUrl: string;
@@ -21,6 +23,15 @@ Deno.serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { caller, error: authError } = await requireCaller(req, {
+    functionName: "detect-view-type",
+    corsHeaders,
+    roles: ["internal"],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const { images, batchId, saveResults } = await req.json();
 
@@ -31,15 +42,22 @@ Deno.serve(async (req) => {
       );
     }
 
-    if (!LOVABLE_API_KEY) {
+    const configError = getAIConfigError(DETECTION_MODEL);
+    if (configError) {
       return new Response(
-        JSON.stringify({ error: "LOVABLE_API_KEY not configured" }),
+        JSON.stringify({ error: configError }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
     console.log(`[detect-view-type] Detecting view types for ${images.length} images`);
 
+    const usage: AIUsageContext = {
+      functionName: "detect-view-type",
+      batchId: batchId || null,
+      userId: caller?.userId ?? null,
+    };
+
     const results: DetectionResult[] = [];
 
     // Process images in batches of 5 to avoid rate limits
@@ -50,7 +68,7 @@ Deno.serve(async (req) => {
       const batchResults = await Promise.all(
         batch.map(async (img: { url: string; itemId: string }) => {
           try {
-            const result = await detectSingleImage(img.url, img.itemId);
+            const result = await detectSingleImage(img.url, img.itemId, usage);
             return result;
           } catch (error) {
             console.error(`[detect-view-type] Error detecting ${img.itemId}:`, error);
@@ -115,7 +133,7 @@ Deno.serve(async (req) => {
   }
 });
 
-async function detectSingleImage(imageUrl: string, itemId: string): Promise<DetectionResult> {
+async function detectSingleImage(imageUrl: string, itemId: string, usage: AIUsageContext): Promise<DetectionResult> {
   const prompt = `Analyze this fashion/clothing product image and determine if it shows the FRONT or BACK view of the model/product.
 
 FRONT view indicators:
@@ -135,50 +153,23 @@ Respond with a JSON object containing:
 
 Only respond with the JSON object, no other text.`;
 
-  const response = await fetch(AI_GATEWAY_URL, {
-    method: "POST",
-    headers: {
-      "Authorization": `Bearer ${LOVABLE_API_KEY}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: "google/gemini-2.5-flash",
-      messages: [
-        {
-          role: "user",
-          content: [
-            { type: "text", text: prompt },
-            { type: "image_url", image_url: { url: imageUrl } }
-          ]
-        }
-      ],
-      max_tokens: 200,
-    }),
+  const result = await callAI({
+    model: DETECTION_MODEL,
+    parts: [
+      { type: "text", text: prompt },
+      { type: "image", url: imageUrl },
+    ],
+    maxTokens: 200,
+    mock: { text: JSON.stringify({ viewType: "front", confidence: 1, reasoning: "Mock provider" }) },
+    usage,
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`AI gateway error: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices?.[0]?.message?.content || "";
+  const content = result.text || "";
   
   try {
-    // Extract JSON from response (handle markdown code blocks)
-    let jsonStr = content;
-    const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
-    if (jsonMatch) {
-      jsonStr = jsonMatch[1].trim();
-    } else {
-      // Try to find JSON object directly
-      const objMatch = content.match(/\{[\s\S]*\}/);
-      if (objMatch) {
-        jsonStr = objMatch[0];
-      }
-    }
-    
-    const parsed = JSON.parse(jsonStr);
+    const parsed = parseJsonFromText<{ viewType?: string; confidence?: number; reasoning?: string }>(content);
+    if (!parsed) throw new Error("No JSON in response");
+
     return {
       imageUrl,
       itemId,
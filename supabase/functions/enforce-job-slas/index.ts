@@ -0,0 +1,230 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireCaller } from "../_shared/auth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Scheduled SLA sweep for freelancer jobs. Sends a JOB_DUE_SOON reminder to the
+// assignee once a deadline is within the type's reminder window, and returns
+// IN_PROGRESS jobs that blew their first-submission SLA to OPEN (when the type
+// allows auto-reclaim), recording an audit_events entry for each. Deadline
+// rules mirror src/lib/jobSla.ts. Pass { dryRun: true } to report without
+// changing anything.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const DEFAULT_SLA = {
+  first_submission_hours: 24,
+  needs_changes_hours: 12,
+  reminder_lead_hours: 4,
+  auto_reclaim: true,
+};
+
+const DUE_DATE_STATUSES = ["OPEN", "ASSIGNED", "IN_PROGRESS", "SUBMITTED", "NEEDS_CHANGES"];
+
+interface SlaRow {
+  job_type: string;
+  first_submission_hours: number;
+  needs_changes_hours: number;
+  reminder_lead_hours: number;
+  auto_reclaim: boolean;
+}
+
+interface JobRow {
+  id: string;
+  type: string;
+  status: string;
+  title: string | null;
+  due_date: string | null;
+  started_at: string | null;
+  updated_at: string | null;
+  status_changed_at: string | null;
+  sla_reminder_sent_at: string | null;
+  assigned_user_id: string | null;
+  freelancer_identity_id: string | null;
+  total_active_ms: number | null;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+function getDeadlines(job: JobRow, sla: Omit<SlaRow, "job_type">) {
+  const clockStart = job.status_changed_at || job.started_at || job.updated_at;
+  const start = clockStart ? new Date(clockStart).getTime() : null;
+
+  const slaDeadline = start === null
+    ? null
+    : job.status === "IN_PROGRESS"
+      ? start + sla.first_submission_hours * HOUR_MS
+      : job.status === "NEEDS_CHANGES"
+        ? start + sla.needs_changes_hours * HOUR_MS
+        : null;
+
+  const dueDate = job.due_date && DUE_DATE_STATUSES.includes(job.status)
+    ? new Date(job.due_date).getTime()
+    : null;
+
+  const earliest = [slaDeadline, dueDate].filter((d): d is number => d !== null);
+  return {
+    slaDeadline,
+    earliest: earliest.length > 0 ? Math.min(...earliest) : null,
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const { error: authError } = await requireCaller(req, {
+    functionName: "enforce-job-slas",
+    corsHeaders,
+    serviceOnly: true,
+  });
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const dryRun = body?.dryRun === true;
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const [{ data: slaRows, error: slaError }, { data: jobs, error: jobsError }] = await Promise.all([
+      supabase
+        .from("job_type_slas")
+        .select("job_type, first_submission_hours, needs_changes_hours, reminder_lead_hours, auto_reclaim"),
+      supabase
+        .from("unified_jobs")
+        .select("id, type, status, title, due_date, started_at, updated_at, status_changed_at, sla_reminder_sent_at, assigned_user_id, freelancer_identity_id, total_active_ms")
+        .in("status", ["IN_PROGRESS", "NEEDS_CHANGES"]),
+    ]);
+
+    if (slaError) throw slaError;
+    if (jobsError) throw jobsError;
+
+    const slaByType = new Map(((slaRows || []) as SlaRow[]).map((s) => [s.job_type, s]));
+    const now = Date.now();
+    const reminded: string[] = [];
+    const reclaimed: string[] = [];
+
+    // Identity claims are notified through the account the identity signs in
+    // with. Identities without one yet keep identity-only rows, which move to
+    // the account once it is linked.
+    const identityIds = Array.from(new Set(
+      ((jobs || []) as JobRow[])
+        .filter((j) => !j.assigned_user_id && j.freelancer_identity_id)
+        .map((j) => j.freelancer_identity_id!)
+    ));
+    const identityUsers = new Map<string, string>();
+    if (identityIds.length > 0) {
+      const { data: identities, error: identitiesError } = await supabase
+        .from("freelancer_identities")
+        .select("id, user_id")
+        .in("id", identityIds)
+        .not("user_id", "is", null);
+      if (identitiesError) throw identitiesError;
+      for (const identity of identities || []) identityUsers.set(identity.id, identity.user_id);
+    }
+
+    const notify = async (job: JobRow, type: "JOB_DUE_SOON" | "JOB_RECLAIMED", metadata: Record<string, unknown>) => {
+      if (!job.assigned_user_id && !job.freelancer_identity_id) return;
+      const { error } = await supabase.from("notifications").insert({
+        user_id: job.assigned_user_id ?? identityUsers.get(job.freelancer_identity_id!) ?? null,
+        freelancer_identity_id: job.assigned_user_id ? null : job.freelancer_identity_id,
+        type,
+        job_id: job.id,
+        metadata,
+      });
+      if (error) console.error(`[enforce-job-slas] Failed to notify for job ${job.id}:`, error);
+    };
+
+    for (const job of (jobs || []) as JobRow[]) {
+      const sla = slaByType.get(job.type) || DEFAULT_SLA;
+      const { slaDeadline, earliest } = getDeadlines(job, sla);
+
+      // Reclaim: claimed but no submission within the SLA
+      if (job.status === "IN_PROGRESS" && sla.auto_reclaim && slaDeadline !== null && now >= slaDeadline) {
+        if (dryRun) {
+          reclaimed.push(job.id);
+          continue;
+        }
+
+        const sessionMs = job.started_at ? now - new Date(job.started_at).getTime() : 0;
+        const { data: updated, error: updateError } = await supabase
+          .from("unified_jobs")
+          .update({
+            status: "OPEN",
+            assigned_user_id: null,
+            freelancer_identity_id: null,
+            started_at: null,
+            total_active_ms: (job.total_active_ms || 0) + sessionMs,
+          })
+          .eq("id", job.id)
+          // Skip if the job moved on since we read it
+          .eq("status", "IN_PROGRESS")
+          .select("id");
+
+        if (updateError || !updated || updated.length === 0) {
+          console.warn(`[enforce-job-slas] Could not reclaim job ${job.id}:`, updateError);
+          continue;
+        }
+        reclaimed.push(job.id);
+
+        await supabase.from("audit_events").insert({
+          action: "job_reclaimed",
+          job_id: job.id,
+          user_id: job.assigned_user_id,
+          metadata: {
+            reason: "sla_breach",
+            sla_hours: sla.first_submission_hours,
+            deadline: new Date(slaDeadline).toISOString(),
+            freelancer_identity_id: job.freelancer_identity_id,
+            time_spent_ms: sessionMs,
+            timestamp: new Date(now).toISOString(),
+          },
+        });
+
+        await notify(job, "JOB_RECLAIMED", { deadline: new Date(slaDeadline).toISOString() });
+        console.log(`[enforce-job-slas] Reclaimed job ${job.id}`);
+        continue;
+      }
+
+      // Reminder: once per status, inside the lead window before the earliest deadline
+      if (
+        earliest !== null &&
+        !job.sla_reminder_sent_at &&
+        now >= earliest - sla.reminder_lead_hours * HOUR_MS
+      ) {
+        reminded.push(job.id);
+        if (dryRun) continue;
+
+        await notify(job, "JOB_DUE_SOON", {
+          deadline: new Date(earliest).toISOString(),
+          overdue: now >= earliest,
+        });
+        await supabase
+          .from("unified_jobs")
+          .update({ sla_reminder_sent_at: new Date(now).toISOString() })
+          .eq("id", job.id);
+      }
+    }
+
+    console.log(`[enforce-job-slas] Checked ${jobs?.length || 0} jobs: ${reminded.length} reminded, ${reclaimed.length} reclaimed${dryRun ? " (dry run)" : ""}`);
+
+    return jsonResponse({ success: true, dryRun, reminded, reclaimed });
+  } catch (error: unknown) {
+    console.error("[enforce-job-slas] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: message }, 500);
+  }
+});
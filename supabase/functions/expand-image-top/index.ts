@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { Image } from "https://deno.land/x/imagescript@1.3.0/mod.ts";
+import { requireCaller } from "../_shared/auth.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -19,6 +20,15 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { error: authError } = await requireCaller(req, {
+    functionName: "expand-image-top",
+    corsHeaders,
+    roles: ["internal"],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const { imageUrl, imageId, paddingPercent = 10 } = (await req.json()) as ExpandRequest;
 
@@ -0,0 +1,251 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Redeems a freelancer invite (token link + optional PIN) for a real account.
+// Ensures an auth user for the invite email with the freelancer role (emails of
+// staff or client accounts are refused), binds a freelancer identity to it
+// (the invite's identity for legacy name-only freelancers, otherwise a new
+// one), marks the invite used and returns a one-time token hash the client
+// exchanges for a session via verifyOtp.
+//
+// { action: "inspect", token } reports what the join form needs to ask for.
+// { action: "redeem", token, pin?, email?, firstName?, lastName? } signs in.
+
+// Wrong PINs allowed before the invite is locked and must be reissued
+const MAX_PIN_ATTEMPTS = 5;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+interface InviteRow {
+  id: string;
+  role: string;
+  email: string | null;
+  pin_code: string | null;
+  expires_at: string;
+  used_at: string | null;
+  freelancer_identity_id: string | null;
+  failed_pin_attempts: number;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+function getInviteProblem(invite: InviteRow | null): string | null {
+  if (!invite || invite.role !== "freelancer") return "This invite link is not valid";
+  if (invite.used_at) return "This invite has already been used. Sign in with your email instead.";
+  if (new Date(invite.expires_at).getTime() <= Date.now()) return "This invite has expired";
+  if (invite.failed_pin_attempts >= MAX_PIN_ATTEMPTS) {
+    return "Too many incorrect PIN attempts. Ask for a new invite.";
+  }
+  return null;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { action = "redeem", token, pin, email, firstName, lastName } = await req.json();
+
+    if (!token) {
+      return jsonResponse({ error: "Invite token is required" }, 400);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const { data: inviteData, error: inviteError } = await supabase
+      .from("invites")
+      .select("id, role, email, pin_code, expires_at, used_at, freelancer_identity_id, failed_pin_attempts")
+      .eq("token", token)
+      .maybeSingle();
+
+    if (inviteError) throw inviteError;
+
+    const invite = inviteData as InviteRow | null;
+    const problem = getInviteProblem(invite);
+    if (problem || !invite) {
+      return jsonResponse({ valid: false, error: problem });
+    }
+
+    let identity: { id: string; display_name: string | null; user_id: string | null } | null = null;
+    if (invite.freelancer_identity_id) {
+      const { data } = await supabase
+        .from("freelancer_identities")
+        .select("id, display_name, user_id")
+        .eq("id", invite.freelancer_identity_id)
+        .maybeSingle();
+      identity = data;
+    }
+
+    if (action === "inspect") {
+      return jsonResponse({
+        valid: true,
+        requiresPin: !!invite.pin_code,
+        requiresEmail: !invite.email,
+        requiresName: !identity,
+        email: invite.email,
+        identityName: identity?.display_name ?? null,
+      });
+    }
+
+    // PIN check before anything is created. Compared and counted in one
+    // statement so parallel guesses can't slip past the limit.
+    if (invite.pin_code) {
+      const { data: pinChecks, error: pinError } = await supabase.rpc("check_invite_pin", {
+        p_invite_id: invite.id,
+        p_pin: String(pin ?? "").trim(),
+        p_max_attempts: MAX_PIN_ATTEMPTS,
+      });
+
+      if (pinError) throw pinError;
+      const pinCheck = pinChecks?.[0];
+      if (!pinCheck) {
+        return jsonResponse({ valid: false, error: "Too many incorrect PIN attempts. Ask for a new invite." });
+      }
+      if (!pinCheck.valid) {
+        console.log(`[freelancer-login] Wrong PIN for invite ${invite.id} (${pinCheck.failed_pin_attempts}/${MAX_PIN_ATTEMPTS})`);
+        return jsonResponse({
+          valid: false,
+          error: "Incorrect PIN",
+          attemptsRemaining: Math.max(0, MAX_PIN_ATTEMPTS - pinCheck.failed_pin_attempts),
+        });
+      }
+    }
+
+    const accountEmail = String(invite.email || email || "").trim().toLowerCase();
+    if (!EMAIL_PATTERN.test(accountEmail)) {
+      return jsonResponse({ valid: false, error: "Please enter a valid email address" });
+    }
+
+    // Find or create the account
+    const { data: existingUser, error: userError } = await supabase
+      .from("users")
+      .select("id")
+      .eq("email", accountEmail)
+      .maybeSingle();
+
+    if (userError) throw userError;
+
+    // Only an invite addressed to an email may sign into an existing account,
+    // otherwise the invitee could take over any account by typing its email
+    if (existingUser && !invite.email) {
+      return jsonResponse({
+        valid: false,
+        error: "An account already exists for this email. Sign in with your email instead.",
+      });
+    }
+
+    const { data: roles, error: rolesError } = existingUser
+      ? await supabase.from("user_roles").select("role").eq("user_id", existingUser.id)
+      : { data: [], error: null };
+
+    if (rolesError) throw rolesError;
+
+    // A freelancer invite must never sign someone into a staff or client account
+    if (roles?.some((r) => r.role !== "freelancer")) {
+      console.warn(`[freelancer-login] Invite ${invite.id} refused for non-freelancer account ${existingUser?.id}`);
+      return jsonResponse({
+        valid: false,
+        error: "This email already has a non-freelancer account and can't be used for a freelancer invite.",
+      });
+    }
+
+    let userId = existingUser?.id as string | undefined;
+    const displayName = identity?.display_name || `${firstName ?? ""} ${lastName ?? ""}`.trim();
+
+    if (!userId) {
+      const { data: created, error: createError } = await supabase.auth.admin.createUser({
+        email: accountEmail,
+        email_confirm: true,
+        user_metadata: { display_name: displayName || null, role: "freelancer" },
+      });
+
+      if (createError) throw createError;
+      userId = created.user.id;
+      console.log(`[freelancer-login] Created account ${userId}`);
+    }
+
+    if (!roles || roles.length === 0) {
+      const { error: roleError } = await supabase
+        .from("user_roles")
+        .insert({ user_id: userId, role: "freelancer" });
+
+      if (roleError) throw roleError;
+    }
+
+    // Bind the identity to the account
+    const { data: ownIdentity } = await supabase
+      .from("freelancer_identities")
+      .select("id")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (identity) {
+      if (identity.user_id && identity.user_id !== userId) {
+        return jsonResponse({ valid: false, error: "This freelancer profile is already linked to another account" });
+      }
+      if (ownIdentity && ownIdentity.id !== identity.id) {
+        return jsonResponse({ valid: false, error: "This email is already linked to a different freelancer profile" });
+      }
+      if (!identity.user_id) {
+        const { error: linkError } = await supabase
+          .from("freelancer_identities")
+          .update({ user_id: userId, linked_at: new Date().toISOString() })
+          .eq("id", identity.id)
+          .is("user_id", null);
+
+        if (linkError) throw linkError;
+        console.log(`[freelancer-login] Linked identity ${identity.id} to ${userId}`);
+      }
+    } else if (!ownIdentity) {
+      if (!String(firstName ?? "").trim() || !String(lastName ?? "").trim()) {
+        return jsonResponse({ valid: false, error: "First and last name are required" });
+      }
+
+      const { error: identityError } = await supabase
+        .from("freelancer_identities")
+        .insert({
+          first_name: String(firstName).trim(),
+          last_name: String(lastName).trim(),
+          user_id: userId,
+          linked_at: new Date().toISOString(),
+        });
+
+      if (identityError) throw identityError;
+    }
+
+    const { data: link, error: linkError } = await supabase.auth.admin.generateLink({
+      type: "magiclink",
+      email: accountEmail,
+    });
+
+    if (linkError) throw linkError;
+
+    await supabase
+      .from("invites")
+      .update({ used_at: new Date().toISOString() })
+      .eq("id", invite.id);
+
+    console.log(`[freelancer-login] Invite ${invite.id} redeemed by ${userId}`);
+
+    return jsonResponse({
+      valid: true,
+      email: accountEmail,
+      tokenHash: link.properties.hashed_token,
+    });
+  } catch (error: unknown) {
+    console.error("[freelancer-login] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -1,6 +1,10 @@
 // Version: 2026-01-19-v2 - Accept views array and jobId from client
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callAI, getAIConfigError, AIProviderError } from "../_shared/ai-provider.ts";
+import { computeStoredImageDHash } from "../_shared/perceptual-hash.ts";
+import { resolvePrompt, renderPrompt } from "../_shared/prompt-templates.ts";
+import { requireCaller, serviceHeaders } from "../_shared/auth.ts";
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
@@ -23,6 +27,15 @@ const VIEW_PROMPTS: Record<string, string> = {
 
 const STUDIO_LIGHTING_PROMPT = `Model shot in soft, high-key studio lighting. Background is clean white with no visible texture. Light is diffused and even, creating minimal shadows. Key light is centred and slightly above eye level, producing gentle falloff on the cheeks and a natural, matte skin appearance. No harsh rim light. Overall look is crisp, neutral, and modern, similar to premium fashion e-commerce photography. Colours are true-to-life with subtle contrast.`;
 
+// Used when the prompt library has no active AI Apply version
+const DEFAULT_AI_APPLY_PROMPT = `Recreate image 1 with "{outfitDescription}", keep the crop, pose and clothing exactly the same but put the head of image 2 on it.
+
+{viewPrompt}
+
+Keep face and lighting consistent from image 3.
+
+${STUDIO_LIGHTING_PROMPT}`;
+
 interface RequestBody {
   projectId: string;
   lookId: string;
@@ -34,6 +47,7 @@ interface RequestBody {
   model?: string;
   strictness?: 'high' | 'medium' | 'low';
   prompt?: string; // Custom prompt override
+  promptVersionId?: string; // Prompt library version; defaults to the active one
 }
 
 // Helper to upload base64 image to storage
@@ -86,7 +100,7 @@ async function uploadToStorage(
 async function generateOutfitDescription(
   imageUrl: string,
   supabaseUrl: string,
-  supabaseKey: string
+  userId: string | null
 ): Promise<string> {
   try {
     console.log(`[AI Apply] Generating outfit description for image...`);
@@ -97,7 +111,7 @@ async function generateOutfitDescription(
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${supabaseKey}`,
+          ...(await serviceHeaders('generate-outfit-description', userId)),
         },
         body: JSON.stringify({ imageUrl }),
       }
@@ -123,14 +137,23 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { caller, error: authError } = await requireCaller(req, {
+    functionName: "generate-ai-apply",
+    corsHeaders,
+    roles: ["internal"],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const lovableApiKey = Deno.env.get("LOVABLE_API_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    if (!lovableApiKey) {
-      throw new Error("LOVABLE_API_KEY is not configured");
+    const configError = getAIConfigError();
+    if (configError) {
+      throw new Error(configError);
     }
 
     const body: RequestBody = await req.json();
@@ -144,9 +167,12 @@ serve(async (req) => {
       attemptsPerView = 4,
       model = 'google/gemini-2.5-flash-image-preview',
       strictness = 'high',
-      prompt: customPrompt
+      prompt: customPrompt,
+      promptVersionId,
     } = body;
 
+    const resolvedPrompt = await resolvePrompt(supabase, 'ai_apply', DEFAULT_AI_APPLY_PROMPT, promptVersionId);
+
     // Log which views were requested
     const requestedViews = views?.length ? views.join(',') : (view || 'all');
     console.log(`[AI Apply] Starting ${type} for look ${lookId}, views: [${requestedViews}], model: ${model}, clientJobId: ${clientJobId || 'none'}`);
@@ -154,6 +180,7 @@ serve(async (req) => {
     // Use client-provided jobId if available, otherwise get/create job
     let jobId: string;
     let digitalTalentId: string | null = null;
+    let pipelineJobId: string | null = null;
 
     if (clientJobId) {
       // Client provided a job ID - use it directly
@@ -163,11 +190,12 @@ serve(async (req) => {
       // Get the job to retrieve digitalTalentId
       const { data: existingJob } = await supabase
         .from('ai_apply_jobs')
-        .select('digital_talent_id')
+        .select('digital_talent_id, pipeline_job_id')
         .eq('id', jobId)
         .single();
       
       digitalTalentId = existingJob?.digital_talent_id || null;
+      pipelineJobId = existingJob?.pipeline_job_id || null;
       
       // Update job status to running
       await supabase
@@ -214,6 +242,7 @@ serve(async (req) => {
       } else {
         jobId = existingJob.id;
         digitalTalentId = existingJob.digital_talent_id;
+        pipelineJobId = existingJob.pipeline_job_id;
         // Update job status
         await supabase
           .from('ai_apply_jobs')
@@ -427,7 +456,8 @@ serve(async (req) => {
           body_image_id: bodyImage.id,
           body_image_url: cropImageUrl,
           status: 'pending',
-          prompt_version: 'v4-3-image-dynamic',
+          prompt_version: customPrompt ? 'custom' : resolvedPrompt.version || 'v4-3-image-dynamic',
+          prompt_version_id: customPrompt ? null : resolvedPrompt.versionId,
         });
       }
 
@@ -447,7 +477,7 @@ serve(async (req) => {
 
       // Generate outfit description from Image 1 (the crop)
       // This only needs to be done once per view, not per attempt
-      const outfitDescription = await generateOutfitDescription(cropImageUrl, supabaseUrl, supabaseKey);
+      const outfitDescription = await generateOutfitDescription(cropImageUrl, supabaseUrl, caller?.userId ?? null);
 
       // Process ONLY ONE pending output at a time to avoid timeout
       // The UI will poll and re-invoke for remaining outputs
@@ -486,53 +516,44 @@ Keep face and lighting consistent from image 3.
 
 ${STUDIO_LIGHTING_PROMPT}`;
         } else {
-          finalPrompt = `Recreate image 1 with "${outfitDescription}", keep the crop, pose and clothing exactly the same but put the head of image 2 on it.
-
-${viewPrompt}
-
-Keep face and lighting consistent from image 3.
-
-${STUDIO_LIGHTING_PROMPT}`;
+          finalPrompt = renderPrompt(resolvedPrompt.template, {
+            outfitDescription,
+            viewPrompt,
+            view: currentView,
+          });
         }
 
         console.log(`[AI Apply] Generating output ${output.id} for ${currentView} attempt ${output.attempt_index}`);
 
-        const aiResponse = await fetch(
-          "https://ai.gateway.lovable.dev/v1/chat/completions",
-          {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${lovableApiKey}`,
+        let aiResult;
+        try {
+          aiResult = await callAI({
+            model,
+            parts: [
+              { type: 'text', text: finalPrompt },
+              { type: 'image', url: cropImageUrl },
+              { type: 'image', url: pairedFaceUrl },
+              { type: 'image', url: talentPortraitUrl },
+            ],
+            wantImage: true,
+            timeoutMs: 150000,
+            usage: {
+              functionName: 'generate-ai-apply',
+              pipelineJobId,
+              userId: caller?.userId ?? null,
+              metadata: { faceApplicationProjectId: projectId, lookId, aiApplyJobId: jobId, outputId: output.id },
             },
-            body: JSON.stringify({
-              model: model,
-              messages: [
-                {
-                  role: 'user',
-                  content: [
-                    { type: 'text', text: finalPrompt },
-                    { type: 'image_url', image_url: { url: cropImageUrl } },
-                    { type: 'image_url', image_url: { url: pairedFaceUrl } },
-                    { type: 'image_url', image_url: { url: talentPortraitUrl } },
-                  ],
-                },
-              ],
-              modalities: ['image', 'text'],
-            }),
+          });
+        } catch (aiError) {
+          if (aiError instanceof AIProviderError && aiError.status !== null) {
+            console.error(`[AI Apply] AI API error: ${aiError.status}`, aiError.body);
+            throw new Error(`AI generation failed: ${aiError.status} - ${aiError.body}`);
           }
-        );
-
-        if (!aiResponse.ok) {
-          const errorText = await aiResponse.text();
-          console.error(`[AI Apply] AI API error: ${aiResponse.status}`, errorText);
-          throw new Error(`AI generation failed: ${aiResponse.status} - ${errorText}`);
+          throw aiError;
         }
-
-        const aiResult = await aiResponse.json();
         console.log(`[AI Apply] AI response received for ${output.id}`);
 
-        const imageData = aiResult.choices?.[0]?.message?.images?.[0]?.image_url?.url;
+        const imageData = aiResult.images[0];
 
         if (imageData) {
           const storedUrl = await uploadToStorage(
@@ -544,12 +565,16 @@ ${STUDIO_LIGHTING_PROMPT}`;
           );
 
           if (storedUrl) {
+            const perceptualHash = await computeStoredImageDHash(storedUrl);
             await supabase
               .from('ai_apply_outputs')
               .update({
                 stored_url: storedUrl,
                 status: 'completed',
                 final_prompt: finalPrompt,
+                perceptual_hash: perceptualHash,
+                prompt_version: customPrompt ? 'custom' : resolvedPrompt.version || 'v4-3-image-dynamic',
+                prompt_version_id: customPrompt ? null : resolvedPrompt.versionId,
               })
               .eq('id', output.id);
 
@@ -558,7 +583,7 @@ ${STUDIO_LIGHTING_PROMPT}`;
             throw new Error('Failed to upload image to storage');
           }
         } else {
-          console.error(`[AI Apply] No image in response:`, JSON.stringify(aiResult).slice(0, 500));
+          console.error(`[AI Apply] No image in response:`, JSON.stringify(aiResult.raw).slice(0, 500));
           throw new Error('No image in AI response');
         }
 
@@ -1,11 +1,16 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callAI, AIProviderError } from "../_shared/ai-provider.ts";
+import { resolvePrompt } from "../_shared/prompt-templates.ts";
+import type { AIUsageContext } from "../_shared/ai-usage.ts";
+import { requireCaller } from "../_shared/auth.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Used when the prompt library has no active clay version
 const CLAY_PROMPT = `Convert this photo into a stylised 3D clay model render. Grey matte material, subtle polygonal mesh shading, simplified anatomy, smooth sculpted surfaces. Neutral studio lighting, no background texture. Replicate the exact pose and body orientation from the reference image. Maintain the proportions and overall silhouette exactly as in the original photo.`;
 
 const REINFORCED_CLAY_PROMPT = `CRITICAL: Convert this photo into a COMPLETELY GREY 3D clay model render. 
@@ -38,8 +43,17 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { caller, error: authError } = await requireCaller(req, {
+    functionName: "generate-clay-single",
+    corsHeaders,
+    roles: ["internal"],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
-    const { imageId, model, jobId } = await req.json();
+    const { imageId, model, jobId, pipelineJobId } = await req.json();
     const selectedModel = model || "google/gemini-2.5-flash-image-preview";
 
     if (!imageId) {
@@ -51,7 +65,6 @@ serve(async (req) => {
 
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const lovableApiKey = Deno.env.get("LOVABLE_API_KEY")!;
 
     const supabase = createClient(supabaseUrl, supabaseKey);
 
@@ -60,7 +73,7 @@ serve(async (req) => {
     // Get the product image
     const { data: productImage, error: fetchError } = await supabase
       .from("product_images")
-      .select("*")
+      .select("*, products(brand_id)")
       .eq("id", imageId)
       .single();
 
@@ -101,8 +114,18 @@ serve(async (req) => {
       );
     }
 
+    const usage: AIUsageContext = {
+      functionName: "generate-clay-single",
+      brandId: productImage.products?.brand_id ?? null,
+      pipelineJobId: pipelineJobId || null,
+      userId: caller?.userId ?? null,
+      metadata: { imageId },
+    };
+
     const MAX_RETRIES = 4;
+    const clayPrompt = await resolvePrompt(supabase, "clay", CLAY_PROMPT);
     let generatedImageUrl: string | null = null;
+    let generatedPromptVersionId: string | null = null;
     let isValid = false;
     let bestImageUrl: string | null = null; // Store any generated image as fallback
 
@@ -112,7 +135,12 @@ serve(async (req) => {
       console.log(`[${imageId}] Attempt ${attempt}/${MAX_RETRIES} (reinforced: ${useReinforced})`);
 
       try {
-        const attemptUrl = await generateClayImage(imageUrl, lovableApiKey, selectedModel, useReinforced);
+        const attemptUrl = await generateClayImage(
+          imageUrl,
+          selectedModel,
+          useReinforced ? REINFORCED_CLAY_PROMPT : clayPrompt.template,
+          usage
+        );
 
         if (!attemptUrl) {
           console.error(`[${imageId}] No image returned on attempt ${attempt}`);
@@ -126,10 +154,12 @@ serve(async (req) => {
           bestImageUrl = attemptUrl;
         }
         generatedImageUrl = attemptUrl;
+        // The reinforced prompt is built in, not a library version
+        generatedPromptVersionId = useReinforced ? null : clayPrompt.versionId;
 
         // Validate the generated image
         console.log(`[${imageId}] Validating generated image...`);
-        isValid = await validateClayImage(attemptUrl, lovableApiKey);
+        isValid = await validateClayImage(attemptUrl, usage);
 
         if (isValid) {
           generatedImageUrl = attemptUrl;
@@ -203,6 +233,7 @@ serve(async (req) => {
       .upsert({
         product_image_id: imageId,
         stored_url: publicUrl,
+        prompt_version_id: generatedPromptVersionId,
       }, { onConflict: 'product_image_id' });
 
     if (insertError) {
@@ -253,35 +284,19 @@ serve(async (req) => {
   }
 });
 
-async function validateClayImage(imageUrl: string, lovableApiKey: string): Promise<boolean> {
+async function validateClayImage(imageUrl: string, usage: AIUsageContext): Promise<boolean> {
   try {
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${lovableApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          {
-            role: "user",
-            content: [
-              { type: "text", text: VALIDATION_PROMPT },
-              { type: "image_url", image_url: { url: imageUrl } },
-            ],
-          },
-        ],
-      }),
+    const validation = await callAI({
+      model: "google/gemini-2.5-flash",
+      parts: [
+        { type: "text", text: VALIDATION_PROMPT },
+        { type: "image", url: imageUrl },
+      ],
+      mock: { text: "VALID" },
+      usage,
     });
 
-    if (!response.ok) {
-      console.error("Validation API error:", response.status);
-      return true; // Assume valid if validation fails
-    }
-
-    const data = await response.json();
-    const result = data.choices?.[0]?.message?.content || "";
+    const result = validation.text || "";
     console.log(`Validation result: ${result}`);
 
     return result.toUpperCase().startsWith("VALID");
@@ -291,40 +306,26 @@ async function validateClayImage(imageUrl: string, lovableApiKey: string): Promi
   }
 }
 
-async function generateClayImage(imageUrl: string, lovableApiKey: string, model: string, useReinforced: boolean): Promise<string | null> {
-  const prompt = useReinforced ? REINFORCED_CLAY_PROMPT : CLAY_PROMPT;
-
-  const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${lovableApiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: model,
-      messages: [
-        {
-          role: "user",
-          content: [
-            { type: "text", text: prompt },
-            { type: "image_url", image_url: { url: imageUrl } },
-          ],
-        },
+async function generateClayImage(imageUrl: string, model: string, prompt: string, usage: AIUsageContext): Promise<string | null> {
+  try {
+    const result = await callAI({
+      model,
+      parts: [
+        { type: "text", text: prompt },
+        { type: "image", url: imageUrl },
       ],
-      modalities: ["image", "text"],
-    }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`AI API error:`, response.status, errorText);
+      wantImage: true,
+      timeoutMs: 150000,
+      usage,
+    });
+    return result.images[0] || null;
+  } catch (error) {
+    if (!(error instanceof AIProviderError) || error.status === null) throw error;
+    console.error(`AI API error:`, error.status, error.body);
 
-    if (response.status === 429) {
+    if (error.isRateLimited) {
       throw new Error("RATE_LIMITED");
     }
     return null;
   }
-
-  const data = await response.json();
-  return data.choices?.[0]?.message?.images?.[0]?.image_url?.url || null;
 }
@@ -1,11 +1,16 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callAI, AIProviderError } from "../_shared/ai-provider.ts";
+import type { AIUsageContext } from "../_shared/ai-usage.ts";
+import { resolvePrompt } from "../_shared/prompt-templates.ts";
+import { requireCaller } from '../_shared/auth.ts';
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Used when the prompt library has no active clay version
 const CLAY_PROMPT = `Convert this photo into a stylised 3D clay model render. Grey matte material, subtle polygonal mesh shading, simplified anatomy, smooth sculpted surfaces. Neutral studio lighting, no background texture. Replicate the exact pose and body orientation from the reference image. Maintain the proportions and overall silhouette exactly as in the original photo.`;
 
 const REINFORCED_CLAY_PROMPT = `CRITICAL: Convert this photo into a COMPLETELY GREY 3D clay model render. 
@@ -33,42 +38,6 @@ Respond with ONLY "VALID" or "INVALID" followed by a brief reason.
 Example: "VALID - Image is a monochrome grey clay sculpture"
 Example: "INVALID - Image contains colored clothing and skin tones"`;
 
-// Helper function to verify authentication
-async function verifyAuth(req: Request): Promise<{ userId: string | null; error: Response | null }> {
-  const authHeader = req.headers.get('Authorization');
-  if (!authHeader?.startsWith('Bearer ')) {
-    return {
-      userId: null,
-      error: new Response(
-        JSON.stringify({ error: 'Unauthorized' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    };
-  }
-
-  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-  const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
-  
-  const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-    global: { headers: { Authorization: authHeader } }
-  });
-
-  const token = authHeader.replace('Bearer ', '');
-  const { data, error } = await supabase.auth.getClaims(token);
-  
-  if (error || !data?.claims) {
-    return {
-      userId: null,
-      error: new Response(
-        JSON.stringify({ error: 'Unauthorized' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    };
-  }
-
-  return { userId: data.claims.sub as string, error: null };
-}
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -76,11 +45,15 @@ serve(async (req) => {
 
   try {
     // Verify authentication
-    const { userId, error: authError } = await verifyAuth(req);
+    const { caller, error: authError } = await requireCaller(req, {
+      functionName: 'generate-clay',
+      corsHeaders,
+      roles: ['internal'],
+    });
     if (authError) {
       return authError;
     }
-    console.log(`Authenticated user: ${userId}`);
+    console.log(`Authenticated caller: ${caller?.userId ?? 'service'}`);
 
     const { brandId, imageIds, model } = await req.json();
     const selectedModel = model || "google/gemini-2.5-flash-image-preview";
@@ -94,7 +67,6 @@ serve(async (req) => {
 
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const lovableApiKey = Deno.env.get("LOVABLE_API_KEY")!;
 
     const supabase = createClient(supabaseUrl, supabaseKey);
 
@@ -121,9 +93,16 @@ serve(async (req) => {
 
     console.log(`Created job ${job.id} for ${imageIds.length} images using model ${selectedModel}`);
 
+    const usage: AIUsageContext = {
+      functionName: "generate-clay",
+      brandId,
+      userId: caller?.userId ?? null,
+      metadata: { jobId: job.id },
+    };
+
     // Process images in background
-    (globalThis as any).EdgeRuntime?.waitUntil?.(processImages(supabase, job.id, imageIds, lovableApiKey, selectedModel)) 
-      ?? processImages(supabase, job.id, imageIds, lovableApiKey, selectedModel);
+    (globalThis as any).EdgeRuntime?.waitUntil?.(processImages(supabase, job.id, imageIds, selectedModel, usage)) 
+      ?? processImages(supabase, job.id, imageIds, selectedModel, usage);
 
     return new Response(
       JSON.stringify({ 
@@ -143,35 +122,19 @@ serve(async (req) => {
   }
 });
 
-async function validateClayImage(imageUrl: string, lovableApiKey: string): Promise<boolean> {
+async function validateClayImage(imageUrl: string, usage: AIUsageContext): Promise<boolean> {
   try {
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${lovableApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          {
-            role: "user",
-            content: [
-              { type: "text", text: VALIDATION_PROMPT },
-              { type: "image_url", image_url: { url: imageUrl } },
-            ],
-          },
-        ],
-      }),
+    const validation = await callAI({
+      model: "google/gemini-2.5-flash",
+      parts: [
+        { type: "text", text: VALIDATION_PROMPT },
+        { type: "image", url: imageUrl },
+      ],
+      mock: { text: "VALID" },
+      usage,
     });
 
-    if (!response.ok) {
-      console.error("Validation API error:", response.status);
-      return true; // Assume valid if validation fails
-    }
-
-    const data = await response.json();
-    const result = data.choices?.[0]?.message?.content || "";
+    const result = validation.text || "";
     console.log(`Validation result: ${result}`);
     
     return result.toUpperCase().startsWith("VALID");
@@ -181,47 +144,35 @@ async function validateClayImage(imageUrl: string, lovableApiKey: string): Promi
   }
 }
 
-async function generateClayImage(imageUrl: string, lovableApiKey: string, model: string, useReinforced: boolean): Promise<string | null> {
-  const prompt = useReinforced ? REINFORCED_CLAY_PROMPT : CLAY_PROMPT;
-  
-  const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${lovableApiKey}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify({
-      model: model,
-      messages: [
-        {
-          role: "user",
-          content: [
-            { type: "text", text: prompt },
-            { type: "image_url", image_url: { url: imageUrl } },
-          ],
-        },
+async function generateClayImage(imageUrl: string, model: string, prompt: string, usage: AIUsageContext): Promise<string | null> {
+  try {
+    const result = await callAI({
+      model,
+      parts: [
+        { type: "text", text: prompt },
+        { type: "image", url: imageUrl },
       ],
-      modalities: ["image", "text"],
-    }),
-  });
+      wantImage: true,
+      timeoutMs: 150000,
+      usage,
+    });
+    return result.images[0] || null;
+  } catch (error) {
+    if (!(error instanceof AIProviderError) || error.status === null) throw error;
+    console.error(`AI API error:`, error.status, error.body);
 
-  if (!response.ok) {
-    console.error(`AI API error:`, response.status);
-    
-    if (response.status === 429) {
+    if (error.isRateLimited) {
       throw new Error("RATE_LIMITED");
     }
     return null;
   }
-
-  const data = await response.json();
-  return data.choices?.[0]?.message?.images?.[0]?.image_url?.url || null;
 }
 
-async function processImages(supabase: any, jobId: string, imageIds: string[], lovableApiKey: string, model: string) {
+async function processImages(supabase: any, jobId: string, imageIds: string[], model: string, usage: AIUsageContext) {
   console.log(`Processing ${imageIds.length} images for clay generation with model ${model}`);
   let processed = 0;
   const MAX_RETRIES = 2;
+  const clayPrompt = await resolvePrompt(supabase, "clay", CLAY_PROMPT);
 
   for (let i = 0; i < imageIds.length; i++) {
     const imageId = imageIds[i];
@@ -265,6 +216,7 @@ async function processImages(supabase: any, jobId: string, imageIds: string[], l
       }
 
       let generatedImageUrl: string | null = null;
+      let generatedPromptVersionId: string | null = null;
       let isValid = false;
       let attempts = 0;
 
@@ -276,7 +228,14 @@ async function processImages(supabase: any, jobId: string, imageIds: string[], l
         console.log(`[${imageId}] Generation attempt ${attempts}/${MAX_RETRIES} (reinforced: ${useReinforced})`);
         
         try {
-          generatedImageUrl = await generateClayImage(imageUrl, lovableApiKey, model, useReinforced);
+          generatedImageUrl = await generateClayImage(
+            imageUrl,
+            model,
+            useReinforced ? REINFORCED_CLAY_PROMPT : clayPrompt.template,
+            usage
+          );
+          // The reinforced prompt is built in, not a library version
+          generatedPromptVersionId = useReinforced ? null : clayPrompt.versionId;
           
           if (!generatedImageUrl) {
             console.error(`[${imageId}] No image returned on attempt ${attempts}`);
@@ -285,7 +244,7 @@ async function processImages(supabase: any, jobId: string, imageIds: string[], l
 
           // Validate the generated image
           console.log(`[${imageId}] Validating generated image...`);
-          isValid = await validateClayImage(generatedImageUrl, lovableApiKey);
+          isValid = await validateClayImage(generatedImageUrl, usage);
           
           if (!isValid) {
             console.log(`[${imageId}] Validation failed, will retry with reinforced prompt`);
@@ -338,6 +297,7 @@ async function processImages(supabase: any, jobId: string, imageIds: string[], l
         .upsert({
           product_image_id: imageId,
           stored_url: publicUrl,
+          prompt_version_id: generatedPromptVersionId,
         }, { onConflict: 'product_image_id' });
 
       if (upsertError) {
@@ -1,5 +1,10 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callAI, getAIConfigError, AIProviderError } from "../_shared/ai-provider.ts";
+import type { AIUsageContext } from "../_shared/ai-usage.ts";
+import { computeStoredImageDHash } from "../_shared/perceptual-hash.ts";
+import { resolvePrompt, renderPrompt } from "../_shared/prompt-templates.ts";
+import { requireCaller } from "../_shared/auth.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -38,11 +43,25 @@ Keep face and lighting consistent from image 2.`,
 
 const STUDIO_LIGHTING_PROMPT = `Model photographed in soft, high-key studio lighting against a clean white background with no visible texture. Light is diffused and even, creating minimal shadows. Key light is centred and slightly above eye level, producing gentle falloff on the cheeks and a natural, matte skin appearance. No harsh rim light. Overall look is crisp, neutral, and modern, similar to premium fashion e-commerce photography. Colours are true-to-life with subtle contrast.`;
 
+// Used when the prompt library has no active face application version
+const DEFAULT_FACE_APPLICATION_PROMPT = `Recreate image 1 with "{outfitDescription}", keep the crop, pose and clothing exactly the same but put the head of image 2 on it. {viewPrompt}
+
+${STUDIO_LIGHTING_PROMPT}`;
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { caller, error: authError } = await requireCaller(req, {
+    functionName: "generate-face-application",
+    corsHeaders,
+    roles: ["internal"],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const { jobId, outfitDescriptions, resume, singleView, attemptsPerView } = await req.json();
 
@@ -53,9 +72,9 @@ serve(async (req) => {
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY not configured");
+    const configError = getAIConfigError();
+    if (configError) {
+      throw new Error(configError);
     }
 
     // Get job details first
@@ -121,6 +140,12 @@ serve(async (req) => {
     const model = job.model || "google/gemini-2.5-flash-image-preview";
     console.log(`🤖 Using model: ${model}`);
 
+    const usage: AIUsageContext = {
+      functionName: "generate-face-application",
+      userId: caller?.userId ?? null,
+      metadata: { faceApplicationProjectId: job.project_id, lookId: job.look_id, faceApplicationJobId: job.id },
+    };
+
     // Process in background using setTimeout (Deno pattern)
     setTimeout(() => {
       processGeneration(
@@ -128,9 +153,9 @@ serve(async (req) => {
         job, 
         sourceImages, 
         outfitDescriptions || {}, 
-        LOVABLE_API_KEY, 
         model,
         attemptsPerView || job.attempts_per_view,
+        usage,
         singleView
       );
     }, 0);
@@ -186,13 +211,14 @@ async function processGeneration(
   job: any,
   sourceImages: any[],
   outfitDescriptions: Record<string, string>,
-  apiKey: string,
   model: string,
   attemptsPerView: number,
+  usage: AIUsageContext,
   singleView?: string
 ) {
   // Concurrency limit - process 3 images at once
   const CONCURRENCY = 3;
+  const resolvedPrompt = await resolvePrompt(supabase, "face_application", DEFAULT_FACE_APPLICATION_PROMPT);
   
   // Get existing completed outputs to calculate resume progress
   const { data: existingOutputs } = await supabase
@@ -332,22 +358,25 @@ async function processGeneration(
       try {
         // Build view-specific prompt
         const viewPrompt = VIEW_PROMPTS[view] || VIEW_PROMPTS.front;
-        const prompt = `Recreate image 1 with "${outfitDesc}", keep the crop, pose and clothing exactly the same but put the head of image 2 on it. ${viewPrompt}
-
-${STUDIO_LIGHTING_PROMPT}`;
+        const prompt = renderPrompt(resolvedPrompt.template, {
+          outfitDescription: outfitDesc,
+          viewPrompt,
+          view,
+        });
 
         // Call Lovable AI for image generation
         const generatedUrl = await generateImage(
           bodyImageUrl,
           faceUrl,
           prompt,
-          apiKey,
-          model
+          model,
+          usage
         );
 
         if (generatedUrl) {
           // Upload to storage
           const storedUrl = await uploadToStorage(supabase, generatedUrl, job.id, output.id);
+          const perceptualHash = await computeStoredImageDHash(storedUrl);
 
           // Update output record
           await supabase
@@ -355,7 +384,9 @@ ${STUDIO_LIGHTING_PROMPT}`;
             .update({
               stored_url: storedUrl,
               final_prompt: prompt,
+              prompt_version_id: resolvedPrompt.versionId,
               status: "completed",
+              perceptual_hash: perceptualHash,
             })
             .eq("id", output.id);
 
@@ -423,48 +454,33 @@ async function generateImage(
   bodyImageUrl: string,
   faceImageUrl: string,
   prompt: string,
-  apiKey: string,
-  model: string
+  model: string,
+  usage: AIUsageContext
 ): Promise<string | null> {
   try {
     console.log(`🎨 Calling AI API with model: ${model}`);
     console.log(`Generating with body: ${bodyImageUrl.substring(0, 80)}...`);
     console.log(`Face: ${faceImageUrl.substring(0, 80)}...`);
     
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: model,
-        messages: [
-          {
-            role: "user",
-            content: [
-              { type: "text", text: prompt },
-              { type: "image_url", image_url: { url: bodyImageUrl } },
-              { type: "image_url", image_url: { url: faceImageUrl } },
-            ],
-          },
-        ],
-        modalities: ["image", "text"],
-      }),
+    const result = await callAI({
+      model,
+      parts: [
+        { type: "text", text: prompt },
+        { type: "image", url: bodyImageUrl },
+        { type: "image", url: faceImageUrl },
+      ],
+      wantImage: true,
+      timeoutMs: 150000,
+      usage,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`AI API error: ${response.status} - ${errorText}`);
-      return null;
-    }
-
-    const data = await response.json();
-    const imageUrl = data.choices?.[0]?.message?.images?.[0]?.image_url?.url;
-
-    return imageUrl || null;
+    return result.images[0] || null;
   } catch (error) {
-    console.error("Error calling AI API:", error);
+    if (error instanceof AIProviderError && error.status !== null) {
+      console.error(`AI API error: ${error.status} - ${error.body}`);
+    } else {
+      console.error("Error calling AI API:", error);
+    }
     return null;
   }
 }
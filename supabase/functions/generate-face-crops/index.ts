@@ -1,6 +1,9 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callAI } from "../_shared/ai-provider.ts";
+import type { AIUsageContext } from "../_shared/ai-usage.ts";
+import { requireCaller } from "../_shared/auth.ts";
 
 declare const EdgeRuntime: { waitUntil: (promise: Promise<any>) => void };
 
@@ -22,6 +25,15 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { caller, error: authError } = await requireCaller(req, {
+    functionName: 'generate-face-crops',
+    corsHeaders,
+    roles: ['internal'],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const { runId, aspectRatio = '1:1' } = await req.json();
 
@@ -34,7 +46,6 @@ serve(async (req) => {
 
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
     // Create job record
@@ -60,7 +71,12 @@ serve(async (req) => {
     }
 
     // Start background processing
-    EdgeRuntime.waitUntil(processCrops(supabase, job.id, runId, aspectRatio, lovableApiKey));
+    const usage: AIUsageContext = {
+      functionName: 'generate-face-crops',
+      userId: caller?.userId ?? null,
+      metadata: { runId, faceJobId: job.id },
+    };
+    EdgeRuntime.waitUntil(processCrops(supabase, job.id, runId, aspectRatio, usage));
 
     return new Response(JSON.stringify({ success: true, jobId: job.id }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -79,7 +95,7 @@ async function processCrops(
   jobId: string,
   runId: string,
   aspectRatio: string,
-  lovableApiKey: string
+  usage: AIUsageContext
 ) {
   try {
     // Get all images for this run that have stored URLs
@@ -108,7 +124,7 @@ async function processCrops(
 
     for (const image of images) {
       try {
-        await processImage(supabase, image, aspectRatio, lovableApiKey);
+        await processImage(supabase, image, aspectRatio, usage);
         processed++;
         await updateJob(supabase, jobId, 'running', processed, images.length, `Processed ${processed}/${images.length}`);
       } catch (error) {
@@ -135,13 +151,13 @@ async function processImage(
   supabase: any,
   image: any,
   aspectRatio: string,
-  lovableApiKey: string
+  usage: AIUsageContext
 ) {
   const imageUrl = image.stored_url || image.source_url;
   console.log(`[generate-face-crops] Processing image ${image.id}`);
   
   // Detect face bounding box using AI
-  const faceBbox = await detectFaceBbox(imageUrl, lovableApiKey);
+  const faceBbox = await detectFaceBbox(imageUrl, usage);
   console.log(`[generate-face-crops] Detection result for ${image.id}:`, faceBbox);
   
   // Calculate head + shoulders crop based on face position
@@ -186,7 +202,7 @@ async function processImage(
 }
 
 // Detect head bounding box using Gemini (includes all hair)
-async function detectFaceBbox(imageUrl: string, apiKey: string): Promise<FaceBbox | null> {
+async function detectFaceBbox(imageUrl: string, usage: AIUsageContext): Promise<FaceBbox | null> {
   const prompt = `Detect the person's HEAD in this fashion image.
 Return the bounding box coordinates around their ENTIRE HEAD including ALL HAIR - from the very top of their hair down to their chin/jaw line.
 Format: JSON array [ymin, xmin, ymax, xmax]
@@ -196,34 +212,17 @@ Format: JSON array [ymin, xmin, ymax, xmax]
 - Only return the array like [123, 456, 789, 567] or NONE, nothing else`;
 
   try {
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'google/gemini-2.5-flash',
-        messages: [
-          {
-            role: 'user',
-            content: [
-              { type: 'text', text: prompt },
-              { type: 'image_url', image_url: { url: imageUrl } }
-            ]
-          }
-        ]
-      })
+    const result = await callAI({
+      model: 'google/gemini-2.5-flash',
+      parts: [
+        { type: 'text', text: prompt },
+        { type: 'image', url: imageUrl },
+      ],
+      mock: { text: '[40, 380, 260, 620]' },
+      usage,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('AI API error:', response.status, errorText);
-      return null;
-    }
-
-    const data = await response.json();
-    const content = (data.choices?.[0]?.message?.content || '').trim();
+    const content = (result.text || '').trim();
     
     console.log(`[generate-face-crops] AI response: "${content}"`);
     
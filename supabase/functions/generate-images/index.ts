@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callAI, getAIConfigError, AIProviderError } from "../_shared/ai-provider.ts";
+import { requireCaller } from '../_shared/auth.ts';
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -28,42 +30,6 @@ interface CreateJobRequest {
   aiModel?: string;
 }
 
-// Helper function to verify authentication
-async function verifyAuth(req: Request): Promise<{ userId: string | null; error: Response | null }> {
-  const authHeader = req.headers.get('Authorization');
-  if (!authHeader?.startsWith('Bearer ')) {
-    return {
-      userId: null,
-      error: new Response(
-        JSON.stringify({ error: 'Unauthorized' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    };
-  }
-
-  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-  const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
-  
-  const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-    global: { headers: { Authorization: authHeader } }
-  });
-
-  const token = authHeader.replace('Bearer ', '');
-  const { data, error } = await supabase.auth.getClaims(token);
-  
-  if (error || !data?.claims) {
-    return {
-      userId: null,
-      error: new Response(
-        JSON.stringify({ error: 'Unauthorized' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    };
-  }
-
-  return { userId: data.claims.sub as string, error: null };
-}
-
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
@@ -72,14 +38,17 @@ serve(async (req) => {
 
   try {
     // Verify authentication
-    const { userId, error: authError } = await verifyAuth(req);
+    const { caller, error: authError } = await requireCaller(req, {
+      functionName: 'generate-images',
+      corsHeaders,
+      roles: ['internal'],
+    });
     if (authError) {
       return authError;
     }
-    console.log(`Authenticated user: ${userId}`);
+    console.log(`Authenticated caller: ${caller?.userId ?? 'service'}`);
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
+    if (getAIConfigError()) {
       console.error("API configuration error");
       return new Response(
         JSON.stringify({ error: "Service temporarily unavailable" }),
@@ -137,7 +106,7 @@ serve(async (req) => {
     // Check job status first
     const { data: currentJob } = await supabase
       .from("jobs")
-      .select("status, result, logs")
+      .select("status, result, logs, brand_id")
       .eq("id", jobId)
       .single();
 
@@ -184,60 +153,45 @@ serve(async (req) => {
       .eq("id", jobId);
 
     try {
-      // Create abort controller with 60 second timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 60000);
-
       // Use the selected AI model or default to Gemini 3 Pro Image
       const selectedModel = aiModel || "google/gemini-3-pro-image-preview";
       console.log(`Using AI model: ${selectedModel}`);
 
-      // Call the image generation model
-      const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${LOVABLE_API_KEY}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
+      // Call the image generation model (60 second timeout)
+      let imageData: string | undefined;
+      try {
+        const result = await callAI({
           model: selectedModel,
-          messages: [
-            {
-              role: "user",
-              content: [
-                {
-                  type: "text",
-                  text: prompt.fullPrompt,
-                },
-                {
-                  type: "image_url",
-                  image_url: {
-                    url: prompt.modelRefUrl,
-                  },
-                },
-              ],
-            },
+          parts: [
+            { type: "text", text: prompt.fullPrompt },
+            { type: "image", url: prompt.modelRefUrl },
           ],
-          modalities: ["image", "text"],
-        }),
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
+          wantImage: true,
+          timeoutMs: 60000,
+          usage: {
+            functionName: "generate-images",
+            brandId: currentJob?.brand_id ?? null,
+            userId: caller?.userId ?? null,
+            metadata: { expressionProjectId: projectId, jobId, promptIndex },
+          },
+        });
+        imageData = result.images[0];
+      } catch (aiError) {
+        // Timeouts and network errors are handled by the outer catch
+        if (!(aiError instanceof AIProviderError) || aiError.status === null) {
+          throw aiError;
+        }
+        console.error(`Generation failed:`, aiError.status, aiError.body);
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`Generation failed:`, response.status, errorText);
-        
-        if (response.status === 429) {
+        if (aiError.status === 429) {
           // Rate limited - tell client to retry after delay
           return new Response(
             JSON.stringify({ success: false, rateLimited: true, retryAfter: 5000 }),
             { headers: { ...corsHeaders, "Content-Type": "application/json" } }
           );
         }
-        
-        if (response.status === 402) {
+      
+        if (aiError.status === 402) {
           // Credits exhausted
           const updatedLogs = [...logs, "❌ Credits exhausted"];
           await supabase.from("jobs").update({ 
@@ -245,7 +199,7 @@ serve(async (req) => {
             logs: updatedLogs.slice(-50),
             updated_at: new Date().toISOString()
           }).eq("id", jobId);
-          
+        
           return new Response(
             JSON.stringify({ success: false, creditsExhausted: true }),
             { headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -262,7 +216,7 @@ serve(async (req) => {
           metrics_json: { error: "Generation failed" },
         });
 
-        const updatedLogs = [...logs, `❌ Failed: ${response.status}`];
+        const updatedLogs = [...logs, `❌ Failed: ${aiError.status}`];
         await supabase.from("jobs").update({ 
           progress: promptIndex + 1,
           logs: updatedLogs.slice(-50),
@@ -275,9 +229,6 @@ serve(async (req) => {
         );
       }
 
-      const data = await response.json();
-      const imageData = data.choices?.[0]?.message?.images?.[0]?.image_url?.url;
-
       if (!imageData) {
         console.error("No image returned");
         const updatedLogs = [...logs, "❌ No image returned"];
@@ -362,7 +313,7 @@ serve(async (req) => {
       const errorMessage = err instanceof Error ? err.message : "Unknown error";
       console.error(`Error processing:`, err);
       
-      const logMessage = err instanceof Error && err.name === "AbortError" 
+      const logMessage = err instanceof AIProviderError && err.isTimeout 
         ? "⏱ Timed out" 
         : `❌ Error occurred`;
       
@@ -1,6 +1,8 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callAI, AIProviderError } from "../_shared/ai-provider.ts";
+import { requireCaller } from "../_shared/auth.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,6 +14,15 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { caller, error: authError } = await requireCaller(req, {
+    functionName: 'generate-more-outputs',
+    corsHeaders,
+    roles: ['internal'],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const { pairingId, count } = await req.json();
 
@@ -27,7 +38,6 @@ serve(async (req) => {
 
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
     console.log(`[generate-more-outputs] Starting generation of ${validCount} more outputs for pairing ${pairingId}`);
@@ -152,31 +162,27 @@ serve(async (req) => {
       try {
         console.log(`[generate-more-outputs] Generating image for output ${output.id}`);
 
-        const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Authorization': `Bearer ${lovableApiKey}`,
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            model: model,
-            messages: [
-              {
-                role: 'user',
-                content: [
-                  { type: 'text', text: finalPrompt },
-                  { type: 'image_url', image_url: { url: image1Url } },
-                  { type: 'image_url', image_url: { url: image2Url } }
-                ]
-              }
+        let images: string[];
+        try {
+          const result = await callAI({
+            model,
+            parts: [
+              { type: 'text', text: finalPrompt },
+              { type: 'image', url: image1Url },
+              { type: 'image', url: image2Url },
             ],
-            modalities: ['image', 'text']
-          })
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error(`[generate-more-outputs] AI API error for ${output.id}: ${response.status} - ${errorText}`);
+            wantImage: true,
+            timeoutMs: 150000,
+            usage: {
+              functionName: 'generate-more-outputs',
+              userId: caller?.userId ?? null,
+              metadata: { pairingJobId: pairing.job_id, pairingId, outputId: output.id },
+            },
+          });
+          images = result.images;
+        } catch (aiError) {
+          if (!(aiError instanceof AIProviderError) || aiError.status === null) throw aiError;
+          console.error(`[generate-more-outputs] AI API error for ${output.id}: ${aiError.status} - ${aiError.body}`);
           
           await supabase
             .from('face_pairing_outputs')
@@ -187,9 +193,6 @@ serve(async (req) => {
           continue;
         }
 
-        const data = await response.json();
-        const images = data.choices?.[0]?.message?.images;
-
         if (!images || images.length === 0) {
           console.error(`[generate-more-outputs] No image generated for ${output.id}`);
           
@@ -202,7 +205,7 @@ serve(async (req) => {
           continue;
         }
 
-        const generatedImageUrl = images[0].image_url?.url;
+        const generatedImageUrl = images[0];
 
         // Upload to storage
         const timestamp = Date.now();
@@ -1,6 +1,9 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callAI } from "../_shared/ai-provider.ts";
+import type { AIUsageContext } from "../_shared/ai-usage.ts";
+import { requireCaller, serviceHeaders } from "../_shared/auth.ts";
 
 declare const EdgeRuntime: { waitUntil: (promise: Promise<any>) => void };
 
@@ -30,16 +33,28 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { caller, error: authError } = await requireCaller(req, {
+    functionName: 'generate-outfit-description',
+    corsHeaders,
+    roles: ['internal'],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const body = await req.json();
     const { jobId, imageUrl } = body;
-
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY')!;
+    const usage: AIUsageContext = {
+      functionName: 'generate-outfit-description',
+      userId: caller?.userId ?? null,
+      metadata: jobId ? { pairingJobId: jobId } : {},
+    };
 
     // MODE 1: Single image description (for Face Application GenerateTab)
     if (imageUrl) {
       console.log('[generate-outfit-description] Single image mode:', imageUrl);
-      const description = await generateOutfitDescription(imageUrl, lovableApiKey);
+      const description = await generateOutfitDescription(imageUrl, usage);
       return new Response(JSON.stringify({ description }), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
@@ -67,7 +82,7 @@ serve(async (req) => {
       .eq('id', jobId);
 
     // Start background processing
-    EdgeRuntime.waitUntil(processOutfitDescriptions(supabase, jobId, lovableApiKey));
+    EdgeRuntime.waitUntil(processOutfitDescriptions(supabase, jobId, usage));
 
     return new Response(JSON.stringify({ success: true }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -84,7 +99,7 @@ serve(async (req) => {
 async function processOutfitDescriptions(
   supabase: any,
   jobId: string,
-  lovableApiKey: string
+  usage: AIUsageContext
 ) {
   try {
     // Get all pairings for this job that need outfit descriptions
@@ -139,7 +154,7 @@ async function processOutfitDescriptions(
     
     for (const [faceId, { url, pairingIds }] of uniqueFaces) {
       try {
-        const description = await generateOutfitDescription(url, lovableApiKey);
+        const description = await generateOutfitDescription(url, usage);
         console.log(`[generate-outfit-description] Face ${faceId}: "${description}"`);
         
         // Update all pairings with this face
@@ -184,13 +199,12 @@ async function processOutfitDescriptions(
     console.log(`[generate-outfit-description] Auto-starting image generation for job ${jobId}`);
     
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-    const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
     
     const genResponse = await fetch(`${supabaseUrl}/functions/v1/generate-paired-images`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${supabaseAnonKey}`,
+        ...(await serviceHeaders('generate-paired-images', usage.userId ?? null)),
       },
       body: JSON.stringify({ jobId })
     });
@@ -214,36 +228,18 @@ async function processOutfitDescriptions(
   }
 }
 
-async function generateOutfitDescription(imageUrl: string, apiKey: string): Promise<string> {
-  const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: 'google/gemini-2.5-flash',
-      messages: [
-        {
-          role: 'user',
-          content: [
-            { type: 'text', text: OUTFIT_DESCRIPTION_PROMPT },
-            { type: 'image_url', image_url: { url: imageUrl } }
-          ]
-        }
-      ]
-    })
+async function generateOutfitDescription(imageUrl: string, usage: AIUsageContext): Promise<string> {
+  const result = await callAI({
+    model: 'google/gemini-2.5-flash',
+    parts: [
+      { type: 'text', text: OUTFIT_DESCRIPTION_PROMPT },
+      { type: 'image', url: imageUrl },
+    ],
+    mock: { text: 'a plain white t-shirt and blue jeans' },
+    usage,
   });
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`AI API error: ${response.status} - ${errorText}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices?.[0]?.message?.content || '';
-  
-  return content.trim();
+  return (result.text || '').trim();
 }
 
 async function updateJobProgress(
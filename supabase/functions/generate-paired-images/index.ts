@@ -1,6 +1,9 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callAI, AIProviderError } from "../_shared/ai-provider.ts";
+import type { AIUsageContext } from "../_shared/ai-usage.ts";
+import { requireCaller, serviceHeaders } from "../_shared/auth.ts";
 
 declare const EdgeRuntime: { waitUntil: (promise: Promise<any>) => void };
 
@@ -19,6 +22,15 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { caller, error: authError } = await requireCaller(req, {
+    functionName: 'generate-paired-images',
+    corsHeaders,
+    roles: ['internal'],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const { jobId } = await req.json();
 
@@ -31,7 +43,6 @@ serve(async (req) => {
 
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
     // Update job status
@@ -50,7 +61,12 @@ serve(async (req) => {
       .eq('id', jobId)
       .single();
     
-    EdgeRuntime.waitUntil(processPairedGeneration(supabase, jobId, supabaseUrl, lovableApiKey));
+    const usage: AIUsageContext = {
+      functionName: 'generate-paired-images',
+      userId: caller?.userId ?? null,
+      metadata: { pairingJobId: jobId },
+    };
+    EdgeRuntime.waitUntil(processPairedGeneration(supabase, jobId, supabaseUrl, usage));
 
     return new Response(JSON.stringify({ success: true }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -68,7 +84,7 @@ async function processPairedGeneration(
   supabase: any,
   jobId: string,
   supabaseUrl: string,
-  lovableApiKey: string
+  usage: AIUsageContext
 ) {
   const MAX_PROCESSING_TIME_MS = 50000; // 50 seconds to stay under Deno limit
   const startTime = Date.now();
@@ -145,7 +161,10 @@ async function processPairedGeneration(
       // Check for timeout and self-continue
       if (isNearTimeout()) {
         console.log('[generate-paired-images] Approaching timeout, self-continuing...');
-        await supabase.functions.invoke('generate-paired-images', { body: { jobId } });
+        await supabase.functions.invoke('generate-paired-images', {
+          headers: await serviceHeaders('generate-paired-images', usage.userId ?? null),
+          body: { jobId },
+        });
         return;
       }
 
@@ -226,8 +245,8 @@ async function processPairedGeneration(
             image1Url,
             image2Url,
             finalPrompt,
-            lovableApiKey,
-            model
+            model,
+            usage
           );
 
           if (generatedImageUrl) {
@@ -309,48 +328,29 @@ async function generatePairedImage(
   image1Url: string,
   image2Url: string,
   prompt: string,
-  apiKey: string,
-  model: string
+  model: string,
+  usage: AIUsageContext
 ): Promise<string | null> {
   try {
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: model,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              { type: 'text', text: prompt },
-              { type: 'image_url', image_url: { url: image1Url } },
-              { type: 'image_url', image_url: { url: image2Url } }
-            ]
-          }
-        ],
-        modalities: ['image', 'text']
-      })
+    const result = await callAI({
+      model,
+      parts: [
+        { type: 'text', text: prompt },
+        { type: 'image', url: image1Url },
+        { type: 'image', url: image2Url },
+      ],
+      wantImage: true,
+      timeoutMs: 150000,
+      usage,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[generate-paired-images] AI API error: ${response.status} - ${errorText}`);
-      return null;
-    }
-
-    const data = await response.json();
-    const images = data.choices?.[0]?.message?.images;
-    
-    if (images && images.length > 0) {
-      return images[0].image_url?.url || null;
-    }
-
-    return null;
+    return result.images[0] || null;
   } catch (error) {
-    console.error('[generate-paired-images] Generation error:', error);
+    if (error instanceof AIProviderError && error.status !== null) {
+      console.error(`[generate-paired-images] AI API error: ${error.status} - ${error.body}`);
+    } else {
+      console.error('[generate-paired-images] Generation error:', error);
+    }
     return null;
   }
 }
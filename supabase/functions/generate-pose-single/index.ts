@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callAI, AIProviderError } from "../_shared/ai-provider.ts";
+import { requireCaller } from "../_shared/auth.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -22,6 +24,15 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { caller, error: authError } = await requireCaller(req, {
+    functionName: "generate-pose-single",
+    corsHeaders,
+    roles: ["internal"],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const body = await req.json();
     const { jobId, task, model } = body as { 
@@ -39,14 +50,13 @@ serve(async (req) => {
 
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const lovableApiKey = Deno.env.get("LOVABLE_API_KEY")!;
 
     const supabase = createClient(supabaseUrl, supabaseKey);
 
     // Check if job is still running (not stopped/cancelled)
     const { data: job, error: jobError } = await supabase
       .from("generation_jobs")
-      .select("status")
+      .select("status, brand_id")
       .eq("id", jobId)
       .single();
 
@@ -90,35 +100,32 @@ Do not stylise or reinterpret the image.
 
 The final image should look like the original photo, naturally repositioned and cropped identically to the reference image.`;
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${lovableApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
+    let generatedImageUrl: string | undefined;
+    try {
+      const result = await callAI({
         model: model || "google/gemini-2.5-flash-image-preview",
-        messages: [
-          {
-            role: "user",
-            content: [
-              { type: "text", text: prompt },
-              { type: "text", text: "INPUT PHOTO (subject to repose):" },
-              { type: "image_url", image_url: { url: task.talentImageUrl } },
-              { type: "text", text: "GREYSCALE REFERENCE (pose, camera, and framing template):" },
-              { type: "image_url", image_url: { url: task.poseUrl } },
-            ],
-          },
+        parts: [
+          { type: "text", text: prompt },
+          { type: "text", text: "INPUT PHOTO (subject to repose):" },
+          { type: "image", url: task.talentImageUrl },
+          { type: "text", text: "GREYSCALE REFERENCE (pose, camera, and framing template):" },
+          { type: "image", url: task.poseUrl },
         ],
-        modalities: ["image", "text"],
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`AI API error:`, response.status, errorText);
+        wantImage: true,
+        timeoutMs: 150000,
+        usage: {
+          functionName: "generate-pose-single",
+          brandId: job.brand_id,
+          userId: caller?.userId ?? null,
+          metadata: { generationJobId: jobId },
+        },
+      });
+      generatedImageUrl = result.images[0];
+    } catch (aiError) {
+      if (!(aiError instanceof AIProviderError) || aiError.status === null) throw aiError;
+      console.error(`AI API error:`, aiError.status, aiError.body);
       
-      if (response.status === 429) {
+      if (aiError.isRateLimited) {
         return new Response(
           JSON.stringify({ success: false, rateLimited: true, error: "Rate limited" }),
           { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -126,14 +133,11 @@ The final image should look like the original photo, naturally repositioned and
       }
       
       return new Response(
-        JSON.stringify({ success: false, error: `AI API error: ${response.status}` }),
+        JSON.stringify({ success: false, error: `AI API error: ${aiError.status}` }),
         { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    const data = await response.json();
-    const generatedImageUrl = data.choices?.[0]?.message?.images?.[0]?.image_url?.url;
-
     if (!generatedImageUrl) {
       console.error("No image returned from AI");
       return new Response(
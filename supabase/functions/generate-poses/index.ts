@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { selectPoses, type PoseSelectionMode } from "../_shared/pose-selection.ts";
+import { requireCaller } from '../_shared/auth.ts';
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -41,42 +43,6 @@ interface GenerationTask {
   lookId?: string;
 }
 
-// Helper function to verify authentication
-async function verifyAuth(req: Request): Promise<{ userId: string | null; error: Response | null }> {
-  const authHeader = req.headers.get('Authorization');
-  if (!authHeader?.startsWith('Bearer ')) {
-    return {
-      userId: null,
-      error: new Response(
-        JSON.stringify({ error: 'Unauthorized' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    };
-  }
-
-  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-  const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
-  
-  const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-    global: { headers: { Authorization: authHeader } }
-  });
-
-  const token = authHeader.replace('Bearer ', '');
-  const { data, error } = await supabase.auth.getClaims(token);
-  
-  if (error || !data?.claims) {
-    return {
-      userId: null,
-      error: new Response(
-        JSON.stringify({ error: 'Unauthorized' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    };
-  }
-
-  return { userId: data.claims.sub as string, error: null };
-}
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -84,11 +50,15 @@ serve(async (req) => {
 
   try {
     // Verify authentication
-    const { userId, error: authError } = await verifyAuth(req);
+    const { caller, error: authError } = await requireCaller(req, {
+      functionName: 'generate-poses',
+      corsHeaders,
+      roles: ['internal'],
+    });
     if (authError) {
       return authError;
     }
-    console.log(`Authenticated user: ${userId}`);
+    console.log(`Authenticated caller: ${caller?.userId ?? 'service'}`);
 
     const body = await req.json();
     const {
@@ -100,6 +70,9 @@ serve(async (req) => {
       attemptsPerPose,
       bulkMode,
       model,
+      // Pose selection - same seed reproduces the same assignment
+      seed,
+      poseSelection,
       // Legacy single-mode params
       talentImageUrl,
       view,
@@ -141,6 +114,33 @@ serve(async (req) => {
       );
     }
 
+    // Least-used balancing counts prior renders across the brand's pose library
+    const selectionMode: PoseSelectionMode = poseSelection === "least_used" ? "least_used" : "random";
+    const selectionSeed = typeof seed === "number" ? seed : null;
+    let poseUsage: Map<string, number> | undefined;
+    if (selectionMode === "least_used") {
+      const { data: library } = await supabase
+        .from("brand_pose_libraries")
+        .select("id")
+        .eq("brand_id", brandId)
+        .maybeSingle();
+
+      if (library) {
+        const { data: usageRows, error: usageError } = await supabase.rpc("get_library_pose_usage", {
+          p_library_id: library.id,
+        });
+        if (usageError) {
+          console.error("Failed to load pose usage:", usageError);
+        }
+        const rows = (usageRows || []) as Array<{ clay_image_id: string; usage_count: number }>;
+        poseUsage = new Map(rows.map((r) => [r.clay_image_id, Number(r.usage_count)]));
+      } else {
+        console.log(`No pose library for brand ${brandId}, least-used balancing has no history`);
+        poseUsage = new Map();
+      }
+    }
+    console.log(`Pose selection: ${selectionMode}, seed ${selectionSeed ?? "none"}`);
+
     // Build generation tasks
     let tasks: GenerationTask[] = [];
 
@@ -182,9 +182,13 @@ serve(async (req) => {
             continue;
           }
 
-          // Randomly select poses
-          const shuffled = [...slotPoses].sort(() => Math.random() - 0.5);
-          const selectedPoses = shuffled.slice(0, Math.min(randomCount, slotPoses.length));
+          const selectedPoses = selectPoses(slotPoses, randomCount, {
+            seed: selectionSeed,
+            streamKey: [pairing.lookId, pairing.talentImageId, pairingSlot],
+            mode: selectionMode,
+            usage: poseUsage,
+            getId: (c) => c.id,
+          });
 
           // Create tasks for each pose and attempt
           for (const pose of selectedPoses) {
@@ -223,8 +227,13 @@ serve(async (req) => {
         );
       }
 
-      const shuffled = [...slotPoses].sort(() => Math.random() - 0.5);
-      const selectedPoses = shuffled.slice(0, Math.min(randomCount, slotPoses.length));
+      const selectedPoses = selectPoses(slotPoses, randomCount, {
+        seed: selectionSeed,
+        streamKey: [talentImageUrl, view, slot],
+        mode: selectionMode,
+        usage: poseUsage,
+        getId: (c) => c.id,
+      });
 
       for (const pose of selectedPoses) {
         for (let attempt = 0; attempt < attemptsPerPose; attempt++) {
@@ -264,7 +273,9 @@ serve(async (req) => {
         status: "running",
         progress: 0,
         total: tasks.length,
-        logs: bulkMode ? { pairings: pairings.length, mode: "bulk", model: selectedModel } : null,
+        logs: bulkMode
+          ? { pairings: pairings.length, mode: "bulk", model: selectedModel, seed: selectionSeed, poseSelection: selectionMode }
+          : null,
       })
       .select()
       .single();
@@ -1,6 +1,11 @@
-// Version: 2026-01-20-v16 - Direct Google Gemini API for reliable 4K renders
+// Version: 2026-03-15-v17 - Direct Google Gemini API (via shared AI provider) for reliable 4K renders
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.49.1";
+import { callAI, getAIConfigError, dataUrlToBytes, AIProviderError } from "../_shared/ai-provider.ts";
+import { computeStoredImageDHash } from "../_shared/perceptual-hash.ts";
+import { requireCaller } from "../_shared/auth.ts";
+import type { AIUsageContext } from "../_shared/ai-usage.ts";
+import { resolvePrompt, renderPrompt } from "../_shared/prompt-templates.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -9,6 +14,32 @@ const corsHeaders = {
 
 // Maximum timeout for AI call - close to wall clock limit
 const AI_TIMEOUT_MS = 380000;
+// Routed to the direct Google Gemini API by the shared provider
+const REPOSE_MODEL = "gemini/gemini-3-pro-image-preview";
+
+// Used when the prompt library has no active repose version
+const DEFAULT_REPOSE_PROMPT = `Use the provided greyscale reference image as a strict pose, camera, and framing template.
+
+**OUTPUT FORMAT: Generate a 3:4 portrait aspect ratio image (768x1024 pixels).**
+
+Repose the subject in the input photo to exactly match the reference in:
+- body pose and limb positioning
+- head tilt and shoulder angle
+- weight distribution and stance
+- camera height, focal distance, and perspective
+- image crop and framing
+
+The output must be a 3:4 portrait aspect ratio image matching the reference pose exactly.
+
+If the reference image does not show the full body, do not include the full body in the output.
+
+Do not zoom out, extend the frame, or reveal additional body parts beyond what is visible in the reference.
+
+Do not alter the subject's identity, facial features, hairstyle, body proportions, clothing, colours, logos, fabric textures, or materials.
+
+Do not stylise or reinterpret the image.
+
+The final image should look like the original photo, naturally repositioned in 3:4 portrait format and cropped identically to the reference image.`;
 
 function fixBrokenStorageUrl(url: string | null | undefined): string {
   if (!url) return '';
@@ -23,30 +54,6 @@ function fixBrokenStorageUrl(url: string | null | undefined): string {
   return basePath + filename;
 }
 
-// Fetch image and convert to base64
-async function fetchAsBase64(url: string): Promise<{ data: string; mimeType: string }> {
-  console.log(`[generate-repose-single] Fetching image: ${url.slice(0, 80)}...`);
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch image: ${response.status}`);
-  }
-  const contentType = response.headers.get('content-type') || 'image/jpeg';
-  const buffer = await response.arrayBuffer();
-  const bytes = new Uint8Array(buffer);
-  
-  // Convert to base64 in chunks to avoid stack overflow on large images
-  let binary = '';
-  const chunkSize = 32768;
-  for (let i = 0; i < bytes.length; i += chunkSize) {
-    const chunk = bytes.subarray(i, i + chunkSize);
-    binary += String.fromCharCode(...chunk);
-  }
-  const base64 = btoa(binary);
-  
-  console.log(`[generate-repose-single] Image fetched: ${Math.round(buffer.byteLength / 1024)}KB, type: ${contentType}`);
-  return { data: base64, mimeType: contentType.split(';')[0] };
-}
-
 // Track active generation for wall clock limit handling
 let activeOutputId: string | null = null;
 
@@ -77,11 +84,13 @@ async function processGeneration(
   outputId: string,
   supabaseUrl: string,
   supabaseKey: string,
-  geminiApiKey: string,
   sourceUrl: string,
   poseUrl: string,
   imageSize: string | null,
-  batchId: string | null
+  batchId: string | null,
+  prompt: string,
+  promptVersionId: string | null,
+  usage: AIUsageContext
 ) {
   const supabase = createClient(supabaseUrl, supabaseKey);
   const startTime = Date.now();
@@ -91,126 +100,52 @@ async function processGeneration(
     console.log(`[generate-repose-single] Background task started for ${outputId}`);
     console.log(`[generate-repose-single] Using direct Google Gemini API`);
 
-    // Fetch images and convert to base64
-    console.log(`[generate-repose-single] Fetching source and pose images...`);
-    const fetchStart = Date.now();
-    
-    let sourceImage: { data: string; mimeType: string };
-    let poseImage: { data: string; mimeType: string };
-    
-    try {
-      [sourceImage, poseImage] = await Promise.all([
-        fetchAsBase64(sourceUrl),
-        fetchAsBase64(poseUrl)
-      ]);
-    } catch (fetchError) {
-      console.error("[generate-repose-single] Failed to fetch images:", fetchError);
-      await supabase
-        .from("repose_outputs")
-        .update({ status: "failed", error_message: `Image fetch failed: ${fetchError}` })
-        .eq("id", outputId);
-      activeOutputId = null;
-      return;
-    }
-    
-    console.log(`[generate-repose-single] Images fetched in ${Math.round((Date.now() - fetchStart) / 1000)}s`);
-
-    // Build prompt
-    const prompt = `Use the provided greyscale reference image as a strict pose, camera, and framing template.
-
-**OUTPUT FORMAT: Generate a 3:4 portrait aspect ratio image (768x1024 pixels).**
-
-Repose the subject in the input photo to exactly match the reference in:
-- body pose and limb positioning
-- head tilt and shoulder angle
-- weight distribution and stance
-- camera height, focal distance, and perspective
-- image crop and framing
-
-The output must be a 3:4 portrait aspect ratio image matching the reference pose exactly.
-
-If the reference image does not show the full body, do not include the full body in the output.
-
-Do not zoom out, extend the frame, or reveal additional body parts beyond what is visible in the reference.
-
-Do not alter the subject's identity, facial features, hairstyle, body proportions, clothing, colours, logos, fabric textures, or materials.
-
-Do not stylise or reinterpret the image.
-
-The final image should look like the original photo, naturally repositioned in 3:4 portrait format and cropped identically to the reference image.`;
-
-    // Build Google Gemini API request
-    const requestBody = {
-      contents: [{
-        parts: [
-          { text: prompt },
-          { text: "INPUT PHOTO (subject to repose):" },
-          { inlineData: { mimeType: sourceImage.mimeType, data: sourceImage.data } },
-          { text: "GREYSCALE REFERENCE (pose, camera, and framing template):" },
-          { inlineData: { mimeType: poseImage.mimeType, data: poseImage.data } },
-        ]
-      }],
-      generationConfig: {
-        responseModalities: ["TEXT", "IMAGE"],
-        ...(imageSize && imageSize !== "1K" ? {
-          imageConfig: {
-            aspectRatio: "3:4",
-            imageSize: imageSize,
-          }
-        } : {})
-      }
-    };
-
     if (imageSize && imageSize !== "1K") {
       console.log(`[generate-repose-single] Requesting ${imageSize} resolution`);
-      console.log(`[generate-repose-single] imageConfig: ${JSON.stringify(requestBody.generationConfig)}`);
     }
 
-    // Call Google Gemini API directly
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), AI_TIMEOUT_MS);
-
-    const apiUrl = `https://generativelanguage.googleapis.com/v1beta/models/gemini-3-pro-image-preview:generateContent?key=${geminiApiKey}`;
     console.log("[generate-repose-single] Calling Google Gemini API directly...");
 
-    let aiResponse: Response;
+    let aiResult;
     try {
-      aiResponse = await fetch(apiUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(requestBody),
-        signal: controller.signal,
+      aiResult = await callAI({
+        model: REPOSE_MODEL,
+        parts: [
+          { type: "text", text: prompt },
+          { type: "text", text: "INPUT PHOTO (subject to repose):" },
+          { type: "image", url: sourceUrl },
+          { type: "text", text: "GREYSCALE REFERENCE (pose, camera, and framing template):" },
+          { type: "image", url: poseUrl },
+        ],
+        wantImage: true,
+        imageSize,
+        aspectRatio: "3:4",
+        timeoutMs: AI_TIMEOUT_MS,
+        usage,
       });
-    } catch (fetchError) {
-      clearTimeout(timeoutId);
+    } catch (aiError) {
       const elapsed = Math.round((Date.now() - startTime) / 1000);
-      console.error(`[generate-repose-single] Fetch error after ${elapsed}s:`, fetchError);
-      
-      const errorMsg = fetchError instanceof Error && fetchError.name === "AbortError"
-        ? `Timeout after ${elapsed}s`
-        : `Network error: ${fetchError}`;
-      
-      await supabase
-        .from("repose_outputs")
-        .update({ status: "failed", error_message: errorMsg })
-        .eq("id", outputId);
-      
-      activeOutputId = null;
-      return;
-    }
 
-    clearTimeout(timeoutId);
-    const elapsed = Math.round((Date.now() - startTime) / 1000);
-    console.log(`[generate-repose-single] Gemini responded in ${elapsed}s with status ${aiResponse.status}`);
+      // Timeouts, network and image fetch failures
+      if (!(aiError instanceof AIProviderError) || aiError.status === null) {
+        console.error(`[generate-repose-single] Request error after ${elapsed}s:`, aiError);
+        const errorMsg = aiError instanceof AIProviderError && aiError.isTimeout
+          ? `Timeout after ${elapsed}s`
+          : aiError instanceof Error ? aiError.message : `Network error: ${aiError}`;
+
+        await supabase
+          .from("repose_outputs")
+          .update({ status: "failed", error_message: errorMsg })
+          .eq("id", outputId);
+
+        activeOutputId = null;
+        return;
+      }
+
+      console.error("[generate-repose-single] Gemini error:", aiError.status, aiError.body.slice(0, 500));
 
-    if (!aiResponse.ok) {
-      const errorText = await aiResponse.text();
-      console.error("[generate-repose-single] Gemini error:", aiResponse.status, errorText.slice(0, 500));
-      
       // Rate limit (429) or Model Overloaded (503) - requeue with exponential backoff
-      if (aiResponse.status === 429 || aiResponse.status === 503) {
+      if (aiError.status === 429 || aiError.status === 503) {
         // Get current retry count
         const { data: currentOutput } = await supabase
           .from("repose_outputs")
@@ -223,7 +158,7 @@ The final image should look like the original photo, naturally repositioned in 3
         const backoffSeconds = Math.min(60 * Math.pow(2, retryCount - 1), 3600);
         const retryAfter = new Date(Date.now() + backoffSeconds * 1000).toISOString();
         
-        const errorType = aiResponse.status === 429 ? "Rate limited" : "Model overloaded";
+        const errorType = aiError.status === 429 ? "Rate limited" : "Model overloaded";
         console.log(`[generate-repose-single] ${errorType} - retry ${retryCount} scheduled in ${backoffSeconds}s`);
         
         await supabase
@@ -239,68 +174,39 @@ The final image should look like the original photo, naturally repositioned in 3
         activeOutputId = null;
         return;
       }
-      
-      await supabase
-        .from("repose_outputs")
-        .update({ status: "failed", error_message: `Gemini error ${aiResponse.status}: ${errorText.slice(0, 200)}` })
-        .eq("id", outputId);
-      
-      activeOutputId = null;
-      return;
-    }
 
-    // Parse response
-    console.log(`[generate-repose-single] Starting response body fetch...`);
-    console.log(`[generate-repose-single] Response headers content-length: ${aiResponse.headers.get('content-length') || 'unknown'}`);
-    
-    let aiResult;
-    try {
-      const responseText = await aiResponse.text();
-      console.log(`[generate-repose-single] Response text fetched: ${responseText.length} chars (${Math.round(responseText.length / 1024)}KB)`);
-      
-      aiResult = JSON.parse(responseText);
-      console.log("[generate-repose-single] JSON parsed successfully, checking for image...");
-    } catch (parseError) {
-      console.error("[generate-repose-single] JSON parse error:", parseError);
-      
+      // Large payloads occasionally arrive truncated - requeue without backoff
+      if (aiError.message === "Truncated response") {
+        await supabase
+          .from("repose_outputs")
+          .update({ 
+            status: "queued", 
+            error_message: "Truncated response - will retry",
+            started_running_at: null 
+          })
+          .eq("id", outputId);
+        
+        activeOutputId = null;
+        return;
+      }
+
+      const errorDetail = aiError.body || aiError.message;
       await supabase
         .from("repose_outputs")
-        .update({ 
-          status: "queued", 
-          error_message: "Truncated response - will retry",
-          started_running_at: null 
-        })
+        .update({ status: "failed", error_message: `Gemini error ${aiError.status}: ${errorDetail.slice(0, 200)}` })
         .eq("id", outputId);
       
       activeOutputId = null;
       return;
     }
-    
-    // Check for API error in response
-    if (aiResult.error) {
-      const errorMessage = aiResult.error.message || JSON.stringify(aiResult.error);
-      console.error("[generate-repose-single] API error in response:", errorMessage.slice(0, 200));
-      
-      await supabase
-        .from("repose_outputs")
-        .update({ status: "failed", error_message: `API error: ${errorMessage.slice(0, 200)}` })
-        .eq("id", outputId);
-      activeOutputId = null;
-      return;
-    }
-    
-    // Extract image from Google's response format
-    const candidates = aiResult.candidates || [];
-    const parts = candidates[0]?.content?.parts || [];
-    const imagePart = parts.find((p: any) => p.inlineData);
-    
-    if (!imagePart?.inlineData?.data) {
-      console.error("[generate-repose-single] No image in response. Parts:", parts.map((p: any) => Object.keys(p)));
-      
-      // Check if there's a text response explaining why
-      const textPart = parts.find((p: any) => p.text);
-      const textResponse = textPart?.text || "No explanation provided";
-      console.log("[generate-repose-single] Text response:", textResponse.slice(0, 200));
+
+    const elapsed = Math.round((Date.now() - startTime) / 1000);
+    console.log(`[generate-repose-single] Gemini responded in ${elapsed}s`);
+
+    const imageDataUrl = aiResult.images[0];
+    if (!imageDataUrl) {
+      const textResponse = aiResult.text || "No explanation provided";
+      console.error("[generate-repose-single] No image in response. Text response:", textResponse.slice(0, 200));
       
       await supabase
         .from("repose_outputs")
@@ -313,14 +219,10 @@ The final image should look like the original photo, naturally repositioned in 3
     const parseTime = Date.now();
     console.log(`[generate-repose-single] Image data extracted, ${Math.round((parseTime - startTime) / 1000)}s elapsed`);
 
-    // Get base64 data directly from response
-    const base64Data = imagePart.inlineData.data;
-    const mimeType = imagePart.inlineData.mimeType || "image/jpeg";
+    // Decode the data URL to binary
+    const { bytes: binaryData, mimeType } = dataUrlToBytes(imageDataUrl);
     const imageFormat = mimeType.includes("png") ? "png" : "jpg";
     
-    // Decode base64 to binary
-    const binaryData = Uint8Array.from(atob(base64Data), c => c.charCodeAt(0));
-    
     console.log(`[generate-repose-single] Image decoded: ${binaryData.length} bytes (${Math.round(binaryData.length / 1024)}KB)`);
 
     // Upload to storage
@@ -357,6 +259,9 @@ The final image should look like the original photo, naturally repositioned in 3
     const publicUrl = publicUrlData?.publicUrl;
     console.log(`[generate-repose-single] Uploaded: ${publicUrl?.slice(0, 100)}...`);
 
+    // Perceptual hash lets review screens stack near-identical attempts
+    const perceptualHash = publicUrl ? await computeStoredImageDHash(publicUrl) : null;
+
     // Update with result
     await supabase
       .from("repose_outputs")
@@ -364,6 +269,8 @@ The final image should look like the original photo, naturally repositioned in 3
         status: "complete",
         error_message: null,
         result_url: publicUrl,
+        perceptual_hash: perceptualHash,
+        prompt_version_id: promptVersionId,
       })
       .eq("id", outputId);
 
@@ -392,13 +299,23 @@ serve(async (req) => {
 
   const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
   const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-  const geminiApiKey = Deno.env.get("NANO_BANANA_API_KEY")!;
   const supabase = createClient(supabaseUrl, supabaseKey);
 
   try {
     const body = await req.json();
     const outputId = body.outputId;
     const imageSize = body.imageSize || null;
+    const pipelineJobId = body.pipelineJobId || null;
+
+    // An explicit imageSize is a re-render of an existing output
+    const { caller, error: permissionError } = await requireCaller(req, {
+      functionName: "generate-repose-single",
+      corsHeaders,
+      permission: imageSize ? "repose.rerender4k" : "repose.run",
+    });
+    if (permissionError) {
+      return permissionError;
+    }
     
     if (!outputId) {
       return new Response(
@@ -407,9 +324,10 @@ serve(async (req) => {
       );
     }
 
-    if (!geminiApiKey) {
+    const configError = getAIConfigError(REPOSE_MODEL);
+    if (configError) {
       return new Response(
-        JSON.stringify({ error: "NANO_BANANA_API_KEY not configured" }),
+        JSON.stringify({ error: configError }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -467,6 +385,23 @@ serve(async (req) => {
     console.log(`[generate-repose-single] Source: ${sourceUrl.slice(0, 100)}...`);
     console.log(`[generate-repose-single] Pose: ${poseUrl.slice(0, 100)}...`);
 
+    // Crop target comes from the product image the clay pose was made from
+    const { data: pose } = output.pose_id
+      ? await supabase
+          .from("clay_images")
+          .select("product_images(crop_target)")
+          .eq("id", output.pose_id)
+          .maybeSingle()
+      : { data: null };
+
+    const resolvedPrompt = await resolvePrompt(supabase, "repose", DEFAULT_REPOSE_PROMPT);
+    const prompt = renderPrompt(resolvedPrompt.template, {
+      cropTarget: pose?.product_images?.crop_target || "full",
+      shotType: output.shot_type || "",
+      imageSize: imageSize || "1K",
+    });
+    console.log(`[generate-repose-single] Prompt version: ${resolvedPrompt.version || "built-in"}`);
+
     // START BACKGROUND TASK - does not block the response
     // @ts-ignore - EdgeRuntime is available in Supabase Edge Functions
     EdgeRuntime.waitUntil(
@@ -474,11 +409,19 @@ serve(async (req) => {
         outputId,
         supabaseUrl,
         supabaseKey,
-        geminiApiKey,
         sourceUrl,
         poseUrl,
         imageSize,
-        output.batch_id
+        output.batch_id,
+        prompt,
+        resolvedPrompt.versionId,
+        {
+          functionName: "generate-repose-single",
+          batchId: output.batch_id,
+          pipelineJobId,
+          userId: caller?.userId ?? null,
+          metadata: { outputId, lookId: output.repose_batch_items?.look_id ?? null },
+        }
       )
     );
 
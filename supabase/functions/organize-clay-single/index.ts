@@ -1,4 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { callAI, AIProviderError } from "../_shared/ai-provider.ts";
+import { requireCaller } from "../_shared/auth.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -40,8 +42,17 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { caller, error: authError } = await requireCaller(req, {
+    functionName: "organize-clay-single",
+    corsHeaders,
+    roles: ["internal"],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
-    const { imageId, imageUrl } = await req.json();
+    const { imageId, imageUrl, brandId } = await req.json();
 
     if (!imageId || !imageUrl) {
       return new Response(
@@ -50,40 +61,35 @@ serve(async (req) => {
       );
     }
 
-    const lovableApiKey = Deno.env.get("LOVABLE_API_KEY")!;
-
     console.log(`Classifying image ${imageId}`);
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${lovableApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
+    let content: string | null;
+    try {
+      const classification = await callAI({
         model: "google/gemini-2.5-flash",
-        messages: [
-          {
-            role: "user",
-            content: [
-              { type: "text", text: CLASSIFICATION_PROMPT },
-              { type: "image_url", image_url: { url: imageUrl } },
-            ],
-          },
+        parts: [
+          { type: "text", text: CLASSIFICATION_PROMPT },
+          { type: "image", url: imageUrl },
         ],
-      }),
-    });
-
-    if (!response.ok) {
-      console.error("Classification API error:", response.status);
+        mock: { text: "A" },
+        usage: {
+          functionName: "organize-clay-single",
+          brandId: brandId || null,
+          userId: caller?.userId ?? null,
+          metadata: { imageId },
+        },
+      });
+      content = classification.text;
+    } catch (aiError) {
+      if (!(aiError instanceof AIProviderError) || aiError.status === null) throw aiError;
+      console.error("Classification API error:", aiError.status);
       return new Response(
         JSON.stringify({ error: "Classification API failed", action: null }),
         { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    const data = await response.json();
-    const result = (data.choices?.[0]?.message?.content || "").trim().toUpperCase();
+    const result = (content || "").trim().toUpperCase();
 
     // Parse the result
     let action: string | null = null;
@@ -1,4 +1,7 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { callAI, getAIConfigError } from '../_shared/ai-provider.ts';
+import type { AIUsageContext } from '../_shared/ai-usage.ts';
+import { requireCaller, serviceHeaders } from '../_shared/auth.ts';
 
 declare const EdgeRuntime: {
   waitUntil(promise: Promise<unknown>): void;
@@ -39,37 +42,22 @@ const SHOE_URL_PATTERNS = [
 // Time limit for each worker invocation (60 seconds - Deno kills tasks around 70-90s)
 const MAX_PROCESSING_TIME_MS = 60 * 1000;
 const BATCH_SIZE = 3;
-
-// Retry wrapper for transient API failures
-async function withRetry<T>(
-  fn: () => Promise<T>,
-  maxRetries = 3,
-  baseDelayMs = 1000
-): Promise<T> {
-  let lastError: Error | undefined;
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      return await fn();
-    } catch (err) {
-      lastError = err instanceof Error ? err : new Error(String(err));
-      const msg = lastError.message.toLowerCase();
-      const isTransient = msg.includes('502') || msg.includes('503') || 
-                          msg.includes('429') || msg.includes('timeout') ||
-                          msg.includes('rate limit');
-      if (!isTransient || attempt === maxRetries - 1) throw lastError;
-      const delay = baseDelayMs * Math.pow(2, attempt);
-      console.log(`[withRetry] Attempt ${attempt + 1} failed, retrying in ${delay}ms...`);
-      await new Promise(r => setTimeout(r, delay));
-    }
-  }
-  throw lastError;
-}
+const CLASSIFY_MODEL = 'google/gemini-2.5-flash';
 
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { caller, error: authError } = await requireCaller(req, {
+    functionName: 'organize-face-images',
+    corsHeaders,
+    roles: ['internal'],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const { scrapeRunId, resumeJobId, resumeFromContext } = await req.json();
 
@@ -136,8 +124,15 @@ Deno.serve(async (req) => {
     const skipUrlPhase = resumeFromContext?.url_phase_done || false;
     const originalTotal = resumeFromContext?.original_total || 0;
 
+    const usage: AIUsageContext = {
+      functionName: 'organize-face-images',
+      pipelineJobId: jobId,
+      userId: caller?.userId ?? null,
+      metadata: { runId: scrapeRunId },
+    };
+
     // Start background processing
-    EdgeRuntime.waitUntil(processImages(jobId, scrapeRunId, supabase, processedIds, skipUrlPhase, originalTotal));
+    EdgeRuntime.waitUntil(processImages(jobId, scrapeRunId, supabase, usage, processedIds, skipUrlPhase, originalTotal));
 
     return new Response(
       JSON.stringify({ success: true, jobId }),
@@ -166,11 +161,11 @@ async function processImages(
   jobId: string, 
   scrapeRunId: string, 
   supabase: any,
+  usage: AIUsageContext,
   alreadyProcessedIds: string[] = [],
   skipUrlPhase: boolean = false,
   originalTotal: number = 0
 ) {
-  const lovableApiKey = Deno.env.get('LOVABLE_API_KEY');
   const processedSet = new Set(alreadyProcessedIds);
   const startTime = Date.now();
   
@@ -282,6 +277,7 @@ async function processImages(
         
         // Re-invoke ourselves to continue processing
         await supabase.functions.invoke('organize-face-images', {
+          headers: await serviceHeaders('organize-face-images', usage.userId ?? null),
           body: { 
             scrapeRunId, 
             resumeJobId: jobId,
@@ -307,9 +303,7 @@ async function processImages(
       
       const batchResults = await Promise.allSettled(
         batch.map(async (image: any) => {
-          const classification = await withRetry(() => 
-            classifyImage(image.source_url, lovableApiKey)
-          );
+          const classification = await classifyImage(image.source_url, usage);
           console.log(`Image ${image.id}: ${JSON.stringify(classification)}`);
           return { image, classification };
         })
@@ -401,7 +395,7 @@ async function processImages(
   }
 }
 
-async function classifyImage(imageUrl: string, apiKey: string | undefined): Promise<{
+async function classifyImage(imageUrl: string, usage: AIUsageContext): Promise<{
   isProductShot: boolean;
   isChild: boolean;
   isDetailCrop: boolean;
@@ -409,8 +403,9 @@ async function classifyImage(imageUrl: string, apiKey: string | undefined): Prom
   hasVisibleFace: boolean;
   reason: string;
 }> {
-  if (!apiKey) {
-    throw new Error('LOVABLE_API_KEY not configured');
+  const configError = getAIConfigError(CLASSIFY_MODEL);
+  if (configError) {
+    throw new Error(configError);
   }
 
   // Enhanced prompt to catch shoes, products, kids, and detail crops
@@ -446,45 +441,21 @@ IMPORTANT CLARIFICATIONS:
 Respond in JSON only:
 {"isProductShot": boolean, "isChild": boolean, "isDetailCrop": boolean, "hasVisibleFace": boolean, "isExtremeCloseup": boolean, "reason": "brief explanation"}`;
 
-  const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
+  // Transient failures (429/502/503/timeouts) are retried inside callAI
+  const response = await callAI({
+    model: CLASSIFY_MODEL,
+    parts: [
+      { type: 'text', text: prompt },
+      { type: 'image', url: imageUrl },
+    ],
+    maxTokens: 200,
+    maxRetries: 2,
+    mock: {
+      text: '{"isProductShot": false, "isChild": false, "isDetailCrop": false, "hasVisibleFace": true, "isExtremeCloseup": false, "reason": "mock"}',
     },
-    body: JSON.stringify({
-      model: 'google/gemini-2.5-flash',
-      messages: [
-        {
-          role: 'user',
-          content: [
-            { type: 'text', text: prompt },
-            { type: 'image_url', image_url: { url: imageUrl } }
-          ]
-        }
-      ],
-      max_tokens: 200,
-    }),
+    usage,
   });
-
-  if (!response.ok) {
-    const text = await response.text();
-    console.error('AI API error:', response.status, text);
-    
-    if (response.status === 429) {
-      throw new Error('Rate limit exceeded (429)');
-    }
-    if (response.status === 402) {
-      throw new Error('Payment required');
-    }
-    if (response.status === 502 || response.status === 503) {
-      throw new Error(`Server error (${response.status})`);
-    }
-    throw new Error(`AI API error: ${response.status}`);
-  }
-
-  const data = await response.json();
-  const content = data.choices?.[0]?.message?.content || '';
+  const content = response.text || '';
   
   // Parse JSON from response
   try {
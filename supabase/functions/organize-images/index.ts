@@ -1,6 +1,9 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callAI, AIProviderError } from "../_shared/ai-provider.ts";
+import type { AIUsageContext } from "../_shared/ai-usage.ts";
+import { requireCaller } from "../_shared/auth.ts";
 
 declare const EdgeRuntime: {
   waitUntil(promise: Promise<unknown>): void;
@@ -11,7 +14,6 @@ const corsHeaders = {
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const LOVABLE_API_KEY = Deno.env.get('LOVABLE_API_KEY');
 const SUPABASE_URL = Deno.env.get('SUPABASE_URL')!;
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 
@@ -21,7 +23,7 @@ interface ImageToClassify {
   slot: string;
 }
 
-async function classifyImage(imageUrl: string): Promise<string> {
+async function classifyImage(imageUrl: string, usage: AIUsageContext): Promise<string> {
   const prompt = `Analyze this fashion/clothing product image and classify it into ONE of these categories:
 
 A - FULL FRONT: A full body shot showing the entire person from head to toe, facing the camera (front view). The whole body must be visible.
@@ -34,43 +36,20 @@ C - FULL BACK: A full body shot showing the entire person from head to toe, but
 
 Respond with ONLY the single letter (A, B, C, or D) that best matches this image. Nothing else.`;
 
-  // Create abort controller with 30 second timeout
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), 30000);
-
   try {
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      signal: controller.signal,
-      body: JSON.stringify({
-        model: "google/gemini-2.5-flash",
-        messages: [
-          {
-            role: "user",
-            content: [
-              { type: "text", text: prompt },
-              { type: "image_url", image_url: { url: imageUrl } }
-            ]
-          }
-        ],
-        max_tokens: 10,
-      }),
+    const response = await callAI({
+      model: "google/gemini-2.5-flash",
+      parts: [
+        { type: "text", text: prompt },
+        { type: "image", url: imageUrl },
+      ],
+      maxTokens: 10,
+      timeoutMs: 30000,
+      mock: { text: "A" },
+      usage,
     });
 
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`AI API error: ${response.status} - ${errorText}`);
-      throw new Error(`AI API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const classification = data.choices?.[0]?.message?.content?.trim()?.toUpperCase() || "";
+    const classification = response.text?.trim()?.toUpperCase() || "";
     
     // Validate the response is a valid slot
     if (["A", "B", "C", "D"].includes(classification)) {
@@ -86,8 +65,7 @@ Respond with ONLY the single letter (A, B, C, or D) that best matches this image
     console.log(`Invalid classification response: "${classification}", defaulting to A`);
     return "A";
   } catch (error) {
-    clearTimeout(timeoutId);
-    if (error instanceof Error && error.name === 'AbortError') {
+    if (error instanceof AIProviderError && error.isTimeout) {
       console.error('AI classification timed out after 30 seconds');
       throw new Error('Classification timeout');
     }
@@ -96,17 +74,18 @@ Respond with ONLY the single letter (A, B, C, or D) that best matches this image
   }
 }
 
-async function processOrganization(brandId: string, jobId: string, images: ImageToClassify[]) {
+async function processOrganization(brandId: string, jobId: string, images: ImageToClassify[], userId: string | null) {
   const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
   
   console.log(`Background: Starting organization of ${images.length} images for job ${jobId}`);
+  const usage: AIUsageContext = { functionName: "organize-images", brandId, userId, metadata: { jobId } };
 
   let updated = 0;
   let processed = 0;
 
   for (const image of images) {
     try {
-      const newSlot = await classifyImage(image.stored_url);
+      const newSlot = await classifyImage(image.stored_url, usage);
       
       if (newSlot !== image.slot) {
         const { error: updateError } = await supabase
@@ -171,6 +150,15 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { caller, error: authError } = await requireCaller(req, {
+    functionName: 'organize-images',
+    corsHeaders,
+    roles: ['internal'],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const { brandId, imageIds } = await req.json();
 
@@ -235,7 +223,7 @@ serve(async (req) => {
     console.log(`Created organize job ${job.id} for ${imagesToProcess.length} images`);
 
     // Start background processing
-    EdgeRuntime.waitUntil(processOrganization(brandId, job.id, imagesToProcess));
+    EdgeRuntime.waitUntil(processOrganization(brandId, job.id, imagesToProcess, caller?.userId ?? null));
 
     // Return immediately with job info
     return new Response(
@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callAI, getAIConfigError, AIProviderError } from "../_shared/ai-provider.ts";
+import { requireCaller } from "../_shared/auth.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -11,13 +13,22 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { caller, error: authError } = await requireCaller(req, {
+    functionName: "process-expression-queue",
+    corsHeaders,
+    roles: ["internal"],
+  });
+  if (authError) {
+    return authError;
+  }
+
   const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
   const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
   const supabase = createClient(supabaseUrl, supabaseKey);
 
-  const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-  if (!LOVABLE_API_KEY) {
-    console.error("LOVABLE_API_KEY not configured");
+  const configError = getAIConfigError();
+  if (configError) {
+    console.error(configError);
     return new Response(JSON.stringify({ error: "Not configured" }), {
       status: 500,
       headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -56,7 +67,7 @@ serve(async (req) => {
     // Step 3: Check if job is still active (ghost prevention)
     const { data: job } = await supabase
       .from("jobs")
-      .select("status")
+      .select("status, brand_id")
       .eq("id", item.job_id)
       .single();
 
@@ -74,38 +85,29 @@ serve(async (req) => {
 
     // Step 4: Call AI Gateway
     try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 90000);
-
-      const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${LOVABLE_API_KEY}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
+      let aiResult;
+      try {
+        aiResult = await callAI({
           model: item.ai_model,
-          messages: [
-            {
-              role: "user",
-              content: [
-                { type: "text", text: item.prompt },
-                { type: "image_url", image_url: { url: item.model_ref_url } },
-              ],
-            },
+          parts: [
+            { type: "text", text: item.prompt },
+            { type: "image", url: item.model_ref_url },
           ],
-          modalities: ["image", "text"],
-        }),
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`AI Gateway error: ${response.status}`, errorText);
+          wantImage: true,
+          timeoutMs: 90000,
+          usage: {
+            functionName: "process-expression-queue",
+            brandId: job.brand_id,
+            userId: caller?.userId ?? null,
+            metadata: { expressionProjectId: item.project_id, jobId: item.job_id, queueItemId: item.id },
+          },
+        });
+      } catch (aiError) {
+        if (!(aiError instanceof AIProviderError) || aiError.status === null) throw aiError;
+        const errorText = aiError.body;
+        console.error(`AI Gateway error: ${aiError.status}`, errorText);
 
-        if (response.status === 429) {
+        if (aiError.status === 429) {
           // Rate limited - exponential backoff
           const backoffSeconds = Math.min(60 * Math.pow(2, item.attempts - 1), 3600);
           const retryAfter = new Date(Date.now() + backoffSeconds * 1000).toISOString();
@@ -124,7 +126,7 @@ serve(async (req) => {
           });
         }
 
-        if (response.status === 402) {
+        if (aiError.status === 402) {
           // Credits exhausted - fail item and stop job
           await supabase
             .from("expression_render_queue")
@@ -158,7 +160,7 @@ serve(async (req) => {
           .from("expression_render_queue")
           .update({
             status: shouldRetry ? "pending" : "failed",
-            error_message: `HTTP ${response.status}: ${errorText.substring(0, 200)}`,
+            error_message: `HTTP ${aiError.status}: ${errorText.substring(0, 200)}`,
             retry_after: shouldRetry
               ? new Date(Date.now() + 10000 * item.attempts).toISOString()
               : null,
@@ -166,13 +168,12 @@ serve(async (req) => {
           })
           .eq("id", item.id);
 
-        return new Response(JSON.stringify({ error: `HTTP ${response.status}` }), {
+        return new Response(JSON.stringify({ error: `HTTP ${aiError.status}` }), {
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
       }
 
-      const data = await response.json();
-      const imageData = data.choices?.[0]?.message?.images?.[0]?.image_url?.url;
+      const imageData = aiResult.images[0];
 
       if (!imageData) {
         console.error("No image returned from AI");
@@ -230,6 +231,7 @@ serve(async (req) => {
           digital_model_id: item.digital_model_id,
           recipe_id: item.recipe_id,
           prompt_used: item.prompt,
+          prompt_version_id: item.prompt_version_id,
           image_url: publicUrl,
           status: "completed",
         })
@@ -292,7 +294,7 @@ serve(async (req) => {
       });
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : "Unknown error";
-      const isTimeout = err instanceof Error && err.name === "AbortError";
+      const isTimeout = err instanceof AIProviderError && err.isTimeout;
       console.error(`Processing error:`, errorMessage);
 
       const shouldRetry = item.attempts < item.max_attempts;
@@ -1,4 +1,5 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireCaller, serviceHeaders } from "../_shared/auth.ts";
 
 declare const EdgeRuntime: {
   waitUntil(promise: Promise<unknown>): void;
@@ -34,6 +35,15 @@ Deno.serve(async (req) => {
   const startTime = Date.now();
 
   try {
+    const { caller, error: permissionError } = await requireCaller(req, {
+      functionName: "process-repose-queue-4k",
+      corsHeaders,
+      permission: "repose.rerender4k",
+    });
+    if (permissionError) {
+      return permissionError;
+    }
+
     const { batchId, pipelineJobId, imageSize, outputIds, resumeContext } = await req.json();
 
     if (!batchId || !pipelineJobId) {
@@ -198,13 +208,12 @@ async function processQueueBackground(
     console.log(`[process-repose-queue-4k] Approaching timeout, continuing in new worker...`);
 
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
     await fetch(`${supabaseUrl}/functions/v1/process-repose-queue-4k`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        Authorization: `Bearer ${supabaseKey}`,
+        ...(await serviceHeaders("process-repose-queue-4k")),
       },
       body: JSON.stringify({
         batchId,
@@ -271,7 +280,7 @@ async function processQueueBackground(
       // Process outputs (single at a time for 4K to avoid rate limits)
       const results = await Promise.allSettled(
         queuedOutputs.map((output: any) =>
-          processOutput(supabase, output.id, imageSize, processedIds)
+          processOutput(supabase, output.id, imageSize, pipelineJobId, processedIds)
         )
       );
 
@@ -352,6 +361,7 @@ async function processOutput(
   supabase: any,
   outputId: string,
   imageSize: string,
+  pipelineJobId: string,
   processedIds: Set<string>
 ): Promise<{ success: boolean }> {
   let lastError: Error | null = null;
@@ -375,7 +385,8 @@ async function processOutput(
 
       // Call the single generation function with imageSize
       const { data, error } = await supabase.functions.invoke("generate-repose-single", {
-        body: { outputId, imageSize },
+        headers: await serviceHeaders("generate-repose-single"),
+        body: { outputId, imageSize, pipelineJobId },
       });
 
       // Handle 202 Accepted (AI succeeded, upload in progress)
@@ -402,6 +413,7 @@ async function processOutput(
           console.log(`[process-repose-queue-4k] Output ${outputId} still uploading, invoking complete-repose-upload`);
           
           const { error: completeError } = await supabase.functions.invoke("complete-repose-upload", {
+            headers: await serviceHeaders("complete-repose-upload"),
             body: { outputId },
           });
           
@@ -462,6 +474,7 @@ async function processOutput(
           console.log(`[process-repose-queue-4k] Output ${outputId} stuck in uploading with temp, calling complete-repose-upload`);
           
           await supabase.functions.invoke("complete-repose-upload", {
+            headers: await serviceHeaders("complete-repose-upload"),
             body: { outputId },
           });
           
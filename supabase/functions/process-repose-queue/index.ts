@@ -1,4 +1,6 @@
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { selectPoses, type PoseSelectionMode } from "../_shared/pose-selection.ts";
+import { requireCaller, serviceHeaders } from "../_shared/auth.ts";
 
 declare const EdgeRuntime: {
   waitUntil(promise: Promise<unknown>): void;
@@ -28,6 +30,26 @@ const LOG_INTERVAL_MS = 10 * 1000;
 // Stale run threshold (2 minutes without heartbeat)
 const STALE_RUN_THRESHOLD_MS = 2 * 60 * 1000;
 
+interface RunConfigSnapshot {
+  brand_id?: string;
+  posesPerShotType?: number;
+  seed?: number;
+  poseSelection?: PoseSelectionMode;
+  shotTypes?: string[];
+}
+
+interface ClayImageRef {
+  id: string;
+  stored_url: string;
+}
+
+interface LibraryPose {
+  id: string;
+  slot: string | null;
+  product_type: string | null;
+  clay_images: ClayImageRef | null;
+}
+
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -36,6 +58,15 @@ Deno.serve(async (req) => {
   const startTime = Date.now();
 
   try {
+    const { caller, error: permissionError } = await requireCaller(req, {
+      functionName: "process-repose-queue",
+      corsHeaders,
+      permission: "repose.run",
+    });
+    if (permissionError) {
+      return permissionError;
+    }
+
     const { batchId, pipelineJobId, model, imageSize, resumeContext } = await req.json();
 
     if (!batchId) {
@@ -180,13 +211,12 @@ async function processQueueBackground(
     console.log(`[process-repose-queue] Approaching timeout, continuing in new worker...`);
     
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
     await fetch(`${supabaseUrl}/functions/v1/process-repose-queue`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        "Authorization": `Bearer ${supabaseKey}`,
+        ...(await serviceHeaders("process-repose-queue")),
       },
         body: JSON.stringify({
           batchId,
@@ -356,7 +386,8 @@ async function processRun(
 ) {
   const runId = run.id;
   const lookId = run.look_id;
-  const brandId = (run.config_snapshot as any)?.brand_id || run.brand_id;
+  const config = (run.config_snapshot || {}) as RunConfigSnapshot;
+  const brandId = config.brand_id || run.brand_id;
 
   try {
     console.log(`[process-repose-queue] Processing run ${runId} for look ${lookId}`);
@@ -400,6 +431,10 @@ async function processRun(
       });
     }
 
+    // Least-used picks update the usage counts item by item, so a fixed item
+    // order is needed for a seeded re-run to reproduce the same poses
+    lookItemsWithMapping.sort((a, b) => a.id.localeCompare(b.id));
+
     // DEBUG: Log all batch items found for this look
     console.log(`[process-repose-queue] Total batch items in batch: ${batchItems?.length || 0}`);
     console.log(`[process-repose-queue] Batch items for look ${lookId}: ${lookItemsWithMapping.length}`);
@@ -442,7 +477,7 @@ async function processRun(
     }
 
     // Get usable poses
-    const { data: poses } = await supabase
+    const { data: poses }: { data: LibraryPose[] | null } = await supabase
       .from("library_poses")
       .select(`
         id,
@@ -461,11 +496,42 @@ async function processRun(
     console.log(`[process-repose-queue] Found ${poses.length} usable poses for run ${runId}`);
 
     // Create output records
-    const posesPerType = (run.config_snapshot as any)?.posesPerShotType || 2;
+    const posesPerType = config.posesPerShotType || 2;
     const outputsToCreate: any[] = [];
 
+    // Seeded selection reproduces the same assignment on re-run; least-used
+    // balancing spreads renders evenly across the library, from usage counts
+    // frozen on the batch so re-runs see the same counts
+    const seed = config.seed ?? null;
+    const selectionMode: PoseSelectionMode = config.poseSelection || "random";
+    const poseUsage = selectionMode === "least_used"
+      ? await getPoseUsageSnapshot(supabase, batchId, library.id)
+      : undefined;
+    console.log(`[process-repose-queue] Pose selection: ${selectionMode}, seed ${seed ?? "none"}`);
+
+    // Per-look overrides (set in Batch Setup): pinned poses are always used,
+    // excluded poses are never drawn. Pinned poses may sit outside the
+    // library's usable set, so look those up directly.
+    const clayImageById = new Map<string, ClayImageRef>();
+    for (const p of poses) {
+      if (p.clay_images?.id) clayImageById.set(p.clay_images.id, p.clay_images);
+    }
+    const pinnedIds = new Set<string>();
+    for (const item of lookItemsWithMapping) {
+      const pinned = (item.pose_overrides?.pinned || {}) as Record<string, string[]>;
+      Object.values(pinned).flat().forEach((id) => pinnedIds.add(id));
+    }
+    const missingPinnedIds = [...pinnedIds].filter((id) => !clayImageById.has(id));
+    if (missingPinnedIds.length > 0) {
+      const { data: pinnedClay } = await supabase
+        .from("clay_images")
+        .select("id, stored_url")
+        .in("id", missingPinnedIds);
+      (pinnedClay as ClayImageRef[] | null)?.forEach((c) => clayImageById.set(c.id, c));
+    }
+
     // Get shot type filter from config_snapshot (for selective re-renders)
-    const configShotTypes = (run.config_snapshot as any)?.shotTypes as string[] | undefined;
+    const configShotTypes = config.shotTypes;
     if (configShotTypes?.length) {
       console.log(`[process-repose-queue] Using selective shot types from config: ${configShotTypes.join(", ")}`);
     }
@@ -509,9 +575,17 @@ async function processRun(
         shotTypes = filteredShotTypes;
       }
 
+      const excludedIds = new Set<string>(item.pose_overrides?.excluded || []);
+
       for (const shotType of shotTypes) {
+        const pinnedForShot: string[] = item.pose_overrides?.pinned?.[shotType] || [];
+        const pinnedPoses = pinnedForShot
+          .filter((id) => clayImageById.has(id))
+          .map((id) => ({ id, clay_images: clayImageById.get(id) }));
+
         // Filter poses by slot - each shot type uses its dedicated slot
-        let relevantPoses = poses.filter((p: any) => {
+        let relevantPoses = poses.filter((p) => {
+          if (p.clay_images && excludedIds.has(p.clay_images.id)) return false;
           const slot = (p.slot || "").toUpperCase();
           // Slot A = FRONT_FULL only (full-front clay poses)
           if (shotType === "FRONT_FULL") {
@@ -532,7 +606,7 @@ async function processRun(
         // Top → clay poses for upper-body crops, Trousers → clay poses for lower-body crops
         if (shotType === "FRONT_CROPPED" || shotType === "DETAIL") {
           const desiredPoseType = productType === "trousers" ? "trousers" : "top";
-          const matchingPoses = relevantPoses.filter((p: any) => {
+          const matchingPoses = relevantPoses.filter((p) => {
             const poseProductType = (p.product_type || "").toLowerCase();
             if (desiredPoseType === "top") {
               return poseProductType === "top" || poseProductType === "tops";
@@ -548,9 +622,24 @@ async function processRun(
           }
         }
 
-        // Random selection
-        const shuffled = relevantPoses.sort(() => Math.random() - 0.5);
-        const selectedPoses = shuffled.slice(0, posesPerType);
+        // Pinned poses first, then fill any remaining slots from the pool
+        if (pinnedPoses.length > 0) {
+          console.log(`[process-repose-queue] Using ${pinnedPoses.length} pinned poses for ${shotType} on item ${item.id}`);
+          const pinnedSet = new Set(pinnedForShot);
+          relevantPoses = relevantPoses.filter((p) => !p.clay_images || !pinnedSet.has(p.clay_images.id));
+        }
+        // Pinned poses are rendered too, so they count towards least-used balancing
+        if (poseUsage) {
+          for (const pose of pinnedPoses) poseUsage.set(pose.id, (poseUsage.get(pose.id) || 0) + 1);
+        }
+        const drawnPoses = selectPoses(relevantPoses, posesPerType - pinnedPoses.length, {
+          seed,
+          streamKey: [lookId, item.id, shotType],
+          mode: selectionMode,
+          usage: poseUsage,
+          getId: (p) => p.clay_images?.id || p.id,
+        });
+        const selectedPoses = [...pinnedPoses, ...drawnPoses];
 
         for (const pose of selectedPoses) {
           const clayImage = pose.clay_images as { id: string; stored_url: string } | null;
@@ -617,7 +706,8 @@ async function processRun(
               }
               
               const { error } = await supabase.functions.invoke("generate-repose-single", {
-                body: { outputId: output.id, model, imageSize },
+                headers: await serviceHeaders("generate-repose-single"),
+                body: { outputId: output.id, model, imageSize, pipelineJobId },
               });
               
               if (error) {
@@ -701,6 +791,58 @@ async function processRun(
   }
 }
 
+// Usage counts for least-used selection, frozen on the batch the first time a
+// run needs them. Runs are processed concurrently, so the write is a
+// compare-and-set on the previous value and everyone reads back what landed.
+// Returns a fresh Map per call since selectPoses updates it with each pick.
+async function getPoseUsageSnapshot(
+  supabase: SupabaseClient,
+  batchId: string,
+  libraryId: string,
+): Promise<Map<string, number>> {
+  type UsageSnapshot = Record<string, Record<string, number>>;
+
+  const readSnapshot = async (): Promise<UsageSnapshot | null> => {
+    const { data: batch } = await supabase
+      .from("repose_batches")
+      .select("pose_usage_snapshot")
+      .eq("id", batchId)
+      .single();
+    return (batch?.pose_usage_snapshot as UsageSnapshot | null) ?? null;
+  };
+
+  let snapshot = await readSnapshot();
+  if (!snapshot?.[libraryId]) {
+    const { data: usageRows, error: usageError } = await supabase.rpc("get_library_pose_usage", {
+      p_library_id: libraryId,
+    });
+    if (usageError) {
+      console.error(`[process-repose-queue] Failed to load pose usage, falling back to random:`, usageError);
+      return new Map();
+    }
+
+    const counts: Record<string, number> = {};
+    for (const row of (usageRows || []) as Array<{ clay_image_id: string; usage_count: number }>) {
+      counts[row.clay_image_id] = Number(row.usage_count);
+    }
+
+    // A run for another library may write in between; retry on top of its copy
+    for (let attempt = 0; attempt < 3 && !snapshot?.[libraryId]; attempt++) {
+      const update = supabase
+        .from("repose_batches")
+        .update({ pose_usage_snapshot: { ...snapshot, [libraryId]: counts } })
+        .eq("id", batchId);
+      await (snapshot
+        ? update.eq("pose_usage_snapshot", JSON.stringify(snapshot))
+        : update.is("pose_usage_snapshot", null));
+      snapshot = await readSnapshot();
+    }
+    console.log(`[process-repose-queue] Froze pose usage for library ${libraryId} on batch ${batchId}`);
+  }
+
+  return new Map(Object.entries(snapshot?.[libraryId] || {}));
+}
+
 async function markJobFailed(supabase: any, jobId: string, message: string) {
   await supabase
     .from("pipeline_jobs")
@@ -802,7 +944,8 @@ async function processOrphanedOutputs(
             }
             
             const { error } = await supabase.functions.invoke("generate-repose-single", {
-              body: { outputId: output.id, model, imageSize },
+              headers: await serviceHeaders("generate-repose-single"),
+              body: { outputId: output.id, model, imageSize, pipelineJobId },
             });
             
             if (error) {
@@ -0,0 +1,585 @@
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callAI, getAIConfigError, AIProviderError } from "../_shared/ai-provider.ts";
+import { requireCaller, serviceHeaders } from "../_shared/auth.ts";
+
+declare const EdgeRuntime: {
+  waitUntil(promise: Promise<unknown>): void;
+};
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Time limit for each worker invocation (50 seconds - Deno kills at ~60-90s)
+const MAX_PROCESSING_TIME_MS = 50 * 1000;
+
+// How often the running item's heartbeat_at is refreshed
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+// Timeout for a single AI generation call
+const AI_TIMEOUT_MS = 90 * 1000;
+
+const DEFAULT_MODEL = "google/gemini-2.5-flash-image-preview";
+
+// Workflow views map onto the face foundation views produced by face pairing
+const FOUNDATION_VIEW_MAP: Record<string, string> = {
+  full_front: "front",
+  cropped_front: "front",
+  detail: "front",
+  back: "back",
+  side: "side",
+};
+
+// Stage a look must be in for a job type, and the stage it moves to once done
+const STAGE_TRANSITIONS: Record<string, { from: string; to: string }> = {
+  crop: { from: "MODEL_PAIRED", to: "HEADS_CROPPED" },
+  match: { from: "HEADS_CROPPED", to: "FACE_MATCHED" },
+  generate: { from: "FACE_MATCHED", to: "GENERATED" },
+};
+
+const GENERATE_PROMPT = `Recreate image 1, keep the crop, pose and clothing exactly the same but put the head of image 2 on it. Keep face and lighting consistent from image 2.
+
+Model photographed in soft, high-key studio lighting against a clean white background with no visible texture. Light is diffused and even, creating minimal shadows. Colours are true-to-life with subtle contrast.`;
+
+interface WorkflowQueueMetadata {
+  cropX?: number;
+  cropY?: number;
+  cropWidth?: number;
+  cropHeight?: number;
+  outputSize?: number;
+  model?: string;
+  prompt?: string;
+  generation_run?: number;
+}
+
+interface WorkflowQueueItem {
+  id: string;
+  job_type: string;
+  look_id: string;
+  image_id: string | null;
+  attempts: number;
+  max_attempts: number;
+  metadata: WorkflowQueueMetadata | null;
+}
+
+interface WorkflowLook {
+  id: string;
+  project_id: string;
+  digital_talent_id: string | null;
+  generation_run_count: number | null;
+}
+
+interface WorkflowImage {
+  id: string;
+  view: string;
+  original_url: string;
+  converted_url: string | null;
+  head_cropped_url: string | null;
+  matched_face_url: string | null;
+}
+
+interface FaceFoundation {
+  id: string;
+  stored_url: string;
+  pairing: { digital_talent_id: string; cropped_face_id: string };
+}
+
+class RetryableError extends Error {
+  constructor(message: string, public retryAfterSeconds: number) {
+    super(message);
+    this.name = "RetryableError";
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const { caller, error: authError } = await requireCaller(req, {
+    functionName: "process-workflow-queue",
+    corsHeaders,
+    roles: ["internal"],
+  });
+  if (authError) {
+    return authError;
+  }
+
+  const startTime = Date.now();
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+  const supabase = createClient(supabaseUrl, supabaseKey);
+
+  try {
+    // Step 1: Recover items whose worker died (no heartbeat for 10 minutes)
+    const { data: recoveredCount } = await supabase.rpc("recover_stale_workflow_queue_items");
+    if (recoveredCount && recoveredCount > 0) {
+      console.log(`[process-workflow-queue] Recovered ${recoveredCount} stale queue items`);
+    }
+
+    EdgeRuntime.waitUntil(processQueueBackground(supabase, startTime, caller?.userId ?? null));
+
+    return new Response(
+      JSON.stringify({ success: true, message: "Workflow queue processing started" }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("[process-workflow-queue] Error:", error);
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
+
+// userId is whoever started the queue run; AI usage is recorded against them
+async function processQueueBackground(supabase: SupabaseClient, startTime: number, userId: string | null) {
+  let processed = 0;
+
+  while (Date.now() - startTime < MAX_PROCESSING_TIME_MS) {
+    // Step 2: Claim the highest-priority item atomically
+    const { data: claimed, error: claimError } = await supabase.rpc("claim_workflow_queue_items", {
+      p_batch_size: 1,
+    });
+
+    if (claimError) {
+      console.error("[process-workflow-queue] Claim error:", claimError);
+      return;
+    }
+
+    if (claimed && claimed.length > 0) {
+      await processItem(supabase, claimed[0] as WorkflowQueueItem, userId);
+      processed++;
+      continue;
+    }
+
+    // Nothing claimable - items may still be waiting out a retry backoff
+    const nextRetryAt = await getNextRetryAt(supabase);
+    if (nextRetryAt === null) {
+      console.log(`[process-workflow-queue] Queue drained after ${processed} items`);
+      return;
+    }
+
+    // Sleep until the earliest retry is due, or until this worker hands over
+    const timeLeft = MAX_PROCESSING_TIME_MS - (Date.now() - startTime);
+    const waitMs = Math.min(Math.max(nextRetryAt - Date.now(), 0) + 1000, timeLeft);
+    console.log(`[process-workflow-queue] Waiting ${Math.round(waitMs / 1000)}s for delayed retries`);
+    await new Promise((resolve) => setTimeout(resolve, waitMs));
+  }
+
+  // Out of time - hand over to a fresh worker if anything is still waiting,
+  // including items whose retry_after hasn't come round yet
+  const { count: remaining } = await supabase
+    .from("workflow_queue")
+    .select("*", { count: "exact", head: true })
+    .eq("status", "queued");
+
+  if (remaining && remaining > 0) {
+    console.log(`[process-workflow-queue] ${remaining} items remaining, continuing in new worker...`);
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+
+    await fetch(`${supabaseUrl}/functions/v1/process-workflow-queue`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(await serviceHeaders("process-workflow-queue", userId)),
+      },
+      body: JSON.stringify({}),
+    });
+  }
+}
+
+// Earliest time a queued item becomes claimable, or null if nothing is queued
+async function getNextRetryAt(supabase: SupabaseClient): Promise<number | null> {
+  const { data: next } = await supabase
+    .from("workflow_queue")
+    .select("retry_after")
+    .eq("status", "queued")
+    .order("retry_after", { ascending: true, nullsFirst: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (!next) return null;
+  return next.retry_after ? new Date(next.retry_after).getTime() : Date.now();
+}
+
+async function processItem(supabase: SupabaseClient, item: WorkflowQueueItem, userId: string | null) {
+  console.log(`[process-workflow-queue] Processing ${item.job_type} item ${item.id} for look ${item.look_id} (attempt ${item.attempts}/${item.max_attempts})`);
+
+  const heartbeat = setInterval(() => {
+    supabase
+      .from("workflow_queue")
+      .update({ heartbeat_at: new Date().toISOString() })
+      .eq("id", item.id)
+      .then(() => {});
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    // Step 3: Ghost prevention - the look or image may have been deleted
+    const { data: look } = await supabase
+      .from("workflow_looks")
+      .select("*")
+      .eq("id", item.look_id)
+      .maybeSingle<WorkflowLook>();
+
+    const { data: image } = item.image_id
+      ? await supabase.from("workflow_images").select("*").eq("id", item.image_id).maybeSingle<WorkflowImage>()
+      : { data: null };
+
+    if (!look || !image) {
+      console.log(`[process-workflow-queue] Look or image missing for item ${item.id}, failing`);
+      await supabase
+        .from("workflow_queue")
+        .update({
+          status: "failed",
+          error_message: "Look or image no longer exists",
+          completed_at: new Date().toISOString(),
+        })
+        .eq("id", item.id);
+      return;
+    }
+
+    // Step 4: Dispatch by job type
+    switch (item.job_type) {
+      case "crop":
+        await processCrop(supabase, item, image, userId);
+        break;
+      case "match":
+        await processMatch(supabase, look, image);
+        break;
+      case "generate":
+        await processGenerate(supabase, item, look, image, userId);
+        break;
+      default:
+        throw new Error(`Unknown job type: ${item.job_type}`);
+    }
+
+    // Step 5: Mark item completed
+    await supabase
+      .from("workflow_queue")
+      .update({
+        status: "completed",
+        error_message: null,
+        completed_at: new Date().toISOString(),
+        heartbeat_at: new Date().toISOString(),
+      })
+      .eq("id", item.id);
+
+    console.log(`[process-workflow-queue] Item ${item.id} completed`);
+
+    // Step 6: Advance the look once all of its work for this job type is done
+    await maybeAdvanceLookStage(supabase, look, item.job_type);
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : "Unknown error";
+    console.error(`[process-workflow-queue] Item ${item.id} failed:`, errorMessage);
+
+    const shouldRetry = item.attempts < item.max_attempts;
+    const backoffSeconds = err instanceof RetryableError
+      ? err.retryAfterSeconds
+      : 15 * item.attempts;
+
+    await supabase
+      .from("workflow_queue")
+      .update({
+        status: shouldRetry ? "queued" : "failed",
+        error_message: errorMessage.substring(0, 500),
+        retry_after: shouldRetry
+          ? new Date(Date.now() + backoffSeconds * 1000).toISOString()
+          : null,
+        completed_at: shouldRetry ? null : new Date().toISOString(),
+      })
+      .eq("id", item.id);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+async function processCrop(supabase: SupabaseClient, item: WorkflowQueueItem, image: WorkflowImage, userId: string | null) {
+  const imageUrl = image.converted_url || image.original_url;
+  const metadata = item.metadata || {};
+
+  let croppedUrl: string | undefined;
+
+  if (metadata.cropWidth && metadata.cropHeight) {
+    // Manual crop supplied in pixels
+    const { data, error } = await supabase.functions.invoke("crop-look-head", {
+      headers: await serviceHeaders("crop-look-head", userId),
+      body: {
+        imageUrl,
+        cropX: metadata.cropX,
+        cropY: metadata.cropY,
+        cropWidth: metadata.cropWidth,
+        cropHeight: metadata.cropHeight,
+        outputSize: metadata.outputSize || 1000,
+        imageId: image.id,
+      },
+    });
+    if (error) throw error;
+    croppedUrl = data?.croppedUrl;
+  } else {
+    // No crop supplied - ask the face detector for one (percentages)
+    const { data: detection, error: detectError } = await supabase.functions.invoke("detect-face-ai", {
+      headers: await serviceHeaders("detect-face-ai", userId),
+      body: { imageUrl, aspectRatio: "1:1" },
+    });
+    if (detectError) throw detectError;
+
+    const crop = detection?.suggestedCrop;
+    if (!crop) throw new Error("Face detection returned no crop");
+
+    const { data, error } = await supabase.functions.invoke("crop-and-store-image", {
+      headers: await serviceHeaders("crop-and-store-image", userId),
+      body: {
+        imageUrl,
+        cropX: crop.x,
+        cropY: crop.y,
+        cropWidth: crop.width,
+        cropHeight: crop.height,
+        cropId: `workflow-head-${image.id}`,
+        targetSize: metadata.outputSize || 1000,
+        mode: "bottom-half",
+      },
+    });
+    if (error) throw error;
+    croppedUrl = data?.croppedUrl;
+  }
+
+  if (!croppedUrl) throw new Error("No cropped URL returned");
+
+  await supabase
+    .from("workflow_images")
+    .update({ head_cropped_url: croppedUrl })
+    .eq("id", image.id);
+}
+
+async function processMatch(supabase: SupabaseClient, look: WorkflowLook, image: WorkflowImage) {
+  if (!look.digital_talent_id) {
+    throw new Error("Look has no digital talent paired");
+  }
+
+  // Fetch face foundations for the look's digital talent
+  const { data: foundations, error } = await supabase
+    .from("face_pairing_outputs")
+    .select(`
+      id,
+      stored_url,
+      pairing:face_pairings!inner(
+        digital_talent_id,
+        cropped_face_id
+      )
+    `)
+    .eq("status", "completed")
+    .eq("is_face_foundation", true)
+    .eq("pairing.digital_talent_id", look.digital_talent_id)
+    .not("stored_url", "is", null)
+    .returns<FaceFoundation[]>();
+
+  if (error) throw error;
+  if (!foundations || foundations.length === 0) {
+    throw new Error("No face foundations found for digital talent");
+  }
+
+  // Views of every foundation's source face in one query
+  const { data: identityImages, error: viewError } = await supabase
+    .from("face_identity_images")
+    .select("scrape_image_id, view")
+    .in("scrape_image_id", foundations.map((output) => output.pairing.cropped_face_id));
+
+  if (viewError) throw viewError;
+
+  const viewsByFace = new Map<string, string>();
+  for (const identityImage of identityImages || []) {
+    if (!viewsByFace.has(identityImage.scrape_image_id)) {
+      viewsByFace.set(identityImage.scrape_image_id, identityImage.view);
+    }
+  }
+
+  const wantedView = FOUNDATION_VIEW_MAP[image.view] || "front";
+  let match: FaceFoundation | null = null;
+  let fallback: FaceFoundation | null = null;
+
+  for (const output of foundations) {
+    const view = viewsByFace.get(output.pairing.cropped_face_id) || "front";
+    if (view === wantedView) {
+      match = output;
+      break;
+    }
+    if (!fallback || view === "front") {
+      fallback = output;
+    }
+  }
+
+  const chosen = match || fallback!;
+
+  await supabase
+    .from("workflow_images")
+    .update({
+      matched_face_url: chosen.stored_url,
+      matched_foundation_id: chosen.id,
+    })
+    .eq("id", image.id);
+}
+
+async function processGenerate(
+  supabase: SupabaseClient,
+  item: WorkflowQueueItem,
+  look: WorkflowLook,
+  image: WorkflowImage,
+  userId: string | null,
+) {
+  if (!image.head_cropped_url || !image.matched_face_url) {
+    throw new Error("Image is missing head crop or matched face");
+  }
+
+  const metadata = item.metadata || {};
+  const model = metadata.model || DEFAULT_MODEL;
+  const configError = getAIConfigError(model);
+  if (configError) {
+    throw new Error(configError);
+  }
+  const prompt = metadata.prompt || GENERATE_PROMPT;
+
+  const { data: project } = await supabase
+    .from("workflow_projects")
+    .select("brand_id")
+    .eq("id", look.project_id)
+    .maybeSingle();
+
+  const { data: output, error: insertError } = await supabase
+    .from("workflow_outputs")
+    .insert({
+      look_id: look.id,
+      image_id: image.id,
+      view: image.view,
+      status: "running",
+      generation_run: metadata.generation_run || (look.generation_run_count || 0) + 1,
+    })
+    .select()
+    .single();
+
+  if (insertError) throw insertError;
+
+  try {
+    let imageData: string | undefined;
+    try {
+      const aiResult = await callAI({
+        model,
+        parts: [
+          { type: "text", text: prompt },
+          { type: "image", url: image.head_cropped_url },
+          { type: "image", url: image.matched_face_url },
+        ],
+        wantImage: true,
+        timeoutMs: AI_TIMEOUT_MS,
+        usage: {
+          functionName: "process-workflow-queue",
+          brandId: project?.brand_id ?? null,
+          userId,
+          metadata: { workflowProjectId: look.project_id, lookId: look.id, outputId: output.id },
+        },
+      });
+      imageData = aiResult.images[0];
+    } catch (aiError) {
+      if (!(aiError instanceof AIProviderError) || aiError.status === null) throw aiError;
+      if (aiError.isRateLimited) {
+        // Rate limited - exponential backoff
+        const backoffSeconds = Math.min(60 * Math.pow(2, item.attempts - 1), 3600);
+        throw new RetryableError(`Rate limited, retry after ${backoffSeconds}s`, backoffSeconds);
+      }
+      throw new Error(`HTTP ${aiError.status}: ${aiError.body.substring(0, 200)}`);
+    }
+    if (!imageData) throw new Error("No image in response");
+
+    const base64Data = imageData.replace(/^data:image\/\w+;base64,/, "");
+    const imageBytes = Uint8Array.from(atob(base64Data), (c) => c.charCodeAt(0));
+    const fileName = `workflow/${look.project_id}/${look.id}/${output.id}.png`;
+
+    const { error: uploadError } = await supabase.storage.from("images").upload(fileName, imageBytes, {
+      contentType: "image/png",
+      upsert: true,
+    });
+    if (uploadError) throw new Error(`Upload failed: ${uploadError.message}`);
+
+    const { data: { publicUrl } } = supabase.storage.from("images").getPublicUrl(fileName);
+
+    await supabase
+      .from("workflow_outputs")
+      .update({ output_url: publicUrl, status: "completed" })
+      .eq("id", output.id);
+  } catch (err) {
+    await supabase
+      .from("workflow_outputs")
+      .update({ status: "failed" })
+      .eq("id", output.id);
+    if (err instanceof AIProviderError && err.isTimeout) {
+      throw new Error("Request timed out");
+    }
+    throw err;
+  }
+}
+
+async function maybeAdvanceLookStage(supabase: SupabaseClient, look: WorkflowLook, jobType: string) {
+  const transition = STAGE_TRANSITIONS[jobType];
+  if (!transition) return;
+
+  // Any other work of this type still pending for the look?
+  const { count: pendingCount } = await supabase
+    .from("workflow_queue")
+    .select("*", { count: "exact", head: true })
+    .eq("look_id", look.id)
+    .eq("job_type", jobType)
+    .in("status", ["queued", "running"]);
+
+  if (pendingCount && pendingCount > 0) return;
+
+  const { data: current } = await supabase
+    .from("workflow_looks")
+    .select("stage, generation_run_count")
+    .eq("id", look.id)
+    .single();
+
+  if (!current || current.stage !== transition.from) return;
+
+  const { data: images } = await supabase
+    .from("workflow_images")
+    .select("id, head_cropped_url, matched_face_url")
+    .eq("look_id", look.id)
+    .returns<Pick<WorkflowImage, "id" | "head_cropped_url" | "matched_face_url">[]>();
+
+  let ready = false;
+  if (jobType === "crop") {
+    ready = (images || []).every((img) => !!img.head_cropped_url);
+  } else if (jobType === "match") {
+    ready = (images || []).every((img) => !!img.matched_face_url);
+  } else if (jobType === "generate") {
+    const { count: completedOutputs } = await supabase
+      .from("workflow_outputs")
+      .select("*", { count: "exact", head: true })
+      .eq("look_id", look.id)
+      .eq("status", "completed");
+    ready = (completedOutputs || 0) > 0;
+  }
+
+  if (!ready) {
+    console.log(`[process-workflow-queue] Look ${look.id} finished ${jobType} work but is not ready to advance`);
+    return;
+  }
+
+  const update: Record<string, unknown> = {
+    stage: transition.to,
+    stage_updated_at: new Date().toISOString(),
+  };
+  if (jobType === "generate") {
+    update.generation_run_count = (current.generation_run_count || 0) + 1;
+  }
+
+  await supabase
+    .from("workflow_looks")
+    .update(update)
+    .eq("id", look.id);
+
+  console.log(`[process-workflow-queue] Look ${look.id} advanced ${transition.from} -> ${transition.to}`);
+}
@@ -1,4 +1,8 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callAI, AIProviderError } from "../_shared/ai-provider.ts";
+import { computeStoredImageDHash } from "../_shared/perceptual-hash.ts";
+import { requireCaller } from "../_shared/auth.ts";
+import type { AIUsageContext } from "../_shared/ai-usage.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -10,6 +14,15 @@ Deno.serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { caller, error: authError } = await requireCaller(req, {
+    functionName: "regenerate-face-output",
+    corsHeaders,
+    roles: ["internal"],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const { outputId } = await req.json();
 
@@ -22,7 +35,6 @@ Deno.serve(async (req) => {
 
     const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
     const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY")!;
 
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 
@@ -33,6 +45,8 @@ Deno.serve(async (req) => {
         *,
         job:face_application_jobs!inner(
           id,
+          project_id,
+          look_id,
           model,
           digital_talent_id
         )
@@ -139,32 +153,34 @@ Deno.serve(async (req) => {
     console.log(`Body: ${bodyImageUrl.substring(0, 60)}...`);
     console.log(`Face: ${faceFoundationUrl.substring(0, 60)}...`);
 
-    // Call AI API
-    const aiResponse = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
+    const usage: AIUsageContext = {
+      functionName: "regenerate-face-output",
+      userId: caller?.userId ?? null,
+      metadata: {
+        faceApplicationProjectId: job.project_id,
+        lookId: job.look_id,
+        faceApplicationJobId: job.id,
+        outputId,
       },
-      body: JSON.stringify({
+    };
+
+    // Call AI API
+    let generatedImageBase64: string | undefined;
+    try {
+      const aiResult = await callAI({
         model: model,
-        messages: [
-          {
-            role: "user",
-            content: [
-              { type: "text", text: prompt },
-              { type: "image_url", image_url: { url: bodyImageUrl } },
-              { type: "image_url", image_url: { url: faceFoundationUrl } },
-            ],
-          },
+        parts: [
+          { type: "text", text: prompt },
+          { type: "image", url: bodyImageUrl },
+          { type: "image", url: faceFoundationUrl },
         ],
-        modalities: ["image", "text"],
-      }),
-    });
-
-    if (!aiResponse.ok) {
-      const errText = await aiResponse.text();
-      console.error("AI API error:", errText);
+        wantImage: true,
+        usage,
+      });
+      generatedImageBase64 = aiResult.images[0];
+    } catch (aiError) {
+      if (!(aiError instanceof AIProviderError) || aiError.status === null) throw aiError;
+      console.error("AI API error:", aiError.body);
       await supabase
         .from("face_application_outputs")
         .update({ status: "failed" })
@@ -175,9 +191,6 @@ Deno.serve(async (req) => {
       );
     }
 
-    const aiData = await aiResponse.json();
-    const generatedImageBase64 = aiData.choices?.[0]?.message?.images?.[0]?.image_url?.url;
-
     if (!generatedImageBase64) {
       console.error("No image in AI response");
       await supabase
@@ -213,6 +226,7 @@ Deno.serve(async (req) => {
 
     const { data: publicUrl } = supabase.storage.from("images").getPublicUrl(fileName);
     const storedUrl = publicUrl.publicUrl;
+    const perceptualHash = await computeStoredImageDHash(storedUrl);
 
     // Update output
     await supabase
@@ -220,6 +234,7 @@ Deno.serve(async (req) => {
       .update({
         stored_url: storedUrl,
         status: "completed",
+        perceptual_hash: perceptualHash,
       })
       .eq("id", outputId);
 
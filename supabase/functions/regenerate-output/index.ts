@@ -1,6 +1,9 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callAI, AIProviderError } from "../_shared/ai-provider.ts";
+import { requireCaller } from "../_shared/auth.ts";
+import type { AIUsageContext } from "../_shared/ai-usage.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,6 +15,15 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { caller, error: authError } = await requireCaller(req, {
+    functionName: 'regenerate-output',
+    corsHeaders,
+    roles: ['internal'],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const { outputId } = await req.json();
 
@@ -24,7 +36,6 @@ serve(async (req) => {
 
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
-    const lovableApiKey = Deno.env.get('LOVABLE_API_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
     console.log(`[regenerate-output] Starting regeneration for output ${outputId}`);
@@ -106,32 +117,29 @@ serve(async (req) => {
       .update({ status: 'running' })
       .eq('id', outputId);
 
+    const usage: AIUsageContext = {
+      functionName: 'regenerate-output',
+      userId: caller?.userId ?? null,
+      metadata: { pairingJobId: pairing.job_id, pairingId: pairing.id, outputId },
+    };
+
     // Call AI for image generation
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${lovableApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
+    let images: string[];
+    try {
+      const aiResult = await callAI({
         model: model,
-        messages: [
-          {
-            role: 'user',
-            content: [
-              { type: 'text', text: finalPrompt },
-              { type: 'image_url', image_url: { url: image1Url } },
-              { type: 'image_url', image_url: { url: image2Url } }
-            ]
-          }
+        parts: [
+          { type: 'text', text: finalPrompt },
+          { type: 'image', url: image1Url },
+          { type: 'image', url: image2Url },
         ],
-        modalities: ['image', 'text']
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`[regenerate-output] AI API error: ${response.status} - ${errorText}`);
+        wantImage: true,
+        usage,
+      });
+      images = aiResult.images;
+    } catch (aiError) {
+      if (!(aiError instanceof AIProviderError) || aiError.status === null) throw aiError;
+      console.error(`[regenerate-output] AI API error: ${aiError.status} - ${aiError.body}`);
       
       await supabase
         .from('face_pairing_outputs')
@@ -144,9 +152,6 @@ serve(async (req) => {
       });
     }
 
-    const data = await response.json();
-    const images = data.choices?.[0]?.message?.images;
-
     if (!images || images.length === 0) {
       console.error('[regenerate-output] No image generated');
       
@@ -161,7 +166,7 @@ serve(async (req) => {
       });
     }
 
-    const generatedImageUrl = images[0].image_url?.url;
+    const generatedImageUrl = images[0];
 
     // Upload to storage with unique filename
     const timestamp = Date.now();
@@ -1,4 +1,5 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireCaller, serviceHeaders } from "../_shared/auth.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -21,6 +22,15 @@ Deno.serve(async (req) => {
   }
 
   try {
+    const { caller, error: permissionError } = await requireCaller(req, {
+      functionName: "rerender-favorites-4k",
+      corsHeaders,
+      permission: "repose.rerender4k",
+    });
+    if (permissionError) {
+      return permissionError;
+    }
+
     const { batchId, lookIds, shotTypes, imageSize = "4K" } = await req.json();
 
     if (!batchId) {
@@ -173,7 +183,7 @@ Deno.serve(async (req) => {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        "Authorization": `Bearer ${supabaseKey}`,
+        ...(await serviceHeaders("process-repose-queue-4k", caller?.userId ?? null)),
       },
       body: JSON.stringify({
         batchId,
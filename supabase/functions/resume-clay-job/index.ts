@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireCaller, serviceHeaders } from "../_shared/auth.ts";
 
 declare const EdgeRuntime: {
   waitUntil(promise: Promise<unknown>): void;
@@ -15,6 +16,15 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { error: authError } = await requireCaller(req, {
+    functionName: "resume-clay-job",
+    corsHeaders,
+    roles: ["internal"],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const { jobId } = await req.json();
 
@@ -184,7 +194,8 @@ async function processRemainingImages(
       try {
         // Call generate-clay-single for this image
         const response = await supabase.functions.invoke("generate-clay-single", {
-          body: { imageId: img.id, model }
+          headers: await serviceHeaders("generate-clay-single"),
+          body: { imageId: img.id, model, pipelineJobId: jobId }
         });
 
         if (response.error) {
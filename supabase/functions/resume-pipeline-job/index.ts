@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireCaller, serviceHeaders } from "../_shared/auth.ts";
 
 declare const EdgeRuntime: {
   waitUntil(promise: Promise<unknown>): void;
@@ -38,6 +39,15 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { error: authError } = await requireCaller(req, {
+    functionName: "resume-pipeline-job",
+    corsHeaders,
+    roles: ["internal"],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const { jobId } = await req.json();
 
@@ -218,7 +228,8 @@ async function resumeClayGeneration(supabase: any, job: PipelineJob) {
     const img = remaining[i];
     try {
       const response = await supabase.functions.invoke("generate-clay-single", {
-        body: { imageId: img.id, model }
+        headers: await serviceHeaders("generate-clay-single"),
+        body: { imageId: img.id, model, pipelineJobId: job.id }
       });
       if (response.error) {
         failCount++;
@@ -557,7 +568,8 @@ async function resumeReposeGeneration(supabase: any, job: PipelineJob) {
     const output = queuedOutputs[i];
     try {
       const response = await supabase.functions.invoke("generate-repose-single", {
-        body: { outputId: output.id, model }
+        headers: await serviceHeaders("generate-repose-single"),
+        body: { outputId: output.id, model, pipelineJobId: job.id }
       });
 
       if (response.error) {
@@ -622,6 +634,7 @@ async function resumeOrganizeFaces(supabase: any, job: PipelineJob) {
   // This allows it to resume from where it left off instead of creating a new job
   try {
     const response = await supabase.functions.invoke("organize-face-images", {
+      headers: await serviceHeaders("organize-face-images"),
       body: { 
         scrapeRunId, 
         resumeJobId: job.id,
@@ -654,16 +667,12 @@ async function resumeClassifyFaces(supabase: any, job: PipelineJob) {
   const context = job.origin_context || {};
   const scrapeRunId = context.scrape_run_id as string;
   const currentStep = (context.current_step as number) || 1;
-  
-  // Extract step3 indices for inner-loop resumption
-  const step3Index = (context.step3Index as number) || 0;
-  const step3InnerIndex = (context.step3InnerIndex as number) || 0;
 
   if (!scrapeRunId) {
     throw new Error("Job context missing scrape_run_id");
   }
 
-  console.log(`[resume-pipeline-job/classify] Resuming classification for scrape run ${scrapeRunId} from step ${currentStep} (step3Index=${step3Index}, step3InnerIndex=${step3InnerIndex})`);
+  console.log(`[resume-pipeline-job/classify] Resuming classification for scrape run ${scrapeRunId} from step ${currentStep}`);
 
   // Update job status
   await supabase
@@ -673,21 +682,16 @@ async function resumeClassifyFaces(supabase: any, job: PipelineJob) {
     })
     .eq("id", job.id);
 
-  // Build resume context - pass through step3 indices for proper inner loop resumption
-  const resumeContext: Record<string, number> = {};
-  if (currentStep === 3) {
-    resumeContext.step3Index = step3Index;
-    resumeContext.step3InnerIndex = step3InnerIndex;
-  }
-
   // Invoke the classify-all function to continue processing
   try {
     const response = await supabase.functions.invoke("classify-all", {
+      headers: await serviceHeaders("classify-all"),
       body: { 
         runId: scrapeRunId, 
         pipelineJobId: job.id,
         resumeFromStep: currentStep,
-        resumeContext
+        // Same context classify-all hands its own continuations (step indexes, rejected face pairs)
+        resumeContext: context
       }
     });
 
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireCaller, serviceHeaders } from "../_shared/auth.ts";
 
 declare const EdgeRuntime: {
   waitUntil(promise: Promise<unknown>): void;
@@ -15,6 +16,15 @@ serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { error: authError } = await requireCaller(req, {
+    functionName: "resume-repose-job",
+    corsHeaders,
+    roles: ["internal"],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const { jobId } = await req.json();
 
@@ -198,7 +208,8 @@ async function processQueuedOutputs(
 
         // Call generate-repose-single for this output
         const response = await supabase.functions.invoke("generate-repose-single", {
-          body: { outputId: output.id, model }
+          headers: await serviceHeaders("generate-repose-single"),
+          body: { outputId: output.id, model, pipelineJobId: jobId }
         });
 
         if (response.error) {
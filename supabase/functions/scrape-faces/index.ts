@@ -1,46 +1,11 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { requireCaller } from '../_shared/auth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Helper function to verify authentication
-async function verifyAuth(req: Request): Promise<{ userId: string | null; error: Response | null }> {
-  const authHeader = req.headers.get('Authorization');
-  if (!authHeader?.startsWith('Bearer ')) {
-    return {
-      userId: null,
-      error: new Response(
-        JSON.stringify({ error: 'Unauthorized' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    };
-  }
-
-  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
-  const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
-  
-  const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-    global: { headers: { Authorization: authHeader } }
-  });
-
-  const token = authHeader.replace('Bearer ', '');
-  const { data, error } = await supabase.auth.getClaims(token);
-  
-  if (error || !data?.claims) {
-    return {
-      userId: null,
-      error: new Response(
-        JSON.stringify({ error: 'Unauthorized' }),
-        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      )
-    };
-  }
-
-  return { userId: data.claims.sub as string, error: null };
-}
-
 Deno.serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
@@ -48,11 +13,15 @@ Deno.serve(async (req) => {
 
   try {
     // Verify authentication
-    const { userId, error: authError } = await verifyAuth(req);
+    const { caller, error: authError } = await requireCaller(req, {
+      functionName: 'scrape-faces',
+      corsHeaders,
+      roles: ['internal'],
+    });
     if (authError) {
       return authError;
     }
-    console.log(`Authenticated user: ${userId}`);
+    console.log(`Authenticated caller: ${caller?.userId ?? 'service'}`);
 
     const { startUrl, brandName, maxProducts = 200, imagesPerProduct = 4 } = await req.json();
 
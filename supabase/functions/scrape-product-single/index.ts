@@ -1,6 +1,9 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { callAI, AIProviderError } from "../_shared/ai-provider.ts";
+import { requireCaller } from "../_shared/auth.ts";
+import type { AIUsageContext } from "../_shared/ai-usage.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -10,13 +13,21 @@ const corsHeaders = {
 const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
 const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
 const firecrawlApiKey = Deno.env.get('FIRECRAWL_API_KEY')!;
-const lovableApiKey = Deno.env.get('LOVABLE_API_KEY')!;
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
+  const { caller, error: authError } = await requireCaller(req, {
+    functionName: 'scrape-product-single',
+    corsHeaders,
+    roles: ['internal'],
+  });
+  if (authError) {
+    return authError;
+  }
+
   try {
     const { brandId, productUrl, jobId } = await req.json();
 
@@ -100,7 +111,13 @@ serve(async (req) => {
     console.log(`Found ${imageUrls.length} product images`);
 
     // Use AI to classify from the first image
-    const classification = await classifyProductFromImage(imageUrls[0], urlProductType);
+    const usage: AIUsageContext = {
+      functionName: 'scrape-product-single',
+      brandId,
+      userId: caller?.userId ?? null,
+      metadata: { scrapeJobId: jobId ?? null, productUrl },
+    };
+    const classification = await classifyProductFromImage(imageUrls[0], urlProductType, usage);
     const finalGender = classification.gender || urlGender;
     const finalProductType = classification.productType;
 
@@ -202,87 +219,56 @@ function classifyProductTypeFromUrl(url: string): 'tops' | 'trousers' | null {
 }
 
 // AI-powered classification
-async function classifyProductFromImage(imageUrl: string, urlProductType: 'tops' | 'trousers' | null): Promise<{ gender: string | null; productType: string | null }> {
+async function classifyProductFromImage(imageUrl: string, urlProductType: 'tops' | 'trousers' | null, usage: AIUsageContext): Promise<{ gender: string | null; productType: string | null }> {
   try {
     console.log(`Classifying image: ${imageUrl.substring(0, 80)}...`);
     
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000);
-    
-    const response = await fetch('https://ai.gateway.lovable.dev/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${lovableApiKey}`,
-        'Content-Type': 'application/json',
-      },
-      signal: controller.signal,
-      body: JSON.stringify({
+    let args: { gender?: string; productType?: string } | null;
+    try {
+      const response = await callAI({
         model: 'google/gemini-2.5-flash',
-        messages: [
-          {
-            role: 'system',
-            content: `You are a fashion product classifier. Analyze the clothing image and determine:
+        systemPrompt: `You are a fashion product classifier. Analyze the clothing image and determine:
 1. Gender: Is this a men's or women's garment?
 2. Product Type: Is this primarily a TOP or TROUSERS?
 
-IMPORTANT: If the image shows a full outfit, look at the page context and focus area.`
-          },
-          {
-            role: 'user',
-            content: [
-              {
-                type: 'image_url',
-                image_url: { url: imageUrl }
-              },
-              {
-                type: 'text',
-                text: 'Classify this clothing item.'
-              }
-            ]
-          }
+IMPORTANT: If the image shows a full outfit, look at the page context and focus area.`,
+        parts: [
+          { type: 'image', url: imageUrl },
+          { type: 'text', text: 'Classify this clothing item.' },
         ],
-        tools: [
-          {
-            type: 'function',
-            function: {
-              name: 'classify_product',
-              description: 'Classify a clothing product by gender and type',
-              parameters: {
-                type: 'object',
-                properties: {
-                  gender: {
-                    type: 'string',
-                    enum: ['men', 'women'],
-                    description: 'The target gender for this garment'
-                  },
-                  productType: {
-                    type: 'string',
-                    enum: ['tops', 'trousers'],
-                    description: 'Whether this is a top or bottom/trousers'
-                  }
-                },
-                required: []
+        tool: {
+          name: 'classify_product',
+          description: 'Classify a clothing product by gender and type',
+          parameters: {
+            type: 'object',
+            properties: {
+              gender: {
+                type: 'string',
+                enum: ['men', 'women'],
+                description: 'The target gender for this garment'
+              },
+              productType: {
+                type: 'string',
+                enum: ['tops', 'trousers'],
+                description: 'Whether this is a top or bottom/trousers'
               }
-            }
+            },
+            required: []
           }
-        ],
-        tool_choice: { type: 'function', function: { name: 'classify_product' } },
-        max_tokens: 150
-      }),
-    });
-    
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      console.error('AI classification failed:', response.status);
+        },
+        maxTokens: 150,
+        timeoutMs: 30000,
+        mock: { toolArguments: { gender: 'women', productType: 'tops' } },
+        usage,
+      });
+      args = response.toolArguments as typeof args;
+    } catch (aiError) {
+      if (!(aiError instanceof AIProviderError) || aiError.status === null) throw aiError;
+      console.error('AI classification failed:', aiError.status);
       return { gender: null, productType: urlProductType };
     }
 
-    const data = await response.json();
-    
-    const toolCall = data.choices?.[0]?.message?.tool_calls?.[0];
-    if (toolCall?.function?.arguments) {
-      const args = JSON.parse(toolCall.function.arguments);
+    if (args) {
       console.log(`AI Classification result:`, args);
       
       const finalProductType = urlProductType || args.productType || null;
@@ -295,7 +281,7 @@ IMPORTANT: If the image shows a full outfit, look at the page context and focus
 
     return { gender: null, productType: urlProductType };
   } catch (err) {
-    if (err instanceof Error && err.name === 'AbortError') {
+    if (err instanceof AIProviderError && err.isTimeout) {
       console.error('AI classification timed out after 30 seconds');
     } else {
       console.error('Error classifying image:', err);
@@ -0,0 +1,257 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createMailTransport } from "../_shared/mail-transport.ts";
+import { requireCaller } from "../_shared/auth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Batches each user's unread notifications into one email. Meant to be run
+// hourly by a scheduler; users on the daily digest are only emailed once their
+// last digest is 24h old. Pass { userId } to send one user's digest now.
+
+const DIGEST_INTERVAL_MS: Record<string, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+};
+const MAX_PENDING_NOTIFICATIONS = 2000;
+
+// Mirrors NOTIFICATION_TYPE_LABELS in src/lib/notifications.ts
+const TYPE_LABELS: Record<string, string> = {
+  JOB_SUBMITTED: "Job submitted",
+  COMMENT_MENTION: "Mentioned you",
+  CHANGES_REQUESTED: "Changes requested",
+  JOB_APPROVED: "Job approved",
+  COMMENT_REPLY: "Replied to you",
+  JOB_DUE_SOON: "Job due soon",
+  JOB_RECLAIMED: "Job returned to the pool",
+};
+
+interface PendingNotification {
+  id: string;
+  user_id: string;
+  type: string;
+  job_id: string | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+interface PreferencesRow {
+  user_id: string;
+  email_digest: string;
+  email_muted_types: string[];
+  last_digest_sent_at: string | null;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+// Mirrors getNotificationSummary in src/lib/notifications.ts
+function describe(notification: PendingNotification): string {
+  const label = TYPE_LABELS[notification.type] || notification.type;
+  const actorName = notification.metadata?.actorName;
+  const assetLabel = notification.metadata?.assetLabel;
+  const action = typeof actorName === "string" && ["COMMENT_MENTION", "COMMENT_REPLY"].includes(notification.type)
+    ? `${actorName} ${label.toLowerCase()}`
+    : label;
+  return typeof assetLabel === "string" && assetLabel ? `${action} on ${assetLabel}` : action;
+}
+
+function jobLink(appUrl: string | undefined, jobId: string, isInternal: boolean): string | null {
+  if (!appUrl) return null;
+  return isInternal ? `${appUrl}/jobs?review=${jobId}` : `${appUrl}/work/${jobId}`;
+}
+
+function buildDigest(
+  notifications: PendingNotification[],
+  jobTitles: Map<string, string>,
+  isInternal: boolean,
+  appUrl: string | undefined
+) {
+  const byJob = new Map<string, PendingNotification[]>();
+  for (const notification of notifications) {
+    const key = notification.job_id || "general";
+    if (!byJob.has(key)) byJob.set(key, []);
+    byJob.get(key)!.push(notification);
+  }
+
+  const textSections: string[] = [];
+  const htmlSections: string[] = [];
+
+  for (const [key, items] of byJob) {
+    const title = key === "general" ? "General" : jobTitles.get(key) || "Untitled job";
+    const link = key === "general" ? null : jobLink(appUrl, key, isInternal);
+    const lines = items.map((n) => `${describe(n)} (${new Date(n.created_at).toUTCString()})`);
+
+    textSections.push([title, ...lines.map((l) => `  - ${l}`), ...(link ? [`  ${link}`] : [])].join("\n"));
+    htmlSections.push(
+      `<h3 style="margin:16px 0 4px">${link ? `<a href="${escapeHtml(link)}">${escapeHtml(title)}</a>` : escapeHtml(title)}</h3>` +
+        `<ul style="margin:0;padding-left:20px">${lines.map((l) => `<li>${escapeHtml(l)}</li>`).join("")}</ul>`
+    );
+  }
+
+  const count = notifications.length;
+  const subject = `You have ${count} unread notification${count === 1 ? "" : "s"}`;
+  return {
+    subject,
+    text: `${subject}\n\n${textSections.join("\n\n")}`,
+    html: `<p>${escapeHtml(subject)}</p>${htmlSections.join("")}`,
+  };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const { error: authError } = await requireCaller(req, {
+    functionName: "send-notification-digest",
+    corsHeaders,
+    serviceOnly: true,
+  });
+  if (authError) {
+    return authError;
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const onlyUserId: string | undefined = body?.userId;
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+    const appUrl = Deno.env.get("APP_URL")?.replace(/\/$/, "");
+
+    let pendingQuery = supabase
+      .from("notifications")
+      .select("id, user_id, type, job_id, metadata, created_at")
+      .is("read_at", null)
+      .is("emailed_at", null)
+      .not("user_id", "is", null)
+      .order("created_at", { ascending: true })
+      .limit(MAX_PENDING_NOTIFICATIONS);
+
+    if (onlyUserId) {
+      pendingQuery = pendingQuery.eq("user_id", onlyUserId);
+    }
+
+    const { data: pending, error: pendingError } = await pendingQuery;
+    if (pendingError) throw pendingError;
+
+    const byUser = new Map<string, PendingNotification[]>();
+    for (const notification of (pending || []) as PendingNotification[]) {
+      if (!byUser.has(notification.user_id)) byUser.set(notification.user_id, []);
+      byUser.get(notification.user_id)!.push(notification);
+    }
+
+    if (byUser.size === 0) {
+      return jsonResponse({ success: true, sent: 0, skipped: 0, failed: 0 });
+    }
+
+    const userIds = Array.from(byUser.keys());
+    const jobIds = Array.from(new Set((pending || []).map((n) => n.job_id).filter(Boolean))) as string[];
+
+    const [{ data: prefsRows }, { data: users }, { data: roles }, { data: jobs }] = await Promise.all([
+      supabase
+        .from("notification_preferences")
+        .select("user_id, email_digest, email_muted_types, last_digest_sent_at")
+        .in("user_id", userIds),
+      supabase.from("users").select("id, email").in("id", userIds),
+      supabase.from("user_roles").select("user_id, role").in("user_id", userIds),
+      jobIds.length > 0
+        ? supabase.from("unified_jobs").select("id, title").in("id", jobIds)
+        : Promise.resolve({ data: [] as { id: string; title: string | null }[] }),
+    ]);
+
+    const prefsByUser = new Map(((prefsRows || []) as PreferencesRow[]).map((p) => [p.user_id, p]));
+    const emailByUser = new Map<string, string>((users || []).map((u) => [u.id, u.email]));
+    const internalUsers = new Set(
+      (roles || []).filter((r) => r.role === "admin" || r.role === "internal").map((r) => r.user_id)
+    );
+    const jobTitles = new Map<string, string>((jobs || []).map((j) => [j.id, j.title || "Untitled job"]));
+
+    const transport = await createMailTransport();
+    console.log(`[send-notification-digest] ${byUser.size} user(s) with pending notifications, transport: ${transport.name}`);
+
+    let sent = 0;
+    let skipped = 0;
+    let failed = 0;
+    const now = Date.now();
+
+    // Notifications that will never be emailed (digest off, no address, muted
+    // type) are stamped as if they had been, so they don't sit at the front of
+    // the oldest-first window and crowd out everyone else's. They stay unread
+    // in the app either way.
+    const settle = async (ids: string[]) => {
+      if (ids.length === 0) return;
+      const { error } = await supabase
+        .from("notifications")
+        .update({ emailed_at: new Date().toISOString() })
+        .in("id", ids);
+      if (error) console.error("[send-notification-digest] Failed to settle skipped notifications:", error);
+    };
+
+    try {
+      for (const [userId, notifications] of byUser) {
+        // Users without a preferences row get the default daily digest
+        const prefs = prefsByUser.get(userId);
+        const frequency = prefs?.email_digest || "daily";
+        const interval = DIGEST_INTERVAL_MS[frequency];
+        const lastSent = prefs?.last_digest_sent_at ? new Date(prefs.last_digest_sent_at).getTime() : 0;
+        const email = emailByUser.get(userId);
+
+        if (!interval || !email) {
+          await settle(notifications.map((n) => n.id));
+          skipped++;
+          continue;
+        }
+
+        const mutedTypes = new Set(prefs?.email_muted_types || []);
+        const included = notifications.filter((n) => !mutedTypes.has(n.type));
+        await settle(notifications.filter((n) => mutedTypes.has(n.type)).map((n) => n.id));
+
+        if (included.length === 0 || (!onlyUserId && now - lastSent < interval)) {
+          skipped++;
+          continue;
+        }
+
+        try {
+          const digest = buildDigest(included, jobTitles, internalUsers.has(userId), appUrl);
+          await transport.send({ to: email, ...digest });
+
+          const sentAt = new Date().toISOString();
+          await supabase
+            .from("notifications")
+            .update({ emailed_at: sentAt })
+            .in("id", included.map((n) => n.id));
+          await supabase
+            .from("notification_preferences")
+            .upsert({ user_id: userId, last_digest_sent_at: sentAt }, { onConflict: "user_id" });
+
+          sent++;
+        } catch (sendError) {
+          // Leave the notifications pending so the next run retries them
+          console.error(`[send-notification-digest] Failed to email ${userId}:`, sendError);
+          failed++;
+        }
+      }
+    } finally {
+      await transport.close?.();
+    }
+
+    console.log(`[send-notification-digest] Sent ${sent}, skipped ${skipped}, failed ${failed}`);
+    return jsonResponse({ success: true, sent, skipped, failed });
+  } catch (error: unknown) {
+    console.error("[send-notification-digest] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: message }, 500);
+  }
+});
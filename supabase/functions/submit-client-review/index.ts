@@ -0,0 +1,262 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { verifyReviewAccessToken } from "../_shared/auth.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Applies a client's decisions on a Repose Production review back to
+// repose_outputs. Clients are anonymous, so the write-back runs here with the
+// service role and every favourite/rank change is recorded in
+// repose_selection_audit. The link must still be active, password-protected
+// reviews need the access token verify-review-password issued, and only
+// outputs from the review's own batch are ever touched.
+
+const MAX_FAVORITES_PER_VIEW = 3;
+
+interface DecisionInput {
+  lookCode: string;
+  shotType: string;
+  decision: "approved" | "rejected";
+  rankedOutputIds?: string[];
+}
+
+interface CommentInput {
+  itemId: string;
+  comment: string;
+  pinX?: number | null;
+  pinY?: number | null;
+}
+
+interface ReviewItemRow {
+  id: string;
+  repose_output_id: string | null;
+  look_code: string | null;
+  shot_type: string | null;
+}
+
+interface ReposeOutputRow {
+  id: string;
+  batch_id: string;
+  is_favorite: boolean | null;
+  favorite_rank: number | null;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+const clampPin = (value: number | null | undefined) =>
+  typeof value === "number" && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : null;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { reviewId, accessToken, decisions = [], comments = [] } = await req.json() as {
+      reviewId?: string;
+      accessToken?: string;
+      decisions?: DecisionInput[];
+      comments?: CommentInput[];
+    };
+
+    if (!reviewId) {
+      return jsonResponse({ error: "reviewId is required" }, 400);
+    }
+
+    const SUPABASE_URL = Deno.env.get("SUPABASE_URL")!;
+    const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    const { data: review, error: reviewError } = await supabase
+      .from("client_reviews")
+      .select("id, repose_batch_id, password_hash")
+      .eq("id", reviewId)
+      .maybeSingle();
+
+    if (reviewError) throw reviewError;
+    if (!review?.repose_batch_id) {
+      return jsonResponse({ error: "Review not found or not a Repose Production review" }, 404);
+    }
+
+    const { data: isActive, error: activeError } = await supabase.rpc("is_client_review_active", {
+      p_review_id: reviewId,
+    });
+    if (activeError) throw activeError;
+    if (!isActive) {
+      return jsonResponse({ error: "This review link has expired or been revoked" }, 403);
+    }
+
+    if (review.password_hash && !(await verifyReviewAccessToken(accessToken, reviewId))) {
+      return jsonResponse({ error: "Review password required", passwordRequired: true }, 401);
+    }
+
+    const { data: itemRows, error: itemsError } = await supabase
+      .from("client_review_items")
+      .select("id, repose_output_id, look_code, shot_type")
+      .eq("review_id", reviewId);
+
+    if (itemsError) throw itemsError;
+
+    // Items are writable through the link, so an output id on one proves nothing.
+    // Keep only items whose output is in the review's batch.
+    const linkedOutputIds = [
+      ...new Set((itemRows || []).map((i) => i.repose_output_id).filter((id): id is string => !!id)),
+    ];
+    const outputs = new Map<string, ReposeOutputRow>();
+    if (linkedOutputIds.length > 0) {
+      const { data: outputRows, error: outputsError } = await supabase
+        .from("repose_outputs")
+        .select("id, batch_id, is_favorite, favorite_rank")
+        .eq("batch_id", review.repose_batch_id)
+        .in("id", linkedOutputIds)
+        .returns<ReposeOutputRow[]>();
+
+      if (outputsError) throw outputsError;
+      for (const output of outputRows || []) outputs.set(output.id, output);
+    }
+
+    const items = ((itemRows || []) as ReviewItemRow[]).filter(
+      (i) => !i.repose_output_id || outputs.has(i.repose_output_id)
+    );
+    if (items.length < (itemRows || []).length) {
+      console.warn(`[submit-client-review] ${reviewId}: ignored ${(itemRows || []).length - items.length} items outside batch ${review.repose_batch_id}`);
+    }
+    const itemIds = new Set(items.map((i) => i.id));
+
+    // Pinned comments - replaced wholesale like the legacy feedback flow
+    const feedbackRecords = comments
+      .filter((c) => itemIds.has(c.itemId) && c.comment?.trim())
+      .map((c) => ({
+        review_id: reviewId,
+        item_id: c.itemId,
+        comment: c.comment.trim(),
+        pin_x: clampPin(c.pinX),
+        pin_y: clampPin(c.pinY),
+      }));
+
+    const { error: deleteFeedbackError } = await supabase
+      .from("client_review_feedback")
+      .delete()
+      .eq("review_id", reviewId);
+    if (deleteFeedbackError) throw deleteFeedbackError;
+
+    if (feedbackRecords.length > 0) {
+      const { error } = await supabase.from("client_review_feedback").insert(feedbackRecords);
+      if (error) throw error;
+    }
+
+    // Decisions, keyed by look + shot type
+    const decisionRecords = decisions
+      .filter((d) => d.decision === "approved" || d.decision === "rejected")
+      .map((d) => {
+        const viewOutputIds = new Set(
+          items
+            .filter((i) => i.look_code === d.lookCode && i.shot_type === d.shotType)
+            .map((i) => i.repose_output_id)
+        );
+        return {
+          review_id: reviewId,
+          look_code: d.lookCode,
+          shot_type: d.shotType,
+          decision: d.decision,
+          ranked_output_ids: (d.rankedOutputIds || []).filter((id) => viewOutputIds.has(id)),
+        };
+      })
+      .filter((d) => items.some((i) => i.look_code === d.look_code && i.shot_type === d.shot_type));
+
+    const { error: deleteDecisionsError } = await supabase
+      .from("client_review_decisions")
+      .delete()
+      .eq("review_id", reviewId);
+    if (deleteDecisionsError) throw deleteDecisionsError;
+
+    if (decisionRecords.length > 0) {
+      const { error } = await supabase.from("client_review_decisions").insert(decisionRecords);
+      if (error) throw error;
+    }
+
+    // Work out the target favourite state for every output the client decided on
+    const targets = new Map<string, { isFavorite: boolean; rank: number | null }>();
+    for (const decision of decisionRecords) {
+      const viewOutputIds = items
+        .filter((i) => i.look_code === decision.look_code && i.shot_type === decision.shot_type && i.repose_output_id)
+        .map((i) => i.repose_output_id as string);
+
+      for (const outputId of viewOutputIds) {
+        const rankIndex = decision.ranked_output_ids.indexOf(outputId);
+        const keep = decision.decision === "approved" && rankIndex !== -1 && rankIndex < MAX_FAVORITES_PER_VIEW;
+        targets.set(outputId, { isFavorite: keep, rank: keep ? rankIndex + 1 : null });
+      }
+    }
+
+    let updated = 0;
+    if (targets.size > 0) {
+      const changed = [...targets.keys()].map((id) => outputs.get(id)!).filter((o) => {
+        const target = targets.get(o.id)!;
+        return !!o.is_favorite !== target.isFavorite || (o.favorite_rank ?? null) !== target.rank;
+      });
+
+      // Clear ranks first so reordering never leaves two outputs on the same rank mid-update
+      const rankMoves = changed.filter((o) => o.favorite_rank !== null);
+      if (rankMoves.length > 0) {
+        const { error } = await supabase
+          .from("repose_outputs")
+          .update({ favorite_rank: null })
+          .in("id", rankMoves.map((o) => o.id));
+        if (error) throw error;
+      }
+
+      const now = new Date().toISOString();
+      for (const output of changed) {
+        const target = targets.get(output.id)!;
+        const { error } = await supabase
+          .from("repose_outputs")
+          .update({
+            is_favorite: target.isFavorite,
+            favorite_rank: target.rank,
+            selected_at: target.isFavorite ? now : null,
+          })
+          .eq("id", output.id);
+        if (error) throw error;
+        updated++;
+      }
+
+      if (changed.length > 0) {
+        const { error: auditError } = await supabase.from("repose_selection_audit").insert(
+          changed.map((o) => {
+            const target = targets.get(o.id)!;
+            return {
+              output_id: o.id,
+              batch_id: o.batch_id,
+              review_id: reviewId,
+              source: "client_review",
+              previous_is_favorite: o.is_favorite,
+              previous_rank: o.favorite_rank,
+              new_is_favorite: target.isFavorite,
+              new_rank: target.rank,
+            };
+          })
+        );
+        if (auditError) console.error("[submit-client-review] Audit insert failed:", auditError);
+      }
+    }
+
+    await supabase
+      .from("client_reviews")
+      .update({ status: "reviewed" })
+      .eq("id", reviewId);
+
+    console.log(`[submit-client-review] ${reviewId}: ${decisionRecords.length} decisions, ${feedbackRecords.length} comments, ${updated} outputs updated`);
+
+    return jsonResponse({ success: true, updated });
+  } catch (error) {
+    console.error("[submit-client-review] Error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,188 @@
+// Authorization checks for every edge function that calls requireCaller.
+//
+// Each function is called as an anonymous visitor, a freelancer, an internal
+// user with every permission revoked, an admin and the service (a token from
+// serviceHeaders). Requests carry `x-auth-check`, so requireCaller answers
+// 204 once the caller is authorized and no function actually runs.
+//
+// Runs against a local stack:
+//
+//   supabase start
+//   supabase functions serve
+//   SUPABASE_URL=... SUPABASE_ANON_KEY=... SUPABASE_SERVICE_ROLE_KEY=... \
+//     deno test --allow-net --allow-env supabase/functions/tests/
+//
+// The keys are the ones `supabase status` prints. INTERNAL_SERVICE_TOKEN_SECRET
+// has to match the functions' if they were served with one.
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { serviceHeaders, type AppPermission } from "../_shared/auth.ts";
+
+type CallerKind = "anonymous" | "freelancer" | "internal" | "admin" | "service";
+
+interface FunctionCase {
+  name: string;
+  // Who requireCaller lets in, matching the requirement the function passes
+  access: "internal" | "signedIn" | "permission" | "serviceOnly";
+  body?: Record<string, unknown>;
+}
+
+const FUNCTIONS: FunctionCase[] = [
+  { name: "analyze-expressions", access: "internal" },
+  { name: "assign-role", access: "signedIn" },
+  { name: "classify-all", access: "internal" },
+  { name: "complete-repose-upload", access: "serviceOnly" },
+  { name: "compute-perceptual-hashes", access: "internal" },
+  { name: "convert-image", access: "internal" },
+  { name: "convert-tiff", access: "internal" },
+  { name: "crop-and-store-image", access: "internal" },
+  { name: "crop-look-head", access: "serviceOnly" },
+  { name: "detect-face-ai", access: "internal" },
+  { name: "detect-view-type", access: "internal" },
+  { name: "enforce-job-slas", access: "serviceOnly" },
+  { name: "expand-image-top", access: "internal" },
+  { name: "generate-ai-apply", access: "internal" },
+  { name: "generate-clay", access: "internal" },
+  { name: "generate-clay-single", access: "internal" },
+  { name: "generate-face-application", access: "internal" },
+  { name: "generate-face-crops", access: "internal" },
+  { name: "generate-images", access: "internal" },
+  { name: "generate-more-outputs", access: "internal" },
+  { name: "generate-outfit-description", access: "internal" },
+  { name: "generate-paired-images", access: "internal" },
+  { name: "generate-pose-single", access: "internal" },
+  { name: "generate-poses", access: "internal" },
+  // repose.run without an imageSize, repose.rerender4k with one
+  { name: "generate-repose-single", access: "permission" },
+  { name: "generate-repose-single", access: "permission", body: { imageSize: "4K" } },
+  { name: "hash-password", access: "internal" },
+  { name: "organize-clay-poses", access: "internal" },
+  { name: "organize-clay-single", access: "internal" },
+  { name: "organize-face-images", access: "internal" },
+  { name: "organize-images", access: "internal" },
+  { name: "process-expression-queue", access: "internal" },
+  { name: "process-repose-queue", access: "permission" },
+  { name: "process-repose-queue-4k", access: "permission" },
+  { name: "process-workflow-queue", access: "internal" },
+  { name: "regenerate-face-output", access: "internal" },
+  { name: "regenerate-output", access: "internal" },
+  { name: "rerender-favorites-4k", access: "permission" },
+  { name: "resume-clay-job", access: "internal" },
+  { name: "resume-face-scrape", access: "internal" },
+  { name: "resume-pipeline-job", access: "internal" },
+  { name: "resume-repose-job", access: "internal" },
+  { name: "scrape-brand", access: "internal" },
+  { name: "scrape-faces", access: "internal" },
+  { name: "scrape-product-single", access: "internal" },
+  { name: "send-notification-digest", access: "serviceOnly" },
+  { name: "upload-crop-references", access: "internal" },
+  { name: "upload-reference-images", access: "internal" },
+];
+
+const ALL_PERMISSIONS: AppPermission[] = [
+  "repose.run",
+  "repose.rerender4k",
+  "repose.delete",
+  "jobs.approve",
+  "library.lock",
+  "users.invite",
+];
+
+function expectedStatus(fn: FunctionCase, caller: CallerKind): number {
+  if (caller === "anonymous") return 401;
+  if (caller === "service") return 204;
+  if (fn.access === "serviceOnly") return 403;
+  if (caller === "admin" || fn.access === "signedIn") return 204;
+  if (caller === "internal" && fn.access === "internal") return 204;
+  return 403;
+}
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const anonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
+const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+const clientOptions = { auth: { persistSession: false, autoRefreshToken: false } };
+const admin = createClient(supabaseUrl, serviceKey, clientOptions);
+
+async function createTestUser(
+  label: string,
+  role: "freelancer" | "internal" | "admin",
+  userIds: string[],
+): Promise<string> {
+  const email = `auth-test-${label}-${crypto.randomUUID()}@example.com`;
+  const password = crypto.randomUUID();
+
+  const { data, error } = await admin.auth.admin.createUser({ email, password, email_confirm: true });
+  if (error || !data.user) throw new Error(`Failed to create ${label} user: ${error?.message}`);
+  userIds.push(data.user.id);
+
+  const { error: roleError } = await admin.from("user_roles").insert({ user_id: data.user.id, role });
+  if (roleError) throw new Error(`Failed to assign ${role}: ${roleError.message}`);
+
+  if (role === "internal") {
+    const { error: overrideError } = await admin.from("user_permission_overrides").insert(
+      ALL_PERMISSIONS.map((permission) => ({ user_id: data.user.id, permission, granted: false })),
+    );
+    if (overrideError) throw new Error(`Failed to revoke permissions: ${overrideError.message}`);
+  }
+
+  const userClient = createClient(supabaseUrl, anonKey, clientOptions);
+  const { data: session, error: signInError } = await userClient.auth.signInWithPassword({ email, password });
+  if (signInError || !session.session) throw new Error(`Failed to sign in ${label}: ${signInError?.message}`);
+  return session.session.access_token;
+}
+
+async function callerHeaders(
+  fn: string,
+  caller: CallerKind,
+  tokens: Record<"freelancer" | "internal" | "admin", string>,
+): Promise<Record<string, string>> {
+  switch (caller) {
+    case "anonymous":
+      return { Authorization: `Bearer ${anonKey}` };
+    case "service":
+      return await serviceHeaders(fn);
+    default:
+      return { Authorization: `Bearer ${tokens[caller]}` };
+  }
+}
+
+Deno.test("requireCaller rejects or admits each caller per function", async (t) => {
+  const userIds: string[] = [];
+
+  try {
+    const tokens = {
+      freelancer: await createTestUser("freelancer", "freelancer", userIds),
+      internal: await createTestUser("internal", "internal", userIds),
+      admin: await createTestUser("admin", "admin", userIds),
+    };
+    const callers: CallerKind[] = ["anonymous", "freelancer", "internal", "admin", "service"];
+
+    for (const fn of FUNCTIONS) {
+      const label = fn.body ? `${fn.name} ${JSON.stringify(fn.body)}` : fn.name;
+      await t.step(label, async (t) => {
+        for (const caller of callers) {
+          await t.step(caller, async () => {
+            const res = await fetch(`${supabaseUrl}/functions/v1/${fn.name}`, {
+              method: "POST",
+              headers: {
+                ...(await callerHeaders(fn.name, caller, tokens)),
+                apikey: anonKey,
+                "Content-Type": "application/json",
+                "x-auth-check": "1",
+              },
+              body: JSON.stringify(fn.body ?? {}),
+            });
+            const text = await res.text();
+            assertEquals(res.status, expectedStatus(fn, caller), `${label} as ${caller}: ${text}`);
+          });
+        }
+      });
+    }
+  } finally {
+    for (const id of userIds) {
+      const { error } = await admin.auth.admin.deleteUser(id);
+      if (error) console.error(`Failed to delete test user ${id}:`, error.message);
+    }
+  }
+});
@@ -1,12 +1,34 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import * as bcrypt from "https://deno.land/x/bcrypt@v0.4.1/mod.ts";
+import { createReviewAccessToken } from "../_shared/auth.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Failed attempts allowed inside the window before the caller is locked out.
+// The per-review cap stops guessing spread across many IPs.
+const LOCKOUT_WINDOW_MINUTES = 15;
+const MAX_FAILED_PER_IP = 5;
+const MAX_FAILED_PER_REVIEW = 25;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Headers set by the platform's proxies first. Clients can send their own
+// x-forwarded-for, so only the last hop - the one our proxy appended - counts.
+function getClientIp(req: Request): string {
+  const direct = req.headers.get("cf-connecting-ip") || req.headers.get("x-real-ip");
+  if (direct) return direct.trim();
+  const hops = (req.headers.get("x-forwarded-for") || "").split(",").map((hop) => hop.trim()).filter(Boolean);
+  return hops[hops.length - 1] || "unknown";
+}
+
 serve(async (req) => {
   // Handle CORS preflight
   if (req.method === "OPTIONS") {
@@ -16,50 +38,92 @@ serve(async (req) => {
   try {
     const { reviewId, password } = await req.json();
 
-    if (!reviewId || !password) {
-      return new Response(
-        JSON.stringify({ error: "Review ID and password are required" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    if (!reviewId) {
+      return jsonResponse({ error: "Review ID is required" }, 400);
     }
 
-    console.log(`[verify-review-password] Verifying password for review: ${reviewId}`);
+    const ip = getClientIp(req);
+    console.log(`[verify-review-password] Checking review ${reviewId} from ${ip}`);
 
     // Create Supabase client
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    // Get review password hash
     const { data: review, error: reviewError } = await supabase
       .from("client_reviews")
-      .select("password_hash")
+      .select("password_hash, expires_at, revoked_at")
       .eq("id", reviewId)
-      .single();
+      .maybeSingle();
 
     if (reviewError || !review) {
       console.log("[verify-review-password] Review not found");
-      return new Response(
-        JSON.stringify({ valid: false, error: "Review not found" }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      return jsonResponse({ valid: false, error: "Review not found" });
+    }
+
+    if (review.revoked_at) {
+      return jsonResponse({ valid: false, linkStatus: "revoked" });
+    }
+    if (review.expires_at && new Date(review.expires_at).getTime() <= Date.now()) {
+      return jsonResponse({ valid: false, linkStatus: "expired" });
+    }
+
+    const touchLastAccess = () =>
+      supabase
+        .from("client_reviews")
+        .update({ last_accessed_at: new Date().toISOString() })
+        .eq("id", reviewId);
+
+    // No password: this is just a link check
+    if (!review.password_hash) {
+      await touchLastAccess();
+      return jsonResponse({ valid: true, linkStatus: "active" });
+    }
+
+    if (!password) {
+      return jsonResponse({ valid: false, linkStatus: "active", passwordRequired: true });
+    }
+
+    // Claim the attempt before spending time on bcrypt. Counting and recording
+    // happen in one locked statement, so parallel guesses can't share a slot.
+    const { data: claims, error: claimError } = await supabase.rpc("claim_client_review_attempt", {
+      p_review_id: reviewId,
+      p_ip_address: ip,
+      p_window_minutes: LOCKOUT_WINDOW_MINUTES,
+      p_max_failed_per_ip: MAX_FAILED_PER_IP,
+      p_max_failed_per_review: MAX_FAILED_PER_REVIEW,
+    });
+
+    if (claimError) throw claimError;
+    const claim = claims?.[0];
+    if (!claim) throw new Error("Attempt claim returned no result");
+
+    if (!claim.attempt_id) {
+      console.log(`[verify-review-password] Locked out ${ip} for ${claim.retry_after_seconds}s`);
+      return jsonResponse({ valid: false, locked: true, retryAfterSeconds: claim.retry_after_seconds });
     }
 
-    // Verify password
     const valid = await bcrypt.compare(password, review.password_hash);
-    
+
+    if (valid) {
+      const { error: attemptError } = await supabase
+        .from("client_review_access_attempts")
+        .update({ succeeded: true })
+        .eq("id", claim.attempt_id);
+      if (attemptError) console.error("[verify-review-password] Failed to record success:", attemptError);
+      await touchLastAccess();
+    }
+
     console.log(`[verify-review-password] Password valid: ${valid}`);
 
-    return new Response(
-      JSON.stringify({ valid }),
-      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return jsonResponse({
+      valid,
+      accessToken: valid ? await createReviewAccessToken(reviewId) : undefined,
+      attemptsRemaining: valid ? undefined : Math.max(0, MAX_FAILED_PER_IP - claim.ip_failures - 1),
+    });
   } catch (error: unknown) {
     console.error("[verify-review-password] Error:", error);
     const message = error instanceof Error ? error.message : "Unknown error";
-    return new Response(
-      JSON.stringify({ error: message }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    return jsonResponse({ error: message }, 500);
   }
 });
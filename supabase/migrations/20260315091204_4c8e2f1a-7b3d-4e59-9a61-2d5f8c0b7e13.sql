@@ -0,0 +1,62 @@
+-- Optimised Workflow: server-side queue worker support
+
+ALTER TABLE public.workflow_queue
+  ADD COLUMN IF NOT EXISTS retry_after timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_workflow_queue_claim
+  ON public.workflow_queue (status, priority DESC, created_at);
+
+CREATE OR REPLACE FUNCTION public.claim_workflow_queue_items(p_batch_size integer DEFAULT 1)
+RETURNS SETOF public.workflow_queue
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.workflow_queue
+  SET status = 'running',
+      started_at = now(),
+      heartbeat_at = now(),
+      attempts = COALESCE(attempts, 0) + 1
+  WHERE id IN (
+    SELECT id FROM public.workflow_queue
+    WHERE status = 'queued'
+      AND (retry_after IS NULL OR retry_after <= now())
+    ORDER BY priority DESC, created_at ASC
+    LIMIT p_batch_size
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.recover_stale_workflow_queue_items()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE public.workflow_queue
+  SET status = CASE
+    WHEN attempts >= max_attempts THEN 'failed'
+    ELSE 'queued'
+  END,
+  error_message = CASE
+    WHEN attempts >= max_attempts THEN 'Max attempts exceeded (stale recovery)'
+    ELSE error_message
+  END,
+  completed_at = CASE
+    WHEN attempts >= max_attempts THEN now()
+    ELSE NULL
+  END
+  WHERE status = 'running'
+    AND heartbeat_at < now() - interval '10 minutes';
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
@@ -0,0 +1,26 @@
+-- Repose: per-pose usage counts for least-used pose balancing
+
+CREATE INDEX IF NOT EXISTS idx_repose_outputs_pose_id
+  ON public.repose_outputs (pose_id);
+
+CREATE INDEX IF NOT EXISTS idx_generations_pose_clay_image_id
+  ON public.generations (pose_clay_image_id);
+
+-- Counts renders from both the repose pipeline (repose_outputs.pose_id) and
+-- the legacy pose generator (generations.pose_clay_image_id); both reference
+-- the clay image rather than the library_poses row.
+CREATE OR REPLACE FUNCTION public.get_library_pose_usage(p_library_id uuid)
+RETURNS TABLE (clay_image_id uuid, usage_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT
+    lp.clay_image_id,
+    (SELECT COUNT(*) FROM public.repose_outputs ro WHERE ro.pose_id = lp.clay_image_id)
+      + (SELECT COUNT(*) FROM public.generations g WHERE g.pose_clay_image_id = lp.clay_image_id)
+      AS usage_count
+  FROM public.library_poses lp
+  WHERE lp.library_id = p_library_id;
+$$;
@@ -0,0 +1,6 @@
+-- Repose: per-look pose overrides (pinned / excluded clay poses)
+-- Shape: { "pinned": { "<SHOT_TYPE>": ["<clay_image_id>", ...] }, "excluded": ["<clay_image_id>", ...] }
+-- Written to every batch item of a look; the queue worker applies it before random selection.
+
+ALTER TABLE public.repose_batch_items
+  ADD COLUMN IF NOT EXISTS pose_overrides jsonb;
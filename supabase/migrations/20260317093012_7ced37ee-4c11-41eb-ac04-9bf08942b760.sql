@@ -0,0 +1,171 @@
+-- Global search across looks, repose outputs, talents and jobs (HubHeader search)
+-- SECURITY INVOKER so each caller only sees rows RLS already allows.
+
+CREATE INDEX IF NOT EXISTS idx_talent_looks_look_code ON public.talent_looks (lower(look_code));
+CREATE INDEX IF NOT EXISTS idx_workflow_looks_look_code ON public.workflow_looks (lower(look_code));
+CREATE INDEX IF NOT EXISTS idx_project_looks_sku_code ON public.project_looks (lower(sku_code));
+
+CREATE OR REPLACE FUNCTION public.search_global(p_query text, p_limit integer DEFAULT 8)
+RETURNS TABLE (
+  entity_type text,
+  entity_id uuid,
+  title text,
+  subtitle text,
+  status text,
+  project_id uuid,
+  batch_id uuid,
+  rank integer
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_term text := lower(trim(p_query));
+  v_pattern text;
+  v_enum_term text;
+BEGIN
+  IF v_term IS NULL OR length(v_term) < 2 THEN
+    RETURN;
+  END IF;
+
+  -- Escape LIKE wildcards typed by the user
+  v_pattern := '%' || replace(replace(replace(v_term, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+  -- "face matched" / "in progress" should hit FACE_MATCHED / IN_PROGRESS
+  v_enum_term := upper(replace(v_term, ' ', '_'));
+
+  -- Face Application looks
+  RETURN QUERY
+  SELECT 'talent_look'::text, tl.id,
+    COALESCE(tl.look_code, tl.name),
+    concat_ws(' · ', NULLIF(tl.name, tl.look_code), COALESCE(dt.name, t.name), fp.name),
+    tl.workflow_status,
+    tl.project_id,
+    NULL::uuid,
+    CASE WHEN lower(tl.look_code) = v_term THEN 0
+         WHEN lower(tl.look_code) LIKE v_term || '%' THEN 1
+         ELSE 2 END
+  FROM public.talent_looks tl
+  LEFT JOIN public.talents t ON t.id = tl.talent_id
+  LEFT JOIN public.digital_talents dt ON dt.id = tl.digital_talent_id
+  LEFT JOIN public.face_application_projects fp ON fp.id = tl.project_id
+  WHERE lower(tl.look_code) LIKE v_pattern
+     OR lower(tl.name) LIKE v_pattern
+     OR lower(t.name) LIKE v_pattern
+     OR lower(dt.name) LIKE v_pattern
+     OR lower(fp.name) LIKE v_pattern
+     OR lower(tl.workflow_status) = v_term
+     OR lower(tl.product_type) = v_term
+  ORDER BY 8, tl.created_at DESC
+  LIMIT p_limit;
+
+  -- Optimised Workflow looks
+  RETURN QUERY
+  SELECT 'workflow_look'::text, wl.id,
+    wl.look_code,
+    concat_ws(' · ', wl.name, dt.name, wp.name, b.name),
+    wl.stage::text,
+    wl.project_id,
+    NULL::uuid,
+    CASE WHEN lower(wl.look_code) = v_term THEN 0
+         WHEN lower(wl.look_code) LIKE v_term || '%' THEN 1
+         ELSE 2 END
+  FROM public.workflow_looks wl
+  LEFT JOIN public.digital_talents dt ON dt.id = wl.digital_talent_id
+  LEFT JOIN public.workflow_projects wp ON wp.id = wl.project_id
+  LEFT JOIN public.brands b ON b.id = wp.brand_id
+  WHERE lower(wl.look_code) LIKE v_pattern
+     OR lower(wl.name) LIKE v_pattern
+     OR lower(dt.name) LIKE v_pattern
+     OR lower(wp.name) LIKE v_pattern
+     OR lower(b.name) LIKE v_pattern
+     OR wl.stage::text = v_enum_term
+  ORDER BY 8, wl.updated_at DESC NULLS LAST
+  LIMIT p_limit;
+
+  -- Production project looks (Repose Production), linked to the project's latest batch
+  RETURN QUERY
+  SELECT 'project_look'::text, pl.id,
+    COALESCE(pl.sku_code, pl.look_name),
+    concat_ws(' · ', NULLIF(pl.look_name, pl.sku_code), dt.name, pp.name, b.name),
+    pp.status,
+    pl.project_id,
+    (SELECT rb.id FROM public.repose_batches rb
+      WHERE rb.project_id = pl.project_id
+      ORDER BY rb.created_at DESC NULLS LAST
+      LIMIT 1),
+    CASE WHEN lower(pl.sku_code) = v_term THEN 0
+         WHEN lower(pl.sku_code) LIKE v_term || '%' THEN 1
+         ELSE 2 END
+  FROM public.project_looks pl
+  LEFT JOIN public.production_projects pp ON pp.id = pl.project_id
+  LEFT JOIN public.brands b ON b.id = pp.brand_id
+  LEFT JOIN public.digital_talents dt ON dt.id = pl.selected_talent_id
+  WHERE lower(pl.sku_code) LIKE v_pattern
+     OR lower(pl.look_name) LIKE v_pattern
+     OR lower(dt.name) LIKE v_pattern
+     OR lower(pp.name) LIKE v_pattern
+     OR lower(b.name) LIKE v_pattern
+  ORDER BY 8, pl.created_at DESC
+  LIMIT p_limit;
+
+  -- Repose outputs, grouped per batch / look / status
+  RETURN QUERY
+  SELECT 'repose_output'::text, MIN(ro.id::text)::uuid,
+    COALESCE(tl.look_code, tl.name, 'Unassigned look'),
+    concat_ws(' · ', COUNT(*) || ' ' || ro.status || ' outputs', b.name),
+    ro.status,
+    rb.project_id,
+    ro.batch_id,
+    CASE WHEN lower(tl.look_code) = v_term THEN 0 ELSE 2 END
+  FROM public.repose_outputs ro
+  JOIN public.repose_batch_items rbi ON rbi.id = ro.batch_item_id
+  JOIN public.repose_batches rb ON rb.id = ro.batch_id
+  LEFT JOIN public.talent_looks tl ON tl.id = rbi.look_id
+  LEFT JOIN public.brands b ON b.id = rb.brand_id
+  WHERE lower(tl.look_code) LIKE v_pattern
+     OR lower(tl.name) LIKE v_pattern
+     OR lower(b.name) LIKE v_pattern
+     OR lower(ro.status) = v_term
+     OR ro.shot_type = v_enum_term
+  GROUP BY ro.batch_id, rb.project_id, tl.look_code, tl.name, ro.status, b.name
+  ORDER BY 8, MAX(ro.created_at) DESC
+  LIMIT p_limit;
+
+  -- Digital talents
+  RETURN QUERY
+  SELECT 'digital_talent'::text, dt.id,
+    dt.name,
+    dt.gender,
+    NULL::text,
+    NULL::uuid,
+    NULL::uuid,
+    CASE WHEN lower(dt.name) = v_term THEN 0
+         WHEN lower(dt.name) LIKE v_term || '%' THEN 1
+         ELSE 2 END
+  FROM public.digital_talents dt
+  WHERE lower(dt.name) LIKE v_pattern
+  ORDER BY 8, dt.name
+  LIMIT p_limit;
+
+  -- Jobs
+  RETURN QUERY
+  SELECT 'unified_job'::text, uj.id,
+    COALESCE(uj.title, replace(uj.type::text, '_', ' ')),
+    concat_ws(' · ', tl.look_code, replace(uj.type::text, '_', ' ')),
+    uj.status::text,
+    uj.project_id,
+    NULL::uuid,
+    CASE WHEN lower(uj.title) = v_term OR lower(tl.look_code) = v_term THEN 0
+         WHEN lower(uj.title) LIKE v_term || '%' THEN 1
+         ELSE 2 END
+  FROM public.unified_jobs uj
+  LEFT JOIN public.talent_looks tl ON tl.id = uj.look_id
+  WHERE lower(uj.title) LIKE v_pattern
+     OR lower(tl.look_code) LIKE v_pattern
+     OR uj.status::text = v_enum_term
+     OR uj.type::text = v_enum_term
+  ORDER BY 8, uj.updated_at DESC NULLS LAST
+  LIMIT p_limit;
+END;
+$$;
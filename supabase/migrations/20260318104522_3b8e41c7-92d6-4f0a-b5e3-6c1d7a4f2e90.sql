@@ -0,0 +1,4 @@
+-- Per-brand filename parsing rules for look / TIFF imports.
+-- NULL means the built-in parser is used.
+ALTER TABLE public.brands
+  ADD COLUMN IF NOT EXISTS import_profile jsonb;
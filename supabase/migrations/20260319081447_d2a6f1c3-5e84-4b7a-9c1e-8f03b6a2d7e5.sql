@@ -0,0 +1,48 @@
+-- SHA-256 content hashes for imported source images, used to detect the same
+-- file being imported again in any project. Rows imported before this change
+-- have no hash and are simply not matched.
+ALTER TABLE public.look_source_images
+  ADD COLUMN IF NOT EXISTS content_hash text;
+
+ALTER TABLE public.workflow_images
+  ADD COLUMN IF NOT EXISTS content_hash text;
+
+CREATE INDEX IF NOT EXISTS idx_look_source_images_content_hash
+  ON public.look_source_images (content_hash)
+  WHERE content_hash IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_workflow_images_content_hash
+  ON public.workflow_images (content_hash)
+  WHERE content_hash IS NOT NULL;
+
+-- Existing images (Face Application and Optimised Workflow) matching any of the given hashes
+CREATE OR REPLACE FUNCTION public.find_images_by_content_hash(p_hashes text[])
+RETURNS TABLE (
+  content_hash text,
+  source text,
+  image_id uuid,
+  image_url text,
+  view text,
+  look_id uuid,
+  look_name text,
+  project_id uuid,
+  project_name text
+)
+LANGUAGE sql
+STABLE
+SET search_path TO 'public'
+AS $$
+  SELECT lsi.content_hash, 'face_application'::text, lsi.id, lsi.source_url, lsi.view,
+    tl.id, COALESCE(tl.look_code, tl.name), fp.id, fp.name
+  FROM public.look_source_images lsi
+  JOIN public.talent_looks tl ON tl.id = lsi.look_id
+  LEFT JOIN public.face_application_projects fp ON fp.id = tl.project_id
+  WHERE lsi.content_hash = ANY(p_hashes)
+  UNION ALL
+  SELECT wi.content_hash, 'optimised_workflow'::text, wi.id, wi.original_url, wi.view,
+    wl.id, wl.look_code, wp.id, wp.name
+  FROM public.workflow_images wi
+  JOIN public.workflow_looks wl ON wl.id = wi.look_id
+  LEFT JOIN public.workflow_projects wp ON wp.id = wl.project_id
+  WHERE wi.content_hash = ANY(p_hashes)
+$$;
@@ -0,0 +1,11 @@
+-- 64-bit dHash (16 hex chars) of each generated output, used to stack
+-- near-identical attempts in review. Filled in by the generators, with
+-- compute-perceptual-hashes backfilling older rows.
+ALTER TABLE public.repose_outputs
+  ADD COLUMN IF NOT EXISTS perceptual_hash text;
+
+ALTER TABLE public.ai_apply_outputs
+  ADD COLUMN IF NOT EXISTS perceptual_hash text;
+
+ALTER TABLE public.face_application_outputs
+  ADD COLUMN IF NOT EXISTS perceptual_hash text;
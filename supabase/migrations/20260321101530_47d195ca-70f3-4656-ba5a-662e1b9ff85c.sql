@@ -0,0 +1,73 @@
+-- Client reviews for Repose Production favourites
+-- A review can now point at a repose batch instead of legacy generations
+ALTER TABLE public.client_reviews
+ADD COLUMN IF NOT EXISTS repose_batch_id UUID REFERENCES public.repose_batches(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_client_reviews_repose_batch
+ON public.client_reviews(repose_batch_id)
+WHERE repose_batch_id IS NOT NULL;
+
+-- Review items reference either a generation (legacy) or a repose output.
+-- Repose items snapshot the image URL and rank since clients can't read repose_outputs.
+ALTER TABLE public.client_review_items ALTER COLUMN generation_id DROP NOT NULL;
+
+ALTER TABLE public.client_review_items
+ADD COLUMN IF NOT EXISTS repose_output_id UUID REFERENCES public.repose_outputs(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS shot_type TEXT,
+ADD COLUMN IF NOT EXISTS look_code TEXT,
+ADD COLUMN IF NOT EXISTS image_url TEXT,
+ADD COLUMN IF NOT EXISTS original_rank INTEGER;
+
+-- Pinned comments: position on the image as a 0-1 fraction of width/height
+ALTER TABLE public.client_review_feedback
+ADD COLUMN IF NOT EXISTS pin_x NUMERIC CHECK (pin_x IS NULL OR (pin_x >= 0 AND pin_x <= 1)),
+ADD COLUMN IF NOT EXISTS pin_y NUMERIC CHECK (pin_y IS NULL OR (pin_y >= 0 AND pin_y <= 1));
+
+-- Per shot type approve/reject with the client's rank order
+CREATE TABLE public.client_review_decisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID REFERENCES public.client_reviews(id) ON DELETE CASCADE NOT NULL,
+  look_code TEXT NOT NULL,
+  shot_type TEXT NOT NULL,
+  decision TEXT NOT NULL CHECK (decision IN ('approved', 'rejected')),
+  ranked_output_ids UUID[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (review_id, look_code, shot_type)
+);
+
+ALTER TABLE public.client_review_decisions ENABLE ROW LEVEL SECURITY;
+
+-- Public access, matching the other client review tables (password protection at app level)
+CREATE POLICY "Public access to client_review_decisions"
+ON public.client_review_decisions FOR ALL
+USING (true) WITH CHECK (true);
+
+CREATE TRIGGER update_client_review_decisions_updated_at
+  BEFORE UPDATE ON public.client_review_decisions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Audit trail for favourite/rank changes made outside the curation screen
+CREATE TABLE public.repose_selection_audit (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  output_id UUID REFERENCES public.repose_outputs(id) ON DELETE CASCADE NOT NULL,
+  batch_id UUID REFERENCES public.repose_batches(id) ON DELETE CASCADE NOT NULL,
+  review_id UUID REFERENCES public.client_reviews(id) ON DELETE SET NULL,
+  source TEXT NOT NULL DEFAULT 'client_review',
+  previous_is_favorite BOOLEAN,
+  previous_rank INTEGER,
+  new_is_favorite BOOLEAN,
+  new_rank INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_repose_selection_audit_batch
+ON public.repose_selection_audit(batch_id, created_at DESC);
+
+ALTER TABLE public.repose_selection_audit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view repose selection audit"
+ON public.repose_selection_audit FOR SELECT
+USING (auth.role() = 'authenticated');
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.client_review_decisions;
@@ -0,0 +1,80 @@
+-- Expiring, revocable client review links with server-side attempt throttling
+
+ALTER TABLE public.client_reviews
+ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS last_accessed_at TIMESTAMPTZ;
+
+-- A link is usable until it is revoked or passes its expiry (NULL = never expires)
+CREATE OR REPLACE FUNCTION public.is_client_review_active(p_review_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.client_reviews
+    WHERE id = p_review_id
+      AND revoked_at IS NULL
+      AND (expires_at IS NULL OR expires_at > now())
+  );
+$$;
+
+-- Only internal users (or the service role) may change link expiry/revocation
+CREATE OR REPLACE FUNCTION public.protect_client_review_link_fields()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF (NEW.expires_at IS DISTINCT FROM OLD.expires_at OR NEW.revoked_at IS DISTINCT FROM OLD.revoked_at)
+     AND coalesce(auth.role(), '') <> 'service_role'
+     AND NOT public.is_internal_user(auth.uid()) THEN
+    RAISE EXCEPTION 'Only internal users can change review link expiry or revocation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_client_review_link_fields
+  BEFORE UPDATE ON public.client_reviews
+  FOR EACH ROW EXECUTE FUNCTION public.protect_client_review_link_fields();
+
+-- Review content is only reachable through an active link (internal users always)
+DROP POLICY IF EXISTS "Public access to client_review_items" ON public.client_review_items;
+CREATE POLICY "Active review links can access client_review_items"
+ON public.client_review_items FOR ALL
+USING (public.is_client_review_active(review_id) OR public.is_internal_user(auth.uid()))
+WITH CHECK (public.is_client_review_active(review_id) OR public.is_internal_user(auth.uid()));
+
+DROP POLICY IF EXISTS "Public access to client_review_feedback" ON public.client_review_feedback;
+CREATE POLICY "Active review links can access client_review_feedback"
+ON public.client_review_feedback FOR ALL
+USING (public.is_client_review_active(review_id) OR public.is_internal_user(auth.uid()))
+WITH CHECK (public.is_client_review_active(review_id) OR public.is_internal_user(auth.uid()));
+
+DROP POLICY IF EXISTS "Public access to client_review_decisions" ON public.client_review_decisions;
+CREATE POLICY "Active review links can access client_review_decisions"
+ON public.client_review_decisions FOR ALL
+USING (public.is_client_review_active(review_id) OR public.is_internal_user(auth.uid()))
+WITH CHECK (public.is_client_review_active(review_id) OR public.is_internal_user(auth.uid()));
+
+-- Password attempts per review and IP; written by verify-review-password only
+CREATE TABLE public.client_review_access_attempts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  review_id UUID REFERENCES public.client_reviews(id) ON DELETE CASCADE NOT NULL,
+  ip_address TEXT NOT NULL,
+  succeeded BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_client_review_access_attempts_lookup
+ON public.client_review_access_attempts(review_id, ip_address, created_at DESC);
+
+ALTER TABLE public.client_review_access_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Internal users can view client_review_access_attempts"
+ON public.client_review_access_attempts FOR SELECT
+USING (public.is_internal_user(auth.uid()));
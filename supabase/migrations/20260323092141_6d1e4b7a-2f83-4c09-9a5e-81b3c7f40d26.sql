@@ -0,0 +1,44 @@
+-- Notification centre: per-user preferences, email digest tracking and realtime delivery
+
+CREATE TABLE public.notification_preferences (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES public.users(id) ON DELETE CASCADE,
+  -- Types hidden from the in-app feed and bell
+  muted_types notification_type[] NOT NULL DEFAULT '{}',
+  -- How often unread notifications are batched into an email
+  email_digest TEXT NOT NULL DEFAULT 'daily' CHECK (email_digest IN ('off', 'hourly', 'daily')),
+  -- Types left out of the email digest
+  email_muted_types notification_type[] NOT NULL DEFAULT '{}',
+  last_digest_sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notification preferences"
+ON public.notification_preferences FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can create their own notification preferences"
+ON public.notification_preferences FOR INSERT
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own notification preferences"
+ON public.notification_preferences FOR UPDATE
+USING (user_id = auth.uid());
+
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON public.notification_preferences
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Set once a notification has been included in an email digest
+ALTER TABLE public.notifications
+ADD COLUMN IF NOT EXISTS emailed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_notifications_pending_digest
+  ON public.notifications(user_id, created_at)
+  WHERE read_at IS NULL AND emailed_at IS NULL;
+
+-- Push new notifications to the bell as they are written
+ALTER TABLE public.notifications REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
@@ -0,0 +1,117 @@
+-- @mentions in review threads
+--
+-- Comment bodies carry mention tokens of the form @[Display Name](user:<uuid>)
+-- or @[Display Name](freelancer:<uuid>). A trigger turns them into
+-- COMMENT_MENTION notifications so it also works for anonymous freelancer
+-- replies, and never notifies a freelancer about an INTERNAL_ONLY comment.
+
+-- Freelancer identities are not auth users, so a notification targets one or the other
+ALTER TABLE public.notifications
+ALTER COLUMN user_id DROP NOT NULL;
+
+ALTER TABLE public.notifications
+ADD COLUMN IF NOT EXISTS freelancer_identity_id UUID REFERENCES public.freelancer_identities(id) ON DELETE CASCADE;
+
+ALTER TABLE public.notifications
+ADD CONSTRAINT notifications_recipient_check
+CHECK (user_id IS NOT NULL OR freelancer_identity_id IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_freelancer_identity
+  ON public.notifications(freelancer_identity_id)
+  WHERE freelancer_identity_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.create_comment_mention_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_job_id UUID;
+  v_asset_id UUID;
+  v_annotation_id UUID;
+  v_asset_label TEXT;
+  v_actor_name TEXT;
+  v_excerpt TEXT;
+  v_metadata JSONB;
+  v_mention RECORD;
+BEGIN
+  IF NEW.body IS NULL OR position('@[' IN NEW.body) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT s.job_id, t.asset_id, t.annotation_id, a.label
+  INTO v_job_id, v_asset_id, v_annotation_id, v_asset_label
+  FROM public.review_threads t
+  JOIN public.job_submissions s ON s.id = t.submission_id
+  LEFT JOIN public.submission_assets a ON a.id = t.asset_id
+  WHERE t.id = NEW.thread_id;
+
+  IF NEW.author_user_id IS NOT NULL THEN
+    SELECT coalesce(u.display_name, split_part(u.email, '@', 1)) INTO v_actor_name
+    FROM public.users u WHERE u.id = NEW.author_user_id;
+  ELSIF NEW.freelancer_identity_id IS NOT NULL THEN
+    SELECT coalesce(f.display_name, f.first_name || ' ' || f.last_name) INTO v_actor_name
+    FROM public.freelancer_identities f WHERE f.id = NEW.freelancer_identity_id;
+  END IF;
+
+  -- Plain-text preview with tokens collapsed to @Name
+  v_excerpt := left(regexp_replace(NEW.body, '@\[([^\]]*)\]\((user|freelancer):[0-9a-fA-F-]{36}\)', '@\1', 'g'), 140);
+
+  v_metadata := jsonb_strip_nulls(jsonb_build_object(
+    'assetId', v_asset_id,
+    'annotationId', v_annotation_id,
+    'assetLabel', v_asset_label,
+    'actorName', v_actor_name,
+    'excerpt', v_excerpt
+  ));
+
+  FOR v_mention IN
+    SELECT DISTINCT m[1] AS kind, m[2]::UUID AS target_id
+    FROM regexp_matches(NEW.body, '@\[[^\]]*\]\((user|freelancer):([0-9a-fA-F-]{36})\)', 'g') AS m
+  LOOP
+    IF v_mention.kind = 'user' THEN
+      CONTINUE WHEN v_mention.target_id = NEW.author_user_id;
+      -- Internal comments only reach internal users
+      CONTINUE WHEN NEW.visibility = 'INTERNAL_ONLY' AND NOT public.is_internal_user(v_mention.target_id);
+      CONTINUE WHEN NOT EXISTS (SELECT 1 FROM public.users WHERE id = v_mention.target_id);
+
+      INSERT INTO public.notifications (user_id, type, job_id, comment_id, metadata)
+      VALUES (v_mention.target_id, 'COMMENT_MENTION', v_job_id, NEW.id, v_metadata);
+    ELSE
+      CONTINUE WHEN NEW.visibility = 'INTERNAL_ONLY';
+      CONTINUE WHEN v_mention.target_id = NEW.freelancer_identity_id;
+      CONTINUE WHEN NOT EXISTS (SELECT 1 FROM public.freelancer_identities WHERE id = v_mention.target_id);
+
+      INSERT INTO public.notifications (freelancer_identity_id, type, job_id, comment_id, metadata)
+      VALUES (v_mention.target_id, 'COMMENT_MENTION', v_job_id, NEW.id, v_metadata);
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER create_comment_mention_notifications
+  AFTER INSERT ON public.review_comments
+  FOR EACH ROW EXECUTE FUNCTION public.create_comment_mention_notifications();
+
+-- Public (freelancer/token) access must never expose internal comments
+DROP POLICY IF EXISTS "public_read_comments_for_freelancer_or_token_jobs" ON public.review_comments;
+
+CREATE POLICY "public_read_comments_for_freelancer_or_token_jobs"
+  ON public.review_comments FOR SELECT
+  USING (
+    (
+      visibility = 'SHARED'
+      AND thread_id IN (
+        SELECT rt.id
+        FROM review_threads rt
+        JOIN job_submissions js ON rt.submission_id = js.id
+        JOIN unified_jobs uj ON js.job_id = uj.id
+        WHERE uj.access_token IS NOT NULL
+           OR uj.freelancer_identity_id IS NOT NULL
+      )
+    )
+    OR is_internal_user(auth.uid())
+  );
@@ -0,0 +1,74 @@
+-- Freelancer job SLAs, reminders and auto-reclaim
+
+-- Turnaround targets per job type
+CREATE TABLE public.job_type_slas (
+  job_type job_type NOT NULL PRIMARY KEY,
+  -- Claim (IN_PROGRESS) to first submission
+  first_submission_hours NUMERIC NOT NULL DEFAULT 24 CHECK (first_submission_hours > 0),
+  -- NEEDS_CHANGES to resubmission
+  needs_changes_hours NUMERIC NOT NULL DEFAULT 12 CHECK (needs_changes_hours > 0),
+  -- How long before the deadline the assignee gets a reminder
+  reminder_lead_hours NUMERIC NOT NULL DEFAULT 4 CHECK (reminder_lead_hours >= 0),
+  -- Return overdue IN_PROGRESS jobs to the open pool
+  auto_reclaim BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.job_type_slas (job_type)
+VALUES ('PHOTOSHOP_FACE_APPLY'), ('RETOUCH_FINAL'), ('FOUNDATION_FACE_REPLACE')
+ON CONFLICT (job_type) DO NOTHING;
+
+ALTER TABLE public.job_type_slas ENABLE ROW LEVEL SECURITY;
+
+-- Freelancer boards show overdue badges, so SLAs are readable by anyone
+CREATE POLICY "Anyone can view job SLAs"
+ON public.job_type_slas FOR SELECT
+USING (true);
+
+CREATE POLICY "Internal users can manage job SLAs"
+ON public.job_type_slas FOR ALL
+USING (public.is_internal_user(auth.uid()))
+WITH CHECK (public.is_internal_user(auth.uid()));
+
+CREATE TRIGGER update_job_type_slas_updated_at
+  BEFORE UPDATE ON public.job_type_slas
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- SLA clocks run from the last status change
+ALTER TABLE public.unified_jobs
+ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS sla_reminder_sent_at TIMESTAMPTZ;
+
+UPDATE public.unified_jobs
+SET status_changed_at = coalesce(started_at, updated_at, created_at, now())
+WHERE status_changed_at IS NULL;
+
+ALTER TABLE public.unified_jobs
+ALTER COLUMN status_changed_at SET DEFAULT now();
+
+CREATE OR REPLACE FUNCTION public.track_unified_job_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.status_changed_at := now();
+    NEW.sla_reminder_sent_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER track_unified_job_status_change
+  BEFORE INSERT OR UPDATE OF status ON public.unified_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.track_unified_job_status_change();
+
+CREATE INDEX IF NOT EXISTS idx_unified_jobs_sla_active
+  ON public.unified_jobs(status, status_changed_at)
+  WHERE status IN ('IN_PROGRESS', 'NEEDS_CHANGES');
+
+-- Reminder and reclaim notifications
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'JOB_DUE_SOON';
+ALTER TYPE notification_type ADD VALUE IF NOT EXISTS 'JOB_RECLAIMED';
@@ -0,0 +1,34 @@
+-- Record freelancer-identity claims in audit_events for throughput analytics.
+-- The public workspace claims jobs anonymously, so it cannot write audit_events
+-- itself; authenticated claims (useClaimJob) already log job_claimed.
+
+CREATE OR REPLACE FUNCTION public.log_freelancer_identity_claim()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.freelancer_identity_id IS NOT NULL
+     AND NEW.freelancer_identity_id IS DISTINCT FROM OLD.freelancer_identity_id THEN
+    INSERT INTO public.audit_events (action, job_id, project_id, metadata)
+    VALUES (
+      'job_claimed',
+      NEW.id,
+      NEW.project_id,
+      jsonb_build_object(
+        'freelancer_identity_id', NEW.freelancer_identity_id,
+        'timestamp', now()
+      )
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_freelancer_identity_claim
+  AFTER UPDATE OF freelancer_identity_id ON public.unified_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.log_freelancer_identity_claim();
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_job_action
+  ON public.audit_events(job_id, action);
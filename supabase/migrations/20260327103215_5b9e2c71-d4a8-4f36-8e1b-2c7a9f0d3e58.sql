@@ -0,0 +1,149 @@
+-- Freelancer accounts
+-- Freelancer identities were matched by name only, so anyone typing the same
+-- name became that freelancer. Identities are now bound to an auth account and
+-- issued through invites (token link + optional PIN) redeemed by the
+-- freelancer-login edge function.
+
+-- 1. Link identities to accounts
+ALTER TABLE public.freelancer_identities
+  ADD COLUMN user_id UUID UNIQUE REFERENCES public.users(id) ON DELETE SET NULL,
+  ADD COLUMN linked_at TIMESTAMPTZ;
+
+-- Names no longer identify a freelancer, so two people may share one
+DROP INDEX IF EXISTS public.idx_freelancer_identity_name;
+
+-- 2. Invites can target an existing identity (migration path for legacy
+-- name-only freelancers) and count wrong PIN guesses
+ALTER TABLE public.invites
+  ADD COLUMN freelancer_identity_id UUID REFERENCES public.freelancer_identities(id) ON DELETE CASCADE,
+  ADD COLUMN failed_pin_attempts INTEGER NOT NULL DEFAULT 0;
+
+-- 3. Identity of the signed-in freelancer, NULL for anyone else
+CREATE OR REPLACE FUNCTION public.current_freelancer_identity_id()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT id FROM public.freelancer_identities WHERE user_id = auth.uid()
+$$;
+
+-- 4. Invites were readable by anyone, exposing every token and PIN.
+-- Staff signup looks an invite up by its token instead.
+DROP POLICY IF EXISTS "Anyone can read invites by token" ON public.invites;
+
+CREATE OR REPLACE FUNCTION public.get_invite_by_token(p_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  role app_role,
+  email TEXT,
+  job_id UUID,
+  project_id UUID,
+  expires_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT i.id, i.role, i.email, i.job_id, i.project_id, i.expires_at
+  FROM public.invites i
+  WHERE i.token = p_token
+    AND i.used_at IS NULL
+    AND i.expires_at > now()
+$$;
+
+-- 5. Identities are created by freelancer-login; freelancers may only touch their own
+DROP POLICY IF EXISTS "Anyone can insert freelancer identities" ON public.freelancer_identities;
+DROP POLICY IF EXISTS "Anyone can update freelancer identities" ON public.freelancer_identities;
+
+CREATE POLICY "Freelancers can update own identity"
+ON public.freelancer_identities FOR UPDATE
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Internal users can manage freelancer identities"
+ON public.freelancer_identities FOR ALL
+USING (is_internal_user(auth.uid()))
+WITH CHECK (is_internal_user(auth.uid()));
+
+-- 6. Job writes are bound to the signed-in freelancer's identity
+DROP POLICY IF EXISTS "public_update_claimable_jobs" ON public.unified_jobs;
+CREATE POLICY "public_update_claimable_jobs" ON public.unified_jobs
+FOR UPDATE
+USING (
+  status = 'OPEN'
+  AND assigned_user_id IS NULL
+  AND freelancer_identity_id IS NULL
+  AND public.current_freelancer_identity_id() IS NOT NULL
+)
+WITH CHECK (
+  freelancer_identity_id = public.current_freelancer_identity_id()
+  AND status = 'IN_PROGRESS'
+);
+
+DROP POLICY IF EXISTS "public_update_in_progress_jobs" ON public.unified_jobs;
+CREATE POLICY "public_update_in_progress_jobs" ON public.unified_jobs
+FOR UPDATE
+USING (
+  freelancer_identity_id = public.current_freelancer_identity_id()
+  AND status IN ('IN_PROGRESS', 'NEEDS_CHANGES')
+)
+WITH CHECK (
+  -- Submit, or hand the job back to the pool
+  (freelancer_identity_id = public.current_freelancer_identity_id()
+    AND status IN ('IN_PROGRESS', 'NEEDS_CHANGES', 'SUBMITTED'))
+  OR (freelancer_identity_id IS NULL AND status = 'OPEN')
+);
+
+DROP POLICY IF EXISTS "public_insert_job_outputs" ON public.job_outputs;
+CREATE POLICY "public_insert_job_outputs" ON public.job_outputs
+FOR INSERT
+WITH CHECK (
+  freelancer_identity_id = public.current_freelancer_identity_id()
+  AND job_id IN (
+    SELECT id FROM public.unified_jobs
+    WHERE freelancer_identity_id = public.current_freelancer_identity_id()
+  )
+);
+
+DROP POLICY IF EXISTS "public_delete_own_job_outputs" ON public.job_outputs;
+CREATE POLICY "public_delete_own_job_outputs" ON public.job_outputs
+FOR DELETE
+USING (freelancer_identity_id = public.current_freelancer_identity_id());
+
+DROP POLICY IF EXISTS "public_insert_submissions_for_freelancer_jobs" ON public.job_submissions;
+CREATE POLICY "public_insert_submissions_for_freelancer_jobs" ON public.job_submissions
+FOR INSERT TO public
+WITH CHECK (
+  (job_id IN (SELECT id FROM unified_jobs WHERE access_token IS NOT NULL))
+  OR
+  (freelancer_identity_id = public.current_freelancer_identity_id()
+    AND job_id IN (
+      SELECT id FROM unified_jobs
+      WHERE freelancer_identity_id = public.current_freelancer_identity_id()
+    ))
+  OR
+  is_internal_user(auth.uid())
+);
+
+DROP POLICY IF EXISTS "public_insert_submission_assets_for_freelancer_jobs" ON public.submission_assets;
+CREATE POLICY "public_insert_submission_assets_for_freelancer_jobs" ON public.submission_assets
+FOR INSERT TO public
+WITH CHECK (
+  (submission_id IN (
+    SELECT js.id FROM job_submissions js
+    JOIN unified_jobs uj ON js.job_id = uj.id
+    WHERE uj.access_token IS NOT NULL
+  ))
+  OR
+  (freelancer_identity_id = public.current_freelancer_identity_id()
+    AND submission_id IN (
+      SELECT js.id FROM job_submissions js
+      JOIN unified_jobs uj ON js.job_id = uj.id
+      WHERE uj.freelancer_identity_id = public.current_freelancer_identity_id()
+    ))
+  OR
+  is_internal_user(auth.uid())
+);
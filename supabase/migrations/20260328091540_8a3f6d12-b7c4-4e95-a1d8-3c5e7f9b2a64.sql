@@ -0,0 +1,15 @@
+-- Non-rectangular review annotations.
+-- rect stays the bounding box for every shape; points holds the outline
+-- (POLYGON, FREEHAND), tail/head (ARROW) or pin position (POINT), all in
+-- normalized 0-1 image coordinates.
+ALTER TYPE annotation_shape ADD VALUE IF NOT EXISTS 'POLYGON';
+ALTER TYPE annotation_shape ADD VALUE IF NOT EXISTS 'FREEHAND';
+ALTER TYPE annotation_shape ADD VALUE IF NOT EXISTS 'ARROW';
+ALTER TYPE annotation_shape ADD VALUE IF NOT EXISTS 'POINT';
+
+ALTER TABLE public.image_annotations
+  ADD COLUMN IF NOT EXISTS points jsonb;
+
+ALTER TABLE public.image_annotations
+  ADD CONSTRAINT image_annotations_points_is_array
+  CHECK (points IS NULL OR jsonb_typeof(points) = 'array');
@@ -0,0 +1,170 @@
+-- Permission matrix
+-- Roles gate whole areas of the app; permissions gate individual actions
+-- inside them. Each role maps to a set of permissions and a per-user override
+-- can grant or revoke a single permission. Admins always hold every
+-- permission so the matrix can't lock everyone out.
+
+-- 1. Actions
+CREATE TYPE public.app_permission AS ENUM (
+  'repose.run',
+  'repose.rerender4k',
+  'repose.delete',
+  'jobs.approve',
+  'library.lock',
+  'users.invite'
+);
+
+-- 2. Role defaults
+CREATE TABLE public.role_permissions (
+  role app_role NOT NULL,
+  permission app_permission NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (role, permission)
+);
+
+-- Internal users keep everything they could do before the matrix existed
+INSERT INTO public.role_permissions (role, permission)
+SELECT r.role, p.permission
+FROM unnest(ARRAY['admin', 'internal']::app_role[]) AS r(role)
+CROSS JOIN unnest(enum_range(NULL::app_permission)) AS p(permission)
+ON CONFLICT DO NOTHING;
+
+-- 3. Per-user overrides: granted = false revokes a role default
+CREATE TABLE public.user_permission_overrides (
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  permission app_permission NOT NULL,
+  granted BOOLEAN NOT NULL,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, permission)
+);
+
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_permission_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view role permissions"
+ON public.role_permissions FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage role permissions"
+ON public.role_permissions FOR ALL
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view own permission overrides"
+ON public.user_permission_overrides FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage permission overrides"
+ON public.user_permission_overrides FOR ALL
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+-- 4. Checks
+CREATE OR REPLACE FUNCTION public.has_permission(_user_id UUID, _permission app_permission)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT has_role(_user_id, 'admin') OR COALESCE(
+    (SELECT o.granted FROM public.user_permission_overrides o
+     WHERE o.user_id = _user_id AND o.permission = _permission),
+    EXISTS (
+      SELECT 1 FROM public.role_permissions rp
+      JOIN public.user_roles ur ON ur.role = rp.role
+      WHERE ur.user_id = _user_id AND rp.permission = _permission
+    )
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_user_permissions(_user_id UUID)
+RETURNS SETOF app_permission
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p FROM unnest(enum_range(NULL::app_permission)) AS p
+  WHERE has_permission(_user_id, p)
+$$;
+
+-- 5. Enforcement on direct table writes. Service-role writes (edge
+-- functions) have no auth.uid() and are checked in the function instead.
+
+-- Approving assets or jobs
+CREATE OR REPLACE FUNCTION public.enforce_asset_approval_permission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NEW.review_status = 'APPROVED'
+    AND OLD.review_status IS DISTINCT FROM 'APPROVED'
+    AND NOT has_permission(auth.uid(), 'jobs.approve') THEN
+    RAISE EXCEPTION 'Missing permission: jobs.approve' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_asset_approval_permission
+  BEFORE UPDATE OF review_status ON public.submission_assets
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_asset_approval_permission();
+
+CREATE OR REPLACE FUNCTION public.enforce_job_approval_permission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NEW.status = 'APPROVED'
+    AND OLD.status IS DISTINCT FROM 'APPROVED'
+    AND NOT has_permission(auth.uid(), 'jobs.approve') THEN
+    RAISE EXCEPTION 'Missing permission: jobs.approve' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_job_approval_permission
+  BEFORE UPDATE OF status ON public.unified_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_job_approval_permission();
+
+-- Locking and unlocking pose libraries
+CREATE OR REPLACE FUNCTION public.enforce_library_lock_permission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NEW.status IS DISTINCT FROM OLD.status
+    AND 'locked' IN (NEW.status, OLD.status)
+    AND NOT has_permission(auth.uid(), 'library.lock') THEN
+    RAISE EXCEPTION 'Missing permission: library.lock' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_library_lock_permission
+  BEFORE UPDATE OF status ON public.brand_pose_libraries
+  FOR EACH ROW EXECUTE FUNCTION public.enforce_library_lock_permission();
+
+-- Deleting repose batches and their outputs
+CREATE POLICY "Deleting repose batches requires repose.delete"
+ON public.repose_batches AS RESTRICTIVE FOR DELETE
+USING (public.has_permission(auth.uid(), 'repose.delete'));
+
+CREATE POLICY "Deleting repose outputs requires repose.delete"
+ON public.repose_outputs AS RESTRICTIVE FOR DELETE
+USING (public.has_permission(auth.uid(), 'repose.delete'));
+
+-- Creating invites
+CREATE POLICY "Creating invites requires users.invite"
+ON public.invites AS RESTRICTIVE FOR INSERT
+WITH CHECK (public.has_permission(auth.uid(), 'users.invite'));
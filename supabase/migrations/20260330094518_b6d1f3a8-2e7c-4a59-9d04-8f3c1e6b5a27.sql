@@ -0,0 +1,127 @@
+-- Prompt library
+-- One row per named version of the prompt a pipeline sends to the model.
+-- Exactly one version per pipeline is active; generation functions read it,
+-- fill in the {variable} placeholders and fall back to their built-in prompt
+-- when no version is active. Outputs keep the id of the version they used.
+
+CREATE TABLE public.prompt_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pipeline TEXT NOT NULL CHECK (pipeline IN ('repose', 'ai_apply', 'face_application', 'clay', 'expression')),
+  version TEXT NOT NULL,
+  template TEXT NOT NULL,
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (pipeline, version)
+);
+
+CREATE UNIQUE INDEX idx_prompt_versions_active
+ON public.prompt_versions(pipeline)
+WHERE is_active;
+
+ALTER TABLE public.prompt_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Internal users can view prompt versions"
+ON public.prompt_versions FOR SELECT
+USING (is_internal_user(auth.uid()));
+
+CREATE POLICY "Internal users can add prompt versions"
+ON public.prompt_versions FOR INSERT
+WITH CHECK (is_internal_user(auth.uid()));
+
+CREATE POLICY "Internal users can update prompt versions"
+ON public.prompt_versions FOR UPDATE
+USING (is_internal_user(auth.uid()));
+
+-- Deactivate before activating: the partial unique index is checked row by row
+CREATE OR REPLACE FUNCTION public.activate_prompt_version(_version_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _pipeline TEXT;
+BEGIN
+  SELECT pipeline INTO _pipeline FROM public.prompt_versions WHERE id = _version_id;
+  IF _pipeline IS NULL THEN
+    RAISE EXCEPTION 'Prompt version % not found', _version_id;
+  END IF;
+
+  UPDATE public.prompt_versions
+  SET is_active = false
+  WHERE pipeline = _pipeline AND is_active AND id <> _version_id;
+
+  UPDATE public.prompt_versions
+  SET is_active = true
+  WHERE id = _version_id;
+END;
+$$;
+
+-- Seed each pipeline with the prompt its function used until now
+INSERT INTO public.prompt_versions (pipeline, version, template, notes, is_active) VALUES
+('repose', 'v1', 'Use the provided greyscale reference image as a strict pose, camera, and framing template.
+
+**OUTPUT FORMAT: Generate a 3:4 portrait aspect ratio image (768x1024 pixels).**
+
+Repose the subject in the input photo to exactly match the reference in:
+- body pose and limb positioning
+- head tilt and shoulder angle
+- weight distribution and stance
+- camera height, focal distance, and perspective
+- image crop and framing
+
+The output must be a 3:4 portrait aspect ratio image matching the reference pose exactly.
+
+If the reference image does not show the full body, do not include the full body in the output.
+
+Do not zoom out, extend the frame, or reveal additional body parts beyond what is visible in the reference.
+
+Do not alter the subject''s identity, facial features, hairstyle, body proportions, clothing, colours, logos, fabric textures, or materials.
+
+Do not stylise or reinterpret the image.
+
+The final image should look like the original photo, naturally repositioned in 3:4 portrait format and cropped identically to the reference image.', 'Prompt in use before the library', true),
+('ai_apply', 'v1', 'Recreate image 1 with "{outfitDescription}", keep the crop, pose and clothing exactly the same but put the head of image 2 on it.
+
+{viewPrompt}
+
+Keep face and lighting consistent from image 3.
+
+Model shot in soft, high-key studio lighting. Background is clean white with no visible texture. Light is diffused and even, creating minimal shadows. Key light is centred and slightly above eye level, producing gentle falloff on the cheeks and a natural, matte skin appearance. No harsh rim light. Overall look is crisp, neutral, and modern, similar to premium fashion e-commerce photography. Colours are true-to-life with subtle contrast.', 'Prompt in use before the library', true),
+('face_application', 'v1', 'Recreate image 1 with "{outfitDescription}", keep the crop, pose and clothing exactly the same but put the head of image 2 on it. {viewPrompt}
+
+Model photographed in soft, high-key studio lighting against a clean white background with no visible texture. Light is diffused and even, creating minimal shadows. Key light is centred and slightly above eye level, producing gentle falloff on the cheeks and a natural, matte skin appearance. No harsh rim light. Overall look is crisp, neutral, and modern, similar to premium fashion e-commerce photography. Colours are true-to-life with subtle contrast.', 'Prompt in use before the library', true),
+('clay', 'v1', 'Convert this photo into a stylised 3D clay model render. Grey matte material, subtle polygonal mesh shading, simplified anatomy, smooth sculpted surfaces. Neutral studio lighting, no background texture. Replicate the exact pose and body orientation from the reference image. Maintain the proportions and overall silhouette exactly as in the original photo.', 'Prompt in use before the library', true),
+('expression', 'v1', '{masterPrompt}
+
+Expression recipe:
+{deltaLine}
+
+Shot specs:
+studio, neutral background, soft controlled fashion lighting, no beauty filter, no face morphing.', 'Prompt in use before the library', true);
+
+-- Keep the old AI Apply templates around as inactive versions
+INSERT INTO public.prompt_versions (pipeline, version, template, notes)
+SELECT 'ai_apply', name || ' ' || version, template, 'Imported from ai_apply_prompt_templates'
+FROM public.ai_apply_prompt_templates
+ON CONFLICT (pipeline, version) DO NOTHING;
+
+-- Provenance: which version produced each output
+ALTER TABLE public.repose_outputs
+ADD COLUMN prompt_version_id UUID REFERENCES public.prompt_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.ai_apply_outputs
+ADD COLUMN prompt_version_id UUID REFERENCES public.prompt_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.face_application_outputs
+ADD COLUMN prompt_version_id UUID REFERENCES public.prompt_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.clay_images
+ADD COLUMN prompt_version_id UUID REFERENCES public.prompt_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.expression_render_queue
+ADD COLUMN prompt_version_id UUID REFERENCES public.prompt_versions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.outputs
+ADD COLUMN prompt_version_id UUID REFERENCES public.prompt_versions(id) ON DELETE SET NULL;
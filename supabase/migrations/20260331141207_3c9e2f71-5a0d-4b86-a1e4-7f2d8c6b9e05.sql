@@ -0,0 +1,292 @@
+-- AI usage ledger
+-- Every model call made through the shared AI provider is logged with the
+-- function, model, image size and whatever project/batch/job it ran for.
+-- Costs are estimated from ai_model_prices when the row is written, so price
+-- changes only affect new calls. Budgets cap the estimated spend of a project
+-- or brand: a soft budget pauses running jobs once when it is crossed, a hard
+-- budget keeps pausing them and makes the provider refuse further calls.
+
+-- 1. Price table
+-- image_size '' is the price for any size without its own row. Image models
+-- are priced per generated image, text models per call.
+CREATE TABLE public.ai_model_prices (
+  model TEXT NOT NULL,
+  image_size TEXT NOT NULL DEFAULT '',
+  unit_cost_usd NUMERIC(10, 4) NOT NULL CHECK (unit_cost_usd >= 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (model, image_size)
+);
+
+INSERT INTO public.ai_model_prices (model, image_size, unit_cost_usd) VALUES
+  ('google/gemini-3-pro-image-preview', '', 0.134),
+  ('google/gemini-3-pro-image-preview', '4K', 0.24),
+  ('gemini/gemini-3-pro-image-preview', '', 0.134),
+  ('gemini/gemini-3-pro-image-preview', '4K', 0.24),
+  ('google/gemini-2.5-flash-image-preview', '', 0.039),
+  ('google/gemini-2.5-flash', '', 0.002),
+  ('google/gemini-2.5-pro', '', 0.01),
+  ('openai/gpt-5-mini', '', 0.002),
+  ('openai/gpt-5', '', 0.01);
+
+-- 2. Ledger
+CREATE TABLE public.ai_usage_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  function_name TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  image_size TEXT,
+  images_generated INTEGER NOT NULL DEFAULT 0,
+  succeeded BOOLEAN NOT NULL,
+  error_status INTEGER,
+  project_id UUID REFERENCES public.production_projects(id) ON DELETE SET NULL,
+  brand_id UUID REFERENCES public.brands(id) ON DELETE SET NULL,
+  batch_id UUID REFERENCES public.repose_batches(id) ON DELETE SET NULL,
+  pipeline_job_id UUID REFERENCES public.pipeline_jobs(id) ON DELETE SET NULL,
+  user_id UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- NULL when the model has no price row
+  estimated_cost_usd NUMERIC(10, 4)
+);
+
+CREATE INDEX idx_ai_usage_ledger_created_at ON public.ai_usage_ledger(created_at);
+CREATE INDEX idx_ai_usage_ledger_project ON public.ai_usage_ledger(project_id) WHERE project_id IS NOT NULL;
+CREATE INDEX idx_ai_usage_ledger_brand ON public.ai_usage_ledger(brand_id) WHERE brand_id IS NOT NULL;
+CREATE INDEX idx_ai_usage_ledger_pipeline_job ON public.ai_usage_ledger(pipeline_job_id) WHERE pipeline_job_id IS NOT NULL;
+
+-- 3. Budgets
+CREATE TABLE public.ai_budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID UNIQUE REFERENCES public.production_projects(id) ON DELETE CASCADE,
+  brand_id UUID UNIQUE REFERENCES public.brands(id) ON DELETE CASCADE,
+  limit_usd NUMERIC(10, 2) NOT NULL CHECK (limit_usd > 0),
+  enforcement TEXT NOT NULL DEFAULT 'soft' CHECK (enforcement IN ('soft', 'hard')),
+  -- 'month' counts spend since the start of the current calendar month
+  period TEXT NOT NULL DEFAULT 'total' CHECK (period IN ('total', 'month')),
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(project_id, brand_id) = 1)
+);
+
+CREATE TRIGGER update_ai_budgets_updated_at
+BEFORE UPDATE ON public.ai_budgets
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- 4. RLS: inserts into the ledger come from edge functions (service role)
+ALTER TABLE public.ai_model_prices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_usage_ledger ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_budgets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Internal users can view AI prices"
+ON public.ai_model_prices FOR SELECT
+USING (is_internal_user(auth.uid()));
+
+CREATE POLICY "Admins can manage AI prices"
+ON public.ai_model_prices FOR ALL
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Internal users can view AI usage"
+ON public.ai_usage_ledger FOR SELECT
+USING (is_internal_user(auth.uid()));
+
+CREATE POLICY "Internal users can view AI budgets"
+ON public.ai_budgets FOR SELECT
+USING (is_internal_user(auth.uid()));
+
+CREATE POLICY "Admins can manage AI budgets"
+ON public.ai_budgets FOR ALL
+USING (has_role(auth.uid(), 'admin'))
+WITH CHECK (has_role(auth.uid(), 'admin'));
+
+-- 5. Attribution and pricing on insert
+CREATE OR REPLACE FUNCTION public.price_ai_usage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _unit_cost NUMERIC;
+BEGIN
+  IF NEW.batch_id IS NOT NULL AND (NEW.project_id IS NULL OR NEW.brand_id IS NULL) THEN
+    SELECT COALESCE(NEW.project_id, b.project_id), COALESCE(NEW.brand_id, b.brand_id)
+    INTO NEW.project_id, NEW.brand_id
+    FROM repose_batches b
+    WHERE b.id = NEW.batch_id;
+  END IF;
+
+  IF NEW.project_id IS NOT NULL AND NEW.brand_id IS NULL THEN
+    SELECT p.brand_id INTO NEW.brand_id
+    FROM production_projects p
+    WHERE p.id = NEW.project_id;
+  END IF;
+
+  IF NEW.provider = 'mock' OR NOT NEW.succeeded THEN
+    NEW.estimated_cost_usd := 0;
+    RETURN NEW;
+  END IF;
+
+  SELECT unit_cost_usd INTO _unit_cost
+  FROM ai_model_prices
+  WHERE model = NEW.model AND image_size IN (COALESCE(NEW.image_size, ''), '')
+  ORDER BY image_size DESC
+  LIMIT 1;
+
+  NEW.estimated_cost_usd := _unit_cost * GREATEST(NEW.images_generated, 1);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER price_ai_usage_before_insert
+BEFORE INSERT ON public.ai_usage_ledger
+FOR EACH ROW
+EXECUTE FUNCTION public.price_ai_usage();
+
+-- 6. Budget checks
+CREATE OR REPLACE FUNCTION public.ai_budget_spent(_budget_id UUID)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(l.estimated_cost_usd), 0)
+  FROM ai_budgets b
+  JOIN ai_usage_ledger l
+    ON (l.project_id = b.project_id OR l.brand_id = b.brand_id)
+   AND (b.period = 'total' OR l.created_at >= date_trunc('month', now()))
+  WHERE b.id = _budget_id
+$$;
+
+-- Returns why new calls for this scope are blocked, or NULL when they aren't
+CREATE OR REPLACE FUNCTION public.ai_budget_block_reason(
+  _project_id UUID DEFAULT NULL,
+  _brand_id UUID DEFAULT NULL,
+  _batch_id UUID DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _budget RECORD;
+  _spent NUMERIC;
+BEGIN
+  IF _batch_id IS NOT NULL THEN
+    SELECT COALESCE(_project_id, b.project_id), COALESCE(_brand_id, b.brand_id)
+    INTO _project_id, _brand_id
+    FROM repose_batches b
+    WHERE b.id = _batch_id;
+  END IF;
+
+  IF _project_id IS NOT NULL AND _brand_id IS NULL THEN
+    SELECT p.brand_id INTO _brand_id FROM production_projects p WHERE p.id = _project_id;
+  END IF;
+
+  FOR _budget IN
+    SELECT * FROM ai_budgets
+    WHERE enforcement = 'hard'
+      AND (project_id = _project_id OR brand_id = _brand_id)
+  LOOP
+    _spent := ai_budget_spent(_budget.id);
+    IF _spent >= _budget.limit_usd THEN
+      RETURN format(
+        'Hard AI budget for this %s exceeded ($%s of $%s)',
+        CASE WHEN _budget.project_id IS NOT NULL THEN 'project' ELSE 'brand' END,
+        round(_spent, 2),
+        _budget.limit_usd
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Soft budgets pause on the call that crosses the limit, so a resumed job
+-- keeps running. Hard budgets pause on every call over the limit.
+CREATE OR REPLACE FUNCTION public.enforce_ai_budgets()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _budget RECORD;
+  _spent NUMERIC;
+BEGIN
+  IF COALESCE(NEW.estimated_cost_usd, 0) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  FOR _budget IN
+    SELECT * FROM ai_budgets
+    WHERE project_id = NEW.project_id OR brand_id = NEW.brand_id
+  LOOP
+    _spent := ai_budget_spent(_budget.id);
+    CONTINUE WHEN _spent < _budget.limit_usd;
+    CONTINUE WHEN _budget.enforcement = 'soft' AND _spent - NEW.estimated_cost_usd >= _budget.limit_usd;
+
+    UPDATE pipeline_jobs
+    SET status = 'PAUSED',
+        progress_message = format('Paused: AI budget of $%s exceeded', _budget.limit_usd),
+        updated_at = now()
+    WHERE status IN ('QUEUED', 'RUNNING')
+      AND (
+        id IN (
+          SELECT l.pipeline_job_id FROM ai_usage_ledger l
+          WHERE l.pipeline_job_id IS NOT NULL
+            AND (l.project_id = _budget.project_id OR l.brand_id = _budget.brand_id)
+        )
+        OR origin_context->>'batchId' IN (
+          SELECT b.id::text FROM repose_batches b
+          WHERE b.project_id = _budget.project_id OR b.brand_id = _budget.brand_id
+        )
+      );
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_ai_budgets_after_insert
+AFTER INSERT ON public.ai_usage_ledger
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_ai_budgets();
+
+-- 7. Dashboard rollup, one row per scope/function/model
+CREATE OR REPLACE FUNCTION public.get_ai_spend_summary(_since TIMESTAMPTZ DEFAULT NULL)
+RETURNS TABLE (
+  project_id UUID,
+  brand_id UUID,
+  function_name TEXT,
+  model TEXT,
+  calls BIGINT,
+  failed_calls BIGINT,
+  unpriced_calls BIGINT,
+  images BIGINT,
+  cost_usd NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT
+    l.project_id,
+    l.brand_id,
+    l.function_name,
+    l.model,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE NOT l.succeeded),
+    COUNT(*) FILTER (WHERE l.estimated_cost_usd IS NULL),
+    COALESCE(SUM(l.images_generated), 0),
+    COALESCE(SUM(l.estimated_cost_usd), 0)
+  FROM ai_usage_ledger l
+  WHERE _since IS NULL OR l.created_at >= _since
+  GROUP BY l.project_id, l.brand_id, l.function_name, l.model
+$$;
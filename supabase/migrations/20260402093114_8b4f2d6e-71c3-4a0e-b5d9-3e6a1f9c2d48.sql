@@ -0,0 +1,16 @@
+-- Face embeddings for model clustering
+-- classify-all embeds each scraped image's face once and stores the vector
+-- next to its bounding boxes. Models are then formed by clustering those
+-- vectors instead of comparing every pair of models with a vision call.
+-- embedding_model records what produced the vector, so switching models
+-- re-embeds instead of mixing incomparable vectors.
+
+ALTER TABLE public.face_detections
+  ADD COLUMN embedding REAL[],
+  ADD COLUMN embedding_model TEXT,
+  ADD COLUMN embedded_at TIMESTAMPTZ;
+
+-- Max distance between two models' mean embeddings for them to be merged
+ALTER TABLE public.face_scrape_runs
+  ADD COLUMN cluster_distance_threshold REAL NOT NULL DEFAULT 0.18
+    CHECK (cluster_distance_threshold > 0 AND cluster_distance_threshold <= 1);
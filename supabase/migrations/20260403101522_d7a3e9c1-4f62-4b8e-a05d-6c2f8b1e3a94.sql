@@ -0,0 +1,54 @@
+-- Crop calibration
+-- The geometric head-and-shoulders crop expands the face box by three
+-- multipliers. A profile stores multipliers fitted per brand and view from
+-- the manual fixes in crop_corrections, with the mean error before and after
+-- fitting so operators can see whether it helped.
+
+-- Face box and aspect ratio the suggestion was made for (percentages).
+-- Older corrections fall back to face_detections when its box is in percent.
+ALTER TABLE public.crop_corrections
+  ADD COLUMN face_x NUMERIC,
+  ADD COLUMN face_y NUMERIC,
+  ADD COLUMN face_width NUMERIC,
+  ADD COLUMN face_height NUMERIC,
+  ADD COLUMN aspect_ratio TEXT;
+
+CREATE TABLE public.crop_calibration_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  brand_name TEXT NOT NULL,
+  view_type TEXT NOT NULL,
+  above_face_multiplier NUMERIC NOT NULL,
+  below_face_multiplier NUMERIC NOT NULL,
+  horizontal_padding NUMERIC NOT NULL,
+  sample_count INTEGER NOT NULL,
+  -- Mean absolute edge error in percentage points over the samples
+  mean_error_before NUMERIC NOT NULL,
+  mean_error_after NUMERIC NOT NULL,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (brand_name, view_type)
+);
+
+ALTER TABLE public.crop_calibration_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Internal users can view crop calibration profiles"
+ON public.crop_calibration_profiles FOR SELECT
+USING (is_internal_user(auth.uid()));
+
+CREATE POLICY "Internal users can add crop calibration profiles"
+ON public.crop_calibration_profiles FOR INSERT
+WITH CHECK (is_internal_user(auth.uid()));
+
+CREATE POLICY "Internal users can update crop calibration profiles"
+ON public.crop_calibration_profiles FOR UPDATE
+USING (is_internal_user(auth.uid()));
+
+CREATE POLICY "Internal users can delete crop calibration profiles"
+ON public.crop_calibration_profiles FOR DELETE
+USING (is_internal_user(auth.uid()));
+
+CREATE TRIGGER update_crop_calibration_profiles_updated_at
+BEFORE UPDATE ON public.crop_calibration_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,8 @@
+-- Repose: freeze pose usage counts per batch
+-- Least-used pose selection read live render counts, so re-running a batch
+-- with the same seed picked different poses once earlier runs had rendered.
+-- The first run to need the counts stores them here, keyed by library id then
+-- clay image id, and every later run of the batch reuses them.
+
+ALTER TABLE public.repose_batches
+  ADD COLUMN pose_usage_snapshot JSONB;
@@ -0,0 +1,62 @@
+-- Atomic password attempt throttling for client review links
+-- verify-review-password used to count recent failures and insert the new
+-- attempt in separate requests, so parallel guesses all saw the same count
+-- and got past both caps. Claiming an attempt now counts and inserts under a
+-- per-review lock, before the password is compared; the attempt starts out
+-- failed and is marked succeeded afterwards if the password matched.
+
+CREATE OR REPLACE FUNCTION public.claim_client_review_attempt(
+  p_review_id UUID,
+  p_ip_address TEXT,
+  p_window_minutes INTEGER,
+  p_max_failed_per_ip INTEGER,
+  p_max_failed_per_review INTEGER
+)
+RETURNS TABLE (attempt_id UUID, ip_failures INTEGER, retry_after_seconds INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_window_start TIMESTAMPTZ := now() - make_interval(mins => p_window_minutes);
+  v_ip_failures INTEGER;
+  v_review_failures INTEGER;
+  v_oldest TIMESTAMPTZ;
+  v_attempt_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('client_review_attempt:' || p_review_id::text));
+
+  SELECT count(*) FILTER (WHERE ip_address = p_ip_address), count(*)
+  INTO v_ip_failures, v_review_failures
+  FROM public.client_review_access_attempts
+  WHERE review_id = p_review_id
+    AND NOT succeeded
+    AND created_at >= v_window_start;
+
+  IF v_ip_failures >= p_max_failed_per_ip OR v_review_failures >= p_max_failed_per_review THEN
+    -- Lock lifts once the oldest counted failure leaves the window
+    SELECT min(created_at) INTO v_oldest
+    FROM public.client_review_access_attempts
+    WHERE review_id = p_review_id
+      AND NOT succeeded
+      AND created_at >= v_window_start
+      AND (v_ip_failures < p_max_failed_per_ip OR ip_address = p_ip_address);
+
+    RETURN QUERY SELECT
+      NULL::UUID,
+      v_ip_failures,
+      GREATEST(1, ceil(extract(epoch FROM v_oldest + make_interval(mins => p_window_minutes) - now())))::INTEGER;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.client_review_access_attempts (review_id, ip_address, succeeded)
+  VALUES (p_review_id, p_ip_address, false)
+  RETURNING id INTO v_attempt_id;
+
+  RETURN QUERY SELECT v_attempt_id, v_ip_failures, NULL::INTEGER;
+END;
+$$;
+
+-- Service role only: anyone else could use it to lock a review's links
+REVOKE EXECUTE ON FUNCTION public.claim_client_review_attempt(UUID, TEXT, INTEGER, INTEGER, INTEGER)
+FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,187 @@
+-- Freelancer job access, part two
+-- 20260327103215 bound job writes to the signed-in freelancer, but the older
+-- permissive policies were still in place next to the new ones, and RLS ORs
+-- policies together: job inputs, outputs and notes were readable by anyone,
+-- notes and outputs writable by anyone (any job with an access token), and
+-- every claimed job, submission and review thread was readable by everyone.
+-- Freelancer access is now limited to jobs held by their own identity, plus
+-- the inputs of OPEN jobs so the job board can show what a job involves.
+-- Internal users keep their own "manage" policies on every table here.
+-- The invite PIN check also moves into SQL (section 8): freelancer-login read
+-- the failure count and wrote it back, so parallel guesses shared one count.
+
+-- 1. Jobs
+DROP POLICY IF EXISTS "public_read_freelancer_jobs" ON public.unified_jobs;
+CREATE POLICY "public_read_freelancer_jobs" ON public.unified_jobs
+FOR SELECT
+USING (freelancer_identity_id = public.current_freelancer_identity_id());
+
+-- 2. Inputs: own jobs, or OPEN jobs nobody holds yet
+DROP POLICY IF EXISTS "public_read_job_inputs" ON public.job_inputs;
+DROP POLICY IF EXISTS "public_read_inputs_for_token_jobs" ON public.job_inputs;
+CREATE POLICY "public_read_job_inputs" ON public.job_inputs
+FOR SELECT
+USING (
+  job_id IN (
+    SELECT id FROM public.unified_jobs
+    WHERE freelancer_identity_id = public.current_freelancer_identity_id()
+       OR (status = 'OPEN' AND assigned_user_id IS NULL AND freelancer_identity_id IS NULL)
+  )
+);
+
+-- 3. Outputs: inserts and deletes were already scoped; reads now are too
+DROP POLICY IF EXISTS "public_read_job_outputs" ON public.job_outputs;
+DROP POLICY IF EXISTS "public_read_outputs_for_token_jobs" ON public.job_outputs;
+DROP POLICY IF EXISTS "public_insert_outputs_for_token_jobs" ON public.job_outputs;
+CREATE POLICY "public_read_job_outputs" ON public.job_outputs
+FOR SELECT
+USING (
+  job_id IN (
+    SELECT id FROM public.unified_jobs
+    WHERE freelancer_identity_id = public.current_freelancer_identity_id()
+  )
+);
+
+-- 4. Notes
+DROP POLICY IF EXISTS "public_read_job_notes" ON public.job_notes;
+DROP POLICY IF EXISTS "public_insert_job_notes" ON public.job_notes;
+DROP POLICY IF EXISTS "public_read_notes_for_token_jobs" ON public.job_notes;
+DROP POLICY IF EXISTS "public_insert_notes_for_token_jobs" ON public.job_notes;
+CREATE POLICY "public_read_job_notes" ON public.job_notes
+FOR SELECT
+USING (
+  job_id IN (
+    SELECT id FROM public.unified_jobs
+    WHERE freelancer_identity_id = public.current_freelancer_identity_id()
+  )
+);
+
+CREATE POLICY "public_insert_job_notes" ON public.job_notes
+FOR INSERT
+WITH CHECK (
+  (author_id IS NULL OR author_id = auth.uid())
+  AND job_id IN (
+    SELECT id FROM public.unified_jobs
+    WHERE freelancer_identity_id = public.current_freelancer_identity_id()
+  )
+);
+
+-- 5. Submissions: drop the access_token branch and the any-claimed-job read
+DROP POLICY IF EXISTS "public_insert_submissions_for_freelancer_jobs" ON public.job_submissions;
+CREATE POLICY "public_insert_submissions_for_freelancer_jobs" ON public.job_submissions
+FOR INSERT TO public
+WITH CHECK (
+  (freelancer_identity_id = public.current_freelancer_identity_id()
+    AND job_id IN (
+      SELECT id FROM unified_jobs
+      WHERE freelancer_identity_id = public.current_freelancer_identity_id()
+    ))
+  OR
+  is_internal_user(auth.uid())
+);
+
+DROP POLICY IF EXISTS "public_read_submissions_for_freelancer_or_token_jobs" ON public.job_submissions;
+CREATE POLICY "public_read_submissions_for_freelancer_jobs" ON public.job_submissions
+FOR SELECT TO public
+USING (
+  job_id IN (
+    SELECT id FROM unified_jobs
+    WHERE freelancer_identity_id = public.current_freelancer_identity_id()
+  )
+  OR
+  is_internal_user(auth.uid())
+);
+
+-- 6. Submission assets
+DROP POLICY IF EXISTS "public_insert_submission_assets_for_freelancer_jobs" ON public.submission_assets;
+CREATE POLICY "public_insert_submission_assets_for_freelancer_jobs" ON public.submission_assets
+FOR INSERT TO public
+WITH CHECK (
+  (freelancer_identity_id = public.current_freelancer_identity_id()
+    AND submission_id IN (
+      SELECT js.id FROM job_submissions js
+      JOIN unified_jobs uj ON js.job_id = uj.id
+      WHERE uj.freelancer_identity_id = public.current_freelancer_identity_id()
+    ))
+  OR
+  is_internal_user(auth.uid())
+);
+
+DROP POLICY IF EXISTS "public_read_submission_assets_for_freelancer_or_token_jobs" ON public.submission_assets;
+CREATE POLICY "public_read_submission_assets_for_freelancer_jobs" ON public.submission_assets
+FOR SELECT TO public
+USING (
+  submission_id IN (
+    SELECT js.id FROM job_submissions js
+    JOIN unified_jobs uj ON js.job_id = uj.id
+    WHERE uj.freelancer_identity_id = public.current_freelancer_identity_id()
+  )
+  OR
+  is_internal_user(auth.uid())
+);
+
+-- 7. Review threads and comments (internal comments stay hidden)
+DROP POLICY IF EXISTS "public_read_threads_for_freelancer_or_token_jobs" ON public.review_threads;
+CREATE POLICY "public_read_threads_for_freelancer_jobs"
+  ON public.review_threads FOR SELECT
+  USING (
+    submission_id IN (
+      SELECT js.id
+      FROM job_submissions js
+      JOIN unified_jobs uj ON js.job_id = uj.id
+      WHERE uj.freelancer_identity_id = public.current_freelancer_identity_id()
+    )
+    OR is_internal_user(auth.uid())
+  );
+
+DROP POLICY IF EXISTS "public_read_comments_for_freelancer_or_token_jobs" ON public.review_comments;
+CREATE POLICY "public_read_comments_for_freelancer_jobs"
+  ON public.review_comments FOR SELECT
+  USING (
+    (
+      visibility = 'SHARED'
+      AND thread_id IN (
+        SELECT rt.id
+        FROM review_threads rt
+        JOIN job_submissions js ON rt.submission_id = js.id
+        JOIN unified_jobs uj ON js.job_id = uj.id
+        WHERE uj.freelancer_identity_id = public.current_freelancer_identity_id()
+      )
+    )
+    OR is_internal_user(auth.uid())
+  );
+
+DROP POLICY IF EXISTS "public_insert_comments_for_token_jobs" ON public.review_comments;
+CREATE POLICY "public_insert_comments_for_freelancer_jobs"
+  ON public.review_comments FOR INSERT
+  WITH CHECK (
+    visibility = 'SHARED'
+    AND (freelancer_identity_id IS NULL OR freelancer_identity_id = public.current_freelancer_identity_id())
+    AND (author_user_id IS NULL OR author_user_id = auth.uid())
+    AND thread_id IN (
+      SELECT rt.id
+      FROM review_threads rt
+      JOIN job_submissions js ON rt.submission_id = js.id
+      JOIN unified_jobs uj ON js.job_id = uj.id
+      WHERE uj.freelancer_identity_id = public.current_freelancer_identity_id()
+    )
+  );
+
+-- 8. Invite PIN checks. Comparing and counting in one UPDATE holds the row
+-- lock, so concurrent guesses queue up and each sees the previous one's count.
+-- No row back means the invite is already locked.
+CREATE OR REPLACE FUNCTION public.check_invite_pin(p_invite_id UUID, p_pin TEXT, p_max_attempts INTEGER)
+RETURNS TABLE (valid BOOLEAN, failed_pin_attempts INTEGER)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  UPDATE public.invites i
+  SET failed_pin_attempts = i.failed_pin_attempts + CASE WHEN i.pin_code = p_pin THEN 0 ELSE 1 END
+  WHERE i.id = p_invite_id
+    AND i.failed_pin_attempts < p_max_attempts
+  RETURNING i.pin_code = p_pin, i.failed_pin_attempts
+$$;
+
+-- Service role only (freelancer-login): anyone else could guess PINs directly
+REVOKE EXECUTE ON FUNCTION public.check_invite_pin(UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,113 @@
+-- Notifications for freelancer identities
+-- Mentions of a freelancer were stored with only freelancer_identity_id, but
+-- the bell, the unread count and the email digest all read notifications by
+-- user_id, so freelancers never saw them. Identities now carry the account
+-- they sign in with (freelancer_identities.user_id), so notifications go to
+-- that account. Identities that haven't signed in yet keep identity-only rows,
+-- which are handed to the account once it is linked.
+
+CREATE OR REPLACE FUNCTION public.create_comment_mention_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+DECLARE
+  v_job_id UUID;
+  v_asset_id UUID;
+  v_annotation_id UUID;
+  v_asset_label TEXT;
+  v_actor_name TEXT;
+  v_excerpt TEXT;
+  v_metadata JSONB;
+  v_mention RECORD;
+  v_recipient_user_id UUID;
+BEGIN
+  IF NEW.body IS NULL OR position('@[' IN NEW.body) = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT s.job_id, t.asset_id, t.annotation_id, a.label
+  INTO v_job_id, v_asset_id, v_annotation_id, v_asset_label
+  FROM public.review_threads t
+  JOIN public.job_submissions s ON s.id = t.submission_id
+  LEFT JOIN public.submission_assets a ON a.id = t.asset_id
+  WHERE t.id = NEW.thread_id;
+
+  IF NEW.author_user_id IS NOT NULL THEN
+    SELECT coalesce(u.display_name, split_part(u.email, '@', 1)) INTO v_actor_name
+    FROM public.users u WHERE u.id = NEW.author_user_id;
+  ELSIF NEW.freelancer_identity_id IS NOT NULL THEN
+    SELECT coalesce(f.display_name, f.first_name || ' ' || f.last_name) INTO v_actor_name
+    FROM public.freelancer_identities f WHERE f.id = NEW.freelancer_identity_id;
+  END IF;
+
+  -- Plain-text preview with tokens collapsed to @Name
+  v_excerpt := left(regexp_replace(NEW.body, '@\[([^\]]*)\]\((user|freelancer):[0-9a-fA-F-]{36}\)', '@\1', 'g'), 140);
+
+  v_metadata := jsonb_strip_nulls(jsonb_build_object(
+    'assetId', v_asset_id,
+    'annotationId', v_annotation_id,
+    'assetLabel', v_asset_label,
+    'actorName', v_actor_name,
+    'excerpt', v_excerpt
+  ));
+
+  FOR v_mention IN
+    SELECT DISTINCT m[1] AS kind, m[2]::UUID AS target_id
+    FROM regexp_matches(NEW.body, '@\[[^\]]*\]\((user|freelancer):([0-9a-fA-F-]{36})\)', 'g') AS m
+  LOOP
+    IF v_mention.kind = 'user' THEN
+      CONTINUE WHEN v_mention.target_id = NEW.author_user_id;
+      -- Internal comments only reach internal users
+      CONTINUE WHEN NEW.visibility = 'INTERNAL_ONLY' AND NOT public.is_internal_user(v_mention.target_id);
+      CONTINUE WHEN NOT EXISTS (SELECT 1 FROM public.users WHERE id = v_mention.target_id);
+
+      INSERT INTO public.notifications (user_id, type, job_id, comment_id, metadata)
+      VALUES (v_mention.target_id, 'COMMENT_MENTION', v_job_id, NEW.id, v_metadata);
+    ELSE
+      CONTINUE WHEN NEW.visibility = 'INTERNAL_ONLY';
+      CONTINUE WHEN v_mention.target_id = NEW.freelancer_identity_id;
+      CONTINUE WHEN NOT EXISTS (SELECT 1 FROM public.freelancer_identities WHERE id = v_mention.target_id);
+
+      SELECT f.user_id INTO v_recipient_user_id
+      FROM public.freelancer_identities f WHERE f.id = v_mention.target_id;
+      CONTINUE WHEN v_recipient_user_id = NEW.author_user_id;
+
+      INSERT INTO public.notifications (user_id, freelancer_identity_id, type, job_id, comment_id, metadata)
+      VALUES (v_recipient_user_id, v_mention.target_id, 'COMMENT_MENTION', v_job_id, NEW.id, v_metadata);
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_freelancer_identity_notifications()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+BEGIN
+  IF NEW.user_id IS NOT NULL THEN
+    UPDATE public.notifications
+    SET user_id = NEW.user_id
+    WHERE freelancer_identity_id = NEW.id
+      AND user_id IS NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_freelancer_identity_notifications
+  AFTER INSERT OR UPDATE OF user_id ON public.freelancer_identities
+  FOR EACH ROW EXECUTE FUNCTION public.assign_freelancer_identity_notifications();
+
+-- Identities linked before this migration
+UPDATE public.notifications n
+SET user_id = f.user_id
+FROM public.freelancer_identities f
+WHERE n.freelancer_identity_id = f.id
+  AND n.user_id IS NULL
+  AND f.user_id IS NOT NULL;
@@ -0,0 +1,47 @@
+-- AI usage attribution
+-- Workers continuing a pipeline job call the AI as the service, so the ledger
+-- row has the job but not the user who started it. Fill it in from the job.
+
+CREATE OR REPLACE FUNCTION public.price_ai_usage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _unit_cost NUMERIC;
+BEGIN
+  IF NEW.pipeline_job_id IS NOT NULL AND NEW.user_id IS NULL THEN
+    SELECT j.created_by INTO NEW.user_id
+    FROM pipeline_jobs j
+    WHERE j.id = NEW.pipeline_job_id;
+  END IF;
+
+  IF NEW.batch_id IS NOT NULL AND (NEW.project_id IS NULL OR NEW.brand_id IS NULL) THEN
+    SELECT COALESCE(NEW.project_id, b.project_id), COALESCE(NEW.brand_id, b.brand_id)
+    INTO NEW.project_id, NEW.brand_id
+    FROM repose_batches b
+    WHERE b.id = NEW.batch_id;
+  END IF;
+
+  IF NEW.project_id IS NOT NULL AND NEW.brand_id IS NULL THEN
+    SELECT p.brand_id INTO NEW.brand_id
+    FROM production_projects p
+    WHERE p.id = NEW.project_id;
+  END IF;
+
+  IF NEW.provider = 'mock' OR NOT NEW.succeeded THEN
+    NEW.estimated_cost_usd := 0;
+    RETURN NEW;
+  END IF;
+
+  SELECT unit_cost_usd INTO _unit_cost
+  FROM ai_model_prices
+  WHERE model = NEW.model AND image_size IN (COALESCE(NEW.image_size, ''), '')
+  ORDER BY image_size DESC
+  LIMIT 1;
+
+  NEW.estimated_cost_usd := _unit_cost * GREATEST(NEW.images_generated, 1);
+  RETURN NEW;
+END;
+$$;
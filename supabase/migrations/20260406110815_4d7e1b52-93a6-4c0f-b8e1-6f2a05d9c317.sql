@@ -0,0 +1,11 @@
+-- AI budget function grants
+-- Both functions are SECURITY DEFINER and were executable by anyone with the
+-- anon key, which exposes every budget's spend and block reason.
+
+-- The AI spend panel (useAISpend) reads spend as a signed-in user
+REVOKE EXECUTE ON FUNCTION public.ai_budget_spent(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.ai_budget_spent(UUID) TO authenticated, service_role;
+
+-- Service role only: checked by the shared AI provider before each call
+REVOKE EXECUTE ON FUNCTION public.ai_budget_block_reason(UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.ai_budget_block_reason(UUID, UUID, UUID) TO service_role;